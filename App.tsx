@@ -1,13 +1,17 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { MOCK_TICKERS, DEFAULT_WATCHLIST } from './constants';
-import { StockTicker, AppMode, TimeRange, StockData } from './types';
+import { StockTicker, AppMode, TimeRange, StockData, DataSourceInfo } from './types';
 import StockChart from './components/StockChart';
 import AITradingPanel from './components/AITradingPanel';
-import StockScreener from './components/StockScreener';
+import StockScreener, { WatchlistBulkAddResult } from './components/StockScreener';
 import MultiTimeframeChart from './components/MultiTimeframeChart';
+import BacktestPanel from './components/BacktestPanel';
+import PaperTradingPanel, { PaperOrderPrefill } from './components/PaperTradingPanel';
 import RealTimeMarketReview from './components/RealTimeMarketReview';
 import Predictor from './components/Predictor';
 import TradingRecommendation from './components/TradingRecommendation';
+import FundamentalsPanel from './components/FundamentalsPanel';
+import ValuationPanel from './components/ValuationPanel';
 import QuickAnalysis from './components/QuickAnalysis';
 import LiveAssistant from './components/LiveAssistant';
 import MapsLocator from './components/MapsLocator';
@@ -27,17 +31,25 @@ import SocialTrading from './components/SocialTrading';
 import ThemeToggle from './components/ThemeToggle';
 import APIKeySettings from './components/APIKeySettings';
 import SettingsModal from './components/SettingsModal';
+import OrderBookPanel from './components/OrderBookPanel';
+import DataSourceBadge from './components/DataSourceBadge';
 import { useTheme } from './contexts/ThemeContext';
 import { getQuickSentiment } from './services/geminiService';
-import { fetchHistoricalData } from './services/marketData';
-import { fetchWatchlistData, subscribeToPrice, clearCache } from './services/stockApiService';
+import { fetchHistoryWithSource, getDefaultBarInterval } from './services/marketData';
+import { BarInterval, createBarAggregator } from './services/barAggregator';
+import { enforceEvictionLimits } from './services/offlineCacheService';
+import { fetchWatchlistData, clearCache } from './services/stockApiService';
+import { subscribePriceTicks, PriceTick } from './services/priceStreamService';
+import { PaperAccount, loadPaperAccount, getPendingOrderSymbols, startPaperOrderMatching } from './services/paperTradingService';
 import { 
-  checkAlerts, 
-  triggerAlertNotification, 
   requestNotificationPermission, 
   getActiveAlerts,
+  formatAlertMessage,
   PriceAlert 
 } from './services/priceAlertService';
+import { startAlertEngine } from './services/alertEngine';
+import { startScreenScheduler, ScreenRunResult } from './services/savedScreenService';
+import { MarketStatus, getMarketStatus, formatCountdown } from './services/marketCalendarService';
 import {
   getPortfolioSymbols,
 } from './services/portfolioService';
@@ -85,7 +97,7 @@ const App: React.FC = () => {
   const [selectedTicker, setSelectedTicker] = useState<StockTicker>(MOCK_TICKERS[0]);
   const [mode, setMode] = useState<AppMode>(AppMode.DASHBOARD);
   const [sentiment, setSentiment] = useState<string>('NEUTRAL');
-  const [isMarketOpen, setIsMarketOpen] = useState<boolean>(true);
+  const [marketStatus, setMarketStatus] = useState<MarketStatus>(() => getMarketStatus());
   const [currentTime, setCurrentTime] = useState<Date>(new Date());
   const [isLoadingWatchlist, setIsLoadingWatchlist] = useState(true);
   const [lastRefresh, setLastRefresh] = useState<string>('');
@@ -99,7 +111,9 @@ const App: React.FC = () => {
   const [activeAlertsCount, setActiveAlertsCount] = useState(0);
   const [portfolioCount, setPortfolioCount] = useState(0);
   const [triggeredAlert, setTriggeredAlert] = useState<PriceAlert | null>(null);
+  const [screenMatches, setScreenMatches] = useState<ScreenRunResult | null>(null);
   const [isNewsOpen, setIsNewsOpen] = useState(false);
+  const [sidePanelTab, setSidePanelTab] = useState<'signal' | 'fundamentals' | 'valuation'>('signal');
   
   // Auth State
   const [currentUser, setCurrentUser] = useState<User | null>(null);
@@ -124,6 +138,14 @@ const App: React.FC = () => {
   // Multi-Timeframe State
   const [isMultiTimeframeOpen, setIsMultiTimeframeOpen] = useState(false);
   
+  // Backtesting State
+  const [isBacktestOpen, setIsBacktestOpen] = useState(false);
+  
+  // Paper Trading State
+  const [isPaperTradingOpen, setIsPaperTradingOpen] = useState(false);
+  const [paperAccount, setPaperAccount] = useState<PaperAccount>(loadPaperAccount);
+  const [paperOrderPrefill, setPaperOrderPrefill] = useState<PaperOrderPrefill | null>(null);
+  
   // Social Trading State
   const [isSocialTradingOpen, setIsSocialTradingOpen] = useState(false);
   
@@ -134,7 +156,9 @@ const App: React.FC = () => {
   
   // Market Data State
   const [timeRange, setTimeRange] = useState<TimeRange>('1M');
+  const [barInterval, setBarInterval] = useState<BarInterval | null>(() => getDefaultBarInterval('1M'));
   const [chartData, setChartData] = useState<StockData[]>([]);
+  const [chartSource, setChartSource] = useState<DataSourceInfo | null>(null);
   const [isLoadingData, setIsLoadingData] = useState(false);
 
   // Load Material Icons & check market status & request notification permission
@@ -162,14 +186,14 @@ const App: React.FC = () => {
     // Initialize default admin accounts
     initializeDefaultAdminAccounts();
 
+    // Trim the offline market-data cache to its configured limits
+    enforceEvictionLimits();
+
     // Update time every minute
     const timer = setInterval(() => {
       const now = new Date();
       setCurrentTime(now);
-      // IDX Market Hours: Mon-Fri 09:00-16:00 WIB (UTC+7)
-      const hour = now.getHours();
-      const day = now.getDay();
-      setIsMarketOpen(day >= 1 && day <= 5 && hour >= 9 && hour < 16);
+      setMarketStatus(getMarketStatus(now));
     }, 60000);
 
     return () => clearInterval(timer);
@@ -197,53 +221,77 @@ const App: React.FC = () => {
       }
     };
 
+    // Harga selanjutnya datang per tick dari price stream
     loadWatchlist();
-
-    // Refresh watchlist every 30 seconds for more real-time data
-    const refreshInterval = setInterval(loadWatchlist, 30000);
-    return () => clearInterval(refreshInterval);
   }, [watchlistSymbols]);
 
-  // Subscribe to price updates for selected ticker & check alerts
+  // Show triggered alerts in the in-app toast
+  const handleAlertsTriggered = useCallback((triggered: PriceAlert[]) => {
+    if (triggered.length === 0) return;
+    setTriggeredAlert(triggered[triggered.length - 1]);
+    setActiveAlertsCount(getActiveAlerts().length);
+
+    // Clear triggered alert notification after 5 seconds
+    setTimeout(() => setTriggeredAlert(null), 5000);
+  }, []);
+
+  // Live ticks for the watchlist & selected ticker, multiplexed over one price stream
+  const streamSymbols = useMemo(
+    () => [...new Set([...watchlistSymbols, selectedTicker.symbol])].join(','),
+    [watchlistSymbols, selectedTicker.symbol]
+  );
   useEffect(() => {
-    const unsubscribe = subscribeToPrice(selectedTicker.symbol, (data) => {
-      setSelectedTicker(prev => ({
-        ...prev,
-        price: data.price,
-        change: data.change,
-        changePercent: data.changePercent,
-      }));
-      // Also update in watchlist
-      setWatchlist(prev => prev.map(t => 
-        t.symbol === selectedTicker.symbol 
-          ? { ...t, price: data.price, change: data.change, changePercent: data.changePercent }
-          : t
-      ));
-      
-      // Check price alerts
-      const triggered = checkAlerts(selectedTicker.symbol, data.price);
-      if (triggered.length > 0) {
-        triggered.forEach(alert => {
-          triggerAlertNotification(alert, data.price);
-          setTriggeredAlert(alert);
-        });
-        setActiveAlertsCount(getActiveAlerts().length);
-        
-        // Clear triggered alert notification after 5 seconds
-        setTimeout(() => setTriggeredAlert(null), 5000);
+    const applyTick = (tick: PriceTick) => {
+      const update = { price: tick.price, change: tick.change, changePercent: tick.changePercent, dataSource: tick.source };
+      setWatchlist(prev => prev.map(t => t.symbol === tick.symbol ? { ...t, ...update } : t));
+      setSelectedTicker(prev => prev.symbol === tick.symbol ? { ...prev, ...update } : prev);
+      setLastRefresh(new Date(tick.timestamp).toLocaleTimeString('id-ID'));
+    };
+    const unsubscribers = streamSymbols.split(',').map(symbol => subscribePriceTicks(symbol, applyTick));
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [streamSymbols]);
+
+  // Background alert engine: evaluates every symbol with an active alert on each tick
+  useEffect(() => startAlertEngine({ onTriggered: handleAlertsTriggered }), [handleAlertsTriggered]);
+
+  // Scheduled saved screens: toast when new symbols enter a screen's results
+  useEffect(() => startScreenScheduler({
+    onNewMatches: (result) => {
+      setScreenMatches(result);
+      setTimeout(() => setScreenMatches(null), 8000);
+    },
+  }), [currentUser?.id]);
+
+  // Notification clicked in the service worker: open that stock if it is in the watchlist
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type !== 'ALERT_NOTIFICATION_CLICK') return;
+      const ticker = watchlist.find(t => t.symbol === event.data.symbol);
+      if (ticker) {
+        setSelectedTicker(ticker);
+        setMode(AppMode.DASHBOARD);
       }
-    });
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [watchlist]);
 
-    return () => unsubscribe();
-  }, [selectedTicker.symbol]);
+  // Match pending paper orders against live prices (re-subscribe when the pending symbols change)
+  const pendingPaperSymbols = useMemo(() => getPendingOrderSymbols(paperAccount).join(','), [paperAccount]);
+  useEffect(() => {
+    if (!pendingPaperSymbols) return;
+    return startPaperOrderMatching(() => setPaperAccount(loadPaperAccount()));
+  }, [pendingPaperSymbols]);
 
   // Fetch data when ticker or range changes
   useEffect(() => {
     const loadData = async () => {
       setIsLoadingData(true);
       try {
-        const data = await fetchHistoricalData(selectedTicker.symbol, timeRange);
-        setChartData(data);
+        const history = await fetchHistoryWithSource(selectedTicker.symbol, timeRange, barInterval);
+        setChartData(history.data);
+        setChartSource(history.source);
       } catch (e) {
         console.error("Failed to load chart data", e);
       } finally {
@@ -255,11 +303,29 @@ const App: React.FC = () => {
     };
 
     loadData();
-  }, [selectedTicker, timeRange]);
+  }, [selectedTicker.symbol, selectedTicker.name, timeRange, barInterval]);
 
-  // Live Feed Simulation for 1D/5D ranges
+  // Range intraday: interval candle kembali ke default range-nya
+  const handleRangeChange = useCallback((range: TimeRange) => {
+    setTimeRange(range);
+    setBarInterval(getDefaultBarInterval(range));
+  }, []);
+
+  // Real ticks build live intraday candles on top of the fetched history
+  // (data simulasi punya live feed sendiri di bawah)
+  useEffect(() => {
+    if (!barInterval || !chartSource || chartSource.simulated) return;
+
+    const aggregator = createBarAggregator(barInterval);
+    return subscribePriceTicks(selectedTicker.symbol, tick => {
+      setChartData(prev => aggregator.apply(prev, tick));
+    });
+  }, [barInterval, selectedTicker.symbol, chartSource]);
+
+  // Live Feed Simulation for 1D/5D ranges, hanya saat data chart memang simulasi
   useEffect(() => {
     if (timeRange !== '1D' && timeRange !== '5D') return;
+    if (!chartSource?.simulated) return;
 
     const interval = setInterval(() => {
         setChartData(prev => {
@@ -282,12 +348,13 @@ const App: React.FC = () => {
                 volume: lastCandle.volume + Math.floor(Math.random() * 500)
             };
             
-            // Update selected ticker price in UI
-            setSelectedTicker(t => ({
+            // Update selected ticker price in UI (jangan timpa harga asli dari provider)
+            setSelectedTicker(t => t.dataSource && !t.dataSource.simulated ? t : ({
                 ...t,
                 price: parseFloat(newClose.toFixed(0)),
                 change: newClose - prev[0].open, // approx daily change
-                changePercent: parseFloat((((newClose - prev[0].open) / prev[0].open) * 100).toFixed(2))
+                changePercent: parseFloat((((newClose - prev[0].open) / prev[0].open) * 100).toFixed(2)),
+                dataSource: chartSource,
             }));
 
             return newData;
@@ -295,7 +362,7 @@ const App: React.FC = () => {
     }, 2000); // Update every 2 seconds
 
     return () => clearInterval(interval);
-  }, [timeRange, selectedTicker.symbol]);
+  }, [timeRange, selectedTicker.symbol, chartSource]);
 
   // Memoized price display
   const priceDisplay = useMemo(() => ({
@@ -408,6 +475,25 @@ const App: React.FC = () => {
     return true;
   }, [showUsageLimit]);
 
+  // Add many symbols at once (hasil screener), dibatasi sisa kuota watchlist paket
+  const handleAddSymbolsToWatchlist = useCallback((symbols: string[]): WatchlistBulkAddResult | null => {
+    const check = checkFeatureUsage('watchlist', watchlistSymbols.length);
+    if (!check.allowed) {
+      showUsageLimit('watchlist', check.currentUsage, check.maxUsage);
+      return null;
+    }
+
+    const candidates = symbols.filter(symbol => !watchlistSymbols.includes(symbol));
+    const capacity = check.maxUsage === -1 ? candidates.length : Math.max(0, check.maxUsage - watchlistSymbols.length);
+    const added = candidates.slice(0, capacity);
+    if (added.length > 0) {
+      const newSymbols = [...watchlistSymbols, ...added];
+      saveWatchlistToStorage(newSymbols);
+      setWatchlistSymbols(newSymbols);
+    }
+    return { added, skipped: candidates.length - added.length };
+  }, [watchlistSymbols, showUsageLimit]);
+
   // Check premium feature access
   const checkPremiumAccess = useCallback((feature: string, featureName: string): boolean => {
     const { available, requiredTier } = isPremiumFeatureAvailable(feature);
@@ -528,6 +614,7 @@ const App: React.FC = () => {
         onClose={() => setIsTransactionModalOpen(false)}
         symbol={transactionSymbol}
         currentPrice={watchlist.find(w => w.symbol === transactionSymbol)?.price || 0}
+        market={watchlist.find(w => w.symbol === transactionSymbol)?.market}
         initialType={transactionType}
         onSuccess={handleTransactionComplete}
       />
@@ -546,8 +633,10 @@ const App: React.FC = () => {
         currentStock={selectedTicker}
         stockData={chartData}
         onExecuteTrade={(signal) => {
-          console.log('Execute trade:', signal);
-          // Here you would integrate with actual trading API
+          if (signal.action === 'HOLD') return;
+          // Open the paper-trading ticket prefilled from the AI signal
+          setPaperOrderPrefill({ side: signal.action.includes('BUY') ? 'buy' : 'sell' });
+          setIsPaperTradingOpen(true);
         }}
       />
       
@@ -555,6 +644,8 @@ const App: React.FC = () => {
       <StockScreener
         isOpen={isScreenerOpen}
         onClose={() => setIsScreenerOpen(false)}
+        watchlistSymbols={watchlistSymbols}
+        onAddToWatchlist={handleAddSymbolsToWatchlist}
         onSelectStock={(symbol) => {
           const ticker = watchlist.find(w => w.symbol === symbol);
           if (ticker) {
@@ -586,10 +677,30 @@ const App: React.FC = () => {
         onClose={() => setIsMultiTimeframeOpen(false)}
       />
       
+      {/* Backtesting */}
+      <BacktestPanel
+        isOpen={isBacktestOpen}
+        onClose={() => setIsBacktestOpen(false)}
+        symbol={selectedTicker.symbol}
+      />
+      
+      {/* Paper Trading */}
+      <PaperTradingPanel
+        isOpen={isPaperTradingOpen}
+        onClose={() => {
+          setIsPaperTradingOpen(false);
+          setPaperOrderPrefill(null);
+        }}
+        ticker={selectedTicker}
+        prefill={paperOrderPrefill}
+        onAccountChange={setPaperAccount}
+      />
+      
       {/* Social Trading */}
       <SocialTrading
         isOpen={isSocialTradingOpen}
         onClose={() => setIsSocialTradingOpen(false)}
+        userBalance={paperAccount.cash}
       />
       
       {/* Triggered Alert Toast */}
@@ -600,7 +711,7 @@ const App: React.FC = () => {
             <div>
               <p className="font-bold">🔔 Alert Triggered!</p>
               <p className="text-sm opacity-90">
-                {triggeredAlert.symbol} {triggeredAlert.condition === 'above' ? '≥' : '≤'} Rp {triggeredAlert.targetPrice.toLocaleString()}
+                {formatAlertMessage(triggeredAlert)}
               </p>
             </div>
             <button 
@@ -613,6 +724,37 @@ const App: React.FC = () => {
         </div>
       )}
       
+      {/* Saved Screen Toast */}
+      {screenMatches && (
+        <div className={`fixed right-4 z-50 animate-in slide-in-from-top duration-300 ${triggeredAlert ? 'top-28' : 'top-4'}`}>
+          <div className="bg-gradient-to-r from-amber-500 to-orange-600 text-white px-5 py-4 rounded-xl shadow-2xl flex items-center gap-3">
+            <span className="material-icons-round text-2xl">filter_list</span>
+            <div>
+              <p className="font-bold">📊 {screenMatches.screen.name}</p>
+              <p className="text-sm opacity-90">
+                {screenMatches.newSymbols.length} saham baru lolos: {screenMatches.newSymbols.slice(0, 5).join(', ')}
+                {screenMatches.newSymbols.length > 5 && ` +${screenMatches.newSymbols.length - 5}`}
+              </p>
+            </div>
+            <button
+              onClick={() => {
+                setScreenMatches(null);
+                setIsScreenerOpen(true);
+              }}
+              className="ml-2 px-2 py-1 hover:bg-white/20 rounded-lg text-sm transition-colors"
+            >
+              Lihat
+            </button>
+            <button
+              onClick={() => setScreenMatches(null)}
+              className="hover:bg-white/20 p-1 rounded-lg transition-colors"
+            >
+              <span className="material-icons-round">close</span>
+            </button>
+          </div>
+        </div>
+      )}
+      
       {/* Sidebar */}
       <aside className={`w-20 lg:w-72 border-r flex flex-col flex-shrink-0 sticky top-0 h-screen transition-colors duration-300 ${
         isDark 
@@ -630,8 +772,17 @@ const App: React.FC = () => {
             <span className={`text-xl font-bold tracking-tight ${isDark ? 'text-white' : 'text-slate-800'}`}>RIZBOT</span>
             <span className="text-xl font-bold text-blue-500 ml-1">IDX</span>
             <div className="flex items-center gap-2 mt-0.5">
-              <span className={`w-2 h-2 rounded-full ${isMarketOpen ? 'bg-emerald-500 animate-pulse' : 'bg-slate-500'}`}></span>
-              <span className={`text-[10px] ${isDark ? 'text-slate-500' : 'text-slate-600'}`}>{isMarketOpen ? 'Market Open' : 'Market Closed'}</span>
+              <span className={`w-2 h-2 rounded-full ${
+                marketStatus.isOpen ? 'bg-emerald-500 animate-pulse' : marketStatus.phase === 'closed' ? 'bg-slate-500' : 'bg-amber-500'
+              }`}></span>
+              <span
+                className={`text-[10px] ${isDark ? 'text-slate-500' : 'text-slate-600'}`}
+                title={marketStatus.holiday ? `Libur bursa: ${marketStatus.holiday.name}` : undefined}
+              >
+                {marketStatus.isOpen
+                  ? `${marketStatus.label} · tutup ${formatCountdown((marketStatus.nextCloseAt ?? marketStatus.nextChangeAt) - currentTime.getTime())}`
+                  : `${marketStatus.label} · buka ${formatCountdown(marketStatus.nextOpenAt - currentTime.getTime())}`}
+              </span>
             </div>
           </div>
         </div>
@@ -748,12 +899,13 @@ const App: React.FC = () => {
                     {t.symbol.slice(0, 2)}
                   </div>
                   <div className="flex flex-col items-start">
-                    <span className={`font-semibold text-sm ${
+                    <span className={`font-semibold text-sm flex items-center gap-1.5 ${
                       selectedTicker.symbol === t.symbol 
                         ? 'text-blue-400' 
                         : isDark ? 'text-slate-200' : 'text-slate-700'
                     }`}>
                       {t.symbol}
+                      <DataSourceBadge source={t.dataSource} compact />
                     </span>
                     <span className={`text-[10px] hidden lg:block truncate max-w-[100px] ${
                       isDark ? 'text-slate-500' : 'text-slate-400'
@@ -842,7 +994,10 @@ const App: React.FC = () => {
                           {sentiment}
                         </span>
                       </h1>
-                      <span className="text-slate-500 font-normal text-xs">{selectedTicker.name}</span>
+                      <span className="text-slate-500 font-normal text-xs flex items-center gap-2">
+                        {selectedTicker.name}
+                        <DataSourceBadge source={selectedTicker.dataSource} />
+                      </span>
                     </div>
                   </div>
                   <div className="hidden sm:flex items-center gap-3 ml-4 pl-4 border-l border-slate-700/50">
@@ -915,6 +1070,28 @@ const App: React.FC = () => {
               <span className="material-icons-round text-lg group-hover:scale-110 transition-transform">grid_view</span>
             </button>
             
+            {/* Backtesting Button */}
+            <button 
+              onClick={() => {
+                if (checkPremiumAccess('backtesting', 'Backtesting')) {
+                  setIsBacktestOpen(true);
+                }
+              }}
+              className="relative bg-gradient-to-r from-violet-500/20 to-fuchsia-500/20 hover:from-violet-500/30 hover:to-fuchsia-500/30 text-white p-2.5 rounded-xl transition-all border border-violet-500/30 hover:border-fuchsia-500/50 shadow-lg shadow-violet-500/10 group"
+              title="Backtesting Strategi"
+            >
+              <span className="material-icons-round text-lg group-hover:scale-110 transition-transform">history_edu</span>
+            </button>
+            
+            {/* Paper Trading Button */}
+            <button 
+              onClick={() => setIsPaperTradingOpen(true)}
+              className="relative bg-gradient-to-r from-teal-500/20 to-cyan-500/20 hover:from-teal-500/30 hover:to-cyan-500/30 text-white p-2.5 rounded-xl transition-all border border-teal-500/30 hover:border-cyan-500/50 shadow-lg shadow-teal-500/10 group"
+              title="Paper Trading - Saldo Virtual"
+            >
+              <span className="material-icons-round text-lg group-hover:scale-110 transition-transform">science</span>
+            </button>
+            
             {/* Social Trading Button */}
             <button 
               onClick={() => setIsSocialTradingOpen(true)}
@@ -983,7 +1160,7 @@ const App: React.FC = () => {
                 : 'text-slate-600 bg-white/50 border-slate-300'
             }`}>
               <span className="material-icons-round text-sm">schedule</span>
-              {currentTime.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })} WIB
+              {currentTime.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit', timeZone: 'Asia/Jakarta' })} WIB
             </div>
             
             {/* API Key Status Indicator */}
@@ -1083,7 +1260,10 @@ const App: React.FC = () => {
                     ticker={selectedTicker}
                     chartData={chartData}
                     timeRange={timeRange}
-                    onRangeChange={setTimeRange}
+                    onRangeChange={handleRangeChange}
+                    barInterval={barInterval}
+                    onBarIntervalChange={setBarInterval}
+                    isLive={!!barInterval && !!chartSource && !chartSource.simulated && marketStatus.isOpen}
                     loading={isLoadingData}
                     isNewsOpen={isNewsOpen}
                     onOpenNews={() => setIsNewsOpen(true)}
@@ -1129,103 +1309,34 @@ const App: React.FC = () => {
 
               {/* Sidebar / AI Panel - Spans 4 cols */}
               <div className="xl:col-span-4 space-y-6">
-                {/* Trading Recommendation */}
-                <TradingRecommendation ticker={selectedTicker} chartData={chartData} />
+                {/* Signal / Fundamental / Valuation */}
+                <div className="flex bg-[#141c2f] rounded-xl p-1 border border-slate-800/60">
+                  {([
+                    { id: 'signal', label: 'Sinyal', icon: 'insights' },
+                    { id: 'fundamentals', label: 'Fundamental', icon: 'account_balance' },
+                    { id: 'valuation', label: 'Valuasi', icon: 'calculate' },
+                  ] as const).map(tab => (
+                    <button
+                      key={tab.id}
+                      onClick={() => setSidePanelTab(tab.id)}
+                      className={`flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg text-xs font-medium transition-all ${
+                        sidePanelTab === tab.id ? 'bg-blue-500/20 text-blue-400' : 'text-slate-400 hover:text-white'
+                      }`}
+                    >
+                      <span className="material-icons-round text-sm">{tab.icon}</span>
+                      {tab.label}
+                    </button>
+                  ))}
+                </div>
+                {sidePanelTab === 'signal' && <TradingRecommendation ticker={selectedTicker} chartData={chartData} />}
+                {sidePanelTab === 'fundamentals' && <FundamentalsPanel ticker={selectedTicker} />}
+                {sidePanelTab === 'valuation' && <ValuationPanel ticker={selectedTicker} />}
                 
                 {/* AI Analysis */}
                 <Predictor ticker={selectedTicker} chartData={chartData} />
                 
                 {/* Order Book */}
-                <div className="bg-gradient-to-br from-[#141c2f] to-[#0f1629] rounded-2xl p-5 border border-slate-800/60 shadow-xl">
-                  <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-sm font-bold text-slate-300 uppercase tracking-wider flex items-center gap-2">
-                      <span className="material-icons-round text-blue-400 text-lg">menu_book</span>
-                      Order Book
-                    </h3>
-                    <div className="flex items-center gap-2">
-                      <span className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse"></span>
-                      <span className="text-[10px] text-emerald-400 font-medium">LIVE</span>
-                    </div>
-                  </div>
-                  
-                  {/* Headers */}
-                  <div className="flex justify-between text-[10px] text-slate-500 uppercase font-bold mb-3 px-3">
-                    <span>Price (Rp)</span>
-                    <span>Volume (Lot)</span>
-                  </div>
-                  
-                  <div className="space-y-1.5 font-mono text-sm">
-                    {/* Ask (Sell) Orders */}
-                    <OrderBookRow 
-                      price={(selectedTicker.price * 1.015).toFixed(0)} 
-                      volume="250" 
-                      type="ask" 
-                      depth={30}
-                    />
-                    <OrderBookRow 
-                      price={(selectedTicker.price * 1.01).toFixed(0)} 
-                      volume="450" 
-                      type="ask" 
-                      depth={50}
-                    />
-                    <OrderBookRow 
-                      price={(selectedTicker.price * 1.005).toFixed(0)} 
-                      volume="1,200" 
-                      type="ask" 
-                      depth={80}
-                    />
-                    
-                    {/* Current Price */}
-                    <div className="flex justify-between items-center py-3 my-2 px-3 rounded-xl bg-gradient-to-r from-blue-500/20 via-emerald-500/20 to-blue-500/20 border border-emerald-500/30">
-                      <span className="flex items-center gap-2 text-emerald-400 font-bold text-base">
-                        <span className="w-2.5 h-2.5 rounded-full bg-emerald-500 animate-pulse shadow-lg shadow-emerald-500/50"></span>
-                        {selectedTicker.price.toLocaleString()}
-                      </span>
-                      <span className="text-emerald-400 font-semibold">2,300</span>
-                    </div>
-                    
-                    {/* Bid (Buy) Orders */}
-                    <OrderBookRow 
-                      price={(selectedTicker.price * 0.995).toFixed(0)} 
-                      volume="5,000" 
-                      type="bid" 
-                      depth={100}
-                    />
-                    <OrderBookRow 
-                      price={(selectedTicker.price * 0.99).toFixed(0)} 
-                      volume="3,200" 
-                      type="bid" 
-                      depth={70}
-                    />
-                    <OrderBookRow 
-                      price={(selectedTicker.price * 0.985).toFixed(0)} 
-                      volume="1,800" 
-                      type="bid" 
-                      depth={40}
-                    />
-                  </div>
-                  
-                  {/* Market Depth Summary */}
-                  <div className="mt-4 pt-4 border-t border-slate-700/50">
-                    <div className="flex items-center justify-between text-xs">
-                      <div className="flex items-center gap-2">
-                        <span className="w-3 h-3 rounded bg-emerald-500/30"></span>
-                        <span className="text-slate-400">Total Bid</span>
-                        <span className="text-emerald-400 font-semibold">10,000</span>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <span className="text-red-400 font-semibold">1,900</span>
-                        <span className="text-slate-400">Total Ask</span>
-                        <span className="w-3 h-3 rounded bg-red-500/30"></span>
-                      </div>
-                    </div>
-                    <div className="mt-2 h-2 rounded-full bg-slate-800 overflow-hidden flex">
-                      <div className="bg-gradient-to-r from-emerald-500 to-emerald-400 h-full" style={{width: '84%'}}></div>
-                      <div className="bg-gradient-to-r from-red-400 to-red-500 h-full" style={{width: '16%'}}></div>
-                    </div>
-                    <div className="text-center mt-2 text-[10px] text-slate-500">Buy Pressure: 84%</div>
-                  </div>
-                </div>
+                <OrderBookPanel ticker={selectedTicker} />
               </div>
             </div>
             </>
@@ -1281,30 +1392,6 @@ const SidebarItem: React.FC<SidebarItemProps> = ({ icon, label, active, onClick,
   </button>
 );
 
-// Order Book Row Component
-interface OrderBookRowProps {
-  price: string;
-  volume: string;
-  type: 'bid' | 'ask';
-  depth: number;
-}
-
-const OrderBookRow: React.FC<OrderBookRowProps> = ({ price, volume, type, depth }) => (
-  <div className="relative flex justify-between items-center px-3 py-1.5 rounded-lg overflow-hidden">
-    {/* Depth Bar */}
-    <div 
-      className={`absolute left-0 top-0 bottom-0 ${
-        type === 'bid' ? 'bg-emerald-500/10' : 'bg-red-500/10'
-      }`}
-      style={{ width: `${depth}%` }}
-    />
-    <span className={`relative z-10 ${type === 'bid' ? 'text-emerald-400' : 'text-red-400'}`}>
-      {parseInt(price).toLocaleString()}
-    </span>
-    <span className="relative z-10 text-slate-400">{volume} Lot</span>
-  </div>
-);
-
 // Quick Stat Pill Component
 interface QuickStatPillProps {
   label: string;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { StockData, StockTicker } from '../types';
+import { calculateRSI, calculateMACD, lastValue } from '../utils/indicators';
 
 // AI Model Types
 export type AIModel = 'gemini-2.0-flash' | 'gemini-2.5-pro' | 'gemini-2.5-flash' | 'gpt-4o' | 'claude-sonnet';
@@ -119,9 +120,9 @@ const generateAISignal = (
   const avgVolume = data.slice(-20).reduce((sum, d) => sum + (d.volume || 0), 0) / 20;
   const volumeRatio = (latestData?.volume || 0) / avgVolume;
   
-  // RSI calculation (simplified)
-  const gains = data.slice(-14).filter((d, i, arr) => i > 0 && d.close > arr[i-1].close).length;
-  const rsi = (gains / 14) * 100;
+  // RSI & MACD from shared indicator library
+  const rsi = lastValue(calculateRSI(data, 14)) ?? 50;
+  const macdHistogram = lastValue(calculateMACD(data).histogram) ?? 0;
   
   // Determine signal based on indicators
   let action: TradingSignal['action'] = 'HOLD';
@@ -221,7 +222,7 @@ const generateAISignal = (
     reasoning,
     indicators: {
       rsi: Math.round(rsi),
-      macd: priceChange > 0 ? 'Bullish' : 'Bearish',
+      macd: macdHistogram > 0 ? 'Bullish' : 'Bearish',
       trend: priceChange > 1 ? 'Uptrend' : priceChange < -1 ? 'Downtrend' : 'Sideways',
       volume: volumeRatio > 1.2 ? 'High' : volumeRatio < 0.8 ? 'Low' : 'Normal',
     },
@@ -118,6 +118,7 @@ const AddStockModal: React.FC<AddStockModalProps> = ({ isOpen, onClose, onAddSto
         high: priceData.high,
         low: priceData.low,
         volume: priceData.volume,
+        dataSource: priceData.source,
       };
       onAddStock(newStock);
       setSearchQuery('');
@@ -1,10 +1,15 @@
 import React, { useState, useEffect } from 'react';
+import { getFeeProfile } from '../services/feeService';
+import { IDX_LOT_SIZE, getTickSize, isValidTick, roundToTick, usesIdxRules } from '../utils/marketRules';
 import {
   addBuyTransaction,
   addSellTransaction,
-  calculateBrokerFee,
+  getTradeFees,
   calculatePosition,
+  getOpenLots,
+  getActivePortfolio,
   formatCurrency,
+  TaxLot,
 } from '../services/portfolioService';
 
 interface AddTransactionModalProps {
@@ -12,6 +17,7 @@ interface AddTransactionModalProps {
   onClose: () => void;
   symbol: string;
   currentPrice: number;
+  market?: 'IDX' | 'US' | 'CRYPTO';
   initialType?: 'buy' | 'sell';
   onSuccess: () => void;
 }
@@ -21,21 +27,29 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
   onClose,
   symbol,
   currentPrice,
+  market,
   initialType = 'buy',
   onSuccess,
 }) => {
+  // Fraksi harga hanya berlaku untuk saham IDX; harga saham US/crypto dipakai apa adanya
+  const isIdx = usesIdxRules(market);
+  const toPrice = (value: number): number => (isIdx ? roundToTick(value) : value);
+
   const [type, setType] = useState<'buy' | 'sell'>(initialType);
   const [lots, setLots] = useState<string>('1');
-  const [price, setPrice] = useState<string>(currentPrice.toString());
+  const [price, setPrice] = useState<string>(toPrice(currentPrice).toString());
   const [date, setDate] = useState<string>(new Date().toISOString().split('T')[0]);
   const [includeFee, setIncludeFee] = useState(true);
   const [note, setNote] = useState('');
   const [error, setError] = useState<string>('');
   const [maxSellLots, setMaxSellLots] = useState<number>(0);
+  const [openLots, setOpenLots] = useState<TaxLot[]>([]);
+  const [isSpecificLot, setIsSpecificLot] = useState(false);
+  const [lotSelection, setLotSelection] = useState<Record<string, number>>({});
 
   useEffect(() => {
     if (isOpen) {
-      setPrice(currentPrice.toString());
+      setPrice(toPrice(currentPrice).toString());
       setType(initialType);
       setDate(new Date().toISOString().split('T')[0]);
       setError('');
@@ -43,13 +57,22 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
       // Check available lots for selling
       const position = calculatePosition(symbol, currentPrice);
       setMaxSellLots(position?.totalShares || 0);
+
+      // Specific-lot method: let the user pick which tax lots to close
+      setOpenLots(getOpenLots(symbol));
+      setIsSpecificLot(getActivePortfolio().costBasisMethod === 'specific');
+      setLotSelection({});
     }
-  }, [isOpen, currentPrice, initialType, symbol]);
+  }, [isOpen, currentPrice, initialType, symbol, isIdx]);
 
-  const lotsNum = parseInt(lots) || 0;
+  const useLotSelection = type === 'sell' && isSpecificLot && openLots.length > 0;
+  const selectedLots = openLots.reduce((sum, lot) => sum + (lotSelection[lot.id] || 0), 0);
+  const lotsNum = useLotSelection ? selectedLots : parseInt(lots) || 0;
   const priceNum = parseFloat(price) || 0;
-  const sharesValue = lotsNum * 100 * priceNum;
-  const fee = includeFee ? calculateBrokerFee(type, lotsNum, priceNum) : 0;
+  const sharesValue = lotsNum * IDX_LOT_SIZE * priceNum;
+  const isPriceOnTick = !isIdx || priceNum <= 0 || isValidTick(priceNum);
+  const feeBreakdown = getTradeFees(type, lotsNum, priceNum);
+  const fee = includeFee ? feeBreakdown.total : 0;
   const totalValue = type === 'buy' ? sharesValue + fee : sharesValue - fee;
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -61,6 +84,11 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
       return;
     }
 
+    if (!isPriceOnTick) {
+      setError(`Harga tidak sesuai fraksi harga Rp ${getTickSize(priceNum)} (mis. Rp ${roundToTick(priceNum).toLocaleString('id-ID')})`);
+      return;
+    }
+
     // Validate sell amount
     if (type === 'sell' && lotsNum > maxSellLots) {
       setError(`Maksimal jual: ${maxSellLots} lot`);
@@ -71,9 +99,15 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
       const transactionDate = new Date(date).getTime();
       
       if (type === 'buy') {
-        addBuyTransaction(symbol, lotsNum, priceNum, fee, transactionDate, note || undefined);
+        // Fee undefined = dihitung dari jadwal biaya broker portfolio
+        addBuyTransaction(symbol, lotsNum, priceNum, includeFee ? undefined : 0, transactionDate, note || undefined);
       } else {
-        addSellTransaction(symbol, lotsNum, priceNum, fee, transactionDate, note || undefined);
+        const selection = useLotSelection
+          ? openLots
+              .filter(lot => lotSelection[lot.id] > 0)
+              .map(lot => ({ lotId: lot.id, lots: lotSelection[lot.id] }))
+          : undefined;
+        addSellTransaction(symbol, lotsNum, priceNum, includeFee ? undefined : 0, transactionDate, note || undefined, undefined, selection);
       }
 
       onSuccess();
@@ -82,6 +116,7 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
       // Reset form
       setLots('1');
       setNote('');
+      setLotSelection({});
     } catch (err: any) {
       setError(err.message || 'Terjadi kesalahan');
     }
@@ -161,7 +196,42 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
             </span>
           </div>
 
+          {/* Specific Lot Selection */}
+          {useLotSelection && (
+            <div>
+              <label className="text-xs text-slate-400 mb-2 block flex justify-between">
+                <span>Pilih Lot yang Dijual</span>
+                <span className="text-slate-500">Dipilih: {selectedLots} lot</span>
+              </label>
+              <div className="space-y-1.5 max-h-40 overflow-y-auto">
+                {openLots.map(lot => (
+                  <div key={lot.id} className="flex items-center justify-between p-2 bg-slate-800/30 rounded-lg text-xs">
+                    <div>
+                      <p className="text-slate-300">{new Date(lot.openDate).toLocaleDateString('id-ID')}</p>
+                      <p className="text-slate-500 font-mono">
+                        {lot.remainingLots} lot @ Rp {lot.costPerShare.toLocaleString('id-ID', { maximumFractionDigits: 2 })}
+                      </p>
+                    </div>
+                    <input
+                      type="number"
+                      min={0}
+                      max={lot.remainingLots}
+                      value={lotSelection[lot.id] || ''}
+                      onChange={(e) => setLotSelection(prev => ({
+                        ...prev,
+                        [lot.id]: Math.min(lot.remainingLots, Math.max(0, parseInt(e.target.value) || 0)),
+                      }))}
+                      placeholder="0"
+                      className="w-20 bg-[#0a0e17] border border-slate-700/50 rounded-lg py-1.5 px-2 text-white font-mono text-right focus:outline-none focus:border-blue-500/50"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Lots Input */}
+          {!useLotSelection && (
           <div>
             <label className="text-xs text-slate-400 mb-2 block flex justify-between">
               <span>Jumlah Lot (1 lot = 100 lembar)</span>
@@ -191,6 +261,7 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
               ))}
             </div>
           </div>
+          )}
 
           {/* Price Input */}
           <div>
@@ -207,9 +278,20 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
                 onChange={(e) => setPrice(e.target.value)}
                 className="w-full bg-[#0a0e17] border border-slate-700/50 rounded-xl py-3 pl-10 pr-4 text-white font-mono text-lg focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20 transition-all"
                 min="1"
+                step={!isIdx ? 'any' : priceNum > 0 ? getTickSize(priceNum) : 1}
                 required
               />
             </div>
+            {!isPriceOnTick && (
+              <button
+                type="button"
+                onClick={() => setPrice(roundToTick(priceNum).toString())}
+                className="mt-2 text-xs text-amber-400 hover:text-amber-300 flex items-center gap-1"
+              >
+                <span className="material-icons-round text-sm">tune</span>
+                Fraksi harga Rp {getTickSize(priceNum)} - bulatkan ke Rp {roundToTick(priceNum).toLocaleString('id-ID')}
+              </button>
+            )}
           </div>
 
           {/* Date Input */}
@@ -232,7 +314,7 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
             <div>
               <p className="text-sm text-white">Sertakan Biaya Broker</p>
               <p className="text-xs text-slate-500">
-                {type === 'buy' ? '0.15%' : '0.25%'} = {formatCurrency(fee)}
+                {getFeeProfile(getActivePortfolio().feeProfileId).name} = {formatCurrency(feeBreakdown.total)}
               </p>
             </div>
             <button
@@ -272,12 +354,22 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
               <span className="text-white font-mono">{formatCurrency(sharesValue)}</span>
             </div>
             {includeFee && (
-              <div className="flex justify-between text-sm">
-                <span className="text-slate-400">Biaya Broker</span>
-                <span className="text-slate-300 font-mono">
-                  {type === 'buy' ? '+' : '-'} {formatCurrency(fee)}
-                </span>
-              </div>
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-400">Biaya Broker</span>
+                  <span className="text-slate-300 font-mono">
+                    {type === 'buy' ? '+' : '-'} {formatCurrency(fee)}
+                  </span>
+                </div>
+                <div className="pl-3 space-y-0.5 text-[11px] text-slate-500 font-mono">
+                  <div className="flex justify-between"><span className="font-sans">Komisi</span><span>{formatCurrency(feeBreakdown.commission)}</span></div>
+                  <div className="flex justify-between"><span className="font-sans">Levy Bursa</span><span>{formatCurrency(feeBreakdown.levy)}</span></div>
+                  <div className="flex justify-between"><span className="font-sans">PPN</span><span>{formatCurrency(feeBreakdown.vat)}</span></div>
+                  {type === 'sell' && (
+                    <div className="flex justify-between"><span className="font-sans">PPh Final 0.1%</span><span>{formatCurrency(feeBreakdown.salesTax)}</span></div>
+                  )}
+                </div>
+              </>
             )}
             <div className="border-t border-slate-700/50 pt-2 flex justify-between">
               <span className="text-slate-300 font-medium">Total</span>
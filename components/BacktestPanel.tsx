@@ -0,0 +1,373 @@
+import React, { useState, useEffect } from 'react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import {
+  BacktestConfig,
+  BacktestResult,
+  BacktestStrategyId,
+  BACKTEST_STRATEGIES,
+  DEFAULT_BACKTEST_CONFIG,
+  backtestSymbol,
+} from '../services/backtestService';
+import { FeeProfileId, getFeeProfile, getFeeProfiles } from '../services/feeService';
+import { getActivePortfolio } from '../services/portfolioService';
+import { formatRupiah, formatPercent, formatCompact, getProfitLossColor } from '../utils/formatters';
+import DataSourceBadge from './DataSourceBadge';
+
+interface BacktestPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  symbol: string;
+}
+
+const PERIODS: { days: number; label: string }[] = [
+  { days: 90, label: '3 Bulan' },
+  { days: 180, label: '6 Bulan' },
+  { days: 365, label: '1 Tahun' },
+];
+
+const EXIT_LABELS: Record<string, string> = {
+  signal: 'Sinyal',
+  stop_loss: 'Stop Loss',
+  take_profit: 'Take Profit',
+  end_of_data: 'Akhir Data',
+};
+
+const BacktestPanel: React.FC<BacktestPanelProps> = ({ isOpen, onClose, symbol }) => {
+  // Profil fee awal mengikuti portofolio aktif; simulasi hanya memakai tarif yang dipilih di sini
+  const [feeProfileId, setFeeProfileId] = useState<FeeProfileId>(() => getActivePortfolio().feeProfileId || 'standard');
+  const [config, setConfig] = useState<BacktestConfig>(() => ({
+    ...DEFAULT_BACKTEST_CONFIG,
+    symbol,
+    fees: getFeeProfile(feeProfileId),
+  }));
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the symbol in sync with the selected ticker
+  useEffect(() => {
+    setConfig(prev => ({ ...prev, symbol }));
+    setResult(null);
+    setError(null);
+  }, [symbol]);
+
+  const updateConfig = <K extends keyof BacktestConfig>(key: K, value: BacktestConfig[K]) => {
+    setConfig(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleFeeProfileChange = (id: FeeProfileId) => {
+    setFeeProfileId(id);
+    updateConfig('fees', getFeeProfile(id));
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      // Yield so the loading state renders before the synchronous replay
+      await new Promise(resolve => setTimeout(resolve, 50));
+      const backtest = await backtestSymbol(config);
+      setResult(backtest);
+    } catch (err) {
+      setResult(null);
+      setError((err as Error).message);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const selectedStrategy = BACKTEST_STRATEGIES.find(s => s.id === config.strategy);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#131722] rounded-2xl w-full max-w-6xl max-h-[90vh] overflow-hidden flex flex-col shadow-2xl border border-slate-700/50">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700/50 bg-slate-800/30">
+          <div className="flex items-center gap-4">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-violet-500 to-fuchsia-600 flex items-center justify-center">
+              <span className="material-icons-round text-white">history_edu</span>
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Backtesting</h2>
+              <p className="text-sm text-slate-400">{symbol} - Uji strategi pada data historis</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 rounded-xl bg-slate-700/50 hover:bg-red-500/20 flex items-center justify-center text-slate-400 hover:text-red-400 transition-all"
+          >
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-6">
+          {/* Configuration */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="col-span-2">
+              <label className="block text-xs text-slate-400 mb-1">Strategi</label>
+              <select
+                value={config.strategy}
+                onChange={(e) => updateConfig('strategy', e.target.value as BacktestStrategyId)}
+                className="w-full bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-violet-500"
+              >
+                {BACKTEST_STRATEGIES.map(s => (
+                  <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+              </select>
+              {selectedStrategy && (
+                <p className="text-[11px] text-slate-500 mt-1">{selectedStrategy.description}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Periode</label>
+              <select
+                value={config.days}
+                onChange={(e) => updateConfig('days', Number(e.target.value))}
+                className="w-full bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-violet-500"
+              >
+                {PERIODS.map(p => (
+                  <option key={p.days} value={p.days}>{p.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Modal Awal (Rp)</label>
+              <input
+                type="number"
+                min={1000000}
+                step={1000000}
+                value={config.initialCapital}
+                onChange={(e) => updateConfig('initialCapital', Number(e.target.value))}
+                className="w-full bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:border-violet-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Ukuran Posisi (%)</label>
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={config.positionSizePercent}
+                onChange={(e) => updateConfig('positionSizePercent', Number(e.target.value))}
+                className="w-full bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:border-violet-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Stop Loss (%)</label>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={config.stopLossPercent}
+                onChange={(e) => updateConfig('stopLossPercent', Number(e.target.value))}
+                className="w-full bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:border-violet-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Take Profit (%)</label>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={config.takeProfitPercent}
+                onChange={(e) => updateConfig('takeProfitPercent', Number(e.target.value))}
+                className="w-full bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:border-violet-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Biaya Broker</label>
+              <select
+                value={feeProfileId}
+                onChange={(e) => handleFeeProfileChange(e.target.value as FeeProfileId)}
+                className="w-full bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-violet-500"
+              >
+                {getFeeProfiles().map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+            </div>
+            {config.strategy === 'reversal_engine' && (
+              <div>
+                <label className="block text-xs text-slate-400 mb-1">Min. Kekuatan Sinyal</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={config.minSignalStrength}
+                  onChange={(e) => updateConfig('minSignalStrength', Number(e.target.value))}
+                  className="w-full bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:border-violet-500"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-[11px] text-slate-500">
+              Order dieksekusi pada open bar berikutnya • lot 100 lembar • komisi beli {config.fees.buyCommissionPercent}% / jual {config.fees.sellCommissionPercent}% + levy, PPN & PPh final • fraksi harga IDX
+            </p>
+            <button
+              onClick={handleRun}
+              disabled={isRunning}
+              className="px-5 py-2.5 rounded-xl bg-gradient-to-r from-violet-500 to-fuchsia-600 text-white text-sm font-semibold flex items-center gap-2 hover:opacity-90 transition-all disabled:opacity-50"
+            >
+              <span className={`material-icons-round text-lg ${isRunning ? 'animate-spin' : ''}`}>
+                {isRunning ? 'sync' : 'play_arrow'}
+              </span>
+              {isRunning ? 'Menjalankan...' : 'Jalankan Backtest'}
+            </button>
+          </div>
+
+          {error && (
+            <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-400 text-sm flex items-center gap-2">
+              <span className="material-icons-round text-lg">error_outline</span>
+              {error}
+            </div>
+          )}
+
+          {result && (
+            <>
+              {/* Metrics */}
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-3">
+                <MetricCard label="Ekuitas Akhir" value={formatCompact(result.finalEquity)} />
+                <MetricCard label="Total Return" value={formatPercent(result.totalReturnPercent)} colorValue={result.totalReturnPercent} />
+                <MetricCard label="CAGR" value={formatPercent(result.cagrPercent)} colorValue={result.cagrPercent} />
+                <MetricCard label="Max Drawdown" value={formatPercent(result.maxDrawdownPercent)} colorValue={result.maxDrawdownPercent} />
+                <MetricCard label="Win Rate" value={`${result.winRate.toFixed(1)}%`} />
+                <MetricCard label="Sharpe" value={result.sharpeRatio.toFixed(2)} colorValue={result.sharpeRatio} />
+                <MetricCard label="Jumlah Trade" value={result.trades.length.toString()} />
+                <MetricCard label="Buy & Hold" value={formatPercent(result.buyAndHoldReturnPercent)} colorValue={result.buyAndHoldReturnPercent} />
+              </div>
+
+              {/* Equity Curve */}
+              <div className="bg-slate-800/30 rounded-xl border border-slate-700/30 p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-sm font-bold text-white">Equity Curve</h3>
+                    <DataSourceBadge source={result.source} />
+                  </div>
+                  <span className="text-xs text-slate-500">Total fee: {formatRupiah(result.totalFees)}</span>
+                </div>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={result.equityCurve} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#363a45" vertical={false} />
+                      <XAxis dataKey="time" tick={{ fontSize: 9, fill: '#787b86' }} tickLine={false} minTickGap={40} />
+                      <YAxis
+                        yAxisId="equity"
+                        tick={{ fontSize: 9, fill: '#787b86' }}
+                        axisLine={false}
+                        tickLine={false}
+                        tickFormatter={(v) => formatCompact(v)}
+                        width={55}
+                        domain={['auto', 'auto']}
+                      />
+                      <YAxis
+                        yAxisId="drawdown"
+                        orientation="right"
+                        tick={{ fontSize: 9, fill: '#787b86' }}
+                        axisLine={false}
+                        tickLine={false}
+                        tickFormatter={(v) => `${v.toFixed(0)}%`}
+                        width={40}
+                      />
+                      <Tooltip
+                        contentStyle={{ background: '#1e222d', border: '1px solid #363a45', borderRadius: 8, fontSize: 11 }}
+                        formatter={(value: number, name: string) =>
+                          name === 'drawdownPercent' ? [`${value.toFixed(2)}%`, 'Drawdown'] : [formatRupiah(value), 'Ekuitas']
+                        }
+                      />
+                      <Area
+                        yAxisId="drawdown"
+                        type="monotone"
+                        dataKey="drawdownPercent"
+                        stroke="#ef5350"
+                        fill="#ef5350"
+                        fillOpacity={0.15}
+                        strokeWidth={1}
+                      />
+                      <Line yAxisId="equity" type="monotone" dataKey="equity" stroke="#a78bfa" strokeWidth={2} dot={false} />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              {/* Trade List */}
+              <div className="bg-slate-800/30 rounded-xl border border-slate-700/30 overflow-hidden">
+                <div className="px-4 py-3 border-b border-slate-700/30">
+                  <h3 className="text-sm font-bold text-white">Daftar Trade</h3>
+                </div>
+                {result.trades.length === 0 ? (
+                  <div className="p-6 text-center text-slate-500 text-sm">Tidak ada trade pada periode ini</div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-xs">
+                      <thead className="bg-slate-900/50 text-slate-400">
+                        <tr>
+                          <th className="px-3 py-2 text-left">Masuk</th>
+                          <th className="px-3 py-2 text-right">Harga Beli</th>
+                          <th className="px-3 py-2 text-left">Keluar</th>
+                          <th className="px-3 py-2 text-right">Harga Jual</th>
+                          <th className="px-3 py-2 text-right">Lot</th>
+                          <th className="px-3 py-2 text-right">Fee</th>
+                          <th className="px-3 py-2 text-right">P/L</th>
+                          <th className="px-3 py-2 text-left">Alasan</th>
+                        </tr>
+                      </thead>
+                      <tbody className="font-mono">
+                        {result.trades.map((trade, i) => (
+                          <tr key={i} className="border-t border-slate-800/60 text-slate-300">
+                            <td className="px-3 py-2">{trade.entryTime}</td>
+                            <td className="px-3 py-2 text-right">{trade.entryPrice.toLocaleString('id-ID')}</td>
+                            <td className="px-3 py-2">{trade.exitTime}</td>
+                            <td className="px-3 py-2 text-right">{trade.exitPrice.toLocaleString('id-ID')}</td>
+                            <td className="px-3 py-2 text-right">{trade.lots.toLocaleString('id-ID')}</td>
+                            <td className="px-3 py-2 text-right">{formatCompact(trade.buyFee + trade.sellFee)}</td>
+                            <td className={`px-3 py-2 text-right ${getProfitLossColor(trade.profitLoss)}`}>
+                              {formatCompact(trade.profitLoss)} ({formatPercent(trade.profitLossPercent)})
+                            </td>
+                            <td className="px-3 py-2 font-sans text-slate-400">{EXIT_LABELS[trade.exitReason]}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Metric Card Component
+interface MetricCardProps {
+  label: string;
+  value: string;
+  colorValue?: number;
+}
+
+const MetricCard: React.FC<MetricCardProps> = ({ label, value, colorValue }) => (
+  <div className="bg-slate-800/30 rounded-xl border border-slate-700/30 px-3 py-2.5">
+    <p className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">{label}</p>
+    <p className={`text-sm font-mono font-semibold mt-1 ${
+      colorValue === undefined ? 'text-slate-200' : getProfitLossColor(colorValue)
+    }`}>
+      {value}
+    </p>
+  </div>
+);
+
+export default BacktestPanel;
@@ -1,4 +1,5 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { roundToTick } from '../utils/marketRules';
 
 // Drawing object types
 export type DrawingType = 'trendline' | 'horizontal' | 'fibonacci' | 'support' | 'resistance' | 'rectangle' | 'channel';
@@ -33,6 +34,7 @@ interface ChartDrawingToolsProps {
   activeTool: DrawingType | null;
   onToolComplete: () => void;
   chartPadding?: { top: number; right: number; bottom: number; left: number };
+  snapToTick?: boolean;  // Snap titik gambar ke fraksi harga IDX
 }
 
 // Default Fibonacci levels
@@ -61,6 +63,7 @@ const ChartDrawingTools: React.FC<ChartDrawingToolsProps> = ({
   activeTool,
   onToolComplete,
   chartPadding = { top: 10, right: 60, bottom: 0, left: 0 },
+  snapToTick = false,
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
@@ -77,8 +80,9 @@ const ChartDrawingTools: React.FC<ChartDrawingToolsProps> = ({
   // Convert Y coordinate to price
   const yToPrice = useCallback((y: number): number => {
     const chartHeight = height - chartPadding.top - chartPadding.bottom;
-    return priceMax - ((y - chartPadding.top) / chartHeight) * (priceMax - priceMin);
-  }, [height, priceMin, priceMax, chartPadding]);
+    const price = priceMax - ((y - chartPadding.top) / chartHeight) * (priceMax - priceMin);
+    return snapToTick ? roundToTick(price) : price;
+  }, [height, priceMin, priceMax, chartPadding, snapToTick]);
 
   // Convert data index to X coordinate
   const indexToX = useCallback((index: number): number => {
@@ -0,0 +1,284 @@
+import React, { useState, useEffect } from 'react';
+import {
+  addDividendTransaction,
+  addStockSplit,
+  addBonusShares,
+  addRightsTransaction,
+  calculateBrokerFee,
+  formatCurrency,
+  DIVIDEND_TAX_PERCENT,
+} from '../services/portfolioService';
+import { parsePriceInput } from '../utils/formatters';
+
+type CorporateActionKind = 'dividend' | 'split' | 'reverse_split' | 'bonus' | 'rights';
+
+interface CorporateActionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  symbol: string;
+  currentLots: number;
+  portfolioId?: string;
+  onRecorded: () => void;
+}
+
+const ACTION_OPTIONS: { kind: CorporateActionKind; label: string; icon: string }[] = [
+  { kind: 'dividend', label: 'Dividen', icon: 'savings' },
+  { kind: 'split', label: 'Stock Split', icon: 'call_split' },
+  { kind: 'reverse_split', label: 'Reverse Split', icon: 'merge' },
+  { kind: 'bonus', label: 'Saham Bonus', icon: 'redeem' },
+  { kind: 'rights', label: 'Rights Issue', icon: 'confirmation_number' },
+];
+
+const toDateInput = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+const CorporateActionModal: React.FC<CorporateActionModalProps> = ({
+  isOpen,
+  onClose,
+  symbol,
+  currentLots,
+  portfolioId,
+  onRecorded,
+}) => {
+  const [kind, setKind] = useState<CorporateActionKind>('dividend');
+  const [date, setDate] = useState(toDateInput(Date.now()));
+  const [amount, setAmount] = useState('');          // Dividen per lembar / harga pelaksanaan
+  const [lots, setLots] = useState(currentLots);     // Lot yang berhak dividen / lot ditebus
+  const [taxPercent, setTaxPercent] = useState(DIVIDEND_TAX_PERCENT);
+  const [ratioFrom, setRatioFrom] = useState(1);
+  const [ratioTo, setRatioTo] = useState(5);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setKind('dividend');
+      setDate(toDateInput(Date.now()));
+      setAmount('');
+      setLots(currentLots);
+      setTaxPercent(DIVIDEND_TAX_PERCENT);
+      setNote('');
+      setError(null);
+    }
+  }, [isOpen, symbol, currentLots]);
+
+  // Default ratios per action kind (1:5 split, 5:1 reverse, 10:1 bonus)
+  useEffect(() => {
+    if (kind === 'split') { setRatioFrom(1); setRatioTo(5); }
+    if (kind === 'reverse_split') { setRatioFrom(5); setRatioTo(1); }
+    if (kind === 'bonus') { setRatioFrom(10); setRatioTo(1); }
+    setError(null);
+  }, [kind]);
+
+  if (!isOpen) return null;
+
+  const price = parsePriceInput(amount);
+  const gross = lots * 100 * price;
+  const dividendTax = Math.round(gross * taxPercent / 100);
+  const rightsFee = kind === 'rights' && lots > 0 && price > 0 ? calculateBrokerFee('buy', lots, price) : 0;
+
+  // Lot setelah split/bonus (pratinjau)
+  const adjustedLots = kind === 'bonus'
+    ? currentLots * (ratioFrom + ratioTo) / ratioFrom
+    : currentLots * ratioTo / ratioFrom;
+
+  const handleSubmit = () => {
+    const timestamp = new Date(`${date}T09:00:00`).getTime();
+    const trimmedNote = note.trim() || undefined;
+    try {
+      switch (kind) {
+        case 'dividend':
+          addDividendTransaction(symbol, price, lots, taxPercent, timestamp, trimmedNote, portfolioId);
+          break;
+        case 'split':
+        case 'reverse_split':
+          addStockSplit(symbol, ratioFrom, ratioTo, timestamp, trimmedNote, portfolioId);
+          break;
+        case 'bonus':
+          addBonusShares(symbol, ratioFrom, ratioTo, timestamp, trimmedNote, portfolioId);
+          break;
+        case 'rights':
+          addRightsTransaction(symbol, lots, price, rightsFee, timestamp, trimmedNote, portfolioId);
+          break;
+      }
+      onRecorded();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal mencatat aksi korporasi');
+    }
+  };
+
+  const isRatioKind = kind === 'split' || kind === 'reverse_split' || kind === 'bonus';
+  const inputClass = 'w-full bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:border-amber-500';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-[#141c2f] rounded-2xl border border-slate-700/50 shadow-2xl w-full max-w-md mx-4 overflow-hidden">
+        {/* Header */}
+        <div className="p-5 border-b border-slate-700/50 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-amber-500 to-orange-600 flex items-center justify-center shadow-lg shadow-amber-500/20">
+              <span className="material-icons-round text-white">corporate_fare</span>
+            </div>
+            <div>
+              Aksi Korporasi
+              <p className="text-xs font-normal text-slate-400">{symbol} • {currentLots} lot</p>
+            </div>
+          </h2>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-lg bg-slate-800/50 hover:bg-slate-700 flex items-center justify-center text-slate-400 hover:text-white transition-colors"
+          >
+            <span className="material-icons-round text-lg">close</span>
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          {/* Action Type */}
+          <div className="grid grid-cols-5 gap-1">
+            {ACTION_OPTIONS.map(option => (
+              <button
+                key={option.kind}
+                onClick={() => setKind(option.kind)}
+                className={`flex flex-col items-center gap-1 py-2 rounded-lg text-[10px] font-medium transition-all ${
+                  kind === option.kind
+                    ? 'bg-amber-500/20 text-amber-400 border border-amber-500/30'
+                    : 'bg-slate-800/30 text-slate-400 hover:bg-slate-700/50 border border-transparent'
+                }`}
+              >
+                <span className="material-icons-round text-base">{option.icon}</span>
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className="text-xs text-slate-400 mb-1 block">
+              {kind === 'dividend' ? 'Tanggal Pembayaran' : kind === 'rights' ? 'Tanggal Penebusan' : 'Tanggal Efektif'}
+            </label>
+            <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+          </div>
+
+          {isRatioKind ? (
+            <div>
+              <label className="text-xs text-slate-400 mb-1 block">
+                {kind === 'bonus' ? 'Rasio (lama : bonus)' : 'Rasio (lama : baru)'}
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  value={ratioFrom}
+                  onChange={(e) => setRatioFrom(Number(e.target.value))}
+                  className={inputClass}
+                />
+                <span className="text-slate-500">:</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={ratioTo}
+                  onChange={(e) => setRatioTo(Number(e.target.value))}
+                  className={inputClass}
+                />
+              </div>
+              {ratioFrom > 0 && ratioTo > 0 && (
+                <p className="text-[11px] text-slate-500 mt-2">
+                  {currentLots} lot → <span className="text-white font-mono">{parseFloat(adjustedLots.toFixed(2))} lot</span>.
+                  Harga rata-rata disesuaikan, total modal tetap.
+                </p>
+              )}
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="text-xs text-slate-400 mb-1 block">
+                    {kind === 'dividend' ? 'Dividen / Lembar' : 'Harga Pelaksanaan'}
+                  </label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    placeholder="Rp"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-slate-400 mb-1 block">
+                    {kind === 'dividend' ? 'Lot Berhak' : 'Lot Ditebus'}
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={lots || ''}
+                    onChange={(e) => setLots(Number(e.target.value))}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              {kind === 'dividend' && (
+                <div>
+                  <label className="text-xs text-slate-400 mb-1 block">Pajak Dividen (%)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={taxPercent}
+                    onChange={(e) => setTaxPercent(Number(e.target.value))}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+              {price > 0 && lots > 0 && (
+                <div className="p-3 bg-slate-800/30 rounded-xl text-xs space-y-1 font-mono">
+                  <div className="flex justify-between text-slate-400">
+                    <span className="font-sans">{kind === 'dividend' ? 'Dividen Kotor' : 'Nilai Penebusan'}</span>
+                    <span>{formatCurrency(gross)}</span>
+                  </div>
+                  <div className="flex justify-between text-slate-400">
+                    <span className="font-sans">{kind === 'dividend' ? `Pajak ${taxPercent}%` : 'Biaya'}</span>
+                    <span>{formatCurrency(kind === 'dividend' ? dividendTax : rightsFee)}</span>
+                  </div>
+                  <div className="flex justify-between text-white font-bold">
+                    <span className="font-sans">{kind === 'dividend' ? 'Diterima' : 'Total Bayar'}</span>
+                    <span className={kind === 'dividend' ? 'text-emerald-400' : 'text-red-400'}>
+                      {formatCurrency(kind === 'dividend' ? gross - dividendTax : gross + rightsFee)}
+                    </span>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Catatan (opsional)"
+            className="w-full bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-amber-500"
+          />
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+
+          <button
+            onClick={handleSubmit}
+            className="w-full py-3 bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-400 hover:to-orange-500 text-white rounded-xl font-bold transition-all flex items-center justify-center gap-2"
+          >
+            <span className="material-icons-round">check</span>
+            Catat {ACTION_OPTIONS.find(o => o.kind === kind)?.label}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CorporateActionModal;
@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import {
+  MarketDataProvider,
+  ProviderHealth,
+  CircuitState,
+  getDataProviders,
+  getProviderHealth,
+  isProviderEnabled,
+  setProviderEnabled,
+  resetProviderHealth,
+  subscribeToProviderHealth,
+} from '../services/marketDataProviders';
+
+const CIRCUIT_STYLES: Record<CircuitState, { label: string; className: string }> = {
+  closed: { label: 'Sehat', className: 'bg-emerald-500/20 text-emerald-400' },
+  half_open: { label: 'Uji Coba', className: 'bg-amber-500/20 text-amber-400' },
+  open: { label: 'Diputus', className: 'bg-red-500/20 text-red-400' },
+};
+
+const capabilitiesOf = (provider: MarketDataProvider): string[] => [
+  provider.fetchQuote && 'Quote',
+  provider.fetchHistory && 'History',
+  provider.search && 'Search',
+  provider.fetchDepth && 'Depth',
+  provider.fetchFinancials && 'Fundamental',
+].filter(Boolean) as string[];
+
+/**
+ * Health & latency of every registered market-data provider
+ */
+const DataProviderPanel: React.FC = () => {
+  const [, setVersion] = useState(0);
+
+  useEffect(() => subscribeToProviderHealth(() => setVersion(v => v + 1)), []);
+
+  const providers = getDataProviders();
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-400">
+          Provider dicoba berurutan; yang gagal 3x beruntun diputus sementara.
+        </p>
+        <button
+          onClick={() => resetProviderHealth()}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg transition-colors"
+        >
+          <span className="material-icons-round text-sm">restart_alt</span>
+          Reset Statistik
+        </button>
+      </div>
+
+      {providers.map(provider => (
+        <ProviderRow
+          key={provider.id}
+          provider={provider}
+          health={getProviderHealth(provider.id)}
+          enabled={isProviderEnabled(provider.id)}
+        />
+      ))}
+    </div>
+  );
+};
+
+// Provider Row Component
+interface ProviderRowProps {
+  provider: MarketDataProvider;
+  health: ProviderHealth;
+  enabled: boolean;
+}
+
+const ProviderRow: React.FC<ProviderRowProps> = ({ provider, health, enabled }) => {
+  const circuit = CIRCUIT_STYLES[health.state];
+  const total = health.successCount + health.failureCount;
+  const successRate = total > 0 ? (health.successCount / total) * 100 : null;
+
+  return (
+    <div className={`p-4 bg-slate-800/30 rounded-xl ${enabled ? '' : 'opacity-60'}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <span className="material-icons-round text-slate-400">{provider.simulated ? 'science' : 'cloud'}</span>
+          <div>
+            <p className="text-white font-medium flex items-center gap-2">
+              {provider.name}
+              <span className={`text-[10px] px-2 py-0.5 rounded-full ${circuit.className}`}>{circuit.label}</span>
+              {provider.simulated && (
+                <span className="text-[10px] px-2 py-0.5 rounded-full bg-amber-500/20 text-amber-400">SIMULASI</span>
+              )}
+            </p>
+            <p className="text-xs text-slate-500">
+              {capabilitiesOf(provider).join(' · ')} · {provider.markets.join(', ')}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => setProviderEnabled(provider.id, !enabled)}
+          className={`relative w-12 h-6 rounded-full transition-colors ${enabled ? 'bg-blue-500' : 'bg-slate-600'}`}
+          title={enabled ? 'Nonaktifkan provider' : 'Aktifkan provider'}
+        >
+          <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform ${enabled ? 'translate-x-7' : 'translate-x-1'}`} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mt-3 text-xs">
+        <div>
+          <p className="text-slate-500">Latency rata-rata</p>
+          <p className="text-slate-200 font-mono">{health.avgLatencyMs !== null ? `${health.avgLatencyMs} ms` : '-'}</p>
+        </div>
+        <div>
+          <p className="text-slate-500">Berhasil</p>
+          <p className="text-slate-200 font-mono">
+            {successRate !== null ? `${successRate.toFixed(0)}%` : '-'}
+            <span className="text-slate-500"> ({health.successCount}/{total})</span>
+          </p>
+        </div>
+        <div>
+          <p className="text-slate-500">Terakhir sukses</p>
+          <p className="text-slate-200 font-mono">
+            {health.lastSuccessAt ? new Date(health.lastSuccessAt).toLocaleTimeString('id-ID') : '-'}
+          </p>
+        </div>
+      </div>
+
+      {health.lastError && health.state !== 'closed' && (
+        <p className="mt-2 text-xs text-red-400 truncate" title={health.lastError}>
+          <span className="material-icons-round text-xs align-middle mr-1">error_outline</span>
+          {health.lastError}
+          {health.openUntil && ` · dicoba lagi ${new Date(health.openUntil).toLocaleTimeString('id-ID')}`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DataProviderPanel;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { DataSourceInfo } from '../types';
+
+interface DataSourceBadgeProps {
+  source?: DataSourceInfo;
+  compact?: boolean;   // Titik kecil saja (untuk list watchlist)
+}
+
+const describeSource = (source: DataSourceInfo): string => {
+  const time = new Date(source.fetchedAt).toLocaleTimeString('id-ID');
+  if (source.simulated) return `Harga simulasi (${source.providerName}), bukan harga pasar`;
+  if (source.stale) return `Harga terakhir dari ${source.providerName}, semua provider sedang gagal (${time})`;
+  return `Sumber: ${source.providerName} · ${time}`;
+};
+
+const DataSourceBadge: React.FC<DataSourceBadgeProps> = ({ source, compact = false }) => {
+  if (!source) return null;
+
+  const style = source.simulated
+    ? { dot: 'bg-amber-500', chip: 'bg-amber-500/20 text-amber-400 border-amber-500/30', label: 'SIMULASI' }
+    : source.stale
+      ? { dot: 'bg-orange-500', chip: 'bg-orange-500/20 text-orange-400 border-orange-500/30', label: 'STALE' }
+      : { dot: 'bg-emerald-500', chip: 'bg-emerald-500/15 text-emerald-400 border-emerald-500/30', label: source.providerName };
+
+  if (compact) {
+    // Harga asli yang fresh tidak perlu ditandai di list
+    if (!source.simulated && !source.stale) return null;
+    return <span className={`w-1.5 h-1.5 rounded-full ${style.dot}`} title={describeSource(source)}></span>;
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-[10px] font-medium px-2 py-0.5 rounded-full border ${style.chip}`}
+      title={describeSource(source)}
+    >
+      <span className="material-icons-round text-[11px]">
+        {source.simulated ? 'science' : source.stale ? 'history' : 'cloud_done'}
+      </span>
+      {style.label}
+    </span>
+  );
+};
+
+export default DataSourceBadge;
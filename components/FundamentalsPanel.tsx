@@ -0,0 +1,447 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { StockTicker, FinancialPeriod, FinancialPeriodType, FinancialRatios } from '../types';
+import {
+  SourcedFinancials,
+  ValuationBands,
+  MARKET_CURRENCY,
+  hasFundamentals,
+  isInMarketCurrency,
+  loadFinancials,
+  getFinancialRatios,
+  getLatestRatios,
+  loadValuationBands,
+} from '../services/fundamentalsService';
+import DataSourceBadge from './DataSourceBadge';
+
+interface FundamentalsPanelProps {
+  ticker: StockTicker;
+}
+
+type StatementTab = 'income' | 'balance' | 'cashFlow' | 'ratios';
+type BandMetric = 'pe' | 'pb';
+
+const STATEMENT_TABS: { id: StatementTab; label: string }[] = [
+  { id: 'income', label: 'Laba Rugi' },
+  { id: 'balance', label: 'Neraca' },
+  { id: 'cashFlow', label: 'Arus Kas' },
+  { id: 'ratios', label: 'Rasio' },
+];
+
+const STATEMENT_ROWS: Record<Exclude<StatementTab, 'ratios'>, { label: string; value: (p: FinancialPeriod) => number | null; isPerShare?: boolean }[]> = {
+  income: [
+    { label: 'Pendapatan', value: p => p.income.revenue },
+    { label: 'Laba Kotor', value: p => p.income.grossProfit },
+    { label: 'Laba Usaha', value: p => p.income.operatingIncome },
+    { label: 'Laba Bersih', value: p => p.income.netIncome },
+    { label: 'EPS', value: p => p.income.eps, isPerShare: true },
+  ],
+  balance: [
+    { label: 'Total Aset', value: p => p.balance.totalAssets },
+    { label: 'Total Liabilitas', value: p => p.balance.totalLiabilities },
+    { label: 'Ekuitas', value: p => p.balance.totalEquity },
+    { label: 'Kas', value: p => p.balance.cash },
+    { label: 'Utang Berbunga', value: p => p.balance.totalDebt },
+  ],
+  cashFlow: [
+    { label: 'Arus Kas Operasi', value: p => p.cashFlow.operatingCashFlow },
+    { label: 'Belanja Modal', value: p => p.cashFlow.capitalExpenditure },
+    { label: 'Free Cash Flow', value: p => p.cashFlow.freeCashFlow },
+    { label: 'Dividen Dibayar', value: p => p.cashFlow.dividendsPaid },
+  ],
+};
+
+const RATIO_ROWS: { label: string; value: (r: FinancialRatios) => number | null; suffix: string }[] = [
+  { label: 'ROE', value: r => r.roe, suffix: '%' },
+  { label: 'ROA', value: r => r.roa, suffix: '%' },
+  { label: 'DER', value: r => r.der, suffix: 'x' },
+  { label: 'NPM', value: r => r.npm, suffix: '%' },
+  { label: 'GPM', value: r => r.gpm, suffix: '%' },
+  { label: 'Growth Pendapatan', value: r => r.revenueGrowth, suffix: '%' },
+  { label: 'Growth Laba', value: r => r.netIncomeGrowth, suffix: '%' },
+  { label: 'EPS TTM', value: r => r.epsTtm, suffix: '' },
+  { label: 'BVPS', value: r => r.bvps, suffix: '' },
+];
+
+const MAX_PERIOD_COLUMNS = 4;
+
+const COLORS = {
+  Grid: '#363a45',
+  Text: '#787b86',
+  Line: '#3b82f6',
+  Mean: '#f59e0b',
+  Band1: '#64748b',
+  Band2: '#ef4444',
+};
+
+// Angka laporan keuangan dalam satuan ringkas (T = triliun, M = miliar, Jt = juta)
+const formatAmount = (value: number | null): string => {
+  if (value === null) return '-';
+  const abs = Math.abs(value);
+  const sign = value < 0 ? '-' : '';
+  if (abs >= 1e12) return `${sign}${(abs / 1e12).toFixed(2)} T`;
+  if (abs >= 1e9) return `${sign}${(abs / 1e9).toFixed(1)} M`;
+  if (abs >= 1e6) return `${sign}${(abs / 1e6).toFixed(1)} Jt`;
+  return value.toLocaleString('id-ID', { maximumFractionDigits: 2 });
+};
+
+const formatPeriod = (periodEnd: string, type: FinancialPeriodType): string => {
+  const date = new Date(periodEnd);
+  if (type === 'annual') return `FY${date.getFullYear()}`;
+  return `Q${Math.floor(date.getMonth() / 3) + 1} ${String(date.getFullYear()).slice(2)}`;
+};
+
+/**
+ * Financial statements, ratios and historical P/E & P/B bands of the selected stock
+ */
+const FundamentalsPanel: React.FC<FundamentalsPanelProps> = ({ ticker }) => {
+  const [financials, setFinancials] = useState<SourcedFinancials | null>(null);
+  const [bands, setBands] = useState<ValuationBands | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [periodType, setPeriodType] = useState<FinancialPeriodType>('annual');
+  const [statementTab, setStatementTab] = useState<StatementTab>('ratios');
+  const [bandMetric, setBandMetric] = useState<BandMetric>('pe');
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const market = ticker.market || 'IDX';
+
+  useEffect(() => {
+    if (!hasFundamentals(market)) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      setBands(null);
+      try {
+        const result = await loadFinancials(ticker.symbol, market, reloadKey > 0);
+        if (cancelled) return;
+        setFinancials(result);
+        const valuation = await loadValuationBands(ticker.symbol, result.data, market);
+        if (!cancelled) setBands(valuation);
+      } catch (e) {
+        if (!cancelled) {
+          setFinancials(null);
+          setError(e instanceof Error ? e.message : String(e));
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [ticker.symbol, market, reloadKey]);
+
+  const statements = financials?.data;
+  const periods = useMemo(
+    () => (statements?.[periodType] || []).slice(-MAX_PERIOD_COLUMNS),
+    [statements, periodType]
+  );
+  const ratios = useMemo(
+    () => statements ? getFinancialRatios(statements, periodType).slice(-MAX_PERIOD_COLUMNS) : [],
+    [statements, periodType]
+  );
+  const latest = useMemo(() => statements ? getLatestRatios(statements) : null, [statements]);
+
+  // Rasio berbasis harga hanya valid kalau laporan sudah dalam mata uang harga
+  const isPriceComparable = statements ? isInMarketCurrency(statements, market) : false;
+
+  // Valuasi saat ini dari harga live
+  const livePe = isPriceComparable && latest?.epsTtm && latest.epsTtm > 0 && ticker.price > 0 ? ticker.price / latest.epsTtm : null;
+  const livePb = isPriceComparable && latest?.bvps && latest.bvps > 0 && ticker.price > 0 ? ticker.price / latest.bvps : null;
+  const bandStats = bands?.[bandMetric] || null;
+  const liveMultiple = bandMetric === 'pe' ? livePe : livePb;
+
+  if (!hasFundamentals(market)) {
+    return (
+      <div className="bg-[#141c2f] rounded-2xl p-6 border border-slate-800/60 shadow-xl text-center text-slate-500 text-sm">
+        <span className="material-icons-round text-3xl mb-2 block">account_balance</span>
+        Data fundamental tidak tersedia untuk aset kripto
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-[#141c2f] rounded-2xl border border-slate-800/60 shadow-xl overflow-hidden">
+      {/* Header */}
+      <div className="p-4 border-b border-slate-800/50 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-indigo-500 to-blue-600 flex items-center justify-center">
+            <span className="material-icons-round text-white">account_balance</span>
+          </div>
+          <div>
+            <h3 className="text-white font-bold">Fundamental</h3>
+            <p className="text-xs text-slate-500 flex items-center gap-2">
+              {ticker.symbol}
+              {financials && <DataSourceBadge source={financials.source} compact />}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-800/50 rounded-lg p-0.5">
+            {(['annual', 'quarterly'] as FinancialPeriodType[]).map(type => (
+              <button
+                key={type}
+                onClick={() => setPeriodType(type)}
+                className={`px-2 py-1 rounded-md text-[11px] font-medium transition-all ${
+                  periodType === type ? 'bg-blue-500/20 text-blue-400' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {type === 'annual' ? 'Tahunan' : 'Kuartalan'}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setReloadKey(key => key + 1)}
+            disabled={isLoading}
+            className="w-7 h-7 rounded-lg bg-slate-800/50 hover:bg-slate-700 flex items-center justify-center text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+            title="Ambil ulang laporan keuangan"
+          >
+            <span className={`material-icons-round text-sm ${isLoading ? 'animate-spin' : ''}`}>refresh</span>
+          </button>
+        </div>
+      </div>
+
+      {isLoading && !financials ? (
+        <div className="flex items-center justify-center h-48 text-slate-500 text-sm gap-2">
+          <span className="material-icons-round animate-spin">sync</span>
+          Memuat laporan keuangan...
+        </div>
+      ) : error ? (
+        <div className="p-6 text-center text-sm">
+          <span className="material-icons-round text-3xl text-slate-600 mb-2 block">cloud_off</span>
+          <p className="text-slate-400">Laporan keuangan {ticker.symbol} belum bisa dimuat</p>
+          <p className="text-[11px] text-slate-600 mt-1">{error}</p>
+        </div>
+      ) : statements && (
+        <>
+          {/* Currency Notice */}
+          {!isPriceComparable ? (
+            <div className="px-4 py-2 border-b border-slate-800/50 bg-amber-500/10 text-[11px] text-amber-400 flex items-center gap-2">
+              <span className="material-icons-round text-sm">currency_exchange</span>
+              Laporan dalam {statements.currency} dan kurs ke {MARKET_CURRENCY[market]} belum tersedia; PER, PBV dan band valuasi tidak dihitung
+            </div>
+          ) : statements.reportedCurrency && (
+            <div className="px-4 py-2 border-b border-slate-800/50 text-[11px] text-slate-500 flex items-center gap-2">
+              <span className="material-icons-round text-sm">currency_exchange</span>
+              Dikonversi dari {statements.reportedCurrency} dengan kurs historis (rata-rata periode untuk laba rugi & arus kas, akhir periode untuk neraca)
+            </div>
+          )}
+
+          {/* Key Ratios */}
+          <div className="p-4 border-b border-slate-800/50 grid grid-cols-4 gap-2">
+            <RatioCard label="PER" value={livePe} suffix="x" />
+            <RatioCard label="PBV" value={livePb} suffix="x" />
+            <RatioCard label="ROE" value={latest?.roe ?? null} suffix="%" good={v => v >= 15} bad={v => v < 5} />
+            <RatioCard label="DER" value={latest?.der ?? null} suffix="x" good={v => v <= 1} bad={v => v > 2} />
+            <RatioCard label="NPM" value={latest?.npm ?? null} suffix="%" good={v => v >= 15} bad={v => v < 0} />
+            <RatioCard label="Growth Rev" value={latest?.revenueGrowth ?? null} suffix="%" good={v => v > 0} bad={v => v < 0} />
+            <RatioCard label="Growth Laba" value={latest?.netIncomeGrowth ?? null} suffix="%" good={v => v > 0} bad={v => v < 0} />
+            <RatioCard label="EPS TTM" value={latest?.epsTtm ?? null} suffix="" />
+          </div>
+
+          {/* Statements */}
+          <div className="p-4 border-b border-slate-800/50">
+            <div className="flex gap-1 mb-3">
+              {STATEMENT_TABS.map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => setStatementTab(tab.id)}
+                  className={`px-2.5 py-1 rounded-lg text-[11px] font-medium transition-all ${
+                    statementTab === tab.id ? 'bg-blue-500/20 text-blue-400' : 'text-slate-400 hover:text-white hover:bg-slate-800/50'
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+            {periods.length === 0 ? (
+              <p className="text-xs text-slate-500 text-center py-4">Tidak ada laporan {periodType === 'annual' ? 'tahunan' : 'kuartalan'}</p>
+            ) : (
+              <table className="w-full text-[11px]">
+                <thead>
+                  <tr className="text-slate-500">
+                    <th className="text-left font-medium py-1">{statements.currency}</th>
+                    {periods.map(p => (
+                      <th key={p.periodEnd} className="text-right font-medium py-1">{formatPeriod(p.periodEnd, periodType)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800/50">
+                  {statementTab === 'ratios'
+                    ? RATIO_ROWS.map(row => (
+                        <tr key={row.label}>
+                          <td className="py-1.5 text-slate-400">{row.label}</td>
+                          {ratios.map(r => {
+                            const value = row.value(r);
+                            return (
+                              <td key={r.periodEnd} className="py-1.5 text-right font-mono text-slate-300">
+                                {value === null ? '-' : `${value.toLocaleString('id-ID', { maximumFractionDigits: 2 })}${row.suffix}`}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))
+                    : STATEMENT_ROWS[statementTab].map(row => (
+                        <tr key={row.label}>
+                          <td className="py-1.5 text-slate-400">{row.label}</td>
+                          {periods.map(p => {
+                            const value = row.value(p);
+                            return (
+                              <td
+                                key={p.periodEnd}
+                                className={`py-1.5 text-right font-mono ${value !== null && value < 0 ? 'text-red-400' : 'text-slate-300'}`}
+                              >
+                                {row.isPerShare && value !== null ? value.toLocaleString('id-ID', { maximumFractionDigits: 2 }) : formatAmount(value)}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                </tbody>
+              </table>
+            )}
+            {periodType === 'quarterly' && statementTab === 'ratios' && (
+              <p className="text-[10px] text-slate-600 mt-2">Rasio kuartalan memakai laba & arus kas TTM (4 kuartal terakhir)</p>
+            )}
+          </div>
+
+          {/* Valuation Bands */}
+          <div className="p-4">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-bold text-slate-300">Band Valuasi 5 Tahun</span>
+              <div className="flex bg-slate-800/50 rounded-lg p-0.5">
+                {(['pe', 'pb'] as BandMetric[]).map(metric => (
+                  <button
+                    key={metric}
+                    onClick={() => setBandMetric(metric)}
+                    className={`px-2 py-0.5 rounded-md text-[11px] font-medium transition-all ${
+                      bandMetric === metric ? 'bg-blue-500/20 text-blue-400' : 'text-slate-400 hover:text-white'
+                    }`}
+                  >
+                    {metric === 'pe' ? 'P/E' : 'P/B'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="h-44">
+              {!isPriceComparable ? (
+                <div className="h-full flex items-center justify-center text-slate-500 text-xs text-center px-4">
+                  Band tidak dihitung: EPS & BVPS dalam {statements.currency}, harga dalam {MARKET_CURRENCY[market]}
+                </div>
+              ) : !bands ? (
+                <div className="h-full flex items-center justify-center text-slate-500 text-xs gap-2">
+                  <span className="material-icons-round text-sm animate-spin">sync</span>
+                  Menghitung band...
+                </div>
+              ) : !bandStats ? (
+                <div className="h-full flex items-center justify-center text-slate-500 text-xs text-center px-4">
+                  Histori harga atau {bandMetric === 'pe' ? 'EPS positif' : 'nilai buku'} tidak cukup untuk membentuk band
+                </div>
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={bands.points} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke={COLORS.Grid} vertical={false} />
+                    <XAxis
+                      dataKey="date"
+                      tick={{ fontSize: 9, fill: COLORS.Text }}
+                      axisLine={{ stroke: COLORS.Grid }}
+                      tickLine={false}
+                      minTickGap={40}
+                      tickFormatter={(date: string) => date.slice(0, 7)}
+                    />
+                    <YAxis
+                      domain={['auto', 'auto']}
+                      tick={{ fontSize: 9, fill: COLORS.Text }}
+                      axisLine={false}
+                      tickLine={false}
+                      width={32}
+                    />
+                    <Tooltip
+                      contentStyle={{ background: '#1e222d', border: '1px solid #363a45', borderRadius: 6, fontSize: 11 }}
+                      labelStyle={{ color: '#787b86' }}
+                      formatter={(value) => [`${Number(value).toFixed(2)}x`, bandMetric === 'pe' ? 'P/E' : 'P/B']}
+                    />
+                    <ReferenceLine y={bandStats.mean} stroke={COLORS.Mean} strokeDasharray="4 4" />
+                    <ReferenceLine y={bandStats.mean + bandStats.stdDev} stroke={COLORS.Band1} strokeDasharray="2 4" />
+                    <ReferenceLine y={bandStats.mean - bandStats.stdDev} stroke={COLORS.Band1} strokeDasharray="2 4" />
+                    <ReferenceLine y={bandStats.mean + 2 * bandStats.stdDev} stroke={COLORS.Band2} strokeDasharray="2 4" />
+                    <ReferenceLine y={Math.max(0, bandStats.mean - 2 * bandStats.stdDev)} stroke={COLORS.Band2} strokeDasharray="2 4" />
+                    <Line type="monotone" dataKey={bandMetric} stroke={COLORS.Line} strokeWidth={1.5} dot={false} connectNulls />
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+            {bandStats && (
+              <div className="grid grid-cols-4 gap-1 mt-2 text-center text-[10px]">
+                <div>
+                  <p className="text-slate-500">Sekarang</p>
+                  <p className="font-mono text-white">{liveMultiple !== null ? `${liveMultiple.toFixed(2)}x` : '-'}</p>
+                </div>
+                <div>
+                  <p className="text-slate-500">Rata-rata</p>
+                  <p className="font-mono text-amber-400">{bandStats.mean.toFixed(2)}x</p>
+                </div>
+                <div>
+                  <p className="text-slate-500">±1σ</p>
+                  <p className="font-mono text-slate-300">
+                    {(bandStats.mean - bandStats.stdDev).toFixed(1)}–{(bandStats.mean + bandStats.stdDev).toFixed(1)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-slate-500">Posisi</p>
+                  <p className={`font-mono ${
+                    liveMultiple === null ? 'text-slate-500' :
+                    liveMultiple < bandStats.mean - bandStats.stdDev ? 'text-emerald-400' :
+                    liveMultiple > bandStats.mean + bandStats.stdDev ? 'text-red-400' : 'text-slate-300'
+                  }`}>
+                    {liveMultiple !== null && bandStats.stdDev > 0
+                      ? `${((liveMultiple - bandStats.mean) / bandStats.stdDev).toFixed(1)}σ`
+                      : '-'}
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Ratio Card Component
+interface RatioCardProps {
+  label: string;
+  value: number | null;
+  suffix: string;
+  good?: (value: number) => boolean;
+  bad?: (value: number) => boolean;
+}
+
+const RatioCard: React.FC<RatioCardProps> = ({ label, value, suffix, good, bad }) => (
+  <div className="bg-slate-800/30 rounded-xl p-2 text-center">
+    <div className="text-slate-500 text-[9px] uppercase tracking-wider mb-0.5">{label}</div>
+    <div className={`font-bold font-mono text-xs ${
+      value === null ? 'text-slate-500' :
+      good?.(value) ? 'text-emerald-400' :
+      bad?.(value) ? 'text-red-400' : 'text-slate-300'
+    }`}>
+      {value === null ? '-' : `${value.toLocaleString('id-ID', { maximumFractionDigits: 2 })}${suffix}`}
+    </div>
+  </div>
+);
+
+export default FundamentalsPanel;
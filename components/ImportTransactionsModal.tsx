@@ -0,0 +1,334 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import {
+  BROKER_PROFILES,
+  BrokerProfileId,
+  ColumnMapping,
+  ImportField,
+  ImportRowStatus,
+  DateOrder,
+  QuantityUnit,
+  detectBrokerProfile,
+  getProfileMapping,
+  suggestColumnMapping,
+  isMappingComplete,
+  buildImportPreview,
+  commitImport,
+} from '../services/importService';
+import { formatCurrency } from '../services/portfolioService';
+import { readSpreadsheetFile, SpreadsheetRows } from '../utils/spreadsheet';
+
+interface ImportTransactionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  portfolioId?: string;
+  portfolioName?: string;
+  onImported: (count: number) => void;
+}
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  date: 'Tanggal',
+  symbol: 'Kode Saham',
+  side: 'Beli/Jual',
+  quantity: 'Jumlah',
+  price: 'Harga',
+  fee: 'Fee (opsional)',
+  note: 'Catatan (opsional)',
+};
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; className: string }> = {
+  new: { label: 'Baru', className: 'bg-emerald-500/20 text-emerald-400' },
+  duplicate: { label: 'Duplikat', className: 'bg-amber-500/20 text-amber-400' },
+  error: { label: 'Error', className: 'bg-red-500/20 text-red-400' },
+};
+
+const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({
+  isOpen,
+  onClose,
+  portfolioId,
+  portfolioName,
+  onImported,
+}) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<SpreadsheetRows>([]);
+  const [profileId, setProfileId] = useState<BrokerProfileId>('generic');
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFileName(null);
+      setRows([]);
+      setMapping(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleFile = async (file: File) => {
+    setIsReading(true);
+    setError(null);
+    try {
+      const parsed = await readSpreadsheetFile(file);
+      if (parsed.length < 2) throw new Error('File tidak berisi data transaksi');
+
+      setFileName(file.name);
+      setRows(parsed);
+
+      // Auto-detect broker format, fall back to generic mapping
+      const detected = detectBrokerProfile(parsed);
+      if (detected) {
+        setProfileId(detected.profile.id);
+        setMapping(detected.mapping);
+      } else {
+        setProfileId('generic');
+        setMapping(suggestColumnMapping(parsed));
+      }
+    } catch (err) {
+      setRows([]);
+      setMapping(null);
+      setError((err as Error).message);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleProfileChange = (id: BrokerProfileId) => {
+    setProfileId(id);
+    const profile = BROKER_PROFILES.find(p => p.id === id);
+    setMapping(profile ? getProfileMapping(rows, profile) : suggestColumnMapping(rows));
+  };
+
+  const updateColumn = (field: ImportField, value: string) => {
+    if (!mapping) return;
+    const columns = { ...mapping.columns };
+    if (value === '') delete columns[field];
+    else columns[field] = Number(value);
+    setMapping({ ...mapping, columns });
+  };
+
+  const headers = mapping ? rows[mapping.headerRow] || [] : [];
+  const mappingComplete = mapping ? isMappingComplete(mapping) : false;
+
+  const preview = useMemo(
+    () => (mapping && mappingComplete ? buildImportPreview(rows, mapping, portfolioId) : null),
+    [rows, mapping, mappingComplete, portfolioId]
+  );
+
+  const handleCommit = () => {
+    if (!preview) return;
+    try {
+      const count = commitImport(preview, portfolioId);
+      onImported(count);
+      onClose();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-[#141c2f] rounded-2xl border border-slate-700/50 shadow-2xl w-full max-w-4xl mx-4 max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="p-5 border-b border-slate-700/50 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-sky-500 to-blue-600 flex items-center justify-center shadow-lg shadow-sky-500/20">
+              <span className="material-icons-round text-white">upload_file</span>
+            </div>
+            <div>
+              Import Transaksi
+              {portfolioName && <p className="text-xs font-normal text-slate-400">ke {portfolioName}</p>}
+            </div>
+          </h2>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-lg bg-slate-800/50 hover:bg-slate-700 flex items-center justify-center text-slate-400 hover:text-white transition-colors"
+          >
+            <span className="material-icons-round text-lg">close</span>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-4 custom-scrollbar">
+          {/* File Picker */}
+          <label className="flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed border-slate-700 hover:border-sky-500/50 rounded-xl cursor-pointer transition-colors">
+            <span className={`material-icons-round text-3xl text-sky-400 ${isReading ? 'animate-spin' : ''}`}>
+              {isReading ? 'sync' : 'cloud_upload'}
+            </span>
+            <span className="text-sm text-slate-300">{fileName || 'Pilih file CSV / Excel dari broker'}</span>
+            <span className="text-[11px] text-slate-500">.csv, .xlsx, .xls • Stockbit, Ajaib, IPOT, Mirae atau format lain</span>
+            <input
+              type="file"
+              accept=".csv,.txt,.xlsx,.xls"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+
+          {error && (
+            <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-400 text-sm flex items-center gap-2">
+              <span className="material-icons-round text-lg">error_outline</span>
+              {error}
+            </div>
+          )}
+
+          {mapping && (
+            <>
+              {/* Format & Column Mapping */}
+              <div className="p-4 bg-slate-800/30 rounded-xl border border-slate-700/30 space-y-3">
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Format</label>
+                    <select
+                      value={profileId}
+                      onChange={(e) => handleProfileChange(e.target.value as BrokerProfileId)}
+                      className="w-full bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500"
+                    >
+                      {BROKER_PROFILES.map(p => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                      <option value="generic">CSV Generik (atur kolom)</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Satuan Jumlah</label>
+                    <select
+                      value={mapping.quantityUnit}
+                      onChange={(e) => setMapping({ ...mapping, quantityUnit: e.target.value as QuantityUnit })}
+                      className="w-full bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500"
+                    >
+                      <option value="lot">Lot</option>
+                      <option value="share">Lembar</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Format Tanggal</label>
+                    <select
+                      value={mapping.dateOrder}
+                      onChange={(e) => setMapping({ ...mapping, dateOrder: e.target.value as DateOrder })}
+                      className="w-full bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500"
+                    >
+                      <option value="dmy">DD/MM/YYYY</option>
+                      <option value="mdy">MM/DD/YYYY</option>
+                      <option value="ymd">YYYY-MM-DD</option>
+                    </select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {(Object.keys(FIELD_LABELS) as ImportField[]).map(field => (
+                    <div key={field}>
+                      <label className="block text-[11px] text-slate-500 mb-1">{FIELD_LABELS[field]}</label>
+                      <select
+                        value={mapping.columns[field] ?? ''}
+                        onChange={(e) => updateColumn(field, e.target.value)}
+                        className="w-full bg-slate-900/50 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:border-sky-500"
+                      >
+                        <option value="">— Tidak ada —</option>
+                        {headers.map((header, index) => (
+                          <option key={index} value={index}>{header || `Kolom ${index + 1}`}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                {!mappingComplete && (
+                  <p className="text-xs text-amber-400">Pilih kolom tanggal, kode saham, beli/jual, jumlah dan harga.</p>
+                )}
+              </div>
+
+              {/* Preview */}
+              {preview && (
+                <div className="bg-slate-800/30 rounded-xl border border-slate-700/30 overflow-hidden">
+                  <div className="px-4 py-3 border-b border-slate-700/30 flex items-center gap-3 text-xs">
+                    <h3 className="text-sm font-bold text-white mr-auto">Preview</h3>
+                    <span className="text-emerald-400">{preview.newCount} baru</span>
+                    <span className="text-amber-400">{preview.duplicateCount} duplikat</span>
+                    <span className="text-red-400">{preview.errorCount} error</span>
+                  </div>
+                  <div className="overflow-x-auto max-h-72">
+                    <table className="w-full text-xs">
+                      <thead className="bg-slate-900/50 text-slate-400 sticky top-0">
+                        <tr>
+                          <th className="px-3 py-2 text-left">Baris</th>
+                          <th className="px-3 py-2 text-left">Status</th>
+                          <th className="px-3 py-2 text-left">Tanggal</th>
+                          <th className="px-3 py-2 text-left">Saham</th>
+                          <th className="px-3 py-2 text-left">Tipe</th>
+                          <th className="px-3 py-2 text-right">Lot</th>
+                          <th className="px-3 py-2 text-right">Harga</th>
+                          <th className="px-3 py-2 text-right">Fee</th>
+                        </tr>
+                      </thead>
+                      <tbody className="font-mono">
+                        {preview.rows.map(row => (
+                          <React.Fragment key={row.rowNumber}>
+                            <tr
+                              className={`border-t border-slate-800/60 ${row.status === 'new' ? 'text-slate-200' : 'text-slate-500'}`}
+                            >
+                              <td className="px-3 py-2">{row.rowNumber}</td>
+                              <td className="px-3 py-2 font-sans">
+                                <span className={`px-2 py-0.5 rounded text-[10px] font-bold ${STATUS_STYLES[row.status].className}`}>
+                                  {STATUS_STYLES[row.status].label}
+                                </span>
+                              </td>
+                              {row.transaction ? (
+                                <>
+                                  <td className="px-3 py-2">{new Date(row.transaction.date).toLocaleDateString('id-ID')}</td>
+                                  <td className="px-3 py-2 font-sans font-semibold">{row.transaction.symbol}</td>
+                                  <td className={`px-3 py-2 font-sans ${row.transaction.type === 'buy' ? 'text-emerald-400' : 'text-red-400'}`}>
+                                    {row.transaction.type === 'buy' ? 'Beli' : 'Jual'}
+                                  </td>
+                                  <td className="px-3 py-2 text-right">{row.transaction.shares.toLocaleString('id-ID')}</td>
+                                  <td className="px-3 py-2 text-right">{row.transaction.pricePerShare.toLocaleString('id-ID')}</td>
+                                  <td className="px-3 py-2 text-right">{formatCurrency(row.transaction.fee)}</td>
+                                </>
+                              ) : (
+                                <td colSpan={6} className="px-3 py-2 font-sans text-red-400">{row.error}</td>
+                              )}
+                            </tr>
+                            {row.transaction && row.error && (
+                              <tr>
+                                <td />
+                                <td colSpan={7} className="px-3 pb-2 font-sans text-red-400">{row.error}</td>
+                              </tr>
+                            )}
+                          </React.Fragment>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-700/50 bg-slate-800/30 flex items-center justify-between gap-3">
+          <p className="text-[11px] text-slate-500">
+            Duplikat (tanggal, saham, tipe, harga & lot sama) dan baris error tidak akan diimport.
+          </p>
+          <button
+            onClick={handleCommit}
+            disabled={!preview || preview.newCount === 0}
+            className="px-5 py-2.5 rounded-xl bg-gradient-to-r from-sky-500 to-blue-600 text-white text-sm font-bold flex items-center gap-2 hover:opacity-90 transition-all disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+          >
+            <span className="material-icons-round text-lg">file_download_done</span>
+            Import {preview?.newCount || 0} Transaksi
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportTransactionsModal;
@@ -8,8 +8,10 @@ import {
   Tooltip,
   ResponsiveContainer,
 } from 'recharts';
-import { StockData, TimeRange } from '../types';
-import { fetchHistoricalData } from '../services/stockApiService';
+import { DataSourceInfo, StockData, TimeRange } from '../types';
+import { calculateSMA } from '../utils/indicators';
+import { fetchHistoryWithSource } from '../services/stockApiService';
+import DataSourceBadge from './DataSourceBadge';
 
 interface MultiTimeframeChartProps {
   symbol: string;
@@ -22,6 +24,7 @@ interface TimeframeData {
   label: string;
   days: number;
   data: StockData[];
+  source?: DataSourceInfo;
   loading: boolean;
   change: number;
   changePercent: number;
@@ -44,20 +47,6 @@ const COLORS = {
   TextLight: '#d1d4dc',
 };
 
-// Calculate SMA
-const calculateSMA = (data: StockData[], period: number): (number | null)[] => {
-  const sma: (number | null)[] = [];
-  for (let i = 0; i < data.length; i++) {
-    if (i < period - 1) {
-      sma.push(null);
-    } else {
-      const sum = data.slice(i - period + 1, i + 1).reduce((acc, d) => acc + d.close, 0);
-      sma.push(sum / period);
-    }
-  }
-  return sma;
-};
-
 // Mini Chart Tooltip
 const MiniTooltip = ({ active, payload }: any) => {
   if (!active || !payload || !payload.length) return null;
@@ -103,7 +92,9 @@ const MultiTimeframeChart: React.FC<MultiTimeframeChartProps> = ({
       // Load data for each timeframe
       const promises = TIMEFRAMES.map(async (tf) => {
         try {
-          const data = await fetchHistoricalData(symbol, tf.days);
+          // Histori simulator tidak digambar sebagai harga pasar
+          const history = await fetchHistoryWithSource(symbol, tf.days);
+          const data = history.source.simulated ? [] : history.data;
           const change = data.length > 1 
             ? data[data.length - 1].close - data[0].close 
             : 0;
@@ -114,6 +105,7 @@ const MultiTimeframeChart: React.FC<MultiTimeframeChartProps> = ({
           return {
             ...tf,
             data,
+            source: history.source,
             loading: false,
             change,
             changePercent,
@@ -195,13 +187,11 @@ const MultiTimeframeChart: React.FC<MultiTimeframeChartProps> = ({
             : 'grid grid-cols-4 gap-3'
         }`}>
           {timeframes.map((tf, index) => {
-            const chartData = tf.data.map((d, i) => {
-              const sma20 = calculateSMA(tf.data, 20);
-              return {
-                ...d,
-                sma20: sma20[i],
-              };
-            });
+            const sma20 = calculateSMA(tf.data, 20);
+            const chartData = tf.data.map((d, i) => ({
+              ...d,
+              sma20: sma20[i],
+            }));
 
             const isBullish = tf.change >= 0;
             const latestPrice = tf.data.length > 0 ? tf.data[tf.data.length - 1].close : 0;
@@ -218,6 +208,7 @@ const MultiTimeframeChart: React.FC<MultiTimeframeChartProps> = ({
                   <div className="flex items-center gap-2">
                     <span className="text-sm font-bold text-white">{tf.label}</span>
                     <span className="text-xs text-slate-500">({tf.range})</span>
+                    {!tf.loading && <DataSourceBadge source={tf.source} />}
                   </div>
                   <div className="flex items-center gap-2">
                     <span className="text-sm font-mono text-white">
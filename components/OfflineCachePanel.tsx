@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  OfflineCacheSettings,
+  OfflineCacheStats,
+  DEFAULT_CACHE_SETTINGS,
+  isOfflineCacheAvailable,
+  loadCacheSettings,
+  saveCacheSettings,
+  getCacheStats,
+  clearOfflineCache,
+} from '../services/offlineCacheService';
+
+/**
+ * Usage and eviction limits of the IndexedDB offline cache
+ */
+const OfflineCachePanel: React.FC = () => {
+  const [settings, setSettings] = useState<OfflineCacheSettings>(loadCacheSettings);
+  const [stats, setStats] = useState<OfflineCacheStats | null>(null);
+  const [status, setStatus] = useState<'idle' | 'saving' | 'saved' | 'cleared'>('idle');
+
+  const refreshStats = useCallback(() => {
+    getCacheStats().then(setStats);
+  }, []);
+
+  useEffect(() => {
+    refreshStats();
+  }, [refreshStats]);
+
+  const handleSave = async () => {
+    setStatus('saving');
+    await saveCacheSettings(settings);
+    refreshStats();
+    setStatus('saved');
+    setTimeout(() => setStatus('idle'), 2000);
+  };
+
+  const handleClear = async () => {
+    await clearOfflineCache();
+    refreshStats();
+    setStatus('cleared');
+    setTimeout(() => setStatus('idle'), 2000);
+  };
+
+  const updateLimit = (key: 'maxSeries' | 'maxCandlesPerSeries' | 'maxIdleDays', value: string) => {
+    const parsed = parseInt(value, 10);
+    setSettings(prev => ({ ...prev, [key]: Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_CACHE_SETTINGS[key] }));
+  };
+
+  if (!isOfflineCacheAvailable()) {
+    return (
+      <div className="p-4 bg-slate-800/30 rounded-xl text-sm text-slate-400 flex items-center gap-2">
+        <span className="material-icons-round text-amber-400">warning</span>
+        Browser ini tidak mendukung IndexedDB, cache offline tidak aktif.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Usage */}
+      <div className="grid grid-cols-3 gap-3">
+        <CacheStat label="Seri Candle" value={stats?.seriesCount} />
+        <CacheStat label="Total Candle" value={stats?.candleCount} />
+        <CacheStat label="Quote & Berita" value={stats?.entryCount} />
+      </div>
+
+      <div className="flex items-center justify-between p-4 bg-slate-800/30 rounded-xl">
+        <div className="flex items-center gap-3">
+          <span className="material-icons-round text-slate-400">offline_bolt</span>
+          <div>
+            <p className="text-white font-medium">Cache Offline</p>
+            <p className="text-sm text-slate-400">Simpan histori harga agar chart langsung tampil, juga saat offline</p>
+          </div>
+        </div>
+        <button
+          onClick={() => setSettings(prev => ({ ...prev, enabled: !prev.enabled }))}
+          className={`relative w-12 h-6 rounded-full transition-colors ${settings.enabled ? 'bg-blue-500' : 'bg-slate-600'}`}
+        >
+          <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform ${settings.enabled ? 'translate-x-7' : 'translate-x-1'}`} />
+        </button>
+      </div>
+
+      {/* Eviction limits */}
+      <div className="grid grid-cols-3 gap-3">
+        <LimitInput
+          label="Maks. seri"
+          hint="Simbol × interval, di luar histori screener"
+          value={settings.maxSeries}
+          onChange={v => updateLimit('maxSeries', v)}
+        />
+        <LimitInput
+          label="Maks. candle / seri"
+          hint="Candle terlama dihapus"
+          value={settings.maxCandlesPerSeries}
+          onChange={v => updateLimit('maxCandlesPerSeries', v)}
+        />
+        <LimitInput
+          label="Hapus jika idle (hari)"
+          hint="Tidak dibuka selama ini"
+          value={settings.maxIdleDays}
+          onChange={v => updateLimit('maxIdleDays', v)}
+        />
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        {status === 'saved' && <span className="text-xs text-emerald-400">Tersimpan</span>}
+        {status === 'cleared' && <span className="text-xs text-emerald-400">Cache dikosongkan</span>}
+        <button
+          onClick={handleClear}
+          className="flex items-center gap-1 px-3 py-2 text-sm bg-red-500/10 hover:bg-red-500/20 text-red-400 rounded-lg transition-colors"
+        >
+          <span className="material-icons-round text-sm">delete_sweep</span>
+          Kosongkan
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={status === 'saving'}
+          className="flex items-center gap-1 px-4 py-2 text-sm bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white rounded-lg transition-colors"
+        >
+          <span className="material-icons-round text-sm">save</span>
+          Simpan
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Cache Stat Component
+const CacheStat: React.FC<{ label: string; value?: number }> = ({ label, value }) => (
+  <div className="p-3 bg-slate-800/30 rounded-xl">
+    <p className="text-xs text-slate-500">{label}</p>
+    <p className="text-lg font-mono font-semibold text-white">{value !== undefined ? value.toLocaleString('id-ID') : '-'}</p>
+  </div>
+);
+
+// Limit Input Component
+interface LimitInputProps {
+  label: string;
+  hint: string;
+  value: number;
+  onChange: (value: string) => void;
+}
+
+const LimitInput: React.FC<LimitInputProps> = ({ label, hint, value, onChange }) => (
+  <label className="block">
+    <span className="text-xs text-slate-400">{label}</span>
+    <input
+      type="number"
+      min={1}
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      className="mt-1 w-full px-3 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500/50"
+    />
+    <span className="text-[10px] text-slate-500">{hint}</span>
+  </label>
+);
+
+export default OfflineCachePanel;
@@ -0,0 +1,185 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { StockTicker, MarketDepth, DepthLevel } from '../types';
+import { subscribeToMarketDepth } from '../services/stockApiService';
+import { getTickSize } from '../utils/marketRules';
+
+interface OrderBookPanelProps {
+  ticker: StockTicker;
+}
+
+const LADDER_LEVELS = 5;
+const CHART_LEVELS = 10;
+
+const TOOLTIP_STYLE = { background: '#1e222d', border: '1px solid #363a45', borderRadius: 8, fontSize: 11 };
+
+// Cumulative lots from the best price outward, sorted by price for the depth chart
+const buildDepthChart = (depth: MarketDepth) => {
+  let bidTotal = 0;
+  const bids = depth.bids.map(level => {
+    bidTotal += level.lots;
+    return { price: level.price, bid: bidTotal };
+  }).reverse();
+  let askTotal = 0;
+  const asks = depth.asks.map(level => {
+    askTotal += level.lots;
+    return { price: level.price, ask: askTotal };
+  });
+  return [...bids, ...asks];
+};
+
+const OrderBookPanel: React.FC<OrderBookPanelProps> = ({ ticker }) => {
+  const [depth, setDepth] = useState<MarketDepth | null>(null);
+
+  useEffect(() => {
+    setDepth(null);
+    return subscribeToMarketDepth(ticker.symbol, setDepth, CHART_LEVELS);
+  }, [ticker.symbol]);
+
+  const chartData = useMemo(() => depth ? buildDepthChart(depth) : [], [depth]);
+
+  if (!depth) {
+    return (
+      <div className="bg-gradient-to-br from-[#141c2f] to-[#0f1629] rounded-2xl p-5 border border-slate-800/60 shadow-xl">
+        <div className="flex items-center justify-center h-40 text-slate-500 text-xs gap-2">
+          <span className="material-icons-round text-blue-400 animate-spin">sync</span>
+          Memuat order book...
+        </div>
+      </div>
+    );
+  }
+
+  const asks = depth.asks.slice(0, LADDER_LEVELS);
+  const bids = depth.bids.slice(0, LADDER_LEVELS);
+  const maxLots = Math.max(...asks.map(l => l.lots), ...bids.map(l => l.lots), 1);
+  const totalBid = depth.bids.reduce((sum, l) => sum + l.lots, 0);
+  const totalAsk = depth.asks.reduce((sum, l) => sum + l.lots, 0);
+  const buyPressure = totalBid + totalAsk > 0 ? (totalBid / (totalBid + totalAsk)) * 100 : 50;
+  const bestBid = depth.bids[0]?.price;
+  const bestAsk = depth.asks[0]?.price;
+  const spread = bestBid !== undefined && bestAsk !== undefined ? bestAsk - bestBid : null;
+
+  return (
+    <div className="bg-gradient-to-br from-[#141c2f] to-[#0f1629] rounded-2xl p-5 border border-slate-800/60 shadow-xl">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-slate-300 uppercase tracking-wider flex items-center gap-2">
+          <span className="material-icons-round text-blue-400 text-lg">menu_book</span>
+          Order Book
+        </h3>
+        {depth.simulated ? (
+          <span className="text-[10px] px-2 py-0.5 rounded-full bg-amber-500/20 text-amber-400 font-medium" title="Antrian disimulasikan dari harga terakhir">
+            SIMULASI
+          </span>
+        ) : (
+          <div className="flex items-center gap-2">
+            <span className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse"></span>
+            <span className="text-[10px] text-emerald-400 font-medium">LIVE</span>
+          </div>
+        )}
+      </div>
+
+      {/* Headers */}
+      <div className="grid grid-cols-3 text-[10px] text-slate-500 uppercase font-bold mb-3 px-3">
+        <span>Price (Rp)</span>
+        <span className="text-right">Lot</span>
+        <span className="text-right">Order</span>
+      </div>
+
+      <div className="space-y-1 font-mono text-sm">
+        {/* Ask (Sell) Orders - harga tertinggi di atas */}
+        {[...asks].reverse().map(level => (
+          <OrderBookRow key={`ask_${level.price}`} level={level} type="ask" depth={(level.lots / maxLots) * 100} />
+        ))}
+
+        {/* Last Price & Spread */}
+        <div className="flex justify-between items-center py-3 my-2 px-3 rounded-xl bg-gradient-to-r from-blue-500/20 via-emerald-500/20 to-blue-500/20 border border-emerald-500/30">
+          <span className="flex items-center gap-2 text-emerald-400 font-bold text-base">
+            <span className="w-2.5 h-2.5 rounded-full bg-emerald-500 animate-pulse shadow-lg shadow-emerald-500/50"></span>
+            {depth.lastPrice.toLocaleString()}
+          </span>
+          {spread !== null && (
+            <span className="text-[11px] text-slate-400">
+              Spread {spread.toLocaleString()} ({Math.round(spread / getTickSize(bestBid!))} tick)
+            </span>
+          )}
+        </div>
+
+        {/* Bid (Buy) Orders */}
+        {bids.map(level => (
+          <OrderBookRow key={`bid_${level.price}`} level={level} type="bid" depth={(level.lots / maxLots) * 100} />
+        ))}
+      </div>
+
+      {/* Cumulative Depth */}
+      <div className="h-28 mt-4">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={chartData} margin={{ top: 5, right: 0, left: 0, bottom: 0 }}>
+            <XAxis
+              dataKey="price"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tick={{ fontSize: 9, fill: '#787b86' }}
+              tickLine={false}
+              tickFormatter={(v) => v.toLocaleString()}
+            />
+            <YAxis hide />
+            <Tooltip
+              contentStyle={TOOLTIP_STYLE}
+              labelFormatter={(v) => `Rp ${Number(v).toLocaleString()}`}
+              formatter={(value: number, name: string) => [`${value.toLocaleString()} lot`, name === 'bid' ? 'Kumulatif Bid' : 'Kumulatif Ask']}
+            />
+            <Area type="stepAfter" dataKey="bid" stroke="#10b981" fill="#10b981" fillOpacity={0.2} strokeWidth={1.5} connectNulls={false} />
+            <Area type="stepBefore" dataKey="ask" stroke="#ef4444" fill="#ef4444" fillOpacity={0.2} strokeWidth={1.5} connectNulls={false} />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Market Depth Summary */}
+      <div className="mt-4 pt-4 border-t border-slate-700/50">
+        <div className="flex items-center justify-between text-xs">
+          <div className="flex items-center gap-2">
+            <span className="w-3 h-3 rounded bg-emerald-500/30"></span>
+            <span className="text-slate-400">Total Bid</span>
+            <span className="text-emerald-400 font-semibold">{totalBid.toLocaleString()}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-red-400 font-semibold">{totalAsk.toLocaleString()}</span>
+            <span className="text-slate-400">Total Ask</span>
+            <span className="w-3 h-3 rounded bg-red-500/30"></span>
+          </div>
+        </div>
+        <div className="mt-2 h-2 rounded-full bg-slate-800 overflow-hidden flex">
+          <div className="bg-gradient-to-r from-emerald-500 to-emerald-400 h-full" style={{ width: `${buyPressure}%` }}></div>
+          <div className="bg-gradient-to-r from-red-400 to-red-500 h-full" style={{ width: `${100 - buyPressure}%` }}></div>
+        </div>
+        <div className="text-center mt-2 text-[10px] text-slate-500">Buy Pressure: {buyPressure.toFixed(0)}%</div>
+      </div>
+    </div>
+  );
+};
+
+// Order Book Row Component
+interface OrderBookRowProps {
+  level: DepthLevel;
+  type: 'bid' | 'ask';
+  depth: number;
+}
+
+const OrderBookRow: React.FC<OrderBookRowProps> = ({ level, type, depth }) => (
+  <div className="relative grid grid-cols-3 items-center px-3 py-1.5 rounded-lg overflow-hidden">
+    {/* Depth Bar */}
+    <div
+      className={`absolute left-0 top-0 bottom-0 ${
+        type === 'bid' ? 'bg-emerald-500/10' : 'bg-red-500/10'
+      }`}
+      style={{ width: `${depth}%` }}
+    />
+    <span className={`relative z-10 ${type === 'bid' ? 'text-emerald-400' : 'text-red-400'}`}>
+      {level.price.toLocaleString()}
+    </span>
+    <span className="relative z-10 text-slate-300 text-right">{level.lots.toLocaleString()}</span>
+    <span className="relative z-10 text-slate-500 text-right text-xs">{level.orders.toLocaleString()}</span>
+  </div>
+);
+
+export default OrderBookPanel;
@@ -0,0 +1,457 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { StockTicker } from '../types';
+import {
+  PaperAccount,
+  PaperOrder,
+  OrderSide,
+  OrderType,
+  DEFAULT_PAPER_BALANCE,
+  loadPaperAccount,
+  resetPaperAccount,
+  getPaperHoldings,
+  getAvailableCash,
+  getAvailableLots,
+  getPaperEquity,
+  placePaperOrder,
+  cancelPaperOrder,
+  getPaperPortfolioId,
+} from '../services/paperTradingService';
+import { calculateBrokerFee } from '../services/portfolioService';
+import { IDX_LOT_SIZE, roundToTick, getAutoRejectionLimits } from '../utils/marketRules';
+import { formatRupiah, formatPercent, formatCompact, formatDateTime, getProfitLossColor } from '../utils/formatters';
+
+export interface PaperOrderPrefill {
+  side: OrderSide;
+  limitPrice?: number;
+}
+
+interface PaperTradingPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  ticker: StockTicker;
+  prefill?: PaperOrderPrefill | null;
+  onAccountChange?: (account: PaperAccount) => void;
+}
+
+const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  market: 'Market',
+  limit: 'Limit',
+  stop: 'Stop',
+};
+
+const STATUS_STYLES: Record<PaperOrder['status'], string> = {
+  pending: 'bg-amber-500/20 text-amber-400',
+  filled: 'bg-emerald-500/20 text-emerald-400',
+  cancelled: 'bg-slate-500/20 text-slate-400',
+  rejected: 'bg-red-500/20 text-red-400',
+};
+
+const PaperTradingPanel: React.FC<PaperTradingPanelProps> = ({ isOpen, onClose, ticker, prefill, onAccountChange }) => {
+  const [account, setAccount] = useState<PaperAccount>(loadPaperAccount);
+  const [side, setSide] = useState<OrderSide>('buy');
+  const [orderType, setOrderType] = useState<OrderType>('market');
+  const [lots, setLots] = useState(1);
+  const [price, setPrice] = useState(0);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // Reload when opened (fills may have happened in the background)
+  useEffect(() => {
+    if (isOpen) {
+      setAccount(loadPaperAccount());
+      setMessage(null);
+    }
+  }, [isOpen]);
+
+  // Apply prefill from AI signal / other panels
+  useEffect(() => {
+    if (isOpen && prefill) {
+      setSide(prefill.side);
+      if (prefill.limitPrice) {
+        setOrderType('limit');
+        setPrice(roundToTick(prefill.limitPrice, prefill.side === 'buy' ? 'down' : 'up'));
+      } else {
+        setOrderType('market');
+      }
+    }
+  }, [isOpen, prefill]);
+
+  // Default the price field to the current price
+  useEffect(() => {
+    setPrice(roundToTick(ticker.price));
+  }, [ticker.symbol]);
+
+  const refresh = () => {
+    const updated = loadPaperAccount();
+    setAccount(updated);
+    onAccountChange?.(updated);
+  };
+
+  const holdings = useMemo(() => getPaperHoldings(account), [account]);
+  const availableCash = useMemo(() => getAvailableCash(account), [account]);
+  const availableLots = useMemo(() => getAvailableLots(ticker.symbol, account), [ticker.symbol, account]);
+  const equity = useMemo(() => getPaperEquity({ [ticker.symbol]: ticker.price }, account), [account, ticker]);
+  const pnl = equity - account.initialBalance;
+  const pnlPercent = account.initialBalance > 0 ? (pnl / account.initialBalance) * 100 : 0;
+
+  const referencePrice = ticker.price - ticker.change;
+  const limits = referencePrice > 0 ? getAutoRejectionLimits(referencePrice) : null;
+
+  const orderPrice = orderType === 'market' ? ticker.price : price;
+  const estimatedValue = lots * IDX_LOT_SIZE * orderPrice;
+  const estimatedFee = calculateBrokerFee(side, lots, orderPrice, getPaperPortfolioId());
+
+  const openOrders = account.orders.filter(o => o.status === 'pending');
+  const orderHistory = account.orders.filter(o => o.status !== 'pending').slice().reverse();
+
+  const handleSubmit = () => {
+    try {
+      const order = placePaperOrder(
+        {
+          symbol: ticker.symbol,
+          side,
+          type: orderType,
+          lots,
+          limitPrice: orderType === 'limit' ? price : undefined,
+          stopPrice: orderType === 'stop' ? price : undefined,
+        },
+        { price: ticker.price, change: ticker.change, simulated: !!ticker.dataSource?.simulated }
+      );
+
+      if (order.status === 'rejected') {
+        setMessage({ type: 'error', text: `Order ditolak: ${order.rejectReason}` });
+      } else if (order.status === 'filled') {
+        setMessage({
+          type: 'success',
+          text: `${side === 'buy' ? 'Beli' : 'Jual'} ${order.lots} lot ${order.symbol} @ Rp ${order.fillPrice?.toLocaleString('id-ID')} terisi`,
+        });
+      } else {
+        setMessage({ type: 'success', text: `Order ${ORDER_TYPE_LABELS[orderType]} ${order.symbol} menunggu eksekusi` });
+      }
+      refresh();
+    } catch (err) {
+      setMessage({ type: 'error', text: (err as Error).message });
+    }
+  };
+
+  const handleCancel = (orderId: string) => {
+    cancelPaperOrder(orderId);
+    refresh();
+  };
+
+  const handleReset = () => {
+    if (confirm('Reset akun paper trading? Semua order dan posisi virtual akan dihapus.')) {
+      resetPaperAccount(DEFAULT_PAPER_BALANCE);
+      refresh();
+      setMessage(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#131722] rounded-2xl w-full max-w-6xl max-h-[90vh] overflow-hidden flex flex-col shadow-2xl border border-slate-700/50">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700/50 bg-slate-800/30">
+          <div className="flex items-center gap-4">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-teal-500 to-cyan-600 flex items-center justify-center">
+              <span className="material-icons-round text-white">science</span>
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Paper Trading</h2>
+              <p className="text-sm text-slate-400">Latihan trading dengan saldo virtual</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleReset}
+              className="px-3 py-2 rounded-xl bg-slate-700/50 hover:bg-slate-700 text-slate-300 text-sm flex items-center gap-1 transition-all"
+              title="Reset akun"
+            >
+              <span className="material-icons-round text-base">restart_alt</span>
+              Reset
+            </button>
+            <button
+              onClick={onClose}
+              className="w-10 h-10 rounded-xl bg-slate-700/50 hover:bg-red-500/20 flex items-center justify-center text-slate-400 hover:text-red-400 transition-all"
+            >
+              <span className="material-icons-round">close</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-6">
+          {/* Account Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <SummaryCard label="Ekuitas" value={formatRupiah(equity)} />
+            <SummaryCard label="Kas" value={formatRupiah(account.cash)} />
+            <SummaryCard label="Kas Tersedia" value={formatRupiah(availableCash)} />
+            <SummaryCard
+              label="Total P/L"
+              value={`${formatCompact(pnl)} (${formatPercent(pnlPercent)})`}
+              colorValue={pnl}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Order Ticket */}
+            <div className="bg-slate-800/30 rounded-xl border border-slate-700/30 p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-bold text-white">{ticker.symbol}</h3>
+                <span className="text-sm font-mono text-slate-300">Rp {ticker.price.toLocaleString('id-ID')}</span>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => setSide('buy')}
+                  className={`py-2 rounded-lg text-sm font-semibold transition-all ${
+                    side === 'buy' ? 'bg-emerald-500 text-white' : 'bg-slate-700/50 text-slate-400 hover:text-white'
+                  }`}
+                >
+                  Beli
+                </button>
+                <button
+                  onClick={() => setSide('sell')}
+                  className={`py-2 rounded-lg text-sm font-semibold transition-all ${
+                    side === 'sell' ? 'bg-red-500 text-white' : 'bg-slate-700/50 text-slate-400 hover:text-white'
+                  }`}
+                >
+                  Jual
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-xs text-slate-400 mb-1">Tipe Order</label>
+                <select
+                  value={orderType}
+                  onChange={(e) => setOrderType(e.target.value as OrderType)}
+                  className="w-full bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-teal-500"
+                >
+                  {(Object.keys(ORDER_TYPE_LABELS) as OrderType[]).map(type => (
+                    <option key={type} value={type}>{ORDER_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+
+              {orderType !== 'market' && (
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">
+                    {orderType === 'limit' ? 'Harga Limit' : 'Harga Stop'} (Rp)
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={price}
+                    onChange={(e) => setPrice(Number(e.target.value))}
+                    onBlur={() => setPrice(roundToTick(price))}
+                    className="w-full bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:border-teal-500"
+                  />
+                  {limits && (
+                    <p className="text-[11px] text-slate-500 mt-1">
+                      ARB Rp {limits.lower.toLocaleString('id-ID')} • ARA Rp {limits.upper.toLocaleString('id-ID')}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs text-slate-400 mb-1">
+                  Jumlah (Lot){side === 'sell' && <span className="text-slate-500"> • tersedia {availableLots} lot</span>}
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={lots}
+                  onChange={(e) => setLots(Math.max(1, Math.floor(Number(e.target.value))))}
+                  className="w-full bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:border-teal-500"
+                />
+                <p className="text-[11px] text-slate-500 mt-1">{(lots * IDX_LOT_SIZE).toLocaleString('id-ID')} lembar</p>
+              </div>
+
+              <div className="text-xs space-y-1 border-t border-slate-700/50 pt-3">
+                <div className="flex justify-between text-slate-400">
+                  <span>Nilai</span>
+                  <span className="font-mono">{formatRupiah(estimatedValue)}</span>
+                </div>
+                <div className="flex justify-between text-slate-400">
+                  <span>Fee ({side === 'buy' ? '0,15%' : '0,25%'})</span>
+                  <span className="font-mono">{formatRupiah(estimatedFee)}</span>
+                </div>
+                <div className="flex justify-between text-white font-semibold">
+                  <span>Total</span>
+                  <span className="font-mono">
+                    {formatRupiah(side === 'buy' ? estimatedValue + estimatedFee : estimatedValue - estimatedFee)}
+                  </span>
+                </div>
+              </div>
+
+              <button
+                onClick={handleSubmit}
+                disabled={ticker.price <= 0}
+                className={`w-full py-2.5 rounded-xl text-white text-sm font-semibold transition-all disabled:opacity-50 ${
+                  side === 'buy' ? 'bg-emerald-600 hover:bg-emerald-500' : 'bg-red-600 hover:bg-red-500'
+                }`}
+              >
+                Kirim Order {side === 'buy' ? 'Beli' : 'Jual'}
+              </button>
+
+              {message && (
+                <div className={`p-2.5 rounded-lg text-xs ${
+                  message.type === 'success'
+                    ? 'bg-emerald-500/10 border border-emerald-500/30 text-emerald-400'
+                    : 'bg-red-500/10 border border-red-500/30 text-red-400'
+                }`}>
+                  {message.text}
+                </div>
+              )}
+            </div>
+
+            <div className="lg:col-span-2 space-y-6">
+              {/* Holdings */}
+              <div className="bg-slate-800/30 rounded-xl border border-slate-700/30 overflow-hidden">
+                <div className="px-4 py-3 border-b border-slate-700/30">
+                  <h3 className="text-sm font-bold text-white">Posisi Virtual</h3>
+                </div>
+                {holdings.length === 0 ? (
+                  <div className="p-6 text-center text-slate-500 text-sm">Belum ada posisi</div>
+                ) : (
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-900/50 text-slate-400">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Saham</th>
+                        <th className="px-3 py-2 text-right">Lot</th>
+                        <th className="px-3 py-2 text-right">Harga Rata-rata</th>
+                        <th className="px-3 py-2 text-right">P/L</th>
+                      </tr>
+                    </thead>
+                    <tbody className="font-mono">
+                      {holdings.map(h => {
+                        const lastPrice = h.symbol === ticker.symbol ? ticker.price : h.averagePrice;
+                        const holdingPnl = (lastPrice - h.averagePrice) * h.lots * IDX_LOT_SIZE;
+                        return (
+                          <tr key={h.symbol} className="border-t border-slate-800/60 text-slate-300">
+                            <td className="px-3 py-2 font-sans font-semibold text-white">{h.symbol}</td>
+                            <td className="px-3 py-2 text-right">{h.lots.toLocaleString('id-ID')}</td>
+                            <td className="px-3 py-2 text-right">{h.averagePrice.toLocaleString('id-ID', { maximumFractionDigits: 2 })}</td>
+                            <td className={`px-3 py-2 text-right ${getProfitLossColor(holdingPnl)}`}>
+                              {h.symbol === ticker.symbol ? formatCompact(holdingPnl) : '-'}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              {/* Open Orders */}
+              <div className="bg-slate-800/30 rounded-xl border border-slate-700/30 overflow-hidden">
+                <div className="px-4 py-3 border-b border-slate-700/30">
+                  <h3 className="text-sm font-bold text-white">Order Terbuka ({openOrders.length})</h3>
+                </div>
+                {openOrders.length === 0 ? (
+                  <div className="p-6 text-center text-slate-500 text-sm">Tidak ada order terbuka</div>
+                ) : (
+                  <OrderTable orders={openOrders} onCancel={handleCancel} />
+                )}
+              </div>
+
+              {/* Order History */}
+              <div className="bg-slate-800/30 rounded-xl border border-slate-700/30 overflow-hidden">
+                <div className="px-4 py-3 border-b border-slate-700/30">
+                  <h3 className="text-sm font-bold text-white">Riwayat Order</h3>
+                </div>
+                {orderHistory.length === 0 ? (
+                  <div className="p-6 text-center text-slate-500 text-sm">Belum ada riwayat order</div>
+                ) : (
+                  <OrderTable orders={orderHistory} />
+                )}
+              </div>
+            </div>
+          </div>
+
+          <p className="text-[11px] text-slate-500">
+            Order dicocokkan dengan update harga real-time • lot 100 lembar • fraksi harga & batas ARA/ARB IDX • transaksi yang terisi dicatat di Portfolio
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Summary Card Component
+interface SummaryCardProps {
+  label: string;
+  value: string;
+  colorValue?: number;
+}
+
+const SummaryCard: React.FC<SummaryCardProps> = ({ label, value, colorValue }) => (
+  <div className="bg-slate-800/30 rounded-xl border border-slate-700/30 px-3 py-2.5">
+    <p className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">{label}</p>
+    <p className={`text-sm font-mono font-semibold mt-1 ${
+      colorValue === undefined ? 'text-slate-200' : getProfitLossColor(colorValue)
+    }`}>
+      {value}
+    </p>
+  </div>
+);
+
+// Order Table Component
+interface OrderTableProps {
+  orders: PaperOrder[];
+  onCancel?: (orderId: string) => void;
+}
+
+const OrderTable: React.FC<OrderTableProps> = ({ orders, onCancel }) => (
+  <div className="overflow-x-auto max-h-64">
+    <table className="w-full text-xs">
+      <thead className="bg-slate-900/50 text-slate-400">
+        <tr>
+          <th className="px-3 py-2 text-left">Waktu</th>
+          <th className="px-3 py-2 text-left">Saham</th>
+          <th className="px-3 py-2 text-left">Order</th>
+          <th className="px-3 py-2 text-right">Lot</th>
+          <th className="px-3 py-2 text-right">Harga</th>
+          <th className="px-3 py-2 text-left">Status</th>
+          {onCancel && <th className="px-3 py-2" />}
+        </tr>
+      </thead>
+      <tbody className="font-mono">
+        {orders.map(order => (
+          <tr key={order.id} className="border-t border-slate-800/60 text-slate-300">
+            <td className="px-3 py-2">{formatDateTime(order.filledAt || order.createdAt)}</td>
+            <td className="px-3 py-2 font-sans font-semibold text-white">{order.symbol}</td>
+            <td className={`px-3 py-2 font-sans ${order.side === 'buy' ? 'text-emerald-400' : 'text-red-400'}`}>
+              {order.side === 'buy' ? 'Beli' : 'Jual'} {ORDER_TYPE_LABELS[order.type]}
+            </td>
+            <td className="px-3 py-2 text-right">{order.lots.toLocaleString('id-ID')}</td>
+            <td className="px-3 py-2 text-right">
+              {(order.fillPrice || order.limitPrice || order.stopPrice)?.toLocaleString('id-ID') || 'Market'}
+            </td>
+            <td className="px-3 py-2 font-sans">
+              <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${STATUS_STYLES[order.status]}`}>
+                {order.status}
+              </span>
+              {order.rejectReason && <span className="ml-2 text-slate-500">{order.rejectReason}</span>}
+            </td>
+            {onCancel && (
+              <td className="px-3 py-2 text-right">
+                <button
+                  onClick={() => onCancel(order.id)}
+                  className="text-slate-400 hover:text-red-400 transition-colors"
+                  title="Batalkan order"
+                >
+                  <span className="material-icons-round text-base">cancel</span>
+                </button>
+              </td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default PaperTradingPanel;
@@ -0,0 +1,237 @@
+import React, { useState, useEffect } from 'react';
+import {
+  ComposedChart,
+  AreaChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { Transaction } from '../services/portfolioService';
+import { PerformanceReport, loadPerformanceReport } from '../services/performanceService';
+import { formatPercent, formatRupiah, getProfitLossColor } from '../utils/formatters';
+import DataSourceBadge from './DataSourceBadge';
+
+interface PortfolioPerformancePanelProps {
+  transactions: Transaction[];
+  sectors: Record<string, string>;
+}
+
+const SECTOR_COLORS = ['#60a5fa', '#34d399', '#fbbf24', '#f472b6', '#a78bfa', '#f87171', '#22d3ee', '#fb923c', '#94a3b8'];
+
+const TOOLTIP_STYLE = { background: '#1e222d', border: '1px solid #363a45', borderRadius: 8, fontSize: 11 };
+
+const PortfolioPerformancePanel: React.FC<PortfolioPerformancePanelProps> = ({ transactions, sectors }) => {
+  const [report, setReport] = useState<PerformanceReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Parent re-renders on every price tick; only recompute when the inputs really change
+  const transactionsKey = transactions.map(t => t.id).join(',');
+  const sectorsKey = JSON.stringify(sectors);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    loadPerformanceReport(transactions, sectors)
+      .then(result => {
+        if (!cancelled) setReport(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Gagal menghitung kinerja');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [transactionsKey, sectorsKey]);
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center h-40 gap-2 text-slate-500">
+        <span className="material-icons-round text-4xl text-blue-400 animate-spin">sync</span>
+        <p className="text-xs">Merekonstruksi nilai harian portfolio...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="text-center py-10 text-red-400 text-sm">{error}</div>;
+  }
+
+  if (!report) {
+    return (
+      <div className="text-center py-10 text-slate-500">
+        <span className="material-icons-round text-4xl mb-2 block">insights</span>
+        <p>Belum ada transaksi untuk dianalisis</p>
+      </div>
+    );
+  }
+
+  const { metrics, points } = report;
+  const allocationData = points.map(p => ({ time: p.time, ...p.sectorAllocation }));
+  const formatOptional = (value: number | null, format: (v: number) => string) => value === null ? '-' : format(value);
+  // Tanpa histori IHSG asli, metrik relatif tidak dihitung
+  const hasBenchmark = metrics.benchmarkReturnPercent !== null;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-[11px] text-slate-500">
+        {new Date(metrics.startDate).toLocaleDateString('id-ID')} - {new Date(metrics.endDate).toLocaleDateString('id-ID')}
+        {' '}• Nilai saham saja, kas tidak ikut dihitung
+      </p>
+
+      {/* Metrics */}
+      <div className="grid grid-cols-4 gap-2">
+        <MetricCard label="TWR" value={formatPercent(metrics.twrPercent)} colorValue={metrics.twrPercent} />
+        <MetricCard
+          label="TWR / Tahun"
+          value={formatOptional(metrics.annualizedTwrPercent, v => formatPercent(v))}
+          colorValue={metrics.annualizedTwrPercent ?? undefined}
+        />
+        <MetricCard
+          label="XIRR"
+          value={formatOptional(metrics.xirrPercent, v => formatPercent(v))}
+          colorValue={metrics.xirrPercent ?? undefined}
+        />
+        <MetricCard
+          label="IHSG"
+          value={hasBenchmark ? formatPercent(metrics.benchmarkReturnPercent!) : 'Tidak tersedia'}
+          colorValue={metrics.benchmarkReturnPercent ?? undefined}
+        />
+        <MetricCard label="Volatilitas" value={`${metrics.volatilityPercent.toFixed(2)}%`} />
+        <MetricCard label="Max Drawdown" value={formatPercent(metrics.maxDrawdownPercent)} colorValue={metrics.maxDrawdownPercent} />
+        <MetricCard label="Beta" value={formatOptional(metrics.beta, v => v.toFixed(2))} />
+        <MetricCard
+          label="Alpha / Tahun"
+          value={formatOptional(metrics.alphaPercent, v => formatPercent(v))}
+          colorValue={metrics.alphaPercent ?? undefined}
+        />
+      </div>
+
+      {/* TWR vs IHSG */}
+      <div className="bg-slate-800/30 rounded-xl border border-slate-700/30 p-4">
+        <div className="flex items-center gap-2 mb-3">
+          <h3 className="text-sm font-bold text-white">Kinerja vs IHSG (awal = 100)</h3>
+          {hasBenchmark
+            ? <DataSourceBadge source={report.benchmarkSource} />
+            : <span className="text-[10px] text-amber-400">Benchmark tidak tersedia, beta/alpha/korelasi tidak dihitung</span>}
+        </div>
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={points} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#363a45" vertical={false} />
+              <XAxis dataKey="time" tick={{ fontSize: 9, fill: '#787b86' }} tickLine={false} minTickGap={40} />
+              <YAxis
+                tick={{ fontSize: 9, fill: '#787b86' }}
+                axisLine={false}
+                tickLine={false}
+                width={40}
+                domain={['auto', 'auto']}
+              />
+              <Tooltip
+                contentStyle={TOOLTIP_STYLE}
+                formatter={(value: number, name: string) => [value.toFixed(2), name === 'twrIndex' ? 'Portfolio' : 'IHSG']}
+              />
+              <Line type="monotone" dataKey="twrIndex" stroke="#a78bfa" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="benchmarkIndex" stroke="#94a3b8" strokeWidth={1.5} dot={false} connectNulls />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Drawdown */}
+      <div className="bg-slate-800/30 rounded-xl border border-slate-700/30 p-4">
+        <h3 className="text-sm font-bold text-white mb-3">Drawdown</h3>
+        <div className="h-32">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={points} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#363a45" vertical={false} />
+              <XAxis dataKey="time" tick={{ fontSize: 9, fill: '#787b86' }} tickLine={false} minTickGap={40} />
+              <YAxis
+                tick={{ fontSize: 9, fill: '#787b86' }}
+                axisLine={false}
+                tickLine={false}
+                tickFormatter={(v) => `${v.toFixed(0)}%`}
+                width={40}
+              />
+              <Tooltip
+                contentStyle={TOOLTIP_STYLE}
+                formatter={(value: number) => [`${value.toFixed(2)}%`, 'Drawdown']}
+              />
+              <Area type="monotone" dataKey="drawdownPercent" stroke="#ef5350" fill="#ef5350" fillOpacity={0.15} strokeWidth={1} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Sector allocation over time */}
+      {report.sectors.length > 0 && (
+        <div className="bg-slate-800/30 rounded-xl border border-slate-700/30 p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-bold text-white">Alokasi Sektor</h3>
+            <span className="text-xs text-slate-500 font-mono">
+              Nilai akhir {formatRupiah(points[points.length - 1].marketValue)}
+            </span>
+          </div>
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={allocationData} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#363a45" vertical={false} />
+                <XAxis dataKey="time" tick={{ fontSize: 9, fill: '#787b86' }} tickLine={false} minTickGap={40} />
+                <YAxis
+                  tick={{ fontSize: 9, fill: '#787b86' }}
+                  axisLine={false}
+                  tickLine={false}
+                  tickFormatter={(v) => `${v.toFixed(0)}%`}
+                  width={40}
+                  domain={[0, 100]}
+                />
+                <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => `${value.toFixed(1)}%`} />
+                <Legend wrapperStyle={{ fontSize: 10 }} />
+                {report.sectors.map((sector, i) => (
+                  <Area
+                    key={sector}
+                    type="monotone"
+                    dataKey={sector}
+                    stackId="sector"
+                    stroke={SECTOR_COLORS[i % SECTOR_COLORS.length]}
+                    fill={SECTOR_COLORS[i % SECTOR_COLORS.length]}
+                    fillOpacity={0.5}
+                    strokeWidth={1}
+                  />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface MetricCardProps {
+  label: string;
+  value: string;
+  colorValue?: number;
+}
+
+const MetricCard: React.FC<MetricCardProps> = ({ label, value, colorValue }) => (
+  <div className="bg-slate-800/30 rounded-xl border border-slate-700/30 px-3 py-2.5">
+    <p className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">{label}</p>
+    <p className={`text-sm font-mono font-semibold mt-1 ${
+      colorValue === undefined ? 'text-slate-200' : getProfitLossColor(colorValue)
+    }`}>
+      {value}
+    </p>
+  </div>
+);
+
+export default PortfolioPerformancePanel;
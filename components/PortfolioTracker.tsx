@@ -1,18 +1,68 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { StockTicker } from '../types';
 import {
   calculatePortfolioSummary,
+  calculateConsolidatedSummary,
+  getConsolidationCurrency,
   getTransactionHistory,
+  getConsolidatedTransactionHistory,
   deleteTransaction,
   formatCurrency,
   formatPercent,
   PortfolioSummary,
+  Portfolio,
+  PortfolioCurrency,
+  CostBasisMethod,
   Transaction,
+  ConsolidatedTransaction,
+  getUserPortfolios,
+  getActivePortfolioId,
+  setActivePortfolio,
+  createPortfolio,
+  renamePortfolio,
+  deletePortfolio,
+  adjustCashBalance,
+  setCostBasisMethod,
   clearPortfolio,
   exportToPDF,
   exportToExcel,
   exportToJSON,
+  getSplitAdjustedTransactions,
+  formatCorporateActionRatio,
+  TRANSACTION_TYPE_LABELS,
+  TransactionType,
 } from '../services/portfolioService';
+import { parsePriceInput } from '../utils/formatters';
+import ImportTransactionsModal from './ImportTransactionsModal';
+import CorporateActionModal from './CorporateActionModal';
+import PortfolioPerformancePanel from './PortfolioPerformancePanel';
+import TaxReportModal from './TaxReportModal';
+
+// Pseudo portfolio ID for the consolidated (all portfolios) view
+const CONSOLIDATED_VIEW = 'all';
+
+const COST_BASIS_LABELS: Record<CostBasisMethod, string> = {
+  fifo: 'FIFO',
+  average: 'Rata-rata',
+  specific: 'Pilih Lot',
+};
+
+// History icon and colour per transaction kind
+const TRANSACTION_STYLES: Record<TransactionType, { icon: string; className: string }> = {
+  buy: { icon: 'arrow_downward', className: 'bg-emerald-500/20 text-emerald-400' },
+  sell: { icon: 'arrow_upward', className: 'bg-red-500/20 text-red-400' },
+  dividend: { icon: 'savings', className: 'bg-amber-500/20 text-amber-400' },
+  split: { icon: 'call_split', className: 'bg-sky-500/20 text-sky-400' },
+  bonus: { icon: 'redeem', className: 'bg-sky-500/20 text-sky-400' },
+  rights: { icon: 'confirmation_number', className: 'bg-emerald-500/20 text-emerald-400' },
+};
+
+interface PortfolioForm {
+  mode: 'create' | 'rename';
+  name: string;
+  baseCurrency: PortfolioCurrency;
+  cashBalance: number;
+}
 
 interface PortfolioTrackerProps {
   isOpen: boolean;
@@ -28,11 +78,18 @@ const PortfolioTracker: React.FC<PortfolioTrackerProps> = ({
   onAddTransaction,
 }) => {
   const [summary, setSummary] = useState<PortfolioSummary | null>(null);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [activeTab, setActiveTab] = useState<'portfolio' | 'history'>('portfolio');
+  const [transactions, setTransactions] = useState<(Transaction | ConsolidatedTransaction)[]>([]);
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [selectedView, setSelectedView] = useState<string>(getActivePortfolioId);
+  const [portfolioForm, setPortfolioForm] = useState<PortfolioForm | null>(null);
+  const [portfolioError, setPortfolioError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'portfolio' | 'realized' | 'performance' | 'history'>('portfolio');
   const [isLoading, setIsLoading] = useState(true);
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [exportStatus, setExportStatus] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isTaxReportOpen, setIsTaxReportOpen] = useState(false);
+  const [corporateActionTarget, setCorporateActionTarget] = useState<{ symbol: string; lots: number } | null>(null);
 
   const loadPortfolioData = useCallback(() => {
     setIsLoading(true);
@@ -43,11 +100,20 @@ const PortfolioTracker: React.FC<PortfolioTrackerProps> = ({
       priceMap[stock.symbol] = stock.price;
     });
     
-    const portfolioSummary = calculatePortfolioSummary(priceMap);
-    setSummary(portfolioSummary);
-    setTransactions(getTransactionHistory());
+    const allPortfolios = getUserPortfolios();
+    setPortfolios(allPortfolios);
+
+    if (selectedView === CONSOLIDATED_VIEW) {
+      setSummary(calculateConsolidatedSummary(priceMap));
+      setTransactions(getConsolidatedTransactionHistory());
+    } else {
+      // Selected portfolio may have been deleted elsewhere
+      const portfolioId = allPortfolios.some(p => p.id === selectedView) ? selectedView : getActivePortfolioId();
+      setSummary(calculatePortfolioSummary(priceMap, portfolioId));
+      setTransactions(getTransactionHistory(undefined, portfolioId));
+    }
     setIsLoading(false);
-  }, [watchlist]);
+  }, [watchlist, selectedView]);
 
   useEffect(() => {
     if (isOpen) {
@@ -64,13 +130,86 @@ const PortfolioTracker: React.FC<PortfolioTrackerProps> = ({
     }
   }, [showExportMenu]);
 
-  const handleDeleteTransaction = (id: string) => {
-    if (confirm('Hapus transaksi ini?')) {
-      deleteTransaction(id);
+  const sectorMap = useMemo(() => {
+    const map: Record<string, string> = {};
+    watchlist.forEach(stock => {
+      if (stock.sector) map[stock.symbol] = stock.sector;
+    });
+    return map;
+  }, [watchlist]);
+
+  const isConsolidated = selectedView === CONSOLIDATED_VIEW;
+  const currentPortfolio = portfolios.find(p => p.id === selectedView);
+  const consolidationCurrency = getConsolidationCurrency(portfolios);
+  const baseCurrency = currentPortfolio?.baseCurrency || consolidationCurrency || 'IDR';
+
+  const handleSelectView = (view: string) => {
+    if (view !== CONSOLIDATED_VIEW) {
+      // Transaksi baru dicatat di portfolio yang dipilih
+      setActivePortfolio(view);
+    }
+    setSelectedView(view);
+    setPortfolioForm(null);
+    setPortfolioError(null);
+  };
+
+  const handleSavePortfolio = () => {
+    if (!portfolioForm) return;
+    try {
+      if (portfolioForm.mode === 'create') {
+        const portfolio = createPortfolio(portfolioForm.name, portfolioForm.baseCurrency, portfolioForm.cashBalance);
+        handleSelectView(portfolio.id);
+      } else if (currentPortfolio) {
+        renamePortfolio(currentPortfolio.id, portfolioForm.name);
+        setPortfolioForm(null);
+        setPortfolioError(null);
+        loadPortfolioData();
+      }
+    } catch (error) {
+      setPortfolioError((error as Error).message);
+    }
+  };
+
+  const handleDeletePortfolio = () => {
+    if (!currentPortfolio) return;
+    if (confirm(`Hapus portfolio "${currentPortfolio.name}" beserta seluruh transaksinya?`)) {
+      try {
+        deletePortfolio(currentPortfolio.id);
+        handleSelectView(getActivePortfolioId());
+      } catch (error) {
+        setPortfolioError((error as Error).message);
+      }
+    }
+  };
+
+  const handleAdjustCash = (direction: 1 | -1) => {
+    if (!currentPortfolio) return;
+    const input = prompt(direction === 1 ? 'Jumlah setoran kas:' : 'Jumlah penarikan kas:');
+    const amount = input ? parsePriceInput(input) : 0;
+    if (amount > 0) {
+      adjustCashBalance(direction * amount, currentPortfolio.id);
       loadPortfolioData();
     }
   };
 
+  const handleCostBasisChange = (method: CostBasisMethod) => {
+    if (!currentPortfolio) return;
+    setCostBasisMethod(method, currentPortfolio.id);
+    loadPortfolioData();
+  };
+
+  const handleDeleteTransaction = (txn: Transaction | ConsolidatedTransaction) => {
+    if (confirm('Hapus transaksi ini?')) {
+      try {
+        deleteTransaction(txn.id, 'portfolioId' in txn ? txn.portfolioId : selectedView);
+        setPortfolioError(null);
+        loadPortfolioData();
+      } catch (error) {
+        setPortfolioError((error as Error).message);
+      }
+    }
+  };
+
   const handleExportPDF = async () => {
     if (!summary) return;
     setShowExportMenu(false);
@@ -113,9 +252,21 @@ const PortfolioTracker: React.FC<PortfolioTrackerProps> = ({
     }
   };
 
+  const handleImported = (count: number) => {
+    setExportStatus(`${count} transaksi diimport`);
+    setTimeout(() => setExportStatus(null), 2000);
+    loadPortfolioData();
+  };
+
+  const handleCorporateActionRecorded = () => {
+    setExportStatus('Aksi korporasi dicatat');
+    setTimeout(() => setExportStatus(null), 2000);
+    loadPortfolioData();
+  };
+
   const handleClearAll = () => {
     if (confirm('Hapus semua data portfolio? Tindakan ini tidak dapat dibatalkan.')) {
-      clearPortfolio();
+      clearPortfolio(selectedView);
       loadPortfolioData();
     }
   };
@@ -142,6 +293,28 @@ const PortfolioTracker: React.FC<PortfolioTrackerProps> = ({
               Portfolio Tracker
             </h2>
             <div className="flex items-center gap-2">
+              {/* Import Button */}
+              <button
+                onClick={() => setIsImportOpen(true)}
+                disabled={isConsolidated}
+                className="px-3 py-2 rounded-lg bg-sky-500/20 hover:bg-sky-500/30 text-sky-400 flex items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Import dari Broker"
+              >
+                <span className="material-icons-round text-sm">upload_file</span>
+                <span className="text-xs font-medium">Import</span>
+              </button>
+
+              {/* Fees & Tax Button */}
+              <button
+                onClick={() => setIsTaxReportOpen(true)}
+                disabled={isConsolidated}
+                className="px-3 py-2 rounded-lg bg-rose-500/20 hover:bg-rose-500/30 text-rose-400 flex items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Tarif Broker & Laporan Pajak"
+              >
+                <span className="material-icons-round text-sm">receipt_long</span>
+                <span className="text-xs font-medium">Pajak</span>
+              </button>
+
               {/* Export Button */}
               <div className="relative">
                 <button
@@ -213,9 +386,181 @@ const PortfolioTracker: React.FC<PortfolioTrackerProps> = ({
             </div>
           </div>
 
+          {/* Portfolio Switcher */}
+          <div className="flex items-center gap-2 mt-4">
+            <select
+              value={selectedView}
+              onChange={(e) => handleSelectView(e.target.value)}
+              className="flex-1 bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-purple-500"
+            >
+              {portfolios.map(p => (
+                <option key={p.id} value={p.id}>{p.name} ({p.baseCurrency})</option>
+              ))}
+              {portfolios.length > 1 && (
+                <option value={CONSOLIDATED_VIEW}>
+                  {consolidationCurrency ? 'Semua Portfolio (Konsolidasi)' : 'Semua Portfolio (Konsolidasi per mata uang)'}
+                </option>
+              )}
+            </select>
+            <button
+              onClick={() => {
+                setPortfolioError(null);
+                setPortfolioForm({ mode: 'create', name: '', baseCurrency: 'IDR', cashBalance: 0 });
+              }}
+              className="w-9 h-9 rounded-lg bg-purple-500/20 hover:bg-purple-500/30 text-purple-400 flex items-center justify-center transition-all"
+              title="Portfolio Baru"
+            >
+              <span className="material-icons-round text-lg">add</span>
+            </button>
+            <button
+              onClick={() => {
+                if (!currentPortfolio) return;
+                setPortfolioError(null);
+                setPortfolioForm({ mode: 'rename', name: currentPortfolio.name, baseCurrency: currentPortfolio.baseCurrency, cashBalance: 0 });
+              }}
+              disabled={isConsolidated}
+              className="w-9 h-9 rounded-lg bg-slate-800/50 hover:bg-slate-700 text-slate-400 hover:text-white flex items-center justify-center transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Ganti Nama"
+            >
+              <span className="material-icons-round text-lg">edit</span>
+            </button>
+            <button
+              onClick={handleDeletePortfolio}
+              disabled={isConsolidated || portfolios.length <= 1}
+              className="w-9 h-9 rounded-lg bg-slate-800/50 hover:bg-red-500/20 text-slate-400 hover:text-red-400 flex items-center justify-center transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Hapus Portfolio"
+            >
+              <span className="material-icons-round text-lg">delete</span>
+            </button>
+          </div>
+
+          {/* Create / Rename Form */}
+          {portfolioForm && (
+            <div className="mt-3 p-3 bg-slate-800/30 rounded-xl border border-slate-700/30 space-y-2">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={portfolioForm.name}
+                  onChange={(e) => setPortfolioForm({ ...portfolioForm, name: e.target.value })}
+                  placeholder="Nama portfolio"
+                  autoFocus
+                  className="flex-1 bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-purple-500"
+                />
+                {portfolioForm.mode === 'create' && (
+                  <>
+                    <select
+                      value={portfolioForm.baseCurrency}
+                      onChange={(e) => setPortfolioForm({ ...portfolioForm, baseCurrency: e.target.value as PortfolioCurrency })}
+                      className="bg-slate-900/50 border border-slate-700 rounded-lg px-2 py-2 text-sm text-white focus:outline-none focus:border-purple-500"
+                    >
+                      <option value="IDR">IDR</option>
+                      <option value="USD">USD</option>
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      value={portfolioForm.cashBalance || ''}
+                      onChange={(e) => setPortfolioForm({ ...portfolioForm, cashBalance: Number(e.target.value) })}
+                      placeholder="Saldo kas awal"
+                      className="w-36 bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:border-purple-500"
+                    />
+                  </>
+                )}
+              </div>
+              {portfolioError && <p className="text-xs text-red-400">{portfolioError}</p>}
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => {
+                    setPortfolioForm(null);
+                    setPortfolioError(null);
+                  }}
+                  className="px-3 py-1.5 rounded-lg text-xs text-slate-400 hover:text-white transition-colors"
+                >
+                  Batal
+                </button>
+                <button
+                  onClick={handleSavePortfolio}
+                  className="px-3 py-1.5 rounded-lg text-xs font-medium bg-purple-500/20 text-purple-400 hover:bg-purple-500/30 transition-all"
+                >
+                  {portfolioForm.mode === 'create' ? 'Buat Portfolio' : 'Simpan'}
+                </button>
+              </div>
+            </div>
+          )}
+          {!portfolioForm && portfolioError && <p className="text-xs text-red-400 mt-2">{portfolioError}</p>}
+
+          {/* Cash Balance */}
+          {summary && (
+            <div className="flex items-center justify-between mt-3 px-3 py-2 bg-slate-800/30 rounded-xl">
+              <div className="flex items-center gap-2 text-xs text-slate-400">
+                <span className="material-icons-round text-sm">payments</span>
+                Saldo Kas:
+                <span className="font-mono text-white">
+                  {(Object.entries(summary.cashBalances) as [PortfolioCurrency, number][])
+                    .map(([currency, cash]) => formatCurrency(cash, currency))
+                    .join(' • ') || formatCurrency(0)}
+                </span>
+              </div>
+              {!isConsolidated && (
+                <div className="flex gap-1">
+                  <select
+                    value={currentPortfolio?.costBasisMethod || 'fifo'}
+                    onChange={(e) => handleCostBasisChange(e.target.value as CostBasisMethod)}
+                    className="bg-slate-900/50 border border-slate-700 rounded-md px-1.5 py-0.5 text-[10px] text-slate-300 focus:outline-none focus:border-purple-500"
+                    title="Metode Cost Basis"
+                  >
+                    {(Object.keys(COST_BASIS_LABELS) as CostBasisMethod[]).map(method => (
+                      <option key={method} value={method}>{COST_BASIS_LABELS[method]}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleAdjustCash(1)}
+                    className="px-2 py-1 rounded-md text-[10px] font-medium bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30 transition-all"
+                  >
+                    Setor
+                  </button>
+                  <button
+                    onClick={() => handleAdjustCash(-1)}
+                    className="px-2 py-1 rounded-md text-[10px] font-medium bg-red-500/20 text-red-400 hover:bg-red-500/30 transition-all"
+                  >
+                    Tarik
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Summary Cards */}
-          {summary && summary.positions.length > 0 && (
-            <div className="grid grid-cols-3 gap-3 mt-4">
+          {summary?.currencySubtotals && summary.positions.length > 0 && (
+            // Mata uang dasar berbeda: total tidak dijumlahkan lintas mata uang
+            <div className="space-y-2 mt-4">
+              {summary.currencySubtotals.map(subtotal => (
+                <div key={subtotal.currency} className="grid grid-cols-4 gap-3 p-3 bg-slate-800/30 rounded-xl">
+                  <div>
+                    <p className="text-xs text-slate-500">Investasi {subtotal.currency} ({subtotal.portfolioCount} portfolio)</p>
+                    <p className="text-sm font-bold text-white font-mono">{formatCurrency(subtotal.totalInvested, subtotal.currency)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-500">Nilai Saat Ini</p>
+                    <p className="text-sm font-bold text-white font-mono">{formatCurrency(subtotal.totalCurrentValue, subtotal.currency)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-500">Profit/Loss</p>
+                    <p className={`text-sm font-bold font-mono ${subtotal.totalProfitLoss >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                      {formatCurrency(subtotal.totalProfitLoss, subtotal.currency)}
+                      <span className="text-xs ml-1">({formatPercent(subtotal.totalProfitLossPercent)})</span>
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-500">Dividen</p>
+                    <p className="text-sm font-bold text-amber-400 font-mono">{formatCurrency(subtotal.totalDividendIncome, subtotal.currency)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {summary && !summary.currencySubtotals && summary.positions.length > 0 && (
+            <div className={`grid gap-3 mt-4 ${summary.totalDividendIncome > 0 ? 'grid-cols-4' : 'grid-cols-3'}`}>
               <div className="p-3 bg-slate-800/30 rounded-xl">
                 <p className="text-xs text-slate-500">Total Investasi</p>
                 <p className="text-lg font-bold text-white font-mono">
@@ -243,6 +588,14 @@ const PortfolioTracker: React.FC<PortfolioTrackerProps> = ({
                   </span>
                 </p>
               </div>
+              {summary.totalDividendIncome > 0 && (
+                <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-xl">
+                  <p className="text-xs text-slate-500">Dividen</p>
+                  <p className="text-lg font-bold text-amber-400 font-mono">
+                    {formatCurrency(summary.totalDividendIncome)}
+                  </p>
+                </div>
+              )}
             </div>
           )}
 
@@ -259,6 +612,28 @@ const PortfolioTracker: React.FC<PortfolioTrackerProps> = ({
               <span className="material-icons-round text-sm">pie_chart</span>
               Posisi ({summary?.positions.length || 0})
             </button>
+            <button
+              onClick={() => setActiveTab('realized')}
+              className={`flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg text-xs font-medium transition-all ${
+                activeTab === 'realized'
+                  ? 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
+                  : 'bg-slate-800/30 text-slate-400 hover:bg-slate-700/50 border border-transparent'
+              }`}
+            >
+              <span className="material-icons-round text-sm">task_alt</span>
+              Realisasi ({summary?.closedLots.length || 0})
+            </button>
+            <button
+              onClick={() => setActiveTab('performance')}
+              className={`flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg text-xs font-medium transition-all ${
+                activeTab === 'performance'
+                  ? 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
+                  : 'bg-slate-800/30 text-slate-400 hover:bg-slate-700/50 border border-transparent'
+              }`}
+            >
+              <span className="material-icons-round text-sm">insights</span>
+              Kinerja
+            </button>
             <button
               onClick={() => setActiveTab('history')}
               className={`flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg text-xs font-medium transition-all ${
@@ -348,8 +723,28 @@ const PortfolioTracker: React.FC<PortfolioTrackerProps> = ({
                         <p className="text-xs font-mono text-slate-300">
                           {formatCurrency(position.totalInvested)}
                         </p>
+                        <p className="text-[10px] text-slate-500 mt-0.5">
+                          {position.openLots.length} tax lot
+                          {position.realizedPL !== 0 && (
+                            <span className={position.realizedPL >= 0 ? 'text-emerald-400' : 'text-red-400'}>
+                              {' '}• R {formatCurrency(position.realizedPL)}
+                            </span>
+                          )}
+                          {position.dividendIncome > 0 && (
+                            <span className="text-amber-400">{' '}• D {formatCurrency(position.dividendIncome)}</span>
+                          )}
+                        </p>
                       </div>
                       <div className="flex justify-end items-end gap-1">
+                        {!isConsolidated && (
+                          <button
+                            onClick={() => setCorporateActionTarget({ symbol: position.symbol, lots: position.totalShares })}
+                            className="p-1.5 rounded-lg bg-amber-500/20 text-amber-400 hover:bg-amber-500/30 transition-all"
+                            title="Aksi Korporasi (dividen, split, rights, bonus)"
+                          >
+                            <span className="material-icons-round text-sm">corporate_fare</span>
+                          </button>
+                        )}
                         <button
                           onClick={() => {
                             onClose();
@@ -376,6 +771,81 @@ const PortfolioTracker: React.FC<PortfolioTrackerProps> = ({
                 ))
               )}
             </div>
+          ) : activeTab === 'realized' ? (
+            // Realized P&L per closed lot
+            <div className="space-y-3">
+              {!summary || summary.realizedByYear.length === 0 ? (
+                <div className="text-center py-10 text-slate-500">
+                  <span className="material-icons-round text-4xl mb-2 block">task_alt</span>
+                  <p>Belum ada lot yang direalisasikan</p>
+                </div>
+              ) : (
+                <>
+                  {/* Per-year totals (per mata uang dasar kalau konsolidasi beda mata uang) */}
+                  {(summary.currencySubtotals || [{ currency: baseCurrency, realizedByYear: summary.realizedByYear }])
+                    .filter(group => group.realizedByYear.length > 0)
+                    .map(group => (
+                      <div key={group.currency}>
+                        {summary.currencySubtotals && <p className="text-xs font-bold text-slate-400 mb-1.5">{group.currency}</p>}
+                        <div className="grid grid-cols-2 gap-2">
+                          {group.realizedByYear.map(year => (
+                            <div key={year.year} className="p-3 bg-slate-800/30 rounded-xl border border-slate-700/30">
+                              <div className="flex items-center justify-between">
+                                <p className="text-sm font-bold text-white">{year.year}</p>
+                                <p className="text-[10px] text-slate-500">{year.closedLotCount} lot ditutup</p>
+                              </div>
+                              <p className={`text-base font-bold font-mono mt-1 ${year.realizedPL >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                                {formatCurrency(year.realizedPL, group.currency)}
+                              </p>
+                              <p className="text-[10px] text-slate-500 font-mono">
+                                Jual {formatCurrency(year.proceeds, group.currency)} • Modal {formatCurrency(year.costBasis, group.currency)}
+                              </p>
+                              {year.dividendIncome > 0 && (
+                                <p className="text-[10px] text-amber-400 font-mono">Dividen {formatCurrency(year.dividendIncome, group.currency)}</p>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+
+                  {/* Closed lots */}
+                  {summary.closedLots.length > 0 && <div className="overflow-x-auto rounded-xl border border-slate-700/30">
+                    <table className="w-full text-xs">
+                      <thead className="bg-slate-900/50 text-slate-400">
+                        <tr>
+                          <th className="px-3 py-2 text-left">Saham</th>
+                          <th className="px-3 py-2 text-left">Beli</th>
+                          <th className="px-3 py-2 text-left">Jual</th>
+                          <th className="px-3 py-2 text-right">Lot</th>
+                          <th className="px-3 py-2 text-right">Hari</th>
+                          <th className="px-3 py-2 text-right">Modal</th>
+                          <th className="px-3 py-2 text-right">P/L</th>
+                        </tr>
+                      </thead>
+                      <tbody className="font-mono">
+                        {summary.closedLots.map(lot => (
+                          <tr key={`${lot.sellTransactionId}_${lot.lotId}`} className="border-t border-slate-800/60 text-slate-300">
+                            <td className="px-3 py-2 font-sans font-semibold text-white">{lot.symbol}</td>
+                            <td className="px-3 py-2">{new Date(lot.openDate).toLocaleDateString('id-ID')}</td>
+                            <td className="px-3 py-2">{new Date(lot.closeDate).toLocaleDateString('id-ID')}</td>
+                            <td className="px-3 py-2 text-right">{lot.lots}</td>
+                            <td className="px-3 py-2 text-right">{lot.holdingPeriodDays}</td>
+                            <td className="px-3 py-2 text-right">{formatCurrency(lot.costBasis)}</td>
+                            <td className={`px-3 py-2 text-right ${lot.realizedPL >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                              {formatCurrency(lot.realizedPL)}
+                              <span className="block text-[10px]">{formatPercent(lot.realizedPLPercent)}</span>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>}
+                </>
+              )}
+            </div>
+          ) : activeTab === 'performance' ? (
+            <PortfolioPerformancePanel transactions={transactions} sectors={sectorMap} />
           ) : (
             // Transaction History
             <div className="space-y-2">
@@ -386,49 +856,54 @@ const PortfolioTracker: React.FC<PortfolioTrackerProps> = ({
                 </div>
               ) : (
                 <>
-                  <button
-                    onClick={handleClearAll}
-                    className="w-full text-xs text-slate-500 hover:text-red-400 py-2 transition-colors"
-                  >
-                    Hapus semua riwayat
-                  </button>
-                  {transactions.map(txn => (
+                  {!isConsolidated && (
+                    <button
+                      onClick={handleClearAll}
+                      className="w-full text-xs text-slate-500 hover:text-red-400 py-2 transition-colors"
+                    >
+                      Hapus semua riwayat
+                    </button>
+                  )}
+                  {getSplitAdjustedTransactions(transactions).map(txn => (
                     <div
                       key={txn.id}
                       className="flex items-center justify-between p-3 rounded-xl bg-slate-800/30 border border-slate-700/30 group"
                     >
                       <div className="flex items-center gap-3">
-                        <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${
-                          txn.type === 'buy'
-                            ? 'bg-emerald-500/20 text-emerald-400'
-                            : 'bg-red-500/20 text-red-400'
-                        }`}>
-                          <span className="material-icons-round">
-                            {txn.type === 'buy' ? 'arrow_downward' : 'arrow_upward'}
-                          </span>
+                        <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${TRANSACTION_STYLES[txn.type].className}`}>
+                          <span className="material-icons-round">{TRANSACTION_STYLES[txn.type].icon}</span>
                         </div>
                         <div>
                           <p className="font-semibold text-white text-sm">
-                            {txn.type === 'buy' ? 'Beli' : 'Jual'} {txn.symbol}
+                            {TRANSACTION_TYPE_LABELS[txn.type]} {txn.symbol}
                           </p>
                           <p className="text-xs text-slate-500">
-                            {txn.shares} lot @ Rp {txn.pricePerShare.toLocaleString()}
+                            {txn.type === 'split' || txn.type === 'bonus'
+                              ? `Rasio ${formatCorporateActionRatio(txn)}`
+                              : `${parseFloat(txn.shares.toFixed(2))} lot @ Rp ${parseFloat(txn.pricePerShare.toFixed(2)).toLocaleString()}`}
+                            {txn.adjustmentFactor !== 1 && (
+                              <span className="ml-1 text-sky-400" title="Disesuaikan dengan stock split / saham bonus">(adj)</span>
+                            )}
+                            {'portfolioName' in txn && <span className="ml-2 text-purple-400">{txn.portfolioName}</span>}
                           </p>
                         </div>
                       </div>
                       <div className="flex items-center gap-3">
                         <div className="text-right">
-                          <p className={`font-mono text-sm ${
-                            txn.type === 'buy' ? 'text-emerald-400' : 'text-red-400'
-                          }`}>
-                            {txn.type === 'buy' ? '-' : '+'}{formatCurrency(txn.totalValue)}
-                          </p>
+                          {txn.totalValue > 0 && (
+                            <p className={`font-mono text-sm ${
+                              txn.type === 'dividend' ? 'text-amber-400'
+                                : txn.type === 'buy' || txn.type === 'rights' ? 'text-emerald-400' : 'text-red-400'
+                            }`}>
+                              {txn.type === 'buy' || txn.type === 'rights' ? '-' : '+'}{formatCurrency(txn.totalValue)}
+                            </p>
+                          )}
                           <p className="text-[10px] text-slate-500">
                             {new Date(txn.date).toLocaleDateString('id-ID')}
                           </p>
                         </div>
                         <button
-                          onClick={() => handleDeleteTransaction(txn.id)}
+                          onClick={() => handleDeleteTransaction(txn)}
                           className="w-8 h-8 rounded-lg bg-red-500/20 hover:bg-red-500/30 flex items-center justify-center text-red-400 opacity-0 group-hover:opacity-100 transition-all"
                         >
                           <span className="material-icons-round text-sm">delete</span>
@@ -458,6 +933,30 @@ const PortfolioTracker: React.FC<PortfolioTrackerProps> = ({
           </button>
         </div>
       </div>
+
+      <ImportTransactionsModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        portfolioId={currentPortfolio?.id}
+        portfolioName={currentPortfolio?.name}
+        onImported={handleImported}
+      />
+
+      <TaxReportModal
+        isOpen={isTaxReportOpen}
+        onClose={() => setIsTaxReportOpen(false)}
+        portfolioId={currentPortfolio?.id}
+        onFeeProfileChange={loadPortfolioData}
+      />
+
+      <CorporateActionModal
+        isOpen={corporateActionTarget !== null}
+        onClose={() => setCorporateActionTarget(null)}
+        symbol={corporateActionTarget?.symbol || ''}
+        currentLots={corporateActionTarget?.lots || 0}
+        portfolioId={currentPortfolio?.id}
+        onRecorded={handleCorporateActionRecorded}
+      />
     </div>
   );
 };
@@ -2,13 +2,46 @@ import React, { useState, useEffect } from 'react';
 import { StockTicker } from '../types';
 import { 
   createAlert, 
+  updateAlert,
   getActiveAlerts, 
   deleteAlert, 
+  snoozeAlert,
+  rearmAlert,
+  isAlertExpired,
+  isAlertSnoozed,
   getTriggeredAlerts,
   clearTriggeredAlerts,
+  loadTriggerLog,
+  clearTriggerLog,
+  exportTriggerLogCSV,
   formatAlertMessage,
-  PriceAlert 
+  PriceAlert,
+  AlertCondition,
+  AlertParams,
+  AlertRepeat,
+  AlertChannel,
+  AlertTriggerLogEntry,
+  ChannelDelivery,
+  DeliveryStatus,
+  ALERT_CONDITION_LABELS,
+  ALERT_REPEAT_LABELS,
+  DEFAULT_ALERT_PARAMS,
+  DEFAULT_HYSTERESIS_PERCENT,
+  DEFAULT_ALERT_CHANNELS,
 } from '../services/priceAlertService';
+import {
+  AlertChannelConfig,
+  ExternalAlertChannel,
+  ALERT_CHANNEL_LABELS,
+  loadChannelConfig,
+  saveChannelConfig,
+  isChannelConfigured,
+  buildMockChannelConfig,
+  isChannelAllowed,
+  retryFailedDeliveries,
+  sendTestMessage,
+} from '../services/alertChannelService';
+import { TickRounding, roundToTick, getTickSize, usesIdxRules } from '../utils/marketRules';
 
 interface PriceAlertModalProps {
   isOpen: boolean;
@@ -17,54 +50,273 @@ interface PriceAlertModalProps {
   onAlertCreated: () => void;
 }
 
+// @ts-ignore - Vite injects these at build time
+const IS_DEV_SERVER: boolean = !!import.meta.env?.DEV;
+
+// Mode mock channel lokal (server/alertChannelMockServer)
+const MOCK_CHANNEL_MODES: { id: string; label: string }[] = [
+  { id: 'ok', label: 'Selalu berhasil' },
+  { id: 'fail-2', label: 'Gagal 2x lalu berhasil' },
+  { id: 'fail', label: 'Selalu gagal (500)' },
+  { id: 'status-429', label: 'Rate limit (429)' },
+  { id: 'timeout', label: 'Timeout' },
+];
+
+const CONDITION_ICONS: Record<AlertCondition, string> = {
+  above: 'trending_up',
+  below: 'trending_down',
+  percent_change: 'percent',
+  ma_cross: 'show_chart',
+  rsi: 'speed',
+  volume_spike: 'bar_chart',
+  gap: 'unfold_more',
+  high_52w: 'vertical_align_top',
+  low_52w: 'vertical_align_bottom',
+};
+
+const CONDITION_HINTS: Partial<Record<AlertCondition, string>> = {
+  ma_cross: 'Harga menembus moving average dari close kemarin',
+  volume_spike: 'Volume hari ini dibanding rata-rata 20 hari bursa',
+  gap: 'Open hari ini dibanding high/low kemarin',
+  high_52w: 'Harga melewati high tertinggi 52 minggu terakhir',
+  low_52w: 'Harga menembus low terendah 52 minggu terakhir',
+};
+
+const SNOOZE_MINUTES = 60;
+
+const CHANNEL_ICONS: Record<AlertChannel, string> = {
+  browser: 'notifications',
+  telegram: 'send',
+  webhook: 'webhook',
+  email: 'email',
+};
+
+const DELIVERY_STYLES: Record<DeliveryStatus, string> = {
+  pending: 'bg-blue-500/20 text-blue-400',
+  sent: 'bg-emerald-500/20 text-emerald-400',
+  failed: 'bg-red-500/20 text-red-400',
+  skipped: 'bg-slate-700/50 text-slate-400',
+};
+
+const LOG_REFRESH_MS = 2000;
+
+// Timestamp <-> value of a date input (tanggal lokal, kedaluwarsa di akhir hari)
+const toDateInput = (timestamp?: number): string => {
+  if (!timestamp) return '';
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+const fromDateInput = (value: string): number | undefined =>
+  value ? new Date(`${value}T23:59:59`).getTime() : undefined;
+
+// Alerts that trigger when price rises (warna hijau) vs falls
+const isBullishAlert = (alert: PriceAlert): boolean => {
+  if (alert.condition === 'above' || alert.condition === 'high_52w') return true;
+  if (alert.condition === 'below' || alert.condition === 'low_52w') return false;
+  return (alert.params?.direction ?? DEFAULT_ALERT_PARAMS[alert.condition].direction) !== 'down';
+};
+
 const PriceAlertModal: React.FC<PriceAlertModalProps> = ({ isOpen, onClose, ticker, onAlertCreated }) => {
   const [targetPrice, setTargetPrice] = useState<string>('');
-  const [condition, setCondition] = useState<'above' | 'below'>('above');
+  const [condition, setCondition] = useState<AlertCondition>('above');
+  const [params, setParams] = useState<AlertParams>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
   const [note, setNote] = useState<string>('');
+  const [repeat, setRepeat] = useState<AlertRepeat>('once');
+  const [hysteresis, setHysteresis] = useState<number>(DEFAULT_HYSTERESIS_PERCENT);
+  const [expiryDate, setExpiryDate] = useState<string>('');
+  const [channels, setChannels] = useState<AlertChannel[]>(DEFAULT_ALERT_CHANNELS);
+  const [channelConfig, setChannelConfig] = useState<AlertChannelConfig>(loadChannelConfig);
+  const [channelTests, setChannelTests] = useState<Partial<Record<ExternalAlertChannel, ChannelDelivery>>>({});
+  const [mockMode, setMockMode] = useState<string>('ok');
   const [activeAlerts, setActiveAlerts] = useState<PriceAlert[]>([]);
   const [triggeredAlerts, setTriggeredAlerts] = useState<PriceAlert[]>([]);
-  const [activeTab, setActiveTab] = useState<'create' | 'active' | 'history'>('create');
+  const [triggerLog, setTriggerLog] = useState<AlertTriggerLogEntry[]>([]);
+  const [activeTab, setActiveTab] = useState<'create' | 'active' | 'history' | 'channels'>('create');
+
+  const isPriceCondition = condition === 'above' || condition === 'below';
+  const isIdx = usesIdxRules(ticker.market);
+
+  // Harga target saham IDX selalu di fraksi harga yang valid
+  const toTargetPrice = (value: number, mode: TickRounding = 'nearest'): number =>
+    isIdx ? roundToTick(value, mode) : Math.round(value);
 
   useEffect(() => {
-    if (isOpen) {
+    if (isOpen && !editingId) {
       // Set default target price based on condition
       const defaultPrice = condition === 'above' 
-        ? Math.round(ticker.price * 1.05) // 5% above
-        : Math.round(ticker.price * 0.95); // 5% below
+        ? toTargetPrice(ticker.price * 1.05) // 5% above
+        : toTargetPrice(ticker.price * 0.95); // 5% below
       setTargetPrice(defaultPrice.toString());
-      
-      // Load alerts
-      setActiveAlerts(getActiveAlerts());
-      setTriggeredAlerts(getTriggeredAlerts());
     }
-  }, [isOpen, ticker.price, condition]);
+  }, [isOpen, ticker.price, condition, editingId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      refreshAlerts();
+    } else {
+      setEditingId(null);
+    }
+  }, [isOpen]);
+
+  const refreshAlerts = () => {
+    setActiveAlerts(getActiveAlerts());
+    setTriggeredAlerts(getTriggeredAlerts());
+    setTriggerLog(loadTriggerLog());
+  };
+
+  // Delivery status is updated in the background; keep the history fresh while it is visible
+  useEffect(() => {
+    if (!isOpen || activeTab !== 'history') return;
+    const interval = setInterval(() => setTriggerLog(loadTriggerLog()), LOG_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [isOpen, activeTab]);
+
+  const handleConditionChange = (next: AlertCondition) => {
+    setCondition(next);
+    setParams({ ...DEFAULT_ALERT_PARAMS[next] });
+  };
+
+  const updateParam = <K extends keyof AlertParams>(key: K, value: AlertParams[K]) => {
+    setParams(prev => ({ ...prev, [key]: value }));
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setNote('');
+    setCondition('above');
+    setParams({});
+    setRepeat('once');
+    setHysteresis(DEFAULT_HYSTERESIS_PERCENT);
+    setExpiryDate('');
+    setChannels(DEFAULT_ALERT_CHANNELS);
+  };
+
+  const toggleChannel = (channel: AlertChannel) => {
+    setChannels(prev => prev.includes(channel) ? prev.filter(c => c !== channel) : [...prev, channel]);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    const price = parseFloat(targetPrice);
-    if (isNaN(price) || price <= 0) {
+    const rawPrice = isPriceCondition ? parseFloat(targetPrice) : ticker.price;
+    if (isNaN(rawPrice) || rawPrice <= 0) {
       alert('Masukkan harga target yang valid!');
       return;
     }
+    // Target di antara dua fraksi dibulatkan ke harga valid pertama yang memenuhi kondisi
+    const price = isPriceCondition ? toTargetPrice(rawPrice, condition === 'above' ? 'up' : 'down') : rawPrice;
+    const invalidParam = Object.values(params).some(v => typeof v === 'number' && (isNaN(v) || v <= 0));
+    if (invalidParam) {
+      alert('Masukkan parameter alert yang valid!');
+      return;
+    }
 
-    createAlert(ticker.symbol, price, condition, note || undefined);
-    setActiveAlerts(getActiveAlerts());
-    setNote('');
+    if (repeat === 'every_cross' && isPriceCondition && (isNaN(hysteresis) || hysteresis < 0)) {
+      alert('Masukkan hysteresis yang valid!');
+      return;
+    }
+    if (channels.length === 0) {
+      alert('Pilih minimal satu channel notifikasi!');
+      return;
+    }
+    const expiresAt = fromDateInput(expiryDate);
+    if (expiresAt !== undefined && expiresAt < Date.now()) {
+      alert('Tanggal kedaluwarsa sudah lewat!');
+      return;
+    }
+
+    const alertParams = isPriceCondition ? undefined : params;
+    const options = {
+      repeat,
+      hysteresisPercent: repeat === 'every_cross' && isPriceCondition ? hysteresis : undefined,
+      expiresAt,
+      channels,
+    };
+    if (editingId) {
+      updateAlert(editingId, { targetPrice: price, condition, params: alertParams, note: note || undefined, ...options });
+    } else {
+      createAlert(ticker.symbol, price, condition, note || undefined, alertParams, options);
+    }
+    refreshAlerts();
+    resetForm();
     setActiveTab('active');
     onAlertCreated();
   };
 
+  const handleEditAlert = (alert: PriceAlert) => {
+    setEditingId(alert.id);
+    setCondition(alert.condition);
+    setParams({ ...DEFAULT_ALERT_PARAMS[alert.condition], ...alert.params });
+    setTargetPrice(alert.targetPrice.toString());
+    setNote(alert.note || '');
+    setRepeat(alert.repeat ?? 'once');
+    setHysteresis(alert.hysteresisPercent ?? DEFAULT_HYSTERESIS_PERCENT);
+    setExpiryDate(toDateInput(alert.expiresAt));
+    setChannels(alert.channels || DEFAULT_ALERT_CHANNELS);
+    setActiveTab('create');
+  };
+
   const handleDeleteAlert = (alertId: string) => {
     deleteAlert(alertId);
-    setActiveAlerts(getActiveAlerts());
+    refreshAlerts();
+    onAlertCreated();
   };
 
-  const handleClearHistory = () => {
+  const handleToggleSnooze = (alert: PriceAlert) => {
+    if (isAlertSnoozed(alert)) {
+      updateAlert(alert.id, { snoozedUntil: undefined });
+    } else {
+      snoozeAlert(alert.id, SNOOZE_MINUTES);
+    }
+    refreshAlerts();
+  };
+
+  const handleRearmAlert = (alertId: string) => {
+    rearmAlert(alertId);
+    refreshAlerts();
+    onAlertCreated();
+  };
+
+  const handleClearFinished = () => {
     clearTriggeredAlerts();
     setTriggeredAlerts([]);
   };
 
+  const handleClearHistory = () => {
+    clearTriggerLog();
+    setTriggerLog([]);
+  };
+
+  const handleRetryDelivery = (entry: AlertTriggerLogEntry) => {
+    retryFailedDeliveries(entry).finally(() => setTriggerLog(loadTriggerLog()));
+    setTriggerLog(loadTriggerLog());
+  };
+
+  const updateChannelConfig = <K extends keyof AlertChannelConfig>(channel: K, changes: Partial<AlertChannelConfig[K]>) => {
+    setChannelConfig(prev => ({ ...prev, [channel]: { ...prev[channel], ...changes } }));
+  };
+
+  const handleSaveChannels = () => {
+    saveChannelConfig(channelConfig);
+    setChannelTests({});
+  };
+
+  // Dev: arahkan semua channel ke mock server lokal (disimpan seperti pengaturan biasa)
+  const handleUseMockChannels = () => {
+    const config = buildMockChannelConfig(window.location.origin, mockMode);
+    setChannelConfig(config);
+    saveChannelConfig(config);
+    setChannelTests({});
+  };
+
+  const handleTestChannel = async (channel: ExternalAlertChannel) => {
+    saveChannelConfig(channelConfig);
+    setChannelTests(prev => ({ ...prev, [channel]: { channel, status: 'pending', attempts: 0 } }));
+    const result = await sendTestMessage(channel);
+    setChannelTests(prev => ({ ...prev, [channel]: result }));
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -114,7 +366,8 @@ const PriceAlertModal: React.FC<PriceAlertModalProps> = ({ isOpen, onClose, tick
             {[
               { id: 'create', label: 'Buat Alert', icon: 'add_alert' },
               { id: 'active', label: 'Aktif', icon: 'pending', count: activeAlerts.length },
-              { id: 'history', label: 'Riwayat', icon: 'history', count: triggeredAlerts.length },
+              { id: 'history', label: 'Riwayat', icon: 'history', count: triggerLog.length },
+              { id: 'channels', label: 'Channel', icon: 'send' },
             ].map(tab => (
               <button
                 key={tab.id}
@@ -142,37 +395,93 @@ const PriceAlertModal: React.FC<PriceAlertModalProps> = ({ isOpen, onClose, tick
             <form onSubmit={handleSubmit} className="space-y-4">
               {/* Condition Selection */}
               <div>
-                <label className="text-xs text-slate-400 mb-2 block">Kondisi Alert</label>
-                <div className="grid grid-cols-2 gap-2">
-                  <button
-                    type="button"
-                    onClick={() => setCondition('above')}
-                    className={`p-3 rounded-xl border text-sm font-medium flex items-center justify-center gap-2 transition-all ${
-                      condition === 'above'
-                        ? 'bg-emerald-500/20 border-emerald-500/50 text-emerald-400'
-                        : 'bg-slate-800/30 border-slate-700/50 text-slate-400 hover:bg-slate-700/50'
-                    }`}
-                  >
-                    <span className="material-icons-round text-lg">trending_up</span>
-                    Naik di atas
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => setCondition('below')}
-                    className={`p-3 rounded-xl border text-sm font-medium flex items-center justify-center gap-2 transition-all ${
-                      condition === 'below'
-                        ? 'bg-red-500/20 border-red-500/50 text-red-400'
-                        : 'bg-slate-800/30 border-slate-700/50 text-slate-400 hover:bg-slate-700/50'
-                    }`}
-                  >
-                    <span className="material-icons-round text-lg">trending_down</span>
-                    Turun di bawah
-                  </button>
+                <label className="text-xs text-slate-400 mb-2 block">Jenis Alert</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.keys(ALERT_CONDITION_LABELS) as AlertCondition[]).map(type => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => handleConditionChange(type)}
+                      className={`p-2 rounded-xl border text-[11px] font-medium flex flex-col items-center justify-center gap-1 transition-all ${
+                        condition === type
+                          ? 'bg-amber-500/20 border-amber-500/50 text-amber-400'
+                          : 'bg-slate-800/30 border-slate-700/50 text-slate-400 hover:bg-slate-700/50'
+                      }`}
+                    >
+                      <span className="material-icons-round text-lg">{CONDITION_ICONS[type]}</span>
+                      {ALERT_CONDITION_LABELS[type]}
+                    </button>
+                  ))}
                 </div>
+                {CONDITION_HINTS[condition] && (
+                  <p className="text-[11px] text-slate-500 mt-2">{CONDITION_HINTS[condition]}</p>
+                )}
               </div>
 
+              {/* Direction */}
+              {(condition === 'percent_change' || condition === 'ma_cross' || condition === 'gap' || condition === 'rsi') && (
+                <div className="grid grid-cols-2 gap-2">
+                  {(['up', 'down'] as const).map(direction => (
+                    <button
+                      key={direction}
+                      type="button"
+                      onClick={() => updateParam('direction', direction)}
+                      className={`py-2 rounded-xl border text-sm font-medium flex items-center justify-center gap-2 transition-all ${
+                        params.direction === direction
+                          ? direction === 'up'
+                            ? 'bg-emerald-500/20 border-emerald-500/50 text-emerald-400'
+                            : 'bg-red-500/20 border-red-500/50 text-red-400'
+                          : 'bg-slate-800/30 border-slate-700/50 text-slate-400 hover:bg-slate-700/50'
+                      }`}
+                    >
+                      <span className="material-icons-round text-lg">{direction === 'up' ? 'trending_up' : 'trending_down'}</span>
+                      {condition === 'rsi'
+                        ? (direction === 'up' ? 'Di atas level' : 'Di bawah level')
+                        : condition === 'ma_cross'
+                          ? (direction === 'up' ? 'Cross ke atas' : 'Cross ke bawah')
+                          : (direction === 'up' ? 'Naik' : 'Turun')}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* Condition Parameters */}
+              {(condition === 'percent_change' || condition === 'gap') && (
+                <ParamInput label="Minimal (%)" value={params.percent} step="0.1" onChange={(v) => updateParam('percent', v)} />
+              )}
+              {condition === 'ma_cross' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="text-xs text-slate-400 mb-2 block">Jenis MA</label>
+                    <select
+                      value={params.maType}
+                      onChange={(e) => updateParam('maType', e.target.value as 'sma' | 'ema')}
+                      className="w-full bg-[#0a0e17] border border-slate-700/50 rounded-xl py-2.5 px-3 text-white text-sm focus:outline-none focus:border-blue-500/50"
+                    >
+                      <option value="sma">SMA</option>
+                      <option value="ema">EMA</option>
+                    </select>
+                  </div>
+                  <ParamInput label="Periode" value={params.maPeriod} onChange={(v) => updateParam('maPeriod', v)} />
+                </div>
+              )}
+              {condition === 'rsi' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <ParamInput label="Level RSI" value={params.rsiLevel} onChange={(v) => updateParam('rsiLevel', v)} />
+                  <ParamInput label="Periode" value={params.rsiPeriod} onChange={(v) => updateParam('rsiPeriod', v)} />
+                </div>
+              )}
+              {condition === 'volume_spike' && (
+                <ParamInput
+                  label="Kelipatan rata-rata volume 20 hari"
+                  value={params.volumeMultiple}
+                  step="0.1"
+                  onChange={(v) => updateParam('volumeMultiple', v)}
+                />
+              )}
+
               {/* Target Price */}
-              <div>
+              {isPriceCondition && <div>
                 <label className="text-xs text-slate-400 mb-2 block">Harga Target</label>
                 <div className="relative">
                   <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 text-sm">Rp</span>
@@ -183,15 +492,16 @@ const PriceAlertModal: React.FC<PriceAlertModalProps> = ({ isOpen, onClose, tick
                     className="w-full bg-[#0a0e17] border border-slate-700/50 rounded-xl py-3 pl-10 pr-4 text-white font-mono text-lg focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20 transition-all"
                     placeholder="0"
                     min="1"
+                    step={isIdx && parseFloat(targetPrice) > 0 ? getTickSize(parseFloat(targetPrice)) : 1}
                     required
                   />
                 </div>
                 <div className="flex gap-2 mt-2">
                   {[
-                    { label: '-5%', value: Math.round(ticker.price * 0.95) },
-                    { label: '-2%', value: Math.round(ticker.price * 0.98) },
-                    { label: '+2%', value: Math.round(ticker.price * 1.02) },
-                    { label: '+5%', value: Math.round(ticker.price * 1.05) },
+                    { label: '-5%', value: toTargetPrice(ticker.price * 0.95) },
+                    { label: '-2%', value: toTargetPrice(ticker.price * 0.98) },
+                    { label: '+2%', value: toTargetPrice(ticker.price * 1.02) },
+                    { label: '+5%', value: toTargetPrice(ticker.price * 1.05) },
                   ].map(preset => (
                     <button
                       key={preset.label}
@@ -203,6 +513,77 @@ const PriceAlertModal: React.FC<PriceAlertModalProps> = ({ isOpen, onClose, tick
                     </button>
                   ))}
                 </div>
+              </div>}
+
+              {/* Repeat */}
+              <div>
+                <label className="text-xs text-slate-400 mb-2 block">Setelah Trigger</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.keys(ALERT_REPEAT_LABELS) as AlertRepeat[]).map(option => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => setRepeat(option)}
+                      className={`py-2 rounded-xl border text-[11px] font-medium transition-all ${
+                        repeat === option
+                          ? 'bg-amber-500/20 border-amber-500/50 text-amber-400'
+                          : 'bg-slate-800/30 border-slate-700/50 text-slate-400 hover:bg-slate-700/50'
+                      }`}
+                    >
+                      {ALERT_REPEAT_LABELS[option]}
+                    </button>
+                  ))}
+                </div>
+                {repeat === 'every_cross' && isPriceCondition && (
+                  <div className="mt-2">
+                    <ParamInput
+                      label="Hysteresis (%) - harga harus menjauh dari target sebelum aktif lagi"
+                      value={hysteresis}
+                      step="0.1"
+                      onChange={setHysteresis}
+                    />
+                  </div>
+                )}
+              </div>
+
+              {/* Delivery channels */}
+              <div>
+                <label className="text-xs text-slate-400 mb-2 block">Kirim ke</label>
+                <div className="grid grid-cols-4 gap-2">
+                  {(Object.keys(ALERT_CHANNEL_LABELS) as AlertChannel[]).map(channel => {
+                    const allowed = isChannelAllowed(channel);
+                    const configured = isChannelConfigured(channel, channelConfig);
+                    return (
+                      <button
+                        key={channel}
+                        type="button"
+                        onClick={() => toggleChannel(channel)}
+                        disabled={!allowed || (!configured && !channels.includes(channel))}
+                        title={!allowed ? 'Khusus paket Elite' : !configured ? 'Atur dulu di tab Channel' : undefined}
+                        className={`py-2 rounded-xl border text-[11px] font-medium flex flex-col items-center gap-0.5 transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                          channels.includes(channel)
+                            ? 'bg-amber-500/20 border-amber-500/50 text-amber-400'
+                            : 'bg-slate-800/30 border-slate-700/50 text-slate-400 hover:bg-slate-700/50'
+                        }`}
+                      >
+                        <span className="material-icons-round text-base">{allowed ? CHANNEL_ICONS[channel] : 'lock'}</span>
+                        {ALERT_CHANNEL_LABELS[channel]}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Expiry (optional) */}
+              <div>
+                <label className="text-xs text-slate-400 mb-2 block">Kedaluwarsa (opsional)</label>
+                <input
+                  type="date"
+                  value={expiryDate}
+                  min={toDateInput(Date.now())}
+                  onChange={(e) => setExpiryDate(e.target.value)}
+                  className="w-full bg-[#0a0e17] border border-slate-700/50 rounded-xl py-2.5 px-4 text-white text-sm focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20 transition-all"
+                />
               </div>
 
               {/* Note (optional) */}
@@ -223,9 +604,18 @@ const PriceAlertModal: React.FC<PriceAlertModalProps> = ({ isOpen, onClose, tick
                 type="submit"
                 className="w-full bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-400 hover:to-orange-500 text-white py-3 rounded-xl font-bold transition-all shadow-lg shadow-amber-900/30 flex items-center justify-center gap-2 active:scale-[0.98]"
               >
-                <span className="material-icons-round">add_alert</span>
-                Buat Alert
+                <span className="material-icons-round">{editingId ? 'save' : 'add_alert'}</span>
+                {editingId ? 'Simpan Perubahan' : 'Buat Alert'}
               </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="w-full text-xs text-slate-500 hover:text-white py-1 transition-colors"
+                >
+                  Batal edit
+                </button>
+              )}
             </form>
           )}
 
@@ -246,29 +636,97 @@ const PriceAlertModal: React.FC<PriceAlertModalProps> = ({ isOpen, onClose, tick
                   >
                     <div className="flex items-center gap-3">
                       <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${
-                        alert.condition === 'above' 
+                        isBullishAlert(alert)
                           ? 'bg-emerald-500/20 text-emerald-400'
                           : 'bg-red-500/20 text-red-400'
                       }`}>
-                        <span className="material-icons-round">
-                          {alert.condition === 'above' ? 'trending_up' : 'trending_down'}
-                        </span>
+                        <span className="material-icons-round">{CONDITION_ICONS[alert.condition]}</span>
                       </div>
                       <div>
                         <p className="font-semibold text-white text-sm">{formatAlertMessage(alert)}</p>
                         {alert.note && (
                           <p className="text-xs text-slate-500">{alert.note}</p>
                         )}
+                        <p className="text-[10px] text-slate-500">
+                          {ALERT_REPEAT_LABELS[alert.repeat ?? 'once']}
+                          {alert.triggerCount ? ` • ${alert.triggerCount}x trigger` : ''}
+                          {alert.expiresAt ? ` • s/d ${new Date(alert.expiresAt).toLocaleDateString('id-ID')}` : ''}
+                          {isAlertSnoozed(alert) && (
+                            <span className="text-amber-400">
+                              {' '}• Snooze s/d {new Date(alert.snoozedUntil!).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+                            </span>
+                          )}
+                        </p>
                       </div>
                     </div>
+                    <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-all">
+                      <button
+                        onClick={() => handleToggleSnooze(alert)}
+                        title={isAlertSnoozed(alert) ? 'Batalkan snooze' : `Snooze ${SNOOZE_MINUTES} menit`}
+                        className="w-8 h-8 rounded-lg bg-amber-500/20 hover:bg-amber-500/30 flex items-center justify-center text-amber-400"
+                      >
+                        <span className="material-icons-round text-sm">{isAlertSnoozed(alert) ? 'notifications_active' : 'snooze'}</span>
+                      </button>
+                      <button
+                        onClick={() => handleEditAlert(alert)}
+                        className="w-8 h-8 rounded-lg bg-blue-500/20 hover:bg-blue-500/30 flex items-center justify-center text-blue-400"
+                      >
+                        <span className="material-icons-round text-sm">edit</span>
+                      </button>
+                      <button
+                        onClick={() => handleDeleteAlert(alert.id)}
+                        className="w-8 h-8 rounded-lg bg-red-500/20 hover:bg-red-500/30 flex items-center justify-center text-red-400"
+                      >
+                        <span className="material-icons-round text-sm">delete</span>
+                      </button>
+                    </div>
+                  </div>
+                ))
+              )}
+
+              {/* Finished: one-shot alerts that fired and expired alerts */}
+              {triggeredAlerts.length > 0 && (
+                <div className="pt-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">Selesai / Kedaluwarsa</p>
                     <button
-                      onClick={() => handleDeleteAlert(alert.id)}
-                      className="w-8 h-8 rounded-lg bg-red-500/20 hover:bg-red-500/30 flex items-center justify-center text-red-400 opacity-0 group-hover:opacity-100 transition-all"
+                      onClick={handleClearFinished}
+                      className="text-[11px] text-slate-500 hover:text-red-400 transition-colors"
                     >
-                      <span className="material-icons-round text-sm">delete</span>
+                      Hapus semua
                     </button>
                   </div>
-                ))
+                  {triggeredAlerts.map(alert => (
+                    <div 
+                      key={alert.id}
+                      className="flex items-center justify-between p-3 rounded-xl bg-slate-800/20 border border-slate-700/20 group"
+                    >
+                      <div>
+                        <p className="text-sm text-slate-300">{formatAlertMessage(alert)}</p>
+                        <p className="text-[10px] text-slate-500">
+                          {isAlertExpired(alert) && !alert.triggered
+                            ? `Kedaluwarsa ${new Date(alert.expiresAt!).toLocaleDateString('id-ID')}`
+                            : `Triggered: ${new Date(alert.triggeredAt || 0).toLocaleString('id-ID')}`}
+                        </p>
+                      </div>
+                      <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-all">
+                        <button
+                          onClick={() => handleRearmAlert(alert.id)}
+                          title="Aktifkan lagi"
+                          className="w-8 h-8 rounded-lg bg-emerald-500/20 hover:bg-emerald-500/30 flex items-center justify-center text-emerald-400"
+                        >
+                          <span className="material-icons-round text-sm">replay</span>
+                        </button>
+                        <button
+                          onClick={() => handleDeleteAlert(alert.id)}
+                          className="w-8 h-8 rounded-lg bg-red-500/20 hover:bg-red-500/30 flex items-center justify-center text-red-400"
+                        >
+                          <span className="material-icons-round text-sm">delete</span>
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
               )}
             </div>
           )}
@@ -276,45 +734,223 @@ const PriceAlertModal: React.FC<PriceAlertModalProps> = ({ isOpen, onClose, tick
           {/* History Tab */}
           {activeTab === 'history' && (
             <div className="space-y-2">
-              {triggeredAlerts.length > 0 && (
-                <button
-                  onClick={handleClearHistory}
-                  className="w-full text-xs text-slate-500 hover:text-red-400 py-2 transition-colors"
-                >
-                  Hapus semua riwayat
-                </button>
+              {triggerLog.length > 0 && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => exportTriggerLogCSV(triggerLog)}
+                    className="flex-1 flex items-center justify-center gap-1 text-xs text-slate-400 hover:text-emerald-400 py-2 transition-colors"
+                  >
+                    <span className="material-icons-round text-sm">download</span>
+                    Export CSV
+                  </button>
+                  <button
+                    onClick={handleClearHistory}
+                    className="flex-1 text-xs text-slate-500 hover:text-red-400 py-2 transition-colors"
+                  >
+                    Hapus semua riwayat
+                  </button>
+                </div>
               )}
-              {triggeredAlerts.length === 0 ? (
+              {triggerLog.length === 0 ? (
                 <div className="text-center py-10 text-slate-500">
                   <span className="material-icons-round text-4xl mb-2 block">history</span>
                   <p>Belum ada riwayat alert</p>
                 </div>
               ) : (
-                triggeredAlerts.map(alert => (
+                triggerLog.map(entry => (
                   <div 
-                    key={alert.id}
+                    key={entry.id}
                     className="flex items-center justify-between p-3 rounded-xl bg-slate-800/30 border border-slate-700/30"
                   >
                     <div className="flex items-center gap-3">
                       <div className="w-10 h-10 rounded-lg bg-amber-500/20 text-amber-400 flex items-center justify-center">
-                        <span className="material-icons-round">check_circle</span>
+                        <span className="material-icons-round">{CONDITION_ICONS[entry.condition]}</span>
                       </div>
                       <div>
-                        <p className="font-semibold text-white text-sm">{formatAlertMessage(alert)}</p>
+                        <p className="font-semibold text-white text-sm">{entry.message}</p>
                         <p className="text-xs text-slate-500">
-                          Triggered: {new Date(alert.triggeredAt || 0).toLocaleString('id-ID')}
+                          {new Date(entry.triggeredAt).toLocaleString('id-ID')} • Rp {entry.price.toLocaleString()}
                         </p>
+                        {entry.deliveries && entry.deliveries.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {entry.deliveries.map(d => (
+                              <span
+                                key={d.channel}
+                                title={d.error}
+                                className={`text-[10px] px-1.5 py-0.5 rounded ${DELIVERY_STYLES[d.status]}`}
+                              >
+                                {ALERT_CHANNEL_LABELS[d.channel]}: {d.status}{d.attempts > 1 ? ` (${d.attempts}x)` : ''}
+                              </span>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </div>
+                    {entry.deliveries?.some(d => d.status === 'failed' || d.status === 'skipped') && (
+                      <button
+                        onClick={() => handleRetryDelivery(entry)}
+                        title="Kirim ulang"
+                        className="w-8 h-8 rounded-lg bg-blue-500/20 hover:bg-blue-500/30 flex items-center justify-center text-blue-400 shrink-0"
+                      >
+                        <span className="material-icons-round text-sm">refresh</span>
+                      </button>
+                    )}
                   </div>
                 ))
               )}
             </div>
           )}
+
+          {/* Channels Tab */}
+          {activeTab === 'channels' && (
+            <div className="space-y-4">
+              {IS_DEV_SERVER && (
+                <div className="p-3 rounded-xl bg-blue-500/10 border border-blue-500/20 flex items-center gap-2 text-xs">
+                  <span className="material-icons-round text-base text-blue-400">science</span>
+                  <span className="text-slate-300">Mock lokal</span>
+                  <select
+                    value={mockMode}
+                    onChange={(e) => setMockMode(e.target.value)}
+                    className="ml-auto bg-[#0a0e17] border border-slate-700/50 rounded-lg py-1 px-2 text-white focus:outline-none"
+                  >
+                    {MOCK_CHANNEL_MODES.map(mode => (
+                      <option key={mode.id} value={mode.id}>{mode.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={handleUseMockChannels}
+                    className="px-2 py-1 rounded-lg bg-blue-500/20 text-blue-300 hover:bg-blue-500/30 transition-colors"
+                    title="Isi semua channel dengan endpoint mock di dev server"
+                  >
+                    Pakai
+                  </button>
+                </div>
+              )}
+              <ChannelSection
+                title="Telegram Bot"
+                icon="send"
+                locked={!isChannelAllowed('telegram')}
+                test={channelTests.telegram}
+                onTest={() => handleTestChannel('telegram')}
+              >
+                <ChannelField label="Bot Token" type="password" value={channelConfig.telegram.botToken} onChange={(v) => updateChannelConfig('telegram', { botToken: v })} placeholder="123456:ABC-DEF..." />
+                <ChannelField label="Chat ID" value={channelConfig.telegram.chatId} onChange={(v) => updateChannelConfig('telegram', { chatId: v })} placeholder="cth: 123456789" />
+                <ChannelField label="API Base URL" value={channelConfig.telegram.apiBaseUrl} onChange={(v) => updateChannelConfig('telegram', { apiBaseUrl: v })} />
+              </ChannelSection>
+
+              <ChannelSection
+                title="Webhook"
+                icon="webhook"
+                test={channelTests.webhook}
+                onTest={() => handleTestChannel('webhook')}
+              >
+                <ChannelField label="URL (POST JSON)" value={channelConfig.webhook.url} onChange={(v) => updateChannelConfig('webhook', { url: v })} placeholder="https://..." />
+                <ChannelField label="Secret (opsional, header X-Rizbot-Secret)" type="password" value={channelConfig.webhook.secret} onChange={(v) => updateChannelConfig('webhook', { secret: v })} />
+              </ChannelSection>
+
+              <ChannelSection
+                title="Email (SMTP relay)"
+                icon="email"
+                test={channelTests.email}
+                onTest={() => handleTestChannel('email')}
+              >
+                <ChannelField label="Endpoint Relay" value={channelConfig.email.relayUrl} onChange={(v) => updateChannelConfig('email', { relayUrl: v })} placeholder="https://..." />
+                <ChannelField label="Email Tujuan" type="email" value={channelConfig.email.to} onChange={(v) => updateChannelConfig('email', { to: v })} />
+                <ChannelField label="API Key (opsional)" type="password" value={channelConfig.email.apiKey} onChange={(v) => updateChannelConfig('email', { apiKey: v })} />
+              </ChannelSection>
+
+              <button
+                onClick={handleSaveChannels}
+                className="w-full bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-400 hover:to-orange-500 text-white py-2.5 rounded-xl font-bold transition-all flex items-center justify-center gap-2 active:scale-[0.98]"
+              >
+                <span className="material-icons-round">save</span>
+                Simpan Channel
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
 };
 
+interface ParamInputProps {
+  label: string;
+  value?: number;
+  step?: string;
+  onChange: (value: number) => void;
+}
+
+const ParamInput: React.FC<ParamInputProps> = ({ label, value, step = '1', onChange }) => (
+  <div>
+    <label className="text-xs text-slate-400 mb-2 block">{label}</label>
+    <input
+      type="number"
+      value={value ?? ''}
+      step={step}
+      min="0"
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full bg-[#0a0e17] border border-slate-700/50 rounded-xl py-2.5 px-4 text-white font-mono focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20 transition-all"
+      required
+    />
+  </div>
+);
+
+interface ChannelSectionProps {
+  title: string;
+  icon: string;
+  locked?: boolean;
+  test?: ChannelDelivery;
+  onTest: () => void;
+  children: React.ReactNode;
+}
+
+const ChannelSection: React.FC<ChannelSectionProps> = ({ title, icon, locked, test, onTest, children }) => (
+  <div className="p-3 rounded-xl bg-slate-800/30 border border-slate-700/30 space-y-2">
+    <div className="flex items-center justify-between">
+      <p className="text-sm font-semibold text-white flex items-center gap-2">
+        <span className="material-icons-round text-base text-amber-400">{icon}</span>
+        {title}
+        {locked && <span className="text-[10px] px-1.5 py-0.5 rounded bg-purple-500/20 text-purple-300">Elite</span>}
+      </p>
+      <button
+        type="button"
+        onClick={onTest}
+        disabled={locked || test?.status === 'pending'}
+        className="text-[11px] px-2 py-1 rounded-lg bg-slate-700/50 text-slate-300 hover:bg-slate-600 disabled:opacity-40 transition-colors"
+      >
+        {test?.status === 'pending' ? 'Mengirim...' : 'Tes'}
+      </button>
+    </div>
+    {children}
+    {test && test.status !== 'pending' && (
+      <p className={`text-[11px] ${test.status === 'sent' ? 'text-emerald-400' : 'text-red-400'}`}>
+        {test.status === 'sent' ? 'Pesan tes terkirim' : test.error || 'Pengiriman gagal'}
+      </p>
+    )}
+  </div>
+);
+
+interface ChannelFieldProps {
+  label: string;
+  value: string;
+  type?: string;
+  placeholder?: string;
+  onChange: (value: string) => void;
+}
+
+const ChannelField: React.FC<ChannelFieldProps> = ({ label, value, type = 'text', placeholder, onChange }) => (
+  <div>
+    <label className="text-[11px] text-slate-400 mb-1 block">{label}</label>
+    <input
+      type={type}
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full bg-[#0a0e17] border border-slate-700/50 rounded-lg py-2 px-3 text-white text-sm focus:outline-none focus:border-blue-500/50 transition-all"
+    />
+  </div>
+);
+
 export default PriceAlertModal;
@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import {
+  PriceStreamSettings,
+  PriceStreamStatus,
+  StreamTransport,
+  DEFAULT_STREAM_URL,
+  loadStreamSettings,
+  saveStreamSettings,
+  subscribeToStreamStatus,
+} from '../services/priceStreamService';
+
+const TRANSPORT_STYLES: Record<StreamTransport, { label: string; className: string }> = {
+  websocket: { label: 'WebSocket', className: 'bg-emerald-500/20 text-emerald-400' },
+  sse: { label: 'SSE', className: 'bg-emerald-500/20 text-emerald-400' },
+  polling: { label: 'Polling', className: 'bg-amber-500/20 text-amber-400' },
+  idle: { label: 'Idle', className: 'bg-slate-500/20 text-slate-400' },
+};
+
+/**
+ * Connection status & endpoint of the live price stream
+ */
+const PriceStreamPanel: React.FC = () => {
+  const [settings, setSettings] = useState<PriceStreamSettings>(loadStreamSettings);
+  const [status, setStatus] = useState<PriceStreamStatus | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => subscribeToStreamStatus(setStatus), []);
+
+  const handleSave = () => {
+    saveStreamSettings({ ...settings, url: settings.url.trim() || DEFAULT_STREAM_URL });
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  const transport = TRANSPORT_STYLES[status?.transport || 'idle'];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between p-4 bg-slate-800/30 rounded-xl">
+        <div className="flex items-center gap-3">
+          <span className="material-icons-round text-slate-400">stream</span>
+          <div>
+            <p className="text-white font-medium flex items-center gap-2">
+              Live Price Stream
+              <span className={`text-[10px] px-2 py-0.5 rounded-full ${transport.className}`}>{transport.label}</span>
+            </p>
+            <p className="text-xs text-slate-500">
+              {status?.symbols.length || 0} simbol dalam satu koneksi
+              {status?.lastTickAt && ` · tick terakhir ${new Date(status.lastTickAt).toLocaleTimeString('id-ID')}`}
+              {status?.transport === 'polling' && settings.enabled && status.unavailable &&
+                ' · URL ini bukan endpoint stream, memakai polling'}
+              {status?.transport === 'polling' && settings.enabled && !status.unavailable && status.reconnectAttempts > 0 &&
+                ` · stream gagal, mencoba lagi (${status.reconnectAttempts}x)`}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => setSettings(prev => ({ ...prev, enabled: !prev.enabled }))}
+          className={`relative w-12 h-6 rounded-full transition-colors ${settings.enabled ? 'bg-blue-500' : 'bg-slate-600'}`}
+          title={settings.enabled ? 'Pakai polling saja' : 'Aktifkan streaming'}
+        >
+          <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform ${settings.enabled ? 'translate-x-7' : 'translate-x-1'}`} />
+        </button>
+      </div>
+
+      <label className="block">
+        <span className="text-xs text-slate-400">URL stream (ws:// untuk WebSocket, selain itu SSE)</span>
+        <input
+          type="text"
+          value={settings.url}
+          onChange={e => setSettings(prev => ({ ...prev, url: e.target.value }))}
+          placeholder={DEFAULT_STREAM_URL}
+          disabled={!settings.enabled}
+          className="mt-1 w-full px-3 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white text-sm font-mono focus:outline-none focus:border-blue-500/50 disabled:opacity-50"
+        />
+      </label>
+
+      <div className="flex items-center justify-end gap-2">
+        {saved && <span className="text-xs text-emerald-400">Tersimpan, menyambung ulang</span>}
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-1 px-4 py-2 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors"
+        >
+          <span className="material-icons-round text-sm">save</span>
+          Simpan
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PriceStreamPanel;
@@ -1,5 +1,6 @@
 import React from 'react';
 import { StockTicker, StockData } from '../types';
+import { calculateRSI, lastValue } from '../utils/indicators';
 
 interface QuickAnalysisProps {
   ticker: StockTicker;
@@ -12,16 +13,8 @@ const calculateQuickIndicators = (data: StockData[], ticker: StockTicker) => {
     return null;
   }
 
-  // RSI calculation
-  let gains = 0, losses = 0;
-  for (let i = data.length - 14; i < data.length; i++) {
-    const change = data[i].close - data[i - 1].close;
-    if (change > 0) gains += change;
-    else losses -= change;
-  }
-  const avgGain = gains / 14;
-  const avgLoss = losses / 14;
-  const rsi = avgLoss === 0 ? 100 : 100 - (100 / (1 + avgGain / avgLoss));
+  // RSI (Wilder, 14)
+  const rsi = lastValue(calculateRSI(data, 14)) ?? 50;
 
   // Simple trend detection
   const shortMA = data.slice(-5).reduce((s, d) => s + d.close, 0) / 5;
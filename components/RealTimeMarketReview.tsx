@@ -4,12 +4,16 @@ import TradingViewChart from './TradingViewChart';
 import QuickAnalysis from './QuickAnalysis';
 import NewsSentimentPanel from './NewsSentimentPanel';
 import { StockTicker, StockData, TimeRange } from '../types';
+import { BarInterval } from '../services/barAggregator';
 
 interface RealTimeMarketReviewProps {
   ticker: StockTicker;
   chartData: StockData[];
   timeRange: TimeRange;
   onRangeChange: (range: TimeRange) => void;
+  barInterval?: BarInterval | null;
+  onBarIntervalChange?: (interval: BarInterval) => void;
+  isLive?: boolean;
   loading: boolean;
   isNewsOpen: boolean;
   onOpenNews: () => void;
@@ -21,6 +25,9 @@ const RealTimeMarketReview: React.FC<RealTimeMarketReviewProps> = ({
   chartData,
   timeRange,
   onRangeChange,
+  barInterval,
+  onBarIntervalChange,
+  isLive,
   loading,
   isNewsOpen,
   onOpenNews,
@@ -77,8 +84,12 @@ const RealTimeMarketReview: React.FC<RealTimeMarketReviewProps> = ({
         <TradingViewChart
           data={chartData}
           symbol={ticker.symbol}
+          market={ticker.market}
           timeRange={timeRange}
           onRangeChange={onRangeChange}
+          barInterval={barInterval}
+          onBarIntervalChange={onBarIntervalChange}
+          isLive={isLive}
           loading={loading}
         />
       ) : (
@@ -87,6 +98,9 @@ const RealTimeMarketReview: React.FC<RealTimeMarketReviewProps> = ({
           symbol={ticker.symbol}
           timeRange={timeRange}
           onRangeChange={onRangeChange}
+          barInterval={barInterval}
+          onBarIntervalChange={onBarIntervalChange}
+          isLive={isLive}
           loading={loading}
         />
       )}
@@ -1,6 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useTheme } from '../contexts/ThemeContext';
 import { User, logout } from '../services/authService';
+import DataProviderPanel from './DataProviderPanel';
+import OfflineCachePanel from './OfflineCachePanel';
+import PriceStreamPanel from './PriceStreamPanel';
+import { clearOfflineCache } from '../services/offlineCacheService';
+import { clearSavedScreens } from '../services/savedScreenService';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -10,7 +15,7 @@ interface SettingsModalProps {
   onLogout?: () => void;
 }
 
-type SettingsTab = 'profile' | 'personalization' | 'notifications' | 'privacy' | 'help';
+type SettingsTab = 'profile' | 'personalization' | 'notifications' | 'data' | 'privacy' | 'help';
 
 interface NotificationSettings {
   priceAlerts: boolean;
@@ -176,7 +181,17 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, user, on
       // Remove user-specific data
       localStorage.removeItem('rizbot_watchlist');
       localStorage.removeItem('rizbot_portfolio');
+      localStorage.removeItem('rizbot_portfolios');
+      localStorage.removeItem('rizbot_active_portfolio');
+      localStorage.removeItem('rizbot_custom_fee_profile');
       localStorage.removeItem('rizbot_alerts');
+      localStorage.removeItem('rizbot_alert_trigger_log');
+      localStorage.removeItem('rizbot_alert_channels');
+      localStorage.removeItem('rizbot_data_providers');
+      localStorage.removeItem('rizbot_price_stream');
+      localStorage.removeItem('rizbot_cache_settings');
+      clearSavedScreens(user.id);
+      clearOfflineCache();
       
       showToast('Akun berhasil dihapus', 'success');
       setShowDeleteConfirm(false);
@@ -205,7 +220,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, user, on
           createdAt: user.createdAt,
         },
         watchlist: JSON.parse(localStorage.getItem('rizbot_watchlist') || '[]'),
-        portfolio: JSON.parse(localStorage.getItem('rizbot_portfolio') || '[]'),
+        portfolios: JSON.parse(localStorage.getItem('rizbot_portfolios') || '[]'),
         alerts: JSON.parse(localStorage.getItem('rizbot_alerts') || '[]'),
         settings: {
           notifications: JSON.parse(localStorage.getItem('rizbot_notification_settings') || '{}'),
@@ -251,8 +266,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, user, on
       
       keysToRemove.forEach(key => localStorage.removeItem(key));
       
-      // Clear session storage
+      // Clear session storage & offline market data
       sessionStorage.clear();
+      clearOfflineCache();
       
       showToast('Cache berhasil dihapus', 'success');
       setShowClearCacheConfirm(false);
@@ -360,6 +376,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, user, on
     { id: 'profile', icon: 'person', label: 'Profil' },
     { id: 'personalization', icon: 'palette', label: 'Personalisasi' },
     { id: 'notifications', icon: 'notifications', label: 'Notifikasi' },
+    { id: 'data', icon: 'dns', label: 'Sumber Data' },
     { id: 'privacy', icon: 'security', label: 'Privasi' },
     { id: 'help', icon: 'help', label: 'Bantuan' },
   ];
@@ -797,6 +814,26 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, user, on
               </div>
             )}
 
+            {/* Data Source Tab */}
+            {activeTab === 'data' && (
+              <div className="space-y-6">
+                <div>
+                  <h3 className="text-lg font-semibold text-white mb-4">Sumber Data Pasar</h3>
+                  <DataProviderPanel />
+                </div>
+
+                <div className="pt-6 border-t border-slate-700/50">
+                  <h3 className="text-lg font-semibold text-white mb-4">Streaming Harga</h3>
+                  <PriceStreamPanel />
+                </div>
+
+                <div className="pt-6 border-t border-slate-700/50">
+                  <h3 className="text-lg font-semibold text-white mb-4">Cache Offline</h3>
+                  <OfflineCachePanel />
+                </div>
+              </div>
+            )}
+
             {/* Privacy Tab */}
             {activeTab === 'privacy' && (
               <div className="space-y-6">
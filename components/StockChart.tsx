@@ -15,6 +15,9 @@ import {
   LineChart,
 } from 'recharts';
 import { StockData, TimeRange } from '../types';
+import { calculateEMA, calculateRSI, calculateMACD, calculateBollingerBands } from '../utils/indicators';
+import { calculateVolumeAnalysis, calculateReversalEnginePro } from '../utils/signals';
+import { BarInterval, BAR_INTERVALS } from '../services/barAggregator';
 
 interface StockChartProps {
   data: StockData[];
@@ -22,6 +25,9 @@ interface StockChartProps {
   timeRange: TimeRange;
   onRangeChange: (range: TimeRange) => void;
   loading?: boolean;
+  barInterval?: BarInterval | null;     // Interval candle intraday (null untuk range harian)
+  onBarIntervalChange?: (interval: BarInterval) => void;
+  isLive?: boolean;                     // Candle terakhir bergerak mengikuti tick
 }
 
 const RANGES: TimeRange[] = ['1D', '5D', '1M', '6M', 'YTD', '1Y', '5Y'];
@@ -210,248 +216,11 @@ const CustomTooltip = ({ active, payload, label }: any) => {
 
 // --- Helper Functions ---
 
-const calculateEMA = (data: StockData[], period: number, key: keyof StockData = 'close'): number[] => {
-  const k = 2 / (period + 1);
-  const emaArray: number[] = [];
-  
-  let ema = data[0][key] as number;
-  emaArray.push(ema);
-
-  for (let i = 1; i < data.length; i++) {
-    const price = data[i][key] as number;
-    ema = price * k + ema * (1 - k);
-    emaArray.push(ema);
-  }
-  return emaArray;
-};
-
-const calculateRSI = (data: StockData[], period: number = 14): number[] => {
-  const rsiArray: number[] = new Array(data.length).fill(0);
-  
-  let gains = 0;
-  let losses = 0;
-
-  // First period avg
-  for (let i = 1; i <= period; i++) {
-    const diff = data[i].close - data[i - 1].close;
-    if (diff >= 0) gains += diff;
-    else losses += Math.abs(diff);
-  }
-  
-  let avgGain = gains / period;
-  let avgLoss = losses / period;
-
-  // Subsequent periods
-  for (let i = period + 1; i < data.length; i++) {
-    const diff = data[i].close - data[i - 1].close;
-    const currentGain = diff > 0 ? diff : 0;
-    const currentLoss = diff < 0 ? Math.abs(diff) : 0;
-
-    avgGain = (avgGain * (period - 1) + currentGain) / period;
-    avgLoss = (avgLoss * (period - 1) + currentLoss) / period;
-
-    if (avgLoss === 0) {
-      rsiArray[i] = 100;
-    } else {
-      const rs = avgGain / avgLoss;
-      rsiArray[i] = 100 - (100 / (1 + rs));
-    }
-  }
-  return rsiArray;
-};
-
-// MACD Calculation
-const calculateMACD = (data: StockData[], fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) => {
-  const emaFast = calculateEMA(data, fastPeriod);
-  const emaSlow = calculateEMA(data, slowPeriod);
-  
-  // MACD Line = EMA(12) - EMA(26)
-  const macdLine: number[] = emaFast.map((fast, i) => fast - emaSlow[i]);
-  
-  // Signal Line = EMA(9) of MACD Line
-  const signalLine: number[] = [];
-  const k = 2 / (signalPeriod + 1);
-  let signalEma = macdLine[0];
-  signalLine.push(signalEma);
-  
-  for (let i = 1; i < macdLine.length; i++) {
-    signalEma = macdLine[i] * k + signalEma * (1 - k);
-    signalLine.push(signalEma);
-  }
-  
-  // Histogram = MACD Line - Signal Line
-  const histogram: number[] = macdLine.map((macd, i) => macd - signalLine[i]);
-  
-  return { macdLine, signalLine, histogram };
-};
-
-// Volume Analysis
-const calculateVolumeAnalysis = (data: StockData[], period: number = 20) => {
-  const volumeMA: number[] = [];
-  const volumeRatio: number[] = [];
-  
-  for (let i = 0; i < data.length; i++) {
-    if (i < period - 1) {
-      volumeMA.push(data[i].volume);
-      volumeRatio.push(1);
-    } else {
-      const slice = data.slice(i - period + 1, i + 1);
-      const avgVolume = slice.reduce((sum, d) => sum + d.volume, 0) / period;
-      volumeMA.push(avgVolume);
-      volumeRatio.push(data[i].volume / avgVolume);
-    }
-  }
-  
-  return { volumeMA, volumeRatio };
-};
-
-// Reversal Engine Pro - Combines MACD + RSI + Volume
-interface ReversalSignal {
-  type: 'bullish' | 'bearish' | null;
-  strength: number; // 0-100
-  reasons: string[];
-}
-
-const calculateReversalEnginePro = (
-  data: StockData[],
-  rsi: number[],
-  macd: { macdLine: number[]; signalLine: number[]; histogram: number[] },
-  volumeAnalysis: { volumeMA: number[]; volumeRatio: number[] }
-): ReversalSignal[] => {
-  const signals: ReversalSignal[] = [];
-  
-  for (let i = 0; i < data.length; i++) {
-    if (i < 30) {
-      signals.push({ type: null, strength: 0, reasons: [] });
-      continue;
-    }
-    
-    const reasons: string[] = [];
-    let bullishScore = 0;
-    let bearishScore = 0;
-    
-    // RSI Analysis
-    const currRsi = rsi[i];
-    const prevRsi = rsi[i - 1];
-    
-    if (currRsi <= 30) {
-      bullishScore += 25;
-      reasons.push('RSI Oversold');
-    } else if (currRsi <= 40 && prevRsi < currRsi) {
-      bullishScore += 15;
-      reasons.push('RSI Recovering');
-    }
-    
-    if (currRsi >= 70) {
-      bearishScore += 25;
-      reasons.push('RSI Overbought');
-    } else if (currRsi >= 60 && prevRsi > currRsi) {
-      bearishScore += 15;
-      reasons.push('RSI Weakening');
-    }
-    
-    // MACD Analysis
-    const currMacd = macd.macdLine[i];
-    const prevMacd = macd.macdLine[i - 1];
-    const currSignal = macd.signalLine[i];
-    const prevSignal = macd.signalLine[i - 1];
-    const currHist = macd.histogram[i];
-    const prevHist = macd.histogram[i - 1];
-    
-    // MACD Crossover
-    if (prevMacd < prevSignal && currMacd > currSignal) {
-      bullishScore += 30;
-      reasons.push('MACD Bullish Cross');
-    }
-    if (prevMacd > prevSignal && currMacd < currSignal) {
-      bearishScore += 30;
-      reasons.push('MACD Bearish Cross');
-    }
-    
-    // MACD Histogram momentum
-    if (currHist > 0 && currHist > prevHist) {
-      bullishScore += 10;
-      reasons.push('MACD Momentum Up');
-    }
-    if (currHist < 0 && currHist < prevHist) {
-      bearishScore += 10;
-      reasons.push('MACD Momentum Down');
-    }
-    
-    // MACD Zero Line Cross
-    if (prevMacd < 0 && currMacd > 0) {
-      bullishScore += 15;
-      reasons.push('MACD Above Zero');
-    }
-    if (prevMacd > 0 && currMacd < 0) {
-      bearishScore += 15;
-      reasons.push('MACD Below Zero');
-    }
-    
-    // Volume Analysis
-    const volRatio = volumeAnalysis.volumeRatio[i];
-    const priceChange = (data[i].close - data[i - 1].close) / data[i - 1].close;
-    
-    // High volume with price up = bullish confirmation
-    if (volRatio > 1.5 && priceChange > 0.01) {
-      bullishScore += 20;
-      reasons.push('Volume Surge (Up)');
-    }
-    
-    // High volume with price down = bearish confirmation
-    if (volRatio > 1.5 && priceChange < -0.01) {
-      bearishScore += 20;
-      reasons.push('Volume Surge (Down)');
-    }
-    
-    // Volume divergence (price up, volume down = weak rally)
-    if (priceChange > 0.01 && volRatio < 0.7) {
-      bearishScore += 10;
-      reasons.push('Weak Volume Rally');
-    }
-    
-    // Volume divergence (price down, volume down = weak selloff)
-    if (priceChange < -0.01 && volRatio < 0.7) {
-      bullishScore += 10;
-      reasons.push('Weak Volume Selloff');
-    }
-    
-    // Determine signal
-    const netScore = bullishScore - bearishScore;
-    
-    if (netScore >= 30) {
-      signals.push({
-        type: 'bullish',
-        strength: Math.min(100, bullishScore),
-        reasons: reasons.filter(r => 
-          r.includes('Oversold') || r.includes('Recovering') || 
-          r.includes('Bullish') || r.includes('Up') || 
-          r.includes('Above') || r.includes('Weak Volume Selloff')
-        )
-      });
-    } else if (netScore <= -30) {
-      signals.push({
-        type: 'bearish',
-        strength: Math.min(100, bearishScore),
-        reasons: reasons.filter(r => 
-          r.includes('Overbought') || r.includes('Weakening') || 
-          r.includes('Bearish') || r.includes('Down') || 
-          r.includes('Below') || r.includes('Weak Volume Rally')
-        )
-      });
-    } else {
-      signals.push({ type: null, strength: 0, reasons: [] });
-    }
-  }
-  
-  return signals;
-};
-
 const calculateIndicators = (data: StockData[], settings: any) => {
   if (data.length < 50) return data; // Need enough data for EMA50
 
   // 1. Bollinger Bands
-  const bbData = calculateBollingerBands(data, settings.smaPeriod, settings.stdDev);
+  const bbData = mergeBollingerBands(data, settings.smaPeriod, settings.stdDev);
 
   // 2. EMAs for Signals
   const ema20 = calculateEMA(data, 20);
@@ -478,12 +247,12 @@ const calculateIndicators = (data: StockData[], settings: any) => {
     
     const newData = { 
       ...d, 
-      ema20: ema20[i], 
-      ema50: ema50[i], 
-      rsi: rsi[i],
-      macdLine: macd.macdLine[i],
-      macdSignal: macd.signalLine[i],
-      macdHistogram: macd.histogram[i],
+      ema20: ema20[i] ?? undefined, 
+      ema50: ema50[i] ?? undefined, 
+      rsi: rsi[i] ?? undefined,
+      macdLine: macd.macdLine[i] ?? undefined,
+      macdSignal: macd.signalLine[i] ?? undefined,
+      macdHistogram: macd.histogram[i] ?? undefined,
       volumeMA: volumeAnalysis.volumeMA[i],
       volumeRatio: volumeAnalysis.volumeRatio[i],
       reversalType: reversalSignal.type,
@@ -497,13 +266,13 @@ const calculateIndicators = (data: StockData[], settings: any) => {
 
     // Skip beginning where indicators stabilize
     if (i > 50) {
-      const prevEma20 = ema20[i-1];
-      const prevEma50 = ema50[i-1];
-      const currEma20 = ema20[i];
-      const currEma50 = ema50[i];
+      const prevEma20 = ema20[i-1] as number;
+      const prevEma50 = ema50[i-1] as number;
+      const currEma20 = ema20[i] as number;
+      const currEma50 = ema50[i] as number;
       
-      const prevRsi = rsi[i-1];
-      const currRsi = rsi[i];
+      const prevRsi = rsi[i-1] as number;
+      const currRsi = rsi[i] as number;
 
       // Classic Signals (EMA Cross)
       if (settings.showSignals) {
@@ -535,38 +304,23 @@ const calculateIndicators = (data: StockData[], settings: any) => {
   });
 };
 
-const calculateBollingerBands = (data: StockData[], period: number, multiplier: number) => {
+// Attach Bollinger Bands and candle range to each bar for the chart
+const mergeBollingerBands = (data: StockData[], period: number, multiplier: number) => {
   if (data.length < period) return data;
 
-  const result = [];
-  for (let i = 0; i < data.length; i++) {
-    const datum = { 
-      ...data[i],
-      priceRange: [data[i].low, data[i].high],
-      bbUpper: undefined as number | undefined, 
-      bbMiddle: undefined as number | undefined, 
-      bbLower: undefined as number | undefined 
-    };
-    
-    if (i >= period - 1) {
-      const slice = data.slice(i - period + 1, i + 1);
-      const sum = slice.reduce((acc, curr) => acc + curr.close, 0);
-      const mean = sum / period;
-      
-      const squaredDiffs = slice.map(d => Math.pow(d.close - mean, 2));
-      const variance = squaredDiffs.reduce((acc, curr) => acc + curr, 0) / period;
-      const stdDev = Math.sqrt(variance);
-      
-      datum.bbMiddle = mean;
-      datum.bbUpper = mean + (multiplier * stdDev);
-      datum.bbLower = mean - (multiplier * stdDev);
-    }
-    result.push(datum);
-  }
-  return result;
+  const bands = calculateBollingerBands(data, period, multiplier);
+  return data.map((d, i) => ({
+    ...d,
+    priceRange: [d.low, d.high],
+    bbUpper: bands.upper[i] ?? undefined,
+    bbMiddle: bands.middle[i] ?? undefined,
+    bbLower: bands.lower[i] ?? undefined,
+  }));
 };
 
-const StockChart: React.FC<StockChartProps> = ({ data, symbol, timeRange, onRangeChange, loading }) => {
+const StockChart: React.FC<StockChartProps> = ({
+  data, symbol, timeRange, onRangeChange, loading, barInterval, onBarIntervalChange, isLive,
+}) => {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   
   // Initialize settings
@@ -707,6 +461,30 @@ const StockChart: React.FC<StockChartProps> = ({ data, symbol, timeRange, onRang
         </div>
         
         <div className="flex flex-wrap items-center gap-3 w-full xl:w-auto">
+          {isLive && (
+            <span className="flex items-center gap-1 text-[10px] font-bold text-emerald-400">
+              <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-pulse" />
+              LIVE
+            </span>
+          )}
+
+          {/* Candle Interval Selector (intraday) */}
+          {barInterval && onBarIntervalChange && (
+            <div className="bg-slate-950/50 rounded-lg p-1 border border-slate-800 flex shadow-inner">
+              {BAR_INTERVALS.map((interval) => (
+                <button
+                  key={interval}
+                  onClick={() => onBarIntervalChange(interval)}
+                  className={`px-2 py-1.5 text-xs font-bold rounded-md transition-all ${
+                    barInterval === interval ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'
+                  }`}
+                >
+                  {interval}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Time Range Selector */}
           <div className="flex-1 xl:flex-none bg-slate-950/50 rounded-lg p-1 border border-slate-800 overflow-x-auto flex shadow-inner">
             {RANGES.map((r) => (
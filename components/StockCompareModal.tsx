@@ -0,0 +1,354 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { ScreenerStock, StockData } from '../types';
+import { fetchHistoryWithSource } from '../services/stockApiService';
+
+interface StockCompareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  stocks: ScreenerStock[];
+  onSelectStock: (symbol: string) => void;
+}
+
+type PerformancePeriod = '1M' | '3M' | '6M' | 'YTD' | '1Y';
+
+interface CompareMetric {
+  label: string;
+  value: (stock: ScreenerStock, history: StockData[]) => number | null;
+  format: (value: number) => string;
+  better?: 'high' | 'low';     // Nilai terbaik di baris ini ditandai
+}
+
+export const MAX_COMPARE_STOCKS = 5;
+
+const HISTORY_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIODS: { id: PerformancePeriod; label: string; days: number | null }[] = [
+  { id: '1M', label: '1 Bulan', days: 30 },
+  { id: '3M', label: '3 Bulan', days: 90 },
+  { id: '6M', label: '6 Bulan', days: 182 },
+  { id: 'YTD', label: 'YTD', days: null },
+  { id: '1Y', label: '1 Tahun', days: 365 },
+];
+
+const LINE_COLORS = ['#f59e0b', '#3b82f6', '#10b981', '#ec4899', '#8b5cf6'];
+
+const COLORS = {
+  Grid: '#363a45',
+  Text: '#787b86',
+};
+
+const getPeriodStart = (period: PerformancePeriod, now: number = Date.now()): number => {
+  const spec = PERIODS.find(p => p.id === period)!;
+  if (spec.days !== null) return now - spec.days * DAY_MS;
+  const date = new Date(now);
+  return new Date(date.getFullYear(), 0, 1).getTime();
+};
+
+// Return (%) from the first bar on/after `since` to the last bar
+const getReturnSince = (history: StockData[], since: number): number | null => {
+  const start = history.find(bar => bar.timestamp !== undefined && bar.timestamp >= since);
+  const last = history[history.length - 1];
+  if (!start || !last || start.close <= 0 || start === last) return null;
+  return ((last.close - start.close) / start.close) * 100;
+};
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+const formatNumber = (value: number) => value.toLocaleString('id-ID', { maximumFractionDigits: 2 });
+const formatCompact = (value: number) => {
+  if (value >= 1e12) return `${(value / 1e12).toFixed(1)} T`;
+  if (value >= 1e9) return `${(value / 1e9).toFixed(1)} B`;
+  if (value >= 1e6) return `${(value / 1e6).toFixed(1)} M`;
+  return value.toLocaleString('id-ID');
+};
+const distanceFrom = (price: number, level: number | null) => level ? ((price - level) / level) * 100 : null;
+
+const METRIC_GROUPS: { title: string; icon: string; metrics: CompareMetric[] }[] = [
+  {
+    title: 'Fundamental',
+    icon: 'account_balance',
+    metrics: [
+      { label: 'Harga', value: s => s.price, format: formatNumber },
+      { label: 'Market Cap', value: s => s.marketCap, format: formatCompact, better: 'high' },
+      { label: 'PER', value: s => s.peRatio, format: v => v.toFixed(1), better: 'low' },
+      { label: 'PBV', value: s => s.pbRatio, format: v => v.toFixed(2), better: 'low' },
+      { label: 'EPS', value: s => s.eps, format: formatNumber, better: 'high' },
+      { label: 'Dividend Yield', value: s => s.dividend, format: v => `${v.toFixed(2)}%`, better: 'high' },
+    ],
+  },
+  {
+    title: 'Teknikal',
+    icon: 'show_chart',
+    metrics: [
+      { label: 'RSI 14', value: s => s.rsi, format: v => v.toFixed(0) },
+      { label: 'vs MA20', value: s => distanceFrom(s.price, s.ma20), format: formatPercent },
+      { label: 'vs MA50', value: s => distanceFrom(s.price, s.ma50), format: formatPercent },
+      { label: 'vs MA200', value: s => distanceFrom(s.price, s.ma200), format: formatPercent },
+      { label: 'Dari High 52W', value: s => distanceFrom(s.price, s.high52w), format: formatPercent },
+      { label: 'Dari Low 52W', value: s => distanceFrom(s.price, s.low52w), format: formatPercent },
+      { label: 'Volume / Rata-rata 20H', value: s => s.avgVolume20 > 0 ? s.volume / s.avgVolume20 : null, format: v => `${v.toFixed(2)}x` },
+    ],
+  },
+  {
+    title: 'Performa',
+    icon: 'trending_up',
+    metrics: PERIODS.map(period => ({
+      label: `Return ${period.label}`,
+      value: (_: ScreenerStock, history: StockData[]) => getReturnSince(history, getPeriodStart(period.id)),
+      format: formatPercent,
+      better: 'high' as const,
+    })),
+  },
+];
+
+/**
+ * Side-by-side comparison of up to 5 screener stocks
+ * Performa harga dinormalisasi ke 100 di awal periode supaya saham dengan harga berbeda bisa dibandingkan.
+ */
+const StockCompareModal: React.FC<StockCompareModalProps> = ({ isOpen, onClose, stocks, onSelectStock }) => {
+  const [histories, setHistories] = useState<Record<string, StockData[]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [period, setPeriod] = useState<PerformancePeriod>('3M');
+
+  const compared = stocks.slice(0, MAX_COMPARE_STOCKS);
+  const symbolsKey = compared.map(s => s.symbol).join(',');
+
+  useEffect(() => {
+    if (!isOpen || !symbolsKey) return;
+    let cancelled = false;
+
+    const loadHistories = async () => {
+      setIsLoading(true);
+      const entries = await Promise.all(symbolsKey.split(',').map(async symbol => {
+        try {
+          const history = await fetchHistoryWithSource(symbol, HISTORY_DAYS);
+          return [symbol, history.source.simulated ? [] : history.data] as const;
+        } catch (error) {
+          console.error(`Error loading ${symbol} history:`, error);
+          return [symbol, []] as const;
+        }
+      }));
+      if (cancelled) return;
+      setHistories(Object.fromEntries(entries));
+      setIsLoading(false);
+    };
+
+    loadHistories();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, symbolsKey]);
+
+  // Harga penutupan per tanggal, dinormalisasi ke 100 di bar pertama periode
+  const performanceData = useMemo(() => {
+    const since = getPeriodStart(period);
+    const byDate = new Map<string, Record<string, number | string>>();
+
+    compared.forEach(stock => {
+      const bars = (histories[stock.symbol] || []).filter(bar => bar.timestamp !== undefined && bar.timestamp >= since);
+      const base = bars[0]?.close;
+      if (!base) return;
+      bars.forEach(bar => {
+        const date = new Date(bar.timestamp!).toISOString().split('T')[0];
+        const point = byDate.get(date) || { date };
+        point[stock.symbol] = Math.round((bar.close / base) * 10000) / 100;
+        byDate.set(date, point);
+      });
+    });
+
+    return [...byDate.values()].sort((a, b) => String(a.date).localeCompare(String(b.date)));
+  }, [histories, period, symbolsKey]);
+
+  if (!isOpen) return null;
+
+  // Index nilai terbaik per metrik (hanya untuk metrik dengan arah "lebih baik")
+  const bestIndex = (metric: CompareMetric, values: (number | null)[]): number => {
+    if (!metric.better) return -1;
+    let best = -1;
+    values.forEach((value, i) => {
+      if (value === null) return;
+      if (best === -1 || (metric.better === 'high' ? value > values[best]! : value < values[best]!)) best = i;
+    });
+    return values.filter(v => v !== null).length > 1 ? best : -1;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-md" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-[#0f1629] rounded-2xl border border-slate-700/50 shadow-2xl w-full max-w-6xl mx-4 max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="p-5 border-b border-slate-700/50 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-amber-500 to-orange-600 flex items-center justify-center shadow-lg shadow-amber-500/20">
+              <span className="material-icons text-white text-2xl">compare_arrows</span>
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Bandingkan Saham</h2>
+              <p className="text-slate-400 text-sm">{compared.map(s => s.symbol).join(' vs ')}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 rounded-xl bg-slate-800/50 hover:bg-slate-700 flex items-center justify-center text-slate-400 hover:text-white transition-colors"
+          >
+            <span className="material-icons">close</span>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-5 space-y-5">
+          {/* Normalized Performance Chart */}
+          <div className="bg-slate-800/30 rounded-xl border border-slate-700/30">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700/30">
+              <span className="text-sm font-bold text-white">Performa Harga (awal periode = 100)</span>
+              <div className="flex bg-slate-800/50 rounded-lg p-1">
+                {PERIODS.map(p => (
+                  <button
+                    key={p.id}
+                    onClick={() => setPeriod(p.id)}
+                    className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${
+                      period === p.id ? 'bg-amber-500/20 text-amber-400' : 'text-slate-400 hover:text-white'
+                    }`}
+                  >
+                    {p.id}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="h-72 p-2">
+              {isLoading ? (
+                <div className="h-full flex items-center justify-center">
+                  <div className="animate-spin rounded-full h-8 w-8 border-2 border-amber-500 border-t-transparent"></div>
+                </div>
+              ) : performanceData.length === 0 ? (
+                <div className="h-full flex items-center justify-center text-slate-500 text-sm">
+                  <span className="material-icons mr-2">error_outline</span>
+                  Histori harga tidak tersedia
+                </div>
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={performanceData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke={COLORS.Grid} vertical={false} />
+                    <XAxis
+                      dataKey="date"
+                      tick={{ fontSize: 9, fill: COLORS.Text }}
+                      axisLine={{ stroke: COLORS.Grid }}
+                      tickLine={false}
+                      interval="preserveStartEnd"
+                      minTickGap={40}
+                    />
+                    <YAxis
+                      domain={['auto', 'auto']}
+                      tick={{ fontSize: 9, fill: COLORS.Text }}
+                      axisLine={false}
+                      tickLine={false}
+                      width={40}
+                    />
+                    <Tooltip
+                      contentStyle={{ background: '#1e222d', border: '1px solid #363a45', borderRadius: 6, fontSize: 11 }}
+                      labelStyle={{ color: '#787b86' }}
+                      formatter={(value) => `${Number(value).toFixed(2)} (${formatPercent(Number(value) - 100)})`}
+                    />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    <ReferenceLine y={100} stroke="#64748b" strokeDasharray="4 4" />
+                    {compared.map((stock, i) => (
+                      <Line
+                        key={stock.symbol}
+                        type="monotone"
+                        dataKey={stock.symbol}
+                        stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                        strokeWidth={2}
+                        dot={false}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+          </div>
+
+          {/* Comparison Table */}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-[10px] text-slate-500 uppercase">
+                <th className="px-3 py-2 font-bold w-48">Metrik</th>
+                {compared.map((stock, i) => (
+                  <th key={stock.symbol} className="px-3 py-2 text-right">
+                    <button
+                      onClick={() => {
+                        onSelectStock(stock.symbol);
+                        onClose();
+                      }}
+                      className="inline-flex flex-col items-end hover:opacity-80"
+                    >
+                      <span className="text-sm font-bold" style={{ color: LINE_COLORS[i % LINE_COLORS.length] }}>{stock.symbol}</span>
+                      <span className="text-[10px] font-normal normal-case text-slate-500 truncate max-w-[140px]">{stock.name}</span>
+                    </button>
+                  </th>
+                ))}
+              </tr>
+              <tr className="text-[10px] text-slate-500">
+                <td className="px-3 pb-2">Sektor</td>
+                {compared.map(stock => (
+                  <td key={stock.symbol} className="px-3 pb-2 text-right">
+                    <span className="px-2 py-0.5 bg-slate-700/50 text-slate-400 rounded">{stock.sector}</span>
+                  </td>
+                ))}
+              </tr>
+            </thead>
+            {METRIC_GROUPS.map(group => (
+              <tbody key={group.title} className="divide-y divide-slate-800/50">
+                <tr>
+                  <td colSpan={compared.length + 1} className="px-3 pt-4 pb-2 text-xs font-bold text-amber-400">
+                    <span className="material-icons text-sm mr-1 align-middle">{group.icon}</span>
+                    {group.title}
+                  </td>
+                </tr>
+                {group.metrics.map(metric => {
+                  const values = compared.map(stock => metric.value(stock, histories[stock.symbol] || []));
+                  const best = bestIndex(metric, values);
+                  return (
+                    <tr key={metric.label} className="hover:bg-slate-800/30">
+                      <td className="px-3 py-2 text-slate-400 text-xs">{metric.label}</td>
+                      {values.map((value, i) => (
+                        <td
+                          key={compared[i].symbol}
+                          className={`px-3 py-2 text-right font-mono text-xs ${
+                            i === best ? 'text-emerald-400 font-bold' : 'text-slate-300'
+                          }`}
+                        >
+                          {value === null ? '-' : metric.format(value)}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            ))}
+          </table>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-700/50 bg-slate-800/30 text-xs text-slate-500">
+          💡 Nilai terbaik per baris ditandai hijau. Klik kode saham untuk membuka chart-nya.
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockCompareModal;
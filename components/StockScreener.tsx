@@ -1,25 +1,34 @@
-import React, { useState, useMemo, useCallback } from 'react';
-import { StockTicker } from '../types';
-
-interface ScreenerStock {
-  symbol: string;
-  name: string;
-  sector: string;
-  price: number;
-  change: number;
-  changePercent: number;
-  volume: number;
-  marketCap: number;
-  peRatio: number;
-  pbRatio: number;
-  eps: number;
-  dividend: number;
-  rsi: number;
-  ma20: number;
-  ma50: number;
-  high52w: number;
-  low52w: number;
-}
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { ScreenerStock } from '../types';
+import {
+  ScreenerProgress,
+  UniverseFile,
+  loadScreenerRows,
+  loadUniverse,
+  countWithFundamentals,
+  refreshScreener,
+  filterScreenerRows,
+  exportScreenerCSV,
+  exportScreenerExcel,
+  isUniversePartial,
+  IDX_LISTED_COMPANIES_APPROX,
+} from '../services/screenerService';
+import {
+  SavedScreen,
+  ScreenSchedule,
+  SCREEN_SCHEDULE_LABELS,
+  loadSavedScreens,
+  saveScreen,
+  deleteSavedScreen,
+  runSavedScreen,
+} from '../services/savedScreenService';
+import {
+  ExpressionError,
+  EXPRESSION_FIELDS,
+  EXPRESSION_FUNCTIONS,
+  parseScreenerExpression,
+} from '../utils/screenerExpression';
+import StockCompareModal, { MAX_COMPARE_STOCKS } from './StockCompareModal';
 
 interface FilterCriteria {
   sector: string;
@@ -42,45 +51,19 @@ interface FilterCriteria {
   near52wLow: boolean;
 }
 
+export interface WatchlistBulkAddResult {
+  added: string[];
+  skipped: number;             // Tidak ditambahkan karena batas watchlist
+}
+
 interface StockScreenerProps {
   isOpen: boolean;
   onClose: () => void;
   onSelectStock: (symbol: string) => void;
+  watchlistSymbols?: string[];
+  onAddToWatchlist?: (symbols: string[]) => WatchlistBulkAddResult | null;
 }
 
-// Sample IDX stocks data with fundamentals - Updated Dec 2024
-const SCREENER_DATA: ScreenerStock[] = [
-  { symbol: 'BBCA', name: 'Bank Central Asia', sector: 'Finance', price: 10050, change: -50, changePercent: -0.50, volume: 12500000, marketCap: 1250000000000000, peRatio: 22.5, pbRatio: 4.5, eps: 447, dividend: 1.1, rsi: 52, ma20: 10100, ma50: 10200, high52w: 10825, low52w: 8675 },
-  { symbol: 'BBRI', name: 'Bank Rakyat Indonesia', sector: 'Finance', price: 4640, change: -54, changePercent: -1.14, volume: 85000000, marketCap: 700000000000000, peRatio: 11.2, pbRatio: 2.0, eps: 414, dividend: 4.2, rsi: 38, ma20: 4780, ma50: 4900, high52w: 5725, low52w: 4560 },
-  { symbol: 'TLKM', name: 'Telkom Indonesia', sector: 'Telecom', price: 2680, change: -40, changePercent: -1.47, volume: 45000000, marketCap: 265000000000000, peRatio: 12.8, pbRatio: 2.2, eps: 209, dividend: 5.5, rsi: 35, ma20: 2750, ma50: 2850, high52w: 4310, low52w: 2650 },
-  { symbol: 'ASII', name: 'Astra International', sector: 'Consumer', price: 4660, change: -60, changePercent: -1.27, volume: 22000000, marketCap: 189000000000000, peRatio: 7.8, pbRatio: 1.1, eps: 598, dividend: 6.2, rsi: 42, ma20: 4750, ma50: 4850, high52w: 5650, low52w: 4500 },
-  { symbol: 'UNVR', name: 'Unilever Indonesia', sector: 'Consumer', price: 1760, change: -10, changePercent: -0.56, volume: 8500000, marketCap: 67000000000000, peRatio: 15.2, pbRatio: 8.5, eps: 116, dividend: 5.8, rsi: 28, ma20: 1820, ma50: 1900, high52w: 3600, low52w: 1730 },
-  { symbol: 'BMRI', name: 'Bank Mandiri', sector: 'Finance', price: 6500, change: -100, changePercent: -1.52, volume: 28000000, marketCap: 605000000000000, peRatio: 9.8, pbRatio: 1.7, eps: 663, dividend: 4.8, rsi: 45, ma20: 6650, ma50: 6750, high52w: 7575, low52w: 5600 },
-  { symbol: 'ICBP', name: 'Indofood CBP', sector: 'Consumer', price: 10475, change: -100, changePercent: -0.95, volume: 3800000, marketCap: 122000000000000, peRatio: 16.5, pbRatio: 2.8, eps: 635, dividend: 2.5, rsi: 42, ma20: 10600, ma50: 10800, high52w: 12550, low52w: 9100 },
-  { symbol: 'GGRM', name: 'Gudang Garam', sector: 'Consumer', price: 15975, change: -400, changePercent: -2.43, volume: 1200000, marketCap: 31000000000000, peRatio: 10.2, pbRatio: 0.9, eps: 1566, dividend: 4.5, rsi: 32, ma20: 16500, ma50: 17200, high52w: 25775, low52w: 15400 },
-  { symbol: 'HMSP', name: 'HM Sampoerna', sector: 'Consumer', price: 665, change: -10, changePercent: -1.48, volume: 18000000, marketCap: 78000000000000, peRatio: 10.5, pbRatio: 3.2, eps: 63, dividend: 7.8, rsi: 34, ma20: 695, ma50: 720, high52w: 945, low52w: 640 },
-  { symbol: 'KLBF', name: 'Kalbe Farma', sector: 'Healthcare', price: 1420, change: -10, changePercent: -0.70, volume: 15000000, marketCap: 66000000000000, peRatio: 18.5, pbRatio: 2.8, eps: 77, dividend: 3.2, rsi: 38, ma20: 1470, ma50: 1520, high52w: 1735, low52w: 1400 },
-  { symbol: 'INDF', name: 'Indofood Sukses', sector: 'Consumer', price: 6425, change: -50, changePercent: -0.77, volume: 5200000, marketCap: 56000000000000, peRatio: 6.8, pbRatio: 0.85, eps: 945, dividend: 5.2, rsi: 45, ma20: 6500, ma50: 6650, high52w: 7450, low52w: 5925 },
-  { symbol: 'SMGR', name: 'Semen Indonesia', sector: 'Materials', price: 3680, change: -45, changePercent: -1.21, volume: 9500000, marketCap: 22000000000000, peRatio: 15.5, pbRatio: 0.75, eps: 237, dividend: 4.0, rsi: 40, ma20: 3750, ma50: 3850, high52w: 5075, low52w: 3500 },
-  { symbol: 'PTBA', name: 'Bukit Asam', sector: 'Energy', price: 2480, change: -40, changePercent: -1.58, volume: 11000000, marketCap: 28000000000000, peRatio: 5.2, pbRatio: 1.1, eps: 477, dividend: 9.2, rsi: 42, ma20: 2550, ma50: 2650, high52w: 3150, low52w: 2280 },
-  { symbol: 'ADRO', name: 'Adaro Energy', sector: 'Energy', price: 2520, change: -20, changePercent: -0.79, volume: 42000000, marketCap: 78000000000000, peRatio: 4.5, pbRatio: 0.95, eps: 560, dividend: 8.5, rsi: 48, ma20: 2580, ma50: 2650, high52w: 3180, low52w: 2310 },
-  { symbol: 'ANTM', name: 'Aneka Tambang', sector: 'Materials', price: 1290, change: -40, changePercent: -3.00, volume: 55000000, marketCap: 31000000000000, peRatio: 7.8, pbRatio: 1.0, eps: 165, dividend: 3.5, rsi: 35, ma20: 1350, ma50: 1420, high52w: 1940, low52w: 1260 },
-  { symbol: 'INCO', name: 'Vale Indonesia', sector: 'Materials', price: 4800, change: 80, changePercent: 1.69, volume: 8200000, marketCap: 47000000000000, peRatio: 11.2, pbRatio: 1.35, eps: 429, dividend: 3.8, rsi: 55, ma20: 4720, ma50: 4650, high52w: 5625, low52w: 4100 },
-  { symbol: 'EXCL', name: 'XL Axiata', sector: 'Telecom', price: 2160, change: -20, changePercent: -0.92, volume: 14000000, marketCap: 27000000000000, peRatio: 25.5, pbRatio: 1.65, eps: 85, dividend: 0, rsi: 40, ma20: 2220, ma50: 2280, high52w: 2530, low52w: 1915 },
-  { symbol: 'PGAS', name: 'Perusahaan Gas Negara', sector: 'Energy', price: 1180, change: -15, changePercent: -1.25, volume: 22000000, marketCap: 28500000000000, peRatio: 6.2, pbRatio: 0.65, eps: 190, dividend: 6.2, rsi: 38, ma20: 1220, ma50: 1260, high52w: 1595, low52w: 1115 },
-  { symbol: 'JSMR', name: 'Jasa Marga', sector: 'Infrastructure', price: 4280, change: 30, changePercent: 0.71, volume: 6500000, marketCap: 31000000000000, peRatio: 14.2, pbRatio: 1.45, eps: 301, dividend: 2.2, rsi: 52, ma20: 4250, ma50: 4320, high52w: 5150, low52w: 3900 },
-  { symbol: 'BBNI', name: 'Bank Negara Indonesia', sector: 'Finance', price: 4950, change: -40, changePercent: -0.80, volume: 19000000, marketCap: 92000000000000, peRatio: 7.8, pbRatio: 1.15, eps: 635, dividend: 4.8, rsi: 44, ma20: 5020, ma50: 5150, high52w: 5925, low52w: 4600 },
-  { symbol: 'ACES', name: 'Ace Hardware', sector: 'Retail', price: 600, change: -10, changePercent: -1.64, volume: 11000000, marketCap: 10300000000000, peRatio: 14.2, pbRatio: 2.2, eps: 42, dividend: 2.8, rsi: 38, ma20: 625, ma50: 650, high52w: 815, low52w: 580 },
-  { symbol: 'ERAA', name: 'Erajaya Swasembada', sector: 'Retail', price: 394, change: -12, changePercent: -2.96, volume: 28000000, marketCap: 12500000000000, peRatio: 6.5, pbRatio: 1.25, eps: 61, dividend: 4.2, rsi: 32, ma20: 420, ma50: 450, high52w: 566, low52w: 386 },
-  { symbol: 'MNCN', name: 'Media Nusantara Citra', sector: 'Media', price: 298, change: -8, changePercent: -2.61, volume: 35000000, marketCap: 4200000000000, peRatio: 4.2, pbRatio: 0.35, eps: 71, dividend: 5.5, rsi: 28, ma20: 315, ma50: 340, high52w: 730, low52w: 290 },
-  { symbol: 'CPIN', name: 'Charoen Pokphand', sector: 'Consumer', price: 4960, change: -40, changePercent: -0.80, volume: 5500000, marketCap: 81000000000000, peRatio: 16.8, pbRatio: 3.5, eps: 295, dividend: 1.8, rsi: 45, ma20: 5020, ma50: 5100, high52w: 5775, low52w: 4200 },
-  { symbol: 'TOWR', name: 'Sarana Menara', sector: 'Infrastructure', price: 755, change: -5, changePercent: -0.66, volume: 42000000, marketCap: 38500000000000, peRatio: 28.5, pbRatio: 4.5, eps: 26, dividend: 1.5, rsi: 35, ma20: 780, ma50: 820, high52w: 1155, low52w: 740 },
-  { symbol: 'GOTO', name: 'GoTo Gojek Tokopedia', sector: 'Tech', price: 65, change: -1, changePercent: -1.52, volume: 450000000, marketCap: 76000000000000, peRatio: -1, pbRatio: 0.75, eps: -5, dividend: 0, rsi: 32, ma20: 68, ma50: 72, high52w: 112, low52w: 52 },
-  { symbol: 'EMTK', name: 'Elang Mahkota', sector: 'Tech', price: 394, change: -16, changePercent: -3.90, volume: 8500000, marketCap: 21500000000000, peRatio: 8.5, pbRatio: 0.85, eps: 46, dividend: 0, rsi: 28, ma20: 425, ma50: 465, high52w: 665, low52w: 386 },
-];
-
-const SECTORS = ['All', 'Finance', 'Consumer', 'Telecom', 'Energy', 'Materials', 'Healthcare', 'Infrastructure', 'Retail', 'Media'];
-
 const PRESET_FILTERS = [
   { name: 'Value Stocks', icon: '💎', filters: { peMax: 15, pbMax: 1.5, dividendMin: 3 } },
   { name: 'Growth Stocks', icon: '🚀', filters: { changeMin: 1, rsiMin: 50, aboveMA20: true } },
@@ -92,6 +75,8 @@ const PRESET_FILTERS = [
   { name: 'Penny Stocks', icon: '🪙', filters: { priceMax: 500 } },
 ];
 
+const DEFAULT_EXPRESSION = 'rsi14 < 30 and close > sma200 and volume > 2 * avg(volume, 20)';
+
 const defaultFilters: FilterCriteria = {
   sector: 'All',
   priceMin: '',
@@ -113,11 +98,159 @@ const defaultFilters: FilterCriteria = {
   near52wLow: false,
 };
 
-const StockScreener: React.FC<StockScreenerProps> = ({ isOpen, onClose, onSelectStock }) => {
+// Filter min/max; nilai null (data belum tersedia) tidak lolos filter yang aktif
+const isOutside = (value: number | null, min: number | '', max: number | '' = ''): boolean => {
+  if (min === '' && max === '') return false;
+  if (value === null) return true;
+  return (min !== '' && value < min) || (max !== '' && value > max);
+};
+
+const StockScreener: React.FC<StockScreenerProps> = ({
+  isOpen,
+  onClose,
+  onSelectStock,
+  watchlistSymbols = [],
+  onAddToWatchlist,
+}) => {
   const [filters, setFilters] = useState<FilterCriteria>(defaultFilters);
   const [sortBy, setSortBy] = useState<keyof ScreenerStock>('marketCap');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
-  const [activeTab, setActiveTab] = useState<'screener' | 'presets'>('screener');
+  const [activeTab, setActiveTab] = useState<'screener' | 'expression' | 'presets'>('screener');
+  const [stocks, setStocks] = useState<ScreenerStock[]>([]);
+  const [universe, setUniverse] = useState<UniverseFile | null>(null);
+  const [progress, setProgress] = useState<ScreenerProgress | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Custom screen (ekspresi)
+  const [expression, setExpression] = useState(DEFAULT_EXPRESSION);
+  const [expressionMatches, setExpressionMatches] = useState<Set<string> | null>(null);
+  const [newMatches, setNewMatches] = useState<string[]>([]);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [savedScreens, setSavedScreens] = useState<SavedScreen[]>([]);
+  const [activeScreenId, setActiveScreenId] = useState<string | null>(null);
+  const [screenName, setScreenName] = useState('');
+  const [screenSchedule, setScreenSchedule] = useState<ScreenSchedule>('off');
+  const [screenNotify, setScreenNotify] = useState(true);
+  const [screenError, setScreenError] = useState<string | null>(null);
+  const evalAbortRef = useRef<AbortController | null>(null);
+
+  // Hasil: pilih untuk dibandingkan, ekspor, tambah ke watchlist
+  const [selectedSymbols, setSelectedSymbols] = useState<string[]>([]);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [watchlistMessage, setWatchlistMessage] = useState<string | null>(null);
+
+  const parsedExpression = useMemo(() => parseScreenerExpression(expression), [expression]);
+  const activeScreen = savedScreens.find(screen => screen.id === activeScreenId) || null;
+
+  // Refresh inkremental: hanya emiten yang datanya belum mencerminkan sesi terakhir
+  const runRefresh = async (force: boolean = false, reloadUniverse: boolean = false) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRefreshing(true);
+    setRefreshError(null);
+    try {
+      if (reloadUniverse) await loadUniverse(true);
+      const result = await refreshScreener({
+        force,
+        signal: controller.signal,
+        onProgress: setProgress,
+        onRows: rows => !controller.signal.aborted && setStocks(rows),
+      });
+      if (!controller.signal.aborted) setUniverse(result.universe);
+    } catch (error) {
+      setRefreshError(error instanceof Error ? error.message : String(error));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsRefreshing(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadScreenerRows().then(rows => rows.length > 0 && setStocks(rows));
+    setSavedScreens(loadSavedScreens());
+    runRefresh();
+    return () => {
+      abortRef.current?.abort();
+      evalAbortRef.current?.abort();
+    };
+  }, [isOpen]);
+
+  // Jalankan ekspresi; screen tersimpan yang belum diubah dijalankan lewat service agar baseline-nya tercatat
+  const runExpression = async () => {
+    if (!parsedExpression.ast) return;
+    evalAbortRef.current?.abort();
+    const controller = new AbortController();
+    evalAbortRef.current = controller;
+    setIsEvaluating(true);
+    setScreenError(null);
+    try {
+      if (activeScreen && activeScreen.expression === expression.trim()) {
+        const result = await runSavedScreen(activeScreen, { signal: controller.signal, onProgress: setProgress });
+        setExpressionMatches(new Set(result.matches.map(row => row.symbol)));
+        setNewMatches(result.newSymbols);
+        setSavedScreens(loadSavedScreens());
+      } else {
+        const matches = await filterScreenerRows(parsedExpression, stocks, { signal: controller.signal, onProgress: setProgress });
+        if (!controller.signal.aborted) setExpressionMatches(new Set(matches.map(row => row.symbol)));
+        setNewMatches([]);
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) setScreenError(error instanceof Error ? error.message : String(error));
+    } finally {
+      if (evalAbortRef.current === controller) {
+        evalAbortRef.current = null;
+        setIsEvaluating(false);
+      }
+    }
+  };
+
+  const handleSaveScreen = () => {
+    try {
+      const screen = saveScreen({
+        id: activeScreenId || undefined,
+        name: screenName,
+        expression,
+        schedule: screenSchedule,
+        notify: screenNotify,
+      });
+      setActiveScreenId(screen.id);
+      setSavedScreens(loadSavedScreens());
+      setScreenError(null);
+    } catch (error) {
+      setScreenError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const openScreen = (screen: SavedScreen | null) => {
+    setActiveScreenId(screen?.id || null);
+    setScreenName(screen?.name || '');
+    setExpression(screen?.expression || DEFAULT_EXPRESSION);
+    setScreenSchedule(screen?.schedule || 'off');
+    setScreenNotify(screen?.notify ?? true);
+    setExpressionMatches(screen?.lastMatches ? new Set(screen.lastMatches) : null);
+    setNewMatches([]);
+    setScreenError(null);
+  };
+
+  const handleDeleteScreen = (screenId: string) => {
+    deleteSavedScreen(screenId);
+    setSavedScreens(loadSavedScreens());
+    if (screenId === activeScreenId) openScreen(null);
+  };
+
+  const sectors = useMemo(
+    () => ['All', ...[...new Set(stocks.map(s => s.sector))].sort()],
+    [stocks]
+  );
+
+  const lastUpdated = useMemo(() => stocks.reduce((latest, s) => Math.max(latest, s.computedAt), 0), [stocks]);
 
   // Apply preset filter
   const applyPreset = (presetFilters: Partial<FilterCriteria>) => {
@@ -132,42 +265,22 @@ const StockScreener: React.FC<StockScreenerProps> = ({ isOpen, onClose, onSelect
 
   // Filter and sort stocks
   const filteredStocks = useMemo(() => {
-    let result = SCREENER_DATA.filter(stock => {
+    let result = activeTab === 'expression' ? stocks.filter(stock => expressionMatches?.has(stock.symbol)) : stocks.filter(stock => {
       // Sector filter
       if (filters.sector !== 'All' && stock.sector !== filters.sector) return false;
       
-      // Price filter
-      if (filters.priceMin !== '' && stock.price < filters.priceMin) return false;
-      if (filters.priceMax !== '' && stock.price > filters.priceMax) return false;
-      
-      // Volume filter
-      if (filters.volumeMin !== '' && stock.volume < filters.volumeMin) return false;
-      
-      // PE Ratio filter
-      if (filters.peMin !== '' && stock.peRatio < filters.peMin) return false;
-      if (filters.peMax !== '' && stock.peRatio > filters.peMax) return false;
-      
-      // PB Ratio filter
-      if (filters.pbMin !== '' && stock.pbRatio < filters.pbMin) return false;
-      if (filters.pbMax !== '' && stock.pbRatio > filters.pbMax) return false;
-      
-      // RSI filter
-      if (filters.rsiMin !== '' && stock.rsi < filters.rsiMin) return false;
-      if (filters.rsiMax !== '' && stock.rsi > filters.rsiMax) return false;
-      
-      // Change filter
-      if (filters.changeMin !== '' && stock.changePercent < filters.changeMin) return false;
-      if (filters.changeMax !== '' && stock.changePercent > filters.changeMax) return false;
-      
-      // Market Cap filter
-      if (filters.marketCapMin !== '' && stock.marketCap < filters.marketCapMin) return false;
-      
-      // Dividend filter
-      if (filters.dividendMin !== '' && stock.dividend < filters.dividendMin) return false;
+      if (isOutside(stock.price, filters.priceMin, filters.priceMax)) return false;
+      if (isOutside(stock.volume, filters.volumeMin)) return false;
+      if (isOutside(stock.peRatio, filters.peMin, filters.peMax)) return false;
+      if (isOutside(stock.pbRatio, filters.pbMin, filters.pbMax)) return false;
+      if (isOutside(stock.rsi, filters.rsiMin, filters.rsiMax)) return false;
+      if (isOutside(stock.changePercent, filters.changeMin, filters.changeMax)) return false;
+      if (isOutside(stock.marketCap, filters.marketCapMin)) return false;
+      if (isOutside(stock.dividend, filters.dividendMin)) return false;
       
       // MA filters
-      if (filters.aboveMA20 && stock.price < stock.ma20) return false;
-      if (filters.aboveMA50 && stock.price < stock.ma50) return false;
+      if (filters.aboveMA20 && (stock.ma20 === null || stock.price < stock.ma20)) return false;
+      if (filters.aboveMA50 && (stock.ma50 === null || stock.price < stock.ma50)) return false;
       
       // 52W filters
       if (filters.near52wHigh && stock.price < stock.high52w * 0.95) return false;
@@ -183,11 +296,52 @@ const StockScreener: React.FC<StockScreenerProps> = ({ isOpen, onClose, onSelect
       if (typeof aVal === 'number' && typeof bVal === 'number') {
         return sortOrder === 'asc' ? aVal - bVal : bVal - aVal;
       }
+      if (typeof aVal === 'string' && typeof bVal === 'string') {
+        return sortOrder === 'asc' ? aVal.localeCompare(bVal) : bVal.localeCompare(aVal);
+      }
+      // Data kosong selalu di bawah
+      if (aVal === null && bVal !== null) return 1;
+      if (bVal === null && aVal !== null) return -1;
       return 0;
     });
 
     return result;
-  }, [filters, sortBy, sortOrder]);
+  }, [stocks, filters, sortBy, sortOrder, activeTab, expressionMatches]);
+
+  // Emiten tanpa fundamental tidak pernah lolos filter PE/PB/M.Cap/Dividen; jumlahnya ditampilkan
+  const isFundamentalFilterActive = activeTab !== 'expression' && [
+    filters.peMin, filters.peMax, filters.pbMin, filters.pbMax, filters.marketCapMin, filters.dividendMin,
+  ].some(value => value !== '');
+  const missingFundamentalsCount = useMemo(
+    () => stocks.filter(stock => !stock.fundamentalsAsOf).length,
+    [stocks]
+  );
+
+  const toggleSelected = (symbol: string) => {
+    setSelectedSymbols(prev => prev.includes(symbol)
+      ? prev.filter(s => s !== symbol)
+      : prev.length < MAX_COMPARE_STOCKS ? [...prev, symbol] : prev);
+  };
+
+  const compareStocks = selectedSymbols
+    .map(symbol => stocks.find(stock => stock.symbol === symbol))
+    .filter((stock): stock is ScreenerStock => !!stock);
+
+  const handleAddAllToWatchlist = () => {
+    if (!onAddToWatchlist) return;
+    const symbols = filteredStocks.map(stock => stock.symbol).filter(symbol => !watchlistSymbols.includes(symbol));
+    if (symbols.length === 0) {
+      setWatchlistMessage('Semua hasil sudah ada di watchlist');
+    } else {
+      const result = onAddToWatchlist(symbols);
+      if (!result) return;
+      setWatchlistMessage(
+        `${result.added.length} saham ditambahkan ke watchlist` +
+        (result.skipped > 0 ? `, ${result.skipped} tidak ditambahkan karena batas watchlist paket Anda` : '')
+      );
+    }
+    setTimeout(() => setWatchlistMessage(null), 5000);
+  };
 
   const handleSort = (column: keyof ScreenerStock) => {
     if (sortBy === column) {
@@ -198,7 +352,8 @@ const StockScreener: React.FC<StockScreenerProps> = ({ isOpen, onClose, onSelect
     }
   };
 
-  const formatMarketCap = (value: number) => {
+  const formatMarketCap = (value: number | null) => {
+    if (value === null) return '-';
     if (value >= 1000000000000000) return (value / 1000000000000000).toFixed(1) + ' Q';
     if (value >= 1000000000000) return (value / 1000000000000).toFixed(1) + ' T';
     if (value >= 1000000000) return (value / 1000000000).toFixed(1) + ' B';
@@ -259,18 +414,65 @@ const StockScreener: React.FC<StockScreenerProps> = ({ isOpen, onClose, onSelect
                 )}
               </h2>
               <p className="text-slate-400 text-sm">
-                Filter {filteredStocks.length} saham dari {SCREENER_DATA.length} total
+                Filter {filteredStocks.length} saham dari {stocks.length} total
+                {universe && stocks.length < universe.companies.length && ` (universe ${universe.companies.length} emiten)`}
               </p>
             </div>
           </div>
-          <button
-            onClick={onClose}
-            className="w-10 h-10 rounded-xl bg-slate-800/50 hover:bg-slate-700 flex items-center justify-center text-slate-400 hover:text-white transition-colors"
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => isRefreshing ? abortRef.current?.abort() : runRefresh()}
+              className="px-3 py-2 rounded-xl bg-slate-800/50 hover:bg-slate-700 text-slate-300 hover:text-white text-sm flex items-center gap-1 transition-colors"
+              title={isRefreshing ? 'Hentikan refresh' : 'Perbarui data yang sudah usang'}
+            >
+              <span className={`material-icons text-sm ${isRefreshing ? 'animate-spin' : ''}`}>{isRefreshing ? 'sync' : 'refresh'}</span>
+              {isRefreshing ? 'Stop' : 'Refresh'}
+            </button>
+            <button
+              onClick={onClose}
+              className="w-10 h-10 rounded-xl bg-slate-800/50 hover:bg-slate-700 flex items-center justify-center text-slate-400 hover:text-white transition-colors"
           >
-            <span className="material-icons">close</span>
-          </button>
+              <span className="material-icons">close</span>
+            </button>
+          </div>
         </div>
 
+        {/* Refresh Progress */}
+        {(isRefreshing || isEvaluating) && progress && progress.total > 0 && (
+          <div className="px-5 pt-3">
+            <div className="flex items-center justify-between text-xs text-slate-400 mb-1">
+              <span>
+                {isEvaluating ? 'Mengevaluasi screen' : 'Menghitung data terbaru'} {progress.done}/{progress.total}
+                {progress.current && <span className="text-slate-500"> · {progress.current}</span>}
+              </span>
+              {progress.failed > 0 && <span className="text-amber-400">{progress.failed} gagal</span>}
+            </div>
+            <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-amber-500 transition-all"
+                style={{ width: `${(progress.done / progress.total) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {refreshError && (
+          <div className="mx-5 mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-xs text-red-400 flex items-center gap-2">
+            <span className="material-icons text-sm">error_outline</span>
+            Gagal memuat data screener: {refreshError}
+          </div>
+        )}
+        {universe && isUniversePartial(universe) && (
+          <div className="mx-5 mt-3 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-xs text-amber-400 flex items-start gap-2">
+            <span className="material-icons text-sm">warning_amber</span>
+            <span>
+              Data emiten ({universe.updatedAt}) baru mencakup {universe.companies.length} dari ±{IDX_LISTED_COMPANIES_APPROX} emiten
+              tercatat BEI, dan hanya {countWithFundamentals(universe)} yang punya data fundamental. Hasil screener,
+              filter PE/PB/M.Cap/Dividen serta median sektor di Valuasi hanya memakai emiten tersebut.
+              Perbarui data file dengan <code className="font-mono">npm run universe:update</code>.
+            </span>
+          </div>
+        )}
+
         {/* Tabs */}
         <div className="px-5 pt-4 flex gap-2">
           <button
@@ -284,6 +486,20 @@ const StockScreener: React.FC<StockScreenerProps> = ({ isOpen, onClose, onSelect
             <span className="material-icons text-sm mr-1 align-middle">tune</span>
             Custom Filter
           </button>
+          <button
+            onClick={() => setActiveTab('expression')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+              activeTab === 'expression'
+                ? 'bg-amber-500/20 text-amber-400 border border-amber-500/30'
+                : 'text-slate-400 hover:text-white hover:bg-slate-800/50'
+            }`}
+          >
+            <span className="material-icons text-sm mr-1 align-middle">code</span>
+            Ekspresi
+            {savedScreens.length > 0 && (
+              <span className="ml-1 text-[10px] px-1.5 py-0.5 bg-slate-700/50 rounded-full">{savedScreens.length}</span>
+            )}
+          </button>
           <button
             onClick={() => setActiveTab('presets')}
             className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
@@ -317,7 +533,172 @@ const StockScreener: React.FC<StockScreenerProps> = ({ isOpen, onClose, onSelect
             </div>
           ) : (
             <>
-              {/* Filters */}
+              {activeTab === 'expression' ? (
+              /* Expression Editor & Saved Screens */
+              <div className="p-5 border-b border-slate-700/50 grid md:grid-cols-3 gap-4">
+                <div className="md:col-span-2 space-y-3">
+                  <div>
+                    <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Ekspresi Screen</label>
+                    <textarea
+                      value={expression}
+                      onChange={(e) => setExpression(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) runExpression();
+                      }}
+                      rows={2}
+                      spellCheck={false}
+                      className={`w-full bg-slate-800/50 border rounded-lg px-3 py-2 text-sm text-white font-mono outline-none resize-none ${
+                        parsedExpression.errors.length > 0 && expression.trim()
+                          ? 'border-red-500/50 focus:border-red-500/70'
+                          : 'border-slate-700/50 focus:border-amber-500/50'
+                      }`}
+                    />
+                    {expression.trim() && <ExpressionErrors source={expression} errors={parsedExpression.errors} />}
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    <button
+                      onClick={() => isEvaluating ? evalAbortRef.current?.abort() : runExpression()}
+                      disabled={!parsedExpression.ast && !isEvaluating}
+                      className="px-4 py-2 bg-amber-500/20 hover:bg-amber-500/30 text-amber-400 rounded-lg text-sm font-medium transition-all flex items-center gap-1 disabled:opacity-50"
+                      title="Ctrl+Enter"
+                    >
+                      <span className={`material-icons text-sm ${isEvaluating ? 'animate-spin' : ''}`}>{isEvaluating ? 'sync' : 'play_arrow'}</span>
+                      {isEvaluating ? 'Stop' : 'Jalankan'}
+                    </button>
+                    {parsedExpression.needsHistory && (
+                      <span className="text-[10px] text-slate-500">Memakai histori harian, evaluasi bisa lebih lama</span>
+                    )}
+                    {expressionMatches && !isEvaluating && (
+                      <span className="text-xs text-slate-400">{expressionMatches.size} saham lolos</span>
+                    )}
+                    {newMatches.length > 0 && (
+                      <span className="text-xs text-emerald-400">
+                        Baru sejak run sebelumnya: {newMatches.join(', ')}
+                      </span>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end">
+                    <div className="col-span-2">
+                      <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Nama Screen</label>
+                      <input
+                        type="text"
+                        value={screenName}
+                        onChange={(e) => setScreenName(e.target.value)}
+                        placeholder="mis. Oversold di atas MA200"
+                        className="w-full bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500/50 outline-none"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold mb-1 block">Jadwal</label>
+                      <select
+                        value={screenSchedule}
+                        onChange={(e) => setScreenSchedule(e.target.value as ScreenSchedule)}
+                        className="w-full bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500/50 outline-none"
+                      >
+                        {(Object.keys(SCREEN_SCHEDULE_LABELS) as ScreenSchedule[]).map(schedule => (
+                          <option key={schedule} value={schedule}>{SCREEN_SCHEDULE_LABELS[schedule]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="flex items-center gap-1 cursor-pointer" title="Notifikasi saat ada saham baru yang lolos">
+                        <input
+                          type="checkbox"
+                          checked={screenNotify}
+                          onChange={(e) => setScreenNotify(e.target.checked)}
+                          className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-amber-500"
+                        />
+                        <span className="material-icons text-sm text-slate-400">notifications</span>
+                      </label>
+                      <button
+                        onClick={handleSaveScreen}
+                        disabled={!parsedExpression.ast}
+                        className="flex-1 px-3 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg text-sm transition-colors flex items-center justify-center gap-1 disabled:opacity-50"
+                      >
+                        <span className="material-icons text-sm">save</span>
+                        {activeScreenId ? 'Perbarui' : 'Simpan'}
+                      </button>
+                    </div>
+                  </div>
+
+                  {screenError && (
+                    <div className="p-2 bg-red-500/10 border border-red-500/30 rounded-lg text-xs text-red-400 flex items-center gap-2">
+                      <span className="material-icons text-sm">error_outline</span>
+                      {screenError}
+                    </div>
+                  )}
+
+                  <details className="text-[11px] text-slate-500">
+                    <summary className="cursor-pointer hover:text-slate-300">Field & fungsi yang tersedia</summary>
+                    <p className="mt-2">
+                      <span className="text-slate-400">Field:</span> {EXPRESSION_FIELDS.join(', ')}, open, high, low, sma&lt;n&gt;, ema&lt;n&gt;, rsi&lt;n&gt;
+                    </p>
+                    <p className="mt-1"><span className="text-slate-400">Operator:</span> and, or, not, &lt; &lt;= &gt; &gt;= == !=, + - * /, ( )</p>
+                    <ul className="mt-1 space-y-0.5">
+                      {Object.entries(EXPRESSION_FUNCTIONS).map(([name, spec]) => (
+                        <li key={name}><span className="font-mono text-slate-400">{name}()</span> — {spec.description}</li>
+                      ))}
+                    </ul>
+                  </details>
+                </div>
+
+                {/* Saved Screens */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-[10px] text-slate-500 uppercase font-bold">Screen Tersimpan</span>
+                    <button
+                      onClick={() => openScreen(null)}
+                      className="text-xs text-slate-400 hover:text-white flex items-center gap-0.5"
+                    >
+                      <span className="material-icons text-sm">add</span>
+                      Baru
+                    </button>
+                  </div>
+                  {savedScreens.length === 0 ? (
+                    <p className="text-xs text-slate-500 p-3 bg-slate-800/30 rounded-lg">
+                      Belum ada screen tersimpan. Simpan ekspresi dengan jadwal untuk mendapat notifikasi saat ada saham baru yang lolos.
+                    </p>
+                  ) : (
+                    <div className="space-y-1.5 max-h-56 overflow-y-auto custom-scrollbar">
+                      {savedScreens.map(screen => (
+                        <div
+                          key={screen.id}
+                          onClick={() => openScreen(screen)}
+                          className={`p-2.5 rounded-lg border cursor-pointer transition-all ${
+                            screen.id === activeScreenId
+                              ? 'bg-amber-500/10 border-amber-500/30'
+                              : 'bg-slate-800/30 border-slate-700/50 hover:border-slate-600'
+                          }`}
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="text-sm text-white font-medium truncate">{screen.name}</span>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDeleteScreen(screen.id);
+                              }}
+                              className="text-slate-500 hover:text-red-400"
+                              title="Hapus screen"
+                            >
+                              <span className="material-icons text-sm">delete</span>
+                            </button>
+                          </div>
+                          <p className="text-[10px] font-mono text-slate-500 truncate">{screen.expression}</p>
+                          <p className="text-[10px] text-slate-500 flex items-center gap-1 mt-0.5">
+                            {screen.schedule !== 'off' && screen.notify && <span className="material-icons text-[10px]">notifications_active</span>}
+                            {SCREEN_SCHEDULE_LABELS[screen.schedule]}
+                            {screen.lastRunAt && ` · ${screen.lastMatches?.length ?? 0} saham · ${new Date(screen.lastRunAt).toLocaleString('id-ID')}`}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+              ) : (
+              /* Filters */
               <div className="p-5 border-b border-slate-700/50 space-y-4">
                 {/* Row 1: Sector & Price */}
                 <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
@@ -328,7 +709,7 @@ const StockScreener: React.FC<StockScreenerProps> = ({ isOpen, onClose, onSelect
                       onChange={(e) => setFilters({ ...filters, sector: e.target.value })}
                       className="w-full bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500/50 outline-none"
                     >
-                      {SECTORS.map(s => <option key={s} value={s}>{s}</option>)}
+                      {sectors.map(s => <option key={s} value={s}>{s}</option>)}
                     </select>
                   </div>
                   <div>
@@ -510,12 +891,97 @@ const StockScreener: React.FC<StockScreenerProps> = ({ isOpen, onClose, onSelect
                   </button>
                 </div>
               </div>
+              )}
+
+              {/* Results Actions */}
+              <div className="px-5 py-2 border-b border-slate-700/50 flex flex-wrap items-center gap-2 text-xs">
+                <span className="text-slate-500">
+                  {selectedSymbols.length > 0
+                    ? `${selectedSymbols.length}/${MAX_COMPARE_STOCKS} dipilih`
+                    : `Pilih hingga ${MAX_COMPARE_STOCKS} saham untuk dibandingkan`}
+                </span>
+                {selectedSymbols.length > 0 && (
+                  <>
+                    <button
+                      onClick={() => setIsCompareOpen(true)}
+                      disabled={compareStocks.length < 2}
+                      className="px-3 py-1.5 bg-amber-500/20 hover:bg-amber-500/30 text-amber-400 rounded-lg font-medium transition-all flex items-center gap-1 disabled:opacity-50"
+                      title={compareStocks.length < 2 ? 'Pilih minimal 2 saham' : undefined}
+                    >
+                      <span className="material-icons text-sm">compare_arrows</span>
+                      Bandingkan
+                    </button>
+                    <button
+                      onClick={() => setSelectedSymbols([])}
+                      className="px-2 py-1.5 text-slate-400 hover:text-white rounded-lg transition-colors"
+                    >
+                      Batal
+                    </button>
+                  </>
+                )}
+                {watchlistMessage && <span className="text-emerald-400">{watchlistMessage}</span>}
+                {isFundamentalFilterActive && missingFundamentalsCount > 0 && (
+                  <span className="text-amber-400/80 flex items-center gap-1" title="EPS, nilai buku dan jumlah saham belum ada di data emiten">
+                    <span className="material-icons text-sm">info</span>
+                    {missingFundamentalsCount} emiten tanpa data fundamental tidak ikut filter PE/PB/M.Cap/Dividen
+                  </span>
+                )}
+
+                <div className="ml-auto flex items-center gap-2">
+                  {onAddToWatchlist && (
+                    <button
+                      onClick={handleAddAllToWatchlist}
+                      disabled={filteredStocks.length === 0}
+                      className="px-3 py-1.5 bg-slate-800/50 hover:bg-slate-700 text-slate-300 hover:text-white rounded-lg transition-colors flex items-center gap-1 disabled:opacity-50"
+                      title="Tambahkan semua hasil ke watchlist"
+                    >
+                      <span className="material-icons text-sm">playlist_add</span>
+                      Semua ke Watchlist
+                    </button>
+                  )}
+                  <div className="relative">
+                    <button
+                      onClick={() => setShowExportMenu(!showExportMenu)}
+                      disabled={filteredStocks.length === 0}
+                      className="px-3 py-1.5 bg-slate-800/50 hover:bg-slate-700 text-slate-300 hover:text-white rounded-lg transition-colors flex items-center gap-1 disabled:opacity-50"
+                    >
+                      <span className="material-icons text-sm">download</span>
+                      Export
+                    </button>
+                    {showExportMenu && (
+                      <div className="absolute right-0 mt-1 w-40 bg-[#141c2f] border border-slate-700/50 rounded-lg shadow-xl z-20 overflow-hidden">
+                        <button
+                          onClick={() => {
+                            exportScreenerCSV(filteredStocks);
+                            setShowExportMenu(false);
+                          }}
+                          className="w-full px-3 py-2 text-left text-slate-300 hover:bg-slate-800 flex items-center gap-2"
+                        >
+                          <span className="material-icons text-sm">description</span>
+                          CSV
+                        </button>
+                        <button
+                          onClick={() => {
+                            exportScreenerExcel(filteredStocks);
+                            setShowExportMenu(false);
+                          }}
+                          className="w-full px-3 py-2 text-left text-slate-300 hover:bg-slate-800 flex items-center gap-2"
+                        >
+                          <span className="material-icons text-sm">table_view</span>
+                          Excel (.xls)
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
 
               {/* Results Table */}
               <div className="flex-1 overflow-auto custom-scrollbar">
                 <table className="w-full text-sm">
                   <thead className="sticky top-0 bg-slate-800/90 backdrop-blur-sm">
                     <tr className="text-left text-[10px] text-slate-500 uppercase">
+                      <th className="pl-4 py-3 w-6"></th>
                       <th className="px-4 py-3 font-bold cursor-pointer hover:text-white" onClick={() => handleSort('symbol')}>
                         Symbol {sortBy === 'symbol' && (sortOrder === 'asc' ? '↑' : '↓')}
                       </th>
@@ -550,9 +1016,13 @@ const StockScreener: React.FC<StockScreenerProps> = ({ isOpen, onClose, onSelect
                   <tbody className="divide-y divide-slate-800/50">
                     {filteredStocks.length === 0 ? (
                       <tr>
-                        <td colSpan={11} className="px-4 py-12 text-center text-slate-500">
-                          <span className="material-icons text-4xl mb-2 block">search_off</span>
-                          Tidak ada saham yang cocok dengan filter
+                        <td colSpan={12} className="px-4 py-12 text-center text-slate-500">
+                          <span className="material-icons text-4xl mb-2 block">{stocks.length === 0 && isRefreshing ? 'hourglass_top' : 'search_off'}</span>
+                          {stocks.length === 0 && isRefreshing
+                            ? 'Memuat data screener...'
+                            : activeTab === 'expression' && !expressionMatches
+                              ? 'Jalankan ekspresi untuk melihat hasil'
+                              : 'Tidak ada saham yang cocok dengan filter'}
                         </td>
                       </tr>
                     ) : (
@@ -565,10 +1035,30 @@ const StockScreener: React.FC<StockScreenerProps> = ({ isOpen, onClose, onSelect
                             onClose();
                           }}
                         >
+                          <td className="pl-4 py-3" onClick={(e) => e.stopPropagation()}>
+                            <input
+                              type="checkbox"
+                              checked={selectedSymbols.includes(stock.symbol)}
+                              onChange={() => toggleSelected(stock.symbol)}
+                              disabled={!selectedSymbols.includes(stock.symbol) && selectedSymbols.length >= MAX_COMPARE_STOCKS}
+                              className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-amber-500 disabled:opacity-30"
+                            />
+                          </td>
                           <td className="px-4 py-3">
                             <div>
                               <span className="font-bold text-white">{stock.symbol}</span>
+                              {watchlistSymbols.includes(stock.symbol) && (
+                                <span className="material-icons text-[12px] text-amber-400 ml-1 align-middle" title="Ada di watchlist">star</span>
+                              )}
                               <span className="block text-[10px] text-slate-500 truncate max-w-[120px]">{stock.name}</span>
+                              {!stock.fundamentalsAsOf && (
+                                <span
+                                  className="inline-block mt-0.5 px-1.5 py-px bg-slate-700/50 text-slate-500 text-[9px] rounded"
+                                  title="EPS, nilai buku dan jumlah saham belum ada di data emiten; PE/PB/M.Cap/Div kosong"
+                                >
+                                  tanpa fundamental
+                                </span>
+                              )}
                             </div>
                           </td>
                           <td className="px-4 py-3">
@@ -587,21 +1077,22 @@ const StockScreener: React.FC<StockScreenerProps> = ({ isOpen, onClose, onSelect
                             {formatMarketCap(stock.marketCap)}
                           </td>
                           <td className="px-4 py-3 text-right font-mono text-slate-300">
-                            {stock.peRatio.toFixed(1)}
+                            {stock.peRatio !== null ? stock.peRatio.toFixed(1) : '-'}
                           </td>
                           <td className="px-4 py-3 text-right font-mono text-slate-300">
-                            {stock.pbRatio.toFixed(1)}
+                            {stock.pbRatio !== null ? stock.pbRatio.toFixed(1) : '-'}
                           </td>
-                          <td className={`px-4 py-3 text-right font-mono ${stock.dividend >= 4 ? 'text-amber-400' : 'text-slate-400'}`}>
-                            {stock.dividend.toFixed(1)}%
+                          <td className={`px-4 py-3 text-right font-mono ${(stock.dividend ?? 0) >= 4 ? 'text-amber-400' : 'text-slate-400'}`}>
+                            {stock.dividend !== null ? `${stock.dividend.toFixed(1)}%` : '-'}
                           </td>
                           <td className="px-4 py-3 text-right">
                             <span className={`px-2 py-0.5 rounded text-xs font-mono ${
+                              stock.rsi === null ? 'bg-slate-700/50 text-slate-500' :
                               stock.rsi >= 70 ? 'bg-red-500/20 text-red-400' :
                               stock.rsi <= 30 ? 'bg-emerald-500/20 text-emerald-400' :
                               'bg-slate-700/50 text-slate-400'
                             }`}>
-                              {stock.rsi}
+                              {stock.rsi ?? '-'}
                             </span>
                           </td>
                           <td className="px-4 py-3 text-center">
@@ -631,11 +1122,71 @@ const StockScreener: React.FC<StockScreenerProps> = ({ isOpen, onClose, onSelect
           <span className="text-xs text-slate-500">
             💡 Tip: Klik header kolom untuk sorting
           </span>
-          <span className="text-xs text-slate-500">
-            Data terakhir diperbarui: {new Date().toLocaleString('id-ID')}
+          <span className="text-xs text-slate-500 flex items-center gap-2">
+            {universe && (
+              <button
+                onClick={() => runRefresh(false, true)}
+                disabled={isRefreshing}
+                className="flex items-center gap-1 hover:text-slate-300 disabled:opacity-50 transition-colors"
+                title="Unduh ulang daftar emiten & data fundamental"
+              >
+                <span className="material-icons text-xs">cloud_sync</span>
+                Data emiten {universe.updatedAt}
+              </button>
+            )}
+            {universe && (
+              <>
+                <span>·</span>
+                {universe.companies.length} emiten, {countWithFundamentals(universe)} dengan fundamental
+              </>
+            )}
+            <span>·</span>
+            Data terakhir diperbarui: {lastUpdated ? new Date(lastUpdated).toLocaleString('id-ID') : '-'}
           </span>
         </div>
       </div>
+
+      <StockCompareModal
+        isOpen={isCompareOpen}
+        onClose={() => setIsCompareOpen(false)}
+        stocks={compareStocks}
+        onSelectStock={(symbol) => {
+          onSelectStock(symbol);
+          onClose();
+        }}
+      />
+    </div>
+  );
+};
+
+// Expression Errors Component
+const ExpressionErrors: React.FC<{ source: string; errors: ExpressionError[] }> = ({ source, errors }) => {
+  if (errors.length === 0) {
+    return (
+      <p className="mt-1 text-[11px] text-emerald-400 flex items-center gap-1">
+        <span className="material-icons text-xs">check_circle</span>
+        Ekspresi valid
+      </p>
+    );
+  }
+
+  // Tandai posisi error pertama di ekspresi; error di akhir teks ditandai dengan satu spasi
+  const { start, end } = errors[0];
+  return (
+    <div className="mt-1 space-y-1">
+      <p className="text-[11px] font-mono text-slate-400 whitespace-pre-wrap break-all">
+        {source.slice(0, start)}
+        <mark className="bg-red-500/30 text-red-300 rounded-sm underline decoration-wavy decoration-red-400">
+          {source.slice(start, Math.max(end, start + 1)) || ' '}
+        </mark>
+        {source.slice(Math.max(end, start + 1))}
+      </p>
+      {errors.map((error, i) => (
+        <p key={i} className="text-[11px] text-red-400 flex items-center gap-1">
+          <span className="material-icons text-xs">error_outline</span>
+          Kolom {error.start + 1}: {error.message}
+        </p>
+      ))}
     </div>
   );
 };
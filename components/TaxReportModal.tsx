@@ -0,0 +1,277 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { formatCurrency, getPortfolio, setFeeProfile } from '../services/portfolioService';
+import {
+  FeeProfileId,
+  FeeSchedule,
+  getFeeProfiles,
+  saveCustomFeeProfile,
+  calculateTradeFees,
+  DEFAULT_FEE_PROFILE_ID,
+} from '../services/feeService';
+import { getTaxReportYears, buildAnnualTaxReport, exportTaxReportCSV } from '../services/taxReportService';
+
+interface TaxReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  portfolioId?: string;
+  onFeeProfileChange?: () => void;
+}
+
+const SCHEDULE_FIELDS: { key: keyof FeeSchedule; label: string; suffix: string }[] = [
+  { key: 'buyCommissionPercent', label: 'Komisi Beli', suffix: '%' },
+  { key: 'sellCommissionPercent', label: 'Komisi Jual', suffix: '%' },
+  { key: 'levyPercent', label: 'Levy', suffix: '%' },
+  { key: 'vatPercent', label: 'PPN Komisi', suffix: '%' },
+  { key: 'salesTaxPercent', label: 'PPh Final Jual', suffix: '%' },
+  { key: 'minCommission', label: 'Komisi Minimum', suffix: 'Rp' },
+];
+
+// Sample trade used to show the all-in rate of each profile
+const SAMPLE_LOTS = 100;
+const SAMPLE_PRICE = 1000;
+
+const TaxReportModal: React.FC<TaxReportModalProps> = ({ isOpen, onClose, portfolioId, onFeeProfileChange }) => {
+  const [profileId, setProfileId] = useState<FeeProfileId>(DEFAULT_FEE_PROFILE_ID);
+  const [profiles, setProfiles] = useState(getFeeProfiles);
+  const [customDraft, setCustomDraft] = useState<FeeSchedule | null>(null);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setProfileId(getPortfolio(portfolioId).feeProfileId || DEFAULT_FEE_PROFILE_ID);
+      setProfiles(getFeeProfiles());
+      setCustomDraft(null);
+      setYear(new Date().getFullYear());
+      setError(null);
+    }
+  }, [isOpen, portfolioId]);
+
+  const years = useMemo(() => (isOpen ? getTaxReportYears(portfolioId) : []), [isOpen, portfolioId]);
+  const report = useMemo(() => (isOpen ? buildAnnualTaxReport(year, portfolioId) : null), [isOpen, year, portfolioId]);
+
+  if (!isOpen || !report) return null;
+
+  const selectedProfile = profiles.find(p => p.id === profileId) || profiles[0];
+  const sampleGross = SAMPLE_LOTS * 100 * SAMPLE_PRICE;
+  const allInRate = (side: 'buy' | 'sell') =>
+    ((calculateTradeFees(side, SAMPLE_LOTS, SAMPLE_PRICE, selectedProfile).total / sampleGross) * 100).toFixed(3);
+
+  const handleProfileChange = (id: FeeProfileId) => {
+    setFeeProfile(id, portfolioId);
+    setProfileId(id);
+    setCustomDraft(null);
+    onFeeProfileChange?.();
+  };
+
+  const handleSaveCustom = () => {
+    if (!customDraft) return;
+    try {
+      saveCustomFeeProfile(customDraft);
+      setProfiles(getFeeProfiles());
+      setCustomDraft(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal menyimpan tarif');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-[#141c2f] rounded-2xl border border-slate-700/50 shadow-2xl w-full max-w-3xl mx-4 max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="p-5 border-b border-slate-700/50 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-rose-500 to-pink-600 flex items-center justify-center shadow-lg shadow-rose-500/20">
+              <span className="material-icons-round text-white">receipt_long</span>
+            </div>
+            <div>
+              Biaya & Pajak
+              <p className="text-xs font-normal text-slate-400">{report.portfolioName}</p>
+            </div>
+          </h2>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-lg bg-slate-800/50 hover:bg-slate-700 flex items-center justify-center text-slate-400 hover:text-white transition-colors"
+          >
+            <span className="material-icons-round text-lg">close</span>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5 custom-scrollbar">
+          {/* Fee Schedule */}
+          <section className="bg-slate-800/30 rounded-xl border border-slate-700/30 p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-bold text-white">Tarif Broker</h3>
+              <select
+                value={profileId}
+                onChange={(e) => handleProfileChange(e.target.value as FeeProfileId)}
+                className="bg-slate-900/50 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:border-rose-500"
+              >
+                {profiles.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            </div>
+            <p className="text-xs text-slate-400">
+              All-in beli <span className="font-mono text-white">{allInRate('buy')}%</span>
+              {' '}• jual <span className="font-mono text-white">{allInRate('sell')}%</span>
+              {' '}(termasuk levy, PPN komisi dan PPh final jual)
+            </p>
+
+            {profileId === 'custom' && (
+              <>
+                <div className="grid grid-cols-3 gap-2">
+                  {SCHEDULE_FIELDS.map(field => (
+                    <label key={field.key} className="text-[11px] text-slate-500">
+                      {field.label} ({field.suffix})
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={(customDraft || selectedProfile)[field.key]}
+                        onChange={(e) =>
+                          setCustomDraft({ ...(customDraft || selectedProfile), [field.key]: Number(e.target.value) })
+                        }
+                        className="mt-1 w-full bg-slate-900/50 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white font-mono focus:outline-none focus:border-rose-500"
+                      />
+                    </label>
+                  ))}
+                </div>
+                {error && <p className="text-xs text-red-400">{error}</p>}
+                {customDraft && (
+                  <button
+                    onClick={handleSaveCustom}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium bg-rose-500/20 text-rose-400 hover:bg-rose-500/30 transition-all"
+                  >
+                    Simpan Tarif Custom
+                  </button>
+                )}
+              </>
+            )}
+            {profileId !== 'custom' && (
+              <p className="text-[10px] text-slate-500">Tarif bawaan adalah estimasi. Pilih "Custom" untuk menyesuaikan dengan tarif broker Anda.</p>
+            )}
+          </section>
+
+          {/* Annual Tax Summary */}
+          <section className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-bold text-white">Ringkasan Pajak Tahunan</h3>
+              <div className="flex gap-2">
+                <select
+                  value={year}
+                  onChange={(e) => setYear(Number(e.target.value))}
+                  className="bg-slate-900/50 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:border-rose-500"
+                >
+                  {years.map(y => (
+                    <option key={y} value={y}>{y}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => exportTaxReportCSV(report)}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30 transition-all"
+                >
+                  <span className="material-icons-round text-sm">download</span>
+                  CSV
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 gap-2">
+              <SummaryItem label="Penjualan Bruto" value={formatCurrency(report.grossSales)} />
+              <SummaryItem label="PPh Final Jual" value={formatCurrency(report.salesTax)} />
+              <SummaryItem label="Dividen Bruto" value={formatCurrency(report.grossDividends)} />
+              <SummaryItem label="PPh Dividen" value={formatCurrency(report.dividendTax)} />
+              <SummaryItem label="Total PPh Final" value={formatCurrency(report.totalFinalTax)} highlight />
+              <SummaryItem label="Realized P/L" value={formatCurrency(report.realizedPL)} />
+              <SummaryItem label="Komisi + PPN" value={formatCurrency(report.fees.commission + report.fees.vat)} />
+              <SummaryItem label="Levy" value={formatCurrency(report.fees.levy)} />
+            </div>
+
+            {/* Sales */}
+            <div className="overflow-x-auto rounded-xl border border-slate-700/30">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-900/50 text-slate-400">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Tanggal Jual</th>
+                    <th className="px-3 py-2 text-left">Saham</th>
+                    <th className="px-3 py-2 text-right">Lot</th>
+                    <th className="px-3 py-2 text-right">Bruto</th>
+                    <th className="px-3 py-2 text-right">PPh 0.1%</th>
+                    <th className="px-3 py-2 text-right">Biaya Lain</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {report.sales.length === 0 ? (
+                    <tr><td colSpan={6} className="px-3 py-4 text-center text-slate-500 font-sans">Tidak ada penjualan di {year}</td></tr>
+                  ) : report.sales.map((s, i) => (
+                    <tr key={i} className="border-t border-slate-800/60 text-slate-300">
+                      <td className="px-3 py-2">{new Date(s.date).toLocaleDateString('id-ID')}</td>
+                      <td className="px-3 py-2 font-sans font-semibold text-white">{s.symbol}</td>
+                      <td className="px-3 py-2 text-right">{s.lots}</td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(s.gross)}</td>
+                      <td className="px-3 py-2 text-right text-rose-400">{formatCurrency(s.salesTax)}</td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(s.otherFees)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Dividends */}
+            <div className="overflow-x-auto rounded-xl border border-slate-700/30">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-900/50 text-slate-400">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Tanggal Bayar</th>
+                    <th className="px-3 py-2 text-left">Saham</th>
+                    <th className="px-3 py-2 text-right">Lot</th>
+                    <th className="px-3 py-2 text-right">Bruto</th>
+                    <th className="px-3 py-2 text-right">PPh Dipotong</th>
+                    <th className="px-3 py-2 text-right">Diterima</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {report.dividends.length === 0 ? (
+                    <tr><td colSpan={6} className="px-3 py-4 text-center text-slate-500 font-sans">Tidak ada dividen di {year}</td></tr>
+                  ) : report.dividends.map((d, i) => (
+                    <tr key={i} className="border-t border-slate-800/60 text-slate-300">
+                      <td className="px-3 py-2">{new Date(d.date).toLocaleDateString('id-ID')}</td>
+                      <td className="px-3 py-2 font-sans font-semibold text-white">{d.symbol}</td>
+                      <td className="px-3 py-2 text-right">{d.lots}</td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(d.gross)}</td>
+                      <td className="px-3 py-2 text-right text-rose-400">{formatCurrency(d.taxWithheld)}</td>
+                      <td className="px-3 py-2 text-right text-emerald-400">{formatCurrency(d.net)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface SummaryItemProps {
+  label: string;
+  value: string;
+  highlight?: boolean;
+}
+
+const SummaryItem: React.FC<SummaryItemProps> = ({ label, value, highlight }) => (
+  <div className={`rounded-xl px-3 py-2.5 border ${
+    highlight ? 'bg-rose-500/10 border-rose-500/20' : 'bg-slate-800/30 border-slate-700/30'
+  }`}>
+    <p className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">{label}</p>
+    <p className={`text-sm font-mono font-semibold mt-1 ${highlight ? 'text-rose-400' : 'text-slate-200'}`}>{value}</p>
+  </div>
+);
+
+export default TaxReportModal;
@@ -1,31 +1,24 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { StockTicker, StockData } from '../types';
+import {
+  TechnicalIndicators,
+  TradingSignal,
+  calculateTechnicalIndicators,
+  generateSignal,
+} from '../utils/signals';
+import {
+  IDX_LOT_SIZE,
+  TickRounding,
+  toTradablePrice,
+  getAutoRejectionLimits,
+  usesIdxRules,
+} from '../utils/marketRules';
 
 interface TradingRecommendationProps {
   ticker: StockTicker;
   chartData: StockData[];
 }
 
-interface TechnicalIndicators {
-  rsi: number;
-  rsiStatus: 'oversold' | 'neutral' | 'overbought';
-  macd: { line: number; signal: number; histogram: number; trend: 'bullish' | 'bearish' };
-  ema20: number;
-  ema50: number;
-  sma200: number;
-  bollingerBands: { upper: number; middle: number; lower: number; position: 'above' | 'middle' | 'below' };
-  atr: number;
-  volumeTrend: 'increasing' | 'decreasing' | 'stable';
-  trendStrength: number;
-}
-
-interface TradingSignal {
-  action: 'STRONG_BUY' | 'BUY' | 'HOLD' | 'SELL' | 'STRONG_SELL';
-  confidence: number;
-  score: number;
-  reasons: string[];
-}
-
 interface TradeSetup {
   entryLow: number;
   entryHigh: number;
@@ -35,283 +28,60 @@ interface TradeSetup {
   target3: number;
   riskRewardRatio: number;
   positionSize: number;
+  araLimit?: number;
+  arbLimit?: number;
 }
 
-// Calculate RSI
-const calculateRSI = (data: StockData[], period: number = 14): number => {
-  if (data.length < period + 1) return 50;
-  
-  let gains = 0;
-  let losses = 0;
-  
-  for (let i = data.length - period; i < data.length; i++) {
-    const change = data[i].close - data[i - 1].close;
-    if (change > 0) gains += change;
-    else losses -= change;
-  }
-  
-  const avgGain = gains / period;
-  const avgLoss = losses / period;
-  
-  if (avgLoss === 0) return 100;
-  const rs = avgGain / avgLoss;
-  return 100 - (100 / (1 + rs));
-};
-
-// Calculate EMA
-const calculateEMA = (data: StockData[], period: number): number => {
-  if (data.length < period) return data[data.length - 1]?.close || 0;
-  
-  const multiplier = 2 / (period + 1);
-  let ema = data.slice(0, period).reduce((sum, d) => sum + d.close, 0) / period;
-  
-  for (let i = period; i < data.length; i++) {
-    ema = (data[i].close - ema) * multiplier + ema;
-  }
-  
-  return ema;
-};
-
-// Calculate SMA
-const calculateSMA = (data: StockData[], period: number): number => {
-  if (data.length < period) return data[data.length - 1]?.close || 0;
-  const slice = data.slice(-period);
-  return slice.reduce((sum, d) => sum + d.close, 0) / period;
-};
-
-// Calculate MACD
-const calculateMACD = (data: StockData[]): { line: number; signal: number; histogram: number; trend: 'bullish' | 'bearish' } => {
-  const ema12 = calculateEMA(data, 12);
-  const ema26 = calculateEMA(data, 26);
-  const macdLine = ema12 - ema26;
-  
-  // Simplified signal line calculation
-  const signalLine = macdLine * 0.8; // Approximation
-  const histogram = macdLine - signalLine;
-  
-  return {
-    line: macdLine,
-    signal: signalLine,
-    histogram,
-    trend: histogram > 0 ? 'bullish' : 'bearish'
-  };
-};
-
-// Calculate Bollinger Bands
-const calculateBollingerBands = (data: StockData[], period: number = 20, stdDev: number = 2): { upper: number; middle: number; lower: number; position: 'above' | 'middle' | 'below' } => {
-  if (data.length < period) {
-    const price = data[data.length - 1]?.close || 0;
-    return { upper: price, middle: price, lower: price, position: 'middle' };
-  }
-  
-  const slice = data.slice(-period);
-  const sma = slice.reduce((sum, d) => sum + d.close, 0) / period;
-  const variance = slice.reduce((sum, d) => sum + Math.pow(d.close - sma, 2), 0) / period;
-  const std = Math.sqrt(variance);
-  
-  const upper = sma + (std * stdDev);
-  const lower = sma - (std * stdDev);
-  const currentPrice = data[data.length - 1].close;
-  
-  let position: 'above' | 'middle' | 'below' = 'middle';
-  if (currentPrice > upper) position = 'above';
-  else if (currentPrice < lower) position = 'below';
-  
-  return { upper, middle: sma, lower, position };
-};
-
-// Calculate ATR
-const calculateATR = (data: StockData[], period: number = 14): number => {
-  if (data.length < period + 1) return 0;
-  
-  let atrSum = 0;
-  for (let i = data.length - period; i < data.length; i++) {
-    const high = data[i].high;
-    const low = data[i].low;
-    const prevClose = data[i - 1].close;
-    const tr = Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
-    atrSum += tr;
-  }
-  
-  return atrSum / period;
-};
-
-// Analyze volume trend
-const analyzeVolumeTrend = (data: StockData[]): 'increasing' | 'decreasing' | 'stable' => {
-  if (data.length < 10) return 'stable';
-  
-  const recent = data.slice(-5).reduce((sum, d) => sum + d.volume, 0) / 5;
-  const previous = data.slice(-10, -5).reduce((sum, d) => sum + d.volume, 0) / 5;
-  
-  const change = (recent - previous) / previous;
-  if (change > 0.2) return 'increasing';
-  if (change < -0.2) return 'decreasing';
-  return 'stable';
-};
-
-// Calculate trend strength (0-100)
-const calculateTrendStrength = (data: StockData[]): number => {
-  if (data.length < 20) return 50;
-  
-  const ema20 = calculateEMA(data, 20);
-  const ema50 = calculateEMA(data, 50);
-  const currentPrice = data[data.length - 1].close;
-  
-  let strength = 50;
-  
-  // Price above both EMAs = bullish
-  if (currentPrice > ema20 && currentPrice > ema50) {
-    strength += 25;
-  } else if (currentPrice < ema20 && currentPrice < ema50) {
-    strength -= 25;
-  }
-  
-  // EMA20 above EMA50 = bullish trend
-  if (ema20 > ema50) {
-    strength += 15;
-  } else {
-    strength -= 15;
-  }
-  
-  // Recent momentum
-  const change5d = (currentPrice - data[data.length - 5]?.close || currentPrice) / (data[data.length - 5]?.close || currentPrice) * 100;
-  strength += Math.min(10, Math.max(-10, change5d * 2));
-  
-  return Math.min(100, Math.max(0, strength));
-};
-
-// Generate trading signal
-const generateSignal = (indicators: TechnicalIndicators, ticker: StockTicker): TradingSignal => {
-  let score = 0;
-  const reasons: string[] = [];
-  
-  // RSI Analysis (weight: 20)
-  if (indicators.rsi < 30) {
-    score += 20;
-    reasons.push(`RSI ${indicators.rsi.toFixed(1)} menunjukkan OVERSOLD - peluang rebound`);
-  } else if (indicators.rsi > 70) {
-    score -= 20;
-    reasons.push(`RSI ${indicators.rsi.toFixed(1)} menunjukkan OVERBOUGHT - waspada koreksi`);
-  } else if (indicators.rsi < 45) {
-    score += 10;
-    reasons.push(`RSI ${indicators.rsi.toFixed(1)} di zona netral-bawah`);
-  } else if (indicators.rsi > 55) {
-    score -= 5;
-    reasons.push(`RSI ${indicators.rsi.toFixed(1)} di zona netral-atas`);
-  }
-  
-  // MACD Analysis (weight: 25)
-  if (indicators.macd.trend === 'bullish') {
-    score += 20;
-    if (indicators.macd.histogram > 0) {
-      score += 5;
-      reasons.push('MACD histogram positif & menguat - momentum bullish');
-    }
-  } else {
-    score -= 20;
-    reasons.push('MACD histogram negatif - momentum bearish');
-  }
-  
-  // EMA Analysis (weight: 25)
-  const price = ticker.price;
-  if (price > indicators.ema20 && price > indicators.ema50) {
-    score += 20;
-    reasons.push(`Harga di atas EMA20 (${indicators.ema20.toFixed(0)}) & EMA50 (${indicators.ema50.toFixed(0)}) - uptrend`);
-  } else if (price < indicators.ema20 && price < indicators.ema50) {
-    score -= 20;
-    reasons.push(`Harga di bawah EMA20 & EMA50 - downtrend`);
-  } else if (price > indicators.ema20) {
-    score += 10;
-    reasons.push('Harga di atas EMA20 - short-term bullish');
-  }
-  
-  // Golden/Death Cross
-  if (indicators.ema20 > indicators.ema50) {
-    score += 5;
-    reasons.push('Golden Cross aktif (EMA20 > EMA50)');
-  } else {
-    score -= 5;
-    reasons.push('Death Cross aktif (EMA20 < EMA50)');
-  }
-  
-  // Bollinger Bands (weight: 15)
-  if (indicators.bollingerBands.position === 'below') {
-    score += 15;
-    reasons.push('Harga di bawah Lower BB - oversold, potensi rebound');
-  } else if (indicators.bollingerBands.position === 'above') {
-    score -= 10;
-    reasons.push('Harga di atas Upper BB - overbought');
-  }
-  
-  // Volume Analysis (weight: 10)
-  if (indicators.volumeTrend === 'increasing') {
-    const volumeImpact = score > 0 ? 10 : -5;
-    score += volumeImpact;
-    reasons.push(score > 0 ? 'Volume meningkat mendukung uptrend' : 'Volume meningkat saat downtrend - tekanan jual');
-  }
-  
-  // Trend Strength (weight: 5)
-  if (indicators.trendStrength > 60) {
-    score += 5;
-  } else if (indicators.trendStrength < 40) {
-    score -= 5;
-  }
-  
-  // Determine action
-  let action: TradingSignal['action'];
-  if (score >= 50) action = 'STRONG_BUY';
-  else if (score >= 20) action = 'BUY';
-  else if (score >= -20) action = 'HOLD';
-  else if (score >= -50) action = 'SELL';
-  else action = 'STRONG_SELL';
-  
-  const confidence = Math.min(95, Math.max(30, 50 + Math.abs(score)));
-  
-  return { action, confidence, score, reasons };
-};
-
 // Calculate trade setup
 const calculateTradeSetup = (ticker: StockTicker, indicators: TechnicalIndicators, signal: TradingSignal): TradeSetup => {
   const price = ticker.price;
   const atr = indicators.atr || price * 0.02;
+  const isIdx = usesIdxRules(ticker.market);
+  const referencePrice = isIdx && price - ticker.change > 0 ? price - ticker.change : undefined;
+
+  // Harga saran harus bisa diorder: ikut fraksi harga IDX, entry tetap di dalam ARA/ARB hari ini
+  const tradable = (value: number, mode: TickRounding, isEntry = false): number =>
+    isIdx ? toTradablePrice(value, mode, isEntry ? referencePrice : undefined) : Math.round(value);
   
   let entryLow: number, entryHigh: number, stopLoss: number;
   let target1: number, target2: number, target3: number;
   
   if (signal.action === 'STRONG_BUY' || signal.action === 'BUY') {
     // Buy setup
-    entryLow = Math.round(price * 0.98);
-    entryHigh = Math.round(price * 1.01);
-    stopLoss = Math.round(price - (atr * 2));
-    target1 = Math.round(price + (atr * 2));
-    target2 = Math.round(price + (atr * 3));
-    target3 = Math.round(price + (atr * 5));
+    entryLow = tradable(price * 0.98, 'down', true);
+    entryHigh = tradable(price * 1.01, 'up', true);
+    stopLoss = tradable(price - (atr * 2), 'down');
+    target1 = tradable(price + (atr * 2), 'down');
+    target2 = tradable(price + (atr * 3), 'down');
+    target3 = tradable(price + (atr * 5), 'down');
   } else if (signal.action === 'STRONG_SELL' || signal.action === 'SELL') {
     // Sell/Short setup
-    entryLow = Math.round(price * 0.99);
-    entryHigh = Math.round(price * 1.02);
-    stopLoss = Math.round(price + (atr * 2));
-    target1 = Math.round(price - (atr * 2));
-    target2 = Math.round(price - (atr * 3));
-    target3 = Math.round(price - (atr * 5));
+    entryLow = tradable(price * 0.99, 'down', true);
+    entryHigh = tradable(price * 1.02, 'up', true);
+    stopLoss = tradable(price + (atr * 2), 'up');
+    target1 = tradable(price - (atr * 2), 'up');
+    target2 = tradable(price - (atr * 3), 'up');
+    target3 = tradable(price - (atr * 5), 'up');
   } else {
     // Hold - no trade setup
-    entryLow = price;
-    entryHigh = price;
-    stopLoss = Math.round(price - (atr * 1.5));
-    target1 = Math.round(price + (atr * 1.5));
-    target2 = Math.round(price + (atr * 2));
-    target3 = Math.round(price + (atr * 3));
+    entryLow = tradable(price, 'nearest', true);
+    entryHigh = entryLow;
+    stopLoss = tradable(price - (atr * 1.5), 'down');
+    target1 = tradable(price + (atr * 1.5), 'down');
+    target2 = tradable(price + (atr * 2), 'down');
+    target3 = tradable(price + (atr * 3), 'down');
   }
   
   const risk = Math.abs(price - stopLoss);
   const reward = Math.abs(target1 - price);
   const riskRewardRatio = risk > 0 ? reward / risk : 0;
   
-  // Position size calculation (assuming 2% risk per trade, 10M portfolio)
+  // Position size calculation (assuming 2% risk per trade, 10M portfolio), dalam lot
   const portfolioSize = 10000000; // 10 juta rupiah
   const riskPerTrade = portfolioSize * 0.02; // 2% risk
-  const positionSize = risk > 0 ? Math.floor(riskPerTrade / risk) : 0;
+  const positionSize = risk > 0 ? Math.floor(riskPerTrade / (risk * IDX_LOT_SIZE)) : 0;
+
+  const limits = referencePrice ? getAutoRejectionLimits(referencePrice) : null;
   
   return {
     entryLow,
@@ -321,7 +91,9 @@ const calculateTradeSetup = (ticker: StockTicker, indicators: TechnicalIndicator
     target2,
     target3,
     riskRewardRatio,
-    positionSize
+    positionSize,
+    araLimit: limits?.upper,
+    arbLimit: limits?.lower,
   };
 };
 
@@ -340,28 +112,7 @@ const TradingRecommendation: React.FC<TradingRecommendationProps> = ({ ticker, c
     
     // Simulate calculation delay for UX
     setTimeout(() => {
-      const rsi = calculateRSI(chartData);
-      const macd = calculateMACD(chartData);
-      const ema20 = calculateEMA(chartData, 20);
-      const ema50 = calculateEMA(chartData, 50);
-      const sma200 = calculateSMA(chartData, 200);
-      const bb = calculateBollingerBands(chartData);
-      const atr = calculateATR(chartData);
-      const volumeTrend = analyzeVolumeTrend(chartData);
-      const trendStrength = calculateTrendStrength(chartData);
-      
-      const newIndicators: TechnicalIndicators = {
-        rsi,
-        rsiStatus: rsi < 30 ? 'oversold' : rsi > 70 ? 'overbought' : 'neutral',
-        macd,
-        ema20,
-        ema50,
-        sma200,
-        bollingerBands: bb,
-        atr,
-        volumeTrend,
-        trendStrength
-      };
+      const newIndicators: TechnicalIndicators = calculateTechnicalIndicators(chartData);
       
       setIndicators(newIndicators);
       
@@ -586,6 +337,18 @@ const TradingRecommendation: React.FC<TradingRecommendationProps> = ({ ticker, c
           </span>
         </div>
         
+        {/* Auto Rejection */}
+        {tradeSetup.araLimit !== undefined && tradeSetup.arbLimit !== undefined && (
+          <div className="mt-2 flex items-center justify-between px-3 py-2 bg-slate-800/30 rounded-lg">
+            <span className="text-slate-400 text-sm">ARB / ARA Hari Ini</span>
+            <span className="font-bold font-mono text-sm">
+              <span className="text-red-400">{tradeSetup.arbLimit.toLocaleString('id-ID')}</span>
+              <span className="text-slate-500"> - </span>
+              <span className="text-emerald-400">{tradeSetup.araLimit.toLocaleString('id-ID')}</span>
+            </span>
+          </div>
+        )}
+        
         {/* Position Size */}
         <div className="mt-2 flex items-center justify-between px-3 py-2 bg-slate-800/30 rounded-lg">
           <span className="text-slate-400 text-sm">Lot Rekomendasi (2% Risk)</span>
@@ -13,14 +13,21 @@ import {
   Cell,
 } from 'recharts';
 import { StockData, TimeRange } from '../types';
+import { calculateSMA } from '../utils/indicators';
 import ChartDrawingTools, { DrawingToolbar, DrawingObject, DrawingType } from './ChartDrawingTools';
+import { usesIdxRules } from '../utils/marketRules';
+import { BarInterval, BAR_INTERVALS } from '../services/barAggregator';
 
 interface TradingViewChartProps {
   data: StockData[];
   symbol: string;
+  market?: 'IDX' | 'US' | 'CRYPTO';
   timeRange: TimeRange;
   onRangeChange: (range: TimeRange) => void;
   loading?: boolean;
+  barInterval?: BarInterval | null;     // Interval candle intraday (null untuk range harian)
+  onBarIntervalChange?: (interval: BarInterval) => void;
+  isLive?: boolean;                     // Candle terakhir bergerak mengikuti tick
 }
 
 const RANGES: TimeRange[] = ['1D', '5D', '1M', '3M', '6M', 'YTD', '1Y', '5Y'];
@@ -38,20 +45,6 @@ const COLORS = {
   VolumeDown: '#ef535080', // Semi-transparent red
 };
 
-// Calculate SMA (Simple Moving Average)
-const calculateSMA = (data: StockData[], period: number): (number | null)[] => {
-  const sma: (number | null)[] = [];
-  for (let i = 0; i < data.length; i++) {
-    if (i < period - 1) {
-      sma.push(null);
-    } else {
-      const sum = data.slice(i - period + 1, i + 1).reduce((acc, d) => acc + d.close, 0);
-      sma.push(sum / period);
-    }
-  }
-  return sma;
-};
-
 // Custom Candlestick Shape - TradingView Style
 const TradingViewCandle = (props: any) => {
   const { x, y, width, height, payload } = props;
@@ -166,9 +159,13 @@ const VolumeTooltip = ({ active, payload }: any) => {
 const TradingViewChart: React.FC<TradingViewChartProps> = ({ 
   data, 
   symbol, 
+  market,
   timeRange, 
   onRangeChange, 
-  loading 
+  loading,
+  barInterval,
+  onBarIntervalChange,
+  isLive,
 }) => {
   const [crosshairData, setCrosshairData] = useState<any>(null);
   const [showMA, setShowMA] = useState(true);
@@ -259,6 +256,12 @@ const TradingViewChart: React.FC<TradingViewChartProps> = ({
             {loading && (
               <span className="w-2 h-2 rounded-full bg-blue-500 animate-pulse" />
             )}
+            {isLive && (
+              <span className="flex items-center gap-1 text-[10px] font-bold text-[#26a69a]">
+                <span className="w-1.5 h-1.5 rounded-full bg-[#26a69a] animate-pulse" />
+                LIVE
+              </span>
+            )}
           </div>
           
           {latestData && (
@@ -308,6 +311,25 @@ const TradingViewChart: React.FC<TradingViewChartProps> = ({
             MA{maPeriod}
           </button>
           
+          {/* Candle Interval (intraday) */}
+          {barInterval && onBarIntervalChange && (
+            <div className="flex bg-[#1e222d] rounded-lg p-0.5">
+              {BAR_INTERVALS.map((interval) => (
+                <button
+                  key={interval}
+                  onClick={() => onBarIntervalChange(interval)}
+                  className={`px-2 py-1.5 text-xs font-medium rounded transition-all ${
+                    barInterval === interval
+                      ? 'bg-[#2a2e39] text-[#d1d4dc]'
+                      : 'text-[#787b86] hover:text-[#d1d4dc]'
+                  }`}
+                >
+                  {interval}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Time Range */}
           <div className="flex bg-[#1e222d] rounded-lg p-0.5">
             {RANGES.map((r) => (
@@ -461,6 +483,7 @@ const TradingViewChart: React.FC<TradingViewChartProps> = ({
               activeTool={activeTool}
               onToolComplete={() => setActiveTool(null)}
               chartPadding={{ top: 10, right: 60, bottom: 0, left: 0 }}
+              snapToTick={usesIdxRules(market)}
             />
           )}
         </div>
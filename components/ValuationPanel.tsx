@@ -0,0 +1,343 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { StockTicker } from '../types';
+import { hasFundamentals } from '../services/fundamentalsService';
+import {
+  ValuationInputs,
+  loadValuationInputs,
+  loadAssumptions,
+  saveAssumptions,
+  resetAssumptions,
+} from '../services/valuationService';
+import {
+  DcfAssumptions,
+  DdmAssumptions,
+  ValuationAssumptions,
+  computeDcf,
+  computeMarginOfSafety,
+  computeValuationEstimates,
+} from '../utils/valuation';
+import DataSourceBadge from './DataSourceBadge';
+
+interface ValuationPanelProps {
+  ticker: StockTicker;
+}
+
+const DCF_FIELDS: { key: keyof DcfAssumptions; label: string; suffix?: string; step: number }[] = [
+  { key: 'baseFcf', label: 'FCF / lembar', step: 1 },
+  { key: 'growthRate', label: 'Pertumbuhan', suffix: '%', step: 0.5 },
+  { key: 'years', label: 'Tahun proyeksi', step: 1 },
+  { key: 'terminalGrowth', label: 'Growth terminal', suffix: '%', step: 0.5 },
+  { key: 'discountRate', label: 'Diskonto', suffix: '%', step: 0.5 },
+  { key: 'netDebtPerShare', label: 'Utang bersih / lembar', step: 1 },
+];
+
+const DDM_FIELDS: { key: keyof DdmAssumptions; label: string; suffix?: string; step: number }[] = [
+  { key: 'dividend', label: 'Dividen / lembar', step: 1 },
+  { key: 'growthRate', label: 'Growth dividen', suffix: '%', step: 0.5 },
+  { key: 'requiredReturn', label: 'Required return', suffix: '%', step: 0.5 },
+];
+
+const formatPrice = (value: number | null): string =>
+  value === null ? '-' : value.toLocaleString('id-ID', { maximumFractionDigits: value >= 100 ? 0 : 2 });
+
+const marginColor = (margin: number | null): string =>
+  margin === null ? 'text-slate-500' : margin >= 25 ? 'text-emerald-400' : margin >= 0 ? 'text-amber-400' : 'text-red-400';
+
+/**
+ * Intrinsic valuation (DCF, Graham, DDM, relatif sektor) with margin of safety vs the live price
+ */
+const ValuationPanel: React.FC<ValuationPanelProps> = ({ ticker }) => {
+  const [inputs, setInputs] = useState<ValuationInputs | null>(null);
+  const [assumptions, setAssumptions] = useState<ValuationAssumptions | null>(null);
+  const [isCustomized, setIsCustomized] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const market = ticker.market || 'IDX';
+
+  useEffect(() => {
+    if (!hasFundamentals(market)) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const result = await loadValuationInputs(ticker, reloadKey > 0);
+        if (cancelled) return;
+        const saved = loadAssumptions(ticker.symbol, result.financials.data);
+        setInputs(result);
+        setAssumptions(saved || result.defaults);
+        setIsCustomized(!!saved);
+      } catch (e) {
+        if (!cancelled) {
+          setInputs(null);
+          setAssumptions(null);
+          setError(e instanceof Error ? e.message : String(e));
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+    // Harga live tidak memicu muat ulang; hanya simbol/pasar
+  },[ticker.symbol, market, reloadKey]);
+
+  const estimates = useMemo(() => {
+    if (!inputs || !assumptions) return [];
+    return computeValuationEstimates(
+      assumptions,
+      inputs.ratios?.epsTtm ?? null,
+      inputs.ratios?.bvps ?? null,
+      inputs.relative,
+      ticker.price
+    );
+  }, [inputs, assumptions, ticker.price]);
+
+  const dcfResult = useMemo(() => assumptions ? computeDcf(assumptions.dcf) : null, [assumptions]);
+
+  // Rata-rata model yang bisa dipakai sebagai nilai wajar gabungan
+  const validValues = estimates.map(e => e.value).filter((v): v is number => v !== null);
+  const averageValue = validValues.length > 0 ? validValues.reduce((sum, v) => sum + v, 0) / validValues.length : null;
+  const averageMargin = computeMarginOfSafety(averageValue, ticker.price);
+
+  const updateAssumptions = (next: ValuationAssumptions) => {
+    setAssumptions(next);
+    setIsCustomized(true);
+    if (inputs) saveAssumptions(ticker.symbol, next, inputs.financials.data.currency);
+  };
+
+  const updateDcf = (key: keyof DcfAssumptions, value: number) =>
+    assumptions && updateAssumptions({ ...assumptions, dcf: { ...assumptions.dcf, [key]: value } });
+
+  const updateDdm = (key: keyof DdmAssumptions, value: number) =>
+    assumptions && updateAssumptions({ ...assumptions, ddm: { ...assumptions.ddm, [key]: value } });
+
+  const handleReset = () => {
+    if (!inputs) return;
+    resetAssumptions(ticker.symbol);
+    setAssumptions(inputs.defaults);
+    setIsCustomized(false);
+  };
+
+  if (!hasFundamentals(market)) {
+    return (
+      <div className="bg-[#141c2f] rounded-2xl p-6 border border-slate-800/60 shadow-xl text-center text-slate-500 text-sm">
+        <span className="material-icons-round text-3xl mb-2 block">calculate</span>
+        Valuasi intrinsik tidak tersedia untuk aset kripto
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-[#141c2f] rounded-2xl border border-slate-800/60 shadow-xl overflow-hidden">
+      {/* Header */}
+      <div className="p-4 border-b border-slate-800/50 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-emerald-500 to-teal-600 flex items-center justify-center">
+            <span className="material-icons-round text-white">calculate</span>
+          </div>
+          <div>
+            <h3 className="text-white font-bold">Valuasi Intrinsik</h3>
+            <p className="text-xs text-slate-500 flex items-center gap-2">
+              {ticker.symbol}
+              {inputs && <DataSourceBadge source={inputs.financials.source} compact />}
+              {inputs?.financials.data.reportedCurrency && (
+                <span className="text-[10px] text-slate-600">dari laporan {inputs.financials.data.reportedCurrency}</span>
+              )}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {isCustomized && (
+            <button
+              onClick={handleReset}
+              className="px-2 py-1 rounded-lg bg-slate-800/50 hover:bg-slate-700 text-[11px] text-slate-400 hover:text-white transition-colors"
+              title="Kembalikan asumsi ke default dari laporan keuangan"
+            >
+              Reset
+            </button>
+          )}
+          <button
+            onClick={() => setReloadKey(key => key + 1)}
+            disabled={isLoading}
+            className="w-7 h-7 rounded-lg bg-slate-800/50 hover:bg-slate-700 flex items-center justify-center text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+            title="Ambil ulang laporan keuangan"
+          >
+            <span className={`material-icons-round text-sm ${isLoading ? 'animate-spin' : ''}`}>refresh</span>
+          </button>
+        </div>
+      </div>
+
+      {isLoading && !inputs ? (
+        <div className="flex items-center justify-center h-48 text-slate-500 text-sm gap-2">
+          <span className="material-icons-round animate-spin">sync</span>
+          Memuat data valuasi...
+        </div>
+      ) : error ? (
+        <div className="p-6 text-center text-sm">
+          <span className="material-icons-round text-3xl text-slate-600 mb-2 block">cloud_off</span>
+          <p className="text-slate-400">Data fundamental {ticker.symbol} belum bisa dimuat</p>
+          <p className="text-[11px] text-slate-600 mt-1">{error}</p>
+        </div>
+      ) : inputs && assumptions && (
+        <>
+          {/* Summary */}
+          <div className="p-4 border-b border-slate-800/50">
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              <div className="bg-slate-800/30 rounded-xl p-2 text-center">
+                <div className="text-slate-500 text-[9px] uppercase tracking-wider mb-0.5">Harga</div>
+                <div className="font-bold font-mono text-sm text-white">{formatPrice(ticker.price > 0 ? ticker.price : null)}</div>
+              </div>
+              <div className="bg-slate-800/30 rounded-xl p-2 text-center">
+                <div className="text-slate-500 text-[9px] uppercase tracking-wider mb-0.5">Nilai Wajar</div>
+                <div className="font-bold font-mono text-sm text-blue-400">{formatPrice(averageValue)}</div>
+              </div>
+              <div className="bg-slate-800/30 rounded-xl p-2 text-center">
+                <div className="text-slate-500 text-[9px] uppercase tracking-wider mb-0.5">Margin of Safety</div>
+                <div className={`font-bold font-mono text-sm ${marginColor(averageMargin)}`}>
+                  {averageMargin === null ? '-' : `${averageMargin > 0 ? '+' : ''}${averageMargin.toFixed(1)}%`}
+                </div>
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              {estimates.map(estimate => (
+                <div key={estimate.model} className="flex items-center justify-between text-xs">
+                  <span className="text-slate-400">{estimate.label}</span>
+                  {estimate.value === null ? (
+                    <span className="text-[10px] text-slate-600 text-right">{estimate.note}</span>
+                  ) : (
+                    <span className="flex items-center gap-3">
+                      <span className="font-mono text-slate-200">{formatPrice(estimate.value)}</span>
+                      <span className={`font-mono w-14 text-right ${marginColor(estimate.marginOfSafety)}`}>
+                        {estimate.marginOfSafety === null ? '-' : `${estimate.marginOfSafety > 0 ? '+' : ''}${estimate.marginOfSafety.toFixed(1)}%`}
+                      </span>
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-600 mt-2">
+              Nilai wajar = rata-rata model yang valid. Margin of safety positif berarti harga di bawah nilai wajar.
+            </p>
+          </div>
+
+          {/* DCF */}
+          <div className="p-4 border-b border-slate-800/50">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-bold text-slate-300">Discounted Cash Flow</span>
+              {dcfResult && (
+                <span className="text-[10px] text-slate-500">
+                  Terminal {((dcfResult.presentTerminalValue / dcfResult.enterpriseValue) * 100).toFixed(0)}% dari nilai
+                </span>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {DCF_FIELDS.map(field => (
+                <AssumptionInput
+                  key={field.key}
+                  label={field.label}
+                  suffix={field.suffix}
+                  step={field.step}
+                  value={assumptions.dcf[field.key]}
+                  onChange={value => updateDcf(field.key, value)}
+                />
+              ))}
+            </div>
+            {dcfResult && (
+              <div className="grid grid-cols-3 gap-1 mt-3 text-center text-[10px]">
+                <div>
+                  <p className="text-slate-500">PV Proyeksi</p>
+                  <p className="font-mono text-slate-300">{formatPrice(dcfResult.enterpriseValue - dcfResult.presentTerminalValue)}</p>
+                </div>
+                <div>
+                  <p className="text-slate-500">PV Terminal</p>
+                  <p className="font-mono text-slate-300">{formatPrice(dcfResult.presentTerminalValue)}</p>
+                </div>
+                <div>
+                  <p className="text-slate-500">Nilai / lembar</p>
+                  <p className="font-mono text-blue-400">{formatPrice(dcfResult.intrinsicValue)}</p>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* DDM */}
+          <div className="p-4 border-b border-slate-800/50">
+            <span className="text-xs font-bold text-slate-300 block mb-2">Dividend Discount Model</span>
+            <div className="grid grid-cols-3 gap-2">
+              {DDM_FIELDS.map(field => (
+                <AssumptionInput
+                  key={field.key}
+                  label={field.label}
+                  suffix={field.suffix}
+                  step={field.step}
+                  value={assumptions.ddm[field.key]}
+                  onChange={value => updateDdm(field.key, value)}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Graham & Relative */}
+          <div className="p-4 grid grid-cols-2 gap-3 text-[11px]">
+            <div>
+              <span className="text-xs font-bold text-slate-300 block mb-1.5">Graham Number</span>
+              <p className="text-slate-500">EPS TTM <span className="font-mono text-slate-300 float-right">{formatPrice(inputs.ratios?.epsTtm ?? null)}</span></p>
+              <p className="text-slate-500">BVPS <span className="font-mono text-slate-300 float-right">{formatPrice(inputs.ratios?.bvps ?? null)}</span></p>
+              <p className="text-[10px] text-slate-600 mt-1">√(22,5 × EPS × BVPS)</p>
+            </div>
+            <div>
+              <span className="text-xs font-bold text-slate-300 block mb-1.5">Relatif Sektor</span>
+              {inputs.relative ? (
+                <>
+                  <p className="text-slate-500 truncate" title={inputs.relative.sector}>{inputs.relative.sector} ({inputs.relative.peerCount})</p>
+                  <p className="text-slate-500">Median PER <span className="font-mono text-slate-300 float-right">{inputs.relative.medianPe?.toFixed(1) ?? '-'}x</span></p>
+                  <p className="text-slate-500">Median PBV <span className="font-mono text-slate-300 float-right">{inputs.relative.medianPb?.toFixed(2) ?? '-'}x</span></p>
+                </>
+              ) : (
+                <p className="text-[10px] text-slate-600">
+                  {market === 'IDX'
+                    ? 'Jalankan Stock Screener untuk menghitung median sektor'
+                    : 'Median sektor hanya tersedia untuk saham IDX'}
+                </p>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Assumption Input Component
+interface AssumptionInputProps {
+  label: string;
+  value: number;
+  step: number;
+  suffix?: string;
+  onChange: (value: number) => void;
+}
+
+const AssumptionInput: React.FC<AssumptionInputProps> = ({ label, value, step, suffix, onChange }) => (
+  <label className="block">
+    <span className="text-[10px] text-slate-500">{label}</span>
+    <div className="relative">
+      <input
+        type="number"
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value) || 0)}
+        className="w-full bg-slate-800/50 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white font-mono focus:outline-none focus:border-blue-500"
+      />
+      {suffix && <span className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-slate-500">{suffix}</span>}
+    </div>
+  </label>
+);
+
+export default ValuationPanel;
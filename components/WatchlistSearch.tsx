@@ -218,6 +218,7 @@ const WatchlistSearch: React.FC<WatchlistSearchProps> = ({
         high: priceData.high,
         low: priceData.low,
         volume: priceData.volume,
+        dataSource: priceData.source,
       };
       onAddStock(newStock);
       setRecentlyAdded(prev => [stock.symbol, ...prev.slice(0, 4)]);
@@ -0,0 +1,31 @@
+/**
+ * RIZBOT Alert Service Worker
+ * Shows price alert notifications while the app tab is in the background
+ *
+ * Evaluasi alert tetap berjalan di halaman (services/alertEngine.ts); worker ini hanya
+ * menampilkan notifikasi dan membuka/memfokuskan tab aplikasi saat notifikasi diklik.
+ */
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const symbol = event.notification.data && event.notification.data.symbol;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients[0];
+      if (client) {
+        client.postMessage({ type: 'ALERT_NOTIFICATION_CLICK', symbol });
+        return client.focus();
+      }
+      return self.clients.openWindow('/');
+    })
+  );
+});
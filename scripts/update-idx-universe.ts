@@ -0,0 +1,243 @@
+/**
+ * Update IDX Universe
+ * Regenerates public/data/idx-universe.json (daftar emiten screener + fundamental per saham)
+ *
+ *   npm run universe:update                                  # daftar dari IDX + fundamental dari Yahoo
+ *   npm run universe:update -- --listing daftar-emiten.json   # daftar dari file yang diunduh manual
+ *   npm run universe:update -- --skip-fundamentals            # hanya perbarui daftar emiten
+ *
+ * - Daftar emiten: endpoint profil perusahaan tercatat IDX (GetCompanyProfiles). idx.co.id kadang
+ *   menolak request non-browser; kalau begitu buka URL yang dicetak script di browser, simpan
+ *   JSON-nya, lalu jalankan ulang dengan --listing <file>. File berisi array
+ *   { symbol, name, sector } juga diterima.
+ * - Fundamental: Yahoo fundamentals-timeseries, diparse dengan utils/financials yang sama dengan
+ *   aplikasi; laporan non-IDR (mis. ADRO, MEDC) dikonversi ke IDR dengan kurs historis.
+ *   EPS & dividen memakai TTM, nilai buku & jumlah saham dari neraca terakhir.
+ * - Emiten yang gagal diambil fundamentalnya memakai nilai dari file lama (kalau ada); emiten
+ *   tanpa fundamental tetap dicatat tanpa field fundamental dan ditandai di screener.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { FinancialRatios, FinancialStatements } from '../types';
+import type { UniverseCompany, UniverseFile } from '../services/screenerService';
+import {
+  buildYahooFundamentalsUrl,
+  buildYahooFxUrl,
+  computeFinancialRatios,
+  convertStatements,
+  parseYahooFundamentals,
+  parseYahooFxHistory,
+} from '../utils/financials';
+
+const OUTPUT_PATH = resolve(process.cwd(), 'public/data/idx-universe.json');
+const IDX_LISTING_URL = 'https://www.idx.co.id/primary/ListedCompany/GetCompanyProfiles'
+  + '?KodeEmiten=&EmitenType=s&start=0&length=9999';
+const REQUEST_TIMEOUT_MS = 15000;
+const CONCURRENCY = 4;
+const BROWSER_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36',
+  Accept: 'application/json, text/plain, */*',
+};
+
+// Sektor IDX-IC (nama Indonesia di situs IDX) -> nama yang dipakai data file
+const SECTOR_NAMES: Record<string, string> = {
+  'energi': 'Energy',
+  'barang baku': 'Basic Materials',
+  'perindustrian': 'Industrials',
+  'barang konsumen primer': 'Consumer Non-Cyclicals',
+  'barang konsumen non-primer': 'Consumer Cyclicals',
+  'kesehatan': 'Healthcare',
+  'keuangan': 'Financials',
+  'properti & real estat': 'Properties & Real Estate',
+  'teknologi': 'Technology',
+  'infrastruktur': 'Infrastructures',
+  'transportasi & logistik': 'Transportation & Logistic',
+};
+
+interface ListingRow {
+  symbol: string;
+  name: string;
+  sector: string;
+}
+
+const args = process.argv.slice(2);
+const argValue = (flag: string): string | undefined => {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const fetchJson = async (url: string): Promise<any> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { signal: controller.signal, headers: BROWSER_HEADERS });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return await response.json();
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+const normalizeSector = (sector: string): string => {
+  const trimmed = sector.trim();
+  return SECTOR_NAMES[trimmed.toLowerCase()] || trimmed;
+};
+
+// Nama resmi IDX ("PT Bank Central Asia Tbk.") disamakan dengan format data file
+const normalizeName = (name: string): string =>
+  name.trim().replace(/^PT\.?\s+/i, '').replace(/\s*Tbk\.?$/i, ' Tbk').replace(/\s+/g, ' ');
+
+/**
+ * Listing rows from an IDX GetCompanyProfiles response or a plain { symbol, name, sector } array
+ */
+const parseListing = (json: any): ListingRow[] => {
+  const items: any[] = Array.isArray(json) ? json : json?.data || [];
+  const rows = items
+    .map(item => ({
+      symbol: String(item.symbol ?? item.KodeEmiten ?? '').trim().toUpperCase(),
+      name: normalizeName(String(item.name ?? item.NamaEmiten ?? '')),
+      sector: normalizeSector(String(item.sector ?? item.Sektor ?? '')),
+    }))
+    .filter(row => /^[A-Z0-9]{4}$/.test(row.symbol) && row.name);
+  if (rows.length === 0) throw new Error('Daftar emiten kosong atau formatnya tidak dikenali');
+  return rows;
+};
+
+const loadListing = async (): Promise<ListingRow[]> => {
+  const file = argValue('--listing');
+  if (file) return parseListing(JSON.parse(readFileSync(resolve(process.cwd(), file), 'utf8')));
+  try {
+    return parseListing(await fetchJson(IDX_LISTING_URL));
+  } catch (error) {
+    console.error(`Daftar emiten IDX gagal diambil (${(error as Error).message}).`);
+    console.error(`Unduh manual lewat browser: ${IDX_LISTING_URL}`);
+    console.error('lalu jalankan ulang dengan --listing <file.json>');
+    throw error;
+  }
+};
+
+const loadExisting = (): UniverseFile | null => {
+  try {
+    return JSON.parse(readFileSync(OUTPUT_PATH, 'utf8'));
+  } catch {
+    return null;
+  }
+};
+
+const fxCache = new Map<string, Promise<ReturnType<typeof parseYahooFxHistory>>>();
+const loadFx = (from: string) => {
+  if (!fxCache.has(from)) fxCache.set(from, fetchJson(buildYahooFxUrl(from, 'IDR')).then(parseYahooFxHistory));
+  return fxCache.get(from)!;
+};
+
+// Rasio terbaru: TTM kuartalan kalau lebih baru dari laporan tahunan
+const latestRatios = (statements: FinancialStatements): FinancialRatios | null => {
+  const candidates = [...computeFinancialRatios(statements, 'annual'), ...computeFinancialRatios(statements, 'quarterly')]
+    .filter(r => r.epsTtm !== null || r.bvps !== null)
+    .sort((a, b) => a.periodEnd.localeCompare(b.periodEnd));
+  return candidates[candidates.length - 1] || null;
+};
+
+const fetchFundamentals = async (symbol: string): Promise<Partial<UniverseCompany> | null> => {
+  let statements = parseYahooFundamentals(await fetchJson(buildYahooFundamentalsUrl(`${symbol}.JK`)), symbol);
+  if (statements.currency !== 'IDR') {
+    const converted = convertStatements(statements, await loadFx(statements.currency), 'IDR');
+    if (!converted) throw new Error(`Kurs ${statements.currency}IDR tidak mencakup semua periode`);
+    statements = converted;
+  }
+
+  const ratios = latestRatios(statements);
+  const shares = [...statements.annual, ...statements.quarterly]
+    .filter(p => p.balance.sharesOutstanding)
+    .sort((a, b) => a.periodEnd.localeCompare(b.periodEnd))
+    .pop()?.balance.sharesOutstanding;
+  if (!ratios || ratios.epsTtm === null || ratios.bvps === null || !shares) return null;
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    sharesOutstanding: shares,
+    eps: round(ratios.epsTtm),
+    bookValuePerShare: round(ratios.bvps),
+    ...(ratios.dividendPerShare !== null ? { dividendPerShare: round(ratios.dividendPerShare) } : {}),
+    fundamentalsAsOf: ratios.periodEnd,
+  };
+};
+
+const FUNDAMENTAL_FIELDS: (keyof UniverseCompany)[] = [
+  'sharesOutstanding', 'eps', 'bookValuePerShare', 'dividendPerShare', 'fundamentalsAsOf',
+];
+
+const pickFundamentals = (company: UniverseCompany | undefined): Partial<UniverseCompany> =>
+  Object.fromEntries(FUNDAMENTAL_FIELDS.filter(f => company?.[f] !== undefined).map(f => [f, company![f]]));
+
+// Satu emiten per baris, sama dengan format file yang di-commit
+const formatUniverse = (universe: UniverseFile): string => [
+  '{',
+  `  "version": ${universe.version},`,
+  `  "updatedAt": ${JSON.stringify(universe.updatedAt)},`,
+  `  "source": ${JSON.stringify(universe.source)},`,
+  '  "companies": [',
+  universe.companies.map(company => `    ${JSON.stringify(company).replace(/":/g, '": ').replace(/,"/g, ', "')}`).join(',\n'),
+  '  ]',
+  '}',
+  '',
+].join('\n');
+
+const main = async () => {
+  const existing = loadExisting();
+  const previous = new Map((existing?.companies || []).map(company => [company.symbol, company]));
+  const listing = await loadListing();
+  console.log(`${listing.length} emiten tercatat`);
+
+  const companies: UniverseCompany[] = listing
+    .sort((a, b) => a.symbol.localeCompare(b.symbol))
+    .map(row => ({ symbol: row.symbol, name: row.name, sector: row.sector || previous.get(row.symbol)?.sector || 'Lainnya' }));
+  const unknownSectors = [...new Set(companies.map(c => c.sector).filter(s => !Object.values(SECTOR_NAMES).includes(s)))];
+  if (unknownSectors.length > 0) console.warn(`Sektor tidak dikenal (dipakai apa adanya): ${unknownSectors.join(', ')}`);
+
+  let fetched = 0;
+  let kept = 0;
+  const failed: string[] = [];
+  if (args.includes('--skip-fundamentals')) {
+    companies.forEach(company => Object.assign(company, pickFundamentals(previous.get(company.symbol))));
+  } else {
+    let nextIndex = 0;
+    const worker = async () => {
+      while (nextIndex < companies.length) {
+        const company = companies[nextIndex++];
+        try {
+          const fundamentals = await fetchFundamentals(company.symbol);
+          if (!fundamentals) throw new Error('Laporan tidak lengkap');
+          Object.assign(company, fundamentals);
+          fetched++;
+        } catch (error) {
+          const old = pickFundamentals(previous.get(company.symbol));
+          if (Object.keys(old).length > 0) kept++;
+          Object.assign(company, old);
+          failed.push(`${company.symbol} (${(error as Error).message})`);
+        }
+        if ((fetched + failed.length) % 50 === 0) console.log(`  ${fetched + failed.length}/${companies.length}`);
+      }
+    };
+    await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  }
+
+  const withFundamentals = companies.filter(c => c.fundamentalsAsOf).length;
+  writeFileSync(OUTPUT_PATH, formatUniverse({
+    version: existing?.version ?? 1,
+    updatedAt: new Date().toISOString().split('T')[0],
+    source: 'Daftar emiten tercatat IDX (GetCompanyProfiles) per sektor IDX-IC; fundamental per saham dari '
+      + 'laporan keuangan Yahoo Finance (EPS & dividen TTM, dalam IDR); emiten tanpa fundamentalsAsOf belum punya data',
+    companies,
+  }));
+
+  console.log(`Tersimpan ${companies.length} emiten ke ${OUTPUT_PATH}`);
+  console.log(`Fundamental: ${withFundamentals} emiten (${fetched} baru, ${kept} dari file lama)`);
+  if (failed.length > 0) console.log(`Gagal (${failed.length}): ${failed.slice(0, 20).join(', ')}${failed.length > 20 ? ', ...' : ''}`);
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,201 @@
+/**
+ * Alert Channel Mock Server
+ * Local stand-in for Telegram sendMessage, the alert webhook and the SMTP relay, mounted on the Vite dev server
+ *
+ * - POST /api/mock-alerts/telegram/bot<token>/sendMessage -> respons gaya Bot API ({ ok, result })
+ * - POST /api/mock-alerts/webhook                          -> { received: true }
+ * - POST /api/mock-alerts/email                            -> { accepted: [to], messageId }
+ * - GET  /api/mock-alerts/messages                         -> semua request yang diterima (terbaru dulu)
+ * - DELETE /api/mock-alerts/messages                       -> kosongkan log
+ *
+ * Mode kegagalan ditulis sebagai segmen path sebelum channel, supaya bisa dipakai juga sebagai
+ * API Base URL Telegram (mis. /api/mock-alerts/fail-2/telegram):
+ * - fail        -> selalu HTTP 500
+ * - fail-N      -> N request gagal (503), request ke-N+1 berhasil, lalu berulang; fail-2 membuat
+ *                  pengiriman berhasil di percobaan ketiga, fail-3 membuat status akhir 'failed'
+ * - status-XXX  -> selalu HTTP XXX (mis. status-401, status-429)
+ * - timeout     -> tidak menjawab sampai client membatalkan (timeout client 8 detik)
+ *
+ * Hanya untuk development; tidak ada yang benar-benar dikirim.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+
+type MockChannel = 'telegram' | 'webhook' | 'email';
+
+interface MockMessage {
+  id: number;
+  channel: MockChannel;
+  mode: string;
+  status: number;
+  receivedAt: string;
+  path: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export const ALERT_MOCK_PATH = '/api/mock-alerts';
+
+const MAX_MESSAGES = 100;
+const MAX_BODY_BYTES = 64 * 1024;
+const TIMEOUT_HOLD_MS = 30000;
+// Header yang dicatat (untuk cek secret webhook & API key relay)
+const RECORDED_HEADERS = ['content-type', 'authorization', 'x-rizbot-secret'];
+
+const messages: MockMessage[] = [];
+const failCounters = new Map<string, number>();
+let nextId = 1;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    const raw = Buffer.concat(chunks).toString('utf8');
+    try {
+      resolve(raw ? JSON.parse(raw) : null);
+    } catch {
+      resolve(raw);
+    }
+  });
+  req.on('error', reject);
+});
+
+/**
+ * HTTP status to answer with for a failure mode, or null to succeed
+ * Penghitung fail-N terpisah per mode & channel.
+ */
+const resolveFailure = (mode: string, channel: MockChannel): number | null => {
+  if (mode === 'fail') return 500;
+  const status = /^status-(\d{3})$/.exec(mode);
+  if (status) return Number(status[1]);
+
+  const failN = /^fail-(\d+)$/.exec(mode);
+  if (!failN) return null;
+  const limit = Number(failN[1]);
+  const key = `${mode}:${channel}`;
+  const count = failCounters.get(key) || 0;
+  failCounters.set(key, (count + 1) % (limit + 1));
+  return count < limit ? 503 : null;
+};
+
+const successBody = (channel: MockChannel, id: number, body: any): unknown => {
+  switch (channel) {
+    case 'telegram':
+      return {
+        ok: true,
+        result: { message_id: id, chat: { id: body?.chat_id }, date: Math.floor(Date.now() / 1000), text: body?.text },
+      };
+    case 'webhook':
+      return { received: true, id };
+    case 'email':
+      return { accepted: [body?.to].filter(Boolean), messageId: `<mock-${id}@rizbot.local>` };
+  }
+};
+
+const failureBody = (channel: MockChannel, status: number): unknown =>
+  channel === 'telegram'
+    ? { ok: false, error_code: status, description: `Mock failure (${status})` }
+    : { error: `Mock failure (${status})` };
+
+// /<mode>/<channel>/... atau /<channel>/...
+const parseRoute = (url: string): { mode: string; channel: MockChannel } | null => {
+  const segments = new URL(url, 'http://localhost').pathname.split('/').filter(Boolean);
+  const isChannel = (value?: string): value is MockChannel =>
+    value === 'telegram' || value === 'webhook' || value === 'email';
+  if (isChannel(segments[0])) return { mode: 'ok', channel: segments[0] };
+  if (isChannel(segments[1])) return { mode: segments[0], channel: segments[1] };
+  return null;
+};
+
+const handleMock = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = req.url || '/';
+
+  if (url.replace(/\?.*$/, '') === '/messages') {
+    if (req.method === 'DELETE') {
+      messages.length = 0;
+      failCounters.clear();
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+    sendJson(res, 200, messages);
+    return;
+  }
+
+  const route = parseRoute(url);
+  if (!route) {
+    sendJson(res, 404, { error: 'Unknown mock endpoint' });
+    return;
+  }
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  let body: unknown;
+  try {
+    body = await readBody(req);
+  } catch (error) {
+    sendJson(res, 413, { error: (error as Error).message });
+    return;
+  }
+
+  const { mode, channel } = route;
+  const id = nextId++;
+  const failure = mode === 'timeout' ? 504 : resolveFailure(mode, channel);
+  messages.unshift({
+    id,
+    channel,
+    mode,
+    status: failure ?? 200,
+    receivedAt: new Date().toISOString(),
+    path: url,
+    headers: Object.fromEntries(RECORDED_HEADERS
+      .filter(name => typeof req.headers[name] === 'string')
+      .map(name => [name, req.headers[name] as string])),
+    body,
+  });
+  messages.length = Math.min(messages.length, MAX_MESSAGES);
+
+  if (mode === 'timeout') {
+    // Jawab terlambat (setelah client menyerah); koneksi yang sudah ditutup tidak ditulisi
+    const timer = setTimeout(() => sendJson(res, 504, failureBody(channel, 504)), TIMEOUT_HOLD_MS);
+    res.on('close', () => clearTimeout(timer));
+    return;
+  }
+  if (failure !== null) {
+    sendJson(res, failure, failureBody(channel, failure));
+    return;
+  }
+  sendJson(res, 200, successBody(channel, id, body));
+};
+
+/**
+ * Vite plugin serving the alert channel mocks on the dev & preview servers
+ */
+export const alertChannelMockServer = (): Plugin => ({
+  name: 'rizbot-alert-channel-mock',
+  configureServer(server) {
+    server.middlewares.use(ALERT_MOCK_PATH, handleMock);
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(ALERT_MOCK_PATH, handleMock);
+  },
+});
+
+export default alertChannelMockServer;
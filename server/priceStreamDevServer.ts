@@ -0,0 +1,153 @@
+/**
+ * Price Stream Dev Server
+ * Local stand-in for the streaming price backend, mounted on the Vite dev server
+ *
+ * - GET /api/price-stream?symbols=BBCA,TLKM -> Server-Sent Events, satu event `tick` per simbol
+ * - Harga diambil langsung dari Yahoo Finance (server-side, tanpa CORS proxy) dan di-share
+ *   antar koneksi; kalau Yahoo gagal, harga berjalan acak dari harga asli terakhir dan ditandai simulated
+ * - Simbol yang belum pernah punya harga asli tidak dikirim sama sekali (tidak ada harga karangan)
+ * - Hanya untuk development; di production arahkan URL stream ke backend sungguhan
+ *   atau biarkan client jatuh ke polling
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+
+interface StreamQuote {
+  symbol: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  volume?: number;
+  timestamp: number;
+  simulated: boolean;
+  source: string;
+}
+
+export const PRICE_STREAM_PATH = '/api/price-stream';
+
+const TICK_INTERVAL_MS = 5000;
+const UPSTREAM_REFRESH_MS = 15000;
+const UPSTREAM_TIMEOUT_MS = 8000;
+const HEARTBEAT_INTERVAL_MS = 20000;
+const MAX_SYMBOLS = 100;
+
+const quotes = new Map<string, StreamQuote>();
+const lastUpstreamFetch = new Map<string, number>();
+
+const fetchUpstreamQuote = async (symbol: string): Promise<StreamQuote> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS);
+  try {
+    const url = `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}.JK?interval=1d&range=5d`;
+    const response = await fetch(url, { signal: controller.signal, headers: { Accept: 'application/json' } });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const meta = (await response.json())?.chart?.result?.[0]?.meta;
+    const price = Number(meta?.regularMarketPrice);
+    const previousClose = Number(meta?.chartPreviousClose || meta?.previousClose);
+    if (!Number.isFinite(price) || price <= 0) throw new Error('No price');
+
+    const change = previousClose > 0 ? price - previousClose : 0;
+    return {
+      symbol,
+      price,
+      change,
+      changePercent: previousClose > 0 ? (change / previousClose) * 100 : 0,
+      volume: Number(meta?.regularMarketVolume) || undefined,
+      timestamp: Date.now(),
+      simulated: false,
+      source: 'Yahoo Finance (stream)',
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+// Random walk from the last known price (±0.1%), ditandai simulated; null tanpa harga asli sebelumnya
+const simulateQuote = (symbol: string): StreamQuote | null => {
+  const last = quotes.get(symbol);
+  if (!last) return null;
+  const previousClose = last.price - last.change;
+  const price = Math.max(1, Math.round(last.price * (1 + (Math.random() - 0.5) * 0.002)));
+  const change = price - previousClose;
+  return {
+    symbol,
+    price,
+    change,
+    changePercent: previousClose > 0 ? (change / previousClose) * 100 : 0,
+    volume: last.volume,
+    timestamp: Date.now(),
+    simulated: true,
+    source: 'Simulator (stream)',
+  };
+};
+
+const getQuote = async (symbol: string): Promise<StreamQuote | null> => {
+  const lastFetch = lastUpstreamFetch.get(symbol) || 0;
+  const cached = quotes.get(symbol);
+  if (cached && Date.now() - lastFetch < UPSTREAM_REFRESH_MS) {
+    if (!cached.simulated) return { ...cached, timestamp: Date.now() };
+    const simulated = simulateQuote(symbol);
+    if (simulated) quotes.set(symbol, simulated);
+    return simulated;
+  }
+
+  lastUpstreamFetch.set(symbol, Date.now());
+  let quote: StreamQuote | null;
+  try {
+    quote = await fetchUpstreamQuote(symbol);
+  } catch {
+    quote = simulateQuote(symbol);
+  }
+  if (quote) quotes.set(symbol, quote);
+  return quote;
+};
+
+const parseSymbols = (url: string): string[] => {
+  const raw = new URL(url, 'http://localhost').searchParams.get('symbols') || '';
+  return [...new Set(raw.split(',').map(s => s.trim().toUpperCase()).filter(s => /^[A-Z0-9-]+$/.test(s)))]
+    .slice(0, MAX_SYMBOLS);
+};
+
+const handleStream = (req: IncomingMessage, res: ServerResponse) => {
+  const symbols = parseSymbols(req.url || '');
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(`retry: ${TICK_INTERVAL_MS}\n\n`);
+
+  let isOpen = true;
+  const sendTicks = async () => {
+    const ticks = await Promise.all(symbols.map(getQuote));
+    if (!isOpen) return;
+    ticks.forEach(tick => tick && res.write(`event: tick\ndata: ${JSON.stringify(tick)}\n\n`));
+  };
+
+  sendTicks();
+  const tickTimer = setInterval(sendTicks, TICK_INTERVAL_MS);
+  const heartbeatTimer = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  req.on('close', () => {
+    isOpen = false;
+    clearInterval(tickTimer);
+    clearInterval(heartbeatTimer);
+  });
+};
+
+/**
+ * Vite plugin serving the SSE price stream on the dev & preview servers
+ */
+export const priceStreamDevServer = (): Plugin => ({
+  name: 'rizbot-price-stream',
+  configureServer(server) {
+    server.middlewares.use(PRICE_STREAM_PATH, handleStream);
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(PRICE_STREAM_PATH, handleStream);
+  },
+});
+
+export default priceStreamDevServer;
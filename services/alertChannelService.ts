@@ -0,0 +1,315 @@
+/**
+ * Alert Channel Service
+ * Delivers triggered alerts to external channels: Telegram bot, HTTP webhook and email
+ *
+ * - Telegram: Bot API sendMessage (khusus paket Elite, fitur 'telegram_alerts')
+ * - Webhook: POST JSON payload ke URL pilihan pengguna
+ * - Email: POST JSON ke endpoint relay SMTP yang meneruskan email
+ *
+ * Setiap channel dicoba ulang dengan backoff; status pengiriman disimpan di log trigger.
+ * Base URL Telegram bisa diganti sehingga semua channel bisa diarahkan ke mock server lokal
+ * (server/alertChannelMockServer, di dev server pada /api/mock-alerts; lihat buildMockChannelConfig).
+ */
+
+import {
+  PriceAlert,
+  AlertChannel,
+  ChannelDelivery,
+  AlertTriggerLogEntry,
+  DEFAULT_ALERT_CHANNELS,
+  formatAlertMessage,
+  getTriggerLogId,
+  updateTriggerLogDelivery,
+} from './priceAlertService';
+import { isPremiumFeatureAvailable } from './usageLimiter';
+
+export type ExternalAlertChannel = Exclude<AlertChannel, 'browser'>;
+
+export interface TelegramChannelConfig {
+  botToken: string;
+  chatId: string;
+  apiBaseUrl: string;
+}
+
+export interface WebhookChannelConfig {
+  url: string;
+  secret: string;             // Dikirim sebagai header X-Rizbot-Secret (opsional)
+}
+
+export interface EmailChannelConfig {
+  relayUrl: string;
+  to: string;
+  apiKey: string;             // Bearer token untuk relay (opsional)
+}
+
+export interface AlertChannelConfig {
+  telegram: TelegramChannelConfig;
+  webhook: WebhookChannelConfig;
+  email: EmailChannelConfig;
+}
+
+// Isi pesan yang dikirim ke semua channel
+export interface AlertDeliveryPayload {
+  event: 'alert.triggered' | 'alert.test';
+  alertId: string;
+  symbol: string;
+  condition: string;
+  message: string;
+  price: number;
+  note?: string;
+  triggeredAt: string;        // ISO 8601
+}
+
+export const ALERT_CHANNEL_LABELS: Record<AlertChannel, string> = {
+  browser: 'Browser',
+  telegram: 'Telegram',
+  webhook: 'Webhook',
+  email: 'Email',
+};
+
+export const DEFAULT_TELEGRAM_API_URL = 'https://api.telegram.org';
+export const MOCK_CHANNEL_BASE_URL = '/api/mock-alerts';
+
+const CHANNEL_CONFIG_KEY = 'rizbot_alert_channels';
+const MAX_DELIVERY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const REQUEST_TIMEOUT_MS = 8000;
+
+const DEFAULT_CHANNEL_CONFIG: AlertChannelConfig = {
+  telegram: { botToken: '', chatId: '', apiBaseUrl: DEFAULT_TELEGRAM_API_URL },
+  webhook: { url: '', secret: '' },
+  email: { relayUrl: '', to: '', apiKey: '' },
+};
+
+/**
+ * Load channel settings
+ */
+export const loadChannelConfig = (): AlertChannelConfig => {
+  try {
+    const stored = localStorage.getItem(CHANNEL_CONFIG_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return {
+        telegram: { ...DEFAULT_CHANNEL_CONFIG.telegram, ...parsed.telegram },
+        webhook: { ...DEFAULT_CHANNEL_CONFIG.webhook, ...parsed.webhook },
+        email: { ...DEFAULT_CHANNEL_CONFIG.email, ...parsed.email },
+      };
+    }
+  } catch (e) {
+    console.error('Failed to load alert channel config:', e);
+  }
+  return DEFAULT_CHANNEL_CONFIG;
+};
+
+/**
+ * Save channel settings
+ */
+export const saveChannelConfig = (config: AlertChannelConfig) => {
+  localStorage.setItem(CHANNEL_CONFIG_KEY, JSON.stringify(config));
+};
+
+// Whether a channel has all required settings
+export const isChannelConfigured = (channel: AlertChannel, config: AlertChannelConfig = loadChannelConfig()): boolean => {
+  switch (channel) {
+    case 'browser':
+      return true;
+    case 'telegram':
+      return !!config.telegram.botToken && !!config.telegram.chatId;
+    case 'webhook':
+      return !!config.webhook.url;
+    case 'email':
+      return !!config.email.relayUrl && !!config.email.to;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Channel settings pointing every channel at the dev mock server
+ * @param mode - Mode kegagalan mock: 'ok', 'fail', 'fail-N', 'status-XXX' atau 'timeout'
+ */
+export const buildMockChannelConfig = (origin: string, mode: string = 'ok'): AlertChannelConfig => {
+  const base = `${origin.replace(/\/$/, '')}${MOCK_CHANNEL_BASE_URL}${mode === 'ok' ? '' : `/${mode}`}`;
+  return {
+    telegram: { botToken: 'mock-token', chatId: 'mock-chat', apiBaseUrl: `${base}/telegram` },
+    webhook: { url: `${base}/webhook`, secret: 'mock-secret' },
+    email: { relayUrl: `${base}/email`, to: 'alerts@rizbot.local', apiKey: 'mock-key' },
+  };
+};
+
+// Telegram alerts are an Elite feature
+export const isChannelAllowed = (channel: AlertChannel): boolean =>
+  channel !== 'telegram' || isPremiumFeatureAvailable('telegram_alerts').available;
+
+const formatText = (payload: AlertDeliveryPayload): string => [
+  `🔔 ${payload.message}`,
+  `Harga: Rp ${payload.price.toLocaleString('id-ID')}`,
+  payload.note ? `Catatan: ${payload.note}` : '',
+  new Date(payload.triggeredAt).toLocaleString('id-ID'),
+].filter(Boolean).join('\n');
+
+const postJson = async (url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+/**
+ * Send one payload to one channel (single attempt)
+ */
+export const sendToChannel = async (
+  channel: ExternalAlertChannel,
+  payload: AlertDeliveryPayload,
+  config: AlertChannelConfig = loadChannelConfig()
+): Promise<void> => {
+  switch (channel) {
+    case 'telegram': {
+      const { botToken, chatId, apiBaseUrl } = config.telegram;
+      const baseUrl = (apiBaseUrl || DEFAULT_TELEGRAM_API_URL).replace(/\/$/, '');
+      await postJson(`${baseUrl}/bot${botToken}/sendMessage`, { chat_id: chatId, text: formatText(payload) });
+      return;
+    }
+    case 'webhook': {
+      const { url, secret } = config.webhook;
+      await postJson(url, payload, secret ? { 'X-Rizbot-Secret': secret } : {});
+      return;
+    }
+    case 'email': {
+      const { relayUrl, to, apiKey } = config.email;
+      await postJson(
+        relayUrl,
+        { to, subject: `[RIZBOT] Alert ${payload.symbol}`, text: formatText(payload), payload },
+        apiKey ? { Authorization: `Bearer ${apiKey}` } : {}
+      );
+      return;
+    }
+  }
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Send to a channel with retry (backoff 1s, 2s, ...)
+ * @param onAttempt - Called with the status after every attempt
+ */
+export const deliverWithRetry = async (
+  channel: ExternalAlertChannel,
+  payload: AlertDeliveryPayload,
+  onAttempt?: (delivery: ChannelDelivery) => void
+): Promise<ChannelDelivery> => {
+  const config = loadChannelConfig();
+  if (!isChannelAllowed(channel)) {
+    const skipped: ChannelDelivery = { channel, status: 'skipped', attempts: 0, error: 'Khusus paket Elite' };
+    onAttempt?.(skipped);
+    return skipped;
+  }
+  if (!isChannelConfigured(channel, config)) {
+    const skipped: ChannelDelivery = { channel, status: 'skipped', attempts: 0, error: 'Channel belum dikonfigurasi' };
+    onAttempt?.(skipped);
+    return skipped;
+  }
+
+  let delivery: ChannelDelivery = { channel, status: 'pending', attempts: 0 };
+  for (let attempt = 1; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+    try {
+      await sendToChannel(channel, payload, config);
+      delivery = { channel, status: 'sent', attempts: attempt, deliveredAt: Date.now() };
+      onAttempt?.(delivery);
+      return delivery;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Pengiriman gagal';
+      const isLast = attempt === MAX_DELIVERY_ATTEMPTS;
+      delivery = { channel, status: isLast ? 'failed' : 'pending', attempts: attempt, error: message };
+      onAttempt?.(delivery);
+      if (!isLast) await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+  return delivery;
+};
+
+const buildPayload = (alert: PriceAlert, price: number): AlertDeliveryPayload => ({
+  event: 'alert.triggered',
+  alertId: alert.id,
+  symbol: alert.symbol,
+  condition: alert.condition,
+  message: formatAlertMessage(alert),
+  price,
+  note: alert.note,
+  triggeredAt: new Date(alert.triggeredAt || Date.now()).toISOString(),
+});
+
+/**
+ * Deliver a triggered alert to its external channels, recording status on the trigger log
+ */
+export const deliverAlertToChannels = async (alert: PriceAlert, price: number): Promise<ChannelDelivery[]> => {
+  const channels = (alert.channels || DEFAULT_ALERT_CHANNELS)
+    .filter((c): c is ExternalAlertChannel => c !== 'browser');
+  if (channels.length === 0) return [];
+
+  const logId = getTriggerLogId(alert);
+  const payload = buildPayload(alert, price);
+  return Promise.all(channels.map(channel =>
+    deliverWithRetry(channel, payload, delivery => updateTriggerLogDelivery(logId, delivery))
+  ));
+};
+
+/**
+ * Re-send a logged trigger to the channels that failed
+ */
+export const retryFailedDeliveries = async (entry: AlertTriggerLogEntry): Promise<ChannelDelivery[]> => {
+  const failed = (entry.deliveries || [])
+    .filter(d => d.status === 'failed' || d.status === 'skipped')
+    .map(d => d.channel as ExternalAlertChannel);
+  const payload: AlertDeliveryPayload = {
+    event: 'alert.triggered',
+    alertId: entry.alertId,
+    symbol: entry.symbol,
+    condition: entry.condition,
+    message: entry.message,
+    price: entry.price,
+    triggeredAt: new Date(entry.triggeredAt).toISOString(),
+  };
+  return Promise.all(failed.map(channel =>
+    deliverWithRetry(channel, payload, delivery => updateTriggerLogDelivery(entry.id, delivery))
+  ));
+};
+
+/**
+ * Send a test message to check a channel's settings
+ */
+export const sendTestMessage = (channel: ExternalAlertChannel): Promise<ChannelDelivery> =>
+  deliverWithRetry(channel, {
+    event: 'alert.test',
+    alertId: 'test',
+    symbol: 'TEST',
+    condition: 'above',
+    message: 'Tes notifikasi RIZBOT',
+    price: 0,
+    triggeredAt: new Date().toISOString(),
+  });
+
+export default {
+  ALERT_CHANNEL_LABELS,
+  loadChannelConfig,
+  saveChannelConfig,
+  isChannelConfigured,
+  buildMockChannelConfig,
+  isChannelAllowed,
+  sendToChannel,
+  deliverWithRetry,
+  deliverAlertToChannels,
+  retryFailedDeliveries,
+  sendTestMessage,
+};
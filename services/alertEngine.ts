@@ -0,0 +1,127 @@
+/**
+ * Alert Engine
+ * Background evaluation of price & technical alerts for every symbol with active alerts
+ *
+ * - Semua simbol dengan alert aktif di-subscribe ke price stream hub dan dievaluasi per tick,
+ *   tidak tergantung saham yang sedang dibuka
+ * - Tick hanya dievaluasi di hari & jam bursa IDX (kalender bursa, termasuk libur dan istirahat siang)
+ * - Tick simulasi dan tick stale (harga terakhir saat semua provider gagal) diabaikan; alert hanya boleh
+ *   terpicu oleh harga pasar asli yang baru
+ * - Daftar simbol disinkronkan ulang tiap 60 detik (alert baru/terhapus); browser membatasi timer
+ *   tab background ~1x per menit, notifikasi tetap dikirim lewat service worker
+ * - Alert yang ter-trigger juga dikirim ke channel eksternal pilihan alert (Telegram, webhook, email)
+ */
+
+import {
+  PriceAlert,
+  DEFAULT_ALERT_CHANNELS,
+  getActiveAlerts,
+  checkAlertsWithHistory,
+  triggerAlertNotification,
+  registerAlertServiceWorker,
+} from './priceAlertService';
+import { deliverAlertToChannels } from './alertChannelService';
+import { getMarketStatus } from './marketCalendarService';
+import { subscribePriceTicks, PriceTick } from './priceStreamService';
+
+export interface AlertEngineOptions {
+  intervalMs?: number;                        // Interval sinkronisasi daftar simbol alert
+  respectMarketHours?: boolean;
+  onTriggered?: (alerts: PriceAlert[], price: number) => void;
+}
+
+const DEFAULT_INTERVAL_MS = 60000;
+
+/**
+ * Unique symbols that have at least one active alert
+ */
+export const getAlertSymbols = (): string[] =>
+  [...new Set(getActiveAlerts().map(a => a.symbol))];
+
+/**
+ * Evaluate the alerts of one symbol at a known price and fire notifications
+ * Pengiriman ke channel eksternal berjalan di background (dengan retry).
+ * @returns Alerts that were triggered
+ */
+export const evaluateSymbolAlerts = async (
+  symbol: string,
+  price: number,
+  changePercent?: number
+): Promise<PriceAlert[]> => {
+  const triggered = await checkAlertsWithHistory(symbol, price, changePercent);
+  triggered.forEach(alert => {
+    if ((alert.channels || DEFAULT_ALERT_CHANNELS).includes('browser')) {
+      triggerAlertNotification(alert, price);
+    }
+    deliverAlertToChannels(alert, price).catch(error => console.error('Alert delivery failed:', error));
+  });
+  return triggered;
+};
+
+/**
+ * Start evaluating all symbols with active alerts on every streamed tick
+ * @returns Stop function
+ */
+export const startAlertEngine = (options: AlertEngineOptions = {}): (() => void) => {
+  const {
+    intervalMs = DEFAULT_INTERVAL_MS,
+    respectMarketHours = true,
+    onTriggered,
+  } = options;
+  let isActive = true;
+  const subscriptions = new Map<string, () => void>();
+  const evaluating = new Set<string>();
+
+  // Post-closing ikut dicek agar harga penutupan final tetap terevaluasi
+  const isPriceMoving = () => {
+    const status = getMarketStatus();
+    return status.isOpen || status.phase === 'post_closing';
+  };
+
+  const handleTick = async (tick: PriceTick) => {
+    if (!isActive || tick.source.simulated || tick.source.stale || evaluating.has(tick.symbol)) return;
+    if (respectMarketHours && !isPriceMoving()) return;
+
+    // Satu evaluasi per simbol sekaligus; tick yang datang selama evaluasi dilewati
+    evaluating.add(tick.symbol);
+    try {
+      const triggered = await evaluateSymbolAlerts(tick.symbol, tick.price, tick.changePercent);
+      if (isActive && triggered.length > 0) onTriggered?.(triggered, tick.price);
+    } catch (error) {
+      console.error(`Alert check failed for ${tick.symbol}:`, error);
+    } finally {
+      evaluating.delete(tick.symbol);
+    }
+  };
+
+  // Subscribe new alert symbols and drop symbols without active alerts
+  const syncSymbols = () => {
+    const symbols = new Set(getAlertSymbols());
+    symbols.forEach(symbol => {
+      if (!subscriptions.has(symbol)) subscriptions.set(symbol, subscribePriceTicks(symbol, handleTick));
+    });
+    subscriptions.forEach((unsubscribe, symbol) => {
+      if (!symbols.has(symbol)) {
+        unsubscribe();
+        subscriptions.delete(symbol);
+      }
+    });
+  };
+
+  registerAlertServiceWorker();
+  syncSymbols();
+  const syncTimer = setInterval(syncSymbols, intervalMs);
+
+  return () => {
+    isActive = false;
+    clearInterval(syncTimer);
+    subscriptions.forEach(unsubscribe => unsubscribe());
+    subscriptions.clear();
+  };
+};
+
+export default {
+  getAlertSymbols,
+  evaluateSymbolAlerts,
+  startAlertEngine,
+};
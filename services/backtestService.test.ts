@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { StockData } from '../types';
+import { FEE_PROFILES, FeeSchedule, calculateTradeFees } from './feeService';
+import { runBacktest, getStrategy, DEFAULT_BACKTEST_CONFIG } from './backtestService';
+import { calculateTechnicalIndicators, calculateTechnicalIndicatorSeries } from '../utils/signals';
+import { roundToTick } from '../utils/marketRules';
+
+vi.mock('./stockApiService', () => ({ fetchHistoryWithSource: vi.fn() }));
+
+// Turun lalu naik lalu turun lagi: EMA20/50 golden cross lalu death cross
+const BARS: StockData[] = Array.from({ length: 200 }, (_, i) => {
+  const close = i < 60 ? 1000 - i * 5 : i < 130 ? 700 + (i - 60) * 10 : 1400 - (i - 130) * 10;
+  return { time: `D${i}`, open: close, high: close + 10, low: close - 10, close, volume: 1000000 };
+});
+
+const ZERO_FEES: FeeSchedule = {
+  buyCommissionPercent: 0,
+  sellCommissionPercent: 0,
+  levyPercent: 0,
+  vatPercent: 0,
+  salesTaxPercent: 0,
+  minCommission: 0,
+};
+
+beforeEach(() => {
+  // Backtest harus murni: akses localStorage (portofolio aktif, profil fee custom) dianggap bug
+  vi.stubGlobal('localStorage', new Proxy({}, {
+    get: () => {
+      throw new Error('runBacktest must not read localStorage');
+    },
+  }));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('runBacktest fees', () => {
+  const config = { ...DEFAULT_BACKTEST_CONFIG, symbol: 'TEST', strategy: 'ema_cross' as const, initialCapital: 10000000 };
+
+  it('charges the configured fee schedule on every trade', () => {
+    const fees = FEE_PROFILES.find(p => p.id === 'ipot')!;
+    const result = runBacktest(BARS, { ...config, fees });
+
+    expect(result.trades.length).toBeGreaterThan(0);
+    result.trades.forEach(trade => {
+      expect(trade.buyFee).toBe(calculateTradeFees('buy', trade.lots, trade.entryPrice, fees).total);
+      expect(trade.sellFee).toBe(calculateTradeFees('sell', trade.lots, trade.exitPrice, fees).total);
+    });
+    expect(result.totalFees).toBe(result.trades.reduce((sum, t) => sum + t.buyFee + t.sellFee, 0));
+  });
+
+  it('keeps the buy affordable including fees and reports no fees for a zero schedule', () => {
+    const withFees = runBacktest(BARS, config);
+    const free = runBacktest(BARS, { ...config, fees: ZERO_FEES });
+
+    const firstWithFees = withFees.trades[0];
+    expect(firstWithFees.lots * 100 * firstWithFees.entryPrice + firstWithFees.buyFee).toBeLessThanOrEqual(config.initialCapital);
+    expect(free.totalFees).toBe(0);
+    expect(free.finalEquity).toBeGreaterThan(withFees.finalEquity);
+  });
+});
+
+describe('runBacktest execution', () => {
+  const config = {
+    ...DEFAULT_BACKTEST_CONFIG, symbol: 'TEST', strategy: 'ema_cross' as const, initialCapital: 10000000, fees: ZERO_FEES,
+  };
+  // Open di luar fraksi harga supaya terlihat harga open bar berikutnya yang dipakai
+  const GAPPED: StockData[] = BARS.map(bar => ({ ...bar, open: bar.close + 7 }));
+
+  it('fills signals at the next bar open, rounded to the tick against the trader', () => {
+    const signals = getStrategy('ema_cross').generateSignals(GAPPED, config);
+    const buyAt = signals.indexOf('buy');
+    const sellAt = signals.indexOf('sell', buyAt);
+    const [trade] = runBacktest(GAPPED, config).trades;
+
+    expect(trade).toMatchObject({
+      entryIndex: buyAt + 1,
+      entryPrice: roundToTick(GAPPED[buyAt + 1].open, 'up'),
+      exitIndex: sellAt + 1,
+      exitPrice: roundToTick(GAPPED[sellAt + 1].open, 'down'),
+      exitReason: 'signal',
+    });
+  });
+
+  describe('stop loss and take profit', () => {
+    const entry = runBacktest(GAPPED, config).trades[0];
+    const hitAt = entry.entryIndex + 2;
+    const withBar = (patch: Partial<StockData>) => GAPPED.map((bar, i) => (i === hitAt ? { ...bar, ...patch } : bar));
+
+    it('exits at the stop price when the low touches it', () => {
+      const [trade] = runBacktest(withBar({ low: entry.entryPrice * 0.9 }), { ...config, stopLossPercent: 5 }).trades;
+      expect(trade).toMatchObject({ exitIndex: hitAt, exitReason: 'stop_loss', exitPrice: roundToTick(entry.entryPrice * 0.95, 'down') });
+    });
+
+    it('exits at the open when the bar gaps through the stop', () => {
+      const open = entry.entryPrice * 0.85;
+      const [trade] = runBacktest(withBar({ open, low: open }), { ...config, stopLossPercent: 5 }).trades;
+      expect(trade).toMatchObject({ exitIndex: hitAt, exitReason: 'stop_loss', exitPrice: roundToTick(open, 'down') });
+    });
+
+    it('exits at the target when the high touches it, and prefers the stop when both are hit', () => {
+      const bars = withBar({ high: entry.entryPrice * 1.2 });
+      const [target] = runBacktest(bars, { ...config, takeProfitPercent: 10 }).trades;
+      expect(target).toMatchObject({ exitIndex: hitAt, exitReason: 'take_profit', exitPrice: roundToTick(entry.entryPrice * 1.1, 'down') });
+
+      const both = withBar({ high: entry.entryPrice * 1.2, low: entry.entryPrice * 0.9 });
+      const [stop] = runBacktest(both, { ...config, stopLossPercent: 5, takeProfitPercent: 10 }).trades;
+      expect(stop.exitReason).toBe('stop_loss');
+    });
+  });
+
+  it('recomputes the drawdown of the last point after the forced close', () => {
+    // Histori berhenti di tengah tren naik: posisi masih terbuka dan ditutup paksa dengan fee jual
+    const fees = FEE_PROFILES.find(p => p.id === 'ipot')!;
+    const result = runBacktest(BARS.slice(0, 120), { ...config, fees });
+    const last = result.equityCurve[result.equityCurve.length - 1];
+    const forcedClose = result.trades[result.trades.length - 1];
+    // Puncak termasuk nilai pasar posisi pada close terakhir, sebelum fee jual
+    const peak = Math.max(config.initialCapital, ...result.equityCurve.map(p => p.equity), last.equity + forcedClose.sellFee);
+
+    expect(forcedClose.exitReason).toBe('end_of_data');
+    expect(last.equity).toBe(result.finalEquity);
+    expect(last.drawdownPercent).toBeLessThan(0);
+    expect(last.drawdownPercent).toBeCloseTo(((last.equity - peak) / peak) * 100, 10);
+  });
+});
+
+describe('trading_recommendation signals', () => {
+  it('reads per-bar indicators that match recomputing on every history slice', () => {
+    const series = calculateTechnicalIndicatorSeries(BARS);
+    [0, 10, 19, 20, 49, 120, BARS.length - 1].forEach(i => {
+      expect(series[i]).toEqual(calculateTechnicalIndicators(BARS.slice(0, i + 1)));
+    });
+  });
+});
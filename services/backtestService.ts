@@ -0,0 +1,369 @@
+/**
+ * Backtest Service
+ * Replays historical bars through a rule-based strategy with IDX lot, fee and tick rules
+ *
+ * Model eksekusi:
+ * - Sinyal dihitung pada close bar ke-i, order dieksekusi pada open bar ke-(i+1)
+ * - Long only (tidak ada short selling untuk investor ritel IDX)
+ * - Harga beli dibulatkan ke atas, harga jual ke bawah sesuai fraksi harga
+ * - Fee dihitung dari FeeSchedule di config (murni, tidak membaca portofolio aktif atau localStorage)
+ * - Histori dari simulator tidak pernah di-backtest
+ */
+
+import { DataSourceInfo, StockData } from '../types';
+import { fetchHistoryWithSource } from './stockApiService';
+import { FeeSchedule, FEE_PROFILES, calculateTradeFees } from './feeService';
+import { calculateEMA, calculateRSI, calculateMACD } from '../utils/indicators';
+import {
+  calculateVolumeAnalysis,
+  calculateReversalEnginePro,
+  calculateTechnicalIndicatorSeries,
+  generateSignal,
+} from '../utils/signals';
+import { IDX_LOT_SIZE, roundToTick } from '../utils/marketRules';
+
+export type BacktestStrategyId = 'reversal_engine' | 'trading_recommendation' | 'ema_cross';
+
+export type BarSignal = 'buy' | 'sell' | null;
+
+export interface BacktestStrategy {
+  id: BacktestStrategyId;
+  name: string;
+  description: string;
+  warmupBars: number;
+  // Returns one signal per bar, using only data up to and including that bar
+  generateSignals: (data: StockData[], config: BacktestConfig) => BarSignal[];
+}
+
+export interface BacktestConfig {
+  symbol: string;
+  strategy: BacktestStrategyId;
+  days: number;                // Panjang histori yang diambil
+  initialCapital: number;      // Modal awal (Rp)
+  positionSizePercent: number; // % kas yang dipakai per entry (1-100)
+  stopLossPercent: number;     // 0 = nonaktif
+  takeProfitPercent: number;   // 0 = nonaktif
+  minSignalStrength: number;   // Ambang kekuatan untuk Reversal Engine (0-100)
+  riskFreeRate: number;        // Tahunan, untuk Sharpe ratio (0.06 = 6%)
+  fees: FeeSchedule;           // Tarif komisi, levy & pajak yang dipakai simulasi
+}
+
+export type ExitReason = 'signal' | 'stop_loss' | 'take_profit' | 'end_of_data';
+
+export interface BacktestTrade {
+  entryIndex: number;
+  entryTime: string;
+  entryPrice: number;
+  exitIndex: number;
+  exitTime: string;
+  exitPrice: number;
+  lots: number;
+  buyFee: number;
+  sellFee: number;
+  profitLoss: number;        // Net setelah fee
+  profitLossPercent: number; // Terhadap modal entry termasuk fee beli
+  holdingBars: number;
+  exitReason: ExitReason;
+}
+
+export interface EquityPoint {
+  time: string;
+  equity: number;
+  cash: number;
+  positionValue: number;
+  drawdownPercent: number;
+}
+
+export interface BacktestResult {
+  config: BacktestConfig;
+  bars: number;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  finalEquity: number;
+  totalReturnPercent: number;
+  cagrPercent: number;
+  maxDrawdownPercent: number;
+  winRate: number;
+  profitFactor: number;
+  sharpeRatio: number;
+  totalFees: number;
+  buyAndHoldReturnPercent: number;
+  source?: DataSourceInfo;   // Sumber histori (diisi backtestSymbol)
+}
+
+export const DEFAULT_BACKTEST_CONFIG: Omit<BacktestConfig, 'symbol'> = {
+  strategy: 'reversal_engine',
+  days: 365,
+  initialCapital: 100000000,
+  positionSizePercent: 100,
+  stopLossPercent: 0,
+  takeProfitPercent: 0,
+  minSignalStrength: 40,
+  riskFreeRate: 0,
+  fees: FEE_PROFILES[0],
+};
+
+// Jumlah hari bursa per tahun
+const TRADING_DAYS_PER_YEAR = 252;
+
+// --- Strategies ---
+
+export const BACKTEST_STRATEGIES: BacktestStrategy[] = [
+  {
+    id: 'reversal_engine',
+    name: 'Reversal Engine Pro',
+    description: 'RSI + MACD + Volume, beli saat reversal bullish dan jual saat reversal bearish',
+    warmupBars: 35,
+    generateSignals: (data, config) => {
+      const reversal = calculateReversalEnginePro(
+        data,
+        calculateRSI(data, 14),
+        calculateMACD(data, 12, 26, 9),
+        calculateVolumeAnalysis(data, 20)
+      );
+      return reversal.map(r => {
+        if (!r.type || r.strength < config.minSignalStrength) return null;
+        return r.type === 'bullish' ? 'buy' : 'sell';
+      });
+    },
+  },
+  {
+    id: 'trading_recommendation',
+    name: 'Trading Recommendation',
+    description: 'Skor multi-indikator (RSI, MACD, EMA, BB, volume), beli saat BUY dan jual saat SELL',
+    warmupBars: 50,
+    generateSignals: (data) => {
+      // Snapshot indikator per bar dihitung sekali, bukan ulang pada tiap potongan histori
+      const indicators = calculateTechnicalIndicatorSeries(data);
+      return data.map((d, i) => {
+        if (i < 49) return null;
+        const signal = generateSignal(indicators[i], { price: d.close });
+        if (signal.action === 'BUY' || signal.action === 'STRONG_BUY') return 'buy';
+        if (signal.action === 'SELL' || signal.action === 'STRONG_SELL') return 'sell';
+        return null;
+      });
+    },
+  },
+  {
+    id: 'ema_cross',
+    name: 'EMA 20/50 Cross',
+    description: 'Golden cross EMA20 di atas EMA50 untuk beli, death cross untuk jual',
+    warmupBars: 51,
+    generateSignals: (data) => {
+      const ema20 = calculateEMA(data, 20);
+      const ema50 = calculateEMA(data, 50);
+      return data.map((_, i) => {
+        const prevFast = ema20[i - 1];
+        const prevSlow = ema50[i - 1];
+        const fast = ema20[i];
+        const slow = ema50[i];
+        if (i === 0 || prevFast == null || prevSlow == null || fast === null || slow === null) return null;
+        if (prevFast <= prevSlow && fast > slow) return 'buy';
+        if (prevFast >= prevSlow && fast < slow) return 'sell';
+        return null;
+      });
+    },
+  },
+];
+
+export const getStrategy = (id: BacktestStrategyId): BacktestStrategy => {
+  const strategy = BACKTEST_STRATEGIES.find(s => s.id === id);
+  if (!strategy) throw new Error(`Strategi tidak dikenal: ${id}`);
+  return strategy;
+};
+
+// --- Engine ---
+
+interface OpenPosition {
+  entryIndex: number;
+  entryPrice: number;
+  lots: number;
+  buyFee: number;
+}
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+const stdDev = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const variance = values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+};
+
+/**
+ * Run a backtest over already-loaded bars (pure, no network)
+ */
+export const runBacktest = (data: StockData[], config: BacktestConfig): BacktestResult => {
+  const strategy = getStrategy(config.strategy);
+  if (data.length <= strategy.warmupBars + 1) {
+    throw new Error(`Data historis tidak cukup. Minimal ${strategy.warmupBars + 2} bar diperlukan`);
+  }
+  if (config.initialCapital <= 0) throw new Error('Modal awal harus lebih dari 0');
+
+  const signals = strategy.generateSignals(data, config);
+  const tradeFee = (side: 'buy' | 'sell', lots: number, price: number) =>
+    calculateTradeFees(side, lots, price, config.fees).total;
+  const sizeFraction = Math.min(100, Math.max(1, config.positionSizePercent)) / 100;
+
+  let cash = config.initialCapital;
+  let position: OpenPosition | null = null;
+  let peakEquity = config.initialCapital;
+  let pendingSignal: BarSignal = null;
+
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+
+  const closePosition = (index: number, rawPrice: number, reason: ExitReason) => {
+    if (!position) return;
+    const exitPrice = roundToTick(rawPrice, 'down');
+    const sellFee = tradeFee('sell', position.lots, exitPrice);
+    const proceeds = position.lots * IDX_LOT_SIZE * exitPrice - sellFee;
+    const cost = position.lots * IDX_LOT_SIZE * position.entryPrice + position.buyFee;
+    cash += proceeds;
+
+    trades.push({
+      entryIndex: position.entryIndex,
+      entryTime: data[position.entryIndex].time,
+      entryPrice: position.entryPrice,
+      exitIndex: index,
+      exitTime: data[index].time,
+      exitPrice,
+      lots: position.lots,
+      buyFee: position.buyFee,
+      sellFee,
+      profitLoss: proceeds - cost,
+      profitLossPercent: cost > 0 ? ((proceeds - cost) / cost) * 100 : 0,
+      holdingBars: index - position.entryIndex,
+      exitReason: reason,
+    });
+    position = null;
+  };
+
+  for (let i = 0; i < data.length; i++) {
+    const bar = data[i];
+
+    // 1. Eksekusi sinyal dari bar sebelumnya pada harga open
+    if (pendingSignal === 'buy' && !position) {
+      const entryPrice = roundToTick(bar.open, 'up');
+      const budget = cash * sizeFraction;
+      // Sisakan ruang untuk fee beli
+      let lots = Math.floor(budget / (entryPrice * IDX_LOT_SIZE));
+      while (lots > 0 && lots * IDX_LOT_SIZE * entryPrice + tradeFee('buy', lots, entryPrice) > cash) {
+        lots--;
+      }
+      if (lots > 0) {
+        const buyFee = tradeFee('buy', lots, entryPrice);
+        cash -= lots * IDX_LOT_SIZE * entryPrice + buyFee;
+        position = { entryIndex: i, entryPrice, lots, buyFee };
+      }
+    } else if (pendingSignal === 'sell' && position) {
+      closePosition(i, bar.open, 'signal');
+    }
+    pendingSignal = null;
+
+    // 2. Stop loss / take profit intrabar (stop diprioritaskan jika keduanya tersentuh)
+    if (position && i > position.entryIndex) {
+      const open: OpenPosition = position;
+      const stopPrice = config.stopLossPercent > 0 ? open.entryPrice * (1 - config.stopLossPercent / 100) : 0;
+      const targetPrice = config.takeProfitPercent > 0 ? open.entryPrice * (1 + config.takeProfitPercent / 100) : Infinity;
+
+      if (stopPrice > 0 && bar.low <= stopPrice) {
+        closePosition(i, Math.min(bar.open, stopPrice), 'stop_loss');
+      } else if (bar.high >= targetPrice) {
+        closePosition(i, Math.max(bar.open, targetPrice), 'take_profit');
+      }
+    }
+
+    // 3. Sinyal pada close bar ini untuk dieksekusi di bar berikutnya
+    if (i >= strategy.warmupBars) {
+      pendingSignal = signals[i];
+    }
+
+    // 4. Mark-to-market
+    const positionValue = position ? (position as OpenPosition).lots * IDX_LOT_SIZE * bar.close : 0;
+    const equity = cash + positionValue;
+    peakEquity = Math.max(peakEquity, equity);
+    equityCurve.push({
+      time: bar.time,
+      equity,
+      cash,
+      positionValue,
+      drawdownPercent: peakEquity > 0 ? ((equity - peakEquity) / peakEquity) * 100 : 0,
+    });
+  }
+
+  // Tutup posisi terbuka pada close terakhir agar hasil bisa dibandingkan
+  if (position) {
+    const lastIndex = data.length - 1;
+    closePosition(lastIndex, data[lastIndex].close, 'end_of_data');
+    // Fee jual & pembulatan tick menurunkan equity titik terakhir, drawdown-nya dihitung ulang
+    peakEquity = Math.max(peakEquity, cash);
+    equityCurve[lastIndex] = {
+      ...equityCurve[lastIndex],
+      equity: cash,
+      cash,
+      positionValue: 0,
+      drawdownPercent: peakEquity > 0 ? ((cash - peakEquity) / peakEquity) * 100 : 0,
+    };
+  }
+
+  const finalEquity = cash;
+  const totalReturnPercent = ((finalEquity - config.initialCapital) / config.initialCapital) * 100;
+  const years = data.length / TRADING_DAYS_PER_YEAR;
+  const cagrPercent = years > 0 && finalEquity > 0
+    ? (Math.pow(finalEquity / config.initialCapital, 1 / years) - 1) * 100
+    : -100;
+
+  const dailyReturns = equityCurve.slice(1).map((p, i) => {
+    const prev = equityCurve[i].equity;
+    return prev > 0 ? p.equity / prev - 1 : 0;
+  });
+  const dailyRiskFree = config.riskFreeRate / TRADING_DAYS_PER_YEAR;
+  const excessReturns = dailyReturns.map(r => r - dailyRiskFree);
+  const volatility = stdDev(excessReturns);
+  const sharpeRatio = volatility > 0 ? (mean(excessReturns) / volatility) * Math.sqrt(TRADING_DAYS_PER_YEAR) : 0;
+
+  const wins = trades.filter(t => t.profitLoss > 0);
+  const grossProfit = wins.reduce((sum, t) => sum + t.profitLoss, 0);
+  const grossLoss = Math.abs(trades.filter(t => t.profitLoss < 0).reduce((sum, t) => sum + t.profitLoss, 0));
+
+  const firstOpen = data[0].open || data[0].close;
+  const lastClose = data[data.length - 1].close;
+
+  return {
+    config,
+    bars: data.length,
+    trades,
+    equityCurve,
+    finalEquity,
+    totalReturnPercent,
+    cagrPercent,
+    maxDrawdownPercent: Math.min(0, ...equityCurve.map(p => p.drawdownPercent)),
+    winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+    sharpeRatio,
+    totalFees: trades.reduce((sum, t) => sum + t.buyFee + t.sellFee, 0),
+    buyAndHoldReturnPercent: firstOpen > 0 ? ((lastClose - firstOpen) / firstOpen) * 100 : 0,
+  };
+};
+
+/**
+ * Fetch history for the configured symbol and run the backtest
+ * @throws Error when only simulated history is available
+ */
+export const backtestSymbol = async (config: BacktestConfig): Promise<BacktestResult> => {
+  const history = await fetchHistoryWithSource(config.symbol, config.days);
+  if (history.source.simulated || history.data.length === 0) {
+    throw new Error(`Histori harga ${config.symbol} tidak tersedia dari provider pasar; backtest tidak dijalankan pada data simulasi`);
+  }
+  return { ...runBacktest(history.data, config), source: history.source };
+};
+
+export default {
+  BACKTEST_STRATEGIES,
+  DEFAULT_BACKTEST_CONFIG,
+  getStrategy,
+  runBacktest,
+  backtestSymbol,
+};
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { StockData } from '../types';
+import { getBarBucket, applyTickToBars, createBarAggregator } from './barAggregator';
+
+// Epoch ms untuk jam WIB; 10-12 Juni 2026 adalah Rabu-Jumat tanpa libur bursa
+const wib = (time: string, date: string = '2026-06-10') => new Date(`${date}T${time}+07:00`).getTime();
+
+describe('bar buckets', () => {
+  it('aligns bars to the WIB wall clock', () => {
+    expect(getBarBucket(wib('10:07:30'), '5m')).toEqual({ key: wib('10:05:00'), startAt: wib('10:05:00'), endAt: wib('10:10:00') });
+    expect(getBarBucket(wib('11:58:00'), '1h')).toEqual({ key: wib('11:00:00'), startAt: wib('11:00:00'), endAt: wib('12:00:00') });
+  });
+
+  it('cuts bars at session boundaries', () => {
+    // Sesi II mulai 13:30: bar 1 jam 13:00 hanya berisi 13:30-14:00
+    expect(getBarBucket(wib('13:45:00'), '1h')).toEqual({ key: wib('13:00:00'), startAt: wib('13:30:00'), endAt: wib('14:00:00') });
+    // Jumat sesi I berakhir 11:30
+    expect(getBarBucket(wib('11:29:00', '2026-06-12'), '1h')?.endAt).toBe(wib('11:30:00', '2026-06-12'));
+  });
+
+  it('ignores ticks outside continuous trading', () => {
+    expect(getBarBucket(wib('08:50:00'), '1m')).toBeNull();
+    expect(getBarBucket(wib('12:30:00'), '1m')).toBeNull();
+    expect(getBarBucket(wib('11:45:00', '2026-06-12'), '1m')).toBeNull();
+    expect(getBarBucket(wib('16:30:00'), '1m')).toBeNull();
+  });
+
+  it('puts pre-closing and post-closing ticks in the last bar of session II', () => {
+    const lastBar = { key: wib('15:45:00'), startAt: wib('15:45:00'), endAt: wib('15:50:00') };
+    expect(getBarBucket(wib('15:55:00'), '15m')).toEqual(lastBar);
+    expect(getBarBucket(wib('16:05:00'), '15m')).toEqual(lastBar);
+  });
+});
+
+describe('applying ticks', () => {
+  const tick = (time: string, price: number) => ({ price, timestamp: wib(time) });
+
+  it('updates the live bar and opens a new one in the next bucket', () => {
+    let bars: StockData[] = [];
+    bars = applyTickToBars(bars, tick('10:00:10', 9500), '1m');
+    bars = applyTickToBars(bars, tick('10:00:30', 9525), '1m');
+    bars = applyTickToBars(bars, tick('10:00:50', 9475), '1m');
+    bars = applyTickToBars(bars, tick('10:01:05', 9500), '1m');
+
+    expect(bars).toHaveLength(2);
+    expect(bars[0]).toMatchObject({ open: 9500, high: 9525, low: 9475, close: 9475, timestamp: wib('10:00:00') });
+    expect(bars[1]).toMatchObject({ open: 9500, close: 9500, timestamp: wib('10:01:00') });
+  });
+
+  it('drops late ticks and leaves bars without timestamps alone', () => {
+    const bars = applyTickToBars([], tick('10:05:00', 9500), '5m');
+    expect(applyTickToBars(bars, tick('10:04:59', 9000), '5m')).toBe(bars);
+
+    const mockBars: StockData[] = [{ time: '10:00', open: 1, high: 1, low: 1, close: 1, volume: 0 }];
+    expect(applyTickToBars(mockBars, tick('10:05:00', 9500), '5m')).toBe(mockBars);
+  });
+});
+
+describe('cumulative volume', () => {
+  it('adds the difference between cumulative daily volumes to the bar', () => {
+    const aggregator = createBarAggregator('1m');
+    const tick = (time: string, volume: number, date?: string) => ({ price: 9500, volume, timestamp: wib(time, date) });
+
+    let bars: StockData[] = [];
+    bars = aggregator.apply(bars, tick('10:00:10', 1000));
+    bars = aggregator.apply(bars, tick('10:00:30', 1500));
+    // Volume kumulatif turun (mis. koreksi feed): tidak ada volume negatif
+    bars = aggregator.apply(bars, tick('10:01:10', 1400));
+    bars = aggregator.apply(bars, tick('10:01:40', 2000));
+    expect(bars.map(b => b.volume)).toEqual([500, 600]);
+
+    // Hari bursa berikutnya mulai dari nol lagi
+    bars = aggregator.apply(bars, tick('09:00:30', 300, '2026-06-11'));
+    bars = aggregator.apply(bars, tick('09:00:50', 450, '2026-06-11'));
+    expect(bars.map(b => b.volume)).toEqual([500, 600, 150]);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Bar Aggregator
+ * Builds intraday candles (1m/5m/15m/1h) from live price ticks and merges them into fetched history
+ *
+ * - Bar mengikuti jam dinding WIB (09:00, 09:05, ...) dan dipotong di batas sesi,
+ *   jadi bar tidak pernah melewati istirahat siang atau hari bursa berikutnya
+ * - Tick saat istirahat siang, pre-opening dan pasar tutup diabaikan; tick pre-closing
+ *   dan post-closing (harga penutupan) masuk ke bar terakhir sesi II
+ * - Volume tick dari stream adalah volume kumulatif harian, jadi yang ditambahkan ke bar
+ *   adalah selisihnya dengan tick sebelumnya
+ */
+
+import { StockData } from '../types';
+import { HistoryInterval } from './marketDataProviders';
+import { getSessionWindowAt, WIB_UTC_OFFSET_HOURS } from './marketCalendarService';
+
+export type BarInterval = Exclude<HistoryInterval, '1d'>;
+
+export interface BarTick {
+  price: number;
+  volume?: number;        // Volume kumulatif harian
+  timestamp: number;
+}
+
+export interface BarBucket {
+  key: number;            // Awal bar menurut jam dinding (epoch ms)
+  startAt: number;        // Awal bar setelah dipotong awal sesi
+  endAt: number;          // Akhir bar (eksklusif), dipotong akhir sesi
+}
+
+export interface BarAggregator {
+  interval: BarInterval;
+  apply: (bars: StockData[], tick: BarTick) => StockData[];
+  reset: () => void;
+}
+
+export const BAR_INTERVALS: BarInterval[] = ['1m', '5m', '15m', '1h'];
+
+export const BAR_INTERVAL_MS: Record<BarInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+};
+
+const TRADING_PHASES = ['session_1', 'session_2'];
+const CLOSING_PHASES = ['pre_closing', 'post_closing'];
+
+/**
+ * Bar a tick belongs to, or null if the tick falls outside continuous trading
+ */
+export const getBarBucket = (timestamp: number, interval: BarInterval): BarBucket | null => {
+  let window = getSessionWindowAt(new Date(timestamp));
+  let at = timestamp;
+  // Pre-closing & post-closing: mundur sampai ke sesi II
+  while (window && CLOSING_PHASES.includes(window.phase)) {
+    at = window.startAt - 1;
+    window = getSessionWindowAt(new Date(at));
+  }
+  if (!window || !TRADING_PHASES.includes(window.phase)) return null;
+
+  // WIB = UTC+7 (jam penuh), jadi pembulatan epoch sudah sejajar jam dinding WIB
+  const intervalMs = BAR_INTERVAL_MS[interval];
+  const key = Math.floor(at / intervalMs) * intervalMs;
+  return {
+    key,
+    startAt: Math.max(key, window.startAt),
+    endAt: Math.min(key + intervalMs, window.endAt),
+  };
+};
+
+// Same label format as the intraday history bars
+const formatBarTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('id-ID', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Apply one tick to a bar series: update the live bar or open a new one
+ * Bar tanpa timestamp (data mock) tidak bisa disejajarkan dan dibiarkan apa adanya.
+ */
+export const applyTickToBars = (
+  bars: StockData[],
+  tick: BarTick,
+  interval: BarInterval,
+  volumeDelta: number = 0
+): StockData[] => {
+  const bucket = getBarBucket(tick.timestamp, interval);
+  if (!bucket || !Number.isFinite(tick.price) || tick.price <= 0) return bars;
+
+  const last = bars[bars.length - 1];
+  if (last && last.timestamp === undefined) return bars;
+
+  const intervalMs = BAR_INTERVAL_MS[interval];
+  if (last && last.timestamp! >= bucket.key && last.timestamp! < bucket.key + intervalMs) {
+    const updated = [...bars];
+    updated[updated.length - 1] = {
+      ...last,
+      close: tick.price,
+      high: Math.max(last.high, tick.price),
+      low: Math.min(last.low, tick.price),
+      volume: last.volume + volumeDelta,
+    };
+    return updated;
+  }
+
+  // Tick lebih lama dari bar terakhir (datang terlambat): abaikan
+  if (last && last.timestamp! > bucket.key) return bars;
+
+  return [...bars, {
+    time: formatBarTime(bucket.startAt),
+    open: tick.price,
+    high: tick.price,
+    low: tick.price,
+    close: tick.price,
+    volume: volumeDelta,
+    timestamp: bucket.startAt,
+  }];
+};
+
+/**
+ * Stateful aggregator for one symbol & interval (tracks cumulative volume between ticks)
+ */
+export const createBarAggregator = (interval: BarInterval): BarAggregator => {
+  let lastVolume: number | undefined;
+  let lastDay: string | undefined;
+
+  return {
+    interval,
+    apply: (bars, tick) => {
+      // Volume kumulatif mulai dari nol lagi setiap hari bursa
+      const day = new Date(tick.timestamp + WIB_UTC_OFFSET_HOURS * 3600 * 1000).toISOString().split('T')[0];
+      if (day !== lastDay) {
+        lastVolume = undefined;
+        lastDay = day;
+      }
+      const volumeDelta = tick.volume !== undefined && lastVolume !== undefined && tick.volume >= lastVolume
+        ? tick.volume - lastVolume
+        : 0;
+      if (tick.volume !== undefined) lastVolume = tick.volume;
+      return applyTickToBars(bars, tick, interval, volumeDelta);
+    },
+    reset: () => {
+      lastVolume = undefined;
+      lastDay = undefined;
+    },
+  };
+};
+
+export default {
+  BAR_INTERVALS,
+  BAR_INTERVAL_MS,
+  getBarBucket,
+  applyTickToBars,
+  createBarAggregator,
+};
@@ -0,0 +1,136 @@
+/**
+ * Fee Service
+ * Indonesian equity trading fee schedule per broker profile
+ *
+ * Komponen biaya transaksi saham IDX:
+ * - Komisi broker (berbeda per broker, bisa ada biaya minimum)
+ * - Levy bursa (IDX + KPEI + KSEI, sudah termasuk PPN levy)
+ * - PPN 11% atas komisi broker
+ * - PPh final 0.1% dari nilai transaksi, khusus jual
+ *
+ * Tarif broker bawaan adalah estimasi; profil "custom" dapat disesuaikan pengguna.
+ */
+
+import { IDX_LOT_SIZE } from '../utils/marketRules';
+
+export type FeeProfileId = 'standard' | 'stockbit' | 'ajaib' | 'ipot' | 'mirae' | 'custom';
+
+export interface FeeSchedule {
+  buyCommissionPercent: number;
+  sellCommissionPercent: number;
+  levyPercent: number;          // Berlaku untuk beli & jual
+  vatPercent: number;           // PPN atas komisi
+  salesTaxPercent: number;      // PPh final atas nilai jual
+  minCommission: number;        // Komisi minimum per transaksi (Rp)
+}
+
+export interface FeeProfile extends FeeSchedule {
+  id: FeeProfileId;
+  name: string;
+}
+
+export interface FeeBreakdown {
+  gross: number;                // Nilai transaksi (lot x 100 x harga)
+  commission: number;
+  levy: number;
+  vat: number;
+  salesTax: number;             // PPh final 0.1% (jual saja)
+  total: number;
+}
+
+const CUSTOM_PROFILE_KEY = 'rizbot_custom_fee_profile';
+
+export const DEFAULT_FEE_PROFILE_ID: FeeProfileId = 'standard';
+
+// Ketentuan yang sama untuk semua broker
+export const IDX_LEVY_PERCENT = 0.043;
+export const VAT_PERCENT = 11;
+export const SALES_TAX_PERCENT = 0.1;
+
+const statutory = {
+  levyPercent: IDX_LEVY_PERCENT,
+  vatPercent: VAT_PERCENT,
+  salesTaxPercent: SALES_TAX_PERCENT,
+};
+
+export const FEE_PROFILES: FeeProfile[] = [
+  // ~0.15% beli / ~0.25% jual all-in
+  { id: 'standard', name: 'Standar', buyCommissionPercent: 0.0964, sellCommissionPercent: 0.0964, minCommission: 0, ...statutory },
+  { id: 'stockbit', name: 'Stockbit', buyCommissionPercent: 0.0964, sellCommissionPercent: 0.0964, minCommission: 0, ...statutory },
+  // ~0.10% beli / ~0.20% jual all-in
+  { id: 'ajaib', name: 'Ajaib', buyCommissionPercent: 0.0514, sellCommissionPercent: 0.0514, minCommission: 0, ...statutory },
+  // ~0.19% beli / ~0.29% jual all-in
+  { id: 'ipot', name: 'IPOT', buyCommissionPercent: 0.1324, sellCommissionPercent: 0.1324, minCommission: 0, ...statutory },
+  { id: 'mirae', name: 'Mirae Asset', buyCommissionPercent: 0.0964, sellCommissionPercent: 0.0964, minCommission: 0, ...statutory },
+];
+
+/**
+ * Load the user-defined fee profile (defaults to the standard schedule)
+ */
+export const loadCustomFeeProfile = (): FeeProfile => {
+  const base: FeeProfile = { ...FEE_PROFILES[0], id: 'custom', name: 'Custom' };
+  try {
+    const stored = localStorage.getItem(CUSTOM_PROFILE_KEY);
+    return stored ? { ...base, ...JSON.parse(stored), id: 'custom', name: 'Custom' } : base;
+  } catch (error) {
+    console.error('Error loading custom fee profile:', error);
+    return base;
+  }
+};
+
+/**
+ * Save the user-defined fee profile
+ */
+export const saveCustomFeeProfile = (schedule: Partial<FeeSchedule>): FeeProfile => {
+  Object.values(schedule).forEach(value => {
+    if (value !== undefined && (!isFinite(value) || value < 0)) {
+      throw new Error('Tarif biaya tidak boleh negatif');
+    }
+  });
+  const profile = { ...loadCustomFeeProfile(), ...schedule };
+  localStorage.setItem(CUSTOM_PROFILE_KEY, JSON.stringify(profile));
+  return profile;
+};
+
+// All selectable profiles, including the custom one
+export const getFeeProfiles = (): FeeProfile[] => [...FEE_PROFILES, loadCustomFeeProfile()];
+
+export const getFeeProfile = (id?: FeeProfileId): FeeProfile => {
+  if (id === 'custom') return loadCustomFeeProfile();
+  return FEE_PROFILES.find(p => p.id === id) || FEE_PROFILES[0];
+};
+
+/**
+ * Calculate the fee breakdown of a trade
+ * @param side - 'buy' or 'sell'
+ * @param lots - Number of lots
+ * @param price - Price per share
+ * @param profile - Broker fee profile (default: standard)
+ */
+export const calculateTradeFees = (
+  side: 'buy' | 'sell',
+  lots: number,
+  price: number,
+  profile: FeeSchedule = FEE_PROFILES[0]
+): FeeBreakdown => {
+  const gross = lots * IDX_LOT_SIZE * price;
+  if (gross <= 0) return { gross: 0, commission: 0, levy: 0, vat: 0, salesTax: 0, total: 0 };
+
+  const commissionPercent = side === 'buy' ? profile.buyCommissionPercent : profile.sellCommissionPercent;
+  const commission = Math.round(Math.max(gross * commissionPercent / 100, profile.minCommission));
+  const levy = Math.round(gross * profile.levyPercent / 100);
+  const vat = Math.round(commission * profile.vatPercent / 100);
+  const salesTax = side === 'sell' ? Math.round(gross * profile.salesTaxPercent / 100) : 0;
+
+  return { gross, commission, levy, vat, salesTax, total: commission + levy + vat + salesTax };
+};
+
+export default {
+  FEE_PROFILES,
+  DEFAULT_FEE_PROFILE_ID,
+  loadCustomFeeProfile,
+  saveCustomFeeProfile,
+  getFeeProfiles,
+  getFeeProfile,
+  calculateTradeFees,
+};
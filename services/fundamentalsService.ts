@@ -0,0 +1,214 @@
+/**
+ * Fundamentals Service
+ * Financial statements, derived ratios and valuation history per emiten
+ *
+ * - Laporan keuangan (laba rugi, neraca, arus kas; tahunan & kuartalan) diambil lewat
+ *   provider dengan kapabilitas 'fundamentals' dan disimpan di cache offline
+ * - Laporan hanya berubah tiap kuartal, jadi cache berlaku 24 jam; kalau semua provider gagal
+ *   salinan lama tetap dipakai dan ditandai stale
+ * - Laporan dalam mata uang lain dari mata uang harga (mis. ADRO/MEDC melapor dalam USD) dikonversi
+ *   dengan kurs historis; kalau kurs tidak tersedia laporan dikembalikan apa adanya dan rasio berbasis
+ *   harga (P/E, P/B, band valuasi) tidak boleh dihitung, cek dengan isInMarketCurrency
+ * - Band P/E & P/B dihitung dari histori harga harian 5 tahun (lihat utils/financials)
+ */
+
+import {
+  DataSourceInfo,
+  FinancialPeriodType,
+  FinancialRatios,
+  FinancialStatements,
+  FxRatePoint,
+  ValuationBandPoint,
+  ValuationBandStats,
+} from '../types';
+import { MarketType, runWithProviders, toDataSource } from './marketDataProviders';
+import { getCachedEntry, putCachedEntry } from './offlineCacheService';
+import { fetchFxHistory, fetchHistoryWithSource } from './stockApiService';
+import { buildValuationBands, computeFinancialRatios, convertStatements } from '../utils/financials';
+
+export interface SourcedFinancials {
+  data: FinancialStatements;
+  source: DataSourceInfo;
+}
+
+export interface ValuationBands {
+  points: ValuationBandPoint[];
+  pe: ValuationBandStats | null;
+  pb: ValuationBandStats | null;
+}
+
+const CACHE_PREFIX = 'fundamentals_';
+const FX_CACHE_PREFIX = 'fx_';
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const BAND_HISTORY_DAYS = 5 * 365;
+// Band mingguan cukup untuk chart multi-tahun
+const BAND_SAMPLE_EVERY = 5;
+
+const memoryCache = new Map<string, { value: SourcedFinancials; timestamp: number }>();
+const fxMemoryCache = new Map<string, { rates: FxRatePoint[]; timestamp: number }>();
+
+// Mata uang harga per market
+export const MARKET_CURRENCY: Record<MarketType, string> = {
+  IDX: 'IDR',
+  US: 'USD',
+  CRYPTO: 'USD',
+};
+
+const cacheKey = (symbol: string, market: MarketType) => `${CACHE_PREFIX}${market}_${symbol}`;
+
+/**
+ * Whether fundamentals exist for a market (kripto tidak punya laporan keuangan)
+ */
+export const hasFundamentals = (market: MarketType = 'IDX'): boolean => market !== 'CRYPTO';
+
+/**
+ * Whether the statements are in the market's trading currency (syarat rasio berbasis harga)
+ */
+export const isInMarketCurrency = (statements: FinancialStatements, market: MarketType = 'IDX'): boolean =>
+  statements.currency === MARKET_CURRENCY[market];
+
+/**
+ * Weekly exchange rate history of a currency pair (memory -> cache offline -> Yahoo -> stale cache)
+ */
+const loadFxHistory = async (from: string, to: string): Promise<FxRatePoint[]> => {
+  const key = `${FX_CACHE_PREFIX}${from}${to}`;
+  const memory = fxMemoryCache.get(key);
+  if (memory && Date.now() - memory.timestamp < CACHE_TTL_MS) return memory.rates;
+
+  const stored = await getCachedEntry<FxRatePoint[]>(key);
+  if (stored && Date.now() - stored.timestamp < CACHE_TTL_MS) {
+    fxMemoryCache.set(key, { rates: stored.data, timestamp: stored.timestamp });
+    return stored.data;
+  }
+
+  try {
+    const rates = await fetchFxHistory(from, to);
+    fxMemoryCache.set(key, { rates, timestamp: Date.now() });
+    putCachedEntry(key, rates);
+    return rates;
+  } catch (error) {
+    if (stored) {
+      console.warn(`FX ${from}${to} refresh failed, using cached copy:`, (error as Error).message);
+      fxMemoryCache.set(key, { rates: stored.data, timestamp: Date.now() });
+      return stored.data;
+    }
+    throw error;
+  }
+};
+
+// Reported statements from cache or providers, tanpa konversi kurs
+const loadReportedFinancials = async (
+  symbol: string,
+  market: MarketType,
+  forceRefresh: boolean
+): Promise<SourcedFinancials> => {
+  const key = cacheKey(symbol, market);
+  const stored = await getCachedEntry<SourcedFinancials>(key);
+  if (!forceRefresh && stored && Date.now() - stored.timestamp < CACHE_TTL_MS) {
+    return stored.data;
+  }
+
+  try {
+    const { data, provider } = await runWithProviders('fundamentals', market, p => p.fetchFinancials!(symbol, market));
+    const value = { data, source: toDataSource(provider) };
+    putCachedEntry(key, value);
+    return value;
+  } catch (error) {
+    if (stored) {
+      console.warn(`Fundamentals refresh failed for ${symbol}, using cached copy:`, (error as Error).message);
+      return { ...stored.data, source: { ...stored.data.source, stale: true } };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Load the financial statements of a symbol (memory -> cache offline -> providers -> stale cache)
+ * Laporan dikonversi ke mata uang harga market; kalau kurs tidak tersedia laporan dikembalikan
+ * dalam mata uang aslinya (isInMarketCurrency = false) dan tidak disimpan di memory cache.
+ * @param forceRefresh - Lewati cache dan ambil ulang dari provider
+ */
+export const loadFinancials = async (
+  symbol: string,
+  market: MarketType = 'IDX',
+  forceRefresh: boolean = false
+): Promise<SourcedFinancials> => {
+  if (!hasFundamentals(market)) throw new Error('Data fundamental tidak tersedia untuk aset kripto');
+
+  const key = cacheKey(symbol, market);
+  const memory = memoryCache.get(key);
+  if (!forceRefresh && memory && Date.now() - memory.timestamp < CACHE_TTL_MS) {
+    return memory.value;
+  }
+
+  const reported = await loadReportedFinancials(symbol, market, forceRefresh);
+  const currency = MARKET_CURRENCY[market];
+  let value = reported;
+  if (reported.data.currency !== currency) {
+    try {
+      const rates = await loadFxHistory(reported.data.currency, currency);
+      const converted = convertStatements(reported.data, rates, currency);
+      if (converted) value = { ...reported, data: converted };
+      else console.warn(`FX ${reported.data.currency}${currency} history does not cover every period of ${symbol}`);
+    } catch (error) {
+      console.warn(`FX ${reported.data.currency}${currency} unavailable for ${symbol}:`, (error as Error).message);
+    }
+  }
+
+  if (isInMarketCurrency(value.data, market)) memoryCache.set(key, { value, timestamp: Date.now() });
+  return value;
+};
+
+/**
+ * Derived ratios of a symbol per period (urut dari periode terlama)
+ */
+export const getFinancialRatios = (statements: FinancialStatements, type: FinancialPeriodType): FinancialRatios[] =>
+  computeFinancialRatios(statements, type);
+
+/**
+ * Latest ratios, preferring TTM from the quarterly reports over the last annual report
+ */
+export const getLatestRatios = (statements: FinancialStatements): FinancialRatios | null => {
+  const quarterly = computeFinancialRatios(statements, 'quarterly');
+  const annual = computeFinancialRatios(statements, 'annual');
+  const latestQuarter = quarterly[quarterly.length - 1];
+  const latestAnnual = annual[annual.length - 1];
+  if (!latestAnnual) return latestQuarter || null;
+  if (!latestQuarter || latestQuarter.epsTtm === null || latestQuarter.periodEnd <= latestAnnual.periodEnd) {
+    return latestAnnual;
+  }
+  // Rasio TTM kuartalan yang belum lengkap dilengkapi dari laporan tahunan
+  const merged = { ...latestQuarter };
+  (Object.keys(merged) as (keyof FinancialRatios)[]).forEach(field => {
+    if (merged[field] === null) (merged as Record<string, unknown>)[field] = latestAnnual[field];
+  });
+  return merged;
+};
+
+/**
+ * Historical P/E & P/B bands from 5 years of daily prices
+ * Histori simulasi tidak dipakai (band dari harga buatan menyesatkan), begitu juga laporan
+ * yang belum dalam mata uang harga.
+ */
+export const loadValuationBands = async (
+  symbol: string,
+  statements: FinancialStatements,
+  market: MarketType = 'IDX',
+  currentPrice?: number
+): Promise<ValuationBands> => {
+  if (!isInMarketCurrency(statements, market)) return { points: [], pe: null, pb: null };
+  const history = await fetchHistoryWithSource(symbol, BAND_HISTORY_DAYS, market, '1d');
+  if (history.source.simulated) return { points: [], pe: null, pb: null };
+
+  const sampled = history.data.filter((_, i, bars) => i % BAND_SAMPLE_EVERY === 0 || i === bars.length - 1);
+  return buildValuationBands(sampled, statements, currentPrice);
+};
+
+export default {
+  hasFundamentals,
+  isInMarketCurrency,
+  loadFinancials,
+  getFinancialRatios,
+  getLatestRatios,
+  loadValuationBands,
+};
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { buildImportPreview, commitImport } from './importService';
+import { addBuyTransaction, loadTransactions } from './portfolioService';
+
+const MAPPING = {
+  columns: { date: 0, symbol: 1, side: 2, quantity: 3, price: 4, fee: 5 },
+  quantityUnit: 'lot' as const,
+  dateOrder: 'dmy' as const,
+  headerRow: 0,
+};
+const HEADER = ['Tanggal', 'Saham', 'Tipe', 'Lot', 'Harga', 'Fee'];
+
+beforeEach(() => {
+  localStorage.clear();
+  addBuyTransaction('BBCA', 10, 9000, 0, new Date(2024, 5, 3).getTime());
+});
+
+describe('import holdings check', () => {
+  it('rejects a sell dated before the lots were bought', () => {
+    const preview = buildImportPreview([HEADER, ['01/06/2024', 'BBCA', 'Jual', '5', '9100', '0']], MAPPING);
+
+    expect(preview.rows[0].status).toBe('error');
+    expect(preview.rows[0].error).toContain('Tersedia: 0 lot');
+    expect(commitImport(preview)).toBe(0);
+  });
+
+  it('counts earlier rows of the file regardless of their order in the file', () => {
+    const preview = buildImportPreview([
+      HEADER,
+      ['20/06/2024', 'TLKM', 'Jual', '3', '3000', '0'],
+      ['10/06/2024', 'TLKM', 'Beli', '3', '2900', '0'],
+      ['21/06/2024', 'BBCA', 'Jual', '11', '9200', '0'],
+    ], MAPPING);
+
+    expect(preview.rows.map(r => r.status)).toEqual(['new', 'new', 'error']);
+    expect(commitImport(preview)).toBe(2);
+    expect(loadTransactions().map(t => t.type)).toEqual(['buy', 'buy', 'sell']);
+  });
+
+  it('refuses to commit a preview the portfolio no longer covers', () => {
+    const preview = buildImportPreview([HEADER, ['20/06/2024', 'BBCA', 'Jual', '10', '9100', '0']], MAPPING);
+    expect(preview.rows[0].status).toBe('new');
+
+    localStorage.clear();
+    expect(() => commitImport(preview)).toThrow('Baris 2');
+    expect(loadTransactions()).toEqual([]);
+  });
+});
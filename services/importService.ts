@@ -0,0 +1,477 @@
+/**
+ * Transaction Import Service
+ * Parses broker trade confirmations / statements (CSV & Excel) into portfolio transactions
+ *
+ * - Profil broker mengenali nama kolom umum dari ekspor sekuritas Indonesia
+ * - Importer CSV generik dengan pemetaan kolom manual
+ * - Deteksi duplikat berdasarkan tanggal/saham/harga/lot sebelum disimpan
+ * - Transaksi jual dicek terhadap lot yang dimiliki pada tanggalnya (riwayat portfolio + baris import sebelumnya)
+ */
+
+import {
+  Transaction,
+  getPortfolio,
+  loadTransactions,
+  saveTransactions,
+  validateHoldingsAt,
+  adjustCashBalance,
+  calculateBrokerFee,
+} from './portfolioService';
+import { SpreadsheetRows } from '../utils/spreadsheet';
+import { IDX_LOT_SIZE } from '../utils/marketRules';
+
+export type ImportField = 'date' | 'symbol' | 'side' | 'quantity' | 'price' | 'fee' | 'note';
+
+export type QuantityUnit = 'lot' | 'share';
+
+export type DateOrder = 'dmy' | 'mdy' | 'ymd';
+
+export type BrokerProfileId = 'rizbot' | 'stockbit' | 'ajaib' | 'ipot' | 'mirae' | 'generic';
+
+export interface BrokerImportProfile {
+  id: BrokerProfileId;
+  name: string;
+  columns: Partial<Record<ImportField, string[]>>; // Nama kolom yang dikenali (huruf kecil)
+  quantityUnit: QuantityUnit;
+  dateOrder: DateOrder;
+}
+
+// Manual mapping for the generic importer: field -> column index
+export interface ColumnMapping {
+  columns: Partial<Record<ImportField, number>>;
+  quantityUnit: QuantityUnit;
+  dateOrder: DateOrder;
+  headerRow: number;
+}
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'error';
+
+export interface ImportPreviewRow {
+  rowNumber: number;      // Nomor baris di file (mulai 1)
+  status: ImportRowStatus;
+  transaction?: Transaction;
+  error?: string;
+  raw: string[];
+}
+
+export interface ImportPreview {
+  headers: string[];
+  rows: ImportPreviewRow[];
+  newCount: number;
+  duplicateCount: number;
+  errorCount: number;
+}
+
+const REQUIRED_FIELDS: ImportField[] = ['date', 'symbol', 'side', 'quantity', 'price'];
+
+// Header yang dikenali di semua profil
+const COMMON_COLUMNS: Record<ImportField, string[]> = {
+  date: ['tanggal', 'date', 'trade date', 'tgl transaksi', 'tanggal transaksi', 'transaction date'],
+  symbol: ['saham', 'kode saham', 'stock', 'symbol', 'kode', 'ticker', 'stock code'],
+  side: ['tipe', 'type', 'b/s', 'action', 'aksi', 'side', 'jenis', 'buy/sell'],
+  quantity: ['lot', 'jumlah lot', 'qty (lot)', 'volume', 'qty', 'quantity'],
+  price: ['harga', 'price', 'harga/lembar', 'avg price', 'harga rata-rata', 'done price'],
+  fee: ['fee', 'biaya', 'komisi', 'commission', 'total fee'],
+  note: ['catatan', 'note', 'keterangan', 'remarks'],
+};
+
+/**
+ * Broker profiles
+ * Kolom disesuaikan dengan ekspor riwayat transaksi masing-masing aplikasi.
+ * Jika format broker berubah, gunakan importer generik.
+ */
+export const BROKER_PROFILES: BrokerImportProfile[] = [
+  {
+    id: 'rizbot',
+    name: 'RIZBOT Export',
+    columns: {
+      date: ['tanggal'],
+      symbol: ['saham'],
+      side: ['tipe'],
+      quantity: ['lot'],
+      price: ['harga/lembar'],
+      fee: ['fee'],
+      note: ['catatan'],
+    },
+    quantityUnit: 'lot',
+    dateOrder: 'dmy',
+  },
+  {
+    id: 'stockbit',
+    name: 'Stockbit Sekuritas',
+    columns: {
+      date: ['date', 'tanggal'],
+      symbol: ['symbol', 'stock'],
+      side: ['action', 'type'],
+      quantity: ['lot'],
+      price: ['price'],
+      fee: ['fee', 'total fee'],
+    },
+    quantityUnit: 'lot',
+    dateOrder: 'dmy',
+  },
+  {
+    id: 'ajaib',
+    name: 'Ajaib Sekuritas',
+    columns: {
+      date: ['tanggal transaksi', 'tanggal'],
+      symbol: ['kode saham', 'saham'],
+      side: ['jenis', 'tipe'],
+      quantity: ['jumlah lot', 'lot'],
+      price: ['harga', 'harga rata-rata'],
+      fee: ['biaya', 'fee'],
+    },
+    quantityUnit: 'lot',
+    dateOrder: 'dmy',
+  },
+  {
+    id: 'ipot',
+    name: 'Indo Premier (IPOT)',
+    columns: {
+      date: ['trade date', 'date'],
+      symbol: ['stock', 'stock code'],
+      side: ['b/s'],
+      quantity: ['volume', 'qty'],
+      price: ['price', 'done price'],
+      fee: ['commission', 'fee'],
+    },
+    quantityUnit: 'share',
+    dateOrder: 'dmy',
+  },
+  {
+    id: 'mirae',
+    name: 'Mirae Asset (HOTS/NEO)',
+    columns: {
+      date: ['tgl transaksi', 'date'],
+      symbol: ['kode', 'stock'],
+      side: ['b/s', 'buy/sell'],
+      quantity: ['qty', 'volume'],
+      price: ['price', 'harga'],
+      fee: ['total fee', 'komisi'],
+    },
+    quantityUnit: 'share',
+    dateOrder: 'dmy',
+  },
+];
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Find a column index matching any alias
+const findColumn = (headers: string[], aliases: string[] = []): number => {
+  const normalized = headers.map(normalizeHeader);
+  for (const alias of aliases) {
+    const index = normalized.indexOf(alias);
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+// Resolve a profile against a header row
+const resolveProfileColumns = (profile: BrokerImportProfile, headers: string[]): Partial<Record<ImportField, number>> => {
+  const columns: Partial<Record<ImportField, number>> = {};
+  (Object.keys(COMMON_COLUMNS) as ImportField[]).forEach(field => {
+    const index = findColumn(headers, profile.columns[field]);
+    if (index !== -1) columns[field] = index;
+  });
+  return columns;
+};
+
+const hasRequiredColumns = (columns: Partial<Record<ImportField, number>>): boolean =>
+  REQUIRED_FIELDS.every(field => columns[field] !== undefined);
+
+/**
+ * Find the header row (first row naming at least 4 of the required columns)
+ * Ekspor broker sering diawali beberapa baris judul/informasi akun.
+ */
+export const findHeaderRow = (rows: SpreadsheetRows): number => {
+  const limit = Math.min(rows.length, 30);
+  for (let i = 0; i < limit; i++) {
+    const matched = REQUIRED_FIELDS.filter(field => findColumn(rows[i], COMMON_COLUMNS[field]) !== -1);
+    if (matched.length >= 4) return i;
+  }
+  return 0;
+};
+
+/**
+ * Resolve a broker profile's columns against the file's header row
+ */
+export const getProfileMapping = (rows: SpreadsheetRows, profile: BrokerImportProfile): ColumnMapping => {
+  const headerRow = findHeaderRow(rows);
+  return {
+    columns: resolveProfileColumns(profile, rows[headerRow] || []),
+    quantityUnit: profile.quantityUnit,
+    dateOrder: profile.dateOrder,
+    headerRow,
+  };
+};
+
+/**
+ * Detect the broker profile from the header row
+ * @returns Profile plus resolved column mapping, or null if no profile matches
+ */
+export const detectBrokerProfile = (rows: SpreadsheetRows): { profile: BrokerImportProfile; mapping: ColumnMapping } | null => {
+  for (const profile of BROKER_PROFILES) {
+    const mapping = getProfileMapping(rows, profile);
+    if (hasRequiredColumns(mapping.columns)) {
+      return { profile, mapping };
+    }
+  }
+  return null;
+};
+
+/**
+ * Check whether a mapping covers all required fields
+ */
+export const isMappingComplete = (mapping: ColumnMapping): boolean => hasRequiredColumns(mapping.columns);
+
+/**
+ * Suggest a generic mapping from common header names (user can adjust it)
+ */
+export const suggestColumnMapping = (rows: SpreadsheetRows): ColumnMapping => {
+  const headerRow = findHeaderRow(rows);
+  const headers = rows[headerRow] || [];
+  const columns: Partial<Record<ImportField, number>> = {};
+  (Object.keys(COMMON_COLUMNS) as ImportField[]).forEach(field => {
+    const index = findColumn(headers, COMMON_COLUMNS[field]);
+    if (index !== -1) columns[field] = index;
+  });
+  return { columns, quantityUnit: 'lot', dateOrder: 'dmy', headerRow };
+};
+
+/**
+ * Parse a number in Indonesian ("1.234.567,50") or English ("1,234,567.50") format
+ */
+export const parseImportNumber = (value: string): number => {
+  let cleaned = value.replace(/[^\d,.-]/g, '');
+  if (!cleaned) return NaN;
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  if (lastComma !== -1 && lastDot !== -1) {
+    // Separator terakhir adalah desimal
+    cleaned = lastComma > lastDot
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (lastComma !== -1) {
+    cleaned = /^-?\d{1,3}(,\d{3})+$/.test(cleaned) ? cleaned.replace(/,/g, '') : cleaned.replace(',', '.');
+  } else if (lastDot !== -1 && /^-?\d{1,3}(\.\d{3})+$/.test(cleaned)) {
+    cleaned = cleaned.replace(/\./g, '');
+  }
+  return parseFloat(cleaned);
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, mei: 4, may: 4, jun: 5, jul: 6,
+  agu: 7, ags: 7, aug: 7, sep: 8, okt: 9, oct: 9, nov: 10, des: 11, dec: 11,
+};
+
+/**
+ * Parse a trade date
+ * Mendukung dd/mm/yyyy, yyyy-mm-dd, "12 Jan 2024" dan serial number Excel.
+ * @returns Timestamp (local midnight + time if given) or NaN
+ */
+export const parseImportDate = (value: string, order: DateOrder = 'dmy'): number => {
+  const text = value.trim();
+
+  // Excel serial date (days since 1899-12-30)
+  if (/^\d{5}(\.\d+)?$/.test(text)) {
+    const serial = parseFloat(text);
+    const utc = Math.round((serial - 25569) * 86400000);
+    const date = new Date(utc);
+    return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes()).getTime();
+  }
+
+  const time = text.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+  const [hours, minutes, seconds] = time ? [parseInt(time[1]), parseInt(time[2]), parseInt(time[3] || '0')] : [0, 0, 0];
+
+  // ISO style: yyyy-mm-dd
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (match) {
+    return new Date(+match[1], +match[2] - 1, +match[3], hours, minutes, seconds).getTime();
+  }
+
+  // Numeric: dd/mm/yyyy or mm/dd/yyyy
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + +match[3] : +match[3];
+    const [day, month] = order === 'mdy' ? [+match[2], +match[1]] : [+match[1], +match[2]];
+    if (month < 1 || month > 12 || day < 1 || day > 31) return NaN;
+    return new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+  }
+
+  // Month name: "12 Jan 2024" / "12-Jan-24"
+  match = text.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s-](\d{2,4})/);
+  if (match && MONTHS[match[2].toLowerCase()] !== undefined) {
+    const year = match[3].length === 2 ? 2000 + +match[3] : +match[3];
+    return new Date(year, MONTHS[match[2].toLowerCase()], +match[1], hours, minutes, seconds).getTime();
+  }
+
+  return NaN;
+};
+
+// Parse buy/sell markers used by brokers
+const parseSide = (value: string): 'buy' | 'sell' | null => {
+  const text = value.trim().toLowerCase();
+  if (['b', 'buy', 'beli', 'bought'].includes(text) || text.startsWith('buy') || text.startsWith('beli')) return 'buy';
+  if (['s', 'sell', 'jual', 'sold'].includes(text) || text.startsWith('sell') || text.startsWith('jual')) return 'sell';
+  return null;
+};
+
+// Duplicate key: same day, symbol, side, price and lots
+const duplicateKey = (t: Pick<Transaction, 'date' | 'symbol' | 'type' | 'pricePerShare' | 'shares'>): string => {
+  const day = new Date(t.date);
+  return [
+    `${day.getFullYear()}-${day.getMonth()}-${day.getDate()}`,
+    t.symbol,
+    t.type,
+    t.pricePerShare,
+    t.shares,
+  ].join('|');
+};
+
+// Convert one data row into a transaction
+const parseRow = (row: string[], mapping: ColumnMapping, rowNumber: number, portfolioId?: string): Transaction => {
+  const cell = (field: ImportField): string => {
+    const index = mapping.columns[field];
+    return index === undefined ? '' : (row[index] || '').trim();
+  };
+
+  const date = parseImportDate(cell('date'), mapping.dateOrder);
+  if (isNaN(date)) throw new Error(`Tanggal tidak valid: "${cell('date')}"`);
+
+  // Kode saham bisa berformat "BBCA.JK" atau "BBCA - Bank Central Asia"
+  const symbol = cell('symbol').toUpperCase().replace(/\.JK$/, '').split(/[\s-]/)[0];
+  if (!/^[A-Z]{4}$/.test(symbol)) throw new Error(`Kode saham tidak valid: "${cell('symbol')}"`);
+
+  const type = parseSide(cell('side'));
+  if (!type) throw new Error(`Tipe transaksi tidak dikenali: "${cell('side')}"`);
+
+  const quantity = parseImportNumber(cell('quantity'));
+  const lots = mapping.quantityUnit === 'share' ? quantity / IDX_LOT_SIZE : quantity;
+  if (!(lots > 0) || !Number.isInteger(lots)) throw new Error(`Jumlah tidak valid: "${cell('quantity')}"`);
+
+  const price = parseImportNumber(cell('price'));
+  if (!(price > 0)) throw new Error(`Harga tidak valid: "${cell('price')}"`);
+
+  const feeValue = mapping.columns.fee !== undefined ? parseImportNumber(cell('fee')) : NaN;
+  const fee = isNaN(feeValue) ? calculateBrokerFee(type, lots, price, portfolioId) : Math.abs(feeValue);
+  const gross = lots * IDX_LOT_SIZE * price;
+
+  return {
+    id: `txn_import_${Date.now()}_${rowNumber}_${Math.random().toString(36).substr(2, 5)}`,
+    symbol,
+    type,
+    shares: lots,
+    pricePerShare: price,
+    totalValue: type === 'buy' ? gross + fee : gross - fee,
+    fee,
+    date,
+    note: cell('note') || 'Import',
+  };
+};
+
+// Urutan pencatatan: per tanggal, beli lebih dulu jika jamnya sama (ekspor broker sering tanpa jam)
+const compareImportOrder = (a: Transaction, b: Transaction): number =>
+  a.date - b.date || (a.type === 'buy' ? 0 : 1) - (b.type === 'buy' ? 0 : 1);
+
+/**
+ * Check imported sells against the lots held at their dates
+ * Baris diproses urut tanggal; baris yang lolos ikut menjadi riwayat untuk baris sesudahnya.
+ * @returns Error message per row number for rows that fail the holdings check
+ */
+const validateImportedHoldings = (rows: ImportPreviewRow[], portfolioId?: string): Map<number, string> => {
+  const portfolio = getPortfolio(portfolioId);
+  const history = [...portfolio.transactions];
+  const errors = new Map<number, string>();
+
+  [...rows]
+    .filter(r => r.status === 'new' && r.transaction)
+    .sort((a, b) => compareImportOrder(a.transaction!, b.transaction!))
+    .forEach(row => {
+      const error = validateHoldingsAt(history, row.transaction!, portfolio.costBasisMethod);
+      if (error) errors.set(row.rowNumber, error);
+      else history.push(row.transaction!);
+    });
+
+  return errors;
+};
+
+/**
+ * Build the import preview (nothing is saved yet)
+ * @param rows - Spreadsheet rows
+ * @param mapping - Column mapping (from a broker profile or the generic importer)
+ * @param portfolioId - Portfolio to check duplicates against (default: active)
+ */
+export const buildImportPreview = (
+  rows: SpreadsheetRows,
+  mapping: ColumnMapping,
+  portfolioId?: string
+): ImportPreview => {
+  const existingKeys = new Set(loadTransactions(portfolioId).map(duplicateKey));
+  const fileKeys = new Set<string>();
+  const previewRows: ImportPreviewRow[] = [];
+
+  rows.slice(mapping.headerRow + 1).forEach((row, i) => {
+    const rowNumber = mapping.headerRow + i + 2;
+    try {
+      const transaction = parseRow(row, mapping, rowNumber, portfolioId);
+      const key = duplicateKey(transaction);
+      const isDuplicate = existingKeys.has(key) || fileKeys.has(key);
+      fileKeys.add(key);
+      previewRows.push({ rowNumber, status: isDuplicate ? 'duplicate' : 'new', transaction, raw: row });
+    } catch (e) {
+      previewRows.push({ rowNumber, status: 'error', error: (e as Error).message, raw: row });
+    }
+  });
+
+  validateImportedHoldings(previewRows, portfolioId).forEach((error, rowNumber) => {
+    const row = previewRows.find(r => r.rowNumber === rowNumber)!;
+    row.status = 'error';
+    row.error = error;
+  });
+
+  return {
+    headers: rows[mapping.headerRow] || [],
+    rows: previewRows,
+    newCount: previewRows.filter(r => r.status === 'new').length,
+    duplicateCount: previewRows.filter(r => r.status === 'duplicate').length,
+    errorCount: previewRows.filter(r => r.status === 'error').length,
+  };
+};
+
+/**
+ * Save the new rows of a preview into the portfolio
+ * Duplikat dan baris error dilewati; saldo kas disesuaikan dengan efek transaksi yang diimport.
+ * Lot dicek ulang terhadap portfolio saat ini; jika ada jual yang tidak tertutup, tidak ada yang disimpan.
+ * @returns Number of imported transactions
+ * @throws Error naming the first row whose sell is not covered by the lots held at its date
+ */
+export const commitImport = (preview: ImportPreview, portfolioId?: string): number => {
+  const importRows = preview.rows.filter(r => r.status === 'new' && r.transaction);
+  if (importRows.length === 0) return 0;
+
+  const [failed] = validateImportedHoldings(importRows, portfolioId);
+  if (failed) throw new Error(`Baris ${failed[0]}: ${failed[1]}`);
+
+  const imported = importRows.map(r => r.transaction!).sort(compareImportOrder);
+  const transactions = [...loadTransactions(portfolioId), ...imported].sort((a, b) => a.date - b.date);
+  saveTransactions(transactions, portfolioId);
+
+  const cashEffect = imported.reduce((sum, t) => sum + (t.type === 'buy' ? -t.totalValue : t.totalValue), 0);
+  adjustCashBalance(cashEffect, portfolioId);
+
+  return imported.length;
+};
+
+export default {
+  BROKER_PROFILES,
+  findHeaderRow,
+  getProfileMapping,
+  detectBrokerProfile,
+  isMappingComplete,
+  suggestColumnMapping,
+  parseImportNumber,
+  parseImportDate,
+  buildImportPreview,
+  commitImport,
+};
@@ -0,0 +1,30 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { formatCountdown, isTradingDay } from './marketCalendarService';
+
+const MINUTE_MS = 60 * 1000;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('formatCountdown', () => {
+  it('uses hari/jam/menit units rounded up to the minute', () => {
+    expect(formatCountdown((2 * 1440 + 3 * 60 + 10) * MINUTE_MS)).toBe('2h 3j');
+    expect(formatCountdown((2 * 60 + 15) * MINUTE_MS)).toBe('2j 15m');
+    expect(formatCountdown(13 * MINUTE_MS + 1)).toBe('14m');
+    expect(formatCountdown(-5000)).toBe('0m');
+  });
+});
+
+describe('holiday calendar coverage', () => {
+  it('warns once for a year missing from the holiday table', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(isTradingDay(new Date('2099-01-01T03:00:00Z'))).toBe(true);
+    expect(isTradingDay(new Date('2099-01-02T03:00:00Z'))).toBe(true);
+    expect(isTradingDay(new Date('2026-01-01T03:00:00Z'))).toBe(false);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('2099');
+  });
+});
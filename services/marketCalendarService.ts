@@ -0,0 +1,341 @@
+/**
+ * Market Calendar Service
+ * IDX trading sessions, exchange holidays and market status in WIB (UTC+7)
+ *
+ * Jadwal perdagangan pasar reguler BEI:
+ * - Senin-Kamis: pre-opening 08:45, sesi I 09:00-12:00, sesi II 13:30-15:50
+ * - Jumat: pre-opening 08:45, sesi I 09:00-11:30, sesi II 14:00-15:50
+ * - Pre-closing 15:50-16:00, post-closing 16:00-16:15
+ *
+ * Semua perhitungan memakai WIB, tidak tergantung zona waktu browser.
+ * Tabel libur bursa mengikuti kalender BEI dan perlu diperbarui setiap tahun (lihat IDX_HOLIDAYS).
+ */
+
+export type MarketPhase =
+  | 'pre_opening'
+  | 'session_1'
+  | 'lunch_break'
+  | 'session_2'
+  | 'pre_closing'
+  | 'post_closing'
+  | 'closed';
+
+export interface SessionWindow {
+  phase: MarketPhase;
+  start: string;   // HH:MM WIB, inklusif
+  end: string;     // HH:MM WIB, eksklusif
+}
+
+export interface IdxHoliday {
+  date: string;    // YYYY-MM-DD
+  name: string;
+}
+
+export interface MarketStatus {
+  phase: MarketPhase;
+  label: string;
+  isOpen: boolean;
+  holiday: IdxHoliday | null;
+  nextPhase: MarketPhase;
+  nextChangeAt: number;        // Epoch ms pergantian fase berikutnya
+  nextOpenAt: number;          // Awal fase buka berikutnya (atau sekarang kalau sedang buka)
+  nextCloseAt: number | null;  // Awal istirahat / penutupan berikutnya, null kalau tidak sedang buka
+}
+
+export const WIB_UTC_OFFSET_HOURS = 7;
+
+export const MARKET_PHASE_LABELS: Record<MarketPhase, string> = {
+  pre_opening: 'Pre-Opening',
+  session_1: 'Sesi I',
+  lunch_break: 'Istirahat',
+  session_2: 'Sesi II',
+  pre_closing: 'Pre-Closing',
+  post_closing: 'Post-Closing',
+  closed: 'Tutup',
+};
+
+// Fase yang membentuk harga (termasuk call auction pembukaan & penutupan)
+const OPEN_PHASES: MarketPhase[] = ['pre_opening', 'session_1', 'session_2', 'pre_closing'];
+
+const MON_THU_SESSIONS: SessionWindow[] = [
+  { phase: 'pre_opening', start: '08:45', end: '09:00' },
+  { phase: 'session_1', start: '09:00', end: '12:00' },
+  { phase: 'lunch_break', start: '12:00', end: '13:30' },
+  { phase: 'session_2', start: '13:30', end: '15:50' },
+  { phase: 'pre_closing', start: '15:50', end: '16:00' },
+  { phase: 'post_closing', start: '16:00', end: '16:15' },
+];
+
+const FRIDAY_SESSIONS: SessionWindow[] = [
+  { phase: 'pre_opening', start: '08:45', end: '09:00' },
+  { phase: 'session_1', start: '09:00', end: '11:30' },
+  { phase: 'lunch_break', start: '11:30', end: '14:00' },
+  { phase: 'session_2', start: '14:00', end: '15:50' },
+  { phase: 'pre_closing', start: '15:50', end: '16:00' },
+  { phase: 'post_closing', start: '16:00', end: '16:15' },
+];
+
+// Sesi per hari (0 = Minggu)
+export const WEEKDAY_SESSIONS: Record<number, SessionWindow[]> = {
+  0: [],
+  1: MON_THU_SESSIONS,
+  2: MON_THU_SESSIONS,
+  3: MON_THU_SESSIONS,
+  4: MON_THU_SESSIONS,
+  5: FRIDAY_SESSIONS,
+  6: [],
+};
+
+/**
+ * Libur bursa per tahun (hari libur nasional, cuti bersama dan libur akhir tahun bursa)
+ *
+ * Menambah tahun baru: BEI menerbitkan kalender libur bursa tahun berikutnya (idx.co.id, menu
+ * Kalender Bursa / pengumuman "Hari Libur Bursa") setelah SKB cuti bersama terbit, biasanya
+ * Oktober-Desember. Tambahkan key tahun dengan satu entri per hari bursa tutup (tanggal WIB,
+ * format YYYY-MM-DD); libur yang jatuh di akhir pekan tidak perlu dicatat.
+ * Tahun tanpa entri hanya mengenal akhir pekan, dan console memberi peringatan sekali per tahun.
+ */
+export const IDX_HOLIDAYS: Record<number, IdxHoliday[]> = {
+  2025: [
+    { date: '2025-01-01', name: 'Tahun Baru Masehi' },
+    { date: '2025-01-27', name: 'Isra Mikraj' },
+    { date: '2025-01-28', name: 'Cuti Bersama Tahun Baru Imlek' },
+    { date: '2025-01-29', name: 'Tahun Baru Imlek' },
+    { date: '2025-03-28', name: 'Cuti Bersama Hari Suci Nyepi' },
+    { date: '2025-03-31', name: 'Idul Fitri' },
+    { date: '2025-04-01', name: 'Idul Fitri' },
+    { date: '2025-04-02', name: 'Cuti Bersama Idul Fitri' },
+    { date: '2025-04-03', name: 'Cuti Bersama Idul Fitri' },
+    { date: '2025-04-04', name: 'Cuti Bersama Idul Fitri' },
+    { date: '2025-04-07', name: 'Cuti Bersama Idul Fitri' },
+    { date: '2025-04-18', name: 'Wafat Yesus Kristus' },
+    { date: '2025-05-01', name: 'Hari Buruh' },
+    { date: '2025-05-12', name: 'Hari Raya Waisak' },
+    { date: '2025-05-13', name: 'Cuti Bersama Waisak' },
+    { date: '2025-05-29', name: 'Kenaikan Yesus Kristus' },
+    { date: '2025-05-30', name: 'Cuti Bersama Kenaikan Yesus Kristus' },
+    { date: '2025-06-06', name: 'Idul Adha' },
+    { date: '2025-06-09', name: 'Cuti Bersama Idul Adha' },
+    { date: '2025-06-27', name: 'Tahun Baru Islam' },
+    { date: '2025-08-18', name: 'Cuti Bersama Hari Kemerdekaan' },
+    { date: '2025-09-05', name: 'Maulid Nabi Muhammad SAW' },
+    { date: '2025-12-25', name: 'Hari Raya Natal' },
+    { date: '2025-12-26', name: 'Cuti Bersama Natal' },
+    { date: '2025-12-31', name: 'Libur Akhir Tahun Bursa' },
+  ],
+  2026: [
+    { date: '2026-01-01', name: 'Tahun Baru Masehi' },
+    { date: '2026-01-16', name: 'Isra Mikraj' },
+    { date: '2026-02-16', name: 'Cuti Bersama Tahun Baru Imlek' },
+    { date: '2026-02-17', name: 'Tahun Baru Imlek' },
+    { date: '2026-03-18', name: 'Cuti Bersama Hari Suci Nyepi' },
+    { date: '2026-03-19', name: 'Hari Suci Nyepi' },
+    { date: '2026-03-20', name: 'Cuti Bersama Idul Fitri' },
+    { date: '2026-03-23', name: 'Cuti Bersama Idul Fitri' },
+    { date: '2026-03-24', name: 'Cuti Bersama Idul Fitri' },
+    { date: '2026-04-03', name: 'Wafat Yesus Kristus' },
+    { date: '2026-05-01', name: 'Hari Buruh' },
+    { date: '2026-05-14', name: 'Kenaikan Yesus Kristus' },
+    { date: '2026-05-15', name: 'Cuti Bersama Kenaikan Yesus Kristus' },
+    { date: '2026-05-27', name: 'Idul Adha' },
+    { date: '2026-06-01', name: 'Hari Lahir Pancasila' },
+    { date: '2026-06-16', name: 'Tahun Baru Islam' },
+    { date: '2026-08-17', name: 'Hari Kemerdekaan RI' },
+    { date: '2026-08-25', name: 'Maulid Nabi Muhammad SAW' },
+    { date: '2026-12-24', name: 'Cuti Bersama Natal' },
+    { date: '2026-12-25', name: 'Hari Raya Natal' },
+    { date: '2026-12-31', name: 'Libur Akhir Tahun Bursa' },
+  ],
+};
+
+// Interval polling harga per fase
+export const PHASE_POLL_INTERVAL_MS: Record<MarketPhase, number> = {
+  pre_opening: 30000,
+  session_1: 15000,
+  lunch_break: 5 * 60 * 1000,
+  session_2: 15000,
+  pre_closing: 15000,
+  post_closing: 2 * 60 * 1000,
+  closed: 15 * 60 * 1000,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_LOOKAHEAD_DAYS = 21;
+
+const holidayMap = new Map(Object.values(IDX_HOLIDAYS).flat().map(h => [h.date, h]));
+const warnedYears = new Set<number>();
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Calendar fields of a moment in WIB
+const toWib = (timestamp: number) => {
+  const wib = new Date(timestamp + WIB_UTC_OFFSET_HOURS * HOUR_MS);
+  const dateKey = wib.toISOString().split('T')[0];
+  return {
+    dateKey,
+    day: wib.getUTCDay(),
+    minutes: wib.getUTCHours() * 60 + wib.getUTCMinutes() + wib.getUTCSeconds() / 60,
+    // Epoch ms of 00:00 WIB on this day
+    midnight: Date.UTC(wib.getUTCFullYear(), wib.getUTCMonth(), wib.getUTCDate()) - WIB_UTC_OFFSET_HOURS * HOUR_MS,
+  };
+};
+
+/**
+ * Exchange holiday on a date (WIB), if any
+ */
+export const getHoliday = (date: Date = new Date()): IdxHoliday | null =>
+  holidayMap.get(toWib(date.getTime()).dateKey) || null;
+
+// Whether the holiday table covers a year (tahun di luar tabel hanya mengenal akhir pekan)
+export const hasHolidayCalendar = (year: number): boolean => year in IDX_HOLIDAYS;
+
+// Warn once per year that falls outside the holiday table
+const warnIfNoHolidayCalendar = (year: number) => {
+  if (hasHolidayCalendar(year) || warnedYears.has(year)) return;
+  warnedYears.add(year);
+  console.warn(`IDX holiday calendar has no entries for ${year}; only weekends are treated as closed. Add the year to IDX_HOLIDAYS.`);
+};
+
+/**
+ * Sessions of the trading day containing a date (kosong untuk akhir pekan & libur)
+ */
+export const getSessionsForDate = (date: Date = new Date()): SessionWindow[] => {
+  const { day, dateKey } = toWib(date.getTime());
+  warnIfNoHolidayCalendar(Number(dateKey.slice(0, 4)));
+  return holidayMap.has(dateKey) ? [] : WEEKDAY_SESSIONS[day];
+};
+
+export const isTradingDay = (date: Date = new Date()): boolean => getSessionsForDate(date).length > 0;
+
+/**
+ * Current trading phase
+ */
+export const getMarketPhase = (date: Date = new Date()): MarketPhase => {
+  const { minutes } = toWib(date.getTime());
+  const session = getSessionsForDate(date).find(s => minutes >= toMinutes(s.start) && minutes < toMinutes(s.end));
+  return session ? session.phase : 'closed';
+};
+
+export const isMarketOpen = (date: Date = new Date()): boolean => OPEN_PHASES.includes(getMarketPhase(date));
+
+/**
+ * Session window containing a moment, as epoch ms (null di luar jam bursa)
+ */
+export const getSessionWindowAt = (date: Date = new Date()): { phase: MarketPhase; startAt: number; endAt: number } | null => {
+  const { minutes, midnight } = toWib(date.getTime());
+  const session = getSessionsForDate(date).find(s => minutes >= toMinutes(s.start) && minutes < toMinutes(s.end));
+  if (!session) return null;
+  return {
+    phase: session.phase,
+    startAt: midnight + toMinutes(session.start) * 60 * 1000,
+    endAt: midnight + toMinutes(session.end) * 60 * 1000,
+  };
+};
+
+// Upcoming phase boundaries, in order, starting after a moment
+const upcomingBoundaries = function* (timestamp: number): Generator<{ at: number; phase: MarketPhase }> {
+  for (let offset = 0; offset < MAX_LOOKAHEAD_DAYS; offset++) {
+    const dayStart = toWib(timestamp).midnight + offset * DAY_MS;
+    const sessions = getSessionsForDate(new Date(dayStart + HOUR_MS));
+    for (const session of sessions) {
+      const start = dayStart + toMinutes(session.start) * 60 * 1000;
+      const end = dayStart + toMinutes(session.end) * 60 * 1000;
+      if (start > timestamp) yield { at: start, phase: session.phase };
+      // Akhir sesi terakhir = tutup
+      if (end > timestamp && session === sessions[sessions.length - 1]) yield { at: end, phase: 'closed' };
+    }
+  }
+};
+
+/**
+ * Most recent moment the market closed (akhir sesi terakhir hari bursa sebelumnya atau hari ini)
+ */
+export const getPreviousCloseAt = (date: Date = new Date()): number => {
+  const now = date.getTime();
+  const today = toWib(now).midnight;
+  for (let offset = 0; offset < MAX_LOOKAHEAD_DAYS; offset++) {
+    const dayStart = today - offset * DAY_MS;
+    const sessions = getSessionsForDate(new Date(dayStart + HOUR_MS));
+    if (sessions.length === 0) continue;
+    const closeAt = dayStart + toMinutes(sessions[sessions.length - 1].end) * 60 * 1000;
+    if (closeAt <= now) return closeAt;
+  }
+  return now - MAX_LOOKAHEAD_DAYS * DAY_MS;
+};
+
+/**
+ * Full market status with the next phase change, next open and next close
+ */
+export const getMarketStatus = (date: Date = new Date()): MarketStatus => {
+  const now = date.getTime();
+  const phase = getMarketPhase(date);
+  const isOpen = OPEN_PHASES.includes(phase);
+
+  let next: { at: number; phase: MarketPhase } | null = null;
+  let nextOpenAt: number | null = isOpen ? now : null;
+  let nextCloseAt: number | null = null;
+  for (const boundary of upcomingBoundaries(now)) {
+    if (!next && boundary.phase !== phase) next = boundary;
+    const opensMarket = OPEN_PHASES.includes(boundary.phase);
+    if (nextOpenAt === null && opensMarket) nextOpenAt = boundary.at;
+    if (isOpen && nextCloseAt === null && !opensMarket) nextCloseAt = boundary.at;
+    if (next && nextOpenAt !== null && (!isOpen || nextCloseAt !== null)) break;
+  }
+
+  return {
+    phase,
+    label: MARKET_PHASE_LABELS[phase],
+    isOpen,
+    holiday: getHoliday(date),
+    nextPhase: next?.phase ?? 'closed',
+    nextChangeAt: next?.at ?? now + DAY_MS,
+    nextOpenAt: nextOpenAt ?? now + DAY_MS,
+    nextCloseAt,
+  };
+};
+
+/**
+ * Delay until the next price poll: interval of the current phase,
+ * dipersingkat agar polling pertama jatuh tepat saat fase berganti
+ */
+export const getNextPollDelay = (date: Date = new Date()): number => {
+  const status = getMarketStatus(date);
+  const untilChange = Math.max(1000, status.nextChangeAt - date.getTime());
+  return Math.min(PHASE_POLL_INTERVAL_MS[status.phase], untilChange);
+};
+
+/**
+ * Format a duration for countdowns, dibulatkan ke atas per menit
+ * Satuan Indonesia: h = hari, j = jam, m = menit, mis. "2h 3j", "2j 15m", "14m"
+ */
+export const formatCountdown = (ms: number): string => {
+  const totalMinutes = Math.max(0, Math.ceil(ms / 60000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days}h ${hours}j`;
+  if (hours > 0) return `${hours}j ${minutes}m`;
+  return `${minutes}m`;
+};
+
+export default {
+  MARKET_PHASE_LABELS,
+  WEEKDAY_SESSIONS,
+  IDX_HOLIDAYS,
+  PHASE_POLL_INTERVAL_MS,
+  getHoliday,
+  hasHolidayCalendar,
+  getSessionsForDate,
+  isTradingDay,
+  getMarketPhase,
+  isMarketOpen,
+  getSessionWindowAt,
+  getPreviousCloseAt,
+  getMarketStatus,
+  getNextPollDelay,
+  formatCountdown,
+};
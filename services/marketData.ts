@@ -3,8 +3,9 @@
  * Handles fetching and generating historical stock data for IDX stocks
  */
 
-import { StockData, TimeRange } from '../types';
-import { fetchHistoricalData as fetchFromApi } from './stockApiService';
+import { StockData, TimeRange, DataSourceInfo } from '../types';
+import { fetchHistoryWithSource as fetchFromApi, SourcedHistory } from './stockApiService';
+import { BarInterval } from './barAggregator';
 
 interface RangeParams {
   range: string;
@@ -29,14 +30,42 @@ const getRangeParams = (range: TimeRange): RangeParams => {
   }
 };
 
-export const fetchHistoricalData = async (symbol: string, range: TimeRange): Promise<StockData[]> => {
+/**
+ * Default candle interval of an intraday range (null untuk range harian/mingguan)
+ */
+export const getDefaultBarInterval = (range: TimeRange): BarInterval | null => {
+  switch (range) {
+    case '1D': return '5m';
+    case '5D': return '15m';
+    default: return null;
+  }
+};
+
+// Source info for the fallbacks below, which bypass the provider registry
+const fallbackSource = (provider: string, providerName: string, simulated: boolean): DataSourceInfo => ({
+  provider,
+  providerName,
+  simulated,
+  stale: false,
+  fetchedAt: Date.now(),
+});
+
+/**
+ * Fetch chart data for a range together with its source
+ * @param barInterval - Candle interval untuk range intraday (default sesuai range)
+ */
+export const fetchHistoryWithSource = async (
+  symbol: string,
+  range: TimeRange,
+  barInterval: BarInterval | null = getDefaultBarInterval(range)
+): Promise<SourcedHistory> => {
   const { days } = getRangeParams(range);
   
   try {
     // Try using our stock API service first (with proper fallback)
-    const data = await fetchFromApi(symbol, days);
-    if (data && data.length > 0) {
-      return data;
+    const history = await fetchFromApi(symbol, days, 'IDX', barInterval ?? undefined);
+    if (history.data.length > 0) {
+      return history;
     }
     throw new Error('No data returned');
   } catch (error) {
@@ -45,17 +74,18 @@ export const fetchHistoricalData = async (symbol: string, range: TimeRange): Pro
 
   // Fallback: Try direct Yahoo Finance
   const ticker = symbol.endsWith('.JK') ? symbol : `${symbol}.JK`;
-  const { range: rangeParam, interval } = getRangeParams(range);
+  const { range: rangeParam } = getRangeParams(range);
+  const interval = barInterval === '1h' ? '60m' : barInterval ?? getRangeParams(range).interval;
   const baseUrl = `https://query1.finance.yahoo.com/v8/finance/chart/${ticker}?range=${rangeParam}&interval=${interval}`;
   
   try {
     const response = await fetch(baseUrl);
     if (!response.ok) throw new Error('Network response was not ok');
     const data = await response.json();
-    return parseYahooData(data);
+    return { data: parseYahooData(data), source: fallbackSource('yahoo_direct', 'Yahoo Finance', false) };
   } catch (error) {
     console.warn(`Direct fetch failed for ${ticker}, generating realistic fallback data.`);
-    return generateFallbackData(symbol, range);
+    return { data: generateFallbackData(symbol, range), source: fallbackSource('fallback', 'Simulator', true) };
   }
 };
 
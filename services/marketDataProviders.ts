@@ -0,0 +1,279 @@
+/**
+ * Market Data Providers
+ * Registry of pluggable market-data backends with health tracking and circuit breaking
+ *
+ * - Provider mengimplementasikan sebagian kapabilitas: quote, history, search, depth, fundamentals
+ * - Provider dicoba berurutan menurut prioritas (angka kecil dulu); provider simulasi
+ *   hanya dipakai kalau provider data asli tidak ada yang berhasil
+ * - Provider yang gagal beruntun di-"open" (circuit breaker) dan dilewati selama cooldown,
+ *   lalu dicoba lagi satu kali (half-open) sebelum dipakai normal
+ * - Latency & error per provider dicatat untuk ditampilkan di UI
+ */
+
+import { StockData, StockQuote, SymbolInfo, MarketDepth, DataSourceInfo, FinancialStatements } from '../types';
+
+export type MarketType = 'IDX' | 'US' | 'CRYPTO';
+export type ProviderCapability = 'quote' | 'history' | 'search' | 'depth' | 'fundamentals';
+export type CircuitState = 'closed' | 'open' | 'half_open';
+export type HistoryInterval = '1m' | '5m' | '15m' | '1h' | '1d';
+
+export interface MarketDataProvider {
+  id: string;
+  name: string;
+  priority: number;            // Kecil = dicoba lebih dulu
+  markets: MarketType[];
+  simulated?: boolean;         // Data buatan (mock/simulator)
+  fetchQuote?: (symbol: string, market: MarketType) => Promise<StockQuote>;
+  fetchHistory?: (symbol: string, days: number, market: MarketType, interval: HistoryInterval) => Promise<StockData[]>;
+  search?: (query: string, market: MarketType) => Promise<SymbolInfo[]>;
+  fetchDepth?: (symbol: string, levels: number) => Promise<MarketDepth>;
+  fetchFinancials?: (symbol: string, market: MarketType) => Promise<FinancialStatements>;
+}
+
+export interface ProviderHealth {
+  providerId: string;
+  state: CircuitState;
+  successCount: number;
+  failureCount: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number | null;  // Rata-rata bergerak (EWMA)
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  openUntil: number | null;     // Akhir cooldown saat circuit open
+}
+
+export interface ProviderResult<T> {
+  data: T;
+  provider: MarketDataProvider;
+}
+
+export interface ProviderRunOptions {
+  filter?: (provider: MarketDataProvider) => boolean;
+}
+
+const CAPABILITY_METHOD: Record<ProviderCapability, keyof MarketDataProvider> = {
+  quote: 'fetchQuote',
+  history: 'fetchHistory',
+  search: 'search',
+  depth: 'fetchDepth',
+  fundamentals: 'fetchFinancials',
+};
+
+const PROVIDER_SETTINGS_KEY = 'rizbot_data_providers';
+const FAILURE_THRESHOLD = 3;
+const OPEN_DURATION_MS = 60000;
+const LATENCY_SMOOTHING = 0.3;
+
+const providers = new Map<string, MarketDataProvider>();
+const healthStats = new Map<string, ProviderHealth>();
+const halfOpenTrials = new Set<string>();
+const healthListeners = new Set<() => void>();
+
+const loadDisabledProviders = (): Set<string> => {
+  try {
+    const stored = localStorage.getItem(PROVIDER_SETTINGS_KEY);
+    if (stored) return new Set(JSON.parse(stored).disabled || []);
+  } catch (e) {
+    console.error('Failed to load data provider settings:', e);
+  }
+  return new Set();
+};
+
+let disabledProviders: Set<string> | null = null;
+
+const getDisabledProviders = (): Set<string> => {
+  if (!disabledProviders) disabledProviders = loadDisabledProviders();
+  return disabledProviders;
+};
+
+const createHealth = (providerId: string): ProviderHealth => ({
+  providerId,
+  state: 'closed',
+  successCount: 0,
+  failureCount: 0,
+  consecutiveFailures: 0,
+  avgLatencyMs: null,
+  lastLatencyMs: null,
+  lastError: null,
+  lastSuccessAt: null,
+  lastFailureAt: null,
+  openUntil: null,
+});
+
+const notifyHealthListeners = () => healthListeners.forEach(listener => listener());
+
+/**
+ * Register (or replace) a data provider
+ */
+export const registerDataProvider = (provider: MarketDataProvider) => {
+  providers.set(provider.id, provider);
+  if (!healthStats.has(provider.id)) healthStats.set(provider.id, createHealth(provider.id));
+  notifyHealthListeners();
+};
+
+export const unregisterDataProvider = (providerId: string) => {
+  providers.delete(providerId);
+  healthStats.delete(providerId);
+  notifyHealthListeners();
+};
+
+export const isProviderEnabled = (providerId: string): boolean => !getDisabledProviders().has(providerId);
+
+/**
+ * Enable/disable a provider (tersimpan di localStorage)
+ */
+export const setProviderEnabled = (providerId: string, enabled: boolean) => {
+  const disabled = getDisabledProviders();
+  if (enabled) disabled.delete(providerId);
+  else disabled.add(providerId);
+  localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify({ disabled: [...disabled] }));
+  notifyHealthListeners();
+};
+
+/**
+ * Registered providers sorted by priority, optionally only those supporting a capability & market
+ */
+export const getDataProviders = (capability?: ProviderCapability, market?: MarketType): MarketDataProvider[] =>
+  [...providers.values()]
+    .filter(p => !capability || typeof p[CAPABILITY_METHOD[capability]] === 'function')
+    .filter(p => !market || p.markets.includes(market))
+    .sort((a, b) => a.priority - b.priority);
+
+export const getProviderHealth = (providerId: string): ProviderHealth =>
+  healthStats.get(providerId) || createHealth(providerId);
+
+export const getAllProviderHealth = (): ProviderHealth[] =>
+  getDataProviders().map(p => getProviderHealth(p.id));
+
+/**
+ * Reset health stats (dan tutup circuit) untuk satu atau semua provider
+ */
+export const resetProviderHealth = (providerId?: string) => {
+  const ids = providerId ? [providerId] : [...providers.keys()];
+  ids.forEach(id => {
+    healthStats.set(id, createHealth(id));
+    halfOpenTrials.delete(id);
+  });
+  notifyHealthListeners();
+};
+
+/**
+ * Listen for health/registry changes
+ * @returns Unsubscribe function
+ */
+export const subscribeToProviderHealth = (listener: () => void): (() => void) => {
+  healthListeners.add(listener);
+  return () => {
+    healthListeners.delete(listener);
+  };
+};
+
+// Whether a provider may be called now; an expired open circuit allows one trial call
+const canAttempt = (providerId: string): boolean => {
+  const health = getProviderHealth(providerId);
+  if (health.state === 'closed') return true;
+  if (health.state === 'open' && health.openUntil !== null && Date.now() < health.openUntil) return false;
+  if (halfOpenTrials.has(providerId)) return false;
+  healthStats.set(providerId, { ...health, state: 'half_open', openUntil: null });
+  halfOpenTrials.add(providerId);
+  return true;
+};
+
+const recordSuccess = (providerId: string, latencyMs: number) => {
+  const health = getProviderHealth(providerId);
+  halfOpenTrials.delete(providerId);
+  healthStats.set(providerId, {
+    ...health,
+    state: 'closed',
+    successCount: health.successCount + 1,
+    consecutiveFailures: 0,
+    avgLatencyMs: health.avgLatencyMs === null
+      ? latencyMs
+      : Math.round(health.avgLatencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING),
+    lastLatencyMs: latencyMs,
+    lastSuccessAt: Date.now(),
+    openUntil: null,
+  });
+  notifyHealthListeners();
+};
+
+const recordFailure = (providerId: string, latencyMs: number, error: unknown) => {
+  const health = getProviderHealth(providerId);
+  const consecutiveFailures = health.consecutiveFailures + 1;
+  // Trial half-open yang gagal langsung membuka circuit lagi
+  const shouldOpen = health.state === 'half_open' || consecutiveFailures >= FAILURE_THRESHOLD;
+  halfOpenTrials.delete(providerId);
+  healthStats.set(providerId, {
+    ...health,
+    state: shouldOpen ? 'open' : 'closed',
+    failureCount: health.failureCount + 1,
+    consecutiveFailures,
+    lastLatencyMs: latencyMs,
+    lastError: error instanceof Error ? error.message : String(error),
+    lastFailureAt: Date.now(),
+    openUntil: shouldOpen ? Date.now() + OPEN_DURATION_MS : null,
+  });
+  notifyHealthListeners();
+};
+
+/**
+ * Run a request against providers in priority order until one succeeds
+ * Provider yang dinonaktifkan atau circuit-nya open dilewati.
+ * @throws Error berisi ringkasan kegagalan kalau semua provider gagal
+ */
+export const runWithProviders = async <T>(
+  capability: ProviderCapability,
+  market: MarketType,
+  request: (provider: MarketDataProvider) => Promise<T>,
+  options: ProviderRunOptions = {}
+): Promise<ProviderResult<T>> => {
+  const candidates = getDataProviders(capability, market)
+    .filter(p => isProviderEnabled(p.id))
+    .filter(p => !options.filter || options.filter(p));
+  const errors: string[] = [];
+
+  for (const provider of candidates) {
+    if (!canAttempt(provider.id)) {
+      errors.push(`${provider.name}: circuit open`);
+      continue;
+    }
+    const startedAt = Date.now();
+    try {
+      const data = await request(provider);
+      recordSuccess(provider.id, Date.now() - startedAt);
+      return { data, provider };
+    } catch (error) {
+      recordFailure(provider.id, Date.now() - startedAt, error);
+      errors.push(`${provider.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  throw new Error(`Tidak ada provider ${capability} yang berhasil (${errors.join('; ') || 'tidak ada provider'})`);
+};
+
+/**
+ * Describe where a piece of data came from
+ */
+export const toDataSource = (provider: MarketDataProvider, stale: boolean = false): DataSourceInfo => ({
+  provider: provider.id,
+  providerName: provider.name,
+  simulated: !!provider.simulated,
+  stale,
+  fetchedAt: Date.now(),
+});
+
+export default {
+  registerDataProvider,
+  unregisterDataProvider,
+  isProviderEnabled,
+  setProviderEnabled,
+  getDataProviders,
+  getProviderHealth,
+  getAllProviderHealth,
+  resetProviderHealth,
+  subscribeToProviderHealth,
+  runWithProviders,
+  toDataSource,
+};
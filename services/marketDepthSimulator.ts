@@ -0,0 +1,95 @@
+/**
+ * Market Depth Simulator
+ * Deterministic order book for offline use and as fallback when no depth feed is available
+ *
+ * - Tangga harga mengikuti fraksi harga IDX dan dibatasi ARA/ARB dari harga acuan
+ * - Hasil hanya bergantung pada simbol, harga dan seed, jadi mudah direproduksi;
+ *   seed default berganti tiap beberapa detik agar antrian terlihat bergerak
+ */
+
+import { DepthLevel, MarketDepth } from '../types';
+import { buildPriceLadder, stepTicks, getAutoRejectionLimits } from '../utils/marketRules';
+
+export interface DepthSimulationOptions {
+  levels?: number;
+  referencePrice?: number;   // Harga acuan ARA/ARB (prev close)
+  seed?: number;
+  timestamp?: number;        // Waktu snapshot (default: sekarang), menentukan seed default
+}
+
+export const SIMULATOR_PROVIDER_ID = 'simulator';
+export const SIMULATION_BUCKET_MS = 5000;
+
+const DEFAULT_LEVELS = 10;
+
+// Mulberry32 PRNG: cepat dan deterministik untuk seed yang sama
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Seed for the current time bucket
+export const getSimulationSeed = (symbol: string, timestamp: number = Date.now()): number =>
+  (hashString(symbol) ^ Math.floor(timestamp / SIMULATION_BUCKET_MS)) >>> 0;
+
+/**
+ * Simulate a tick-size-aware order book around the last price
+ */
+export const simulateMarketDepth = (
+  symbol: string,
+  lastPrice: number,
+  options: DepthSimulationOptions = {}
+): MarketDepth => {
+  const levels = options.levels ?? DEFAULT_LEVELS;
+  const timestamp = options.timestamp ?? Date.now();
+  const random = createRandom(options.seed ?? getSimulationSeed(symbol, timestamp));
+  const limits = options.referencePrice ? getAutoRejectionLimits(options.referencePrice) : null;
+
+  // Saham murah antriannya lebih tebal (dalam lot)
+  const baseLots = Math.max(20, Math.round(5_000_000 / Math.max(lastPrice, 1)));
+  const lotsPerOrder = Math.max(5, baseLots / 20);
+  const bidBias = 0.7 + random() * 0.6;
+
+  const buildLevels = (prices: number[], bias: number): DepthLevel[] =>
+    prices
+      .filter(price => !limits || (price >= limits.lower && price <= limits.upper))
+      .map((price, i) => {
+        const lots = Math.max(1, Math.round(baseLots * bias * (0.3 + random() * 1.7) * (1 + i * 0.15)));
+        const orders = Math.min(lots, Math.max(1, Math.round((lots / lotsPerOrder) * (0.5 + random()))));
+        return { price, lots, orders };
+      });
+
+  const bestBid = buildPriceLadder(lastPrice, 1, 'down')[0] ?? lastPrice;
+  const bids = buildLevels(buildPriceLadder(bestBid, levels, 'down'), bidBias);
+  const asks = buildLevels(buildPriceLadder(stepTicks(bestBid, 1), levels, 'up'), 2 - bidBias);
+
+  return {
+    symbol,
+    bids,
+    asks,
+    lastPrice,
+    timestamp,
+    source: SIMULATOR_PROVIDER_ID,
+    simulated: true,
+  };
+};
+
+export default {
+  SIMULATOR_PROVIDER_ID,
+  getSimulationSeed,
+  simulateMarketDepth,
+};
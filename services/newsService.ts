@@ -4,6 +4,7 @@
  */
 
 import { analyzeNewsSentiment } from './geminiService';
+import { getCachedEntry, putCachedEntry } from './offlineCacheService';
 
 export interface NewsArticle {
   id: string;
@@ -232,6 +233,13 @@ export const fetchStockNews = async (symbol: string): Promise<NewsArticle[]> =>
     return cached.data;
   }
 
+  // Cache tersimpan (IndexedDB) dari sesi sebelumnya
+  const stored = await getCachedEntry<NewsArticle[]>(cacheKey);
+  if (stored && Date.now() - stored.timestamp < NEWS_CACHE_DURATION) {
+    newsCache.set(cacheKey, { data: stored.data, timestamp: stored.timestamp });
+    return stored.data;
+  }
+
   // In production, this would call a real news API
   // For now, return mock data with slight variations
   let news = MOCK_NEWS[symbol] || ADDITIONAL_NEWS[symbol] || DEFAULT_NEWS.map(n => ({
@@ -247,6 +255,7 @@ export const fetchStockNews = async (symbol: string): Promise<NewsArticle[]> =>
   }));
 
   newsCache.set(cacheKey, { data: news, timestamp: Date.now() });
+  putCachedEntry(cacheKey, news);
   return news;
 };
 
@@ -0,0 +1,373 @@
+/**
+ * Offline Cache Service
+ * IndexedDB-backed store for OHLCV candles, last quotes and other cached responses
+ *
+ * - Candle disimpan per seri (simbol + market + interval), key [seri, timestamp]
+ * - Metadata seri mencatat rentang yang sudah ada sehingga yang di-fetch hanya bagian yang kurang
+ * - Entry key/value (quote terakhir, berita) bertahan setelah reload untuk dipakai saat offline
+ * - Batas eviction (jumlah seri, candle per seri, umur idle) bisa diatur di pengaturan
+ * - Pemakai massal (screener: satu seri harian per emiten) memesan kapasitas seri di atas maxSeries,
+ *   supaya refresh-nya tidak menggusur seri chart/watchlist lewat LRU
+ *
+ * Semua fungsi aman dipanggil tanpa IndexedDB (mis. private mode): hasilnya kosong/no-op.
+ */
+
+import { StockData } from '../types';
+
+export interface SeriesKey {
+  symbol: string;
+  market: string;
+  interval: string;
+}
+
+export interface SeriesMeta extends SeriesKey {
+  series: string;
+  firstTimestamp: number;
+  lastTimestamp: number;
+  count: number;
+  lastFetchedAt: number;     // Terakhir disinkronkan dengan provider
+  lastAccessedAt: number;    // Untuk eviction LRU
+  provider: string;
+  providerName: string;
+}
+
+export interface CachedEntry<T> {
+  key: string;
+  data: T;
+  timestamp: number;
+}
+
+export interface OfflineCacheSettings {
+  enabled: boolean;
+  maxSeries: number;
+  maxCandlesPerSeries: number;
+  maxIdleDays: number;       // Seri/entry yang tidak diakses selama ini dihapus
+}
+
+export interface OfflineCacheStats {
+  seriesCount: number;
+  candleCount: number;
+  entryCount: number;
+  oldestAccessAt: number | null;
+}
+
+interface StoredCandle extends StockData {
+  series: string;
+  timestamp: number;
+}
+
+export const DEFAULT_CACHE_SETTINGS: OfflineCacheSettings = {
+  enabled: true,
+  maxSeries: 100,
+  maxCandlesPerSeries: 5000,
+  maxIdleDays: 30,
+};
+
+const DB_NAME = 'rizbot_offline_cache';
+const DB_VERSION = 1;
+const CANDLE_STORE = 'candles';
+const SERIES_STORE = 'series';
+const ENTRY_STORE = 'entries';
+const SETTINGS_KEY = 'rizbot_cache_settings';
+const RESERVED_KEY = 'rizbot_cache_reserved_series';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+export const isOfflineCacheAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+/**
+ * Load eviction settings
+ */
+export const loadCacheSettings = (): OfflineCacheSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (stored) return { ...DEFAULT_CACHE_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.error('Failed to load cache settings:', e);
+  }
+  return DEFAULT_CACHE_SETTINGS;
+};
+
+// Kapasitas seri yang dipesan per pemakai, disimpan supaya tetap berlaku setelah reload
+const loadSeriesReservations = (): Record<string, number> => {
+  try {
+    const stored = localStorage.getItem(RESERVED_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (e) {
+    console.error('Failed to load cache reservations:', e);
+  }
+  return {};
+};
+
+/**
+ * Reserve series capacity on top of maxSeries for a bulk consumer
+ * @param owner - Nama pemakai (mis. 'screener'); pesanan baru menggantikan yang lama
+ * @param count - Jumlah seri yang dipesan, 0 untuk melepas
+ */
+export const reserveSeriesCapacity = (owner: string, count: number): void => {
+  const reservations = loadSeriesReservations();
+  if (count > 0) reservations[owner] = count;
+  else delete reservations[owner];
+  localStorage.setItem(RESERVED_KEY, JSON.stringify(reservations));
+};
+
+/**
+ * Effective series limit: maxSeries plus every reservation
+ */
+export const getSeriesLimit = (settings: OfflineCacheSettings = loadCacheSettings()): number =>
+  settings.maxSeries + Object.values(loadSeriesReservations()).reduce((sum, count) => sum + count, 0);
+
+/**
+ * Save eviction settings and apply the new limits
+ */
+export const saveCacheSettings = async (settings: OfflineCacheSettings): Promise<void> => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  await enforceEvictionLimits();
+};
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (!isOfflineCacheAvailable()) {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CANDLE_STORE)) {
+          db.createObjectStore(CANDLE_STORE, { keyPath: ['series', 'timestamp'] });
+        }
+        if (!db.objectStoreNames.contains(SERIES_STORE)) {
+          db.createObjectStore(SERIES_STORE, { keyPath: 'series' });
+        }
+        if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+          db.createObjectStore(ENTRY_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('IndexedDB unavailable, offline cache disabled:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Run a transaction when the cache is usable; resolves to the fallback otherwise
+const withStores = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  fallback: T,
+  run: (tx: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  if (!loadCacheSettings().enabled) return fallback;
+  const db = await openDatabase();
+  if (!db) return fallback;
+  try {
+    const tx = db.transaction(storeNames, mode);
+    const result = await run(tx);
+    await transactionDone(tx);
+    return result;
+  } catch (error) {
+    console.warn('Offline cache operation failed:', error);
+    return fallback;
+  }
+};
+
+export const getSeriesId = ({ symbol, market, interval }: SeriesKey): string => `${symbol}|${market}|${interval}`;
+
+const seriesRange = (series: string, from: number = -Infinity, to: number = Infinity) =>
+  IDBKeyRange.bound([series, from], [series, to]);
+
+/**
+ * Metadata of a cached series (null kalau belum pernah disimpan)
+ */
+export const getSeriesMeta = (key: SeriesKey): Promise<SeriesMeta | null> =>
+  withStores([SERIES_STORE], 'readonly', null, async tx =>
+    (await promisify(tx.objectStore(SERIES_STORE).get(getSeriesId(key)))) || null
+  );
+
+/**
+ * Cached candles of a series within a time range, oldest first
+ */
+export const getCandles = (key: SeriesKey, from?: number, to?: number): Promise<StockData[]> =>
+  withStores([CANDLE_STORE, SERIES_STORE], 'readwrite', [] as StockData[], async tx => {
+    const series = getSeriesId(key);
+    const rows: StoredCandle[] = await promisify(tx.objectStore(CANDLE_STORE).getAll(seriesRange(series, from, to)));
+    const metaStore = tx.objectStore(SERIES_STORE);
+    const meta: SeriesMeta | undefined = await promisify(metaStore.get(series));
+    if (meta) metaStore.put({ ...meta, lastAccessedAt: Date.now() });
+    return rows.map(({ series: _series, ...candle }) => candle);
+  });
+
+/**
+ * Upsert candles into a series (bar dengan timestamp sama ditimpa, mis. candle hari ini)
+ * Candle tanpa timestamp diabaikan.
+ */
+export const putCandles = async (
+  key: SeriesKey,
+  candles: StockData[],
+  source: { provider: string; providerName: string }
+): Promise<void> => {
+  const series = getSeriesId(key);
+  const rows = candles.filter((c): c is StockData & { timestamp: number } => typeof c.timestamp === 'number');
+  if (rows.length === 0) return;
+
+  const isNewSeries = await withStores([CANDLE_STORE, SERIES_STORE], 'readwrite', false, async tx => {
+    const candleStore = tx.objectStore(CANDLE_STORE);
+    rows.forEach(candle => candleStore.put({ ...candle, series }));
+
+    const count = await promisify(candleStore.count(seriesRange(series)));
+    const metaStore = tx.objectStore(SERIES_STORE);
+    const existing: SeriesMeta | undefined = await promisify(metaStore.get(series));
+    const timestamps = rows.map(c => c.timestamp);
+    const now = Date.now();
+    metaStore.put({
+      ...key,
+      series,
+      firstTimestamp: Math.min(existing?.firstTimestamp ?? Infinity, ...timestamps),
+      lastTimestamp: Math.max(existing?.lastTimestamp ?? -Infinity, ...timestamps),
+      count,
+      lastFetchedAt: now,
+      lastAccessedAt: now,
+      provider: source.provider,
+      providerName: source.providerName,
+    } as SeriesMeta);
+    return !existing;
+  });
+
+  if (isNewSeries) await enforceEvictionLimits();
+  else await trimSeries(series);
+};
+
+// Drop the oldest candles of a series beyond the per-series limit
+const trimSeries = (series: string): Promise<void> =>
+  withStores([CANDLE_STORE, SERIES_STORE], 'readwrite', undefined, async tx => {
+    const { maxCandlesPerSeries } = loadCacheSettings();
+    const candleStore = tx.objectStore(CANDLE_STORE);
+    const count = await promisify(candleStore.count(seriesRange(series)));
+    const excess = count - maxCandlesPerSeries;
+    if (excess <= 0) return;
+
+    // Key urut [seri, timestamp]: yang pertama paling lama
+    const keys = await promisify(candleStore.getAllKeys(seriesRange(series), excess + 1));
+    keys.slice(0, excess).forEach(k => candleStore.delete(k));
+    const firstKept = keys[excess] as [string, number] | undefined;
+
+    const metaStore = tx.objectStore(SERIES_STORE);
+    const meta: SeriesMeta | undefined = await promisify(metaStore.get(series));
+    if (meta && firstKept) {
+      metaStore.put({ ...meta, count: maxCandlesPerSeries, firstTimestamp: firstKept[1] });
+    }
+  });
+
+/**
+ * Read a cached key/value entry
+ */
+export const getCachedEntry = <T>(key: string): Promise<CachedEntry<T> | null> =>
+  withStores([ENTRY_STORE], 'readonly', null, async tx =>
+    (await promisify(tx.objectStore(ENTRY_STORE).get(key))) || null
+  );
+
+/**
+ * Write a cached key/value entry
+ */
+export const putCachedEntry = <T>(key: string, data: T): Promise<void> =>
+  withStores([ENTRY_STORE], 'readwrite', undefined, async tx => {
+    tx.objectStore(ENTRY_STORE).put({ key, data, timestamp: Date.now() });
+  });
+
+/**
+ * Apply eviction limits: seri idle & seri paling jarang dipakai di atas batas,
+ * candle terlama di atas batas per seri, entry kedaluwarsa
+ */
+export const enforceEvictionLimits = async (): Promise<void> => {
+  const oversized = await withStores([CANDLE_STORE, SERIES_STORE, ENTRY_STORE], 'readwrite', [] as string[], async tx => {
+    const settings = loadCacheSettings();
+    const { maxIdleDays, maxCandlesPerSeries } = settings;
+    const maxSeries = getSeriesLimit(settings);
+    const idleCutoff = Date.now() - maxIdleDays * DAY_MS;
+    const candleStore = tx.objectStore(CANDLE_STORE);
+    const metaStore = tx.objectStore(SERIES_STORE);
+    const entryStore = tx.objectStore(ENTRY_STORE);
+
+    const metas: SeriesMeta[] = await promisify(metaStore.getAll());
+    const byRecentUse = [...metas].sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+    const isEvicted = (meta: SeriesMeta, i: number) => i >= maxSeries || meta.lastAccessedAt < idleCutoff;
+    byRecentUse.filter(isEvicted).forEach(meta => {
+      candleStore.delete(seriesRange(meta.series));
+      metaStore.delete(meta.series);
+    });
+
+    const entries: CachedEntry<unknown>[] = await promisify(entryStore.getAll());
+    entries.filter(e => e.timestamp < idleCutoff).forEach(e => entryStore.delete(e.key));
+
+    return byRecentUse
+      .filter((meta, i) => !isEvicted(meta, i) && meta.count > maxCandlesPerSeries)
+      .map(meta => meta.series);
+  });
+
+  for (const series of oversized) {
+    await trimSeries(series);
+  }
+};
+
+/**
+ * Sizes of the cache for the settings screen
+ */
+export const getCacheStats = (): Promise<OfflineCacheStats> =>
+  withStores([CANDLE_STORE, SERIES_STORE, ENTRY_STORE], 'readonly',
+    { seriesCount: 0, candleCount: 0, entryCount: 0, oldestAccessAt: null } as OfflineCacheStats,
+    async tx => {
+      const metas: SeriesMeta[] = await promisify(tx.objectStore(SERIES_STORE).getAll());
+      return {
+        seriesCount: metas.length,
+        candleCount: await promisify(tx.objectStore(CANDLE_STORE).count()),
+        entryCount: await promisify(tx.objectStore(ENTRY_STORE).count()),
+        oldestAccessAt: metas.length > 0 ? Math.min(...metas.map(m => m.lastAccessedAt)) : null,
+      };
+    });
+
+/**
+ * Delete everything in the offline cache
+ */
+export const clearOfflineCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) return;
+  const tx = db.transaction([CANDLE_STORE, SERIES_STORE, ENTRY_STORE], 'readwrite');
+  [CANDLE_STORE, SERIES_STORE, ENTRY_STORE].forEach(name => tx.objectStore(name).clear());
+  await transactionDone(tx);
+};
+
+export default {
+  DEFAULT_CACHE_SETTINGS,
+  isOfflineCacheAvailable,
+  loadCacheSettings,
+  saveCacheSettings,
+  reserveSeriesCapacity,
+  getSeriesLimit,
+  getSeriesMeta,
+  getCandles,
+  putCandles,
+  getCachedEntry,
+  putCachedEntry,
+  enforceEvictionLimits,
+  getCacheStats,
+  clearOfflineCache,
+};
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { addBuyTransaction } from './portfolioService';
+import { placePaperOrder, processPriceUpdate, loadPaperAccount, resetPaperAccount } from './paperTradingService';
+
+vi.mock('./priceStreamService', () => ({ subscribeToPrice: vi.fn() }));
+vi.mock('./portfolioService', () => ({
+  addBuyTransaction: vi.fn(() => ({ id: 'tx_buy' })),
+  addSellTransaction: vi.fn(() => ({ id: 'tx_sell' })),
+  calculateBrokerFee: vi.fn(() => 0),
+  clearPortfolio: vi.fn(),
+  getPaperPortfolio: vi.fn(() => ({ id: 'pf_paper' })),
+}));
+
+beforeEach(() => {
+  resetPaperAccount(10000000);
+  vi.mocked(addBuyTransaction).mockClear();
+});
+
+describe('paper market orders', () => {
+  it('keeps a market order without a quote pending and fills it on the next real price', () => {
+    const order = placePaperOrder({ symbol: 'ZZZZ', side: 'buy', type: 'market', lots: 2 });
+    expect(order.status).toBe('pending');
+
+    expect(processPriceUpdate('ZZZZ', { price: 1000, change: 0, simulated: true })).toEqual([]);
+    const [filled] = processPriceUpdate('ZZZZ', { price: 1000, change: 10 });
+    expect(filled).toMatchObject({ id: order.id, status: 'filled', fillPrice: 1000, transactionId: 'tx_buy' });
+    expect(vi.mocked(addBuyTransaction).mock.calls[0][6]).toBe('pf_paper');
+    expect(loadPaperAccount().cash).toBe(10000000 - 2 * 100 * 1000);
+  });
+
+  it('rejects the fill and leaves cash untouched when the portfolio cannot record it', () => {
+    vi.mocked(addBuyTransaction).mockImplementationOnce(() => {
+      throw new Error('Portfolio penuh');
+    });
+    const order = placePaperOrder({ symbol: 'YYYY', side: 'buy', type: 'market', lots: 1 }, { price: 500, change: 0 });
+
+    expect(order.status).toBe('rejected');
+    expect(order.rejectReason).toContain('Portfolio penuh');
+    expect(loadPaperAccount().cash).toBe(10000000);
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * Paper Trading Service
+ * Simulated brokerage account with market/limit/stop orders filled against live price updates
+ *
+ * - Saldo kas virtual, tidak terhubung ke broker
+ * - Order dalam lot (1 lot = 100 lembar), harga wajib sesuai fraksi harga
+ * - Order di luar batas ARA/ARB ditolak
+ * - Setiap fill dicatat di portfolio paper trading khusus (bukan portfolio aktif user); fill yang gagal
+ *   dicatat ditolak dan kas tidak berubah
+ * - Harga simulasi tidak pernah dipakai untuk mengisi order maupun sebagai harga acuan
+ */
+
+import { subscribeToPrice } from './priceStreamService';
+import {
+  addBuyTransaction,
+  addSellTransaction,
+  calculateBrokerFee,
+  clearPortfolio,
+  getPaperPortfolio,
+} from './portfolioService';
+import { IDX_LOT_SIZE, isValidTick, getAutoRejectionLimits } from '../utils/marketRules';
+
+export type OrderSide = 'buy' | 'sell';
+export type OrderType = 'market' | 'limit' | 'stop';
+export type OrderStatus = 'pending' | 'filled' | 'cancelled' | 'rejected';
+
+export interface PaperOrder {
+  id: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  lots: number;
+  limitPrice?: number;   // Untuk order limit
+  stopPrice?: number;    // Untuk order stop (menjadi market saat tersentuh)
+  status: OrderStatus;
+  createdAt: number;
+  filledAt?: number;
+  fillPrice?: number;
+  fee?: number;
+  transactionId?: string; // ID transaksi di portfolioService
+  rejectReason?: string;
+  note?: string;
+}
+
+export interface PaperHolding {
+  symbol: string;
+  lots: number;
+  averagePrice: number;  // Termasuk fee beli
+}
+
+export interface PaperAccount {
+  initialBalance: number;
+  cash: number;
+  orders: PaperOrder[];
+  createdAt: number;
+}
+
+export interface PlaceOrderInput {
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  lots: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  note?: string;
+}
+
+export interface PriceUpdate {
+  price: number;
+  change: number;
+  simulated?: boolean;
+}
+
+const PAPER_ACCOUNT_STORAGE_KEY = 'rizbot_paper_account';
+export const DEFAULT_PAPER_BALANCE = 100000000; // Rp 100 juta
+
+// Harga terakhir & harga acuan per simbol (dari update harga terakhir)
+const lastQuotes: Map<string, { price: number; referencePrice: number }> = new Map();
+
+// Generate unique ID
+const generateId = (): string => {
+  return `ord_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+const createAccount = (initialBalance: number = DEFAULT_PAPER_BALANCE): PaperAccount => ({
+  initialBalance,
+  cash: initialBalance,
+  orders: [],
+  createdAt: Date.now(),
+});
+
+// Load account from localStorage
+export const loadPaperAccount = (): PaperAccount => {
+  try {
+    const stored = localStorage.getItem(PAPER_ACCOUNT_STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (e) {
+    console.error('Failed to load paper account:', e);
+  }
+  return createAccount();
+};
+
+// Save account to localStorage
+export const savePaperAccount = (account: PaperAccount) => {
+  try {
+    localStorage.setItem(PAPER_ACCOUNT_STORAGE_KEY, JSON.stringify(account));
+  } catch (e) {
+    console.error('Failed to save paper account:', e);
+  }
+};
+
+// Portfolio that receives every paper fill, its fee profile and holdings checks
+export const getPaperPortfolioId = (): string => getPaperPortfolio().id;
+
+/**
+ * Reset the account to a fresh cash balance (order history and paper portfolio transactions are cleared)
+ */
+export const resetPaperAccount = (initialBalance: number = DEFAULT_PAPER_BALANCE): PaperAccount => {
+  const account = createAccount(initialBalance);
+  savePaperAccount(account);
+  clearPortfolio(getPaperPortfolioId());
+  return account;
+};
+
+/**
+ * Holdings derived from filled orders
+ */
+export const getPaperHoldings = (account: PaperAccount = loadPaperAccount()): PaperHolding[] => {
+  const holdings: Map<string, { lots: number; cost: number }> = new Map();
+
+  account.orders
+    .filter(o => o.status === 'filled')
+    .sort((a, b) => (a.filledAt || 0) - (b.filledAt || 0))
+    .forEach(order => {
+      const current = holdings.get(order.symbol) || { lots: 0, cost: 0 };
+      const gross = order.lots * IDX_LOT_SIZE * (order.fillPrice || 0);
+      if (order.side === 'buy') {
+        current.lots += order.lots;
+        current.cost += gross + (order.fee || 0);
+      } else {
+        const avgCostPerLot = current.lots > 0 ? current.cost / current.lots : 0;
+        current.lots -= order.lots;
+        current.cost -= avgCostPerLot * order.lots;
+      }
+      holdings.set(order.symbol, current);
+    });
+
+  return [...holdings.entries()]
+    .filter(([, h]) => h.lots > 0)
+    .map(([symbol, h]) => ({
+      symbol,
+      lots: h.lots,
+      averagePrice: h.cost / (h.lots * IDX_LOT_SIZE),
+    }));
+};
+
+// Estimated cash needed for a pending buy order (harga terburuk yang mungkin terisi)
+const estimateBuyCost = (order: PaperOrder, marketPrice?: number): number => {
+  const price = order.type === 'limit'
+    ? order.limitPrice || 0
+    : order.type === 'stop'
+      ? order.stopPrice || 0
+      : marketPrice || lastQuotes.get(order.symbol)?.price || 0;
+  return order.lots * IDX_LOT_SIZE * price + calculateBrokerFee('buy', order.lots, price, getPaperPortfolioId());
+};
+
+/**
+ * Cash not reserved by pending buy orders
+ */
+export const getAvailableCash = (account: PaperAccount = loadPaperAccount()): number => {
+  const reserved = account.orders
+    .filter(o => o.status === 'pending' && o.side === 'buy')
+    .reduce((sum, o) => sum + estimateBuyCost(o), 0);
+  return account.cash - reserved;
+};
+
+/**
+ * Lots available to sell (holdings minus pending sell orders)
+ */
+export const getAvailableLots = (symbol: string, account: PaperAccount = loadPaperAccount()): number => {
+  const held = getPaperHoldings(account).find(h => h.symbol === symbol)?.lots || 0;
+  const pendingSells = account.orders
+    .filter(o => o.status === 'pending' && o.side === 'sell' && o.symbol === symbol)
+    .reduce((sum, o) => sum + o.lots, 0);
+  return held - pendingSells;
+};
+
+/**
+ * Total account value at the given prices
+ */
+export const getPaperEquity = (prices: Record<string, number>, account: PaperAccount = loadPaperAccount()): number => {
+  return getPaperHoldings(account).reduce((sum, h) => {
+    const price = prices[h.symbol] || lastQuotes.get(h.symbol)?.price || h.averagePrice;
+    return sum + h.lots * IDX_LOT_SIZE * price;
+  }, account.cash);
+};
+
+/**
+ * Validate order price against tick size and ARA/ARB limits
+ * Returns a reject reason, or null if the price is tradable.
+ */
+const validateOrderPrice = (price: number, referencePrice?: number): string | null => {
+  if (!isValidTick(price)) {
+    return `Harga Rp ${price.toLocaleString('id-ID')} tidak sesuai fraksi harga`;
+  }
+  if (referencePrice && referencePrice > 0) {
+    const { upper, lower } = getAutoRejectionLimits(referencePrice);
+    if (price > upper) return `Harga di atas batas ARA (Rp ${upper.toLocaleString('id-ID')})`;
+    if (price < lower) return `Harga di bawah batas ARB (Rp ${lower.toLocaleString('id-ID')})`;
+  }
+  return null;
+};
+
+/**
+ * Place a new paper order
+ * Market orders fill immediately when a quote is known; otherwise they wait for the next price update.
+ * Orders that break exchange rules are stored with status 'rejected'.
+ */
+export const placePaperOrder = (input: PlaceOrderInput, quote?: PriceUpdate): PaperOrder => {
+  if (input.lots <= 0 || !Number.isInteger(input.lots)) throw new Error('Jumlah lot harus bilangan bulat lebih dari 0');
+  if (input.type === 'limit' && !input.limitPrice) throw new Error('Harga limit wajib diisi');
+  if (input.type === 'stop' && !input.stopPrice) throw new Error('Harga stop wajib diisi');
+
+  const symbol = input.symbol.toUpperCase();
+  if (quote && !quote.simulated && quote.price > 0) {
+    lastQuotes.set(symbol, { price: quote.price, referencePrice: quote.price - quote.change });
+  }
+
+  const account = loadPaperAccount();
+  const order: PaperOrder = {
+    id: generateId(),
+    symbol,
+    side: input.side,
+    type: input.type,
+    lots: input.lots,
+    limitPrice: input.type === 'limit' ? input.limitPrice : undefined,
+    stopPrice: input.type === 'stop' ? input.stopPrice : undefined,
+    status: 'pending',
+    createdAt: Date.now(),
+    note: input.note,
+  };
+
+  const referencePrice = lastQuotes.get(symbol)?.referencePrice;
+  const orderPrice = order.limitPrice || order.stopPrice;
+  let rejectReason = orderPrice ? validateOrderPrice(orderPrice, referencePrice) : null;
+
+  // Market order tanpa harga (biaya 0) tetap pending; saldonya dicek saat eksekusi
+  if (!rejectReason && order.side === 'buy') {
+    const cost = estimateBuyCost(order);
+    if (cost > 0 && cost > getAvailableCash(account)) {
+      rejectReason = 'Saldo tidak cukup';
+    }
+  }
+  if (!rejectReason && order.side === 'sell' && order.lots > getAvailableLots(symbol, account)) {
+    rejectReason = `Lot tidak cukup. Tersedia: ${getAvailableLots(symbol, account)} lot`;
+  }
+
+  if (rejectReason) {
+    order.status = 'rejected';
+    order.rejectReason = rejectReason;
+  }
+
+  account.orders.push(order);
+  savePaperAccount(account);
+
+  // Market order langsung terisi jika harga sudah diketahui
+  const last = lastQuotes.get(symbol);
+  if (order.status === 'pending' && order.type === 'market' && last) {
+    processPriceUpdate(symbol, { price: last.price, change: last.price - last.referencePrice });
+    return loadPaperAccount().orders.find(o => o.id === order.id) || order;
+  }
+
+  return order;
+};
+
+/**
+ * Cancel a pending order
+ */
+export const cancelPaperOrder = (orderId: string) => {
+  const account = loadPaperAccount();
+  account.orders = account.orders.map(o =>
+    o.id === orderId && o.status === 'pending' ? { ...o, status: 'cancelled' as OrderStatus } : o
+  );
+  savePaperAccount(account);
+};
+
+// Should this pending order fill at the given price?
+const shouldFill = (order: PaperOrder, price: number): boolean => {
+  switch (order.type) {
+    case 'market':
+      return true;
+    case 'limit':
+      return order.side === 'buy' ? price <= (order.limitPrice || 0) : price >= (order.limitPrice || Infinity);
+    case 'stop':
+      return order.side === 'buy' ? price >= (order.stopPrice || Infinity) : price <= (order.stopPrice || 0);
+  }
+};
+
+/**
+ * Match pending orders for a symbol against a new price
+ * Returns the orders that filled or were rejected on this update (kosong untuk harga simulasi).
+ */
+export const processPriceUpdate = (symbol: string, update: PriceUpdate): PaperOrder[] => {
+  if (update.simulated || update.price <= 0) return [];
+  const referencePrice = update.price - update.change;
+  lastQuotes.set(symbol, { price: update.price, referencePrice });
+
+  const account = loadPaperAccount();
+  const portfolioId = getPaperPortfolioId();
+  const changed: PaperOrder[] = [];
+
+  account.orders = account.orders.map(order => {
+    if (order.status !== 'pending' || order.symbol !== symbol || !shouldFill(order, update.price)) {
+      return order;
+    }
+
+    // Limit terisi di harga limit atau lebih baik; market & stop di harga terakhir
+    const fillPrice = update.price;
+    const gross = order.lots * IDX_LOT_SIZE * fillPrice;
+    const fee = calculateBrokerFee(order.side, order.lots, fillPrice, portfolioId);
+
+    if (order.side === 'buy' && gross + fee > account.cash) {
+      const rejected = { ...order, status: 'rejected' as OrderStatus, rejectReason: 'Saldo tidak cukup saat eksekusi' };
+      changed.push(rejected);
+      return rejected;
+    }
+
+    // Fill yang gagal dicatat di portofolio ditolak tanpa mengubah kas, supaya keduanya tetap sama
+    const note = `Paper trade (${order.type.toUpperCase()})${order.note ? ` - ${order.note}` : ''}`;
+    let transactionId: string;
+    try {
+      const transaction = order.side === 'buy'
+        ? addBuyTransaction(symbol, order.lots, fillPrice, fee, Date.now(), note, portfolioId)
+        : addSellTransaction(symbol, order.lots, fillPrice, fee, Date.now(), note, portfolioId);
+      transactionId = transaction.id;
+    } catch (e) {
+      const rejected = {
+        ...order,
+        status: 'rejected' as OrderStatus,
+        rejectReason: `Gagal mencatat ke portofolio: ${(e as Error).message}`,
+      };
+      changed.push(rejected);
+      return rejected;
+    }
+
+    account.cash += order.side === 'buy' ? -(gross + fee) : gross - fee;
+
+    const filled: PaperOrder = {
+      ...order,
+      status: 'filled',
+      filledAt: Date.now(),
+      fillPrice,
+      fee,
+      transactionId,
+    };
+    changed.push(filled);
+    return filled;
+  });
+
+  if (changed.length > 0) {
+    savePaperAccount(account);
+  }
+  return changed;
+};
+
+/**
+ * Symbols with pending orders
+ */
+export const getPendingOrderSymbols = (account: PaperAccount = loadPaperAccount()): string[] => {
+  return [...new Set(account.orders.filter(o => o.status === 'pending').map(o => o.symbol))];
+};
+
+/**
+ * Subscribe to price updates for every symbol with pending orders and match them
+ * @param onOrderUpdate - Called with orders that filled or were rejected
+ * @returns Unsubscribe function. Call again after placing orders on new symbols.
+ */
+export const startPaperOrderMatching = (onOrderUpdate: (orders: PaperOrder[]) => void): (() => void) => {
+  const unsubscribers = getPendingOrderSymbols().map(symbol =>
+    subscribeToPrice(symbol, (data) => {
+      const changed = processPriceUpdate(symbol, { price: data.price, change: data.change, simulated: data.source.simulated });
+      if (changed.length > 0) {
+        onOrderUpdate(changed);
+      }
+    })
+  );
+
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
+
+export default {
+  loadPaperAccount,
+  savePaperAccount,
+  resetPaperAccount,
+  getPaperPortfolioId,
+  getPaperHoldings,
+  getAvailableCash,
+  getAvailableLots,
+  getPaperEquity,
+  placePaperOrder,
+  cancelPaperOrder,
+  processPriceUpdate,
+  getPendingOrderSymbols,
+  startPaperOrderMatching,
+};
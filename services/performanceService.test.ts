@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+import { StockData } from '../types';
+import { Transaction } from './portfolioService';
+import { fetchHistoryWithSource } from './stockApiService';
+import { calculatePerformance, loadPerformanceReport, IHSG_SYMBOL } from './performanceService';
+
+vi.mock('./stockApiService', () => ({ fetchHistoryWithSource: vi.fn() }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date(2025, 0, 6).getTime();   // Senin, tengah malam waktu lokal
+
+// Harga bergantian naik-turun supaya return harian punya sebaran
+const STOCK_CLOSES = Array.from({ length: 30 }, (_, i) => 1000 * (1 + (i % 2 === 0 ? 0.02 : -0.01)) ** i);
+
+const bars = (closes: number[]): StockData[] => closes.map((close, i) => ({
+  time: `D${i}`, open: close, high: close, low: close, close, volume: 1, timestamp: START + i * DAY_MS,
+}));
+
+const BUY: Transaction = {
+  id: 'tx1', symbol: 'BBCA', type: 'buy', shares: 10, pricePerShare: 1000, totalValue: 1000000, fee: 0, date: START,
+};
+
+describe('calculatePerformance risk metrics', () => {
+  it('measures volatility from the portfolio alone when IHSG history is missing', () => {
+    const report = calculatePerformance([BUY], { BBCA: bars(STOCK_CLOSES) }, [])!;
+    expect(report.metrics.volatilityPercent).toBeGreaterThan(0);
+    expect(report.metrics.beta).toBeNull();
+    expect(report.metrics.benchmarkReturnPercent).toBeNull();
+  });
+
+  it('computes beta and correlation of 1 for a portfolio that tracks IHSG', () => {
+    const index = STOCK_CLOSES.map(close => close * 7);
+    const report = calculatePerformance([BUY], { BBCA: bars(STOCK_CLOSES) }, bars(index))!;
+    expect(report.metrics.beta).toBeCloseTo(1, 6);
+    expect(report.metrics.correlation).toBeCloseTo(1, 6);
+    expect(report.metrics.alphaPercent).toBeCloseTo(0, 6);
+  });
+});
+
+describe('loadPerformanceReport sources', () => {
+  it('drops a simulated IHSG history instead of measuring beta against it', async () => {
+    const source = (simulated: boolean) => ({ provider: simulated ? 'mock' : 'yahoo', providerName: 'Test', simulated, stale: false, fetchedAt: 0 });
+    vi.mocked(fetchHistoryWithSource).mockImplementation(async symbol => (
+      symbol === IHSG_SYMBOL
+        ? { data: bars(STOCK_CLOSES.map(close => close * 5)), source: source(true) }
+        : { data: bars(STOCK_CLOSES), source: source(false) }
+    ));
+
+    const report = (await loadPerformanceReport([BUY]))!;
+    expect(report.metrics.beta).toBeNull();
+    expect(report.metrics.benchmarkReturnPercent).toBeNull();
+    expect(report.benchmarkSource).toBeUndefined();
+    expect(report.metrics.volatilityPercent).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,374 @@
+/**
+ * Portfolio Performance Service
+ * Reconstructs daily portfolio valuation from transactions and historical closes,
+ * then measures it against IHSG
+ *
+ * Catatan metodologi:
+ * - Nilai portfolio = nilai pasar saham yang dipegang (kas tidak ikut dinilai)
+ * - Harga historis Yahoo sudah disesuaikan split, jadi transaksi direplay dalam
+ *   bentuk split-adjusted (lihat getSplitAdjustedTransactions)
+ * - TWR: return harian dirantai, arus kas (beli/jual/dividen) dinetralkan per hari
+ * - Volatilitas memakai semua return harian portfolio; beta, alpha & korelasi memakai pasangan
+ *   return yang sejajar tanggal dengan IHSG (return portfolio dirantai sejak close IHSG sebelumnya)
+ * - XIRR: return berbobot uang dari arus kas investor + nilai akhir portfolio
+ * - Histori simulator tidak dipakai: tanpa IHSG asli, beta/alpha/korelasi kosong (benchmark tidak tersedia)
+ */
+
+import { DataSourceInfo, StockData } from '../types';
+import { fetchHistoryWithSource } from './stockApiService';
+import { Transaction, getSplitAdjustedTransactions } from './portfolioService';
+import { IDX_LOT_SIZE } from '../utils/marketRules';
+
+// Yahoo Finance symbol for the Jakarta Composite Index (IHSG)
+export const IHSG_SYMBOL = '^JKSE';
+
+const TRADING_DAYS_PER_YEAR = 252;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_HISTORY_DAYS = 1825;
+const OTHER_SECTOR = 'Lainnya';
+
+export interface PerformancePoint {
+  date: number;                  // Timestamp (awal hari)
+  time: string;                  // Label tanggal untuk chart
+  marketValue: number;           // Nilai pasar posisi
+  netFlow: number;               // Beli - jual - dividen pada hari itu
+  twrIndex: number;              // Indeks TWR (awal = 100)
+  benchmarkIndex: number | null; // Indeks IHSG (awal = 100)
+  drawdownPercent: number;       // Drawdown dari puncak TWR (<= 0)
+  sectorAllocation: Record<string, number>; // Persentase nilai per sektor
+}
+
+export interface PerformanceMetrics {
+  startDate: number;
+  endDate: number;
+  twrPercent: number;
+  annualizedTwrPercent: number | null; // Hanya untuk periode >= 1 tahun
+  xirrPercent: number | null;
+  volatilityPercent: number;           // Volatilitas tahunan dari return harian
+  maxDrawdownPercent: number;
+  benchmarkReturnPercent: number | null;
+  beta: number | null;
+  alphaPercent: number | null;         // Jensen's alpha, disetahunkan
+  correlation: number | null;
+}
+
+export interface PerformanceReport {
+  points: PerformancePoint[];
+  metrics: PerformanceMetrics;
+  sectors: string[];             // Semua sektor yang pernah dipegang
+  benchmarkSource?: DataSourceInfo; // Sumber histori IHSG; kosong = benchmark tidak tersedia
+}
+
+export interface CashFlow {
+  date: number;
+  amount: number;                // Negatif = uang keluar dari investor
+}
+
+// --- Helpers ---
+
+const startOfDay = (timestamp: number): number => {
+  const d = new Date(timestamp);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+const stdDev = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const variance = values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+};
+
+const covariance = (a: number[], b: number[]): number => {
+  if (a.length < 2) return 0;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return a.reduce((sum, v, i) => sum + (v - meanA) * (b[i] - meanB), 0) / (a.length - 1);
+};
+
+// Map of day -> close for bars that carry a timestamp
+const closesByDay = (bars: StockData[]): Map<number, number> => {
+  const closes = new Map<number, number>();
+  bars.forEach(bar => {
+    if (bar.timestamp && bar.close > 0) closes.set(startOfDay(bar.timestamp), bar.close);
+  });
+  return closes;
+};
+
+// Investor cash flow of a transaction (beli keluar, jual/dividen masuk)
+const investorFlow = (t: Transaction): number => {
+  switch (t.type) {
+    case 'buy':
+    case 'rights':
+      return -t.totalValue;
+    case 'sell':
+    case 'dividend':
+      return t.totalValue;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Money-weighted annual return (XIRR)
+ * Newton-Raphson dengan fallback bisection.
+ * @returns Annual rate as a fraction (0.12 = 12%), or null if it cannot be solved
+ */
+export const calculateXIRR = (flows: CashFlow[]): number | null => {
+  const sorted = flows.filter(f => f.amount !== 0).sort((a, b) => a.date - b.date);
+  if (sorted.length < 2) return null;
+  if (!sorted.some(f => f.amount > 0) || !sorted.some(f => f.amount < 0)) return null;
+
+  const t0 = sorted[0].date;
+  const years = sorted.map(f => (f.date - t0) / (365 * DAY_MS));
+  const npv = (rate: number) => sorted.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+  const dnpv = (rate: number) =>
+    sorted.reduce((sum, f, i) => sum - years[i] * f.amount / Math.pow(1 + rate, years[i] + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    const derivative = dnpv(rate);
+    if (Math.abs(value) < 1e-6) return rate;
+    if (derivative === 0 || !isFinite(derivative)) break;
+    const next = rate - value / derivative;
+    if (!isFinite(next) || next <= -0.9999) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  // Bisection between -99.99% and +10000%
+  let low = -0.9999;
+  let high = 100;
+  if (npv(low) * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (npv(low) * npv(mid) <= 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * Build the performance report from already-loaded price history (pure, no network)
+ * @param transactions - Portfolio transactions (any order)
+ * @param histories - Daily bars per symbol (with timestamp)
+ * @param benchmark - Daily IHSG bars (with timestamp)
+ * @param sectors - Sector per symbol (default: "Lainnya")
+ * @param riskFreeRate - Annual risk-free rate as a fraction, used for alpha
+ */
+export const calculatePerformance = (
+  transactions: Transaction[],
+  histories: Record<string, StockData[]>,
+  benchmark: StockData[],
+  sectors: Record<string, string> = {},
+  riskFreeRate: number = 0
+): PerformanceReport | null => {
+  const replay = getSplitAdjustedTransactions(transactions)
+    .filter(t => t.type !== 'split' && t.type !== 'bonus')
+    .sort((a, b) => a.date - b.date);
+  if (replay.length === 0) return null;
+
+  const firstDay = startOfDay(replay[0].date);
+  const today = startOfDay(Date.now());
+  const closes: Record<string, Map<number, number>> = {};
+  Object.entries(histories).forEach(([symbol, bars]) => {
+    closes[symbol] = closesByDay(bars);
+  });
+  const benchmarkCloses = closesByDay(benchmark);
+
+  // Trading days: IHSG calendar, else any day with a close, plus transaction days
+  const daySet = new Set<number>(benchmarkCloses.size > 0
+    ? benchmarkCloses.keys()
+    : Object.values(closes).flatMap(map => [...map.keys()]));
+  replay.forEach(t => daySet.add(startOfDay(t.date)));
+  const days = [...daySet].filter(d => d >= firstDay && d <= today).sort((a, b) => a - b);
+
+  const holdings = new Map<string, number>();   // Lembar saham (split-adjusted)
+  const lastPrice = new Map<string, number>();
+  const sectorSet = new Set<string>();
+  const points: PerformancePoint[] = [];
+  const dailyReturns: number[] = [];       // Semua return harian portfolio (volatilitas)
+  const portfolioReturns: number[] = [];   // Berpasangan dengan benchmarkReturns (beta, alpha, korelasi)
+  const benchmarkReturns: number[] = [];
+
+  let cursor = 0;
+  let previousValue = 0;
+  let twrIndex = 100;
+  let peakIndex = 100;
+  let maxDrawdown = 0;
+  let benchmarkBase: number | null = null;
+  let previousBenchmark: number | null = null;
+  let growthSinceBenchmark = 1;
+  let hasReturnSinceBenchmark = false;
+
+  days.forEach(day => {
+    let netFlow = 0;
+    while (cursor < replay.length && startOfDay(replay[cursor].date) <= day) {
+      const t = replay[cursor++];
+      const shares = t.shares * IDX_LOT_SIZE;
+      if (t.type === 'buy' || t.type === 'rights') {
+        holdings.set(t.symbol, (holdings.get(t.symbol) || 0) + shares);
+        lastPrice.set(t.symbol, t.pricePerShare);
+      } else if (t.type === 'sell') {
+        holdings.set(t.symbol, Math.max(0, (holdings.get(t.symbol) || 0) - shares));
+        lastPrice.set(t.symbol, t.pricePerShare);
+      }
+      netFlow -= investorFlow(t);
+    }
+
+    // Value holdings at today's close (harga terakhir bila tidak ada data)
+    const sectorValues: Record<string, number> = {};
+    let marketValue = 0;
+    holdings.forEach((shares, symbol) => {
+      if (shares <= 0) return;
+      const close = closes[symbol]?.get(day);
+      if (close) lastPrice.set(symbol, close);
+      const value = shares * (lastPrice.get(symbol) || 0);
+      const sector = sectors[symbol] || OTHER_SECTOR;
+      sectorValues[sector] = (sectorValues[sector] || 0) + value;
+      marketValue += value;
+    });
+
+    let dailyReturn: number | null = null;
+    if (previousValue > 0) dailyReturn = (marketValue - netFlow) / previousValue - 1;
+    else if (netFlow > 0) dailyReturn = marketValue / netFlow - 1;
+    if (dailyReturn !== null) {
+      twrIndex *= 1 + dailyReturn;
+      dailyReturns.push(dailyReturn);
+      growthSinceBenchmark *= 1 + dailyReturn;
+      hasReturnSinceBenchmark = true;
+    }
+
+    peakIndex = Math.max(peakIndex, twrIndex);
+    const drawdownPercent = peakIndex > 0 ? (twrIndex / peakIndex - 1) * 100 : 0;
+    maxDrawdown = Math.min(maxDrawdown, drawdownPercent);
+
+    const benchmarkClose = benchmarkCloses.get(day) ?? null;
+    if (benchmarkClose !== null && benchmarkBase === null) benchmarkBase = benchmarkClose;
+    if (benchmarkClose !== null) {
+      // Hari tanpa close IHSG: return portfolio dirantai sampai close IHSG berikutnya
+      if (previousBenchmark !== null && hasReturnSinceBenchmark) {
+        portfolioReturns.push(growthSinceBenchmark - 1);
+        benchmarkReturns.push(benchmarkClose / previousBenchmark - 1);
+      }
+      previousBenchmark = benchmarkClose;
+      growthSinceBenchmark = 1;
+      hasReturnSinceBenchmark = false;
+    }
+
+    const sectorAllocation: Record<string, number> = {};
+    Object.entries(sectorValues).forEach(([sector, value]) => {
+      sectorSet.add(sector);
+      sectorAllocation[sector] = marketValue > 0 ? (value / marketValue) * 100 : 0;
+    });
+
+    points.push({
+      date: day,
+      time: new Date(day).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: '2-digit' }),
+      marketValue,
+      netFlow,
+      twrIndex,
+      benchmarkIndex: benchmarkClose !== null && benchmarkBase ? (benchmarkClose / benchmarkBase) * 100 : null,
+      drawdownPercent,
+      sectorAllocation,
+    });
+    previousValue = marketValue;
+  });
+
+  if (points.length === 0) return null;
+
+  const startDate = points[0].date;
+  const endDate = points[points.length - 1].date;
+  const years = (endDate - startDate) / (365 * DAY_MS);
+  const twrPercent = (twrIndex / 100 - 1) * 100;
+
+  const lastBenchmark = [...points].reverse().find(p => p.benchmarkIndex !== null)?.benchmarkIndex ?? null;
+  const benchmarkReturnPercent = lastBenchmark !== null ? lastBenchmark - 100 : null;
+
+  // Beta, alpha & korelasi dari return harian yang berpasangan
+  let beta: number | null = null;
+  let alphaPercent: number | null = null;
+  let correlation: number | null = null;
+  if (portfolioReturns.length >= 10) {
+    const benchmarkVariance = stdDev(benchmarkReturns) ** 2;
+    if (benchmarkVariance > 0) {
+      const cov = covariance(portfolioReturns, benchmarkReturns);
+      const dailyRiskFree = riskFreeRate / TRADING_DAYS_PER_YEAR;
+      beta = cov / benchmarkVariance;
+      alphaPercent = (mean(portfolioReturns) - dailyRiskFree
+        - beta * (mean(benchmarkReturns) - dailyRiskFree)) * TRADING_DAYS_PER_YEAR * 100;
+      const portfolioStd = stdDev(portfolioReturns);
+      correlation = portfolioStd > 0 ? cov / (portfolioStd * Math.sqrt(benchmarkVariance)) : null;
+    }
+  }
+
+  // Arus kas investor + nilai akhir sebagai arus masuk terakhir
+  const flows: CashFlow[] = replay.map(t => ({ date: t.date, amount: investorFlow(t) }));
+  flows.push({ date: Math.max(endDate, replay[replay.length - 1].date), amount: previousValue });
+  const xirr = calculateXIRR(flows);
+
+  return {
+    points,
+    sectors: [...sectorSet].sort(),
+    metrics: {
+      startDate,
+      endDate,
+      twrPercent,
+      annualizedTwrPercent: years >= 1 ? (Math.pow(twrIndex / 100, 1 / years) - 1) * 100 : null,
+      xirrPercent: xirr !== null ? xirr * 100 : null,
+      volatilityPercent: stdDev(dailyReturns) * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100,
+      maxDrawdownPercent: maxDrawdown,
+      benchmarkReturnPercent,
+      beta,
+      alphaPercent,
+      correlation,
+    },
+  };
+};
+
+/**
+ * Fetch price history for every symbol traded plus IHSG, then build the report
+ * @param transactions - Portfolio transactions
+ * @param sectors - Sector per symbol (biasanya dari watchlist)
+ * @param riskFreeRate - Annual risk-free rate as a fraction
+ */
+export const loadPerformanceReport = async (
+  transactions: Transaction[],
+  sectors: Record<string, string> = {},
+  riskFreeRate: number = 0
+): Promise<PerformanceReport | null> => {
+  if (transactions.length === 0) return null;
+
+  const firstDate = Math.min(...transactions.map(t => t.date));
+  const days = Math.min(MAX_HISTORY_DAYS, Math.ceil((Date.now() - firstDate) / DAY_MS) + 7);
+  const symbols = [...new Set(transactions.map(t => t.symbol))];
+
+  // Candle simulasi diperlakukan sebagai tidak ada data
+  const loadHistory = (symbol: string, market?: 'US') => fetchHistoryWithSource(symbol, days, market)
+    .then(history => (history.source.simulated || history.data.length === 0 ? null : history))
+    .catch(() => null);
+
+  const [benchmark, ...symbolHistories] = await Promise.all([
+    loadHistory(IHSG_SYMBOL, 'US'),
+    ...symbols.map(symbol => loadHistory(symbol)),
+  ]);
+
+  const histories: Record<string, StockData[]> = {};
+  symbols.forEach((symbol, i) => {
+    histories[symbol] = symbolHistories[i]?.data || [];
+  });
+
+  const report = calculatePerformance(transactions, histories, benchmark?.data || [], sectors, riskFreeRate);
+  return report && benchmark ? { ...report, benchmarkSource: benchmark.source } : report;
+};
+
+export default {
+  IHSG_SYMBOL,
+  calculateXIRR,
+  calculatePerformance,
+  loadPerformanceReport,
+};
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  addBuyTransaction,
+  addSellTransaction,
+  addDividendTransaction,
+  addStockSplit,
+  deleteTransaction,
+  loadTransactions,
+  getActivePortfolio,
+  loadPortfolios,
+  savePortfolios,
+  deletePortfolio,
+  calculateConsolidatedSummary,
+  getUserPortfolios,
+  getPaperPortfolio,
+  getActivePortfolioId,
+} from './portfolioService';
+
+const day = (d: number) => new Date(2024, 5, d).getTime();
+
+beforeEach(() => {
+  localStorage.clear();
+  addBuyTransaction('BBCA', 10, 9000, 0, day(10));
+});
+
+describe('recordTransaction holdings check', () => {
+  it('rejects a sell dated before the lots were bought', () => {
+    expect(() => addSellTransaction('BBCA', 5, 9100, 0, day(5))).toThrow('Tersedia: 0 lot');
+    expect(loadTransactions()).toHaveLength(1);
+    expect(getActivePortfolio().cashBalance).toBe(-9000000);
+  });
+
+  it('rejects a backdated sell that leaves a later sell short', () => {
+    addSellTransaction('BBCA', 8, 9200, 0, day(20));
+    expect(() => addSellTransaction('BBCA', 5, 9100, 0, day(15))).toThrow('kekurangan lot');
+    expect(() => addSellTransaction('BBCA', 2, 9100, 0, day(15))).not.toThrow();
+  });
+
+  it('checks dividends against the lots held on the payment date', () => {
+    addBuyTransaction('BBCA', 5, 9000, 0, day(25));
+    expect(() => addDividendTransaction('BBCA', 100, 15, 10, day(20))).toThrow('Dimiliki: 10 lot');
+    expect(addDividendTransaction('BBCA', 100, undefined, 10, day(20)).shares).toBe(10);
+  });
+});
+
+describe('deleting and adjusting history', () => {
+  it('refuses to delete a buy that a later sell depends on', () => {
+    const sell = addSellTransaction('BBCA', 8, 9200, 0, day(20));
+    const [buy] = loadTransactions();
+    expect(() => deleteTransaction(buy.id)).toThrow('Transaksi tidak bisa dihapus');
+    expect(loadTransactions()).toHaveLength(2);
+
+    deleteTransaction(sell.id);
+    deleteTransaction(buy.id);
+    expect(loadTransactions()).toHaveLength(0);
+    expect(getActivePortfolio().cashBalance).toBe(0);
+  });
+
+  it('refuses to delete a split that later sells were recorded against', () => {
+    const split = addStockSplit('BBCA', 1, 5, day(12));
+    addSellTransaction('BBCA', 40, 1900, 0, day(20));
+    expect(() => deleteTransaction(split.id)).toThrow('Transaksi tidak bisa dihapus');
+  });
+
+  it('checks the position on the adjustment date, not today', () => {
+    expect(() => addStockSplit('BBCA', 1, 5, day(5))).toThrow('Tidak ada posisi BBCA');
+    addSellTransaction('BBCA', 10, 9200, 0, day(20));
+    expect(() => addStockSplit('BBCA', 1, 5, day(15))).not.toThrow();
+  });
+});
+
+describe('portfolio management', () => {
+  const addPortfolio = (id: string, baseCurrency: 'IDR' | 'USD') => savePortfolios([
+    ...loadPortfolios(),
+    { id, name: id, baseCurrency, cashBalance: 1000, costBasisMethod: 'fifo', transactions: [], createdAt: 0 },
+  ]);
+
+  it('splits the consolidated totals per base currency when currencies differ', () => {
+    addPortfolio('pf_idr', 'IDR');
+    expect(calculateConsolidatedSummary({ BBCA: 9500 }).totalCurrentValue).toBe(9500000);
+    expect(calculateConsolidatedSummary({ BBCA: 9500 }).currencySubtotals).toBeUndefined();
+
+    addPortfolio('pf_usd', 'USD');
+    addBuyTransaction('AAPL', 1, 200, 0, day(10), undefined, 'pf_usd');
+    const summary = calculateConsolidatedSummary({ BBCA: 9500, AAPL: 210 });
+    expect(summary.positions).toHaveLength(2);
+    expect(summary.cashBalances).toEqual({ IDR: 1000 - 9000000, USD: 1000 - 20000 });
+    expect(summary.currencySubtotals).toEqual([
+      expect.objectContaining({ currency: 'IDR', portfolioCount: 2, totalInvested: 9000000, totalCurrentValue: 9500000 }),
+      expect.objectContaining({ currency: 'USD', portfolioCount: 1, totalInvested: 20000, totalCurrentValue: 21000 }),
+    ]);
+  });
+
+  it('throws when deleting an unknown portfolio', () => {
+    addPortfolio('pf_second', 'IDR');
+    expect(() => deletePortfolio('pf_missing')).toThrow('Portfolio tidak ditemukan');
+    expect(loadPortfolios()).toHaveLength(2);
+  });
+});
+
+describe('paper trading portfolio', () => {
+  it('keeps the paper portfolio out of the user portfolio list and consolidation', () => {
+    const paper = getPaperPortfolio();
+    addBuyTransaction('TLKM', 5, 3000, 0, day(12), undefined, paper.id);
+
+    expect(getUserPortfolios().map(p => p.id)).not.toContain(paper.id);
+    expect(getActivePortfolioId()).not.toBe(paper.id);
+    expect(getPaperPortfolio().id).toBe(paper.id);
+    expect(calculateConsolidatedSummary({ BBCA: 9500, TLKM: 3100 }).positions.map(p => p.symbol)).toEqual(['BBCA']);
+    expect(getActivePortfolio().transactions).toHaveLength(1);
+  });
+});
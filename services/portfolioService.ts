@@ -1,18 +1,118 @@
 /**
  * Portfolio Service
- * Manages stock portfolio with buy/sell transactions and P&L calculation
+ * Manages stock portfolios with buy/sell transactions and P&L calculation
+ *
+ * - Mendukung beberapa portfolio bernama (masing-masing punya transaksi, saldo kas & mata uang dasar)
+ * - Semua fungsi transaksi bekerja pada portfolio aktif kecuali portfolioId diberikan
  */
 
+import { checkFeatureUsage } from './usageLimiter';
+import { FeeBreakdown, FeeProfileId, calculateTradeFees, getFeeProfile } from './feeService';
+
+/**
+ * Transaction kinds
+ * - buy / sell: transaksi biasa
+ * - dividend: dividen tunai (pricePerShare = dividen per lembar, fee = pajak dividen)
+ * - split: stock split / reverse split (ratio = lembar baru per lembar lama)
+ * - bonus: saham bonus (ratio = total lembar per lembar lama, mis. 10:1 -> 1.1)
+ * - rights: penebusan HMETD (seperti beli, pada harga pelaksanaan)
+ */
+export type TransactionType = 'buy' | 'sell' | 'dividend' | 'split' | 'bonus' | 'rights';
+
 export interface Transaction {
   id: string;
   symbol: string;
-  type: 'buy' | 'sell';
+  type: TransactionType;
   shares: number;      // Jumlah lot (1 lot = 100 lembar)
   pricePerShare: number;
   totalValue: number;
-  fee: number;         // Biaya broker
+  fee: number;         // Biaya broker (pajak untuk dividen)
   date: number;        // Timestamp
   note?: string;
+  lotSelection?: LotSelection[]; // Khusus jual: lot yang ditutup (metode specific)
+  ratio?: number;      // Khusus split/bonus: faktor pengali jumlah saham
+  feeBreakdown?: FeeBreakdown; // Rincian biaya bila dihitung dari jadwal biaya broker
+}
+
+// Transaction with prices and lots restated for later splits/bonus shares
+export interface AdjustedTransaction extends Transaction {
+  adjustmentFactor: number;
+}
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  buy: 'Beli',
+  sell: 'Jual',
+  dividend: 'Dividen',
+  split: 'Stock Split',
+  bonus: 'Saham Bonus',
+  rights: 'Rights Issue',
+};
+
+// Pajak final dividen untuk WP orang pribadi dalam negeri
+export const DIVIDEND_TAX_PERCENT = 10;
+
+export type PortfolioCurrency = 'IDR' | 'USD';
+
+// Metode perhitungan cost basis saat jual
+export type CostBasisMethod = 'fifo' | 'average' | 'specific';
+
+export interface LotSelection {
+  lotId: string;   // ID transaksi beli
+  lots: number;
+}
+
+export interface TaxLot {
+  id: string;              // Sama dengan ID transaksi beli
+  symbol: string;
+  openDate: number;
+  originalLots: number;
+  remainingLots: number;
+  costPerShare: number;    // Termasuk fee beli
+}
+
+export interface ClosedLot {
+  lotId: string;
+  symbol: string;
+  sellTransactionId: string;
+  openDate: number;
+  closeDate: number;
+  lots: number;
+  costBasis: number;
+  proceeds: number;        // Hasil jual setelah fee
+  realizedPL: number;
+  realizedPLPercent: number;
+  holdingPeriodDays: number;
+}
+
+export interface RealizedYearSummary {
+  year: number;
+  proceeds: number;
+  costBasis: number;
+  realizedPL: number;
+  closedLotCount: number;
+  dividendIncome: number;  // Dividen bersih setelah pajak
+}
+
+export interface LotLedger {
+  openLots: TaxLot[];
+  closedLots: ClosedLot[];
+}
+
+export interface Portfolio {
+  id: string;
+  name: string;
+  baseCurrency: PortfolioCurrency;
+  cashBalance: number;       // Saldo kas (berkurang saat beli, bertambah saat jual)
+  costBasisMethod?: CostBasisMethod; // Default: fifo
+  feeProfileId?: FeeProfileId;       // Default: standard
+  transactions: Transaction[];
+  createdAt: number;
+  isPaper?: boolean;         // Portfolio paper trading: tidak tampil di daftar, konsolidasi & laporan
+}
+
+export interface ConsolidatedTransaction extends Transaction {
+  portfolioId: string;
+  portfolioName: string;
 }
 
 export interface PortfolioPosition {
@@ -24,6 +124,9 @@ export interface PortfolioPosition {
   currentValue: number;      // Nilai saat ini
   profitLoss: number;        // Profit/Loss nominal
   profitLossPercent: number; // Profit/Loss persentase
+  realizedPL: number;        // Realized P/L dari lot yang sudah ditutup
+  dividendIncome: number;    // Dividen bersih yang diterima
+  openLots: TaxLot[];
   transactions: Transaction[];
 }
 
@@ -33,36 +136,251 @@ export interface PortfolioSummary {
   totalProfitLoss: number;
   totalProfitLossPercent: number;
   totalRealizedPL: number;  // Total realized profit/loss from sells
+  closedLots: ClosedLot[];  // Realized P/L per lot yang ditutup
+  realizedByYear: RealizedYearSummary[];
+  totalDividendIncome: number; // Dividen bersih, terpisah dari realized P/L
+  cashBalances: Partial<Record<PortfolioCurrency, number>>; // Saldo kas per mata uang
   positions: PortfolioPosition[];
+  currencySubtotals?: CurrencySubtotal[]; // Konsolidasi beda mata uang: total per mata uang dasar
 }
 
-const PORTFOLIO_STORAGE_KEY = 'rizbot_portfolio';
+// Totals of the portfolios that share one base currency
+export interface CurrencySubtotal {
+  currency: PortfolioCurrency;
+  portfolioCount: number;
+  totalInvested: number;
+  totalCurrentValue: number;
+  totalProfitLoss: number;
+  totalProfitLossPercent: number;
+  totalRealizedPL: number;
+  totalDividendIncome: number;
+  realizedByYear: RealizedYearSummary[];
+}
+
+const PORTFOLIOS_STORAGE_KEY = 'rizbot_portfolios';
+const ACTIVE_PORTFOLIO_STORAGE_KEY = 'rizbot_active_portfolio';
+const LEGACY_PORTFOLIO_STORAGE_KEY = 'rizbot_portfolio'; // Format lama: satu daftar transaksi
+
+export const DEFAULT_PORTFOLIO_NAME = 'Portfolio Utama';
+export const PAPER_PORTFOLIO_NAME = 'Paper Trading';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 // Generate unique ID
-const generateId = (): string => {
-  return `txn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+const generateId = (prefix: string = 'txn'): string => {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 };
 
-// Load transactions from localStorage
-export const loadTransactions = (): Transaction[] => {
+const createPortfolioRecord = (
+  name: string,
+  baseCurrency: PortfolioCurrency = 'IDR',
+  cashBalance: number = 0,
+  transactions: Transaction[] = []
+): Portfolio => ({
+  id: generateId('pf'),
+  name,
+  baseCurrency,
+  cashBalance,
+  costBasisMethod: 'fifo',
+  transactions,
+  createdAt: Date.now(),
+});
+
+// Save portfolios to localStorage
+export const savePortfolios = (portfolios: Portfolio[]) => {
+  try {
+    localStorage.setItem(PORTFOLIOS_STORAGE_KEY, JSON.stringify(portfolios));
+  } catch (e) {
+    console.error('Failed to save portfolios:', e);
+  }
+};
+
+/**
+ * Load all portfolios from localStorage, including the paper trading portfolio
+ * Data format lama (rizbot_portfolio) dimigrasikan otomatis menjadi portfolio default.
+ */
+export const loadPortfolios = (): Portfolio[] => {
+  let storedPortfolios: Portfolio[] = [];
   try {
-    const stored = localStorage.getItem(PORTFOLIO_STORAGE_KEY);
+    const stored = localStorage.getItem(PORTFOLIOS_STORAGE_KEY);
     if (stored) {
-      return JSON.parse(stored);
+      storedPortfolios = JSON.parse(stored);
+      if (storedPortfolios.some(p => !p.isPaper)) return storedPortfolios;
     }
   } catch (e) {
-    console.error('Failed to load portfolio:', e);
+    console.error('Failed to load portfolios:', e);
   }
-  return [];
-};
 
-// Save transactions to localStorage
-export const saveTransactions = (transactions: Transaction[]) => {
+  // Migrate legacy single-portfolio data (or create an empty default portfolio)
+  let legacyTransactions: Transaction[] = [];
   try {
-    localStorage.setItem(PORTFOLIO_STORAGE_KEY, JSON.stringify(transactions));
+    const legacy = localStorage.getItem(LEGACY_PORTFOLIO_STORAGE_KEY);
+    if (legacy) legacyTransactions = JSON.parse(legacy);
   } catch (e) {
-    console.error('Failed to save portfolio:', e);
+    console.error('Failed to load legacy portfolio:', e);
+  }
+
+  const portfolios = [createPortfolioRecord(DEFAULT_PORTFOLIO_NAME, 'IDR', 0, legacyTransactions), ...storedPortfolios];
+  savePortfolios(portfolios);
+  localStorage.removeItem(LEGACY_PORTFOLIO_STORAGE_KEY);
+  return portfolios;
+};
+
+// Portfolios owned by the user (tanpa portfolio paper trading)
+export const getUserPortfolios = (): Portfolio[] => loadPortfolios().filter(p => !p.isPaper);
+
+/**
+ * Portfolio that records paper trading fills (dibuat saat pertama dipakai)
+ * Terpisah dari portfolio user supaya trade simulasi tidak masuk P&L, laporan pajak maupun kinerja.
+ */
+export const getPaperPortfolio = (): Portfolio => {
+  const portfolios = loadPortfolios();
+  const existing = portfolios.find(p => p.isPaper);
+  if (existing) return existing;
+
+  const portfolio: Portfolio = { ...createPortfolioRecord(PAPER_PORTFOLIO_NAME), isPaper: true };
+  savePortfolios([...portfolios, portfolio]);
+  return portfolio;
+};
+
+// Get the active portfolio ID (falls back to the first portfolio)
+export const getActivePortfolioId = (): string => {
+  const portfolios = getUserPortfolios();
+  const stored = localStorage.getItem(ACTIVE_PORTFOLIO_STORAGE_KEY);
+  return portfolios.some(p => p.id === stored) ? stored! : portfolios[0].id;
+};
+
+// Get the active portfolio
+export const getActivePortfolio = (): Portfolio => {
+  const activeId = getActivePortfolioId();
+  return getUserPortfolios().find(p => p.id === activeId)!;
+};
+
+// Switch the active portfolio
+export const setActivePortfolio = (portfolioId: string) => {
+  if (!getUserPortfolios().some(p => p.id === portfolioId)) {
+    throw new Error('Portfolio tidak ditemukan');
   }
+  localStorage.setItem(ACTIVE_PORTFOLIO_STORAGE_KEY, portfolioId);
+};
+
+// Get a portfolio by ID (default: active portfolio)
+export const getPortfolio = (portfolioId?: string): Portfolio => {
+  const id = portfolioId || getActivePortfolioId();
+  const portfolio = loadPortfolios().find(p => p.id === id);
+  if (!portfolio) throw new Error('Portfolio tidak ditemukan');
+  return portfolio;
+};
+
+// Apply an update to a single portfolio and persist
+const updatePortfolio = (portfolioId: string, update: (portfolio: Portfolio) => Portfolio) => {
+  const portfolios = loadPortfolios();
+  const index = portfolios.findIndex(p => p.id === portfolioId);
+  if (index === -1) throw new Error('Portfolio tidak ditemukan');
+  portfolios[index] = update(portfolios[index]);
+  savePortfolios(portfolios);
+  return portfolios[index];
+};
+
+/**
+ * Create a new named portfolio
+ * Jumlah portfolio dibatasi sesuai portfolioLimit paket langganan.
+ */
+export const createPortfolio = (
+  name: string,
+  baseCurrency: PortfolioCurrency = 'IDR',
+  cashBalance: number = 0
+): Portfolio => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Nama portfolio wajib diisi');
+
+  const portfolios = getUserPortfolios();
+  if (portfolios.some(p => p.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`Portfolio "${trimmed}" sudah ada`);
+  }
+
+  const usage = checkFeatureUsage('portfolio', portfolios.length);
+  if (!usage.allowed) {
+    throw new Error(usage.isGuest
+      ? 'Login untuk membuat lebih dari satu portfolio'
+      : `Batas ${usage.maxUsage} portfolio untuk paket Anda telah tercapai. Upgrade untuk menambah portfolio.`);
+  }
+
+  const portfolio = createPortfolioRecord(trimmed, baseCurrency, cashBalance);
+  savePortfolios([...loadPortfolios(), portfolio]);
+  return portfolio;
+};
+
+// Rename a portfolio
+export const renamePortfolio = (portfolioId: string, name: string): Portfolio => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Nama portfolio wajib diisi');
+  if (!getUserPortfolios().some(p => p.id === portfolioId)) throw new Error('Portfolio tidak ditemukan');
+  if (getUserPortfolios().some(p => p.id !== portfolioId && p.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`Portfolio "${trimmed}" sudah ada`);
+  }
+  return updatePortfolio(portfolioId, p => ({ ...p, name: trimmed }));
+};
+
+// Delete a portfolio (the last remaining portfolio cannot be deleted)
+export const deletePortfolio = (portfolioId: string) => {
+  const portfolios = getUserPortfolios();
+  if (!portfolios.some(p => p.id === portfolioId)) throw new Error('Portfolio tidak ditemukan');
+  if (portfolios.length <= 1) throw new Error('Minimal harus ada satu portfolio');
+
+  savePortfolios(loadPortfolios().filter(p => p.id !== portfolioId));
+  if (localStorage.getItem(ACTIVE_PORTFOLIO_STORAGE_KEY) === portfolioId) {
+    localStorage.setItem(ACTIVE_PORTFOLIO_STORAGE_KEY, portfolios.find(p => p.id !== portfolioId)!.id);
+  }
+};
+
+/**
+ * Deposit (positive) or withdraw (negative) cash
+ */
+export const adjustCashBalance = (amount: number, portfolioId?: string): Portfolio => {
+  return updatePortfolio(portfolioId || getActivePortfolioId(), p => ({
+    ...p,
+    cashBalance: p.cashBalance + amount,
+  }));
+};
+
+// Cash effect of a transaction (buy/rights spend totalValue, sell/dividend receive it)
+const cashEffect = (transaction: Transaction): number => {
+  switch (transaction.type) {
+    case 'buy':
+    case 'rights':
+      return -transaction.totalValue;
+    case 'sell':
+    case 'dividend':
+      return transaction.totalValue;
+    default:
+      return 0;
+  }
+};
+
+// Load transactions of a portfolio (default: active portfolio)
+export const loadTransactions = (portfolioId?: string): Transaction[] => {
+  const id = portfolioId || getActivePortfolioId();
+  return loadPortfolios().find(p => p.id === id)?.transactions || [];
+};
+
+// Save transactions of a portfolio (default: active portfolio)
+export const saveTransactions = (transactions: Transaction[], portfolioId?: string) => {
+  updatePortfolio(portfolioId || getActivePortfolioId(), p => ({ ...p, transactions }));
+};
+
+// Append a transaction and update the cash balance
+// Jual & dividen dicek terhadap lot yang dimiliki pada tanggal transaksi
+const recordTransaction = (transaction: Transaction, portfolioId?: string) => {
+  updatePortfolio(portfolioId || getActivePortfolioId(), p => {
+    const error = validateHoldingsAt(p.transactions, transaction, p.costBasisMethod);
+    if (error) throw new Error(error);
+    return {
+      ...p,
+      transactions: [...p.transactions, transaction],
+      cashBalance: p.cashBalance + cashEffect(transaction),
+    };
+  });
 };
 
 /**
@@ -73,21 +391,27 @@ export const saveTransactions = (transactions: Transaction[]) => {
  * @param fee - Broker fee (default: auto-calculated)
  * @param date - Transaction date (default: now)
  * @param note - Optional note
+ * @param portfolioId - Target portfolio (default: active portfolio)
  */
 export const addBuyTransaction = (
   symbol: string,
   lots: number,
   pricePerShare: number,
-  fee: number = 0,
+  fee?: number,
   date?: number,
-  note?: string
+  note?: string,
+  portfolioId?: string
 ): Transaction => {
   // Validation
   if (lots <= 0) throw new Error('Jumlah lot harus lebih dari 0');
   if (pricePerShare <= 0) throw new Error('Harga harus lebih dari 0');
+
+  // Biaya otomatis dari jadwal biaya broker portfolio bila fee tidak diberikan
+  const feeBreakdown = fee === undefined ? getTradeFees('buy', lots, pricePerShare, portfolioId) : undefined;
+  const tradeFee = feeBreakdown?.total ?? fee ?? 0;
   
   const shares = lots; // Store as lots
-  const totalValue = lots * 100 * pricePerShare + fee; // 1 lot = 100 shares
+  const totalValue = lots * 100 * pricePerShare + tradeFee; // 1 lot = 100 shares
   
   const transaction: Transaction = {
     id: generateId(),
@@ -96,14 +420,13 @@ export const addBuyTransaction = (
     shares,
     pricePerShare,
     totalValue,
-    fee,
+    fee: tradeFee,
     date: date || Date.now(),
     note,
+    feeBreakdown,
   };
 
-  const transactions = loadTransactions();
-  transactions.push(transaction);
-  saveTransactions(transactions);
+  recordTransaction(transaction, portfolioId);
 
   return transaction;
 };
@@ -116,27 +439,37 @@ export const addBuyTransaction = (
  * @param fee - Broker fee (default: auto-calculated)
  * @param date - Transaction date (default: now)
  * @param note - Optional note
+ * @param portfolioId - Target portfolio (default: active portfolio)
+ * @param lotSelection - Lots to close (specific-lot method only)
  */
 export const addSellTransaction = (
   symbol: string,
   lots: number,
   pricePerShare: number,
-  fee: number = 0,
+  fee?: number,
   date?: number,
-  note?: string
+  note?: string,
+  portfolioId?: string,
+  lotSelection?: LotSelection[]
 ): Transaction => {
   // Validation
   if (lots <= 0) throw new Error('Jumlah lot harus lebih dari 0');
   if (pricePerShare <= 0) throw new Error('Harga harus lebih dari 0');
   
-  // Check if we have enough shares to sell
-  const position = calculatePosition(symbol, pricePerShare);
-  if (!position || position.totalShares < lots) {
-    throw new Error(`Tidak cukup lot untuk dijual. Tersedia: ${position?.totalShares || 0} lot`);
+  // Lot yang dimiliki & lot yang dipilih dicek terhadap tanggal jual di recordTransaction
+  if (lotSelection && lotSelection.length > 0) {
+    const selectedLots = lotSelection.reduce((sum, s) => sum + s.lots, 0);
+    if (selectedLots !== lots) {
+      throw new Error(`Total lot yang dipilih (${selectedLots}) harus sama dengan jumlah jual (${lots})`);
+    }
   }
   
+  // Biaya otomatis dari jadwal biaya broker portfolio bila fee tidak diberikan
+  const feeBreakdown = fee === undefined ? getTradeFees('sell', lots, pricePerShare, portfolioId) : undefined;
+  const tradeFee = feeBreakdown?.total ?? fee ?? 0;
+
   const shares = lots;
-  const totalValue = lots * 100 * pricePerShare - fee;
+  const totalValue = lots * 100 * pricePerShare - tradeFee;
   
   const transaction: Transaction = {
     id: generateId(),
@@ -145,60 +478,445 @@ export const addSellTransaction = (
     shares,
     pricePerShare,
     totalValue,
-    fee,
+    fee: tradeFee,
     date: date || Date.now(),
     note,
+    lotSelection: lotSelection && lotSelection.length > 0 ? lotSelection : undefined,
+    feeBreakdown,
   };
 
-  const transactions = loadTransactions();
-  transactions.push(transaction);
-  saveTransactions(transactions);
+  recordTransaction(transaction, portfolioId);
 
   return transaction;
 };
 
-// Delete transaction
-export const deleteTransaction = (transactionId: string) => {
-  const transactions = loadTransactions();
-  const filtered = transactions.filter(t => t.id !== transactionId);
-  saveTransactions(filtered);
+/**
+ * Record a cash dividend
+ * @param symbol - Stock symbol
+ * @param dividendPerShare - Dividend per share in IDR
+ * @param lots - Lots entitled (default: lots held on the payment date)
+ * @param taxPercent - Withholding tax (default: 10% final)
+ * @param date - Payment date (default: now)
+ * @param note - Optional note
+ * @param portfolioId - Target portfolio (default: active portfolio)
+ */
+export const addDividendTransaction = (
+  symbol: string,
+  dividendPerShare: number,
+  lots?: number,
+  taxPercent: number = DIVIDEND_TAX_PERCENT,
+  date?: number,
+  note?: string,
+  portfolioId?: string
+): Transaction => {
+  if (dividendPerShare <= 0) throw new Error('Dividen per lembar harus lebih dari 0');
+
+  const paymentDate = date || Date.now();
+  const portfolio = getPortfolio(portfolioId);
+  const entitledLots = lots ?? heldLotsAt(portfolio.transactions, symbol.toUpperCase(), paymentDate, portfolio.costBasisMethod);
+  if (entitledLots <= 0) throw new Error('Tidak ada posisi untuk menerima dividen');
+
+  const gross = entitledLots * 100 * dividendPerShare;
+  const tax = Math.round(gross * taxPercent / 100);
+
+  const transaction: Transaction = {
+    id: generateId(),
+    symbol: symbol.toUpperCase(),
+    type: 'dividend',
+    shares: entitledLots,
+    pricePerShare: dividendPerShare,
+    totalValue: gross - tax,
+    fee: tax,
+    date: paymentDate,
+    note,
+  };
+
+  recordTransaction(transaction, portfolioId);
+  return transaction;
+};
+
+// Record a split or bonus share event that multiplies the share count
+const addShareAdjustment = (
+  type: 'split' | 'bonus',
+  symbol: string,
+  ratio: number,
+  date?: number,
+  note?: string,
+  portfolioId?: string
+): Transaction => {
+  if (!isFinite(ratio) || ratio <= 0 || ratio === 1) throw new Error('Rasio tidak valid');
+  const adjustmentDate = date || Date.now();
+  const portfolio = getPortfolio(portfolioId);
+  if (heldLotsAt(portfolio.transactions, symbol.toUpperCase(), adjustmentDate, portfolio.costBasisMethod) <= 0) {
+    throw new Error(`Tidak ada posisi ${symbol.toUpperCase()} pada ${new Date(adjustmentDate).toLocaleDateString('id-ID')}`);
+  }
+
+  const transaction: Transaction = {
+    id: generateId(),
+    symbol: symbol.toUpperCase(),
+    type,
+    shares: 0,
+    pricePerShare: 0,
+    totalValue: 0,
+    fee: 0,
+    date: adjustmentDate,
+    note,
+    ratio,
+  };
+
+  recordTransaction(transaction, portfolioId);
+  return transaction;
+};
+
+/**
+ * Record a stock split or reverse split
+ * @param fromShares - Old shares (e.g. 1 for a 1:5 split, 10 for a 10:1 reverse split)
+ * @param toShares - New shares
+ */
+export const addStockSplit = (
+  symbol: string,
+  fromShares: number,
+  toShares: number,
+  date?: number,
+  note?: string,
+  portfolioId?: string
+): Transaction => addShareAdjustment('split', symbol, toShares / fromShares, date, note, portfolioId);
+
+/**
+ * Record bonus shares
+ * @param heldShares - Shares held per bonus unit (e.g. 10 for "10:1")
+ * @param bonusShares - Bonus shares received per unit (e.g. 1)
+ */
+export const addBonusShares = (
+  symbol: string,
+  heldShares: number,
+  bonusShares: number,
+  date?: number,
+  note?: string,
+  portfolioId?: string
+): Transaction => addShareAdjustment('bonus', symbol, (heldShares + bonusShares) / heldShares, date, note, portfolioId);
+
+/**
+ * Record an exercised rights issue (HMETD)
+ * Saham hasil penebusan menjadi tax lot baru pada harga pelaksanaan.
+ */
+export const addRightsTransaction = (
+  symbol: string,
+  lots: number,
+  exercisePrice: number,
+  fee: number = 0,
+  date?: number,
+  note?: string,
+  portfolioId?: string
+): Transaction => {
+  if (lots <= 0) throw new Error('Jumlah lot harus lebih dari 0');
+  if (exercisePrice <= 0) throw new Error('Harga pelaksanaan harus lebih dari 0');
+
+  const transaction: Transaction = {
+    id: generateId(),
+    symbol: symbol.toUpperCase(),
+    type: 'rights',
+    shares: lots,
+    pricePerShare: exercisePrice,
+    totalValue: lots * 100 * exercisePrice + fee,
+    fee,
+    date: date || Date.now(),
+    note,
+  };
+
+  recordTransaction(transaction, portfolioId);
+  return transaction;
+};
+
+/**
+ * Format a split/bonus ratio for display (e.g. "1:5", "10:1")
+ */
+export const formatCorporateActionRatio = (transaction: Transaction): string => {
+  const ratio = transaction.ratio || 1;
+  const multiplier = transaction.type === 'bonus' ? ratio - 1 : ratio;
+  const format = (value: number) => parseFloat(value.toFixed(4)).toString();
+  if (transaction.type === 'bonus') return `${format(1 / multiplier)}:1`;
+  return multiplier >= 1 ? `1:${format(multiplier)}` : `${format(1 / multiplier)}:1`;
+};
+
+/**
+ * Restate lots and prices for later splits/bonus shares of the same symbol
+ * Riwayat transaksi lama jadi sebanding dengan harga setelah split.
+ */
+export const getSplitAdjustedTransactions = <T extends Transaction>(transactions: T[]): (T & AdjustedTransaction)[] => {
+  const adjustments = transactions.filter(t => (t.type === 'split' || t.type === 'bonus') && t.ratio);
+  return transactions.map(t => {
+    const adjustmentFactor = adjustments
+      .filter(a => a.symbol === t.symbol && a.date > t.date)
+      .reduce((factor, a) => factor * a.ratio!, 1);
+    if (adjustmentFactor === 1 || t.type === 'split' || t.type === 'bonus') {
+      return { ...t, adjustmentFactor: 1 };
+    }
+    return {
+      ...t,
+      shares: t.shares * adjustmentFactor,
+      pricePerShare: t.pricePerShare / adjustmentFactor,
+      adjustmentFactor,
+    };
+  });
+};
+
+/**
+ * Delete a transaction (its cash effect is reversed)
+ * @throws Error kalau tanpa transaksi ini jual/dividen yang tersisa tidak lagi tertutup lot (mis. beli atau split yang dihapus)
+ */
+export const deleteTransaction = (transactionId: string, portfolioId?: string) => {
+  updatePortfolio(portfolioId || getActivePortfolioId(), p => {
+    const transaction = p.transactions.find(t => t.id === transactionId);
+    if (!transaction) return p;
+    const remaining = p.transactions.filter(t => t.id !== transactionId);
+    const error = validateSymbolLedger(remaining, transaction.symbol, p.costBasisMethod);
+    if (error) throw new Error(`Transaksi tidak bisa dihapus: ${error}`);
+    return {
+      ...p,
+      transactions: remaining,
+      cashBalance: p.cashBalance - cashEffect(transaction),
+    };
+  });
 };
 
 // Get all unique symbols in portfolio
-export const getPortfolioSymbols = (): string[] => {
-  const transactions = loadTransactions();
+export const getPortfolioSymbols = (portfolioId?: string): string[] => {
+  const transactions = loadTransactions(portfolioId);
   return [...new Set(transactions.map(t => t.symbol))];
 };
 
-// Calculate position for a single symbol
-export const calculatePosition = (
-  symbol: string,
-  currentPrice: number
-): PortfolioPosition | null => {
-  const transactions = loadTransactions().filter(t => t.symbol === symbol);
-  
-  if (transactions.length === 0) return null;
-
-  let totalShares = 0;
-  let totalCost = 0;
-
-  // Calculate using FIFO method
-  transactions.forEach(t => {
-    if (t.type === 'buy') {
-      totalShares += t.shares;
-      totalCost += t.totalValue;
-    } else {
-      // Sell reduces position
-      const sellValue = t.shares * 100 * t.pricePerShare;
-      const avgCostPerLot = totalShares > 0 ? totalCost / totalShares : 0;
-      totalShares -= t.shares;
-      totalCost -= avgCostPerLot * t.shares;
+// Get unique symbols across all user portfolios
+export const getAllPortfolioSymbols = (): string[] => {
+  return [...new Set(getUserPortfolios().flatMap(p => p.transactions.map(t => t.symbol)))];
+};
+
+// Group items by stock symbol
+const groupBySymbol = <T extends { symbol: string }>(items: T[]): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const group = groups.get(item.symbol) || [];
+    group.push(item);
+    groups.set(item.symbol, group);
+  });
+  return groups;
+};
+
+// Re-average the cost of all open lots of a symbol (average-cost method)
+const reaverageLots = (openLots: TaxLot[], symbol: string) => {
+  const lots = openLots.filter(l => l.symbol === symbol && l.remainingLots > 0);
+  const totalLots = lots.reduce((sum, l) => sum + l.remainingLots, 0);
+  if (totalLots <= 0) return;
+  const averageCost = lots.reduce((sum, l) => sum + l.remainingLots * l.costPerShare, 0) / totalLots;
+  lots.forEach(l => { l.costPerShare = averageCost; });
+};
+
+// Trim floating point noise from ratio-adjusted lot counts (odd lot tetap pecahan)
+const roundLots = (lots: number): number => Math.round(lots * 1e6) / 1e6;
+
+/**
+ * Replay transactions into tax lots
+ * Setiap transaksi beli/rights menjadi satu tax lot. Transaksi jual menutup lot:
+ * - fifo: lot tertua lebih dulu
+ * - average: kuantitas ditutup FIFO, biaya memakai harga rata-rata
+ * - specific: lot sesuai lotSelection pada transaksi jual, sisanya FIFO
+ * Split dan saham bonus mengalikan jumlah lot terbuka; dividen tidak memengaruhi lot.
+ */
+export const buildLotLedger = (
+  transactions: Transaction[],
+  method: CostBasisMethod = 'fifo'
+): LotLedger => {
+  const openLots: TaxLot[] = [];
+  const closedLots: ClosedLot[] = [];
+
+  [...transactions].sort((a, b) => a.date - b.date).forEach(t => {
+    if (t.type === 'dividend') return;
+
+    // Split & saham bonus: jumlah lot dikali rasio, biaya per lembar dibagi rasio (total modal tetap)
+    if (t.type === 'split' || t.type === 'bonus') {
+      const ratio = t.ratio || 1;
+      openLots.filter(l => l.symbol === t.symbol).forEach(lot => {
+        lot.originalLots = roundLots(lot.originalLots * ratio);
+        lot.remainingLots = roundLots(lot.remainingLots * ratio);
+        lot.costPerShare /= ratio;
+      });
+      return;
     }
+
+    if (t.type === 'buy' || t.type === 'rights') {
+      openLots.push({
+        id: t.id,
+        symbol: t.symbol,
+        openDate: t.date,
+        originalLots: t.shares,
+        remainingLots: t.shares,
+        costPerShare: t.totalValue / (t.shares * 100), // Termasuk fee beli
+      });
+      if (method === 'average') reaverageLots(openLots, t.symbol);
+      return;
+    }
+
+    let lotsToClose = t.shares;
+    const closeLot = (lot: TaxLot, lots: number) => {
+      const quantity = Math.min(lots, lot.remainingLots, lotsToClose);
+      if (quantity <= 0) return;
+
+      const costBasis = quantity * 100 * lot.costPerShare;
+      const proceeds = (t.totalValue * quantity) / t.shares; // Setelah fee jual, dialokasikan per lot
+      const realizedPL = proceeds - costBasis;
+
+      closedLots.push({
+        lotId: lot.id,
+        symbol: t.symbol,
+        sellTransactionId: t.id,
+        openDate: lot.openDate,
+        closeDate: t.date,
+        lots: quantity,
+        costBasis,
+        proceeds,
+        realizedPL,
+        realizedPLPercent: costBasis > 0 ? (realizedPL / costBasis) * 100 : 0,
+        holdingPeriodDays: Math.floor((t.date - lot.openDate) / DAY_MS),
+      });
+      lot.remainingLots -= quantity;
+      lotsToClose -= quantity;
+    };
+
+    const symbolLots = openLots.filter(l => l.symbol === t.symbol);
+    if (method === 'specific' && t.lotSelection) {
+      t.lotSelection.forEach(selection => {
+        const lot = symbolLots.find(l => l.id === selection.lotId);
+        if (lot) closeLot(lot, selection.lots);
+      });
+    }
+    symbolLots.forEach(lot => closeLot(lot, lot.remainingLots));
+  });
+
+  return {
+    openLots: openLots.filter(l => l.remainingLots > 1e-9), // Abaikan sisa pecahan dari pembulatan rasio
+    closedLots,
+  };
+};
+
+// Open lots of a symbol after replaying transactions up to a date
+const openLotsAtDate = (transactions: Transaction[], symbol: string, date: number, method: CostBasisMethod): TaxLot[] =>
+  buildLotLedger(transactions.filter(t => t.symbol === symbol && t.date <= date), method).openLots;
+
+// Lots of a symbol held at a date
+const heldLotsAt = (transactions: Transaction[], symbol: string, date: number, method: CostBasisMethod): number =>
+  roundLots(openLotsAtDate(transactions, symbol, date, method).reduce((sum, l) => sum + l.remainingLots, 0));
+
+// Lots closed by each sell transaction in a ledger
+const closedLotsBySell = (ledger: LotLedger): Map<string, number> => {
+  const closed = new Map<string, number>();
+  ledger.closedLots.forEach(l => closed.set(l.sellTransactionId, (closed.get(l.sellTransactionId) || 0) + l.lots));
+  return closed;
+};
+
+/**
+ * Check a sell or dividend against the lot ledger at its date
+ * Lot dihitung dari transaksi sampai tanggal tersebut, bukan posisi saat ini. Jual bertanggal mundur
+ * juga tidak boleh membuat transaksi jual sesudahnya kekurangan lot.
+ * @param transactions - Existing transactions of the portfolio
+ * @param transaction - New transaction (transaksi lain dicek tanpa perubahan)
+ * @returns Error message, or null if the lots held cover the transaction
+ */
+export const validateHoldingsAt = (
+  transactions: Transaction[],
+  transaction: Transaction,
+  method: CostBasisMethod = 'fifo'
+): string | null => {
+  if (transaction.type !== 'sell' && transaction.type !== 'dividend') return null;
+
+  const symbolTransactions = transactions.filter(t => t.symbol === transaction.symbol);
+  const dateLabel = (date: number) => new Date(date).toLocaleDateString('id-ID');
+  const openLotsAt = openLotsAtDate(symbolTransactions, transaction.symbol, transaction.date, method);
+  const heldLots = roundLots(openLotsAt.reduce((sum, l) => sum + l.remainingLots, 0));
+
+  if (transaction.type === 'dividend') {
+    return transaction.shares > heldLots + 1e-9
+      ? `Tidak ada cukup lot ${transaction.symbol} pada ${dateLabel(transaction.date)} untuk dividen ${transaction.shares} lot. Dimiliki: ${heldLots} lot`
+      : null;
+  }
+
+  if (transaction.shares > heldLots + 1e-9) {
+    return `Tidak cukup lot ${transaction.symbol} untuk dijual pada ${dateLabel(transaction.date)}. Tersedia: ${heldLots} lot`;
+  }
+  if (transaction.lotSelection?.some(s => (openLotsAt.find(l => l.id === s.lotId)?.remainingLots || 0) < s.lots)) {
+    return 'Lot yang dipilih tidak tersedia pada tanggal jual';
+  }
+
+  // Jual sesudahnya yang sebelumnya tertutup penuh tidak boleh jadi kurang
+  const before = closedLotsBySell(buildLotLedger(symbolTransactions, method));
+  const after = closedLotsBySell(buildLotLedger([...symbolTransactions, transaction], method));
+  const broken = symbolTransactions.find(t =>
+    t.type === 'sell' &&
+    t.date >= transaction.date &&
+    (before.get(t.id) || 0) >= t.shares - 1e-9 &&
+    (after.get(t.id) || 0) < t.shares - 1e-9
+  );
+  return broken
+    ? `Penjualan ini membuat jual ${broken.symbol} pada ${dateLabel(broken.date)} kekurangan lot`
+    : null;
+};
+
+// First sell/dividend of a symbol that its lots no longer cover, checked in date order
+const validateSymbolLedger = (transactions: Transaction[], symbol: string, method: CostBasisMethod = 'fifo'): string | null => {
+  const symbolTransactions = transactions.filter(t => t.symbol === symbol).sort((a, b) => a.date - b.date);
+  for (const transaction of symbolTransactions) {
+    const error = validateHoldingsAt(symbolTransactions.filter(t => t.id !== transaction.id), transaction, method);
+    if (error) return error;
+  }
+  return null;
+};
+
+/**
+ * Realized P&L and dividend totals per calendar year (berdasarkan tanggal jual / pembayaran)
+ */
+export const summarizeRealizedByYear = (
+  closedLots: ClosedLot[],
+  dividends: Transaction[] = []
+): RealizedYearSummary[] => {
+  const years = new Map<number, RealizedYearSummary>();
+  const getYear = (date: number): RealizedYearSummary => {
+    const year = new Date(date).getFullYear();
+    const summary = years.get(year) || { year, proceeds: 0, costBasis: 0, realizedPL: 0, closedLotCount: 0, dividendIncome: 0 };
+    years.set(year, summary);
+    return summary;
+  };
+
+  closedLots.forEach(lot => {
+    const summary = getYear(lot.closeDate);
+    summary.proceeds += lot.proceeds;
+    summary.costBasis += lot.costBasis;
+    summary.realizedPL += lot.realizedPL;
+    summary.closedLotCount += 1;
   });
+  dividends.filter(t => t.type === 'dividend').forEach(t => {
+    getYear(t.date).dividendIncome += t.totalValue;
+  });
+
+  return [...years.values()].sort((a, b) => b.year - a.year);
+};
+
+// Sum of net dividends in a set of transactions
+const sumDividends = (transactions: Transaction[]): number =>
+  transactions.filter(t => t.type === 'dividend').reduce((sum, t) => sum + t.totalValue, 0);
+
+// Build a position from a symbol's open lots
+const buildPosition = (
+  symbol: string,
+  currentPrice: number,
+  openLots: TaxLot[],
+  closedLots: ClosedLot[],
+  transactions: Transaction[]
+): PortfolioPosition | null => {
+  const totalShares = openLots.reduce((sum, l) => sum + l.remainingLots, 0);
 
   // If no shares left, return null
   if (totalShares <= 0) return null;
 
+  const totalCost = openLots.reduce((sum, l) => sum + l.remainingLots * 100 * l.costPerShare, 0);
   const averagePrice = totalCost / (totalShares * 100);
   const currentValue = totalShares * 100 * currentPrice;
   const profitLoss = currentValue - totalCost;
@@ -213,43 +931,66 @@ export const calculatePosition = (
     currentValue,
     profitLoss,
     profitLossPercent,
+    realizedPL: closedLots.reduce((sum, l) => sum + l.realizedPL, 0),
+    dividendIncome: sumDividends(transactions),
+    openLots,
     transactions,
   };
 };
 
-// Calculate full portfolio summary
-export const calculatePortfolioSummary = (
-  currentPrices: Record<string, number>
+// Calculate position for a single symbol
+export const calculatePosition = (
+  symbol: string,
+  currentPrice: number,
+  portfolioId?: string
+): PortfolioPosition | null => {
+  const portfolio = getPortfolio(portfolioId);
+  const transactions = portfolio.transactions.filter(t => t.symbol === symbol);
+  const { openLots, closedLots } = buildLotLedger(transactions, portfolio.costBasisMethod);
+  return buildPosition(symbol, currentPrice, openLots, closedLots, transactions);
+};
+
+// Get open tax lots for a symbol (oldest first)
+export const getOpenLots = (symbol: string, portfolioId?: string): TaxLot[] => {
+  const portfolio = getPortfolio(portfolioId);
+  const transactions = portfolio.transactions.filter(t => t.symbol === symbol.toUpperCase());
+  return buildLotLedger(transactions, portfolio.costBasisMethod).openLots;
+};
+
+// Set the cost basis method of a portfolio
+export const setCostBasisMethod = (method: CostBasisMethod, portfolioId?: string): Portfolio => {
+  return updatePortfolio(portfolioId || getActivePortfolioId(), p => ({ ...p, costBasisMethod: method }));
+};
+
+// Set the broker fee profile used for new trades of a portfolio
+export const setFeeProfile = (profileId: FeeProfileId, portfolioId?: string): Portfolio => {
+  return updatePortfolio(portfolioId || getActivePortfolioId(), p => ({ ...p, feeProfileId: profileId }));
+};
+
+// Summarize one or more lot ledgers
+const summarizeLedger = (
+  allTransactions: Transaction[],
+  ledger: LotLedger,
+  currentPrices: Record<string, number>,
+  cashBalances: Partial<Record<PortfolioCurrency, number>>
 ): PortfolioSummary => {
-  const symbols = getPortfolioSymbols();
   const positions: PortfolioPosition[] = [];
-  const allTransactions = loadTransactions();
+  const lotsBySymbol = groupBySymbol(ledger.openLots);
+  const closedBySymbol = groupBySymbol(ledger.closedLots);
+  const transactionsBySymbol = groupBySymbol(allTransactions);
 
   let totalInvested = 0;
   let totalCurrentValue = 0;
-  let totalRealizedPL = 0;
-
-  // Calculate realized P&L from all sell transactions
-  allTransactions.forEach(txn => {
-    if (txn.type === 'sell') {
-      // Find average cost at time of sale (simplified)
-      const buys = allTransactions.filter(t => 
-        t.type === 'buy' && t.symbol === txn.symbol && t.date < txn.date
-      );
-      if (buys.length > 0) {
-        const totalBuyValue = buys.reduce((sum, b) => sum + b.totalValue, 0);
-        const totalBuyShares = buys.reduce((sum, b) => sum + b.shares, 0);
-        const avgCost = totalBuyShares > 0 ? totalBuyValue / (totalBuyShares * 100) : 0;
-        const sellValue = txn.shares * 100 * txn.pricePerShare;
-        const costBasis = txn.shares * 100 * avgCost;
-        totalRealizedPL += sellValue - costBasis - txn.fee;
-      }
-    }
-  });
 
-  symbols.forEach(symbol => {
+  lotsBySymbol.forEach((openLots, symbol) => {
     const price = currentPrices[symbol] || 0;
-    const position = calculatePosition(symbol, price);
+    const position = buildPosition(
+      symbol,
+      price,
+      openLots,
+      closedBySymbol.get(symbol) || [],
+      transactionsBySymbol.get(symbol) || []
+    );
     
     if (position && position.totalShares > 0) {
       positions.push(position);
@@ -268,32 +1009,117 @@ export const calculatePortfolioSummary = (
     totalCurrentValue,
     totalProfitLoss,
     totalProfitLossPercent,
-    totalRealizedPL,
+    totalRealizedPL: ledger.closedLots.reduce((sum, l) => sum + l.realizedPL, 0),
+    closedLots: [...ledger.closedLots].sort((a, b) => b.closeDate - a.closeDate),
+    realizedByYear: summarizeRealizedByYear(ledger.closedLots, allTransactions),
+    totalDividendIncome: sumDividends(allTransactions),
+    cashBalances,
     positions: positions.sort((a, b) => b.currentValue - a.currentValue),
   };
 };
 
+// Calculate full portfolio summary (default: active portfolio)
+export const calculatePortfolioSummary = (
+  currentPrices: Record<string, number>,
+  portfolioId?: string
+): PortfolioSummary => {
+  const portfolio = getPortfolio(portfolioId);
+  return summarizeLedger(
+    portfolio.transactions,
+    buildLotLedger(portfolio.transactions, portfolio.costBasisMethod),
+    currentPrices,
+    { [portfolio.baseCurrency]: portfolio.cashBalance }
+  );
+};
+
+// Currency shared by all portfolios, or null when they differ (konsolidasi dipecah per mata uang)
+export const getConsolidationCurrency = (portfolios: Portfolio[] = getUserPortfolios()): PortfolioCurrency | null => {
+  const currencies = new Set(portfolios.map(p => p.baseCurrency));
+  return currencies.size === 1 ? portfolios[0].baseCurrency : null;
+};
+
+// Merge the lot ledgers of several portfolios (lot dihitung per portfolio dengan metode masing-masing)
+const summarizePortfolios = (portfolios: Portfolio[], currentPrices: Record<string, number>): PortfolioSummary => {
+  const cashBalances: Partial<Record<PortfolioCurrency, number>> = {};
+  const ledger: LotLedger = { openLots: [], closedLots: [] };
+
+  portfolios.forEach(p => {
+    cashBalances[p.baseCurrency] = (cashBalances[p.baseCurrency] || 0) + p.cashBalance;
+    const portfolioLedger = buildLotLedger(p.transactions, p.costBasisMethod);
+    ledger.openLots.push(...portfolioLedger.openLots);
+    ledger.closedLots.push(...portfolioLedger.closedLots);
+  });
+
+  return summarizeLedger(portfolios.flatMap(p => p.transactions), ledger, currentPrices, cashBalances);
+};
+
+/**
+ * Consolidated summary across all portfolios
+ * Lot dihitung per portfolio dengan metode masing-masing, lalu posisi saham yang sama digabung.
+ * Nilai tidak dikonversi kurs: kalau mata uang dasar portfolio berbeda, currencySubtotals berisi
+ * total per mata uang dan total di tingkat atas tidak boleh ditampilkan sebagai satu angka.
+ */
+export const calculateConsolidatedSummary = (
+  currentPrices: Record<string, number>
+): PortfolioSummary => {
+  const portfolios = getUserPortfolios();
+  const summary = summarizePortfolios(portfolios, currentPrices);
+  if (getConsolidationCurrency(portfolios)) return summary;
+
+  const byCurrency = new Map<PortfolioCurrency, Portfolio[]>();
+  portfolios.forEach(p => byCurrency.set(p.baseCurrency, [...(byCurrency.get(p.baseCurrency) || []), p]));
+  return {
+    ...summary,
+    currencySubtotals: [...byCurrency].map(([currency, group]) => {
+      const subtotal = summarizePortfolios(group, currentPrices);
+      return {
+        currency,
+        portfolioCount: group.length,
+        totalInvested: subtotal.totalInvested,
+        totalCurrentValue: subtotal.totalCurrentValue,
+        totalProfitLoss: subtotal.totalProfitLoss,
+        totalProfitLossPercent: subtotal.totalProfitLossPercent,
+        totalRealizedPL: subtotal.totalRealizedPL,
+        totalDividendIncome: subtotal.totalDividendIncome,
+        realizedByYear: subtotal.realizedByYear,
+      };
+    }),
+  };
+};
+
 // Get transaction history for a symbol
-export const getTransactionHistory = (symbol?: string): Transaction[] => {
-  const transactions = loadTransactions();
+export const getTransactionHistory = (symbol?: string, portfolioId?: string): Transaction[] => {
+  const transactions = loadTransactions(portfolioId);
   const filtered = symbol 
     ? transactions.filter(t => t.symbol === symbol)
     : transactions;
   return filtered.sort((a, b) => b.date - a.date);
 };
 
-// Clear all transactions
-export const clearPortfolio = () => {
-  saveTransactions([]);
+// Get transaction history across all portfolios, tagged with the portfolio name
+export const getConsolidatedTransactionHistory = (symbol?: string): ConsolidatedTransaction[] => {
+  return getUserPortfolios()
+    .flatMap(p => p.transactions.map(t => ({ ...t, portfolioId: p.id, portfolioName: p.name })))
+    .filter(t => !symbol || t.symbol === symbol)
+    .sort((a, b) => b.date - a.date);
+};
+
+// Clear all transactions of a portfolio (their cash effects are reversed)
+export const clearPortfolio = (portfolioId?: string) => {
+  updatePortfolio(portfolioId || getActivePortfolioId(), p => ({
+    ...p,
+    transactions: [],
+    cashBalance: p.transactions.reduce((cash, t) => cash - cashEffect(t), p.cashBalance),
+  }));
 };
 
 // Format currency
-export const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('id-ID', {
+export const formatCurrency = (value: number, currency: PortfolioCurrency = 'IDR'): string => {
+  return new Intl.NumberFormat(currency === 'IDR' ? 'id-ID' : 'en-US', {
     style: 'currency',
-    currency: 'IDR',
+    currency,
     minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
+    maximumFractionDigits: currency === 'IDR' ? 0 : 2,
   }).format(value);
 };
 
@@ -303,17 +1129,28 @@ export const formatPercent = (value: number): string => {
   return `${sign}${value.toFixed(2)}%`;
 };
 
-// Calculate broker fee (typical 0.15% buy, 0.25% sell)
-export const calculateBrokerFee = (
+/**
+ * Fee breakdown of a trade using the portfolio's broker fee profile
+ * Komisi, levy, PPN dan PPh final 0.1% (jual).
+ */
+export const getTradeFees = (
   type: 'buy' | 'sell',
   lots: number,
-  price: number
-): number => {
-  const value = lots * 100 * price;
-  const feePercent = type === 'buy' ? 0.0015 : 0.0025;
-  return Math.round(value * feePercent);
+  price: number,
+  portfolioId?: string
+): FeeBreakdown => {
+  const profileId = loadPortfolios().find(p => p.id === (portfolioId || getActivePortfolioId()))?.feeProfileId;
+  return calculateTradeFees(type, lots, price, getFeeProfile(profileId));
 };
 
+// Calculate total trade cost (around 0.15% buy, 0.25% sell incl. PPh final)
+export const calculateBrokerFee = (
+  type: 'buy' | 'sell',
+  lots: number,
+  price: number,
+  portfolioId?: string
+): number => getTradeFees(type, lots, price, portfolioId).total;
+
 /**
  * Export Portfolio to PDF
  * Creates a downloadable PDF report of portfolio positions and transactions
@@ -508,8 +1345,8 @@ export const exportToPDF = async (
                 <td>${new Date(txn.date).toLocaleDateString('id-ID')}</td>
                 <td><strong>${txn.symbol}</strong></td>
                 <td class="text-center">
-                  <span class="badge ${txn.type === 'buy' ? 'badge-buy' : 'badge-sell'}">
-                    ${txn.type === 'buy' ? 'BELI' : 'JUAL'}
+                  <span class="badge ${txn.type === 'buy' || txn.type === 'rights' ? 'badge-buy' : 'badge-sell'}">
+                    ${TRANSACTION_TYPE_LABELS[txn.type].toUpperCase()}
                   </span>
                 </td>
                 <td class="text-right">${txn.shares}</td>
@@ -583,7 +1420,7 @@ export const exportToExcel = (
   
   transactions.forEach(txn => {
     const date = new Date(txn.date).toLocaleDateString('id-ID');
-    csvContent += `${date},${txn.symbol},${txn.type === 'buy' ? 'BELI' : 'JUAL'},${txn.shares},${txn.pricePerShare},${txn.totalValue},${txn.fee},"${txn.note || ''}"\n`;
+    csvContent += `${date},${txn.symbol},${TRANSACTION_TYPE_LABELS[txn.type].toUpperCase()},${txn.shares},${txn.pricePerShare},${txn.totalValue},${txn.fee},"${txn.note || ''}"\n`;
   });
   
   // Create download link
@@ -636,15 +1473,44 @@ export const exportToJSON = (
 };
 
 export default {
+  loadPortfolios,
+  savePortfolios,
+  getUserPortfolios,
+  getPaperPortfolio,
+  getActivePortfolioId,
+  getActivePortfolio,
+  setActivePortfolio,
+  getPortfolio,
+  createPortfolio,
+  renamePortfolio,
+  deletePortfolio,
+  adjustCashBalance,
   loadTransactions,
   saveTransactions,
   addBuyTransaction,
   addSellTransaction,
+  addDividendTransaction,
+  addStockSplit,
+  addBonusShares,
+  addRightsTransaction,
+  formatCorporateActionRatio,
+  getSplitAdjustedTransactions,
   deleteTransaction,
   getPortfolioSymbols,
+  getAllPortfolioSymbols,
+  buildLotLedger,
+  summarizeRealizedByYear,
   calculatePosition,
+  validateHoldingsAt,
+  getOpenLots,
+  setCostBasisMethod,
+  setFeeProfile,
+  getTradeFees,
   calculatePortfolioSummary,
+  getConsolidationCurrency,
+  calculateConsolidatedSummary,
   getTransactionHistory,
+  getConsolidatedTransactionHistory,
   clearPortfolio,
   formatCurrency,
   formatPercent,
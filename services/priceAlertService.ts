@@ -1,21 +1,152 @@
 /**
  * Price Alert Service
  * Manages price alerts with localStorage persistence and notifications
+ *
+ * Selain harga di atas/di bawah target, alert bisa berbasis kondisi teknikal
+ * (perubahan harian, MA cross, RSI, lonjakan volume, gap, high/low 52 minggu).
+ * Kondisi teknikal dievaluasi dari bar harian dengan indikator yang sama dengan chart.
+ *
+ * Alert bisa sekali jalan, aktif lagi tiap hari, atau aktif lagi setiap crossing
+ * (dengan hysteresis untuk alert harga), punya tanggal kedaluwarsa dan bisa di-snooze.
+ * Setiap trigger dicatat di log riwayat yang bisa diekspor ke CSV, termasuk status
+ * pengiriman ke channel eksternal (lihat alertChannelService).
+ *
+ * Notifikasi ditampilkan lewat service worker (public/alert-sw.js) bila terdaftar,
+ * sehingga tetap muncul walau tab sedang di background.
  */
 
+import { StockData } from '../types';
+import { fetchHistoryWithSource } from './stockApiService';
+import { calculateSMA, calculateEMA, calculateRSI, lastValue } from '../utils/indicators';
+
+export type AlertCondition =
+  | 'above'
+  | 'below'
+  | 'percent_change'
+  | 'ma_cross'
+  | 'rsi'
+  | 'volume_spike'
+  | 'gap'
+  | 'high_52w'
+  | 'low_52w';
+
+export type AlertDirection = 'up' | 'down';
+
+// Perilaku setelah alert ter-trigger
+export type AlertRepeat = 'once' | 'daily' | 'every_cross';
+
+// Tujuan pengiriman alert; 'browser' = suara + notifikasi browser
+export type AlertChannel = 'browser' | 'telegram' | 'webhook' | 'email';
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+export interface ChannelDelivery {
+  channel: AlertChannel;
+  status: DeliveryStatus;
+  attempts: number;
+  error?: string;
+  deliveredAt?: number;
+}
+
+export interface AlertParams {
+  direction?: AlertDirection;  // percent_change, ma_cross, gap; rsi: up = di atas level
+  percent?: number;            // percent_change & gap (%)
+  maType?: 'sma' | 'ema';
+  maPeriod?: number;
+  rsiPeriod?: number;
+  rsiLevel?: number;
+  volumeMultiple?: number;     // Kelipatan rata-rata volume 20 hari
+}
+
 export interface PriceAlert {
   id: string;
   symbol: string;
-  targetPrice: number;
-  condition: 'above' | 'below';
+  targetPrice: number;         // Khusus above/below
+  condition: AlertCondition;
+  params?: AlertParams;
   createdAt: number;
-  triggered: boolean;
-  triggeredAt?: number;
+  triggered: boolean;          // Alert 'once' yang sudah selesai
+  triggeredAt?: number;        // Trigger terakhir
+  triggerCount?: number;
   note?: string;
+  repeat?: AlertRepeat;        // Default 'once'
+  hysteresisPercent?: number;  // every_cross above/below: jarak dari target sebelum aktif lagi
+  armed?: boolean;             // every_cross: false sampai kondisi reset
+  expiresAt?: number;
+  snoozedUntil?: number;
+  channels?: AlertChannel[];   // Default ['browser']
+}
+
+export interface AlertOptions {
+  repeat?: AlertRepeat;
+  hysteresisPercent?: number;
+  expiresAt?: number;
+  channels?: AlertChannel[];
+}
+
+export interface AlertTriggerLogEntry {
+  id: string;
+  alertId: string;
+  symbol: string;
+  condition: AlertCondition;
+  message: string;
+  price: number;
+  triggeredAt: number;
+  deliveries?: ChannelDelivery[]; // Channel eksternal saja
+}
+
+// Live market data used to evaluate alerts
+export interface AlertMarketData {
+  changePercent?: number;      // Perubahan hari ini (%)
+  bars?: StockData[];          // Bar harian, terlama dulu (bar hari ini opsional)
 }
 
+export const ALERT_CONDITION_LABELS: Record<AlertCondition, string> = {
+  above: 'Harga di atas',
+  below: 'Harga di bawah',
+  percent_change: 'Perubahan harian',
+  ma_cross: 'Moving Average cross',
+  rsi: 'RSI',
+  volume_spike: 'Lonjakan volume',
+  gap: 'Gap up / down',
+  high_52w: 'High 52 minggu',
+  low_52w: 'Low 52 minggu',
+};
+
+export const DEFAULT_ALERT_PARAMS: Record<AlertCondition, AlertParams> = {
+  above: {},
+  below: {},
+  percent_change: { direction: 'up', percent: 5 },
+  ma_cross: { direction: 'up', maType: 'sma', maPeriod: 20 },
+  rsi: { direction: 'down', rsiPeriod: 14, rsiLevel: 30 },
+  volume_spike: { volumeMultiple: 2 },
+  gap: { direction: 'up', percent: 2 },
+  high_52w: {},
+  low_52w: {},
+};
+
+export const ALERT_REPEAT_LABELS: Record<AlertRepeat, string> = {
+  once: 'Sekali',
+  daily: 'Sekali per hari',
+  every_cross: 'Setiap crossing',
+};
+
+export const DEFAULT_HYSTERESIS_PERCENT = 1;
+
+export const DEFAULT_ALERT_CHANNELS: AlertChannel[] = ['browser'];
+
+const VOLUME_AVERAGE_DAYS = 20;
+const WEEKS_52_BARS = 250;
+const HISTORY_DAYS = 365;
+const HISTORY_CACHE_MS = 5 * 60 * 1000;
+
 const ALERTS_STORAGE_KEY = 'rizbot_price_alerts';
+const TRIGGER_LOG_STORAGE_KEY = 'rizbot_alert_trigger_log';
+const MAX_TRIGGER_LOG_ENTRIES = 500;
 const NOTIFICATION_SOUND_URL = 'https://assets.mixkit.co/active_storage/sfx/2869/2869-preview.mp3';
+const ALERT_SERVICE_WORKER_URL = '/alert-sw.js';
+
+let notificationWorker: ServiceWorkerRegistration | null = null;
 
 // Load alerts from localStorage
 export const loadAlerts = (): PriceAlert[] => {
@@ -48,17 +179,21 @@ const generateId = (): string => {
 export const createAlert = (
   symbol: string,
   targetPrice: number,
-  condition: 'above' | 'below',
-  note?: string
+  condition: AlertCondition,
+  note?: string,
+  params?: AlertParams,
+  options: AlertOptions = {}
 ): PriceAlert => {
   const alert: PriceAlert = {
     id: generateId(),
     symbol,
     targetPrice,
     condition,
+    params: params ?? (condition === 'above' || condition === 'below' ? undefined : { ...DEFAULT_ALERT_PARAMS[condition] }),
     createdAt: Date.now(),
     triggered: false,
     note,
+    ...options,
   };
 
   const alerts = loadAlerts();
@@ -68,6 +203,19 @@ export const createAlert = (
   return alert;
 };
 
+// Update an active alert (kondisi, target, parameter, catatan atau opsi pengulangan)
+export const updateAlert = (
+  alertId: string,
+  changes: Partial<Pick<PriceAlert, 'targetPrice' | 'condition' | 'params' | 'note' | 'snoozedUntil'>> & AlertOptions
+): PriceAlert | null => {
+  const alerts = loadAlerts();
+  const index = alerts.findIndex(a => a.id === alertId);
+  if (index === -1) return null;
+  alerts[index] = { ...alerts[index], ...changes };
+  saveAlerts(alerts);
+  return alerts[index];
+};
+
 // Delete alert
 export const deleteAlert = (alertId: string) => {
   const alerts = loadAlerts();
@@ -75,62 +223,283 @@ export const deleteAlert = (alertId: string) => {
   saveAlerts(filtered);
 };
 
+// Alert kedaluwarsa tetap disimpan tapi tidak dievaluasi lagi
+export const isAlertExpired = (alert: PriceAlert, now: number = Date.now()): boolean =>
+  alert.expiresAt !== undefined && now > alert.expiresAt;
+
+// Alert yang di-snooze tetap aktif, hanya dilewati sampai snooze berakhir
+export const isAlertSnoozed = (alert: PriceAlert, now: number = Date.now()): boolean =>
+  alert.snoozedUntil !== undefined && now < alert.snoozedUntil;
+
+const isAlertLive = (alert: PriceAlert): boolean => !alert.triggered && !isAlertExpired(alert);
+
+// Snooze an alert for a number of minutes
+export const snoozeAlert = (alertId: string, minutes: number): PriceAlert | null =>
+  updateAlert(alertId, { snoozedUntil: Date.now() + minutes * 60 * 1000 });
+
+// Re-activate a finished (triggered or expired) alert
+export const rearmAlert = (alertId: string): PriceAlert | null => {
+  const alerts = loadAlerts();
+  const index = alerts.findIndex(a => a.id === alertId);
+  if (index === -1) return null;
+  const alert = alerts[index];
+  alerts[index] = {
+    ...alert,
+    triggered: false,
+    armed: undefined,
+    snoozedUntil: undefined,
+    expiresAt: isAlertExpired(alert) ? undefined : alert.expiresAt,
+  };
+  saveAlerts(alerts);
+  return alerts[index];
+};
+
 // Get alerts for a specific symbol
 export const getAlertsForSymbol = (symbol: string): PriceAlert[] => {
-  return loadAlerts().filter(a => a.symbol === symbol && !a.triggered);
+  return loadAlerts().filter(a => a.symbol === symbol && isAlertLive(a));
 };
 
-// Get all active (non-triggered) alerts
+// Get all active (not finished, not expired) alerts
 export const getActiveAlerts = (): PriceAlert[] => {
-  return loadAlerts().filter(a => !a.triggered);
+  return loadAlerts().filter(isAlertLive);
 };
 
-// Get triggered alerts history
+// Get finished alerts: one-shot alerts that triggered and expired alerts
 export const getTriggeredAlerts = (): PriceAlert[] => {
-  return loadAlerts().filter(a => a.triggered).sort((a, b) => (b.triggeredAt || 0) - (a.triggeredAt || 0));
+  return loadAlerts()
+    .filter(a => !isAlertLive(a))
+    .sort((a, b) => (b.triggeredAt || b.expiresAt || 0) - (a.triggeredAt || a.expiresAt || 0));
+};
+
+// Trigger log, terbaru dulu
+export const loadTriggerLog = (): AlertTriggerLogEntry[] => {
+  try {
+    const stored = localStorage.getItem(TRIGGER_LOG_STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (e) {
+    console.error('Failed to load alert trigger log:', e);
+  }
+  return [];
+};
+
+const appendTriggerLog = (entries: AlertTriggerLogEntry[]) => {
+  try {
+    const log = [...entries, ...loadTriggerLog()].slice(0, MAX_TRIGGER_LOG_ENTRIES);
+    localStorage.setItem(TRIGGER_LOG_STORAGE_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.error('Failed to save alert trigger log:', e);
+  }
+};
+
+// Log entry id of the latest trigger of an alert
+export const getTriggerLogId = (alert: PriceAlert): string => `${alert.id}_${alert.triggeredAt}`;
+
+// Update the delivery status of one channel on a trigger log entry
+export const updateTriggerLogDelivery = (logId: string, delivery: ChannelDelivery) => {
+  const log = loadTriggerLog();
+  const entry = log.find(e => e.id === logId);
+  if (!entry) return;
+  entry.deliveries = [
+    ...(entry.deliveries || []).filter(d => d.channel !== delivery.channel),
+    delivery,
+  ];
+  try {
+    localStorage.setItem(TRIGGER_LOG_STORAGE_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.error('Failed to save alert trigger log:', e);
+  }
+};
+
+export const clearTriggerLog = () => {
+  localStorage.removeItem(TRIGGER_LOG_STORAGE_KEY);
+};
+
+// Whether an alert needs daily bars to be evaluated
+export const alertNeedsHistory = (alert: PriceAlert): boolean =>
+  alert.condition !== 'above' && alert.condition !== 'below' && alert.condition !== 'percent_change';
+
+const isSameDay = (a: number, b: number): boolean => new Date(a).toDateString() === new Date(b).toDateString();
+
+// Split daily bars into completed history and today's bar (updated with the live price)
+const splitTodayBar = (bars: StockData[], price: number): { history: StockData[]; today: StockData | null } => {
+  const last = bars[bars.length - 1];
+  if (last?.timestamp && isSameDay(last.timestamp, Date.now())) {
+    return {
+      history: bars.slice(0, -1),
+      today: { ...last, close: price, high: Math.max(last.high, price), low: Math.min(last.low, price) },
+    };
+  }
+  return { history: bars, today: null };
+};
+
+/**
+ * Evaluate one alert against the live price (pure, no side effects)
+ */
+export const evaluateAlert = (alert: PriceAlert, currentPrice: number, market: AlertMarketData = {}): boolean => {
+  const params = { ...DEFAULT_ALERT_PARAMS[alert.condition], ...alert.params };
+  const up = params.direction !== 'down';
+
+  if (alert.condition === 'above') return currentPrice >= alert.targetPrice;
+  if (alert.condition === 'below') return currentPrice <= alert.targetPrice;
+
+  const { history, today } = splitTodayBar(market.bars || [], currentPrice);
+  const previous = history[history.length - 1];
+
+  if (alert.condition === 'percent_change') {
+    const change = market.changePercent ?? (previous ? (currentPrice / previous.close - 1) * 100 : null);
+    if (change === null) return false;
+    return up ? change >= params.percent! : change <= -params.percent!;
+  }
+
+  if (!previous) return false;
+  // Series hari ini dengan harga live sebagai close terakhir
+  const live: StockData = today || { time: '', open: currentPrice, high: currentPrice, low: currentPrice, close: currentPrice, volume: 0 };
+  const series = [...history, live];
+
+  switch (alert.condition) {
+    case 'ma_cross': {
+      const ma = params.maType === 'ema' ? calculateEMA(series, params.maPeriod!) : calculateSMA(series, params.maPeriod!);
+      const maNow = ma[ma.length - 1];
+      const maPrev = ma[ma.length - 2];
+      if (maNow == null || maPrev == null) return false;
+      return up
+        ? previous.close <= maPrev && currentPrice > maNow
+        : previous.close >= maPrev && currentPrice < maNow;
+    }
+    case 'rsi': {
+      const rsi = lastValue(calculateRSI(series, params.rsiPeriod!));
+      if (rsi === null) return false;
+      return up ? rsi >= params.rsiLevel! : rsi <= params.rsiLevel!;
+    }
+    case 'volume_spike': {
+      const recent = history.slice(-VOLUME_AVERAGE_DAYS);
+      if (!today || recent.length < VOLUME_AVERAGE_DAYS) return false;
+      const average = recent.reduce((sum, b) => sum + b.volume, 0) / recent.length;
+      return average > 0 && today.volume >= average * params.volumeMultiple!;
+    }
+    case 'gap': {
+      if (!today) return false;
+      return up
+        ? today.open > previous.high * (1 + params.percent! / 100)
+        : today.open < previous.low * (1 - params.percent! / 100);
+    }
+    case 'high_52w': {
+      const window = history.slice(-WEEKS_52_BARS);
+      return window.length > 0 && currentPrice > Math.max(...window.map(b => b.high));
+    }
+    case 'low_52w': {
+      const window = history.slice(-WEEKS_52_BARS);
+      return window.length > 0 && currentPrice < Math.min(...window.map(b => b.low));
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * Whether an every-crossing alert may fire again
+ * Alert harga baru aktif lagi setelah harga kembali melewati pita hysteresis dari target,
+ * kondisi lain setelah kondisinya tidak terpenuhi lagi.
+ */
+const shouldRearm = (alert: PriceAlert, currentPrice: number, market: AlertMarketData): boolean => {
+  const band = (alert.hysteresisPercent ?? DEFAULT_HYSTERESIS_PERCENT) / 100;
+  if (alert.condition === 'above') return currentPrice < alert.targetPrice * (1 - band);
+  if (alert.condition === 'below') return currentPrice > alert.targetPrice * (1 + band);
+  return !evaluateAlert(alert, currentPrice, market);
 };
 
 // Check if price triggers any alerts
 export const checkAlerts = (
   symbol: string,
-  currentPrice: number
+  currentPrice: number,
+  market: AlertMarketData = {}
 ): PriceAlert[] => {
   const alerts = loadAlerts();
   const triggeredAlerts: PriceAlert[] = [];
+  const now = Date.now();
+  let changed = false;
 
   const updatedAlerts = alerts.map(alert => {
-    if (alert.triggered || alert.symbol !== symbol) {
+    if (!isAlertLive(alert) || alert.symbol !== symbol || isAlertSnoozed(alert, now)) {
       return alert;
     }
 
-    let shouldTrigger = false;
-
-    if (alert.condition === 'above' && currentPrice >= alert.targetPrice) {
-      shouldTrigger = true;
-    } else if (alert.condition === 'below' && currentPrice <= alert.targetPrice) {
-      shouldTrigger = true;
+    const repeat = alert.repeat ?? 'once';
+    if (repeat === 'every_cross' && alert.armed === false) {
+      if (!shouldRearm(alert, currentPrice, market)) return alert;
+      changed = true;
+      return { ...alert, armed: true };
+    }
+    if (repeat === 'daily' && alert.triggeredAt && isSameDay(alert.triggeredAt, now)) {
+      return alert;
     }
 
-    if (shouldTrigger) {
-      const triggered = {
+    if (evaluateAlert(alert, currentPrice, market)) {
+      const triggered: PriceAlert = {
         ...alert,
-        triggered: true,
-        triggeredAt: Date.now(),
+        triggered: repeat === 'once',
+        triggeredAt: now,
+        triggerCount: (alert.triggerCount || 0) + 1,
+        armed: repeat === 'every_cross' ? false : alert.armed,
       };
       triggeredAlerts.push(triggered);
+      changed = true;
       return triggered;
     }
 
     return alert;
   });
 
-  if (triggeredAlerts.length > 0) {
+  if (changed) {
     saveAlerts(updatedAlerts);
   }
 
+  if (triggeredAlerts.length > 0) {
+    appendTriggerLog(triggeredAlerts.map(alert => ({
+      id: getTriggerLogId(alert),
+      alertId: alert.id,
+      symbol: alert.symbol,
+      condition: alert.condition,
+      message: formatAlertMessage(alert),
+      price: currentPrice,
+      triggeredAt: now,
+      deliveries: (alert.channels || DEFAULT_ALERT_CHANNELS)
+        .filter(channel => channel !== 'browser')
+        .map(channel => ({ channel, status: 'pending' as const, attempts: 0 })),
+    })));
+  }
+
   return triggeredAlerts;
 };
 
+// Daily bars per symbol for technical alerts (cache singkat agar tidak fetch tiap tick)
+const historyCache = new Map<string, { bars: StockData[]; loadedAt: number }>();
+
+// Candle simulasi dianggap tidak ada data: alert teknikal tidak dievaluasi (dan tidak dikirim)
+const loadAlertHistory = async (symbol: string): Promise<StockData[]> => {
+  const cached = historyCache.get(symbol);
+  if (cached && Date.now() - cached.loadedAt < HISTORY_CACHE_MS) return cached.bars;
+  const history = await fetchHistoryWithSource(symbol, HISTORY_DAYS);
+  if (history.source.simulated) throw new Error(`Histori ${symbol} hanya tersedia dari simulator`);
+  historyCache.set(symbol, { bars: history.data, loadedAt: Date.now() });
+  return history.data;
+};
+
+/**
+ * Check alerts, loading daily bars first when a technical alert needs them
+ */
+export const checkAlertsWithHistory = async (
+  symbol: string,
+  currentPrice: number,
+  changePercent?: number
+): Promise<PriceAlert[]> => {
+  const needsHistory = getAlertsForSymbol(symbol).some(alertNeedsHistory);
+  const bars = needsHistory ? await loadAlertHistory(symbol).catch(() => undefined) : undefined;
+  return checkAlerts(symbol, currentPrice, { changePercent, bars });
+};
+
 // Play notification sound
 export const playAlertSound = () => {
   try {
@@ -161,22 +530,54 @@ export const requestNotificationPermission = async (): Promise<boolean> => {
   return false;
 };
 
-// Show browser notification
-export const showNotification = (alert: PriceAlert, currentPrice: number) => {
-  if (Notification.permission !== 'granted') {
+/**
+ * Register the alert service worker used to show notifications from a background tab
+ * @returns Registration, or null when service workers are not supported
+ */
+export const registerAlertServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!('serviceWorker' in navigator)) {
+    return null;
+  }
+
+  try {
+    notificationWorker = await navigator.serviceWorker.register(ALERT_SERVICE_WORKER_URL);
+    return notificationWorker;
+  } catch (e) {
+    console.warn('Alert service worker registration failed:', e);
+    return null;
+  }
+};
+
+/**
+ * Show a browser notification (via the alert service worker when registered)
+ * Klik notifikasi membuka/memfokuskan tab aplikasi dan mengirim simbol ke halaman.
+ */
+export const showBrowserNotification = (title: string, body: string, tag: string, symbol?: string) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') {
     return;
   }
 
-  const conditionText = alert.condition === 'above' ? 'naik di atas' : 'turun di bawah';
-  const title = `🔔 Alert: ${alert.symbol}`;
-  const body = `Harga ${alert.symbol} sudah ${conditionText} Rp ${alert.targetPrice.toLocaleString()}!\nHarga saat ini: Rp ${currentPrice.toLocaleString()}`;
+  // Via service worker: notifikasi tetap tampil sampai diklik walau tab di background
+  if (notificationWorker) {
+    notificationWorker
+      .showNotification(title, {
+        body,
+        icon: '/favicon.ico',
+        badge: '/favicon.ico',
+        tag,
+        requireInteraction: true,
+        data: { symbol },
+      })
+      .catch(e => console.warn('Failed to show notification:', e));
+    return;
+  }
 
   try {
     const notification = new Notification(title, {
       body,
       icon: '/favicon.ico',
       badge: '/favicon.ico',
-      tag: alert.id,
+      tag,
       requireInteraction: true,
     });
 
@@ -192,36 +593,106 @@ export const showNotification = (alert: PriceAlert, currentPrice: number) => {
   }
 };
 
+// Show browser notification
+export const showNotification = (alert: PriceAlert, currentPrice: number) => {
+  showBrowserNotification(
+    `🔔 Alert: ${alert.symbol}`,
+    `${formatAlertMessage(alert)}\nHarga saat ini: Rp ${currentPrice.toLocaleString()}`,
+    alert.id,
+    alert.symbol
+  );
+};
+
 // Trigger full alert (sound + notification)
 export const triggerAlertNotification = (alert: PriceAlert, currentPrice: number) => {
   playAlertSound();
   showNotification(alert, currentPrice);
 };
 
-// Clear all triggered alerts
+// Clear all finished alerts (riwayat trigger tetap tersimpan di log)
 export const clearTriggeredAlerts = () => {
   const alerts = loadAlerts();
-  const active = alerts.filter(a => !a.triggered);
+  const active = alerts.filter(isAlertLive);
   saveAlerts(active);
 };
 
+/**
+ * Export the trigger log to CSV
+ */
+export const exportTriggerLogCSV = (log: AlertTriggerLogEntry[] = loadTriggerLog()): void => {
+  const BOM = '\uFEFF'; // UTF-8 BOM for Excel
+  let csvContent = BOM;
+  csvContent += 'Waktu,Saham,Kondisi,Alert,Harga,Pengiriman\n';
+  log.forEach(entry => {
+    const deliveries = (entry.deliveries || []).map(d => `${d.channel}:${d.status}`).join(' ');
+    csvContent += `"${new Date(entry.triggeredAt).toLocaleString('id-ID')}",${entry.symbol},${ALERT_CONDITION_LABELS[entry.condition]},"${entry.message}",${entry.price},${deliveries}\n`;
+  });
+
+  // Create download link
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', `riwayat_alert_rizbot_${new Date().toISOString().split('T')[0]}.csv`);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
 // Format alert for display
 export const formatAlertMessage = (alert: PriceAlert): string => {
-  const condition = alert.condition === 'above' ? '≥' : '≤';
-  return `${alert.symbol} ${condition} Rp ${alert.targetPrice.toLocaleString()}`;
+  const p = { ...DEFAULT_ALERT_PARAMS[alert.condition], ...alert.params };
+  const up = p.direction !== 'down';
+  switch (alert.condition) {
+    case 'above':
+    case 'below':
+      return `${alert.symbol} ${alert.condition === 'above' ? '≥' : '≤'} Rp ${alert.targetPrice.toLocaleString()}`;
+    case 'percent_change':
+      return `${alert.symbol} ${up ? 'naik' : 'turun'} ≥ ${p.percent}% hari ini`;
+    case 'ma_cross':
+      return `${alert.symbol} cross ${up ? 'ke atas' : 'ke bawah'} ${p.maType?.toUpperCase()}${p.maPeriod}`;
+    case 'rsi':
+      return `${alert.symbol} RSI(${p.rsiPeriod}) ${up ? '≥' : '≤'} ${p.rsiLevel}`;
+    case 'volume_spike':
+      return `${alert.symbol} volume ≥ ${p.volumeMultiple}x rata-rata ${VOLUME_AVERAGE_DAYS} hari`;
+    case 'gap':
+      return `${alert.symbol} gap ${up ? 'up' : 'down'} ≥ ${p.percent}%`;
+    case 'high_52w':
+      return `${alert.symbol} high baru 52 minggu`;
+    case 'low_52w':
+      return `${alert.symbol} low baru 52 minggu`;
+    default:
+      return alert.symbol;
+  }
 };
 
 export default {
   loadAlerts,
   saveAlerts,
   createAlert,
+  updateAlert,
   deleteAlert,
+  snoozeAlert,
+  rearmAlert,
+  isAlertExpired,
+  isAlertSnoozed,
   getAlertsForSymbol,
   getActiveAlerts,
   getTriggeredAlerts,
+  loadTriggerLog,
+  getTriggerLogId,
+  updateTriggerLogDelivery,
+  clearTriggerLog,
+  exportTriggerLogCSV,
+  evaluateAlert,
   checkAlerts,
+  checkAlertsWithHistory,
   playAlertSound,
   requestNotificationPermission,
+  registerAlertServiceWorker,
+  showBrowserNotification,
   showNotification,
   triggerAlertNotification,
   clearTriggeredAlerts,
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const POLL_DELAY_MS = 5 * 60 * 1000;   // Interval poll fase istirahat/tutup, lebih lama dari backoff maksimum
+
+const fetchLatestStockPrice = vi.fn(async (symbol: string) => ({
+  symbol,
+  price: 9000,
+  change: 0,
+  changePercent: 0,
+  volume: 0,
+  source: { provider: 'yahoo', providerName: 'Yahoo Finance', simulated: false, stale: false, fetchedAt: Date.now() },
+}));
+
+vi.mock('./stockApiService', () => ({
+  fetchLatestStockPrice,
+  fetchStockPrice: fetchLatestStockPrice,
+}));
+vi.mock('./marketCalendarService', () => ({ getNextPollDelay: () => POLL_DELAY_MS }));
+
+// EventSource yang langsung gagal; `fatal` meniru respons bukan text/event-stream (browser menyerah)
+class FailingEventSource {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSED = 2;
+  static instances = 0;
+  static fatal = false;
+  readyState = FailingEventSource.CONNECTING;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FailingEventSource.instances++;
+    setTimeout(() => {
+      if (FailingEventSource.fatal) this.readyState = FailingEventSource.CLOSED;
+      this.onerror?.();
+    }, 10);
+  }
+
+  addEventListener() {}
+  close() {
+    this.readyState = FailingEventSource.CLOSED;
+  }
+}
+
+const loadService = async () => {
+  vi.resetModules();
+  return import('./priceStreamService');
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  localStorage.clear();
+  vi.stubGlobal('EventSource', FailingEventSource);
+  FailingEventSource.instances = 0;
+  FailingEventSource.fatal = false;
+  fetchLatestStockPrice.mockClear();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('price stream polling fallback', () => {
+  it('keeps polling on the phase interval while reconnects keep failing', async () => {
+    const { subscribePriceTicks } = await loadService();
+    const ticks: number[] = [];
+    const unsubscribe = subscribePriceTicks('BBCA', tick => ticks.push(tick.price));
+
+    // Quote awal untuk subscriber baru
+    await vi.advanceTimersByTimeAsync(0);
+    const initialPolls = fetchLatestStockPrice.mock.calls.length;
+
+    await vi.advanceTimersByTimeAsync(POLL_DELAY_MS + 1000);
+    expect(FailingEventSource.instances).toBeGreaterThan(3);
+    expect(fetchLatestStockPrice.mock.calls.length).toBeGreaterThan(initialPolls);
+    expect(ticks.length).toBeGreaterThan(1);
+    unsubscribe();
+  });
+
+  it('stamps polled ticks with the time the quote was fetched', async () => {
+    const fetchedAt = Date.now() - 60 * 60 * 1000;
+    fetchLatestStockPrice.mockImplementationOnce(async (symbol: string) => ({
+      symbol,
+      price: 8900,
+      change: 0,
+      changePercent: 0,
+      volume: 0,
+      source: { provider: 'yahoo', providerName: 'Yahoo Finance', simulated: false, stale: true, fetchedAt },
+    }));
+
+    const { subscribePriceTicks } = await loadService();
+    const ticks: { timestamp: number; stale: boolean }[] = [];
+    const unsubscribe = subscribePriceTicks('BMRI', tick => ticks.push({ timestamp: tick.timestamp, stale: tick.source.stale }));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(ticks[0]).toEqual({ timestamp: fetchedAt, stale: true });
+    unsubscribe();
+  });
+
+  it('stops retrying an endpoint that does not answer with text/event-stream', async () => {
+    FailingEventSource.fatal = true;
+    const fetchMock = vi.fn(async () => new Response('<!doctype html>', { status: 200, headers: { 'Content-Type': 'text/html' } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { subscribePriceTicks, getStreamStatus } = await loadService();
+    const unsubscribe = subscribePriceTicks('TLKM', () => {});
+
+    await vi.advanceTimersByTimeAsync(POLL_DELAY_MS + 1000);
+    expect(FailingEventSource.instances).toBe(1);
+    expect(getStreamStatus()).toMatchObject({ transport: 'polling', unavailable: true });
+    expect(fetchLatestStockPrice.mock.calls.length).toBeGreaterThan(1);
+    unsubscribe();
+  });
+
+  it('keeps retrying on server errors', async () => {
+    FailingEventSource.fatal = true;
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503 })));
+
+    const { subscribePriceTicks, getStreamStatus } = await loadService();
+    const unsubscribe = subscribePriceTicks('ASII', () => {});
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(FailingEventSource.instances).toBeGreaterThan(1);
+    expect(getStreamStatus().unavailable).toBe(false);
+    unsubscribe();
+  });
+});
+
+// EventSource yang langsung terbuka; pesan dikirim manual lewat `emit`
+class OpenEventSource {
+  static CLOSED = 2;
+  static current: OpenEventSource | null = null;
+  readyState = 1;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(public url: string) {
+    OpenEventSource.current = this;
+    setTimeout(() => this.onopen?.(), 0);
+  }
+
+  emit(data: unknown) {
+    this.onmessage?.({ data: typeof data === 'string' ? data : JSON.stringify(data) });
+  }
+
+  addEventListener() {}
+  close() {}
+}
+
+describe('stream message parsing', () => {
+  it('accepts single ticks, arrays and { ticks } envelopes and skips malformed items', async () => {
+    vi.stubGlobal('EventSource', OpenEventSource);
+    const { subscribePriceTicks } = await loadService();
+    const prices: number[] = [];
+    const unsubscribe = subscribePriceTicks('BBCA', tick => prices.push(tick.price));
+    await vi.advanceTimersByTimeAsync(1000);
+    prices.length = 0;
+
+    const stream = OpenEventSource.current!;
+    stream.emit({ symbol: 'bbca', price: 9100 });
+    stream.emit([{ symbol: 'BBCA', price: '9125' }, { symbol: 'TLKM', price: 3000 }]);
+    stream.emit({ ticks: [{ symbol: 'BBCA', price: 9150, simulated: true }] });
+    stream.emit([null, 42, { symbol: 'BBCA' }, { symbol: 'BBCA', price: -5 }, { price: 1 }]);
+    stream.emit('not json');
+
+    expect(prices).toEqual([9100, 9125, 9150]);
+    unsubscribe();
+  });
+});
@@ -0,0 +1,448 @@
+/**
+ * Price Stream Service
+ * Subscription hub for live IDX prices: one streaming connection for every watched symbol
+ *
+ * - Subscriber di-dedup per simbol; semua simbol lewat satu koneksi
+ * - URL ws:// atau wss:// memakai WebSocket, URL lain memakai Server-Sent Events
+ * - Kalau stream tidak tersedia, hub jatuh ke polling batch (interval mengikuti fase pasar)
+ *   sambil mencoba konek ulang dengan backoff; timer polling berjalan terpisah dari percobaan konek ulang
+ * - Endpoint yang menjawab selain text/event-stream (mis. rewrite SPA Netlify/Vercel yang mengembalikan
+ *   index.html) tidak dicoba lagi sampai pengaturan stream disimpan ulang
+ * - Saat development, Vite menyediakan stand-in server SSE di /api/price-stream; di luar dev server
+ *   stream default mati kecuali VITE_PRICE_STREAM_URL diisi saat build
+ *
+ * Format pesan stream: { symbol, price, change, changePercent, volume?, timestamp?, simulated? },
+ * boleh juga array atau { type: 'tick', ... } / { ticks: [...] }.
+ * Protokol WebSocket: client mengirim { type: 'subscribe', symbols: [...] } setiap daftar simbol berubah.
+ */
+
+import { DataSourceInfo } from '../types';
+import { fetchStockPrice, fetchLatestStockPrice } from './stockApiService';
+import { getNextPollDelay } from './marketCalendarService';
+
+export type StreamTransport = 'websocket' | 'sse' | 'polling' | 'idle';
+
+export interface PriceTick {
+  symbol: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  volume?: number;
+  timestamp: number;
+  source: DataSourceInfo;
+}
+
+export interface PriceStreamSettings {
+  enabled: boolean;
+  url: string;
+}
+
+export interface PriceStreamStatus {
+  transport: StreamTransport;
+  connected: boolean;          // Stream (bukan polling) sedang tersambung
+  symbols: string[];
+  lastTickAt: number | null;
+  reconnectAttempts: number;
+  unavailable: boolean;        // Endpoint bukan stream; polling sampai pengaturan diubah
+}
+
+type TickListener = (tick: PriceTick) => void;
+
+export const DEFAULT_STREAM_URL = '/api/price-stream';
+
+const STREAM_SETTINGS_KEY = 'rizbot_price_stream';
+const POLL_BATCH_SIZE = 5;
+const RECONNECT_BASE_DELAY_MS = 2000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+const RESUBSCRIBE_DEBOUNCE_MS = 300;
+
+// @ts-ignore - Vite injects these at build time
+const BUILD_STREAM_URL: string = (typeof import.meta !== 'undefined' && import.meta.env?.VITE_PRICE_STREAM_URL) || '';
+// @ts-ignore
+const IS_DEV_SERVER: boolean = typeof import.meta !== 'undefined' && !!import.meta.env?.DEV;
+
+const DEFAULT_STREAM_SETTINGS: PriceStreamSettings = {
+  enabled: IS_DEV_SERVER || !!BUILD_STREAM_URL,
+  url: BUILD_STREAM_URL || DEFAULT_STREAM_URL,
+};
+
+const listeners = new Map<string, Set<TickListener>>();
+const lastTicks = new Map<string, PriceTick>();
+const statusListeners = new Set<(status: PriceStreamStatus) => void>();
+
+let transport: StreamTransport = 'idle';
+let socket: WebSocket | null = null;
+let eventSource: EventSource | null = null;
+let pollTimer: ReturnType<typeof setTimeout> | undefined;
+let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+let resubscribeTimer: ReturnType<typeof setTimeout> | undefined;
+let reconnectAttempts = 0;
+let lastTickAt: number | null = null;
+let unavailableUrl: string | null = null;
+
+/**
+ * Load stream settings
+ */
+export const loadStreamSettings = (): PriceStreamSettings => {
+  try {
+    const stored = localStorage.getItem(STREAM_SETTINGS_KEY);
+    if (stored) return { ...DEFAULT_STREAM_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.error('Failed to load price stream settings:', e);
+  }
+  return DEFAULT_STREAM_SETTINGS;
+};
+
+/**
+ * Save stream settings and reconnect with them
+ */
+export const saveStreamSettings = (settings: PriceStreamSettings) => {
+  localStorage.setItem(STREAM_SETTINGS_KEY, JSON.stringify(settings));
+  reconnectAttempts = 0;
+  unavailableUrl = null;
+  connect();
+};
+
+export const getStreamStatus = (): PriceStreamStatus => ({
+  transport,
+  connected: transport === 'websocket' || transport === 'sse',
+  symbols: [...listeners.keys()],
+  lastTickAt,
+  reconnectAttempts,
+  unavailable: unavailableUrl !== null,
+});
+
+/**
+ * Listen for transport/connection changes
+ * @returns Unsubscribe function
+ */
+export const subscribeToStreamStatus = (listener: (status: PriceStreamStatus) => void): (() => void) => {
+  statusListeners.add(listener);
+  listener(getStreamStatus());
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+const notifyStatus = () => {
+  const status = getStreamStatus();
+  statusListeners.forEach(listener => listener(status));
+};
+
+const setTransport = (next: StreamTransport) => {
+  if (transport === next) return;
+  transport = next;
+  notifyStatus();
+};
+
+const emitTick = (tick: PriceTick) => {
+  lastTicks.set(tick.symbol, tick);
+  lastTickAt = tick.timestamp;
+  listeners.get(tick.symbol)?.forEach(listener => listener(tick));
+};
+
+// Satu tick mentah dari stream; field selain symbol & price boleh tidak ada
+interface StreamTickMessage {
+  symbol: string;
+  price: number | string;
+  change?: unknown;
+  changePercent?: unknown;
+  volume?: unknown;
+  timestamp?: unknown;
+  simulated?: unknown;
+  source?: unknown;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStreamTickMessage = (value: unknown): value is StreamTickMessage =>
+  isRecord(value) &&
+  typeof value.symbol === 'string' &&
+  (typeof value.price === 'number' || typeof value.price === 'string');
+
+// Unwrap the supported envelopes: array, { ticks: [...] } or a single tick
+const toMessageItems = (parsed: unknown): unknown[] => {
+  if (Array.isArray(parsed)) return parsed;
+  if (isRecord(parsed) && Array.isArray(parsed.ticks)) return parsed.ticks;
+  return [parsed];
+};
+
+// Parse a stream message into ticks for subscribed symbols
+const handleStreamMessage = (raw: string) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return;
+  }
+
+  toMessageItems(parsed).filter(isStreamTickMessage).forEach(item => {
+    const symbol = item.symbol.toUpperCase();
+    const price = Number(item.price);
+    if (!listeners.has(symbol) || !Number.isFinite(price) || price <= 0) return;
+
+    const timestamp = Number(item.timestamp) || Date.now();
+    emitTick({
+      symbol,
+      price,
+      change: Number(item.change) || 0,
+      changePercent: Number(item.changePercent) || 0,
+      volume: item.volume !== undefined ? Number(item.volume) : undefined,
+      timestamp,
+      source: {
+        provider: 'stream',
+        providerName: typeof item.source === 'string' && item.source ? item.source : 'Price Stream',
+        simulated: !!item.simulated,
+        stale: false,
+        fetchedAt: timestamp,
+      },
+    });
+  });
+};
+
+// ============ Polling Fallback ============
+
+const pollSymbols = async (symbols: string[], fresh: boolean) => {
+  for (let i = 0; i < symbols.length; i += POLL_BATCH_SIZE) {
+    await Promise.all(symbols.slice(i, i + POLL_BATCH_SIZE).map(async symbol => {
+      try {
+        const quote = fresh ? await fetchLatestStockPrice(symbol) : await fetchStockPrice(symbol);
+        if (!listeners.has(symbol)) return;
+        emitTick({
+          symbol,
+          price: quote.price,
+          change: quote.change,
+          changePercent: quote.changePercent,
+          volume: quote.volume,
+          timestamp: quote.source.fetchedAt, // Waktu quote diambil dari provider, bukan waktu poll
+          source: quote.source,
+        });
+      } catch (error) {
+        console.error(`Price poll failed for ${symbol}:`, error);
+      }
+    }));
+  }
+};
+
+const stopPolling = () => {
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = undefined;
+  }
+};
+
+const startPolling = () => {
+  setTransport('polling');
+  if (pollTimer) return;
+
+  const poll = async () => {
+    await pollSymbols([...listeners.keys()], true);
+    // Stream bisa tersambung lagi selama polling berjalan
+    pollTimer = transport === 'polling' && listeners.size > 0
+      ? setTimeout(poll, getNextPollDelay())
+      : undefined;
+  };
+  pollTimer = setTimeout(poll, getNextPollDelay());
+};
+
+// ============ Streaming Connection ============
+
+const closeConnection = () => {
+  if (socket) {
+    socket.onclose = null;
+    socket.close();
+    socket = null;
+  }
+  if (eventSource) {
+    eventSource.close();
+    eventSource = null;
+  }
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = undefined;
+  }
+};
+
+// Stream unavailable: keep prices flowing via polling and retry later
+// Polling yang sudah berjalan tidak dijadwal ulang, jadi tetap jalan walau interval poll > backoff.
+const handleStreamFailure = () => {
+  closeConnection();
+  startPolling();
+  const delay = Math.min(MAX_RECONNECT_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts);
+  reconnectAttempts++;
+  notifyStatus();
+  reconnectTimer = setTimeout(connect, delay);
+};
+
+// Endpoint is not a stream: poll only, no more reconnect attempts
+const markStreamUnavailable = (url: string) => {
+  console.warn(`Price stream ${url} is not an event stream, using polling only`);
+  closeConnection();
+  unavailableUrl = url;
+  startPolling();
+  notifyStatus();
+};
+
+/**
+ * Whether a failed SSE endpoint is worth retrying
+ * Respons 200 dengan Content-Type selain text/event-stream atau 4xx tidak akan pulih sendiri;
+ * error jaringan dan 5xx dianggap sementara.
+ */
+const isRetryableStreamEndpoint = async (url: string): Promise<boolean> => {
+  const controller = new AbortController();
+  try {
+    const response = await fetch(url, { signal: controller.signal, headers: { Accept: 'text/event-stream' } });
+    if (!response.ok) return response.status >= 500;
+    return (response.headers.get('content-type') || '').includes('text/event-stream');
+  } catch {
+    return true;
+  } finally {
+    controller.abort();
+  }
+};
+
+const handleStreamOpen = (next: StreamTransport) => {
+  reconnectAttempts = 0;
+  stopPolling();
+  setTransport(next);
+};
+
+const sendSubscription = () => {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify({ type: 'subscribe', symbols: [...listeners.keys()] }));
+  }
+};
+
+const openWebSocket = (url: string) => {
+  socket = new WebSocket(url);
+  socket.onopen = () => {
+    handleStreamOpen('websocket');
+    sendSubscription();
+  };
+  socket.onmessage = event => handleStreamMessage(String(event.data));
+  socket.onclose = handleStreamFailure;
+};
+
+const openEventSource = (url: string) => {
+  const separator = url.includes('?') ? '&' : '?';
+  const symbols = [...listeners.keys()].map(encodeURIComponent).join(',');
+  const streamUrl = `${url}${separator}symbols=${symbols}`;
+  const source = new EventSource(streamUrl);
+  eventSource = source;
+  source.onopen = () => handleStreamOpen('sse');
+  source.onmessage = event => handleStreamMessage(event.data);
+  source.addEventListener('tick', event => handleStreamMessage((event as MessageEvent).data));
+  // EventSource reconnect sendiri tanpa fallback; tangani di sini agar polling tetap jalan.
+  // CLOSED berarti browser menyerah (status bukan 200 atau Content-Type salah): cek apakah layak dicoba lagi.
+  source.onerror = async () => {
+    if (source.readyState !== EventSource.CLOSED) {
+      handleStreamFailure();
+      return;
+    }
+    source.onerror = null;
+    const retryable = await isRetryableStreamEndpoint(streamUrl);
+    if (eventSource !== source) return;
+    if (retryable) handleStreamFailure();
+    else markStreamUnavailable(url);
+  };
+};
+
+const connect = () => {
+  closeConnection();
+
+  if (listeners.size === 0) {
+    stopPolling();
+    setTransport('idle');
+    return;
+  }
+
+  // Polling tidak dihentikan di sini; baru berhenti saat stream benar-benar terbuka
+  const { enabled, url } = loadStreamSettings();
+  const wantsWebSocket = /^wss?:\/\//i.test(url);
+  const supported = wantsWebSocket ? typeof WebSocket !== 'undefined' : typeof EventSource !== 'undefined';
+  if (!enabled || !url || !supported || url === unavailableUrl) {
+    startPolling();
+    return;
+  }
+
+  try {
+    if (wantsWebSocket) openWebSocket(url);
+    else openEventSource(url);
+  } catch (error) {
+    console.warn('Price stream connection failed:', error);
+    handleStreamFailure();
+  }
+};
+
+// Symbol set changed: WebSocket re-sends the list, SSE reconnects with the new query
+const handleSymbolsChanged = () => {
+  notifyStatus();
+  if (resubscribeTimer) clearTimeout(resubscribeTimer);
+  resubscribeTimer = setTimeout(() => {
+    resubscribeTimer = undefined;
+    if (transport === 'websocket' && listeners.size > 0) sendSubscription();
+    else if (transport === 'polling' && listeners.size > 0 && pollTimer) return;
+    else connect();
+  }, RESUBSCRIBE_DEBOUNCE_MS);
+};
+
+/**
+ * Subscribe to live ticks of a symbol
+ * Subscriber baru langsung menerima tick terakhir (atau quote awal) tanpa menunggu stream.
+ * @returns Unsubscribe function
+ */
+export const subscribePriceTicks = (symbol: string, listener: TickListener): (() => void) => {
+  const key = symbol.toUpperCase();
+  const existing = listeners.get(key);
+  const isNewSymbol = !existing;
+  if (existing) existing.add(listener);
+  else listeners.set(key, new Set([listener]));
+
+  const lastTick = lastTicks.get(key);
+  if (lastTick) {
+    setTimeout(() => listeners.get(key)?.has(listener) && listener(lastTick), 0);
+  }
+  if (isNewSymbol) {
+    if (!lastTick) pollSymbols([key], false);
+    handleSymbolsChanged();
+  }
+
+  return () => {
+    const set = listeners.get(key);
+    if (!set) return;
+    set.delete(listener);
+    if (set.size === 0) {
+      listeners.delete(key);
+      handleSymbolsChanged();
+    }
+  };
+};
+
+/**
+ * Get real-time price updates for a symbol (lewat hub, satu koneksi untuk semua simbol)
+ */
+export const subscribeToPrice = (
+  symbol: string,
+  callback: (data: { price: number; change: number; changePercent: number; source: DataSourceInfo; timestamp: number }) => void
+): (() => void) =>
+  subscribePriceTicks(symbol, tick => callback({
+    price: tick.price,
+    change: tick.change,
+    changePercent: tick.changePercent,
+    source: tick.source,
+    timestamp: tick.timestamp,
+  }));
+
+export const getLastTick = (symbol: string): PriceTick | null => lastTicks.get(symbol.toUpperCase()) || null;
+
+export default {
+  DEFAULT_STREAM_URL,
+  loadStreamSettings,
+  saveStreamSettings,
+  getStreamStatus,
+  subscribeToStreamStatus,
+  subscribePriceTicks,
+  subscribeToPrice,
+  getLastTick,
+};
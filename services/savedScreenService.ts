@@ -0,0 +1,258 @@
+/**
+ * Saved Screen Service
+ * Named custom screens (ekspresi screener) per user, with scheduled runs
+ *
+ * - Screen disimpan di localStorage per user yang login (tamu memakai slot 'guest')
+ * - Jadwal: tiap 15 menit / tiap jam selama jam bursa, atau sekali setelah penutupan
+ * - Setiap run mencatat simbol yang lolos; simbol yang baru masuk dibanding run sebelumnya
+ *   dikirim sebagai notifikasi (run pertama hanya menjadi baseline)
+ */
+
+import { ScreenerStock } from '../types';
+import { getSession } from './authService';
+import { getMarketStatus, getPreviousCloseAt } from './marketCalendarService';
+import { refreshScreener, filterScreenerRows, ScreenerProgress } from './screenerService';
+import { playAlertSound, registerAlertServiceWorker, showBrowserNotification } from './priceAlertService';
+import { parseScreenerExpression } from '../utils/screenerExpression';
+
+export type ScreenSchedule = 'off' | '15m' | '1h' | 'close';
+
+export interface SavedScreen {
+  id: string;
+  name: string;
+  expression: string;
+  schedule: ScreenSchedule;
+  notify: boolean;             // Notifikasi saat ada simbol baru yang lolos
+  createdAt: number;
+  updatedAt: number;
+  lastRunAt?: number;
+  lastMatches?: string[];
+}
+
+export type SavedScreenInput = Pick<SavedScreen, 'name' | 'expression' | 'schedule' | 'notify'> & { id?: string };
+
+export interface ScreenRunResult {
+  screen: SavedScreen;
+  matches: ScreenerStock[];
+  newSymbols: string[];
+}
+
+export interface ScreenSchedulerOptions {
+  intervalMs?: number;
+  onNewMatches?: (result: ScreenRunResult) => void;
+}
+
+export const SCREEN_SCHEDULE_LABELS: Record<ScreenSchedule, string> = {
+  off: 'Manual',
+  '15m': 'Tiap 15 menit (jam bursa)',
+  '1h': 'Tiap jam (jam bursa)',
+  close: 'Setelah penutupan',
+};
+
+const STORAGE_KEY = 'rizbot_saved_screens';
+const GUEST_OWNER = 'guest';
+const DEFAULT_INTERVAL_MS = 60000;
+const MAX_SCREENS = 20;
+
+const SCHEDULE_INTERVAL_MS: Partial<Record<ScreenSchedule, number>> = {
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+};
+
+const getOwnerId = (): string => getSession()?.id || GUEST_OWNER;
+
+const loadAllScreens = (): Record<string, SavedScreen[]> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (e) {
+    console.error('Failed to load saved screens:', e);
+  }
+  return {};
+};
+
+const saveOwnerScreens = (screens: SavedScreen[]) => {
+  try {
+    const all = loadAllScreens();
+    all[getOwnerId()] = screens;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (e) {
+    console.error('Failed to save screens:', e);
+  }
+};
+
+// Load the saved screens of the current user
+export const loadSavedScreens = (): SavedScreen[] => loadAllScreens()[getOwnerId()] || [];
+
+/**
+ * Create or update a saved screen
+ * @throws Error kalau nama kosong, ekspresi tidak valid atau jumlah screen sudah maksimal
+ */
+export const saveScreen = (input: SavedScreenInput): SavedScreen => {
+  const name = input.name.trim();
+  if (!name) throw new Error('Nama screen wajib diisi');
+
+  const parsed = parseScreenerExpression(input.expression);
+  if (parsed.errors.length > 0) throw new Error(`Ekspresi tidak valid: ${parsed.errors[0].message}`);
+
+  const screens = loadSavedScreens();
+  const existing = input.id ? screens.find(s => s.id === input.id) : undefined;
+  if (!existing && screens.length >= MAX_SCREENS) throw new Error(`Maksimal ${MAX_SCREENS} screen tersimpan`);
+
+  const now = Date.now();
+  const expression = input.expression.trim();
+  const screen: SavedScreen = existing
+    ? {
+        ...existing,
+        name,
+        expression,
+        schedule: input.schedule,
+        notify: input.notify,
+        updatedAt: now,
+        // Ekspresi berubah: hasil lama bukan baseline yang valid lagi
+        ...(existing.expression !== expression ? { lastRunAt: undefined, lastMatches: undefined } : {}),
+      }
+    : {
+        id: `screen_${now}_${Math.random().toString(36).substr(2, 9)}`,
+        name,
+        expression,
+        schedule: input.schedule,
+        notify: input.notify,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+  saveOwnerScreens(existing ? screens.map(s => s.id === screen.id ? screen : s) : [...screens, screen]);
+  return screen;
+};
+
+// Delete a saved screen
+export const deleteSavedScreen = (screenId: string) => {
+  saveOwnerScreens(loadSavedScreens().filter(s => s.id !== screenId));
+};
+
+// Remove every saved screen of a user (hapus akun)
+export const clearSavedScreens = (ownerId: string = getOwnerId()) => {
+  try {
+    const all = loadAllScreens();
+    delete all[ownerId];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (e) {
+    console.error('Failed to clear saved screens:', e);
+  }
+};
+
+/**
+ * Whether a scheduled screen should run now
+ */
+export const isScreenDue = (screen: SavedScreen, now: Date = new Date()): boolean => {
+  if (screen.schedule === 'off') return false;
+  const status = getMarketStatus(now);
+  const lastRunAt = screen.lastRunAt || 0;
+
+  if (screen.schedule === 'close') {
+    return !status.isOpen && status.phase !== 'post_closing' && lastRunAt < getPreviousCloseAt(now);
+  }
+  if (!status.isOpen && status.phase !== 'post_closing') return false;
+  return now.getTime() - lastRunAt >= SCHEDULE_INTERVAL_MS[screen.schedule]!;
+};
+
+/**
+ * Run a saved screen over the (incrementally refreshed) screener universe
+ * Hasil disimpan sebagai baseline run berikutnya.
+ */
+export const runSavedScreen = async (
+  screen: SavedScreen,
+  options: { signal?: AbortSignal; onProgress?: (progress: ScreenerProgress) => void } = {}
+): Promise<ScreenRunResult> => {
+  const parsed = parseScreenerExpression(screen.expression);
+  if (!parsed.ast) throw new Error(`Ekspresi tidak valid: ${parsed.errors[0]?.message}`);
+
+  const { rows } = await refreshScreener({ signal: options.signal, onProgress: options.onProgress });
+  const matches = await filterScreenerRows(parsed, rows, options);
+  if (options.signal?.aborted) throw new Error('Screen dibatalkan');
+
+  const symbols = matches.map(row => row.symbol);
+  const previous = new Set(screen.lastMatches || []);
+  const newSymbols = screen.lastRunAt ? symbols.filter(symbol => !previous.has(symbol)) : [];
+
+  // Simpan ulang dari storage: screen bisa diubah/dihapus selama run berjalan
+  const latest = loadSavedScreens();
+  const stored = latest.find(s => s.id === screen.id);
+  const updated: SavedScreen = { ...(stored || screen), lastRunAt: Date.now(), lastMatches: symbols };
+  if (stored && stored.expression === screen.expression) {
+    saveOwnerScreens(latest.map(s => s.id === screen.id ? updated : s));
+  }
+
+  return { screen: updated, matches, newSymbols };
+};
+
+// Sound + browser notification for symbols that newly entered a screen
+const notifyNewMatches = (result: ScreenRunResult) => {
+  const { screen, newSymbols } = result;
+  const preview = newSymbols.slice(0, 5).join(', ') + (newSymbols.length > 5 ? `, +${newSymbols.length - 5}` : '');
+  playAlertSound();
+  showBrowserNotification(
+    `📊 Screen: ${screen.name}`,
+    `${newSymbols.length} saham baru lolos screen: ${preview}`,
+    screen.id,
+    newSymbols[0]
+  );
+};
+
+/**
+ * Run due scheduled screens in the background
+ * Screen dijalankan berurutan; pengecekan berikutnya dilewati selama masih ada run berjalan.
+ * @returns Stop function
+ */
+export const startScreenScheduler = (options: ScreenSchedulerOptions = {}): (() => void) => {
+  const { intervalMs = DEFAULT_INTERVAL_MS, onNewMatches } = options;
+  const controller = new AbortController();
+  let isRunning = false;
+
+  const runDueScreens = async () => {
+    if (isRunning) return;
+    const due = loadSavedScreens().filter(screen => isScreenDue(screen));
+    if (due.length === 0) return;
+
+    isRunning = true;
+    try {
+      for (const screen of due) {
+        if (controller.signal.aborted) break;
+        try {
+          const result = await runSavedScreen(screen, { signal: controller.signal });
+          if (result.newSymbols.length > 0 && screen.notify) {
+            notifyNewMatches(result);
+            onNewMatches?.(result);
+          }
+        } catch (error) {
+          if (!controller.signal.aborted) console.error(`Scheduled screen "${screen.name}" failed:`, error);
+        }
+      }
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  registerAlertServiceWorker();
+  runDueScreens();
+  const timer = setInterval(runDueScreens, intervalMs);
+
+  return () => {
+    controller.abort();
+    clearInterval(timer);
+  };
+};
+
+export default {
+  SCREEN_SCHEDULE_LABELS,
+  loadSavedScreens,
+  saveScreen,
+  deleteSavedScreen,
+  clearSavedScreens,
+  isScreenDue,
+  runSavedScreen,
+  startScreenScheduler,
+};
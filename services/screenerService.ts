@@ -0,0 +1,429 @@
+/**
+ * Screener Service
+ * Live-data stock screener over the full IDX listed-company universe
+ *
+ * - Universe & fundamental per saham dari data file (public/data/idx-universe.json) yang bisa
+ *   diperbarui tanpa rilis aplikasi (scripts/update-idx-universe.mjs); salinan terakhir disimpan
+ *   di cache offline
+ * - Emiten tanpa fundamental tetap masuk screener (teknikal saja) dan ditandai lewat fundamentalsAsOf
+ * - Teknikal (RSI14, MA20/50/200, range 52 minggu, volume) dihitung dari histori harian yang
+ *   tersinkron di IndexedDB, jadi refresh berikutnya hanya mengambil candle terbaru; kapasitas seri
+ *   sebesar universe dipesan di luar batas LRU cache offline
+ * - Refresh inkremental: hanya baris yang belum mencerminkan sesi terakhir yang dihitung ulang
+ * - Histori simulasi tidak dipakai; emiten tanpa data pasar asli dilaporkan sebagai gagal
+ * - Screen kustom (utils/screenerExpression) dievaluasi di atas baris ini; histori harian hanya
+ *   dimuat kalau ekspresinya memakai indikator/fungsi seri
+ * - Hasil screen bisa diekspor ke CSV atau Excel (tabel HTML .xls, terbaca langsung oleh Excel)
+ */
+
+import { ScreenerStock, StockData, DataSourceInfo } from '../types';
+import { fetchHistoryWithSource } from './stockApiService';
+import { getCachedEntry, putCachedEntry, reserveSeriesCapacity } from './offlineCacheService';
+import { getMarketStatus, getPreviousCloseAt } from './marketCalendarService';
+import { calculateRSI, calculateSMA, lastValue } from '../utils/indicators';
+import { ParsedExpression, evaluateScreenerExpression } from '../utils/screenerExpression';
+
+export interface UniverseCompany {
+  symbol: string;
+  name: string;
+  sector: string;
+  sharesOutstanding?: number;
+  eps?: number;                  // Laba per saham (TTM)
+  bookValuePerShare?: number;
+  dividendPerShare?: number;     // Dividen per saham 12 bulan terakhir
+  fundamentalsAsOf?: string;     // YYYY-MM-DD
+}
+
+export interface UniverseFile {
+  version: number;
+  updatedAt: string;
+  source: string;
+  companies: UniverseCompany[];
+}
+
+export interface ScreenerProgress {
+  total: number;
+  done: number;
+  failed: number;
+  current: string | null;
+}
+
+export interface ScreenerRefreshOptions {
+  force?: boolean;               // Hitung ulang semua baris, bukan hanya yang usang
+  onProgress?: (progress: ScreenerProgress) => void;
+  onRows?: (rows: ScreenerStock[]) => void;   // Hasil parsial selama refresh
+  signal?: AbortSignal;
+}
+
+export interface ScreenerRefreshResult {
+  rows: ScreenerStock[];
+  failed: string[];
+  universe: UniverseFile;
+}
+
+export interface ScreenerFilterOptions {
+  onProgress?: (progress: ScreenerProgress) => void;
+  signal?: AbortSignal;
+}
+
+export const UNIVERSE_URL = '/data/idx-universe.json';
+
+/** Perkiraan jumlah emiten tercatat di BEI; data file di bawah angka ini dianggap belum lengkap */
+export const IDX_LISTED_COMPANIES_APPROX = 950;
+
+const UNIVERSE_CACHE_KEY = 'screener_universe';
+const ROWS_CACHE_KEY = 'screener_rows';
+const UNIVERSE_TTL_MS = 24 * 60 * 60 * 1000;
+const LIVE_ROW_TTL_MS = 15 * 60 * 1000;
+const HISTORY_DAYS = 365;
+const REFRESH_CONCURRENCY = 4;
+const PERSIST_EVERY = 20;
+
+let universeCache: { data: UniverseFile; timestamp: number } | null = null;
+let rowsCache: Map<string, ScreenerStock> | null = null;
+
+/**
+ * Load the listed-company universe (memory -> cache offline -> data file)
+ * @param forceRefresh - Unduh ulang data file, lewati cache
+ */
+export const loadUniverse = async (forceRefresh: boolean = false): Promise<UniverseFile> => {
+  if (!forceRefresh && universeCache && Date.now() - universeCache.timestamp < UNIVERSE_TTL_MS) {
+    return universeCache.data;
+  }
+
+  const stored = await getCachedEntry<UniverseFile>(UNIVERSE_CACHE_KEY);
+  if (!forceRefresh && stored && Date.now() - stored.timestamp < UNIVERSE_TTL_MS) {
+    universeCache = { data: stored.data, timestamp: stored.timestamp };
+    return stored.data;
+  }
+
+  try {
+    const response = await fetch(UNIVERSE_URL, { cache: forceRefresh ? 'no-store' : 'default' });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data: UniverseFile = await response.json();
+    if (!Array.isArray(data?.companies)) throw new Error('Invalid universe file');
+
+    universeCache = { data, timestamp: Date.now() };
+    putCachedEntry(UNIVERSE_CACHE_KEY, data);
+    return data;
+  } catch (error) {
+    // Offline: salinan lama lebih baik daripada tidak ada universe
+    if (stored) {
+      console.warn('Universe refresh failed, using cached copy:', (error as Error).message);
+      universeCache = { data: stored.data, timestamp: Date.now() };
+      return stored.data;
+    }
+    throw error;
+  }
+};
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Compute a screener row from daily history (teknikal) and company data (fundamental)
+ */
+export const computeScreenerRow = (
+  company: UniverseCompany,
+  history: StockData[],
+  source: DataSourceInfo
+): ScreenerStock | null => {
+  const bars = history.filter(bar => bar.close > 0);
+  if (bars.length < 2) return null;
+
+  const last = bars[bars.length - 1];
+  const previous = bars[bars.length - 2];
+  const yearAgo = Date.now() - 365 * 24 * 60 * 60 * 1000;
+  const yearBars = bars.filter(bar => bar.timestamp === undefined || bar.timestamp >= yearAgo);
+  const recentVolumes = bars.slice(-20).map(bar => bar.volume);
+  const rsi = lastValue(calculateRSI(bars, 14));
+  const change = last.close - previous.close;
+
+  return withFundamentals({
+    symbol: company.symbol,
+    name: company.name,
+    sector: company.sector,
+    price: last.close,
+    change,
+    changePercent: previous.close > 0 ? round2((change / previous.close) * 100) : 0,
+    volume: last.volume,
+    avgVolume20: Math.round(recentVolumes.reduce((sum, v) => sum + v, 0) / recentVolumes.length),
+    marketCap: null,
+    peRatio: null,
+    pbRatio: null,
+    eps: null,
+    dividend: null,
+    rsi: rsi !== null ? Math.round(rsi) : null,
+    ma20: lastValue(calculateSMA(bars, 20)),
+    ma50: lastValue(calculateSMA(bars, 50)),
+    ma200: lastValue(calculateSMA(bars, 200)),
+    high52w: Math.max(...yearBars.map(bar => bar.high)),
+    low52w: Math.min(...yearBars.map(bar => bar.low)),
+    computedAt: Date.now(),
+    lastBarAt: last.timestamp ?? null,
+    fundamentalsAsOf: null,
+    dataSource: source,
+  }, company);
+};
+
+/**
+ * Recompute the fundamental ratios of a row at its price (data emiten bisa berubah tanpa histori baru)
+ */
+export const withFundamentals = (row: ScreenerStock, company: UniverseCompany): ScreenerStock => {
+  const { eps, bookValuePerShare, dividendPerShare, sharesOutstanding } = company;
+  return {
+    ...row,
+    name: company.name,
+    sector: company.sector,
+    marketCap: sharesOutstanding ? sharesOutstanding * row.price : null,
+    eps: eps ?? null,
+    peRatio: eps && eps > 0 ? round2(row.price / eps) : null,
+    pbRatio: bookValuePerShare && bookValuePerShare > 0 ? round2(row.price / bookValuePerShare) : null,
+    dividend: dividendPerShare !== undefined && row.price > 0 ? round2((dividendPerShare / row.price) * 100) : null,
+    fundamentalsAsOf: company.fundamentalsAsOf ?? null,
+  };
+};
+
+/**
+ * Number of universe companies that carry per-share fundamentals
+ */
+export const countWithFundamentals = (universe: UniverseFile): number =>
+  universe.companies.filter(company => !!company.fundamentalsAsOf).length;
+
+/**
+ * Whether the data file covers only part of the IDX listings (emiten atau fundamental)
+ * Screener, filter fundamental dan median sektor valuasi hanya mencakup emiten yang ada di data file.
+ */
+export const isUniversePartial = (universe: UniverseFile): boolean =>
+  universe.companies.length < IDX_LISTED_COMPANIES_APPROX * 0.95
+  || countWithFundamentals(universe) < universe.companies.length;
+
+/**
+ * Whether a row already reflects the latest market data
+ * Saat sesi berjalan baris berlaku 15 menit; di luar sesi baris berlaku kalau dihitung setelah penutupan terakhir.
+ */
+export const isRowFresh = (row: ScreenerStock, now: Date = new Date()): boolean => {
+  if (row.dataSource.stale) return false;
+  const status = getMarketStatus(now);
+  if (status.isOpen || status.phase === 'post_closing') {
+    return now.getTime() - row.computedAt < LIVE_ROW_TTL_MS;
+  }
+  return row.computedAt >= getPreviousCloseAt(now);
+};
+
+const getRowsCache = async (): Promise<Map<string, ScreenerStock>> => {
+  if (!rowsCache) {
+    const stored = await getCachedEntry<ScreenerStock[]>(ROWS_CACHE_KEY);
+    rowsCache = new Map((stored?.data || []).map(row => [row.symbol, row]));
+  }
+  return rowsCache;
+};
+
+const persistRows = (rows: Map<string, ScreenerStock>) => putCachedEntry(ROWS_CACHE_KEY, [...rows.values()]);
+
+/**
+ * Last computed screener rows (tanpa fetch), untuk tampilan awal sebelum refresh
+ */
+export const loadScreenerRows = async (): Promise<ScreenerStock[]> => [...(await getRowsCache()).values()];
+
+/**
+ * Refresh the screener over the whole universe
+ * Baris yang masih fresh dipakai ulang; sisanya dihitung ulang paralel terbatas dengan laporan progress.
+ */
+export const refreshScreener = async (options: ScreenerRefreshOptions = {}): Promise<ScreenerRefreshResult> => {
+  const { force = false, onProgress, onRows, signal } = options;
+  const universe = await loadUniverse();
+  const rows = await getRowsCache();
+  // Satu seri harian per emiten; dipesan di luar maxSeries supaya seri chart tidak tergusur
+  reserveSeriesCapacity('screener', universe.companies.length);
+  const companies = new Map(universe.companies.map(company => [company.symbol, company]));
+
+  // Emiten yang sudah keluar dari universe (delisting) dibuang
+  [...rows.keys()].forEach(symbol => {
+    if (!companies.has(symbol)) rows.delete(symbol);
+  });
+  rows.forEach((row, symbol) => rows.set(symbol, withFundamentals(row, companies.get(symbol)!)));
+
+  const targets = universe.companies.filter(company => {
+    const row = rows.get(company.symbol);
+    return force || !row || !isRowFresh(row);
+  });
+  const failed: string[] = [];
+  const progress: ScreenerProgress = { total: targets.length, done: 0, failed: 0, current: null };
+  const ordered = () => universe.companies.map(c => rows.get(c.symbol)).filter((r): r is ScreenerStock => !!r);
+
+  onProgress?.({ ...progress });
+  onRows?.(ordered());
+
+  let nextIndex = 0;
+  let sincePersist = 0;
+  const worker = async () => {
+    while (nextIndex < targets.length && !signal?.aborted) {
+      const company = targets[nextIndex++];
+      progress.current = company.symbol;
+      try {
+        const history = await fetchHistoryWithSource(company.symbol, HISTORY_DAYS);
+        const row = history.source.simulated ? null : computeScreenerRow(company, history.data, history.source);
+        if (!row) throw new Error('Tidak ada histori pasar');
+        rows.set(company.symbol, row);
+      } catch (error) {
+        failed.push(company.symbol);
+        progress.failed++;
+      }
+      progress.done++;
+      onProgress?.({ ...progress });
+
+      if (++sincePersist >= PERSIST_EVERY) {
+        sincePersist = 0;
+        persistRows(rows);
+        onRows?.(ordered());
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(REFRESH_CONCURRENCY, targets.length) }, worker));
+
+  progress.current = null;
+  onProgress?.({ ...progress });
+  await persistRows(rows);
+
+  const result = ordered();
+  onRows?.(result);
+  return { rows: result, failed, universe };
+};
+
+// Kolom ekspor hasil screener; nilai kosong (data belum tersedia) diekspor sebagai sel kosong
+const EXPORT_COLUMNS: { label: string; value: (row: ScreenerStock) => string | number | null }[] = [
+  { label: 'Kode', value: row => row.symbol },
+  { label: 'Nama', value: row => row.name },
+  { label: 'Sektor', value: row => row.sector },
+  { label: 'Harga', value: row => row.price },
+  { label: 'Perubahan %', value: row => row.changePercent },
+  { label: 'Volume', value: row => row.volume },
+  { label: 'Rata-rata Volume 20H', value: row => row.avgVolume20 },
+  { label: 'Market Cap', value: row => row.marketCap },
+  { label: 'PER', value: row => row.peRatio },
+  { label: 'PBV', value: row => row.pbRatio },
+  { label: 'EPS', value: row => row.eps },
+  { label: 'Dividend Yield %', value: row => row.dividend },
+  { label: 'RSI 14', value: row => row.rsi },
+  { label: 'MA20', value: row => row.ma20 !== null ? round2(row.ma20) : null },
+  { label: 'MA50', value: row => row.ma50 !== null ? round2(row.ma50) : null },
+  { label: 'MA200', value: row => row.ma200 !== null ? round2(row.ma200) : null },
+  { label: 'High 52W', value: row => row.high52w },
+  { label: 'Low 52W', value: row => row.low52w },
+  { label: 'Fundamental Per', value: row => row.fundamentalsAsOf },
+  { label: 'Sumber Data', value: row => row.dataSource.providerName },
+  { label: 'Dihitung', value: row => new Date(row.computedAt).toLocaleString('id-ID') },
+];
+
+const downloadFile = (content: string, type: string, filename: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const exportFilename = (extension: string) => `screener_rizbot_${new Date().toISOString().split('T')[0]}.${extension}`;
+
+/**
+ * Export screener rows to CSV
+ */
+export const exportScreenerCSV = (rows: ScreenerStock[]): void => {
+  const BOM = '\uFEFF'; // UTF-8 BOM for Excel
+  const escape = (value: string | number | null) => {
+    if (value === null) return '';
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  let csvContent = BOM;
+  csvContent += EXPORT_COLUMNS.map(column => column.label).join(',') + '\n';
+  rows.forEach(row => {
+    csvContent += EXPORT_COLUMNS.map(column => escape(column.value(row))).join(',') + '\n';
+  });
+
+  downloadFile(csvContent, 'text/csv;charset=utf-8;', exportFilename('csv'));
+};
+
+/**
+ * Export screener rows to Excel (tabel HTML dengan ekstensi .xls; angka tetap bertipe angka)
+ */
+export const exportScreenerExcel = (rows: ScreenerStock[]): void => {
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const cell = (value: string | number | null) => {
+    if (value === null) return '<td></td>';
+    return typeof value === 'number'
+      ? `<td x:num="${value}" style="mso-number-format:General">${value}</td>`
+      : `<td style="mso-number-format:'\\@'">${escape(value)}</td>`;
+  };
+
+  const header = `<tr>${EXPORT_COLUMNS.map(column => `<th>${escape(column.label)}</th>`).join('')}</tr>`;
+  const body = rows.map(row => `<tr>${EXPORT_COLUMNS.map(column => cell(column.value(row))).join('')}</tr>`).join('\n');
+  const html = `<html xmlns:x="urn:schemas-microsoft-com:office:excel"><head><meta charset="utf-8"></head>`
+    + `<body><table border="1">${header}\n${body}</table></body></html>`;
+
+  downloadFile(html, 'application/vnd.ms-excel;charset=utf-8;', exportFilename('xls'));
+};
+
+/**
+ * Filter screener rows with a parsed custom-screen expression
+ * Baris yang histori-nya gagal dimuat dianggap tidak cocok.
+ */
+export const filterScreenerRows = async (
+  expression: ParsedExpression,
+  rows: ScreenerStock[],
+  options: ScreenerFilterOptions = {}
+): Promise<ScreenerStock[]> => {
+  const { ast, needsHistory } = expression;
+  if (!ast) return [];
+  if (!needsHistory) return rows.filter(row => evaluateScreenerExpression(ast, row));
+
+  const { onProgress, signal } = options;
+  const matches = new Set<string>();
+  const progress: ScreenerProgress = { total: rows.length, done: 0, failed: 0, current: null };
+  onProgress?.({ ...progress });
+
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < rows.length && !signal?.aborted) {
+      const row = rows[nextIndex++];
+      progress.current = row.symbol;
+      try {
+        const history = await fetchHistoryWithSource(row.symbol, HISTORY_DAYS);
+        if (!history.source.simulated && evaluateScreenerExpression(ast, row, history.data)) {
+          matches.add(row.symbol);
+        }
+      } catch (error) {
+        progress.failed++;
+      }
+      progress.done++;
+      onProgress?.({ ...progress });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(REFRESH_CONCURRENCY, rows.length) }, worker));
+  progress.current = null;
+  onProgress?.({ ...progress });
+  return rows.filter(row => matches.has(row.symbol));
+};
+
+export default {
+  UNIVERSE_URL,
+  loadUniverse,
+  computeScreenerRow,
+  withFundamentals,
+  countWithFundamentals,
+  isUniversePartial,
+  isRowFresh,
+  loadScreenerRows,
+  refreshScreener,
+  filterScreenerRows,
+  exportScreenerCSV,
+  exportScreenerExcel,
+};
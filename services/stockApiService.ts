@@ -1,18 +1,56 @@
 /**
  * Stock API Service - Real-time IDX Stock Data
  * 
- * Menggunakan beberapa sumber data:
- * 1. Yahoo Finance (primary)
- * 2. Multiple CORS proxies for reliability
- * 3. Fallback ke mock data jika API gagal
+ * Data diambil lewat registry provider (lihat marketDataProviders):
+ * 1. Yahoo Finance (primary, via multiple CORS proxies)
+ * 2. Sectors API (alternatif untuk saham IDX)
+ * 3. Simulator (mock data & order book simulasi) jika semua provider gagal
+ *
+ * Setiap quote membawa info sumber data (provider, stale, simulasi) agar UI
+ * tidak pernah menampilkan harga mock seolah-olah harga pasar.
  */
 
-import { StockTicker, StockData } from '../types';
+import {
+  StockTicker,
+  StockData,
+  StockQuote,
+  SymbolInfo,
+  MarketDepth,
+  DepthLevel,
+  DataSourceInfo,
+  FinancialStatements,
+  FxRatePoint,
+} from '../types';
+import { simulateMarketDepth, SIMULATOR_PROVIDER_ID } from './marketDepthSimulator';
+import { getMarketStatus } from './marketCalendarService';
+import { getSeriesMeta, getCandles, putCandles, getCachedEntry, putCachedEntry } from './offlineCacheService';
+import {
+  MarketDataProvider,
+  MarketType,
+  HistoryInterval,
+  registerDataProvider,
+  runWithProviders,
+  toDataSource,
+} from './marketDataProviders';
+import { buildYahooFundamentalsUrl, buildYahooFxUrl, parseYahooFundamentals, parseYahooFxHistory } from '../utils/financials';
 
-// Cache untuk mengurangi API calls
+export interface SourcedQuote extends StockQuote {
+  source: DataSourceInfo;
+}
+
+export interface SourcedHistory {
+  data: StockData[];
+  source: DataSourceInfo;
+}
+
+// Cache untuk mengurangi API calls (di memori; candle & quote terakhir juga disimpan di IndexedDB)
 const cache: Map<string, { data: any; timestamp: number }> = new Map();
 const CACHE_DURATION = 30000; // 30 detik untuk data lebih fresh
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Candle pertama bisa jatuh beberapa hari setelah awal rentang (akhir pekan & libur)
+const HISTORY_START_SLACK_MS = 5 * DAY_MS;
+
 // Multiple CORS proxies for reliability
 const CORS_PROXIES = [
   'https://api.allorigins.win/raw?url=',
@@ -20,13 +58,6 @@ const CORS_PROXIES = [
   'https://api.codetabs.com/v1/proxy?quest=',
 ];
 
-let currentProxyIndex = 0;
-
-const getNextProxy = () => {
-  currentProxyIndex = (currentProxyIndex + 1) % CORS_PROXIES.length;
-  return CORS_PROXIES[currentProxyIndex];
-};
-
 // Updated fallback prices with more accurate current market values (Dec 2024)
 const FALLBACK_PRICES: Record<string, { price: number; change: number }> = {
   // US Stocks
@@ -159,19 +190,14 @@ const COMPANY_NAMES: Record<string, string> = {
   'SCMA': 'Surya Citra Media',
 };
 
+// Harga terakhir dari provider asli, dipakai (ditandai stale) saat semua provider gagal
+const lastKnownQuotes: Map<string, SourcedQuote> = new Map();
+
 /**
- * Fetch stock price from multiple sources with fallback
+ * Fetch stock price from the registered providers with fallback
+ * Urutan: provider asli -> harga terakhir yang diketahui (stale) -> simulator
  */
-export const fetchStockPrice = async (symbol: string, market: 'IDX' | 'US' | 'CRYPTO' = 'IDX'): Promise<{
-  price: number;
-  change: number;
-  changePercent: number;
-  high: number;
-  low: number;
-  open: number;
-  volume: number;
-  lastUpdate: string;
-}> => {
+export const fetchStockPrice = async (symbol: string, market: MarketType = 'IDX'): Promise<SourcedQuote> => {
   const cacheKey = `price_${symbol}_${market}`;
   const cached = cache.get(cacheKey);
   
@@ -180,28 +206,36 @@ export const fetchStockPrice = async (symbol: string, market: 'IDX' | 'US' | 'CR
   }
 
   try {
-    // Try Yahoo Finance via proxy (more reliable)
-    const data = await fetchFromYahoo(symbol, market);
-    cache.set(cacheKey, { data, timestamp: Date.now() });
-    return data;
+    const { data, provider } = await runWithProviders(
+      'quote', market, p => p.fetchQuote!(symbol, market), { filter: p => !p.simulated }
+    );
+    const quote: SourcedQuote = { ...data, source: toDataSource(provider) };
+    cache.set(cacheKey, { data: quote, timestamp: Date.now() });
+    lastKnownQuotes.set(cacheKey, quote);
+    putCachedEntry(cacheKey, quote);
+    return quote;
   } catch (error) {
-    console.warn(`Yahoo API failed for ${symbol}, trying alternative...`);
+    console.warn(`Price providers failed for ${symbol}:`, (error as Error).message);
   }
 
-  if (market === 'IDX') {
-    try {
-      // Try alternative: scraping IDX
-      const data = await fetchFromIDXAlternative(symbol);
-      cache.set(cacheKey, { data, timestamp: Date.now() });
-      return data;
-    } catch (error) {
-      console.warn(`Alternative API failed for ${symbol}, using fallback...`);
-    }
+  // Harga terakhir dari sesi ini, atau dari sesi sebelumnya (IndexedDB)
+  const lastKnown = lastKnownQuotes.get(cacheKey) || (await getCachedEntry<SourcedQuote>(cacheKey))?.data;
+  if (lastKnown) {
+    return { ...lastKnown, source: { ...lastKnown.source, stale: true } };
   }
 
-  // Fallback to mock data with slight randomization
+  const { data, provider } = await runWithProviders(
+    'quote', market, p => p.fetchQuote!(symbol, market), { filter: p => !!p.simulated }
+  );
+  return { ...data, source: toDataSource(provider) };
+};
+
+/**
+ * Mock quote around the fallback price (±1% variation)
+ */
+const generateSimulatedQuote = (symbol: string): StockQuote => {
   const fallback = FALLBACK_PRICES[symbol] || { price: 1000, change: 0 };
-  const randomVariation = (Math.random() - 0.5) * 0.02; // ±1% variation
+  const randomVariation = (Math.random() - 0.5) * 0.02;
   const price = Math.round(fallback.price * (1 + randomVariation));
   const changePercent = fallback.change + (Math.random() - 0.5) * 0.5;
   const change = Math.round(price * changePercent / 100);
@@ -222,7 +256,7 @@ export const fetchStockPrice = async (symbol: string, market: 'IDX' | 'US' | 'CR
  * Fetch from Yahoo Finance (most reliable)
  * Uses multiple CORS proxies for reliability
  */
-const fetchFromYahoo = async (symbol: string, market: 'IDX' | 'US' | 'CRYPTO', retries = 3): Promise<any> => {
+const fetchFromYahoo = async (symbol: string, market: MarketType, retries = 3): Promise<StockQuote> => {
   let yahooSymbol = symbol;
   if (market === 'IDX') {
     yahooSymbol = `${symbol}.JK`;
@@ -296,7 +330,6 @@ const fetchFromYahoo = async (symbol: string, market: 'IDX' | 'US' | 'CRYPTO', r
         open: Math.round(meta.regularMarketOpen || meta.open || previousClose),
         volume: meta.regularMarketVolume || 0,
         lastUpdate: new Date().toLocaleTimeString('id-ID'),
-        source: 'yahoo',
       };
     } catch (error) {
       lastError = error as Error;
@@ -313,7 +346,7 @@ const fetchFromYahoo = async (symbol: string, market: 'IDX' | 'US' | 'CRYPTO', r
 /**
  * Alternative IDX data source using Sectors API
  */
-const fetchFromIDXAlternative = async (symbol: string): Promise<any> => {
+const fetchFromIDXAlternative = async (symbol: string): Promise<StockQuote> => {
   // Try multiple proxies
   for (const proxy of CORS_PROXIES) {
     try {
@@ -349,7 +382,6 @@ const fetchFromIDXAlternative = async (symbol: string): Promise<any> => {
           open: Math.round(latest.open || price),
           volume: latest.volume || 0,
           lastUpdate: new Date().toLocaleTimeString('id-ID'),
-          source: 'sectors',
         };
       }
     } catch (error) {
@@ -367,18 +399,95 @@ const getDateString = (daysOffset: number): string => {
   return date.toISOString().split('T')[0];
 };
 
+export const getHistoryInterval = (days: number): HistoryInterval => days <= 7 ? '15m' : '1d';
+
+// How long synced candles are served from IndexedDB without asking a provider
+const getHistoryFreshness = (interval: HistoryInterval): number => {
+  if (!getMarketStatus().isOpen) return 30 * 60 * 1000;
+  return interval === '1d' ? CACHE_DURATION * 10 : 60 * 1000;
+};
+
 /**
- * Fetch historical data for chart
+ * Fetch historical data for chart together with its source
+ * Candle disimpan di IndexedDB: yang masih fresh langsung dipakai, kalau tidak hanya
+ * rentang yang kurang (ujung terbaru) yang di-fetch. Saat offline cache dipakai sebagai stale.
+ * @param interval - Bar interval; default 15m untuk <= 7 hari, selain itu harian
  */
-export const fetchHistoricalData = async (symbol: string, days: number = 100, market: 'IDX' | 'US' | 'CRYPTO' = 'IDX'): Promise<StockData[]> => {
-  const cacheKey = `history_${symbol}_${days}_${market}`;
+export const fetchHistoryWithSource = async (
+  symbol: string,
+  days: number = 100,
+  market: MarketType = 'IDX',
+  interval: HistoryInterval = getHistoryInterval(days)
+): Promise<SourcedHistory> => {
+  const cacheKey = `history_${symbol}_${days}_${interval}_${market}`;
   const cached = cache.get(cacheKey);
   
   if (cached && Date.now() - cached.timestamp < CACHE_DURATION * 10) {
     return cached.data;
   }
 
-  // Try each proxy
+  const seriesKey = { symbol, market, interval };
+  // Rentang intraday selalu ~5 hari bursa, sama seperti range '5d' Yahoo
+  const from = Date.now() - (interval !== '1d' ? Math.max(days, 7) : days) * DAY_MS;
+  const meta = await getSeriesMeta(seriesKey);
+  const coversRange = !!meta && meta.firstTimestamp <= from + HISTORY_START_SLACK_MS;
+  const storedSource = (stale: boolean): DataSourceInfo => ({
+    provider: meta!.provider,
+    providerName: meta!.providerName,
+    simulated: false,
+    stale,
+    fetchedAt: meta!.lastFetchedAt,
+  });
+
+  if (coversRange && Date.now() - meta!.lastFetchedAt < getHistoryFreshness(interval)) {
+    const data = await getCandles(seriesKey, from);
+    if (data.length > 0) {
+      const history: SourcedHistory = { data, source: storedSource(false) };
+      cache.set(cacheKey, { data: history, timestamp: Date.now() });
+      return history;
+    }
+  }
+
+  // Rentang awal sudah tersimpan: cukup ambil candle sejak candle terakhir
+  const fetchDays = coversRange ? Math.max(2, Math.ceil((Date.now() - meta!.lastTimestamp) / DAY_MS) + 1) : days;
+
+  try {
+    const { data, provider } = await runWithProviders(
+      'history', market, p => p.fetchHistory!(symbol, fetchDays, market, interval), { filter: p => !p.simulated }
+    );
+    await putCandles(seriesKey, data, { provider: provider.id, providerName: provider.name });
+    const merged = coversRange ? await getCandles(seriesKey, from) : data;
+    const history: SourcedHistory = { data: merged.length > 0 ? merged : data, source: toDataSource(provider) };
+    cache.set(cacheKey, { data: history, timestamp: Date.now() });
+    return history;
+  } catch (error) {
+    console.warn(`Failed to fetch historical data for ${symbol}:`, (error as Error).message);
+  }
+
+  // Offline: candle tersimpan lebih baik daripada data mock
+  if (meta) {
+    const data = await getCandles(seriesKey, from);
+    if (data.length > 0) {
+      return { data, source: storedSource(true) };
+    }
+  }
+
+  console.warn(`No cached history for ${symbol}, generating mock data...`);
+  const { data, provider } = await runWithProviders(
+    'history', market, p => p.fetchHistory!(symbol, days, market, interval), { filter: p => !!p.simulated }
+  );
+  return { data, source: toDataSource(provider) };
+};
+
+/**
+ * Fetch historical bars from Yahoo Finance, trying each CORS proxy
+ */
+const fetchHistoryFromYahoo = async (
+  symbol: string,
+  days: number,
+  market: MarketType,
+  interval: HistoryInterval
+): Promise<StockData[]> => {
   for (let proxyIndex = 0; proxyIndex < CORS_PROXIES.length; proxyIndex++) {
     try {
       let yahooSymbol = symbol;
@@ -386,9 +495,11 @@ export const fetchHistoricalData = async (symbol: string, days: number = 100, ma
         yahooSymbol = `${symbol}.JK`;
       }
       
-      const range = days <= 7 ? '5d' : days <= 30 ? '1mo' : days <= 90 ? '3mo' : days <= 180 ? '6mo' : '1y';
-      const interval = days <= 7 ? '15m' : '1d';
-      const url = `https://query1.finance.yahoo.com/v8/finance/chart/${yahooSymbol}?interval=${interval}&range=${range}`;
+      const range = days <= 7 ? '5d' : days <= 30 ? '1mo' : days <= 90 ? '3mo' : days <= 180 ? '6mo'
+        : days <= 365 ? '1y' : days <= 730 ? '2y' : '5y';
+      // Yahoo menamai bar 1 jam '60m'
+      const yahooInterval = interval === '1h' ? '60m' : interval;
+      const url = `https://query1.finance.yahoo.com/v8/finance/chart/${yahooSymbol}?interval=${yahooInterval}&range=${range}`;
       
       const proxy = CORS_PROXIES[proxyIndex];
       const controller = new AbortController();
@@ -427,7 +538,7 @@ export const fetchHistoricalData = async (symbol: string, days: number = 100, ma
       
       const data: StockData[] = timestamps.map((ts: number, i: number) => {
         const date = new Date(ts * 1000);
-        const timeStr = days <= 7 
+        const timeStr = interval !== '1d' 
           ? date.toLocaleString('id-ID', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
           : date.toLocaleDateString('id-ID', { month: 'short', day: 'numeric' });
         
@@ -438,11 +549,11 @@ export const fetchHistoricalData = async (symbol: string, days: number = 100, ma
           low: Math.round(quotes.low?.[i] || 0),
           close: Math.round(quotes.close?.[i] || 0),
           volume: quotes.volume?.[i] || 0,
+          timestamp: ts * 1000,
         };
       }).filter((d: StockData) => d.close > 0);
       
       if (data.length > 0) {
-        cache.set(cacheKey, { data, timestamp: Date.now() });
         console.log(`✓ Historical data loaded for ${symbol} from proxy ${proxyIndex + 1}`);
         return data;
       }
@@ -451,8 +562,7 @@ export const fetchHistoricalData = async (symbol: string, days: number = 100, ma
     }
   }
   
-  console.warn(`Failed to fetch historical data for ${symbol}, generating mock data...`);
-  return generateMockHistoricalData(symbol, days);
+  throw new Error('Yahoo history failed on all proxies');
 };
 
 /**
@@ -487,7 +597,8 @@ const generateMockHistoricalData = (symbol: string, days: number): StockData[] =
       high: Math.round(high),
       low: Math.round(low),
       close: Math.round(close),
-      volume
+      volume,
+      timestamp: date.getTime(),
     });
 
     price = close;
@@ -515,6 +626,7 @@ export const fetchWatchlistData = async (symbols: string[]): Promise<StockTicker
           low: data.low,
           volume: data.volume,
           lastUpdate: data.lastUpdate,
+          dataSource: data.source,
         };
       } catch (error) {
         // Return fallback data
@@ -526,6 +638,7 @@ export const fetchWatchlistData = async (symbols: string[]): Promise<StockTicker
           change: Math.round(fallback.price * fallback.change / 100),
           changePercent: fallback.change,
           sector: SECTOR_MAP[symbol] || 'Other',
+          dataSource: toDataSource(simulatorProvider),
         };
       }
     })
@@ -543,18 +656,117 @@ export const fetchTrendingStocks = async (): Promise<string[]> => {
 };
 
 /**
- * Search stocks by name or symbol
+ * Search IDX stocks by name or symbol
  */
 export const searchStocks = async (query: string): Promise<StockTicker[]> => {
+  const { data: matches } = await runWithProviders('search', 'IDX', p => p.search!(query, 'IDX'));
+  const infoBySymbol = new Map(matches.map(info => [info.symbol, info]));
+  const tickers = await fetchWatchlistData(matches.slice(0, 10).map(info => info.symbol));
+  return tickers.map(ticker => ({ ...ticker, name: infoBySymbol.get(ticker.symbol)?.name || ticker.name }));
+};
+
+/**
+ * Search the built-in symbol directory
+ */
+const searchLocalDirectory = (query: string): SymbolInfo[] => {
   const upperQuery = query.toUpperCase();
-  const allSymbols = Object.keys(COMPANY_NAMES);
-  
-  const matches = allSymbols.filter(symbol => 
-    symbol.includes(upperQuery) || 
-    COMPANY_NAMES[symbol].toUpperCase().includes(upperQuery)
-  );
-  
-  return fetchWatchlistData(matches.slice(0, 10));
+  return Object.keys(COMPANY_NAMES)
+    .filter(symbol => symbol.includes(upperQuery) || COMPANY_NAMES[symbol].toUpperCase().includes(upperQuery))
+    .map(symbol => ({ symbol, name: COMPANY_NAMES[symbol], sector: SECTOR_MAP[symbol] || 'Other', market: 'IDX' as const }));
+};
+
+/**
+ * Search symbols through Yahoo Finance
+ */
+const searchYahoo = async (query: string, market: MarketType): Promise<SymbolInfo[]> => {
+  const url = `https://query1.finance.yahoo.com/v1/finance/search?q=${encodeURIComponent(query)}&quotesCount=20&newsCount=0`;
+  let lastError: Error | null = null;
+
+  for (const proxy of CORS_PROXIES) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 8000);
+    try {
+      const response = await fetch(`${proxy}${encodeURIComponent(url)}`, { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      const data = await response.json();
+      const quotes: any[] = data.quotes || [];
+      return quotes
+        .filter(q => market === 'IDX' ? String(q.symbol).endsWith('.JK')
+          : market === 'CRYPTO' ? q.quoteType === 'CRYPTOCURRENCY'
+          : q.quoteType === 'EQUITY' && !String(q.symbol).includes('.'))
+        .map(q => {
+          const symbol = String(q.symbol).replace(/\.JK$/, '');
+          return {
+            symbol,
+            name: q.longname || q.shortname || symbol,
+            sector: q.sector || SECTOR_MAP[symbol] || 'Other',
+            market,
+          };
+        });
+    } catch (error) {
+      lastError = error as Error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  throw lastError || new Error('Yahoo search failed');
+};
+
+/**
+ * Fetch annual & quarterly financial statements from Yahoo Finance
+ */
+const fetchFinancialsFromYahoo = async (symbol: string, market: MarketType): Promise<FinancialStatements> => {
+  const yahooSymbol = market === 'IDX' ? `${symbol}.JK` : symbol;
+  const url = buildYahooFundamentalsUrl(yahooSymbol);
+  let lastError: Error | null = null;
+
+  for (const proxy of CORS_PROXIES) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000);
+    try {
+      const response = await fetch(`${proxy}${encodeURIComponent(url)}`, { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      return parseYahooFundamentals(await response.json(), symbol, market === 'IDX' ? 'IDR' : 'USD');
+    } catch (error) {
+      lastError = error as Error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  throw lastError || new Error('Yahoo fundamentals failed');
+};
+
+/**
+ * Fetch the weekly exchange rate history of a currency pair from Yahoo Finance
+ * Kurs tidak dibulatkan (dipakai untuk konversi laporan keuangan).
+ */
+export const fetchFxHistory = async (from: string, to: string): Promise<FxRatePoint[]> => {
+  const url = buildYahooFxUrl(from, to);
+  let lastError: Error | null = null;
+
+  for (const proxy of CORS_PROXIES) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000);
+    try {
+      const response = await fetch(`${proxy}${encodeURIComponent(url)}`, { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      return parseYahooFxHistory(await response.json());
+    } catch (error) {
+      lastError = error as Error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  throw lastError || new Error(`Yahoo FX ${from}${to} failed`);
 };
 
 /**
@@ -565,46 +777,109 @@ export const clearCache = () => {
 };
 
 /**
- * Get real-time price updates (polling with faster refresh)
+ * Fetch a quote bypassing the short-lived cache (dipakai polling live price)
+ */
+export const fetchLatestStockPrice = async (symbol: string, market: MarketType = 'IDX'): Promise<SourcedQuote> => {
+  cache.delete(`price_${symbol}_${market}`);
+  return fetchStockPrice(symbol, market);
+};
+
+// ===========================================
+// Market depth (order book)
+// ===========================================
+
+const DEFAULT_DEPTH_LEVELS = 10;
+
+const normalizeLevels = (levels: any[], side: 'bid' | 'ask'): DepthLevel[] =>
+  (levels || [])
+    .map(level => ({
+      price: Number(level.price),
+      lots: Number(level.lots ?? level.volume ?? 0),
+      orders: Number(level.orders ?? level.count ?? 0),
+    }))
+    .filter(level => level.price > 0 && level.lots > 0)
+    .sort((a, b) => side === 'bid' ? b.price - a.price : a.price - b.price);
+
+/**
+ * Create a provider that reads depth from a JSON endpoint (mis. feed broker atau backend sendiri)
+ * Respons: { bids: [{ price, lots, orders }], asks: [...], lastPrice? }
+ * @param urlTemplate - URL dengan placeholder {symbol} dan {levels}
+ */
+export const createHttpMarketDepthProvider = (
+  id: string,
+  name: string,
+  urlTemplate: string,
+  priority: number = 50
+): MarketDataProvider => ({
+  id,
+  name,
+  priority,
+  markets: ['IDX'],
+  fetchDepth: async (symbol, levels) => {
+    const url = urlTemplate.replace('{symbol}', encodeURIComponent(symbol)).replace('{levels}', String(levels));
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 8000);
+    try {
+      const response = await fetch(url, { signal: controller.signal, headers: { 'Accept': 'application/json' } });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      const data = await response.json();
+      const bids = normalizeLevels(data.bids, 'bid').slice(0, levels);
+      const asks = normalizeLevels(data.asks, 'ask').slice(0, levels);
+      if (bids.length === 0 && asks.length === 0) {
+        throw new Error('Order book kosong');
+      }
+      return {
+        symbol,
+        bids,
+        asks,
+        lastPrice: Number(data.lastPrice) || bids[0]?.price || asks[0]?.price,
+        timestamp: Date.now(),
+        source: id,
+        simulated: false,
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  },
+});
+
+/**
+ * Fetch the order book from the first healthy depth provider (simulator sebagai fallback terakhir)
+ */
+export const fetchMarketDepth = async (symbol: string, levels: number = DEFAULT_DEPTH_LEVELS): Promise<MarketDepth> => {
+  const { data } = await runWithProviders('depth', 'IDX', p => p.fetchDepth!(symbol, levels));
+  return data;
+};
+
+/**
+ * Poll the order book of a symbol
  */
-export const subscribeToPrice = (
-  symbol: string, 
-  callback: (data: { price: number; change: number; changePercent: number }) => void,
-  interval: number = 15000 // 15 seconds default
+export const subscribeToMarketDepth = (
+  symbol: string,
+  callback: (depth: MarketDepth) => void,
+  levels: number = DEFAULT_DEPTH_LEVELS,
+  interval: number = 5000
 ): (() => void) => {
   let isActive = true;
-  let timeoutId: NodeJS.Timeout;
-  
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
   const fetchUpdate = async () => {
     if (!isActive) return;
-    
     try {
-      // Clear cache to force fresh data
-      const cacheKey = `price_${symbol}_IDX`;
-      cache.delete(cacheKey);
-      
-      const data = await fetchStockPrice(symbol);
-      if (isActive) {
-        callback({
-          price: data.price,
-          change: data.change,
-          changePercent: data.changePercent,
-        });
-      }
+      const depth = await fetchMarketDepth(symbol, levels);
+      if (isActive) callback(depth);
     } catch (error) {
-      console.error('Price update failed:', error);
+      console.error('Market depth update failed:', error);
     }
-    
-    // Schedule next update
     if (isActive) {
       timeoutId = setTimeout(fetchUpdate, interval);
     }
   };
-  
-  // Initial fetch
+
   fetchUpdate();
-  
-  // Return unsubscribe function
+
   return () => {
     isActive = false;
     if (timeoutId) {
@@ -613,12 +888,62 @@ export const subscribeToPrice = (
   };
 };
 
+// ============ Built-in Providers ============
+
+const yahooProvider: MarketDataProvider = {
+  id: 'yahoo',
+  name: 'Yahoo Finance',
+  priority: 10,
+  markets: ['IDX', 'US', 'CRYPTO'],
+  fetchQuote: (symbol, market) => fetchFromYahoo(symbol, market),
+  fetchHistory: fetchHistoryFromYahoo,
+  search: searchYahoo,
+  fetchFinancials: (symbol, market) => fetchFinancialsFromYahoo(symbol, market),
+};
+
+const sectorsProvider: MarketDataProvider = {
+  id: 'sectors',
+  name: 'Sectors API',
+  priority: 20,
+  markets: ['IDX'],
+  fetchQuote: (symbol) => fetchFromIDXAlternative(symbol),
+};
+
+// Metadata statis (nama & sektor), bukan harga
+const directoryProvider: MarketDataProvider = {
+  id: 'directory',
+  name: 'Direktori Lokal',
+  priority: 90,
+  markets: ['IDX'],
+  search: async (query) => searchLocalDirectory(query),
+};
+
+const simulatorProvider: MarketDataProvider = {
+  id: SIMULATOR_PROVIDER_ID,
+  name: 'Simulator',
+  priority: 1000,
+  markets: ['IDX', 'US', 'CRYPTO'],
+  simulated: true,
+  fetchQuote: async (symbol) => generateSimulatedQuote(symbol),
+  fetchHistory: async (symbol, days) => generateMockHistoricalData(symbol, days),
+  fetchDepth: async (symbol, levels) => {
+    const quote = await fetchStockPrice(symbol);
+    return simulateMarketDepth(symbol, quote.price, { levels, referencePrice: quote.price - quote.change });
+  },
+};
+
+[yahooProvider, sectorsProvider, directoryProvider, simulatorProvider].forEach(registerDataProvider);
+
 export default {
   fetchStockPrice,
-  fetchHistoricalData,
+  fetchHistoryWithSource,
   fetchWatchlistData,
   fetchTrendingStocks,
   searchStocks,
   clearCache,
-  subscribeToPrice,
+  fetchLatestStockPrice,
+  fetchFxHistory,
+  createHttpMarketDepthProvider,
+  fetchMarketDepth,
+  subscribeToMarketDepth,
 };
@@ -0,0 +1,217 @@
+/**
+ * Tax Report Service
+ * Annual summary of final income tax (PPh final) on share sales and dividends
+ *
+ * - Penjualan saham: PPh final 0.1% dari nilai bruto (dipotong broker)
+ * - Dividen: PPh final yang dipotong emiten (dicatat sebagai fee transaksi dividen)
+ * - Biaya transaksi dirinci per komponen bila tersedia; transaksi lama tanpa rincian
+ *   diestimasi (PPh 0.1% untuk jual, sisanya dianggap komisi)
+ */
+
+import {
+  Transaction,
+  getPortfolio,
+  buildLotLedger,
+  summarizeRealizedByYear,
+} from './portfolioService';
+import { SALES_TAX_PERCENT } from './feeService';
+import { IDX_LOT_SIZE } from '../utils/marketRules';
+
+export interface TaxReportSaleRow {
+  date: number;
+  symbol: string;
+  lots: number;
+  price: number;
+  gross: number;
+  salesTax: number;             // PPh final 0.1%
+  otherFees: number;            // Komisi, levy, PPN
+  net: number;
+}
+
+export interface TaxReportDividendRow {
+  date: number;
+  symbol: string;
+  lots: number;
+  dividendPerShare: number;
+  gross: number;
+  taxWithheld: number;
+  net: number;
+}
+
+export interface FeeTotals {
+  commission: number;
+  levy: number;
+  vat: number;
+  salesTax: number;
+  total: number;
+}
+
+export interface AnnualTaxReport {
+  year: number;
+  portfolioName: string;
+  sales: TaxReportSaleRow[];
+  dividends: TaxReportDividendRow[];
+  grossSales: number;
+  salesTax: number;
+  grossDividends: number;
+  dividendTax: number;
+  netDividends: number;
+  totalFinalTax: number;        // PPh final penjualan + dividen
+  realizedPL: number;           // Realized P/L tahun ini (metode cost basis portfolio)
+  fees: FeeTotals;              // Semua biaya beli & jual tahun ini
+}
+
+const yearOf = (timestamp: number): number => new Date(timestamp).getFullYear();
+
+// Split a trade fee into components (estimasi untuk transaksi tanpa rincian)
+const feeComponents = (t: Transaction): FeeTotals => {
+  if (t.feeBreakdown) {
+    const { commission, levy, vat, salesTax, total } = t.feeBreakdown;
+    return { commission, levy, vat, salesTax, total };
+  }
+  const gross = t.shares * IDX_LOT_SIZE * t.pricePerShare;
+  const salesTax = t.type === 'sell' ? Math.min(t.fee, Math.round(gross * SALES_TAX_PERCENT / 100)) : 0;
+  return { commission: t.fee - salesTax, levy: 0, vat: 0, salesTax, total: t.fee };
+};
+
+/**
+ * Years that have any sale or dividend (terbaru dulu)
+ */
+export const getTaxReportYears = (portfolioId?: string): number[] => {
+  const years = new Set(
+    getPortfolio(portfolioId).transactions
+      .filter(t => t.type === 'sell' || t.type === 'dividend')
+      .map(t => yearOf(t.date))
+  );
+  years.add(new Date().getFullYear());
+  return [...years].sort((a, b) => b - a);
+};
+
+/**
+ * Build the annual tax summary of a portfolio
+ * @param year - Calendar year
+ * @param portfolioId - Portfolio (default: active portfolio)
+ */
+export const buildAnnualTaxReport = (year: number, portfolioId?: string): AnnualTaxReport => {
+  const portfolio = getPortfolio(portfolioId);
+  const inYear = portfolio.transactions
+    .filter(t => yearOf(t.date) === year)
+    .sort((a, b) => a.date - b.date);
+
+  const sales: TaxReportSaleRow[] = inYear
+    .filter(t => t.type === 'sell')
+    .map(t => {
+      const components = feeComponents(t);
+      const gross = t.shares * IDX_LOT_SIZE * t.pricePerShare;
+      return {
+        date: t.date,
+        symbol: t.symbol,
+        lots: t.shares,
+        price: t.pricePerShare,
+        gross,
+        salesTax: components.salesTax,
+        otherFees: components.total - components.salesTax,
+        net: t.totalValue,
+      };
+    });
+
+  const dividends: TaxReportDividendRow[] = inYear
+    .filter(t => t.type === 'dividend')
+    .map(t => ({
+      date: t.date,
+      symbol: t.symbol,
+      lots: t.shares,
+      dividendPerShare: t.pricePerShare,
+      gross: t.totalValue + t.fee,
+      taxWithheld: t.fee,
+      net: t.totalValue,
+    }));
+
+  const fees = inYear
+    .filter(t => t.type === 'buy' || t.type === 'sell' || t.type === 'rights')
+    .map(feeComponents)
+    .reduce<FeeTotals>((sum, f) => ({
+      commission: sum.commission + f.commission,
+      levy: sum.levy + f.levy,
+      vat: sum.vat + f.vat,
+      salesTax: sum.salesTax + f.salesTax,
+      total: sum.total + f.total,
+    }), { commission: 0, levy: 0, vat: 0, salesTax: 0, total: 0 });
+
+  const realized = summarizeRealizedByYear(
+    buildLotLedger(portfolio.transactions, portfolio.costBasisMethod).closedLots
+  ).find(r => r.year === year);
+
+  const salesTax = sales.reduce((sum, s) => sum + s.salesTax, 0);
+  const dividendTax = dividends.reduce((sum, d) => sum + d.taxWithheld, 0);
+
+  return {
+    year,
+    portfolioName: portfolio.name,
+    sales,
+    dividends,
+    grossSales: sales.reduce((sum, s) => sum + s.gross, 0),
+    salesTax,
+    grossDividends: dividends.reduce((sum, d) => sum + d.gross, 0),
+    dividendTax,
+    netDividends: dividends.reduce((sum, d) => sum + d.net, 0),
+    totalFinalTax: salesTax + dividendTax,
+    realizedPL: realized?.realizedPL || 0,
+    fees,
+  };
+};
+
+/**
+ * Export the annual tax report to CSV (untuk lampiran SPT)
+ */
+export const exportTaxReportCSV = (report: AnnualTaxReport): void => {
+  const BOM = '\uFEFF'; // UTF-8 BOM for Excel
+  const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString('id-ID');
+  let csvContent = BOM;
+
+  csvContent += `LAPORAN PAJAK TAHUNAN ${report.year} - RIZBOT TRADING\n`;
+  csvContent += `Portfolio:,"${report.portfolioName}"\n`;
+  csvContent += `Tanggal:,${formatDate(Date.now())}\n\n`;
+
+  csvContent += 'RINGKASAN\n';
+  csvContent += `Nilai Penjualan Bruto:,${report.grossSales}\n`;
+  csvContent += `PPh Final Penjualan (0.1%):,${report.salesTax}\n`;
+  csvContent += `Dividen Bruto:,${report.grossDividends}\n`;
+  csvContent += `PPh Final Dividen:,${report.dividendTax}\n`;
+  csvContent += `Total PPh Final:,${report.totalFinalTax}\n`;
+  csvContent += `Realized P/L:,${Math.round(report.realizedPL)}\n`;
+  csvContent += `Komisi:,${report.fees.commission}\n`;
+  csvContent += `Levy:,${report.fees.levy}\n`;
+  csvContent += `PPN:,${report.fees.vat}\n\n`;
+
+  csvContent += 'PENJUALAN SAHAM\n';
+  csvContent += 'Tanggal,Saham,Lot,Harga,Nilai Bruto,PPh Final,Biaya Lain,Diterima\n';
+  report.sales.forEach(s => {
+    csvContent += `${formatDate(s.date)},${s.symbol},${s.lots},${s.price},${s.gross},${s.salesTax},${s.otherFees},${s.net}\n`;
+  });
+  csvContent += '\n';
+
+  csvContent += 'DIVIDEN\n';
+  csvContent += 'Tanggal,Saham,Lot,Dividen/Lembar,Bruto,PPh Dipotong,Diterima\n';
+  report.dividends.forEach(d => {
+    csvContent += `${formatDate(d.date)},${d.symbol},${d.lots},${d.dividendPerShare},${d.gross},${d.taxWithheld},${d.net}\n`;
+  });
+
+  // Create download link
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', `pajak_rizbot_${report.year}.csv`);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export default {
+  getTaxReportYears,
+  buildAnnualTaxReport,
+  exportTaxReportCSV,
+};
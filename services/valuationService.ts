@@ -0,0 +1,200 @@
+/**
+ * Valuation Service
+ * Inputs for the intrinsic valuation calculators (utils/valuation) per emiten
+ *
+ * - Asumsi awal diturunkan dari laporan keuangan (fundamentalsService): FCF & dividen per lembar TTM,
+ *   pertumbuhan historis, utang bersih dari neraca terakhir
+ * - Nilai intrinsik dibandingkan dengan harga live, jadi laporan wajib dalam mata uang harga market;
+ *   kalau kurs untuk laporan non-IDR tidak tersedia, valuasi ditolak (bukan dihitung dalam USD)
+ * - Asumsi yang diubah user disimpan per simbol di localStorage bersama mata uangnya dan bisa
+ *   dikembalikan ke default
+ * - Valuasi relatif memakai median PER/PBV sektor dari baris screener terakhir (tanpa fetch ulang)
+ */
+
+import { FinancialRatios, FinancialStatements, StockTicker } from '../types';
+import { MarketType } from './marketDataProviders';
+import {
+  SourcedFinancials,
+  MARKET_CURRENCY,
+  isInMarketCurrency,
+  loadFinancials,
+  getLatestRatios,
+} from './fundamentalsService';
+import { loadScreenerRows, loadUniverse } from './screenerService';
+import {
+  RelativeValuation,
+  ValuationAssumptions,
+  computeRelativeValuation,
+  estimateGrowthRate,
+} from '../utils/valuation';
+
+export interface ValuationInputs {
+  financials: SourcedFinancials;
+  ratios: FinancialRatios | null;
+  defaults: ValuationAssumptions;
+  relative: RelativeValuation | null;
+}
+
+// Asumsi tersimpan beserta mata uang angka per lembarnya
+interface StoredAssumptions extends ValuationAssumptions {
+  currency?: string;
+}
+
+const STORAGE_KEY = 'rizbot_valuation_assumptions';
+
+// Tingkat diskonto & pertumbuhan terminal awal per pasar (bisa diubah user)
+const MARKET_RATES: Record<Exclude<MarketType, 'CRYPTO'>, { discountRate: number; terminalGrowth: number }> = {
+  IDX: { discountRate: 12, terminalGrowth: 4 },
+  US: { discountRate: 9, terminalGrowth: 2.5 },
+};
+const DEFAULT_GROWTH = 5;
+const DEFAULT_PROJECTION_YEARS = 5;
+
+const loadAllAssumptions = (): Record<string, StoredAssumptions> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (e) {
+    console.error('Failed to load valuation assumptions:', e);
+  }
+  return {};
+};
+
+// Neraca terbaru (kuartalan kalau lebih baru dari tahunan) yang memuat jumlah saham
+const getLatestBalance = (statements: FinancialStatements) =>
+  [...statements.annual, ...statements.quarterly]
+    .filter(p => p.balance.sharesOutstanding)
+    .sort((a, b) => a.periodEnd.localeCompare(b.periodEnd))
+    .pop()?.balance;
+
+/**
+ * Default DCF & DDM assumptions derived from the financial statements
+ * FCF dasar memakai EPS kalau FCF tidak dilaporkan/negatif (mis. bank).
+ */
+export const buildDefaultAssumptions = (
+  statements: FinancialStatements,
+  ratios: FinancialRatios | null,
+  market: MarketType = 'IDX'
+): ValuationAssumptions => {
+  const rates = MARKET_RATES[market === 'CRYPTO' ? 'IDX' : market];
+  const growth = estimateGrowthRate(statements) ?? DEFAULT_GROWTH;
+  const balance = getLatestBalance(statements);
+  const netDebt = balance && balance.totalDebt !== null && balance.cash !== null
+    ? (balance.totalDebt - balance.cash) / balance.sharesOutstanding!
+    : 0;
+  const fcf = ratios?.fcfPerShare && ratios.fcfPerShare > 0 ? ratios.fcfPerShare : ratios?.epsTtm ?? 0;
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    dcf: {
+      baseFcf: round(Math.max(0, fcf)),
+      growthRate: growth,
+      years: DEFAULT_PROJECTION_YEARS,
+      terminalGrowth: rates.terminalGrowth,
+      discountRate: rates.discountRate,
+      netDebtPerShare: round(netDebt),
+    },
+    ddm: {
+      dividend: round(Math.max(0, ratios?.dividendPerShare ?? 0)),
+      // Pertumbuhan dividen jangka panjang tidak melebihi pertumbuhan terminal + 2%
+      growthRate: Math.min(growth, rates.terminalGrowth + 2),
+      requiredReturn: rates.discountRate,
+    },
+  };
+};
+
+/**
+ * Load the user-edited assumptions of a symbol (null kalau masih default)
+ * Asumsi dalam mata uang lain dari laporan saat ini diabaikan; simpanan lama tanpa mata uang
+ * dianggap dalam mata uang laporan asli.
+ */
+export const loadAssumptions = (symbol: string, statements: FinancialStatements): ValuationAssumptions | null => {
+  const stored = loadAllAssumptions()[symbol];
+  if (!stored) return null;
+  const currency = stored.currency || statements.reportedCurrency || statements.currency;
+  if (currency !== statements.currency) return null;
+  const { currency: _currency, ...assumptions } = stored;
+  return assumptions;
+};
+
+// Save the edited assumptions of a symbol in the currency of its statements
+export const saveAssumptions = (symbol: string, assumptions: ValuationAssumptions, currency: string) => {
+  try {
+    const all = loadAllAssumptions();
+    all[symbol] = { ...assumptions, currency };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (e) {
+    console.error('Failed to save valuation assumptions:', e);
+  }
+};
+
+// Forget the edited assumptions of a symbol (kembali ke default)
+export const resetAssumptions = (symbol: string) => {
+  try {
+    const all = loadAllAssumptions();
+    delete all[symbol];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (e) {
+    console.error('Failed to reset valuation assumptions:', e);
+  }
+};
+
+/**
+ * Sector medians of the screener universe for relative valuation
+ * Sektor diambil dari klasifikasi universe (sektor di watchlist bisa berbeda penamaan).
+ * @returns null kalau ticker bukan saham IDX (universe screener hanya berisi emiten BEI)
+ *   atau screener belum pernah dijalankan
+ */
+export const loadRelativeValuation = async (
+  ticker: StockTicker,
+  ratios: FinancialRatios | null
+): Promise<RelativeValuation | null> => {
+  if ((ticker.market || 'IDX') !== 'IDX') return null;
+
+  const rows = await loadScreenerRows();
+  if (rows.length === 0) return null;
+
+  let sector = rows.find(row => row.symbol === ticker.symbol)?.sector;
+  if (!sector) {
+    try {
+      sector = (await loadUniverse()).companies.find(c => c.symbol === ticker.symbol)?.sector;
+    } catch (e) {
+      console.warn('Universe unavailable for sector lookup:', (e as Error).message);
+    }
+  }
+  return computeRelativeValuation(ticker.symbol, sector || ticker.sector, ratios?.epsTtm ?? null, ratios?.bvps ?? null, rows);
+};
+
+/**
+ * Everything the valuation calculators need for a symbol
+ * @throws Error kalau laporan tidak dalam mata uang harga (kurs tidak tersedia)
+ */
+export const loadValuationInputs = async (ticker: StockTicker, forceRefresh: boolean = false): Promise<ValuationInputs> => {
+  const market = ticker.market || 'IDX';
+  const financials = await loadFinancials(ticker.symbol, market, forceRefresh);
+  if (!isInMarketCurrency(financials.data, market)) {
+    throw new Error(
+      `Laporan ${ticker.symbol} dalam ${financials.data.currency} dan kurs ke ${MARKET_CURRENCY[market]} belum tersedia; `
+      + 'nilai intrinsik tidak bisa dibandingkan dengan harga'
+    );
+  }
+  const ratios = getLatestRatios(financials.data);
+  const relative = await loadRelativeValuation(ticker, ratios);
+  return {
+    financials,
+    ratios,
+    defaults: buildDefaultAssumptions(financials.data, ratios, market),
+    relative,
+  };
+};
+
+export default {
+  buildDefaultAssumptions,
+  loadAssumptions,
+  saveAssumptions,
+  resetAssumptions,
+  loadRelativeValuation,
+  loadValuationInputs,
+};
@@ -5,6 +5,24 @@ export interface StockData {
   low: number;
   close: number;
   volume: number;
+  timestamp?: number; // Epoch ms of the bar (kalau tersedia dari sumber data)
+}
+
+// Satu level antrian order book
+export interface DepthLevel {
+  price: number;
+  lots: number;
+  orders: number;       // Jumlah order di level ini (frekuensi antrian)
+}
+
+export interface MarketDepth {
+  symbol: string;
+  bids: DepthLevel[];   // Harga tertinggi dulu
+  asks: DepthLevel[];   // Harga terendah dulu
+  lastPrice: number;
+  timestamp: number;
+  source: string;       // Id provider
+  simulated: boolean;
 }
 
 export interface StockTicker {
@@ -21,10 +39,152 @@ export interface StockTicker {
   volume?: number;
   lastUpdate?: string;
   isLoading?: boolean;
+  dataSource?: DataSourceInfo;
+}
+
+// Asal data harga: provider, apakah simulasi, dan apakah data lama (stale)
+export interface DataSourceInfo {
+  provider: string;        // Provider id
+  providerName: string;
+  simulated: boolean;      // Harga buatan (mock/simulator), bukan harga pasar
+  stale: boolean;          // Harga terakhir yang diketahui karena semua provider gagal
+  fetchedAt: number;       // Epoch ms
+}
+
+export interface StockQuote {
+  price: number;
+  change: number;
+  changePercent: number;
+  high: number;
+  low: number;
+  open: number;
+  volume: number;
+  lastUpdate: string;
+}
+
+export interface SymbolInfo {
+  symbol: string;
+  name: string;
+  sector: string;
+  market: 'IDX' | 'US' | 'CRYPTO';
 }
 
 export type TimeRange = '1D' | '5D' | '1M' | '3M' | '6M' | 'YTD' | '1Y' | '5Y';
 
+// Satu baris screener: teknikal dihitung dari histori harian, fundamental dari data emiten
+// (null kalau data fundamental emiten belum tersedia)
+export interface ScreenerStock {
+  symbol: string;
+  name: string;
+  sector: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+  avgVolume20: number;
+  marketCap: number | null;
+  peRatio: number | null;      // null juga untuk EPS negatif
+  pbRatio: number | null;
+  eps: number | null;
+  dividend: number | null;     // Dividend yield %
+  rsi: number | null;
+  ma20: number | null;
+  ma50: number | null;
+  ma200: number | null;
+  high52w: number;
+  low52w: number;
+  computedAt: number;          // Epoch ms
+  lastBarAt: number | null;    // Epoch ms bar harian terakhir
+  fundamentalsAsOf: string | null;  // Tanggal data fundamental universe; null = emiten belum punya EPS/BVPS/saham beredar
+  dataSource: DataSourceInfo;
+}
+
+// ============ Fundamental Emiten ============
+// Nilai dalam mata uang laporan (IDR untuk emiten IDX); null kalau pos tidak dilaporkan (mis. laba kotor bank)
+
+export type FinancialPeriodType = 'quarterly' | 'annual';
+
+export interface IncomeStatement {
+  revenue: number | null;
+  grossProfit: number | null;
+  operatingIncome: number | null;
+  netIncome: number | null;    // Laba bersih yang dapat diatribusikan ke pemilik entitas induk
+  eps: number | null;          // Diluted EPS periode ini (bukan TTM)
+}
+
+export interface BalanceSheet {
+  totalAssets: number | null;
+  totalLiabilities: number | null;
+  totalEquity: number | null;
+  cash: number | null;
+  totalDebt: number | null;    // Utang berbunga
+  sharesOutstanding: number | null;
+}
+
+export interface CashFlowStatement {
+  operatingCashFlow: number | null;
+  capitalExpenditure: number | null;   // Negatif = belanja modal
+  freeCashFlow: number | null;
+  dividendsPaid: number | null;        // Negatif = kas keluar
+}
+
+export interface FinancialPeriod {
+  periodEnd: string;           // YYYY-MM-DD
+  type: FinancialPeriodType;
+  income: IncomeStatement;
+  balance: BalanceSheet;
+  cashFlow: CashFlowStatement;
+}
+
+export interface FinancialStatements {
+  symbol: string;
+  currency: string;
+  reportedCurrency?: string;    // Mata uang laporan asli kalau angka sudah dikonversi kurs
+  annual: FinancialPeriod[];    // Urut dari periode terlama
+  quarterly: FinancialPeriod[];
+}
+
+// Kurs historis (1 unit mata uang asal dalam mata uang tujuan)
+export interface FxRatePoint {
+  timestamp: number;
+  rate: number;
+}
+
+// Rasio per periode; periode kuartalan memakai laba/arus kas TTM (4 kuartal terakhir)
+export interface FinancialRatios {
+  periodEnd: string;
+  type: FinancialPeriodType;
+  roe: number | null;          // %
+  roa: number | null;          // %
+  der: number | null;          // Total liabilitas / ekuitas (x)
+  debtToEquity: number | null; // Utang berbunga / ekuitas (x)
+  gpm: number | null;          // %
+  opm: number | null;          // %
+  npm: number | null;          // %
+  revenueGrowth: number | null;    // % YoY
+  netIncomeGrowth: number | null;  // % YoY
+  epsTtm: number | null;
+  bvps: number | null;
+  fcfPerShare: number | null;
+  dividendPerShare: number | null;
+}
+
+export interface ValuationBandPoint {
+  date: string;                // YYYY-MM-DD
+  timestamp: number;
+  price: number;
+  pe: number | null;
+  pb: number | null;
+}
+
+export interface ValuationBandStats {
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  current: number | null;
+}
+
 export enum AppMode {
   DASHBOARD = 'DASHBOARD',
   ANALYSIS = 'ANALYSIS',
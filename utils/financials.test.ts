@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { FinancialPeriod, FinancialStatements, FxRatePoint } from '../types';
+import { buildValuationBands, convertStatements, fxRateAt, parseYahooFxHistory } from './financials';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const at = (date: string) => new Date(date).getTime();
+
+// Kurs mingguan USD/IDR: 15.000 sepanjang 2023, 16.000 sejak 2024
+const RATES: FxRatePoint[] = Array.from({ length: 110 }, (_, i) => {
+  const timestamp = at('2023-01-02') + i * 7 * DAY_MS;
+  return { timestamp, rate: timestamp < at('2024-01-01') ? 15000 : 16000 };
+});
+
+const period = (periodEnd: string): FinancialPeriod => ({
+  periodEnd,
+  type: 'annual',
+  income: { revenue: 1000, grossProfit: 400, operatingIncome: 300, netIncome: 200, eps: 0.02 },
+  balance: { totalAssets: 5000, totalLiabilities: 2000, totalEquity: 3000, cash: 500, totalDebt: 1000, sharesOutstanding: 10000 },
+  cashFlow: { operatingCashFlow: 250, capitalExpenditure: -50, freeCashFlow: 200, dividendsPaid: -80 },
+});
+
+const USD_STATEMENTS: FinancialStatements = {
+  symbol: 'ADRO',
+  currency: 'USD',
+  annual: [period('2023-12-31'), period('2024-12-31')],
+  quarterly: [],
+};
+
+describe('convertStatements', () => {
+  const converted = convertStatements(USD_STATEMENTS, RATES, 'IDR')!;
+
+  it('uses the period-average rate for flows and the period-end rate for the balance sheet', () => {
+    expect(converted.currency).toBe('IDR');
+    expect(converted.reportedCurrency).toBe('USD');
+    expect(converted.annual[0].income.netIncome).toBeCloseTo(200 * 15000, 6);
+    expect(converted.annual[0].income.eps).toBeCloseTo(0.02 * 15000, 6);
+    expect(converted.annual[0].cashFlow.freeCashFlow).toBeCloseTo(200 * 15000, 6);
+    expect(converted.annual[0].balance.totalEquity).toBe(3000 * 15000);
+    expect(converted.annual[1].balance.totalEquity).toBe(3000 * 16000);
+  });
+
+  it('keeps the share count and leaves same-currency statements untouched', () => {
+    expect(converted.annual[1].balance.sharesOutstanding).toBe(10000);
+    expect(convertStatements({ ...USD_STATEMENTS, currency: 'IDR' }, RATES, 'IDR')).toEqual({ ...USD_STATEMENTS, currency: 'IDR' });
+  });
+
+  it('refuses to convert periods outside the rate history', () => {
+    const older = { ...USD_STATEMENTS, annual: [period('2020-12-31'), ...USD_STATEMENTS.annual] };
+    expect(convertStatements(older, RATES, 'IDR')).toBeNull();
+    expect(fxRateAt(RATES, at('2020-12-31'))).toBeNull();
+  });
+
+  it('gives IDR-priced P/B bands in the expected range once converted', () => {
+    // BVPS 0,3 USD x 16.000 = 4.800 IDR; harga 2.400 -> P/B 0,5 (tanpa konversi 8.000x)
+    const history = [{ time: '2025-06-02', open: 2400, high: 2400, low: 2400, close: 2400, volume: 1, timestamp: at('2025-06-02') }];
+    expect(buildValuationBands(history, converted).points[0].pb).toBe(0.5);
+    expect(buildValuationBands(history, USD_STATEMENTS).points[0].pb).toBe(8000);
+  });
+});
+
+describe('parseYahooFxHistory', () => {
+  it('reads weekly closes and drops empty points', () => {
+    const json = { chart: { result: [{ timestamp: [1700000000, 1700604800, 1701209600], indicators: { quote: [{ close: [15500.5, null, 15600] }] } }] } };
+    expect(parseYahooFxHistory(json)).toEqual([
+      { timestamp: 1700000000000, rate: 15500.5 },
+      { timestamp: 1701209600000, rate: 15600 },
+    ]);
+    expect(() => parseYahooFxHistory({})).toThrow();
+  });
+});
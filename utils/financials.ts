@@ -0,0 +1,394 @@
+/**
+ * Financial Statements Utilities
+ * Parsing laporan keuangan, rasio turunan dan band valuasi historis (P/E & P/B)
+ *
+ * - Laporan diambil dari Yahoo Finance fundamentals-timeseries (tahunan & kuartalan)
+ * - Rasio kuartalan memakai laba & arus kas TTM (jumlah 4 kuartal terakhir), neraca dari kuartal itu
+ * - Band valuasi memakai EPS/BVPS yang sudah dipublikasikan pada tanggal harga tersebut
+ *   (akhir periode + jeda pelaporan), supaya tidak memakai laporan yang belum terbit
+ * - Laporan dalam mata uang lain (mis. emiten IDX yang melapor dalam USD) dikonversi dulu ke mata uang
+ *   harga sebelum rasio berbasis harga dihitung: pos laba rugi & arus kas memakai kurs rata-rata periode,
+ *   pos neraca memakai kurs akhir periode
+ */
+
+import {
+  StockData,
+  FinancialPeriod,
+  FinancialPeriodType,
+  FinancialRatios,
+  FinancialStatements,
+  FxRatePoint,
+  IncomeStatement,
+  BalanceSheet,
+  CashFlowStatement,
+  ValuationBandPoint,
+  ValuationBandStats,
+} from '../types';
+
+type StatementKey = 'income' | 'balance' | 'cashFlow';
+
+// Pos laporan -> nama seri Yahoo (tanpa prefix annual/quarterly)
+const YAHOO_FIELDS: { statement: StatementKey; field: string; yahoo: string }[] = [
+  { statement: 'income', field: 'revenue', yahoo: 'TotalRevenue' },
+  { statement: 'income', field: 'grossProfit', yahoo: 'GrossProfit' },
+  { statement: 'income', field: 'operatingIncome', yahoo: 'OperatingIncome' },
+  { statement: 'income', field: 'netIncome', yahoo: 'NetIncomeCommonStockholders' },
+  { statement: 'income', field: 'eps', yahoo: 'DilutedEPS' },
+  { statement: 'balance', field: 'totalAssets', yahoo: 'TotalAssets' },
+  { statement: 'balance', field: 'totalLiabilities', yahoo: 'TotalLiabilitiesNetMinorityInterest' },
+  { statement: 'balance', field: 'totalEquity', yahoo: 'StockholdersEquity' },
+  { statement: 'balance', field: 'cash', yahoo: 'CashAndCashEquivalents' },
+  { statement: 'balance', field: 'totalDebt', yahoo: 'TotalDebt' },
+  { statement: 'balance', field: 'sharesOutstanding', yahoo: 'OrdinarySharesNumber' },
+  { statement: 'cashFlow', field: 'operatingCashFlow', yahoo: 'OperatingCashFlow' },
+  { statement: 'cashFlow', field: 'capitalExpenditure', yahoo: 'CapitalExpenditure' },
+  { statement: 'cashFlow', field: 'freeCashFlow', yahoo: 'FreeCashFlow' },
+  { statement: 'cashFlow', field: 'dividendsPaid', yahoo: 'CashDividendsPaid' },
+];
+
+const PERIOD_PREFIX: Record<FinancialPeriodType, string> = {
+  annual: 'annual',
+  quarterly: 'quarterly',
+};
+
+// Batas waktu publikasi laporan di IDX: tahunan (audited) 90 hari, kuartalan 30 hari setelah akhir periode
+const REPORTING_LAG_DAYS: Record<FinancialPeriodType, number> = {
+  annual: 90,
+  quarterly: 30,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YAHOO_HISTORY_YEARS = 10;
+
+const emptyIncome = (): IncomeStatement => ({ revenue: null, grossProfit: null, operatingIncome: null, netIncome: null, eps: null });
+const emptyBalance = (): BalanceSheet => ({
+  totalAssets: null, totalLiabilities: null, totalEquity: null, cash: null, totalDebt: null, sharesOutstanding: null,
+});
+const emptyCashFlow = (): CashFlowStatement => ({ operatingCashFlow: null, capitalExpenditure: null, freeCashFlow: null, dividendsPaid: null });
+
+/**
+ * Yahoo fundamentals-timeseries URL for every statement item, annual & quarterly
+ */
+export const buildYahooFundamentalsUrl = (yahooSymbol: string, now: number = Date.now()): string => {
+  const types = (Object.keys(PERIOD_PREFIX) as FinancialPeriodType[])
+    .flatMap(type => YAHOO_FIELDS.map(f => `${PERIOD_PREFIX[type]}${f.yahoo}`))
+    .join(',');
+  const period1 = Math.floor((now - YAHOO_HISTORY_YEARS * 365 * DAY_MS) / 1000);
+  const period2 = Math.floor(now / 1000);
+  return `https://query2.finance.yahoo.com/ws/fundamentals-timeseries/v1/finance/timeseries/${yahooSymbol}`
+    + `?symbol=${yahooSymbol}&type=${types}&period1=${period1}&period2=${period2}`;
+};
+
+/**
+ * Parse a Yahoo fundamentals-timeseries response into financial statements
+ * @param defaultCurrency - Dipakai kalau respons tidak menyebut mata uang laporan
+ * @throws Error kalau respons tidak berisi satu pun pos laporan
+ */
+export const parseYahooFundamentals = (json: any, symbol: string, defaultCurrency: string = 'IDR'): FinancialStatements => {
+  const results: any[] = json?.timeseries?.result || [];
+  const periods: Record<FinancialPeriodType, Map<string, FinancialPeriod>> = { annual: new Map(), quarterly: new Map() };
+  let currency = '';
+
+  results.forEach(result => {
+    const seriesName: string | undefined = result?.meta?.type?.[0];
+    if (!seriesName) return;
+    const type = (Object.keys(PERIOD_PREFIX) as FinancialPeriodType[]).find(t => seriesName.startsWith(PERIOD_PREFIX[t]));
+    const spec = type && YAHOO_FIELDS.find(f => `${PERIOD_PREFIX[type]}${f.yahoo}` === seriesName);
+    if (!type || !spec) return;
+
+    (result[seriesName] || []).forEach((entry: any) => {
+      const value = entry?.reportedValue?.raw;
+      if (!entry?.asOfDate || typeof value !== 'number') return;
+      if (!currency && entry.currencyCode) currency = entry.currencyCode;
+
+      const period = periods[type].get(entry.asOfDate) || {
+        periodEnd: entry.asOfDate,
+        type,
+        income: emptyIncome(),
+        balance: emptyBalance(),
+        cashFlow: emptyCashFlow(),
+      };
+      (period[spec.statement] as unknown as Record<string, number | null>)[spec.field] = value;
+      periods[type].set(entry.asOfDate, period);
+    });
+  });
+
+  const sorted = (type: FinancialPeriodType) =>
+    [...periods[type].values()].sort((a, b) => a.periodEnd.localeCompare(b.periodEnd));
+  const statements = { symbol, currency: currency || defaultCurrency, annual: sorted('annual'), quarterly: sorted('quarterly') };
+  if (statements.annual.length === 0 && statements.quarterly.length === 0) {
+    throw new Error('Tidak ada data laporan keuangan');
+  }
+  return statements;
+};
+
+// ============ Currency Conversion ============
+
+const PERIOD_LENGTH_DAYS: Record<FinancialPeriodType, number> = {
+  annual: 365,
+  quarterly: 91,
+};
+// Kurs mingguan: titik terdekat boleh berjarak sampai dua minggu dari tanggal yang diminta
+const FX_MAX_GAP_MS = 14 * DAY_MS;
+
+/**
+ * Yahoo chart URL for the weekly exchange rate history of a currency pair (mis. USDIDR=X)
+ */
+export const buildYahooFxUrl = (from: string, to: string): string =>
+  `https://query1.finance.yahoo.com/v8/finance/chart/${from}${to}=X?interval=1wk&range=${YAHOO_HISTORY_YEARS + 1}y`;
+
+/**
+ * Parse a Yahoo chart response into exchange rate points (urut dari terlama)
+ * @throws Error kalau respons tidak berisi kurs
+ */
+export const parseYahooFxHistory = (json: any): FxRatePoint[] => {
+  const result = json?.chart?.result?.[0];
+  const timestamps: number[] = result?.timestamp || [];
+  const closes: (number | null)[] = result?.indicators?.quote?.[0]?.close || [];
+  const points = timestamps
+    .map((t, i) => ({ timestamp: t * 1000, rate: closes[i] }))
+    .filter((p): p is FxRatePoint => typeof p.rate === 'number' && p.rate > 0)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (points.length === 0) throw new Error('Tidak ada data kurs');
+  return points;
+};
+
+/**
+ * Exchange rate at a date (titik terakhir pada/sebelum tanggal itu)
+ * @returns null kalau histori kurs tidak mencakup tanggal tersebut
+ */
+export const fxRateAt = (rates: FxRatePoint[], timestamp: number): number | null => {
+  let found: FxRatePoint | null = null;
+  for (const point of rates) {
+    if (point.timestamp > timestamp) break;
+    found = point;
+  }
+  if (!found) {
+    const first = rates[0];
+    return first && first.timestamp - timestamp <= FX_MAX_GAP_MS ? first.rate : null;
+  }
+  return timestamp - found.timestamp <= FX_MAX_GAP_MS ? found.rate : null;
+};
+
+/**
+ * Average exchange rate over a period, untuk pos arus (laba rugi & arus kas)
+ * @returns null kalau tidak ada kurs dalam periode tersebut
+ */
+export const averageFxRate = (rates: FxRatePoint[], from: number, to: number): number | null => {
+  const inPeriod = rates.filter(p => p.timestamp >= from && p.timestamp <= to);
+  if (inPeriod.length === 0) return fxRateAt(rates, to);
+  return inPeriod.reduce((sum, p) => sum + p.rate, 0) / inPeriod.length;
+};
+
+const scaleFields = <T extends object>(values: T, rate: number, skip: (keyof T)[] = []): T => {
+  const scaled = { ...values };
+  (Object.keys(scaled) as (keyof T)[]).forEach(field => {
+    const value = scaled[field];
+    if (typeof value === 'number' && !skip.includes(field)) (scaled as Record<keyof T, unknown>)[field] = value * rate;
+  });
+  return scaled;
+};
+
+/**
+ * Convert financial statements to another currency with historical exchange rates
+ * Jumlah saham tidak dikonversi; `reportedCurrency` menyimpan mata uang asli.
+ * @param rates - Kurs 1 unit `statements.currency` dalam `currency`
+ * @returns null kalau ada periode yang tidak tercakup histori kurs
+ */
+export const convertStatements = (
+  statements: FinancialStatements,
+  rates: FxRatePoint[],
+  currency: string
+): FinancialStatements | null => {
+  if (statements.currency === currency) return statements;
+
+  const convertPeriod = (period: FinancialPeriod): FinancialPeriod | null => {
+    const end = new Date(period.periodEnd).getTime();
+    const start = end - PERIOD_LENGTH_DAYS[period.type] * DAY_MS;
+    const averageRate = averageFxRate(rates, start, end);
+    const endRate = fxRateAt(rates, end);
+    if (averageRate === null || endRate === null) return null;
+    return {
+      ...period,
+      income: scaleFields(period.income, averageRate),
+      balance: scaleFields(period.balance, endRate, ['sharesOutstanding']),
+      cashFlow: scaleFields(period.cashFlow, averageRate),
+    };
+  };
+
+  const annual = statements.annual.map(convertPeriod);
+  const quarterly = statements.quarterly.map(convertPeriod);
+  if (annual.includes(null) || quarterly.includes(null)) return null;
+  return {
+    ...statements,
+    currency,
+    reportedCurrency: statements.reportedCurrency || statements.currency,
+    annual: annual as FinancialPeriod[],
+    quarterly: quarterly as FinancialPeriod[],
+  };
+};
+
+// ============ Ratios ============
+
+const ratio = (numerator: number | null, denominator: number | null, scale: number = 1): number | null =>
+  numerator !== null && denominator !== null && denominator !== 0
+    ? Math.round((numerator / denominator) * scale * 100) / 100
+    : null;
+
+const growth = (current: number | null, previous: number | null): number | null =>
+  current !== null && previous !== null && previous !== 0
+    ? Math.round(((current - previous) / Math.abs(previous)) * 10000) / 100
+    : null;
+
+const sumOf = (values: (number | null)[]): number | null =>
+  values.length > 0 && values.every(v => v !== null) ? values.reduce((sum: number, v) => sum + v!, 0) : null;
+
+// Laba & arus kas 12 bulan: periode tahunan apa adanya, kuartalan dijumlah 4 kuartal terakhir
+interface TrailingFigures {
+  income: IncomeStatement;
+  cashFlow: CashFlowStatement;
+}
+
+const getTrailingFigures = (periods: FinancialPeriod[], index: number): TrailingFigures | null => {
+  const period = periods[index];
+  if (period.type === 'annual') return { income: period.income, cashFlow: period.cashFlow };
+  if (index < 3) return null;
+
+  const window = periods.slice(index - 3, index + 1);
+  // Empat kuartal harus berurutan (tidak ada kuartal yang hilang)
+  const span = new Date(period.periodEnd).getTime() - new Date(window[0].periodEnd).getTime();
+  if (span > 300 * DAY_MS) return null;
+
+  const sumField = <K extends StatementKey>(statement: K, field: string) =>
+    sumOf(window.map(p => (p[statement] as unknown as Record<string, number | null>)[field]));
+  return {
+    income: {
+      revenue: sumField('income', 'revenue'),
+      grossProfit: sumField('income', 'grossProfit'),
+      operatingIncome: sumField('income', 'operatingIncome'),
+      netIncome: sumField('income', 'netIncome'),
+      eps: sumField('income', 'eps'),
+    },
+    cashFlow: {
+      operatingCashFlow: sumField('cashFlow', 'operatingCashFlow'),
+      capitalExpenditure: sumField('cashFlow', 'capitalExpenditure'),
+      freeCashFlow: sumField('cashFlow', 'freeCashFlow'),
+      dividendsPaid: sumField('cashFlow', 'dividendsPaid'),
+    },
+  };
+};
+
+/**
+ * Derived ratios per period (ROE, DER, margin, pertumbuhan YoY, per lembar saham)
+ */
+export const computeFinancialRatios = (statements: FinancialStatements, type: FinancialPeriodType): FinancialRatios[] => {
+  const periods = statements[type];
+  // Pembanding YoY: tahun sebelumnya, atau kuartal yang sama tahun lalu (TTM vs TTM)
+  const yearAgoOffset = type === 'annual' ? 1 : 4;
+
+  return periods.map((period, index) => {
+    const trailing = getTrailingFigures(periods, index);
+    const previous = index >= yearAgoOffset ? getTrailingFigures(periods, index - yearAgoOffset) : null;
+    const { balance } = period;
+    const shares = balance.sharesOutstanding;
+    const netIncome = trailing?.income.netIncome ?? null;
+    const revenue = trailing?.income.revenue ?? null;
+    const dividendsPaid = trailing?.cashFlow.dividendsPaid ?? null;
+
+    return {
+      periodEnd: period.periodEnd,
+      type,
+      roe: ratio(netIncome, balance.totalEquity, 100),
+      roa: ratio(netIncome, balance.totalAssets, 100),
+      der: ratio(balance.totalLiabilities, balance.totalEquity),
+      debtToEquity: ratio(balance.totalDebt, balance.totalEquity),
+      gpm: ratio(trailing?.income.grossProfit ?? null, revenue, 100),
+      opm: ratio(trailing?.income.operatingIncome ?? null, revenue, 100),
+      npm: ratio(netIncome, revenue, 100),
+      revenueGrowth: growth(revenue, previous?.income.revenue ?? null),
+      netIncomeGrowth: growth(netIncome, previous?.income.netIncome ?? null),
+      epsTtm: trailing?.income.eps ?? ratio(netIncome, shares),
+      bvps: ratio(balance.totalEquity, shares),
+      fcfPerShare: ratio(trailing?.cashFlow.freeCashFlow ?? null, shares),
+      dividendPerShare: dividendsPaid !== null ? ratio(-dividendsPaid, shares) : null,
+    };
+  });
+};
+
+// ============ Valuation Bands ============
+
+interface PublishedFundamentals {
+  availableAt: number;
+  epsTtm: number | null;
+  bvps: number | null;
+}
+
+// EPS TTM & BVPS menurut tanggal laporan tersedia untuk publik
+const getPublishedFundamentals = (statements: FinancialStatements): PublishedFundamentals[] =>
+  (['annual', 'quarterly'] as FinancialPeriodType[])
+    .flatMap(type => computeFinancialRatios(statements, type).map(r => ({
+      availableAt: new Date(r.periodEnd).getTime() + REPORTING_LAG_DAYS[type] * DAY_MS,
+      epsTtm: r.epsTtm,
+      bvps: r.bvps,
+    })))
+    .filter(f => f.epsTtm !== null || f.bvps !== null)
+    .sort((a, b) => a.availableAt - b.availableAt);
+
+const bandStats = (values: (number | null)[], current: number | null): ValuationBandStats | null => {
+  const valid = values.filter((v): v is number => v !== null);
+  if (valid.length < 2) return null;
+  const mean = valid.reduce((sum, v) => sum + v, 0) / valid.length;
+  const variance = valid.reduce((sum, v) => sum + (v - mean) ** 2, 0) / valid.length;
+  return { mean, stdDev: Math.sqrt(variance), min: Math.min(...valid), max: Math.max(...valid), current };
+};
+
+/**
+ * Historical P/E & P/B from daily prices and the fundamentals published at each date
+ * P/E hanya dihitung untuk EPS TTM positif.
+ * @param currentPrice - Harga live untuk nilai "current" (default: close terakhir)
+ */
+export const buildValuationBands = (
+  history: StockData[],
+  statements: FinancialStatements,
+  currentPrice?: number
+): { points: ValuationBandPoint[]; pe: ValuationBandStats | null; pb: ValuationBandStats | null } => {
+  const published = getPublishedFundamentals(statements);
+  const points: ValuationBandPoint[] = [];
+  let cursor = -1;
+
+  history.forEach(bar => {
+    if (bar.timestamp === undefined || bar.close <= 0) return;
+    while (cursor + 1 < published.length && published[cursor + 1].availableAt <= bar.timestamp) cursor++;
+    if (cursor < 0) return;
+
+    // Ambil EPS & BVPS terakhir yang tersedia (laporan terbaru bisa hanya memuat salah satunya)
+    const eps = published.slice(0, cursor + 1).reverse().find(f => f.epsTtm !== null)?.epsTtm ?? null;
+    const bvps = published.slice(0, cursor + 1).reverse().find(f => f.bvps !== null)?.bvps ?? null;
+    points.push({
+      date: new Date(bar.timestamp).toISOString().split('T')[0],
+      timestamp: bar.timestamp,
+      price: bar.close,
+      pe: eps !== null && eps > 0 ? Math.round((bar.close / eps) * 100) / 100 : null,
+      pb: bvps !== null && bvps > 0 ? Math.round((bar.close / bvps) * 100) / 100 : null,
+    });
+  });
+
+  const last = points[points.length - 1];
+  const priceNow = currentPrice ?? last?.price;
+  const scale = last && priceNow ? priceNow / last.price : 1;
+  return {
+    points,
+    pe: bandStats(points.map(p => p.pe), last?.pe != null ? last.pe * scale : null),
+    pb: bandStats(points.map(p => p.pb), last?.pb != null ? last.pb * scale : null),
+  };
+};
+
+export default {
+  buildYahooFundamentalsUrl,
+  parseYahooFundamentals,
+  buildYahooFxUrl,
+  parseYahooFxHistory,
+  convertStatements,
+  computeFinancialRatios,
+  buildValuationBands,
+};
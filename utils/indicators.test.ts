@@ -0,0 +1,231 @@
+import { describe, it, expect } from 'vitest';
+import { StockData } from '../types';
+import {
+  IndicatorSeries,
+  calculateRSI,
+  calculateATR,
+  calculateADX,
+  calculateMACD,
+  calculateBollingerBands,
+  calculateStochastic,
+  calculateOBV,
+  calculateVWAP,
+  calculateIchimoku,
+  calculateParabolicSAR,
+} from './indicators';
+
+/**
+ * Reference series
+ *
+ * - Close: data contoh RSI StockCharts ChartSchool (cs-rsi.xls, 33 bar); RSI(14) yang diharapkan
+ *   adalah kolom RSI spreadsheet tersebut (presisi penuh, tanpa pembulatan avg gain/loss)
+ * - High/low/volume: dibentuk deterministik dari close supaya bar punya range yang bervariasi;
+ *   nilai ATR/ADX/MACD/Bollinger/Stochastic/OBV/VWAP/PSAR/Ichimoku yang diharapkan dicocokkan
+ *   dengan implementasi independen (technicalindicators 3.1.0) untuk data yang sama
+ */
+const CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28,
+  46.00, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57,
+  43.42, 42.66, 43.13,
+];
+
+const BARS: StockData[] = CLOSES.map((close, i) => ({
+  time: `D${i}`,
+  open: close,
+  high: close + 0.3 + (i % 3) * 0.1,
+  low: close - 0.25 - (i % 4) * 0.05,
+  close,
+  volume: 1000 + i * 37,
+}));
+
+const round = (series: IndicatorSeries, decimals: number) =>
+  series.map(v => (v === null ? null : Number(v.toFixed(decimals))));
+
+const firstIndex = (series: IndicatorSeries) => series.findIndex(v => v !== null);
+
+describe('calculateRSI', () => {
+  it('matches the StockCharts RSI(14) reference column', () => {
+    expect(round(calculateRSI(BARS, 14).slice(14), 2)).toEqual([
+      70.46, 66.25, 66.48, 69.35, 66.29, 57.92, 62.88, 63.21, 56.01, 62.34, 54.67, 50.39, 40.02, 41.49,
+      41.90, 45.50, 37.32, 33.09, 37.79,
+    ]);
+  });
+
+  it('warms up for `period` bars and keeps the input length', () => {
+    const rsi = calculateRSI(BARS, 14);
+    expect(rsi).toHaveLength(BARS.length);
+    expect(firstIndex(rsi)).toBe(14);
+  });
+
+  it('returns only nulls when there are not enough bars', () => {
+    expect(calculateRSI(BARS.slice(0, 14), 14)).toEqual(new Array(14).fill(null));
+    expect(calculateRSI([], 14)).toEqual([]);
+  });
+
+  it('is 100 for a series that only rises and 50 for a flat series', () => {
+    const rising = CLOSES.map((_, i) => ({ ...BARS[i], close: 100 + i }));
+    const flat = CLOSES.map((_, i) => ({ ...BARS[i], close: 100 }));
+    expect(calculateRSI(rising, 14)[20]).toBe(100);
+    expect(calculateRSI(flat, 14)[20]).toBe(50);
+  });
+});
+
+describe('calculateATR', () => {
+  it('matches the reference ATR(14)', () => {
+    expect(round(calculateATR(BARS, 14).slice(14), 4)).toEqual([
+      0.8443, 0.8340, 0.8208, 0.8251, 0.8126, 0.8245, 0.8421, 0.8248, 0.8294, 0.8588, 0.8631, 0.8536, 0.9119,
+      0.8968, 0.8792, 0.8771, 0.9216, 0.9386, 0.9408,
+    ]);
+  });
+
+  it('skips the first true range, so the first value is at index `period`', () => {
+    expect(firstIndex(calculateATR(BARS, 14))).toBe(14);
+    expect(calculateATR(BARS.slice(0, 14), 14).every(v => v === null)).toBe(true);
+  });
+
+  it('equals the bar range when every bar has the same range and no gaps', () => {
+    const bars = Array.from({ length: 20 }, (_, i) => ({ time: `D${i}`, open: 10, high: 11, low: 9, close: 10, volume: 1 }));
+    expect(calculateATR(bars, 5)[19]).toBeCloseTo(2, 10);
+  });
+});
+
+describe('calculateADX', () => {
+  const { adx, plusDI, minusDI } = calculateADX(BARS, 5);
+
+  it('matches the reference ADX(5) and DI lines', () => {
+    expect(round(adx.slice(9, 13), 4)).toEqual([43.9451, 42.3292, 43.0020, 38.3745]);
+    expect(round(plusDI.slice(9, 13), 4)).toEqual([34.5979, 28.1193, 27.8007, 23.0892]);
+    expect(round(minusDI.slice(9, 13), 4)).toEqual([8.9589, 13.2735, 10.3628, 15.4362]);
+  });
+
+  it('needs `period` bars for DI and `2 * period - 1` for ADX', () => {
+    expect(firstIndex(plusDI)).toBe(5);
+    expect(firstIndex(minusDI)).toBe(5);
+    expect(firstIndex(adx)).toBe(9);
+    expect(calculateADX(BARS.slice(0, 9), 5).adx.every(v => v === null)).toBe(true);
+  });
+});
+
+describe('calculateMACD', () => {
+  const { macdLine, signalLine, histogram } = calculateMACD(BARS, 5, 10, 4);
+
+  it('matches the reference MACD(5, 10, 4)', () => {
+    expect(round(macdLine.slice(9, 15), 4)).toEqual([0.7106, 0.6421, 0.5870, 0.4577, 0.4610, 0.4348]);
+    expect(round(signalLine.slice(12, 15), 4)).toEqual([0.5993, 0.5440, 0.5003]);
+    expect(round(histogram.slice(12, 15), 4)).toEqual([-0.1416, -0.0830, -0.0655]);
+  });
+
+  it('starts the MACD line at the slow EMA and the signal `signalPeriod - 1` bars later', () => {
+    expect(firstIndex(macdLine)).toBe(9);
+    expect(firstIndex(signalLine)).toBe(12);
+    expect(firstIndex(histogram)).toBe(12);
+  });
+
+  it('returns only nulls when shorter than the slow period', () => {
+    const short = calculateMACD(BARS.slice(0, 9), 5, 10, 4);
+    expect(short.macdLine.every(v => v === null)).toBe(true);
+    expect(short.signalLine.every(v => v === null)).toBe(true);
+  });
+});
+
+describe('calculateBollingerBands', () => {
+  const { upper, middle, lower } = calculateBollingerBands(BARS, 20, 2);
+
+  it('matches the reference Bollinger Bands(20, 2)', () => {
+    expect(round(middle.slice(19, 23), 4)).toEqual([45.409, 45.5025, 45.6105, 45.6885]);
+    expect(round(upper.slice(19, 23), 4)).toEqual([47.1153, 47.1687, 47.1733, 47.1004]);
+    expect(round(lower.slice(19, 23), 4)).toEqual([43.7027, 43.8363, 44.0477, 44.2766]);
+  });
+
+  it('warms up for `period - 1` bars', () => {
+    expect(firstIndex(middle)).toBe(19);
+    expect(firstIndex(upper)).toBe(19);
+    expect(calculateBollingerBands(BARS.slice(0, 19), 20).middle.every(v => v === null)).toBe(true);
+  });
+});
+
+describe('calculateStochastic', () => {
+  const { k, d } = calculateStochastic(BARS, 14, 3, 1);
+
+  it('matches the reference Stochastic(14, 3)', () => {
+    expect(round(k.slice(13, 18), 4)).toEqual([88.4726, 85.9944, 78.1513, 78.9916, 82.3322]);
+    expect(round(d.slice(15, 18), 4)).toEqual([84.2061, 81.0458, 79.8250]);
+  });
+
+  it('starts %K at `kPeriod - 1` and %D `dPeriod - 1` bars later', () => {
+    expect(firstIndex(k)).toBe(13);
+    expect(firstIndex(d)).toBe(15);
+  });
+
+  it('reads 50 when the high/low range is flat', () => {
+    const flat = Array.from({ length: 5 }, (_, i) => ({ time: `D${i}`, open: 10, high: 10, low: 10, close: 10, volume: 1 }));
+    expect(calculateStochastic(flat, 3, 3).k.slice(2)).toEqual([50, 50, 50]);
+  });
+});
+
+describe('calculateOBV', () => {
+  it('matches the reference OBV and starts at 0', () => {
+    expect(calculateOBV(BARS).slice(0, 7)).toEqual([0, -1037, 37, -1074, 74, 1259, 2481]);
+  });
+
+  it('ignores volume on unchanged closes and handles empty input', () => {
+    expect(calculateOBV(BARS.slice(13, 15)).slice(1)).toEqual([0]);
+    expect(calculateOBV([])).toEqual([]);
+  });
+});
+
+describe('calculateVWAP', () => {
+  it('matches the reference cumulative VWAP', () => {
+    expect(round(calculateVWAP(BARS).slice(0, 4), 4)).toEqual([44.3567, 44.2379, 44.2248, 44.0542]);
+  });
+
+  it('weights the typical price by volume and is null until volume trades', () => {
+    const bars = [
+      { time: 'D0', open: 10, high: 12, low: 8, close: 10, volume: 0 },
+      { time: 'D1', open: 10, high: 12, low: 9, close: 12, volume: 100 },
+      { time: 'D2', open: 12, high: 15, low: 12, close: 15, volume: 300 },
+    ];
+    // Typical price 11 x 100 dan 14 x 300 -> (1100 + 4200) / 400
+    expect(calculateVWAP(bars)).toEqual([null, 11, 13.25]);
+  });
+});
+
+describe('calculateIchimoku', () => {
+  const { tenkan, kijun, senkouA, senkouB, chikou } = calculateIchimoku(BARS, 3, 5, 8, 5);
+
+  it('matches the reference conversion/base lines and spans', () => {
+    expect(round(tenkan.slice(7, 10), 4)).toEqual([45.175, 45.545, 45.7]);
+    expect(round(kijun.slice(7, 10), 4)).toEqual([44.515, 45.21, 45.455]);
+    // Span dihitung pada bar 7..9 lalu digeser maju sebesar displacement (5)
+    expect(round(senkouA.slice(12, 15), 4)).toEqual([44.845, 45.3775, 45.5775]);
+    expect(round(senkouB.slice(12, 15), 4)).toEqual([44.515, 44.775, 44.795]);
+  });
+
+  it('aligns warm-up and displacement with the plotted bar', () => {
+    expect(firstIndex(tenkan)).toBe(2);
+    expect(firstIndex(kijun)).toBe(4);
+    expect(firstIndex(senkouA)).toBe(9);
+    expect(firstIndex(senkouB)).toBe(12);
+    expect(chikou[0]).toBe(CLOSES[5]);
+    expect(chikou.slice(-5).every(v => v === null)).toBe(true);
+  });
+
+  it('returns only nulls on input shorter than every window', () => {
+    const short = calculateIchimoku(BARS.slice(0, 2), 3, 5, 8, 5);
+    expect([...short.tenkan, ...short.kijun, ...short.senkouA, ...short.senkouB, ...short.chikou].every(v => v === null)).toBe(true);
+  });
+});
+
+describe('calculateParabolicSAR', () => {
+  const { sar, trend } = calculateParabolicSAR(BARS);
+
+  it('matches the reference PSAR(0.02, 0.2)', () => {
+    expect(round(sar.slice(1, 10), 4)).toEqual([44.64, 43.79, 44.65, 43.21, 43.21, 43.2948, 43.4211, 43.613, 43.8857]);
+    expect(trend.slice(1, 6)).toEqual(['down', 'up', 'down', 'up', 'up']);
+  });
+
+  it('has no value on the first bar and none at all for fewer than two bars', () => {
+    expect(sar[0]).toBeNull();
+    expect(calculateParabolicSAR(BARS.slice(0, 1))).toEqual({ sar: [null], trend: [null] });
+  });
+});
@@ -0,0 +1,496 @@
+/**
+ * Technical Indicators
+ * Shared indicator library operating on StockData[] so every panel shows the same values.
+ *
+ * Semua series dikembalikan sejajar dengan input (panjang sama).
+ * Bar yang belum punya cukup data (warm-up) bernilai null.
+ */
+
+import { StockData } from '../types';
+
+export type IndicatorSeries = (number | null)[];
+
+type PriceKey = 'open' | 'high' | 'low' | 'close' | 'volume';
+
+export interface MACDResult {
+  macdLine: IndicatorSeries;
+  signalLine: IndicatorSeries;
+  histogram: IndicatorSeries;
+}
+
+export interface BollingerBandsResult {
+  upper: IndicatorSeries;
+  middle: IndicatorSeries;
+  lower: IndicatorSeries;
+}
+
+export interface StochasticResult {
+  k: IndicatorSeries;
+  d: IndicatorSeries;
+}
+
+export interface ADXResult {
+  adx: IndicatorSeries;
+  plusDI: IndicatorSeries;
+  minusDI: IndicatorSeries;
+}
+
+export interface IchimokuResult {
+  tenkan: IndicatorSeries;
+  kijun: IndicatorSeries;
+  senkouA: IndicatorSeries;  // Sudah digeser ke depan sebesar displacement
+  senkouB: IndicatorSeries;  // Sudah digeser ke depan sebesar displacement
+  chikou: IndicatorSeries;   // Close digeser ke belakang sebesar displacement
+}
+
+export interface ParabolicSARResult {
+  sar: IndicatorSeries;
+  trend: ('up' | 'down' | null)[];
+}
+
+// --- Series primitives ---
+
+const emptySeries = (length: number): IndicatorSeries => new Array(length).fill(null);
+
+const pluck = (data: StockData[], key: PriceKey): number[] => data.map(d => d[key]);
+
+/**
+ * Simple moving average over a numeric series (nulls are treated as gaps)
+ */
+export const sma = (values: IndicatorSeries, period: number): IndicatorSeries => {
+  const result = emptySeries(values.length);
+  let sum = 0;
+  let count = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) {
+      sum = 0;
+      count = 0;
+      continue;
+    }
+    sum += value;
+    count++;
+    if (count > period) {
+      sum -= values[i - period] as number;
+      count = period;
+    }
+    if (count === period) {
+      result[i] = sum / period;
+    }
+  }
+  return result;
+};
+
+/**
+ * Exponential moving average, seeded with the SMA of the first `period` values
+ */
+export const ema = (values: IndicatorSeries, period: number): IndicatorSeries => {
+  const result = emptySeries(values.length);
+  const k = 2 / (period + 1);
+  const start = values.findIndex(v => v !== null);
+  if (start === -1 || values.length - start < period) return result;
+
+  let seed = 0;
+  for (let i = start; i < start + period; i++) {
+    seed += values[i] as number;
+  }
+  let prev = seed / period;
+  result[start + period - 1] = prev;
+
+  for (let i = start + period; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) continue;
+    prev = value * k + prev * (1 - k);
+    result[i] = prev;
+  }
+  return result;
+};
+
+/**
+ * Wilder's smoothing (RMA), seeded with the SMA of the first `period` values
+ */
+export const wilderSmooth = (values: IndicatorSeries, period: number): IndicatorSeries => {
+  const result = emptySeries(values.length);
+  const start = values.findIndex(v => v !== null);
+  if (start === -1 || values.length - start < period) return result;
+
+  let seed = 0;
+  for (let i = start; i < start + period; i++) {
+    seed += values[i] as number;
+  }
+  let prev = seed / period;
+  result[start + period - 1] = prev;
+
+  for (let i = start + period; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) continue;
+    prev = (prev * (period - 1) + value) / period;
+    result[i] = prev;
+  }
+  return result;
+};
+
+/**
+ * Population standard deviation over a rolling window
+ */
+export const rollingStdDev = (values: number[], period: number): IndicatorSeries => {
+  const result = emptySeries(values.length);
+  for (let i = period - 1; i < values.length; i++) {
+    let sum = 0;
+    for (let j = i - period + 1; j <= i; j++) sum += values[j];
+    const mean = sum / period;
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) variance += (values[j] - mean) ** 2;
+    result[i] = Math.sqrt(variance / period);
+  }
+  return result;
+};
+
+const rollingExtreme = (values: number[], period: number, pick: 'max' | 'min'): IndicatorSeries => {
+  const result = emptySeries(values.length);
+  for (let i = period - 1; i < values.length; i++) {
+    let extreme = values[i];
+    for (let j = i - period + 1; j < i; j++) {
+      extreme = pick === 'max' ? Math.max(extreme, values[j]) : Math.min(extreme, values[j]);
+    }
+    result[i] = extreme;
+  }
+  return result;
+};
+
+/**
+ * Get the latest non-null value of a series
+ */
+export const lastValue = (series: IndicatorSeries, fallback: number | null = null): number | null => {
+  for (let i = series.length - 1; i >= 0; i--) {
+    const value = series[i];
+    if (value !== null) return value;
+  }
+  return fallback;
+};
+
+// --- Price indicators ---
+
+/**
+ * Simple Moving Average of a StockData field
+ */
+export const calculateSMA = (data: StockData[], period: number, key: PriceKey = 'close'): IndicatorSeries => {
+  return sma(pluck(data, key), period);
+};
+
+/**
+ * Exponential Moving Average of a StockData field
+ */
+export const calculateEMA = (data: StockData[], period: number, key: PriceKey = 'close'): IndicatorSeries => {
+  return ema(pluck(data, key), period);
+};
+
+/**
+ * Relative Strength Index with Wilder smoothing
+ * First value appears at index `period`.
+ */
+export const calculateRSI = (data: StockData[], period: number = 14): IndicatorSeries => {
+  const result = emptySeries(data.length);
+  if (data.length <= period) return result;
+
+  let gains = 0;
+  let losses = 0;
+  for (let i = 1; i <= period; i++) {
+    const diff = data[i].close - data[i - 1].close;
+    if (diff > 0) gains += diff;
+    else losses -= diff;
+  }
+
+  let avgGain = gains / period;
+  let avgLoss = losses / period;
+  const toRSI = () => (avgLoss === 0 ? (avgGain === 0 ? 50 : 100) : 100 - 100 / (1 + avgGain / avgLoss));
+  result[period] = toRSI();
+
+  for (let i = period + 1; i < data.length; i++) {
+    const diff = data[i].close - data[i - 1].close;
+    avgGain = (avgGain * (period - 1) + Math.max(diff, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-diff, 0)) / period;
+    result[i] = toRSI();
+  }
+  return result;
+};
+
+/**
+ * MACD (fast EMA - slow EMA) with EMA signal line and histogram
+ */
+export const calculateMACD = (
+  data: StockData[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): MACDResult => {
+  const emaFast = calculateEMA(data, fastPeriod);
+  const emaSlow = calculateEMA(data, slowPeriod);
+
+  const macdLine: IndicatorSeries = emaFast.map((fast, i) => {
+    const slow = emaSlow[i];
+    return fast !== null && slow !== null ? fast - slow : null;
+  });
+  const signalLine = ema(macdLine, signalPeriod);
+  const histogram: IndicatorSeries = macdLine.map((macd, i) => {
+    const signal = signalLine[i];
+    return macd !== null && signal !== null ? macd - signal : null;
+  });
+
+  return { macdLine, signalLine, histogram };
+};
+
+/**
+ * Bollinger Bands (SMA ± multiplier × population std dev)
+ */
+export const calculateBollingerBands = (
+  data: StockData[],
+  period: number = 20,
+  multiplier: number = 2
+): BollingerBandsResult => {
+  const closes = pluck(data, 'close');
+  const middle = sma(closes, period);
+  const deviation = rollingStdDev(closes, period);
+
+  const upper = middle.map((m, i) => (m !== null ? m + multiplier * (deviation[i] as number) : null));
+  const lower = middle.map((m, i) => (m !== null ? m - multiplier * (deviation[i] as number) : null));
+
+  return { upper, middle, lower };
+};
+
+/**
+ * True Range per bar (first bar uses high - low)
+ */
+export const calculateTrueRange = (data: StockData[]): number[] => {
+  return data.map((d, i) => {
+    if (i === 0) return d.high - d.low;
+    const prevClose = data[i - 1].close;
+    return Math.max(d.high - d.low, Math.abs(d.high - prevClose), Math.abs(d.low - prevClose));
+  });
+};
+
+/**
+ * Average True Range with Wilder smoothing
+ * First value appears at index `period` (TR of the first bar is skipped).
+ */
+export const calculateATR = (data: StockData[], period: number = 14): IndicatorSeries => {
+  const tr: IndicatorSeries = calculateTrueRange(data);
+  tr[0] = null;
+  return wilderSmooth(tr, period);
+};
+
+/**
+ * Stochastic Oscillator (%K smoothed by `smoothK`, %D = SMA of %K)
+ */
+export const calculateStochastic = (
+  data: StockData[],
+  kPeriod: number = 14,
+  dPeriod: number = 3,
+  smoothK: number = 1
+): StochasticResult => {
+  const highest = rollingExtreme(pluck(data, 'high'), kPeriod, 'max');
+  const lowest = rollingExtreme(pluck(data, 'low'), kPeriod, 'min');
+
+  const rawK: IndicatorSeries = data.map((d, i) => {
+    const hh = highest[i];
+    const ll = lowest[i];
+    if (hh === null || ll === null) return null;
+    return hh === ll ? 50 : ((d.close - ll) / (hh - ll)) * 100;
+  });
+
+  const k = smoothK > 1 ? sma(rawK, smoothK) : rawK;
+  const d = sma(k, dPeriod);
+  return { k, d };
+};
+
+/**
+ * Average Directional Index with +DI / -DI (Wilder)
+ */
+export const calculateADX = (data: StockData[], period: number = 14): ADXResult => {
+  const length = data.length;
+  const plusDM: IndicatorSeries = emptySeries(length);
+  const minusDM: IndicatorSeries = emptySeries(length);
+  const tr: IndicatorSeries = calculateTrueRange(data);
+  tr[0] = null;
+
+  for (let i = 1; i < length; i++) {
+    const upMove = data[i].high - data[i - 1].high;
+    const downMove = data[i - 1].low - data[i].low;
+    plusDM[i] = upMove > downMove && upMove > 0 ? upMove : 0;
+    minusDM[i] = downMove > upMove && downMove > 0 ? downMove : 0;
+  }
+
+  const smoothTR = wilderSmooth(tr, period);
+  const smoothPlus = wilderSmooth(plusDM, period);
+  const smoothMinus = wilderSmooth(minusDM, period);
+
+  const plusDI = emptySeries(length);
+  const minusDI = emptySeries(length);
+  const dx = emptySeries(length);
+
+  for (let i = 0; i < length; i++) {
+    const trValue = smoothTR[i];
+    if (trValue === null || smoothPlus[i] === null || smoothMinus[i] === null) continue;
+    const pdi = trValue === 0 ? 0 : ((smoothPlus[i] as number) / trValue) * 100;
+    const mdi = trValue === 0 ? 0 : ((smoothMinus[i] as number) / trValue) * 100;
+    plusDI[i] = pdi;
+    minusDI[i] = mdi;
+    dx[i] = pdi + mdi === 0 ? 0 : (Math.abs(pdi - mdi) / (pdi + mdi)) * 100;
+  }
+
+  return { adx: wilderSmooth(dx, period), plusDI, minusDI };
+};
+
+/**
+ * On-Balance Volume (cumulative, starts at 0)
+ */
+export const calculateOBV = (data: StockData[]): number[] => {
+  const result: number[] = [];
+  let obv = 0;
+  data.forEach((d, i) => {
+    if (i > 0) {
+      if (d.close > data[i - 1].close) obv += d.volume;
+      else if (d.close < data[i - 1].close) obv -= d.volume;
+    }
+    result.push(obv);
+  });
+  return result;
+};
+
+/**
+ * Volume Weighted Average Price, cumulative from the first bar of `data`
+ * Untuk VWAP intraday, kirim hanya bar dari sesi yang sama.
+ */
+export const calculateVWAP = (data: StockData[]): IndicatorSeries => {
+  let cumulativePV = 0;
+  let cumulativeVolume = 0;
+  return data.map(d => {
+    const typicalPrice = (d.high + d.low + d.close) / 3;
+    cumulativePV += typicalPrice * d.volume;
+    cumulativeVolume += d.volume;
+    return cumulativeVolume > 0 ? cumulativePV / cumulativeVolume : null;
+  });
+};
+
+/**
+ * Ichimoku Kinko Hyo (9/26/52 default)
+ * Senkou spans are shifted forward and chikou backward so every line
+ * is aligned to the bar it is plotted on.
+ */
+export const calculateIchimoku = (
+  data: StockData[],
+  tenkanPeriod: number = 9,
+  kijunPeriod: number = 26,
+  senkouBPeriod: number = 52,
+  displacement: number = 26
+): IchimokuResult => {
+  const highs = pluck(data, 'high');
+  const lows = pluck(data, 'low');
+
+  const midpoint = (period: number): IndicatorSeries => {
+    const hh = rollingExtreme(highs, period, 'max');
+    const ll = rollingExtreme(lows, period, 'min');
+    return hh.map((h, i) => (h !== null && ll[i] !== null ? (h + (ll[i] as number)) / 2 : null));
+  };
+
+  const tenkan = midpoint(tenkanPeriod);
+  const kijun = midpoint(kijunPeriod);
+  const spanB = midpoint(senkouBPeriod);
+
+  const senkouA = emptySeries(data.length);
+  const senkouB = emptySeries(data.length);
+  const chikou = emptySeries(data.length);
+
+  for (let i = 0; i < data.length; i++) {
+    const source = i - displacement;
+    if (source >= 0) {
+      const t = tenkan[source];
+      const k = kijun[source];
+      senkouA[i] = t !== null && k !== null ? (t + k) / 2 : null;
+      senkouB[i] = spanB[source];
+    }
+    if (i + displacement < data.length) {
+      chikou[i] = data[i + displacement].close;
+    }
+  }
+
+  return { tenkan, kijun, senkouA, senkouB, chikou };
+};
+
+/**
+ * Parabolic SAR (Wilder) with acceleration step and cap
+ */
+export const calculateParabolicSAR = (
+  data: StockData[],
+  step: number = 0.02,
+  maxStep: number = 0.2
+): ParabolicSARResult => {
+  const sar = emptySeries(data.length);
+  const trend: ('up' | 'down' | null)[] = new Array(data.length).fill(null);
+  if (data.length < 2) return { sar, trend };
+
+  let isUp = data[1].close >= data[0].close;
+  let af = step;
+  let extreme = isUp ? Math.max(data[0].high, data[1].high) : Math.min(data[0].low, data[1].low);
+  let current = isUp ? Math.min(data[0].low, data[1].low) : Math.max(data[0].high, data[1].high);
+  sar[1] = current;
+  trend[1] = isUp ? 'up' : 'down';
+
+  for (let i = 2; i < data.length; i++) {
+    let next = current + af * (extreme - current);
+
+    if (isUp) {
+      // SAR tidak boleh di atas low dua bar sebelumnya
+      next = Math.min(next, data[i - 1].low, data[i - 2].low);
+      if (data[i].low < next) {
+        isUp = false;
+        next = extreme;
+        extreme = data[i].low;
+        af = step;
+      } else if (data[i].high > extreme) {
+        extreme = data[i].high;
+        af = Math.min(af + step, maxStep);
+      }
+    } else {
+      // SAR tidak boleh di bawah high dua bar sebelumnya
+      next = Math.max(next, data[i - 1].high, data[i - 2].high);
+      if (data[i].high > next) {
+        isUp = true;
+        next = extreme;
+        extreme = data[i].high;
+        af = step;
+      } else if (data[i].low < extreme) {
+        extreme = data[i].low;
+        af = Math.min(af + step, maxStep);
+      }
+    }
+
+    current = next;
+    sar[i] = current;
+    trend[i] = isUp ? 'up' : 'down';
+  }
+
+  return { sar, trend };
+};
+
+export default {
+  sma,
+  ema,
+  wilderSmooth,
+  rollingStdDev,
+  lastValue,
+  calculateSMA,
+  calculateEMA,
+  calculateRSI,
+  calculateMACD,
+  calculateBollingerBands,
+  calculateTrueRange,
+  calculateATR,
+  calculateStochastic,
+  calculateADX,
+  calculateOBV,
+  calculateVWAP,
+  calculateIchimoku,
+  calculateParabolicSAR,
+};
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getTickSize,
+  roundToTick,
+  isValidTick,
+  stepTicks,
+  buildPriceLadder,
+  getAutoRejectionLimits,
+  isWithinAutoRejection,
+  toTradablePrice,
+  usesIdxRules,
+} from './marketRules';
+
+describe('tick size bands', () => {
+  it('uses the fraction of the band the price falls in (batas bawah inklusif)', () => {
+    expect([199, 200, 499, 500, 1995, 2000, 4990, 5000, 9500].map(getTickSize)).toEqual([1, 2, 2, 5, 5, 10, 10, 25, 25]);
+  });
+
+  it('rounds in the requested direction', () => {
+    expect(roundToTick(9512)).toBe(9500);
+    expect(roundToTick(9512, 'up')).toBe(9525);
+    expect(roundToTick(2003, 'down')).toBe(2000);
+    expect(isValidTick(505)).toBe(true);
+    expect(isValidTick(502)).toBe(false);
+  });
+
+  it('re-rounds with the next band tick when rounding crosses a band', () => {
+    expect(roundToTick(499)).toBe(500);
+    expect(roundToTick(1998, 'up')).toBe(2000);
+    expect(roundToTick(4996)).toBe(5000);
+  });
+
+  it('never rounds a positive price to 0', () => {
+    expect(roundToTick(0.3)).toBe(1);
+    expect(roundToTick(0.3, 'down')).toBe(1);
+    expect(roundToTick(-5)).toBe(0);
+  });
+});
+
+describe('stepping across bands', () => {
+  it('uses the tick of the band at every step', () => {
+    expect(stepTicks(498, 1)).toBe(500);
+    expect(stepTicks(500, 1)).toBe(505);
+    expect(stepTicks(500, -1)).toBe(498);
+    expect(stepTicks(198, 3)).toBe(202);
+    expect(stepTicks(2000, -1)).toBe(1995);
+    expect(stepTicks(5000, -2)).toBe(4980);
+  });
+
+  it('builds a ladder that stops at price 1', () => {
+    expect(buildPriceLadder(497, 4, 'up')).toEqual([498, 500, 505, 510]);
+    expect(buildPriceLadder(2, 5, 'down')).toEqual([2, 1]);
+  });
+});
+
+describe('auto rejection limits', () => {
+  it('applies the ARA percentage of the reference band and a symmetric 15% ARB', () => {
+    expect(getAutoRejectionLimits(100)).toEqual({ referencePrice: 100, upper: 135, lower: 85 });
+    expect(getAutoRejectionLimits(1000)).toEqual({ referencePrice: 1000, upper: 1250, lower: 850 });
+    expect(getAutoRejectionLimits(9550)).toEqual({ referencePrice: 9550, upper: 11450, lower: 8125 });
+  });
+
+  it('keeps ARB at the minimum price', () => {
+    expect(getAutoRejectionLimits(55)).toEqual({ referencePrice: 55, upper: 74, lower: 50 });
+  });
+
+  it('clamps tradable prices into the limits', () => {
+    expect(isWithinAutoRejection(1250, 1000)).toBe(true);
+    expect(isWithinAutoRejection(1255, 1000)).toBe(false);
+    expect(toTradablePrice(1300.4, 'nearest', 1000)).toBe(1250);
+    expect(toTradablePrice(1300.4)).toBe(1300);
+  });
+
+  it('applies only to IDX tickers', () => {
+    expect(usesIdxRules()).toBe(true);
+    expect(usesIdxRules('IDX')).toBe(true);
+    expect(usesIdxRules('US')).toBe(false);
+    expect(usesIdxRules('CRYPTO')).toBe(false);
+  });
+});
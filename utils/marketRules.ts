@@ -0,0 +1,177 @@
+/**
+ * IDX Market Rules
+ * Lot size, price fraction (fraksi harga) and auto-rejection (ARA/ARB) rules
+ * for the Indonesia Stock Exchange
+ */
+
+// 1 lot = 100 lembar
+export const IDX_LOT_SIZE = 100;
+
+// Harga minimum saham di papan utama/pengembangan
+export const IDX_MIN_PRICE = 50;
+
+export interface TickSizeBand {
+  minPrice: number;  // Inklusif
+  maxPrice: number;  // Eksklusif
+  tickSize: number;
+}
+
+// Fraksi harga IDX
+export const TICK_SIZE_BANDS: TickSizeBand[] = [
+  { minPrice: 0, maxPrice: 200, tickSize: 1 },
+  { minPrice: 200, maxPrice: 500, tickSize: 2 },
+  { minPrice: 500, maxPrice: 2000, tickSize: 5 },
+  { minPrice: 2000, maxPrice: 5000, tickSize: 10 },
+  { minPrice: 5000, maxPrice: Infinity, tickSize: 25 },
+];
+
+export interface AutoRejectionBand {
+  minPrice: number;    // Harga acuan (prev close) inklusif
+  maxPrice: number;    // Eksklusif
+  araPercent: number;  // Auto Rejection Atas
+  arbPercent: number;  // Auto Rejection Bawah
+}
+
+// Batas auto rejection berdasarkan harga acuan (ARB simetris 15% sesuai ketentuan BEI terbaru)
+export const AUTO_REJECTION_BANDS: AutoRejectionBand[] = [
+  { minPrice: 0, maxPrice: 200, araPercent: 35, arbPercent: 15 },
+  { minPrice: 200, maxPrice: 5000, araPercent: 25, arbPercent: 15 },
+  { minPrice: 5000, maxPrice: Infinity, araPercent: 20, arbPercent: 15 },
+];
+
+export interface AutoRejectionLimits {
+  referencePrice: number;
+  upper: number;  // ARA
+  lower: number;  // ARB
+}
+
+export type TickRounding = 'nearest' | 'up' | 'down';
+
+/**
+ * Get the tick size (fraksi harga) for a price level
+ */
+export const getTickSize = (price: number): number => {
+  const band = TICK_SIZE_BANDS.find(b => price >= b.minPrice && price < b.maxPrice);
+  return band ? band.tickSize : TICK_SIZE_BANDS[TICK_SIZE_BANDS.length - 1].tickSize;
+};
+
+/**
+ * Round a price to a valid IDX tick
+ * @param price - Raw price
+ * @param mode - 'nearest' (default), 'up' for buy limits, 'down' for sell limits
+ */
+export const roundToTick = (price: number, mode: TickRounding = 'nearest'): number => {
+  if (!isFinite(price) || price <= 0) return 0;
+
+  const tick = getTickSize(price);
+  const steps = price / tick;
+  let rounded: number;
+  if (mode === 'up') rounded = Math.ceil(steps - 1e-9) * tick;
+  else if (mode === 'down') rounded = Math.floor(steps + 1e-9) * tick;
+  else rounded = Math.round(steps) * tick;
+  // Harga positif tidak pernah dibulatkan menjadi 0: harga valid terendah adalah 1 tick
+  if (rounded <= 0) return tick;
+
+  // Rounding can cross into the next band (e.g. 499 -> 500), re-check with that band's tick
+  const finalTick = getTickSize(rounded);
+  if (finalTick !== tick && rounded % finalTick !== 0) {
+    return roundToTick(rounded, mode);
+  }
+  return rounded;
+};
+
+/**
+ * Check whether a price sits exactly on a valid tick
+ */
+export const isValidTick = (price: number): boolean => {
+  return price > 0 && price % getTickSize(price) === 0;
+};
+
+/**
+ * Move a price by a number of ticks (positif = naik, negatif = turun)
+ * Fraksi mengikuti band di setiap langkah, mis. 498 + 1 tick = 500 dan 500 + 1 tick = 505.
+ */
+export const stepTicks = (price: number, ticks: number): number => {
+  let stepped = roundToTick(price);
+  for (let i = 0; i < Math.abs(ticks); i++) {
+    stepped = ticks > 0 ? stepped + getTickSize(stepped) : stepped - getTickSize(stepped - 1);
+  }
+  return Math.max(stepped, 0);
+};
+
+/**
+ * Consecutive valid prices starting at a price (inklusif), berhenti di harga 1
+ * @param direction - 'up' for the ask side, 'down' for the bid side
+ */
+export const buildPriceLadder = (start: number, levels: number, direction: 'up' | 'down'): number[] => {
+  const ladder: number[] = [];
+  let price = roundToTick(start, direction === 'up' ? 'up' : 'down');
+  while (ladder.length < levels && price >= 1) {
+    ladder.push(price);
+    price = stepTicks(price, direction === 'up' ? 1 : -1);
+  }
+  return ladder;
+};
+
+/**
+ * Compute ARA/ARB price limits from the reference (previous close) price
+ * ARA dibulatkan ke bawah dan ARB ke atas agar tetap di dalam batas.
+ */
+export const getAutoRejectionLimits = (referencePrice: number): AutoRejectionLimits => {
+  const band = AUTO_REJECTION_BANDS.find(b => referencePrice >= b.minPrice && referencePrice < b.maxPrice)
+    || AUTO_REJECTION_BANDS[AUTO_REJECTION_BANDS.length - 1];
+
+  const upper = roundToTick(referencePrice * (1 + band.araPercent / 100), 'down');
+  const lower = Math.max(IDX_MIN_PRICE, roundToTick(referencePrice * (1 - band.arbPercent / 100), 'up'));
+
+  return { referencePrice, upper, lower };
+};
+
+/**
+ * Check whether a price is tradable today given the reference price
+ */
+export const isWithinAutoRejection = (price: number, referencePrice: number): boolean => {
+  if (referencePrice <= 0) return true;
+  const { upper, lower } = getAutoRejectionLimits(referencePrice);
+  return price >= lower && price <= upper;
+};
+
+/**
+ * Clamp a price into today's ARA/ARB range
+ */
+export const clampToAutoRejection = (price: number, referencePrice: number): number => {
+  if (referencePrice <= 0) return price;
+  const { upper, lower } = getAutoRejectionLimits(referencePrice);
+  return Math.min(Math.max(price, lower), upper);
+};
+
+/**
+ * Turn a computed price into one that can actually be ordered today
+ * @param price - Raw price (mis. hasil ATR atau persentase)
+ * @param mode - Tick rounding direction
+ * @param referencePrice - Previous close; when given the price is clamped to ARA/ARB
+ */
+export const toTradablePrice = (price: number, mode: TickRounding = 'nearest', referencePrice?: number): number => {
+  const rounded = roundToTick(price, mode);
+  return referencePrice ? clampToAutoRejection(rounded, referencePrice) : rounded;
+};
+
+// Fraksi harga & ARA/ARB hanya berlaku untuk saham IDX (market default aplikasi)
+export const usesIdxRules = (market?: 'IDX' | 'US' | 'CRYPTO'): boolean => !market || market === 'IDX';
+
+export default {
+  IDX_LOT_SIZE,
+  IDX_MIN_PRICE,
+  TICK_SIZE_BANDS,
+  AUTO_REJECTION_BANDS,
+  getTickSize,
+  roundToTick,
+  isValidTick,
+  stepTicks,
+  buildPriceLadder,
+  getAutoRejectionLimits,
+  isWithinAutoRejection,
+  clampToAutoRejection,
+  toTradablePrice,
+  usesIdxRules,
+};
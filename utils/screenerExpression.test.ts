@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { ScreenerStock, StockData } from '../types';
+import { parseScreenerExpression, evaluateScreenerExpression } from './screenerExpression';
+
+const ROW: ScreenerStock = {
+  symbol: 'BBCA',
+  name: 'Bank Central Asia Tbk',
+  sector: 'Keuangan',
+  price: 9500,
+  change: 100,
+  changePercent: 1.06,
+  volume: 90_000_000,
+  avgVolume20: 40_000_000,
+  marketCap: 1_170_000_000_000_000,
+  peRatio: 24,
+  pbRatio: 4.8,
+  eps: 395,
+  dividend: 2.9,
+  rsi: 28,
+  ma20: 9300,
+  ma50: 9200,
+  ma200: 9000,
+  high52w: 10_950,
+  low52w: 8_600,
+  computedAt: 0,
+  lastBarAt: null,
+  fundamentalsAsOf: '2026-06-30',
+  dataSource: { provider: 'yahoo', providerName: 'Yahoo Finance', simulated: false, stale: false, fetchedAt: 0 },
+};
+
+// Evaluate an expression that must parse without errors
+const matches = (source: string, row: ScreenerStock = ROW, bars?: StockData[]) => {
+  const parsed = parseScreenerExpression(source);
+  expect(parsed.errors).toEqual([]);
+  return evaluateScreenerExpression(parsed.ast!, row, bars);
+};
+
+describe('screener expression', () => {
+  it('evaluates the documented example against snapshot values', () => {
+    const source = 'rsi14 < 30 and close > sma200 and volume > 2 * avg(volume, 20)';
+    expect(parseScreenerExpression(source).needsHistory).toBe(true);
+    expect(matches(source)).toBe(true);
+    expect(matches(source, { ...ROW, volume: 70_000_000 })).toBe(false);
+    expect(matches(source, { ...ROW, rsi: 45 })).toBe(false);
+  });
+
+  it('evaluates series functions over the daily history', () => {
+    const bars: StockData[] = [9000, 9100, 9050, 9200, 9500].map((close, i) => ({
+      time: `D${i}`, open: close, high: close + 50, low: close - 50, close, volume: 1000,
+    }));
+    expect(matches('close > prev(close, 1) and close >= max(close, 4)', ROW, bars)).toBe(true);
+    expect(matches('close > max(high, 5)', ROW, bars)).toBe(false);
+    // Histori tidak dimuat: nilai seri tidak diketahui
+    expect(matches('close > prev(close, 1)')).toBe(false);
+  });
+
+  it('reports chained comparisons at the second operator', () => {
+    const source = 'close > 100 > 50';
+    const { ast, errors } = parseScreenerExpression(source);
+    expect(ast).toBeNull();
+    expect(errors).toEqual([{ message: expect.stringContaining('berantai'), start: 12, end: 13 }]);
+  });
+
+  it('reports unknown fields and functions with their position', () => {
+    expect(parseScreenerExpression('rsi14 < 30 and foo > 1').errors).toEqual([
+      { message: 'Field "foo" tidak dikenal', start: 15, end: 18 },
+    ]);
+    expect(parseScreenerExpression('median(close, 5) > 1').errors).toEqual([
+      { message: 'Fungsi "median" tidak dikenal', start: 0, end: 16 },
+    ]);
+  });
+
+  it('never matches a row on a value it does not have, even under not', () => {
+    const noFundamentals = { ...ROW, peRatio: null, pbRatio: null };
+    expect(matches('pe > 20', noFundamentals)).toBe(false);
+    expect(matches('pe <= 20', noFundamentals)).toBe(false);
+    expect(matches('not (pe > 20)', noFundamentals)).toBe(false);
+    expect(matches('not (pe > 20) and close > 0', noFundamentals)).toBe(false);
+    expect(matches('pe > 20 or close > 0', noFundamentals)).toBe(true);
+    expect(matches('not (pe > 30)')).toBe(true);
+  });
+});
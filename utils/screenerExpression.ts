@@ -0,0 +1,531 @@
+/**
+ * Screener Expression Language
+ * Small filter language for custom screens, mis.
+ *   rsi14 < 30 and close > sma200 and volume > 2 * avg(volume, 20)
+ *
+ * - Operator: and, or, not, < <= > >= == != (juga =), + - * /, kurung
+ * - Field snapshot baris screener: close/price, change, changePercent, volume, marketCap, pe, pb,
+ *   eps, dividend, high52w, low52w, sector, symbol, rsi14, sma20, sma50, sma200
+ * - Indikator dengan periode bebas (sma<n>, ema<n>, rsi<n>), open/high/low bar terakhir dan fungsi
+ *   seri (avg, sma, ema, max, min, prev, roc, rsi) dihitung dari histori harian; abs() untuk angka
+ * - Nilai yang tidak tersedia (mis. PE tanpa data fundamental) membuat perbandingan tidak diketahui;
+ *   not/and/or meneruskannya (not (pe > 20) juga tidak diketahui) dan baris hanya lolos kalau hasil
+ *   akhirnya benar, jadi emiten tanpa data tidak pernah lolos kondisi atas data tersebut
+ *
+ * Error parse & validasi membawa posisi karakter agar bisa ditandai langsung di editor.
+ */
+
+import { ScreenerStock, StockData } from '../types';
+import { calculateEMA, calculateRSI, calculateSMA, lastValue } from './indicators';
+
+export type ExpressionValueType = 'number' | 'boolean' | 'string';
+type ExpressionValue = number | boolean | string | null;
+type SeriesField = 'open' | 'high' | 'low' | 'close' | 'volume';
+
+export type ExpressionNode =
+  | { kind: 'number'; value: number; start: number; end: number }
+  | { kind: 'string'; value: string; start: number; end: number }
+  | { kind: 'identifier'; name: string; start: number; end: number }
+  | { kind: 'call'; name: string; args: ExpressionNode[]; start: number; end: number }
+  | { kind: 'unary'; operator: '-' | 'not'; operand: ExpressionNode; start: number; end: number }
+  | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode; start: number; end: number };
+
+export interface ExpressionError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedExpression {
+  source: string;
+  ast: ExpressionNode | null;
+  errors: ExpressionError[];
+  needsHistory: boolean;       // Butuh histori harian untuk dievaluasi
+}
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'operator' | 'paren' | 'comma' | 'eof';
+  value: string;
+  start: number;
+  end: number;
+}
+
+// Field snapshot yang tersedia langsung di baris screener
+const SNAPSHOT_FIELDS: Record<string, { type: ExpressionValueType; get: (row: ScreenerStock) => ExpressionValue }> = {
+  close: { type: 'number', get: row => row.price },
+  price: { type: 'number', get: row => row.price },
+  change: { type: 'number', get: row => row.change },
+  changepercent: { type: 'number', get: row => row.changePercent },
+  volume: { type: 'number', get: row => row.volume },
+  marketcap: { type: 'number', get: row => row.marketCap },
+  pe: { type: 'number', get: row => row.peRatio },
+  pb: { type: 'number', get: row => row.pbRatio },
+  eps: { type: 'number', get: row => row.eps },
+  dividend: { type: 'number', get: row => row.dividend },
+  high52w: { type: 'number', get: row => row.high52w },
+  low52w: { type: 'number', get: row => row.low52w },
+  sector: { type: 'string', get: row => row.sector },
+  symbol: { type: 'string', get: row => row.symbol },
+};
+
+// Indikator yang sudah dihitung di baris screener (tanpa histori)
+const SNAPSHOT_INDICATORS: Record<string, (row: ScreenerStock) => number | null> = {
+  rsi14: row => row.rsi,
+  sma20: row => row.ma20,
+  sma50: row => row.ma50,
+  sma200: row => row.ma200,
+};
+
+const INDICATOR_PATTERN = /^(sma|ema|rsi)(\d{1,3})$/;
+const SERIES_FIELDS: SeriesField[] = ['open', 'high', 'low', 'close', 'volume'];
+
+interface FunctionSpec {
+  args: ('field' | 'period' | 'number')[];
+  needsHistory: boolean;
+  description: string;
+}
+
+export const EXPRESSION_FUNCTIONS: Record<string, FunctionSpec> = {
+  avg: { args: ['field', 'period'], needsHistory: true, description: 'Rata-rata n bar terakhir, mis. avg(volume, 20)' },
+  sma: { args: ['field', 'period'], needsHistory: true, description: 'Simple moving average, mis. sma(close, 50)' },
+  ema: { args: ['field', 'period'], needsHistory: true, description: 'Exponential moving average, mis. ema(close, 21)' },
+  max: { args: ['field', 'period'], needsHistory: true, description: 'Nilai tertinggi n bar terakhir, mis. max(high, 20)' },
+  min: { args: ['field', 'period'], needsHistory: true, description: 'Nilai terendah n bar terakhir, mis. min(low, 20)' },
+  prev: { args: ['field', 'period'], needsHistory: true, description: 'Nilai n bar sebelumnya, mis. prev(close, 5)' },
+  roc: { args: ['period'], needsHistory: true, description: 'Perubahan harga % dalam n bar, mis. roc(20)' },
+  rsi: { args: ['period'], needsHistory: true, description: 'RSI periode n, mis. rsi(7)' },
+  abs: { args: ['number'], needsHistory: false, description: 'Nilai absolut' },
+};
+
+export const EXPRESSION_FIELDS = [...Object.keys(SNAPSHOT_FIELDS), ...Object.keys(SNAPSHOT_INDICATORS)];
+
+const MAX_PERIOD = 250;
+const COMPARISON_OPERATORS = ['<', '<=', '>', '>=', '==', '!='];
+
+// ============ Tokenizer ============
+
+const fail = (message: string, start: number, end: number): never => {
+  throw { message, start, end } as ExpressionError;
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    if (/[0-9.]/.test(char)) {
+      while (i < source.length && /[0-9._]/.test(source[i])) i++;
+      const raw = source.slice(start, i).replace(/_/g, '');
+      if (!/^(\d+\.?\d*|\.\d+)$/.test(raw)) fail(`Angka tidak valid "${source.slice(start, i)}"`, start, i);
+      tokens.push({ type: 'number', value: raw, start, end: i });
+    } else if (/[a-zA-Z_]/.test(char)) {
+      while (i < source.length && /[a-zA-Z0-9_]/.test(source[i])) i++;
+      tokens.push({ type: 'identifier', value: source.slice(start, i).toLowerCase(), start, end: i });
+    } else if (char === '"' || char === "'") {
+      i++;
+      while (i < source.length && source[i] !== char) i++;
+      if (i >= source.length) fail('String tidak ditutup', start, source.length);
+      i++;
+      tokens.push({ type: 'string', value: source.slice(start + 1, i - 1), start, end: i });
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char, start, end: ++i });
+    } else if (char === ',') {
+      tokens.push({ type: 'comma', value: char, start, end: ++i });
+    } else {
+      const two = source.slice(i, i + 2);
+      if (['<=', '>=', '==', '!=', '&&', '||'].includes(two)) {
+        i += 2;
+        const value = two === '&&' ? 'and' : two === '||' ? 'or' : two;
+        tokens.push({ type: two === '&&' || two === '||' ? 'identifier' : 'operator', value, start, end: i });
+      } else if ('<>=+-*/%!'.includes(char)) {
+        i++;
+        const value = char === '=' ? '==' : char === '!' ? 'not' : char;
+        tokens.push({ type: char === '!' ? 'identifier' : 'operator', value, start, end: i });
+      } else {
+        fail(`Karakter tidak dikenal "${char}"`, start, start + 1);
+      }
+    }
+  }
+  tokens.push({ type: 'eof', value: '', start: source.length, end: source.length });
+  return tokens;
+};
+
+// ============ Parser ============
+
+const parseTokens = (tokens: Token[]): ExpressionNode => {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const isKeyword = (word: string) => peek().type === 'identifier' && peek().value === word;
+
+  const binary = (operator: string, left: ExpressionNode, right: ExpressionNode): ExpressionNode =>
+    ({ kind: 'binary', operator, left, right, start: left.start, end: right.end });
+
+  const parseOr = (): ExpressionNode => {
+    let left = parseAnd();
+    while (isKeyword('or')) {
+      next();
+      left = binary('or', left, parseAnd());
+    }
+    return left;
+  };
+
+  const parseAnd = (): ExpressionNode => {
+    let left = parseNot();
+    while (isKeyword('and')) {
+      next();
+      left = binary('and', left, parseNot());
+    }
+    return left;
+  };
+
+  const parseNot = (): ExpressionNode => {
+    if (isKeyword('not')) {
+      const token = next();
+      const operand = parseNot();
+      return { kind: 'unary', operator: 'not', operand, start: token.start, end: operand.end };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): ExpressionNode => {
+    const left = parseAdditive();
+    if (peek().type === 'operator' && COMPARISON_OPERATORS.includes(peek().value)) {
+      const operator = next().value;
+      const right = parseAdditive();
+      if (peek().type === 'operator' && COMPARISON_OPERATORS.includes(peek().value)) {
+        fail('Perbandingan berantai tidak didukung, gunakan "and"', peek().start, peek().end);
+      }
+      return binary(operator, left, right);
+    }
+    return left;
+  };
+
+  const parseAdditive = (): ExpressionNode => {
+    let left = parseMultiplicative();
+    while (peek().type === 'operator' && (peek().value === '+' || peek().value === '-')) {
+      const operator = next().value;
+      left = binary(operator, left, parseMultiplicative());
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): ExpressionNode => {
+    let left = parseUnary();
+    while (peek().type === 'operator' && (peek().value === '*' || peek().value === '/')) {
+      const operator = next().value;
+      left = binary(operator, left, parseUnary());
+    }
+    return left;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (peek().type === 'operator' && peek().value === '-') {
+      const token = next();
+      const operand = parseUnary();
+      return { kind: 'unary', operator: '-', operand, start: token.start, end: operand.end };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+    switch (token.type) {
+      case 'number': {
+        // 5% = 5 (persen ditulis sebagai angka persen, sama seperti changePercent)
+        if (peek().type === 'operator' && peek().value === '%') {
+          const percent = next();
+          return { kind: 'number', value: Number(token.value), start: token.start, end: percent.end };
+        }
+        return { kind: 'number', value: Number(token.value), start: token.start, end: token.end };
+      }
+      case 'string':
+        return { kind: 'string', value: token.value, start: token.start, end: token.end };
+      case 'identifier': {
+        if (['and', 'or', 'not'].includes(token.value)) {
+          return fail(`"${token.value}" tidak bisa dipakai di sini`, token.start, token.end);
+        }
+        if (peek().type === 'paren' && peek().value === '(') {
+          next();
+          const args: ExpressionNode[] = [];
+          if (!(peek().type === 'paren' && peek().value === ')')) {
+            args.push(parseOr());
+            while (peek().type === 'comma') {
+              next();
+              args.push(parseOr());
+            }
+          }
+          const close = next();
+          if (close.type !== 'paren' || close.value !== ')') fail('Kurang ")" untuk menutup fungsi', close.start, close.end);
+          return { kind: 'call', name: token.value, args, start: token.start, end: close.end };
+        }
+        return { kind: 'identifier', name: token.value, start: token.start, end: token.end };
+      }
+      case 'paren': {
+        if (token.value === '(') {
+          const inner = parseOr();
+          const close = next();
+          if (close.type !== 'paren' || close.value !== ')') fail('Kurang ")"', close.start, close.end);
+          return { ...inner, start: token.start, end: close.end };
+        }
+        return fail('")" tanpa pasangan', token.start, token.end);
+      }
+      case 'eof':
+        return fail('Ekspresi belum lengkap', token.start, token.end);
+      default:
+        return fail(`Tidak terduga "${token.value}"`, token.start, token.end);
+    }
+  };
+
+  const ast = parseOr();
+  if (peek().type !== 'eof') {
+    const token = peek();
+    fail(`Tidak terduga "${token.value}", mungkin kurang "and"/"or"`, token.start, token.end);
+  }
+  return ast;
+};
+
+// ============ Validation ============
+
+const describeIdentifier = (name: string): { type: ExpressionValueType; needsHistory: boolean } | null => {
+  if (SNAPSHOT_FIELDS[name]) return { type: SNAPSHOT_FIELDS[name].type, needsHistory: false };
+  if (SNAPSHOT_INDICATORS[name]) return { type: 'number', needsHistory: false };
+  const match = name.match(INDICATOR_PATTERN);
+  if (match && Number(match[2]) >= 2 && Number(match[2]) <= MAX_PERIOD) return { type: 'number', needsHistory: true };
+  // open/high/low bar terakhir
+  if (SERIES_FIELDS.includes(name as SeriesField)) return { type: 'number', needsHistory: true };
+  return null;
+};
+
+// Type-check a node, collecting errors; returns the node's value type
+const checkNode = (node: ExpressionNode, errors: ExpressionError[], usage: { history: boolean }): ExpressionValueType | null => {
+  const error = (message: string, target: { start: number; end: number } = node) => {
+    errors.push({ message, start: target.start, end: target.end });
+    return null;
+  };
+
+  switch (node.kind) {
+    case 'number':
+      return 'number';
+    case 'string':
+      return 'string';
+    case 'identifier': {
+      const info = describeIdentifier(node.name);
+      if (!info) return error(`Field "${node.name}" tidak dikenal`);
+      if (info.needsHistory) usage.history = true;
+      return info.type;
+    }
+    case 'call': {
+      const spec = EXPRESSION_FUNCTIONS[node.name];
+      if (!spec) return error(`Fungsi "${node.name}" tidak dikenal`);
+      if (node.args.length !== spec.args.length) {
+        return error(`${node.name}() butuh ${spec.args.length} argumen, diberi ${node.args.length}`);
+      }
+      if (spec.needsHistory) usage.history = true;
+      spec.args.forEach((kind, i) => {
+        const arg = node.args[i];
+        if (kind === 'field') {
+          if (arg.kind !== 'identifier' || !SERIES_FIELDS.includes(arg.name as SeriesField)) {
+            error(`Argumen 1 ${node.name}() harus salah satu: ${SERIES_FIELDS.join(', ')}`, arg);
+          }
+        } else if (kind === 'period') {
+          if (arg.kind !== 'number' || !Number.isInteger(arg.value) || arg.value < 1 || arg.value > MAX_PERIOD) {
+            error(`Periode harus bilangan bulat 1-${MAX_PERIOD}`, arg);
+          }
+        } else if (checkNode(arg, errors, usage) !== 'number') {
+          error(`Argumen ${node.name}() harus angka`, arg);
+        }
+      });
+      return 'number';
+    }
+    case 'unary': {
+      const type = checkNode(node.operand, errors, usage);
+      if (node.operator === 'not') {
+        if (type && type !== 'boolean') error('"not" butuh kondisi (true/false)', node.operand);
+        return 'boolean';
+      }
+      if (type && type !== 'number') error('Tanda minus hanya untuk angka', node.operand);
+      return 'number';
+    }
+    case 'binary': {
+      const left = checkNode(node.left, errors, usage);
+      const right = checkNode(node.right, errors, usage);
+      if (node.operator === 'and' || node.operator === 'or') {
+        if (left && left !== 'boolean') error(`Sisi kiri "${node.operator}" harus kondisi, mis. rsi14 < 30`, node.left);
+        if (right && right !== 'boolean') error(`Sisi kanan "${node.operator}" harus kondisi, mis. rsi14 < 30`, node.right);
+        return 'boolean';
+      }
+      if (COMPARISON_OPERATORS.includes(node.operator)) {
+        if (left && right && left !== right) error(`Tidak bisa membandingkan ${left} dengan ${right}`);
+        else if ((left === 'string' || right === 'string') && !['==', '!='].includes(node.operator)) {
+          error('Teks hanya bisa dibandingkan dengan == atau !=');
+        }
+        return 'boolean';
+      }
+      if (left && left !== 'number') error(`"${node.operator}" hanya untuk angka`, node.left);
+      if (right && right !== 'number') error(`"${node.operator}" hanya untuk angka`, node.right);
+      return 'number';
+    }
+  }
+};
+
+/**
+ * Parse & validate an expression
+ * Ekspresi valid kalau `errors` kosong dan hasil akhirnya kondisi (true/false).
+ */
+export const parseScreenerExpression = (source: string): ParsedExpression => {
+  if (!source.trim()) {
+    return { source, ast: null, errors: [{ message: 'Ekspresi kosong', start: 0, end: 0 }], needsHistory: false };
+  }
+
+  let ast: ExpressionNode;
+  try {
+    ast = parseTokens(tokenize(source));
+  } catch (error) {
+    const parseError = error as ExpressionError;
+    if (typeof parseError?.start !== 'number') throw error;
+    return { source, ast: null, errors: [parseError], needsHistory: false };
+  }
+
+  const errors: ExpressionError[] = [];
+  const usage = { history: false };
+  const type = checkNode(ast, errors, usage);
+  if (errors.length === 0 && type !== 'boolean') {
+    errors.push({ message: 'Ekspresi harus berupa kondisi, mis. close > sma50', start: ast.start, end: ast.end });
+  }
+  return { source, ast: errors.length === 0 ? ast : null, errors, needsHistory: usage.history };
+};
+
+// ============ Evaluation ============
+
+const seriesOf = (bars: StockData[], field: SeriesField): number[] => bars.map(bar => bar[field]);
+
+const lastBars = (values: number[], period: number): number[] | null =>
+  values.length >= period ? values.slice(-period) : null;
+
+const evaluateIndicator = (
+  name: string,
+  period: number,
+  bars: StockData[] | undefined,
+  field: SeriesField = 'close'
+): number | null => {
+  if (!bars || bars.length === 0) return null;
+  if (name === 'sma') return lastValue(calculateSMA(bars, period, field));
+  if (name === 'ema') return lastValue(calculateEMA(bars, period, field));
+  return lastValue(calculateRSI(bars, period));
+};
+
+const evaluateCall = (node: Extract<ExpressionNode, { kind: 'call' }>, row: ScreenerStock, bars?: StockData[]): ExpressionValue => {
+  if (node.name === 'abs') {
+    const value = evaluateNode(node.args[0], row, bars);
+    return typeof value === 'number' ? Math.abs(value) : null;
+  }
+
+  const periodArg = node.args[node.args.length - 1] as Extract<ExpressionNode, { kind: 'number' }>;
+  const period = periodArg.value;
+  if (node.name === 'rsi') return evaluateIndicator('rsi', period, bars);
+
+  if (node.name === 'roc') {
+    if (!bars || bars.length <= period) return null;
+    const past = bars[bars.length - 1 - period].close;
+    return past > 0 ? ((bars[bars.length - 1].close - past) / past) * 100 : null;
+  }
+
+  const field = (node.args[0] as Extract<ExpressionNode, { kind: 'identifier' }>).name as SeriesField;
+  // Pakai nilai snapshot kalau sama persis, supaya hasil konsisten dengan kolom tabel
+  if ((node.name === 'avg' || node.name === 'sma') && field === 'volume' && period === 20) return row.avgVolume20;
+  if ((node.name === 'avg' || node.name === 'sma') && field === 'close' && SNAPSHOT_INDICATORS[`sma${period}`]) {
+    return SNAPSHOT_INDICATORS[`sma${period}`](row);
+  }
+  if (!bars) return null;
+
+  const values = seriesOf(bars, field);
+  switch (node.name) {
+    case 'avg':
+    case 'sma': {
+      const window = lastBars(values, period);
+      return window ? window.reduce((sum, v) => sum + v, 0) / period : null;
+    }
+    case 'ema':
+      return evaluateIndicator('ema', period, bars, field);
+    case 'max': {
+      const window = lastBars(values, period);
+      return window ? Math.max(...window) : null;
+    }
+    case 'min': {
+      const window = lastBars(values, period);
+      return window ? Math.min(...window) : null;
+    }
+    case 'prev':
+      return values.length > period ? values[values.length - 1 - period] : null;
+    default:
+      return null;
+  }
+};
+
+const evaluateIdentifier = (name: string, row: ScreenerStock, bars?: StockData[]): ExpressionValue => {
+  if (SNAPSHOT_FIELDS[name]) return SNAPSHOT_FIELDS[name].get(row);
+  if (SNAPSHOT_INDICATORS[name]) return SNAPSHOT_INDICATORS[name](row);
+  const match = name.match(INDICATOR_PATTERN);
+  if (match) return evaluateIndicator(match[1], Number(match[2]), bars);
+  // open/high/low bar terakhir
+  const last = bars?.[bars.length - 1];
+  return last ? last[name as SeriesField] : null;
+};
+
+const evaluateNode = (node: ExpressionNode, row: ScreenerStock, bars?: StockData[]): ExpressionValue => {
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+      return node.value;
+    case 'identifier':
+      return evaluateIdentifier(node.name, row, bars);
+    case 'call':
+      return evaluateCall(node, row, bars);
+    case 'unary': {
+      const value = evaluateNode(node.operand, row, bars);
+      if (node.operator === 'not') return value === null ? null : !value;
+      return typeof value === 'number' ? -value : null;
+    }
+    case 'binary': {
+      // Logika tiga nilai: null (tidak diketahui) kalah oleh false pada and dan oleh true pada or
+      if (node.operator === 'and' || node.operator === 'or') {
+        const decisive = node.operator === 'or';
+        const left = evaluateNode(node.left, row, bars);
+        if (left === decisive) return decisive;
+        const right = evaluateNode(node.right, row, bars);
+        if (right === decisive) return decisive;
+        return left === null || right === null ? null : !decisive;
+      }
+      const left = evaluateNode(node.left, row, bars);
+      const right = evaluateNode(node.right, row, bars);
+      if (left === null || right === null) return null;
+
+      switch (node.operator) {
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '==': return typeof left === 'string' ? left.toLowerCase() === String(right).toLowerCase() : left === right;
+        case '!=': return typeof left === 'string' ? left.toLowerCase() !== String(right).toLowerCase() : left !== right;
+        case '+': return (left as number) + (right as number);
+        case '-': return (left as number) - (right as number);
+        case '*': return (left as number) * (right as number);
+        case '/': return right === 0 ? null : (left as number) / (right as number);
+        default: return null;
+      }
+    }
+  }
+};
+
+/**
+ * Evaluate a parsed expression against one screener row
+ * @param bars - Histori harian; wajib kalau `needsHistory`, selain itu boleh kosong
+ */
+export const evaluateScreenerExpression = (ast: ExpressionNode, row: ScreenerStock, bars?: StockData[]): boolean =>
+  evaluateNode(ast, row, bars) === true;
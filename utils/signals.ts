@@ -0,0 +1,470 @@
+/**
+ * Trading Signals
+ * Rule-based signal engines shared by the chart, recommendation panel and backtester
+ */
+
+import { StockTicker, StockData } from '../types';
+import {
+  IndicatorSeries,
+  MACDResult,
+  lastValue,
+  calculateRSI,
+  calculateEMA,
+  calculateSMA,
+  calculateMACD,
+  calculateBollingerBands,
+  calculateATR,
+} from './indicators';
+
+export interface TechnicalIndicators {
+  rsi: number;
+  rsiStatus: 'oversold' | 'neutral' | 'overbought';
+  macd: { line: number; signal: number; histogram: number; trend: 'bullish' | 'bearish' };
+  ema20: number;
+  ema50: number;
+  sma200: number;
+  bollingerBands: { upper: number; middle: number; lower: number; position: 'above' | 'middle' | 'below' };
+  atr: number;
+  volumeTrend: 'increasing' | 'decreasing' | 'stable';
+  trendStrength: number;
+}
+
+export interface TradingSignal {
+  action: 'STRONG_BUY' | 'BUY' | 'HOLD' | 'SELL' | 'STRONG_SELL';
+  confidence: number;
+  score: number;
+  reasons: string[];
+}
+
+// Volume Analysis
+export const calculateVolumeAnalysis = (data: StockData[], period: number = 20) => {
+  const volumeMA: number[] = [];
+  const volumeRatio: number[] = [];
+  
+  for (let i = 0; i < data.length; i++) {
+    if (i < period - 1) {
+      volumeMA.push(data[i].volume);
+      volumeRatio.push(1);
+    } else {
+      const slice = data.slice(i - period + 1, i + 1);
+      const avgVolume = slice.reduce((sum, d) => sum + d.volume, 0) / period;
+      volumeMA.push(avgVolume);
+      volumeRatio.push(data[i].volume / avgVolume);
+    }
+  }
+  
+  return { volumeMA, volumeRatio };
+};
+
+// Reversal Engine Pro - Combines MACD + RSI + Volume
+export interface ReversalSignal {
+  type: 'bullish' | 'bearish' | null;
+  strength: number; // 0-100
+  reasons: string[];
+}
+
+export const calculateReversalEnginePro = (
+  data: StockData[],
+  rsi: IndicatorSeries,
+  macd: MACDResult,
+  volumeAnalysis: { volumeMA: number[]; volumeRatio: number[] }
+): ReversalSignal[] => {
+  const signals: ReversalSignal[] = [];
+  
+  for (let i = 0; i < data.length; i++) {
+    // Wait until RSI and MACD signal line have warmed up
+    if (i < 30 || rsi[i - 1] === null || macd.histogram[i - 1] === null) {
+      signals.push({ type: null, strength: 0, reasons: [] });
+      continue;
+    }
+    
+    const reasons: string[] = [];
+    let bullishScore = 0;
+    let bearishScore = 0;
+    
+    // RSI Analysis
+    const currRsi = rsi[i] as number;
+    const prevRsi = rsi[i - 1] as number;
+    
+    if (currRsi <= 30) {
+      bullishScore += 25;
+      reasons.push('RSI Oversold');
+    } else if (currRsi <= 40 && prevRsi < currRsi) {
+      bullishScore += 15;
+      reasons.push('RSI Recovering');
+    }
+    
+    if (currRsi >= 70) {
+      bearishScore += 25;
+      reasons.push('RSI Overbought');
+    } else if (currRsi >= 60 && prevRsi > currRsi) {
+      bearishScore += 15;
+      reasons.push('RSI Weakening');
+    }
+    
+    // MACD Analysis
+    const currMacd = macd.macdLine[i] as number;
+    const prevMacd = macd.macdLine[i - 1] as number;
+    const currSignal = macd.signalLine[i] as number;
+    const prevSignal = macd.signalLine[i - 1] as number;
+    const currHist = macd.histogram[i] as number;
+    const prevHist = macd.histogram[i - 1] as number;
+    
+    // MACD Crossover
+    if (prevMacd < prevSignal && currMacd > currSignal) {
+      bullishScore += 30;
+      reasons.push('MACD Bullish Cross');
+    }
+    if (prevMacd > prevSignal && currMacd < currSignal) {
+      bearishScore += 30;
+      reasons.push('MACD Bearish Cross');
+    }
+    
+    // MACD Histogram momentum
+    if (currHist > 0 && currHist > prevHist) {
+      bullishScore += 10;
+      reasons.push('MACD Momentum Up');
+    }
+    if (currHist < 0 && currHist < prevHist) {
+      bearishScore += 10;
+      reasons.push('MACD Momentum Down');
+    }
+    
+    // MACD Zero Line Cross
+    if (prevMacd < 0 && currMacd > 0) {
+      bullishScore += 15;
+      reasons.push('MACD Above Zero');
+    }
+    if (prevMacd > 0 && currMacd < 0) {
+      bearishScore += 15;
+      reasons.push('MACD Below Zero');
+    }
+    
+    // Volume Analysis
+    const volRatio = volumeAnalysis.volumeRatio[i];
+    const priceChange = (data[i].close - data[i - 1].close) / data[i - 1].close;
+    
+    // High volume with price up = bullish confirmation
+    if (volRatio > 1.5 && priceChange > 0.01) {
+      bullishScore += 20;
+      reasons.push('Volume Surge (Up)');
+    }
+    
+    // High volume with price down = bearish confirmation
+    if (volRatio > 1.5 && priceChange < -0.01) {
+      bearishScore += 20;
+      reasons.push('Volume Surge (Down)');
+    }
+    
+    // Volume divergence (price up, volume down = weak rally)
+    if (priceChange > 0.01 && volRatio < 0.7) {
+      bearishScore += 10;
+      reasons.push('Weak Volume Rally');
+    }
+    
+    // Volume divergence (price down, volume down = weak selloff)
+    if (priceChange < -0.01 && volRatio < 0.7) {
+      bullishScore += 10;
+      reasons.push('Weak Volume Selloff');
+    }
+    
+    // Determine signal
+    const netScore = bullishScore - bearishScore;
+    
+    if (netScore >= 30) {
+      signals.push({
+        type: 'bullish',
+        strength: Math.min(100, bullishScore),
+        reasons: reasons.filter(r => 
+          r.includes('Oversold') || r.includes('Recovering') || 
+          r.includes('Bullish') || r.includes('Up') || 
+          r.includes('Above') || r.includes('Weak Volume Selloff')
+        )
+      });
+    } else if (netScore <= -30) {
+      signals.push({
+        type: 'bearish',
+        strength: Math.min(100, bearishScore),
+        reasons: reasons.filter(r => 
+          r.includes('Overbought') || r.includes('Weakening') || 
+          r.includes('Bearish') || r.includes('Down') || 
+          r.includes('Below') || r.includes('Weak Volume Rally')
+        )
+      });
+    } else {
+      signals.push({ type: null, strength: 0, reasons: [] });
+    }
+  }
+  
+  return signals;
+};
+
+// Latest value of an indicator series, falling back to the last close while warming up
+const latestOrClose = (series: IndicatorSeries, data: StockData[]): number => {
+  return lastValue(series) ?? data[data.length - 1]?.close ?? 0;
+};
+
+// Latest non-null value at every index (sama dengan lastValue pada seri yang dipotong sampai index itu)
+const latestAtEachBar = (series: IndicatorSeries): IndicatorSeries => {
+  let latest: number | null = null;
+  return series.map(value => (latest = value ?? latest));
+};
+
+// MACD snapshot from the latest line, signal and histogram values
+const toMACDSnapshot = (
+  latestLine: number | null,
+  latestSignal: number | null,
+  latestHistogram: number | null
+): { line: number; signal: number; histogram: number; trend: 'bullish' | 'bearish' } => {
+  const line = latestLine ?? 0;
+  const hist = latestHistogram ?? 0;
+  return {
+    line,
+    signal: latestSignal ?? line,
+    histogram: hist,
+    trend: hist > 0 ? 'bullish' : 'bearish'
+  };
+};
+
+// Calculate MACD snapshot
+const calculateMACDSnapshot = (data: StockData[]): { line: number; signal: number; histogram: number; trend: 'bullish' | 'bearish' } => {
+  const { macdLine, signalLine, histogram } = calculateMACD(data);
+  return toMACDSnapshot(lastValue(macdLine), lastValue(signalLine), lastValue(histogram));
+};
+
+// Bollinger snapshot from the latest bands; bands fall back to the price while warming up
+const toBollingerSnapshot = (
+  currentPrice: number,
+  latestUpper: number | null,
+  latestMiddle: number | null,
+  latestLower: number | null
+): { upper: number; middle: number; lower: number; position: 'above' | 'middle' | 'below' } => {
+  const upper = latestUpper ?? currentPrice;
+  const middle = latestMiddle ?? currentPrice;
+  const lower = latestLower ?? currentPrice;
+
+  let position: 'above' | 'middle' | 'below' = 'middle';
+  if (currentPrice > upper) position = 'above';
+  else if (currentPrice < lower) position = 'below';
+
+  return { upper, middle, lower, position };
+};
+
+// Calculate Bollinger Bands snapshot
+const calculateBollingerSnapshot = (data: StockData[], period: number = 20, stdDev: number = 2): { upper: number; middle: number; lower: number; position: 'above' | 'middle' | 'below' } => {
+  const bands = calculateBollingerBands(data, period, stdDev);
+  const currentPrice = data[data.length - 1]?.close || 0;
+  return toBollingerSnapshot(currentPrice, lastValue(bands.upper), lastValue(bands.middle), lastValue(bands.lower));
+};
+
+// Analyze volume trend
+export const analyzeVolumeTrend = (data: StockData[]): 'increasing' | 'decreasing' | 'stable' => {
+  if (data.length < 10) return 'stable';
+  
+  const recent = data.slice(-5).reduce((sum, d) => sum + d.volume, 0) / 5;
+  const previous = data.slice(-10, -5).reduce((sum, d) => sum + d.volume, 0) / 5;
+  
+  const change = (recent - previous) / previous;
+  if (change > 0.2) return 'increasing';
+  if (change < -0.2) return 'decreasing';
+  return 'stable';
+};
+
+// Trend strength from the latest close, EMA20/50 and the close 4 bars earlier
+const scoreTrendStrength = (currentPrice: number, ema20: number, ema50: number, previousClose: number): number => {
+  let strength = 50;
+  
+  // Price above both EMAs = bullish
+  if (currentPrice > ema20 && currentPrice > ema50) {
+    strength += 25;
+  } else if (currentPrice < ema20 && currentPrice < ema50) {
+    strength -= 25;
+  }
+  
+  // EMA20 above EMA50 = bullish trend
+  if (ema20 > ema50) {
+    strength += 15;
+  } else {
+    strength -= 15;
+  }
+  
+  // Recent momentum
+  const change5d = (currentPrice - previousClose || currentPrice) / (previousClose || currentPrice) * 100;
+  strength += Math.min(10, Math.max(-10, change5d * 2));
+  
+  return Math.min(100, Math.max(0, strength));
+};
+
+// Calculate trend strength (0-100)
+export const calculateTrendStrength = (data: StockData[]): number => {
+  if (data.length < 20) return 50;
+  
+  return scoreTrendStrength(
+    data[data.length - 1].close,
+    latestOrClose(calculateEMA(data, 20), data),
+    latestOrClose(calculateEMA(data, 50), data),
+    data[data.length - 5].close
+  );
+};
+
+// Generate trading signal
+export const generateSignal = (indicators: TechnicalIndicators, ticker: Pick<StockTicker, 'price'>): TradingSignal => {
+  let score = 0;
+  const reasons: string[] = [];
+  
+  // RSI Analysis (weight: 20)
+  if (indicators.rsi < 30) {
+    score += 20;
+    reasons.push(`RSI ${indicators.rsi.toFixed(1)} menunjukkan OVERSOLD - peluang rebound`);
+  } else if (indicators.rsi > 70) {
+    score -= 20;
+    reasons.push(`RSI ${indicators.rsi.toFixed(1)} menunjukkan OVERBOUGHT - waspada koreksi`);
+  } else if (indicators.rsi < 45) {
+    score += 10;
+    reasons.push(`RSI ${indicators.rsi.toFixed(1)} di zona netral-bawah`);
+  } else if (indicators.rsi > 55) {
+    score -= 5;
+    reasons.push(`RSI ${indicators.rsi.toFixed(1)} di zona netral-atas`);
+  }
+  
+  // MACD Analysis (weight: 25)
+  if (indicators.macd.trend === 'bullish') {
+    score += 20;
+    if (indicators.macd.histogram > 0) {
+      score += 5;
+      reasons.push('MACD histogram positif & menguat - momentum bullish');
+    }
+  } else {
+    score -= 20;
+    reasons.push('MACD histogram negatif - momentum bearish');
+  }
+  
+  // EMA Analysis (weight: 25)
+  const price = ticker.price;
+  if (price > indicators.ema20 && price > indicators.ema50) {
+    score += 20;
+    reasons.push(`Harga di atas EMA20 (${indicators.ema20.toFixed(0)}) & EMA50 (${indicators.ema50.toFixed(0)}) - uptrend`);
+  } else if (price < indicators.ema20 && price < indicators.ema50) {
+    score -= 20;
+    reasons.push(`Harga di bawah EMA20 & EMA50 - downtrend`);
+  } else if (price > indicators.ema20) {
+    score += 10;
+    reasons.push('Harga di atas EMA20 - short-term bullish');
+  }
+  
+  // Golden/Death Cross
+  if (indicators.ema20 > indicators.ema50) {
+    score += 5;
+    reasons.push('Golden Cross aktif (EMA20 > EMA50)');
+  } else {
+    score -= 5;
+    reasons.push('Death Cross aktif (EMA20 < EMA50)');
+  }
+  
+  // Bollinger Bands (weight: 15)
+  if (indicators.bollingerBands.position === 'below') {
+    score += 15;
+    reasons.push('Harga di bawah Lower BB - oversold, potensi rebound');
+  } else if (indicators.bollingerBands.position === 'above') {
+    score -= 10;
+    reasons.push('Harga di atas Upper BB - overbought');
+  }
+  
+  // Volume Analysis (weight: 10)
+  if (indicators.volumeTrend === 'increasing') {
+    const volumeImpact = score > 0 ? 10 : -5;
+    score += volumeImpact;
+    reasons.push(score > 0 ? 'Volume meningkat mendukung uptrend' : 'Volume meningkat saat downtrend - tekanan jual');
+  }
+  
+  // Trend Strength (weight: 5)
+  if (indicators.trendStrength > 60) {
+    score += 5;
+  } else if (indicators.trendStrength < 40) {
+    score -= 5;
+  }
+  
+  // Determine action
+  let action: TradingSignal['action'];
+  if (score >= 50) action = 'STRONG_BUY';
+  else if (score >= 20) action = 'BUY';
+  else if (score >= -20) action = 'HOLD';
+  else if (score >= -50) action = 'SELL';
+  else action = 'STRONG_SELL';
+  
+  const confidence = Math.min(95, Math.max(30, 50 + Math.abs(score)));
+  
+  return { action, confidence, score, reasons };
+};
+
+// RSI zone used by the recommendation engine
+const toRsiStatus = (rsi: number): TechnicalIndicators['rsiStatus'] =>
+  rsi < 30 ? 'oversold' : rsi > 70 ? 'overbought' : 'neutral';
+
+/**
+ * Snapshot of all indicators used by generateSignal, computed at the last bar of `data`
+ */
+export const calculateTechnicalIndicators = (data: StockData[]): TechnicalIndicators => {
+  const rsi = lastValue(calculateRSI(data)) ?? 50;
+  
+  return {
+    rsi,
+    rsiStatus: toRsiStatus(rsi),
+    macd: calculateMACDSnapshot(data),
+    ema20: latestOrClose(calculateEMA(data, 20), data),
+    ema50: latestOrClose(calculateEMA(data, 50), data),
+    sma200: latestOrClose(calculateSMA(data, 200), data),
+    bollingerBands: calculateBollingerSnapshot(data),
+    atr: lastValue(calculateATR(data)) ?? 0,
+    volumeTrend: analyzeVolumeTrend(data),
+    trendStrength: calculateTrendStrength(data),
+  };
+};
+
+/**
+ * Technical indicators at every bar, sama dengan calculateTechnicalIndicators(data.slice(0, i + 1))
+ * Seri indikator dihitung sekali lalu dibaca per index, jadi O(n) untuk seluruh histori (dipakai backtest).
+ */
+export const calculateTechnicalIndicatorSeries = (data: StockData[]): TechnicalIndicators[] => {
+  const rsi = latestAtEachBar(calculateRSI(data));
+  const macd = calculateMACD(data);
+  const macdLine = latestAtEachBar(macd.macdLine);
+  const macdSignal = latestAtEachBar(macd.signalLine);
+  const macdHistogram = latestAtEachBar(macd.histogram);
+  const ema20 = latestAtEachBar(calculateEMA(data, 20));
+  const ema50 = latestAtEachBar(calculateEMA(data, 50));
+  const sma200 = latestAtEachBar(calculateSMA(data, 200));
+  const bands = calculateBollingerBands(data, 20, 2);
+  const upper = latestAtEachBar(bands.upper);
+  const middle = latestAtEachBar(bands.middle);
+  const lower = latestAtEachBar(bands.lower);
+  const atr = latestAtEachBar(calculateATR(data));
+
+  return data.map((bar, i) => {
+    const rsiValue = rsi[i] ?? 50;
+    const ema20Value = ema20[i] ?? bar.close;
+    const ema50Value = ema50[i] ?? bar.close;
+    return {
+      rsi: rsiValue,
+      rsiStatus: toRsiStatus(rsiValue),
+      macd: toMACDSnapshot(macdLine[i], macdSignal[i], macdHistogram[i]),
+      ema20: ema20Value,
+      ema50: ema50Value,
+      sma200: sma200[i] ?? bar.close,
+      bollingerBands: toBollingerSnapshot(bar.close || 0, upper[i], middle[i], lower[i]),
+      atr: atr[i] ?? 0,
+      volumeTrend: analyzeVolumeTrend(data.slice(Math.max(0, i - 9), i + 1)),
+      trendStrength: i < 19 ? 50 : scoreTrendStrength(bar.close, ema20Value, ema50Value, data[i - 4].close),
+    };
+  });
+};
+
+export default {
+  calculateVolumeAnalysis,
+  calculateReversalEnginePro,
+  analyzeVolumeTrend,
+  calculateTrendStrength,
+  generateSignal,
+  calculateTechnicalIndicators,
+  calculateTechnicalIndicatorSeries,
+};
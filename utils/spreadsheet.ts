@@ -0,0 +1,229 @@
+/**
+ * Spreadsheet Reader
+ * Reads CSV, XLSX and HTML-table XLS files into a grid of strings (browser only)
+ *
+ * - CSV: delimiter dideteksi otomatis (koma, titik koma, tab)
+ * - XLSX: dibaca langsung dari arsip zip, sheet pertama saja
+ * - XLS: banyak broker mengekspor tabel HTML dengan ekstensi .xls
+ */
+
+export type SpreadsheetRows = string[][];
+
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+// Pick the delimiter that splits the first lines most consistently
+const detectDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 10);
+  let best = ',';
+  let bestScore = 0;
+  CSV_DELIMITERS.forEach(delimiter => {
+    const counts = sample.map(line => line.split(delimiter).length - 1);
+    const max = Math.max(0, ...counts);
+    const score = counts.filter(c => c === max).length * max;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * Parse CSV text (RFC 4180 quoting)
+ * @param text - Raw file content
+ * @param delimiter - Column delimiter (default: auto-detect)
+ */
+export const parseCSV = (text: string, delimiter: string = detectDelimiter(text)): SpreadsheetRows => {
+  const rows: SpreadsheetRows = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const content = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell !== ''));
+};
+
+/**
+ * Parse the first <table> of an HTML document
+ */
+export const parseHTMLTable = (html: string): SpreadsheetRows => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const table = doc.querySelector('table');
+  if (!table) return [];
+  return Array.from(table.querySelectorAll('tr'))
+    .map(tr => Array.from(tr.querySelectorAll('th, td')).map(cell => (cell.textContent || '').trim()))
+    .filter(r => r.some(cell => cell !== ''));
+};
+
+// Inflate a zip entry (stored or deflate)
+const inflateEntry = async (data: Uint8Array, method: number): Promise<Uint8Array> => {
+  if (method === 0) return data;
+  if (method !== 8) throw new Error('Format kompresi file tidak didukung');
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Extract files from a zip archive (only what XLSX needs)
+ * @returns Map of entry name to decompressed content
+ */
+const readZipEntries = async (buffer: ArrayBuffer, wanted: (name: string) => boolean): Promise<Map<string, string>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // End of central directory record
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('File Excel tidak valid');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, string>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (wanted(name)) {
+      const localNameLength = view.getUint16(localOffset + 26, true);
+      const localExtraLength = view.getUint16(localOffset + 28, true);
+      const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+      const content = await inflateEntry(bytes.subarray(dataStart, dataStart + compressedSize), method);
+      entries.set(name, decoder.decode(content));
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+// Convert a cell reference column (e.g. "AB12") to a zero-based index
+const columnIndex = (reference: string): number => {
+  const letters = reference.replace(/\d+/g, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+/**
+ * Parse the first worksheet of an XLSX workbook
+ * Tanggal dikembalikan sebagai serial number Excel (lihat parseImportDate).
+ */
+export const parseXLSX = async (buffer: ArrayBuffer): Promise<SpreadsheetRows> => {
+  const entries = await readZipEntries(buffer, name =>
+    name === 'xl/sharedStrings.xml' || /^xl\/worksheets\/sheet\d+\.xml$/.test(name)
+  );
+
+  const sheetName = [...entries.keys()]
+    .filter(name => name.startsWith('xl/worksheets/'))
+    .sort((a, b) => parseInt(a.replace(/\D/g, '')) - parseInt(b.replace(/\D/g, '')))[0];
+  if (!sheetName) throw new Error('Worksheet tidak ditemukan di file Excel');
+
+  const parser = new DOMParser();
+  const sharedStrings: string[] = [];
+  const sharedXml = entries.get('xl/sharedStrings.xml');
+  if (sharedXml) {
+    const doc = parser.parseFromString(sharedXml, 'application/xml');
+    Array.from(doc.getElementsByTagName('si')).forEach(si => {
+      sharedStrings.push(Array.from(si.getElementsByTagName('t')).map(t => t.textContent || '').join(''));
+    });
+  }
+
+  const sheet = parser.parseFromString(entries.get(sheetName)!, 'application/xml');
+  const rows: SpreadsheetRows = [];
+  Array.from(sheet.getElementsByTagName('row')).forEach(rowEl => {
+    const row: string[] = [];
+    Array.from(rowEl.getElementsByTagName('c')).forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent || '';
+
+      let text: string;
+      if (type === 's') text = sharedStrings[parseInt(value)] || '';
+      else if (type === 'inlineStr') text = Array.from(cell.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+      else text = value;
+
+      while (row.length < index) row.push('');
+      row[index] = text.trim();
+    });
+    if (row.some(cell => cell !== '')) rows.push(row);
+  });
+
+  return rows;
+};
+
+/**
+ * Read an uploaded file into rows
+ * Mendukung .csv, .txt, .xlsx dan .xls (tabel HTML atau teks tab-delimited).
+ */
+export const readSpreadsheetFile = async (file: File): Promise<SpreadsheetRows> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (extension === 'xlsx') {
+    return parseXLSX(await file.arrayBuffer());
+  }
+
+  const text = await file.text();
+  if (extension === 'xls') {
+    if (/^\s*</.test(text)) return parseHTMLTable(text);
+    // Format biner BIFF tidak terbaca sebagai teks
+    if (text.includes('\u0000')) {
+      throw new Error('Format .xls lama tidak didukung. Simpan ulang sebagai .xlsx atau .csv');
+    }
+  }
+  return parseCSV(text);
+};
+
+export default {
+  parseCSV,
+  parseHTMLTable,
+  parseXLSX,
+  readSpreadsheetFile,
+};
@@ -0,0 +1,243 @@
+/**
+ * Intrinsic Valuation
+ * Pure calculators: DCF, Graham number, dividend discount model & relative valuation vs peers
+ *
+ * Semua nilai per lembar saham dan harus dalam mata uang yang sama dengan harga pembanding;
+ * laporan dalam mata uang lain dikonversi dulu di fundamentalsService (valuationService menolak
+ * laporan yang belum terkonversi). Persentase ditulis sebagai angka persen (12 = 12%).
+ */
+
+import { FinancialStatements, ScreenerStock } from '../types';
+
+export interface DcfAssumptions {
+  baseFcf: number;            // Free cash flow per lembar tahun dasar
+  growthRate: number;         // % pertumbuhan per tahun selama fase proyeksi
+  years: number;              // Lama fase proyeksi
+  terminalGrowth: number;     // % pertumbuhan abadi setelah fase proyeksi
+  discountRate: number;       // % tingkat diskonto (WACC / required return)
+  netDebtPerShare: number;    // (Utang berbunga - kas) per lembar, dikurangkan dari nilai perusahaan
+}
+
+export interface DdmAssumptions {
+  dividend: number;           // Dividen per lembar 12 bulan terakhir
+  growthRate: number;         // % pertumbuhan dividen
+  requiredReturn: number;     // % imbal hasil yang disyaratkan
+}
+
+export interface ValuationAssumptions {
+  dcf: DcfAssumptions;
+  ddm: DdmAssumptions;
+}
+
+export interface DcfProjection {
+  year: number;
+  fcf: number;
+  presentValue: number;
+}
+
+export interface DcfResult {
+  projections: DcfProjection[];
+  terminalValue: number;
+  presentTerminalValue: number;
+  enterpriseValue: number;    // Per lembar
+  intrinsicValue: number;     // Per lembar, setelah utang bersih
+}
+
+export interface RelativeValuation {
+  sector: string;
+  peerCount: number;
+  medianPe: number | null;
+  medianPb: number | null;
+  fairValuePe: number | null;
+  fairValuePb: number | null;
+}
+
+export type ValuationModel = 'dcf' | 'graham' | 'ddm' | 'relativePe' | 'relativePb';
+
+export interface ValuationEstimate {
+  model: ValuationModel;
+  label: string;
+  value: number | null;
+  marginOfSafety: number | null;
+  note?: string;              // Alasan kalau model tidak bisa dipakai
+}
+
+export const VALUATION_MODEL_LABELS: Record<ValuationModel, string> = {
+  dcf: 'DCF',
+  graham: 'Graham Number',
+  ddm: 'Dividend Discount',
+  relativePe: 'PER Median Sektor',
+  relativePb: 'PBV Median Sektor',
+};
+
+// Batas wajar estimasi pertumbuhan historis (CAGR ekstrem dari basis kecil tidak dipakai apa adanya)
+const GROWTH_FLOOR = 0;
+const GROWTH_CAP = 15;
+const MAX_GROWTH_YEARS = 5;
+const MAX_PROJECTION_YEARS = 20;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============ Models ============
+
+/**
+ * Two-stage discounted cash flow per share
+ * @returns null kalau asumsi tidak valid (FCF dasar <= 0 atau diskonto <= pertumbuhan terminal)
+ */
+export const computeDcf = (assumptions: DcfAssumptions): DcfResult | null => {
+  const { baseFcf, growthRate, terminalGrowth, discountRate, netDebtPerShare } = assumptions;
+  const years = Math.round(assumptions.years);
+  if (baseFcf <= 0 || years < 1 || years > MAX_PROJECTION_YEARS || discountRate <= terminalGrowth) return null;
+
+  const g = growthRate / 100;
+  const r = discountRate / 100;
+  const projections: DcfProjection[] = [];
+  let fcf = baseFcf;
+  for (let year = 1; year <= years; year++) {
+    fcf *= 1 + g;
+    projections.push({ year, fcf, presentValue: fcf / Math.pow(1 + r, year) });
+  }
+
+  const terminalValue = (fcf * (1 + terminalGrowth / 100)) / (r - terminalGrowth / 100);
+  const presentTerminalValue = terminalValue / Math.pow(1 + r, years);
+  const enterpriseValue = projections.reduce((sum, p) => sum + p.presentValue, 0) + presentTerminalValue;
+
+  return {
+    projections,
+    terminalValue,
+    presentTerminalValue,
+    enterpriseValue,
+    intrinsicValue: enterpriseValue - netDebtPerShare,
+  };
+};
+
+/**
+ * Graham number: sqrt(22.5 × EPS × BVPS)
+ * Hanya untuk EPS & nilai buku positif.
+ */
+export const computeGrahamNumber = (eps: number | null, bvps: number | null): number | null =>
+  eps !== null && bvps !== null && eps > 0 && bvps > 0 ? Math.sqrt(22.5 * eps * bvps) : null;
+
+/**
+ * Gordon growth dividend discount model: D1 / (r - g)
+ * @returns null kalau tidak ada dividen atau imbal hasil <= pertumbuhan
+ */
+export const computeDividendDiscount = (assumptions: DdmAssumptions): number | null => {
+  const { dividend, growthRate, requiredReturn } = assumptions;
+  if (dividend <= 0 || requiredReturn <= growthRate) return null;
+  return (dividend * (1 + growthRate / 100)) / ((requiredReturn - growthRate) / 100);
+};
+
+export const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Fair value from sector median P/E & P/B of screener peers (saham itu sendiri tidak ikut dihitung)
+ */
+export const computeRelativeValuation = (
+  symbol: string,
+  sector: string,
+  eps: number | null,
+  bvps: number | null,
+  rows: ScreenerStock[]
+): RelativeValuation => {
+  const peers = rows.filter(row => row.sector === sector && row.symbol !== symbol);
+  const medianPe = median(peers.map(p => p.peRatio).filter((v): v is number => v !== null && v > 0));
+  const medianPb = median(peers.map(p => p.pbRatio).filter((v): v is number => v !== null && v > 0));
+  return {
+    sector,
+    peerCount: peers.length,
+    medianPe,
+    medianPb,
+    fairValuePe: medianPe !== null && eps !== null && eps > 0 ? medianPe * eps : null,
+    fairValuePb: medianPb !== null && bvps !== null && bvps > 0 ? medianPb * bvps : null,
+  };
+};
+
+/**
+ * Margin of safety: diskon harga terhadap nilai intrinsik (negatif = harga di atas nilai wajar)
+ */
+export const computeMarginOfSafety = (intrinsicValue: number | null, price: number): number | null =>
+  intrinsicValue !== null && intrinsicValue > 0 && price > 0
+    ? round2(((intrinsicValue - price) / intrinsicValue) * 100)
+    : null;
+
+// ============ Defaults ============
+
+/**
+ * Historical annual growth (CAGR) of FCF, falling back to net income, clipped to a sane range
+ */
+export const estimateGrowthRate = (statements: FinancialStatements): number | null => {
+  const annual = statements.annual.slice(-(MAX_GROWTH_YEARS + 1));
+  const cagrOf = (values: (number | null)[]): number | null => {
+    const series = values.filter((v): v is number => v !== null);
+    if (series.length < 2) return null;
+    const first = series[0];
+    const last = series[series.length - 1];
+    if (first <= 0 || last <= 0) return null;
+    return (Math.pow(last / first, 1 / (series.length - 1)) - 1) * 100;
+  };
+
+  const cagr = cagrOf(annual.map(p => p.cashFlow.freeCashFlow)) ?? cagrOf(annual.map(p => p.income.netIncome));
+  return cagr === null ? null : round2(Math.min(GROWTH_CAP, Math.max(GROWTH_FLOOR, cagr)));
+};
+
+/**
+ * Estimates of every model with margin of safety against the live price
+ */
+export const computeValuationEstimates = (
+  assumptions: ValuationAssumptions,
+  eps: number | null,
+  bvps: number | null,
+  relative: RelativeValuation | null,
+  price: number
+): ValuationEstimate[] => {
+  const { dcf, ddm } = assumptions;
+  const dcfResult = computeDcf(dcf);
+  const estimates: { model: ValuationModel; value: number | null; note: string }[] = [
+    {
+      model: 'dcf',
+      value: dcfResult?.intrinsicValue ?? null,
+      note: dcf.baseFcf <= 0
+        ? 'FCF dasar harus positif'
+        : dcfResult
+          ? 'Utang bersih melebihi nilai perusahaan'
+          : 'Diskonto harus di atas pertumbuhan terminal (proyeksi 1-20 tahun)',
+    },
+    { model: 'graham', value: computeGrahamNumber(eps, bvps), note: 'Butuh EPS & nilai buku positif' },
+    {
+      model: 'ddm',
+      value: computeDividendDiscount(ddm),
+      note: ddm.dividend <= 0 ? 'Tidak membagikan dividen' : 'Imbal hasil harus di atas pertumbuhan dividen',
+    },
+    { model: 'relativePe', value: relative?.fairValuePe ?? null, note: 'Median PER sektor atau EPS positif tidak tersedia' },
+    { model: 'relativePb', value: relative?.fairValuePb ?? null, note: 'Median PBV sektor atau nilai buku tidak tersedia' },
+  ];
+
+  return estimates.map(({ model, value, note }) => {
+    const valid = value !== null && Number.isFinite(value) && value > 0;
+    return {
+      model,
+      label: VALUATION_MODEL_LABELS[model],
+      value: valid ? round2(value!) : null,
+      marginOfSafety: valid ? computeMarginOfSafety(value, price) : null,
+      ...(valid ? {} : { note }),
+    };
+  });
+};
+
+export default {
+  VALUATION_MODEL_LABELS,
+  computeDcf,
+  computeGrahamNumber,
+  computeDividendDiscount,
+  computeRelativeValuation,
+  computeMarginOfSafety,
+  computeValuationEstimates,
+  estimateGrowthRate,
+  median,
+};
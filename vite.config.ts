@@ -1,6 +1,9 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { priceStreamDevServer } from './server/priceStreamDevServer';
+import { alertChannelMockServer } from './server/alertChannelMockServer';
 
 export default defineConfig(({ mode }) => {
     // Load env from project root directory
@@ -19,7 +22,9 @@ export default defineConfig(({ mode }) => {
           deny: ['.env', '.env.local', '.env.production', '.git'],
         },
       },
-      plugins: [react()],
+      // priceStreamDevServer: stand-in SSE price stream di /api/price-stream (dev & preview)
+      // alertChannelMockServer: mock Telegram/webhook/relay email di /api/mock-alerts (dev & preview)
+      plugins: [react(), priceStreamDevServer(), alertChannelMockServer()],
       define: {
         // Only expose necessary env vars to client
         'process.env.API_KEY': JSON.stringify(apiKey),
@@ -31,6 +36,10 @@ export default defineConfig(({ mode }) => {
           '@': path.resolve(__dirname, '.'),
         }
       },
+      test: {
+        // localStorage stub untuk service yang membacanya saat di-import
+        setupFiles: ['./vitest.setup.ts'],
+      },
       build: {
         // Security: Don't generate sourcemaps in production (hides source code)
         sourcemap: mode === 'development',
@@ -0,0 +1,26 @@
+/**
+ * Vitest setup
+ * Map-backed localStorage for the node test environment
+ *
+ * - Service seperti portfolioService (lewat authService) membaca localStorage saat di-import,
+ *   jadi stub harus ada sebelum file test meng-import service apa pun
+ * - Dipasang langsung di globalThis (bukan vi.stubGlobal) supaya vi.unstubAllGlobals() di file test
+ *   mengembalikan ke stub ini; kosongkan lewat localStorage.clear() di beforeEach
+ */
+
+const storage = new Map<string, string>();
+
+globalThis.localStorage = {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => {
+    storage.set(key, String(value));
+  },
+  removeItem: (key: string) => {
+    storage.delete(key);
+  },
+  clear: () => storage.clear(),
+  key: (index: number) => [...storage.keys()][index] ?? null,
+  get length() {
+    return storage.size;
+  },
+};